@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "effectiveDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill: existing events took effect when they were recorded
+UPDATE "Event" SET "effectiveDate" = "timestamp";
+
+-- CreateIndex
+CREATE INDEX "Event_userId_effectiveDate_idx" ON "Event"("userId", "effectiveDate");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'USER';
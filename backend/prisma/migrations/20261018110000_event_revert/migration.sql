@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "revertsEventId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_revertsEventId_key" ON "Event"("revertsEventId");
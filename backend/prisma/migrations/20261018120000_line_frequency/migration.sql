@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "frequency" TEXT NOT NULL DEFAULT 'MONTHLY';
+
+-- AlterTable
+ALTER TABLE "IncomeLine" ADD COLUMN     "frequency" TEXT NOT NULL DEFAULT 'MONTHLY';
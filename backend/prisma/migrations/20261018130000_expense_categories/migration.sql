@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "categoryId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ExpenseCategory" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "name" TEXT NOT NULL,
+    "classification" TEXT NOT NULL DEFAULT 'ESSENTIAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExpenseCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Expense_categoryId_idx" ON "Expense"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "ExpenseCategory_userId_idx" ON "ExpenseCategory"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCategory" ADD CONSTRAINT "ExpenseCategory_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseCategory" ADD CONSTRAINT "ExpenseCategory_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ExpenseCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
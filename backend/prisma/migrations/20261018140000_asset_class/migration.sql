@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Asset" ADD COLUMN     "assetClass" TEXT NOT NULL DEFAULT 'OTHER',
+ADD COLUMN     "liquidity" TEXT NOT NULL DEFAULT 'ILLIQUID';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Liability" ADD COLUMN     "interestRate" DECIMAL(7,4),
+ADD COLUMN     "minimumPayment" DECIMAL(15,2),
+ADD COLUMN     "termMonths" INTEGER,
+ADD COLUMN     "startDate" DATE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "DebtPayoffPlan" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "strategy" TEXT NOT NULL DEFAULT 'AVALANCHE',
+    "extraPayment" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "customOrder" INTEGER[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DebtPayoffPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DebtPayoffPlan_userId_key" ON "DebtPayoffPlan"("userId");
+
+-- AddForeignKey
+ALTER TABLE "DebtPayoffPlan" ADD CONSTRAINT "DebtPayoffPlan_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
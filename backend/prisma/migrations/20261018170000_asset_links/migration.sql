@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "assetId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "IncomeLine" ADD COLUMN     "assetId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Expense_assetId_idx" ON "Expense"("assetId");
+
+-- CreateIndex
+CREATE INDEX "IncomeLine_assetId_idx" ON "IncomeLine"("assetId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IncomeLine" ADD CONSTRAINT "IncomeLine_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
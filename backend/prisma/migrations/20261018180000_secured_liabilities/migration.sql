@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Liability" ADD COLUMN     "assetId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Liability_assetId_idx" ON "Liability"("assetId");
+
+-- AddForeignKey
+ALTER TABLE "Liability" ADD CONSTRAINT "Liability_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "Asset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
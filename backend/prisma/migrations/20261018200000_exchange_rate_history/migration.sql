@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ExchangeRateHistory" (
+    "id" SERIAL NOT NULL,
+    "fromCurrencyId" INTEGER NOT NULL,
+    "toCurrencyId" INTEGER NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "effectiveDate" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExchangeRateHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRateHistory_pair_effectiveDate_key" ON "ExchangeRateHistory"("fromCurrencyId", "toCurrencyId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRateHistory" ADD CONSTRAINT "ExchangeRateHistory_fromCurrencyId_fkey" FOREIGN KEY ("fromCurrencyId") REFERENCES "Currency"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExchangeRateHistory" ADD CONSTRAINT "ExchangeRateHistory_toCurrencyId_fkey" FOREIGN KEY ("toCurrencyId") REFERENCES "Currency"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: current rates become the first recorded rate for their pair
+INSERT INTO "ExchangeRateHistory" ("fromCurrencyId", "toCurrencyId", "rate", "effectiveDate")
+SELECT "fromCurrencyId", "toCurrencyId", "rate", "updatedAt"::date FROM "ExchangeRate";
@@ -0,0 +1,95 @@
+-- AlterTable
+ALTER TABLE "Currency" ADD COLUMN     "cur_code" TEXT,
+ADD COLUMN     "cur_minor_units" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "cur_locale" TEXT NOT NULL DEFAULT 'en-US';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "numberLocale" TEXT;
+
+-- Backfill ISO 4217 metadata for the seeded currencies (kept in sync with
+-- src/domain/financial/currencyMetadata.ts). Seeds differ in how they name a
+-- currency, so each one takes the first rule that finds exactly one entry:
+-- 1. its name is the entry's name, ignoring case
+-- 2. its name or symbol is the entry's ISO code
+-- 3. its symbol is the entry's symbol, when no other entry shares it
+-- When two currencies resolve to the same code only the oldest gets it.
+WITH m(name, code, symbol, minor_units, locale) AS (
+    VALUES
+        ('US Dollar', 'USD', '$', 2, 'en-US'),
+        ('Euro', 'EUR', '€', 2, 'de-DE'),
+        ('British Pound', 'GBP', '£', 2, 'en-GB'),
+        ('Japanese Yen', 'JPY', '¥', 0, 'ja-JP'),
+        ('Philippine Peso', 'PHP', '₱', 2, 'en-PH'),
+        ('Chinese Yuan', 'CNY', '¥', 2, 'zh-CN'),
+        ('Indian Rupee', 'INR', '₹', 2, 'en-IN'),
+        ('South Korean Won', 'KRW', '₩', 0, 'ko-KR'),
+        ('Canadian Dollar', 'CAD', '$', 2, 'en-CA'),
+        ('Australian Dollar', 'AUD', '$', 2, 'en-AU'),
+        ('Swiss Franc', 'CHF', 'Fr', 2, 'de-CH'),
+        ('Singapore Dollar', 'SGD', '$', 2, 'en-SG'),
+        ('Hong Kong Dollar', 'HKD', '$', 2, 'zh-HK'),
+        ('New Zealand Dollar', 'NZD', '$', 2, 'en-NZ'),
+        ('Mexican Peso', 'MXN', '$', 2, 'es-MX'),
+        ('Brazilian Real', 'BRL', 'R$', 2, 'pt-BR'),
+        ('Swedish Krona', 'SEK', 'kr', 2, 'sv-SE'),
+        ('Norwegian Krone', 'NOK', 'kr', 2, 'nb-NO'),
+        ('Danish Krone', 'DKK', 'kr', 2, 'da-DK'),
+        ('South African Rand', 'ZAR', 'R', 2, 'en-ZA'),
+        ('Indonesian Rupiah', 'IDR', 'Rp', 2, 'id-ID'),
+        ('Thai Baht', 'THB', '฿', 2, 'th-TH'),
+        ('Vietnamese Dong', 'VND', '₫', 0, 'vi-VN'),
+        ('Malaysian Ringgit', 'MYR', 'RM', 2, 'ms-MY'),
+        ('Kuwaiti Dinar', 'KWD', 'KD', 3, 'ar-KW'),
+        ('Bahraini Dinar', 'BHD', 'BD', 3, 'ar-BH')
+),
+candidates AS (
+    SELECT c.id, m.code, m.minor_units, m.locale,
+        CASE
+            WHEN lower(trim(c."cur_name")) = lower(m.name) THEN 1
+            WHEN upper(trim(c."cur_name")) = m.code OR upper(trim(c."cur_symbol")) = m.code THEN 2
+            ELSE 3
+        END AS rule
+    FROM "Currency" AS c
+    JOIN m ON lower(trim(c."cur_name")) = lower(m.name)
+        OR upper(trim(c."cur_name")) = m.code
+        OR upper(trim(c."cur_symbol")) = m.code
+        OR trim(c."cur_symbol") = m.symbol
+),
+best_rule AS (
+    SELECT id, min(rule) AS rule
+    FROM (SELECT id, rule FROM candidates GROUP BY id, rule HAVING count(*) = 1) AS unambiguous
+    GROUP BY id
+),
+resolved AS (
+    SELECT candidates.*
+    FROM candidates
+    JOIN best_rule USING (id, rule)
+),
+first_per_code AS (
+    SELECT DISTINCT ON (code) id, code, minor_units, locale
+    FROM resolved
+    ORDER BY code, id
+)
+UPDATE "Currency" AS c
+SET "cur_code" = f.code, "cur_minor_units" = f.minor_units, "cur_locale" = f.locale
+FROM first_per_code AS f
+WHERE c.id = f.id;
+
+-- Report what could not be matched; those rows keep a NULL code, and their
+-- amounts are formatted with the plain symbol until one is set by hand
+DO $$
+DECLARE
+    unmatched TEXT;
+BEGIN
+    SELECT string_agg(format('%s "%s" (%s)', id, "cur_name", "cur_symbol"), ', ' ORDER BY id)
+    INTO unmatched
+    FROM "Currency"
+    WHERE "cur_code" IS NULL;
+
+    IF unmatched IS NOT NULL THEN
+        RAISE WARNING 'No ISO 4217 code for currencies: %', unmatched;
+    END IF;
+END $$;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Currency_cur_code_key" ON "Currency"("cur_code");
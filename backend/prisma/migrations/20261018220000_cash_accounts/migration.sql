@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "CashAccount" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "accountType" TEXT NOT NULL DEFAULT 'SAVINGS',
+    "amount" DECIMAL(15,2) NOT NULL DEFAULT 0,
+    "userId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CashAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CashAccount_userId_idx" ON "CashAccount"("userId");
+
+-- AddForeignKey
+ALTER TABLE "CashAccount" ADD CONSTRAINT "CashAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each single cash savings balance into a default account
+-- The id is kept so existing CASH_SAVINGS events replay into that account
+INSERT INTO "CashAccount" ("id", "name", "accountType", "amount", "userId")
+SELECT "id", 'Cash', 'SAVINGS', "amount", "userId"
+FROM "CashSavings";
+
+SELECT setval(pg_get_serial_sequence('"CashAccount"', 'id'), COALESCE((SELECT MAX("id") FROM "CashAccount"), 0) + 1, false);
+
+-- DropTable
+DROP TABLE "CashSavings";
+
+-- Cached checkpoints hold only the cash total; they are rebuilt per account on the next read
+DELETE FROM "FinancialSnapshot";
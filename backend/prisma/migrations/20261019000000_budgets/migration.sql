@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "Budget" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "expenseId" INTEGER,
+    "categoryId" INTEGER,
+    "monthlyLimit" DECIMAL(15,2) NOT NULL,
+    "rollover" TEXT NOT NULL DEFAULT 'NONE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Budget_pkey" PRIMARY KEY ("id"),
+    -- A budget covers either one expense or one category
+    CONSTRAINT "Budget_target_check" CHECK (("expenseId" IS NULL) <> ("categoryId" IS NULL))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_userId_expenseId_key" ON "Budget"("userId", "expenseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_userId_categoryId_key" ON "Budget"("userId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "Budget" ADD CONSTRAINT "Budget_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Budget" ADD CONSTRAINT "Budget_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Budget" ADD CONSTRAINT "Budget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "ScenarioBranch" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "forkDate" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScenarioBranch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScenarioEvent" (
+    "id" SERIAL NOT NULL,
+    "branchId" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "actionType" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entitySubtype" TEXT,
+    "entityId" INTEGER NOT NULL,
+    "beforeValue" JSONB,
+    "afterValue" JSONB,
+
+    CONSTRAINT "ScenarioEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScenarioBranch_userId_idx" ON "ScenarioBranch"("userId");
+
+-- CreateIndex
+CREATE INDEX "ScenarioEvent_branchId_effectiveDate_idx" ON "ScenarioEvent"("branchId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "ScenarioBranch" ADD CONSTRAINT "ScenarioBranch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScenarioEvent" ADD CONSTRAINT "ScenarioEvent_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "ScenarioBranch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "InflationIndex" (
+    "id" SERIAL NOT NULL,
+    "currencyId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "value" DECIMAL(20,6) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InflationIndex_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InflationIndex_currencyId_date_key" ON "InflationIndex"("currencyId", "date");
+
+-- AddForeignKey
+ALTER TABLE "InflationIndex" ADD CONSTRAINT "InflationIndex_currencyId_fkey" FOREIGN KEY ("currencyId") REFERENCES "Currency"("id") ON DELETE CASCADE ON UPDATE CASCADE;
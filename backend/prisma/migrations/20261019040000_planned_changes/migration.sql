@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "PlannedChange" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "label" TEXT NOT NULL,
+    "effectiveDate" DATE NOT NULL,
+    "changes" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "materializedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlannedChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlannedChange_userId_effectiveDate_idx" ON "PlannedChange"("userId", "effectiveDate");
+
+-- CreateIndex
+CREATE INDEX "PlannedChange_status_effectiveDate_idx" ON "PlannedChange"("status", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "PlannedChange" ADD CONSTRAINT "PlannedChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
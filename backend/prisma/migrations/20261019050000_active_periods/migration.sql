@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "activeFrom" DATE,
+ADD COLUMN     "activeUntil" DATE;
+
+-- AlterTable
+ALTER TABLE "IncomeLine" ADD COLUMN     "activeFrom" DATE,
+ADD COLUMN     "activeUntil" DATE;
+
+-- CreateIndex
+CREATE INDEX "Expense_activeUntil_idx" ON "Expense"("activeUntil");
+
+-- CreateIndex
+CREATE INDEX "IncomeLine_activeUntil_idx" ON "IncomeLine"("activeUntil");
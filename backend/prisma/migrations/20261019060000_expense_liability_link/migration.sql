@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "liabilityId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Expense_liabilityId_idx" ON "Expense"("liabilityId");
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_liabilityId_fkey" FOREIGN KEY ("liabilityId") REFERENCES "Liability"("id") ON DELETE SET NULL ON UPDATE CASCADE;
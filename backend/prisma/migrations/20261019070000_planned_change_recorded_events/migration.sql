@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PlannedChange" ADD COLUMN     "recordedEventIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
@@ -0,0 +1,110 @@
+import {
+    activeFinancialState,
+    expiryDate,
+    isActiveDuring,
+    isActiveOn,
+    mergeActivePeriod,
+    toActivePeriod
+} from '../domain/financial/activePeriods.js';
+import { createEmptyState, reconstructStateFromEvents } from '../domain/financial/reducers.js';
+import { ActionType, EntityType, Event } from '../types/event.types.js';
+
+const currency = { id: 1, symbol: "$", name: "USD" };
+
+function incomeEvent(id: number, actionType: ActionType, effectiveDate: string, afterValue: Record<string, any> | null): Event {
+    return {
+        id,
+        userId: 1,
+        timestamp: new Date(effectiveDate),
+        effectiveDate: new Date(effectiveDate),
+        actionType,
+        entityType: EntityType.INCOME,
+        entitySubtype: "EARNED",
+        entityId: 1,
+        beforeValue: null,
+        afterValue
+    } as Event;
+}
+
+describe("active periods", () => {
+    // Happy Path
+    it("should count a line from its first through its last active day", () => {
+        const period = toActivePeriod({ activeFrom: new Date("2026-02-01"), activeUntil: "2026-06-30" });
+
+        expect(period).toEqual({ activeFrom: "2026-02-01", activeUntil: "2026-06-30" });
+        expect(isActiveOn(period, new Date("2026-01-31T23:59:59Z"))).toBe(false);
+        expect(isActiveOn(period, new Date("2026-02-01T00:00:00Z"))).toBe(true);
+        expect(isActiveOn(period, new Date("2026-06-30T23:59:59Z"))).toBe(true);
+        expect(isActiveOn(period, expiryDate("2026-06-30"))).toBe(false);
+        expect(expiryDate("2026-06-30").toISOString()).toBe("2026-07-01T00:00:00.000Z");
+        expect(isActiveOn({}, new Date("1990-01-01"))).toBe(true);
+    });
+
+    it("should leave inactive lines out of a state without changing the rest", () => {
+        const state = createEmptyState(currency);
+        state.incomeLines.set(1, { id: 1, name: "Contract", amount: 5000, type: "EARNED", activeUntil: "2026-03-31" });
+        state.incomeLines.set(2, { id: 2, name: "Rent", amount: 900, type: "PASSIVE", activeFrom: "2026-05-01" });
+        state.expenses.set(1, { id: 1, name: "Streaming", amount: 15, activeUntil: "2026-04-15" });
+        state.assets.set(1, { id: 1, name: "Flat", value: 200000 });
+
+        const april = activeFinancialState(state, new Date("2026-04-10"));
+
+        expect([...april.incomeLines.keys()]).toEqual([]);
+        expect([...april.expenses.keys()]).toEqual([1]);
+        expect(april.assets).toBe(state.assets);
+
+        const may = activeFinancialState(state, new Date("2026-05-01"));
+
+        expect([...may.incomeLines.keys()]).toEqual([2]);
+        expect([...may.expenses.keys()]).toEqual([]);
+        // The full state keeps every line for later dates
+        expect(state.incomeLines.size).toBe(2);
+    });
+
+    it("should replay an ended line as counted only before its expiry event", () => {
+        const events = [
+            incomeEvent(1, ActionType.CREATE, "2026-01-01", {
+                name: "Contract", amount: 5000, type: "Earned", quadrant: "EMPLOYEE", activeUntil: "2026-03-31"
+            }),
+            incomeEvent(2, ActionType.DELETE, expiryDate("2026-03-31").toISOString(), null)
+        ];
+
+        const march = reconstructStateFromEvents(events, new Date("2026-03-31T12:00:00Z"), currency);
+        const april = reconstructStateFromEvents(events, new Date("2026-04-01T12:00:00Z"), currency);
+
+        expect(march.incomeLines.get(1)?.activeUntil).toBe("2026-03-31");
+        expect(activeFinancialState(march, new Date("2026-03-31T12:00:00Z")).incomeLines.size).toBe(1);
+        expect(april.incomeLines.size).toBe(0);
+    });
+
+    it("should count a line in every month it is active on at least one day", () => {
+        const period = { activeFrom: "2026-02-15", activeUntil: "2026-03-01" };
+        const month = (start: string, end: string) => isActiveDuring(period, new Date(start), new Date(end));
+
+        expect(month("2026-01-01", "2026-02-01")).toBe(false);
+        expect(month("2026-02-01", "2026-03-01")).toBe(true);
+        expect(month("2026-03-01", "2026-04-01")).toBe(true);
+        expect(month("2026-04-01", "2026-05-01")).toBe(false);
+    });
+
+    it("should keep stored dates a partial update leaves out and clear the ones sent as null", () => {
+        const stored = { activeFrom: new Date("2026-05-01"), activeUntil: new Date("2026-12-31") };
+
+        expect(mergeActivePeriod(stored, { activeUntil: "2027-06-30" })).toEqual({ activeFrom: "2026-05-01", activeUntil: "2027-06-30" });
+        expect(mergeActivePeriod(stored, { activeFrom: null })).toEqual({ activeFrom: null, activeUntil: "2026-12-31" });
+    });
+
+    // Sad Path
+    it("should treat missing or malformed dates as no bound", () => {
+        expect(toActivePeriod({})).toEqual({ activeFrom: null, activeUntil: null });
+        expect(toActivePeriod({ activeFrom: 20260101, activeUntil: undefined })).toEqual({ activeFrom: null, activeUntil: null });
+    });
+
+    it("should reject a partial update that ends a line before its stored start", () => {
+        const stored = { activeFrom: new Date("2026-05-01"), activeUntil: null };
+
+        expect(() => mergeActivePeriod(stored, { activeUntil: "2026-04-30" })).toThrow('Active until cannot be before active from');
+        expect(() => mergeActivePeriod({ activeFrom: null, activeUntil: new Date("2026-03-31") }, { activeFrom: "2026-04-01" }))
+            .toThrow('Active until cannot be before active from');
+    });
+});
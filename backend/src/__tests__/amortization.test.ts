@@ -0,0 +1,59 @@
+import {
+    buildAmortizationSchedule,
+    calculateMonthlyPayment,
+    summarizeLoan
+} from '../domain/financial/amortization.js';
+
+const asOf = new Date('2026-01-15T00:00:00Z');
+
+describe("calculateMonthlyPayment", () => {
+    // Happy Path
+    it("should compute the level payment for a fixed-rate loan", () => {
+        expect(calculateMonthlyPayment(200000, 6, 360)).toBe(1199.1);
+        expect(calculateMonthlyPayment(1200, 0, 12)).toBe(100);
+    });
+});
+
+describe("buildAmortizationSchedule", () => {
+    // Happy Path
+    it("should split each payment into interest and principal until paid off", () => {
+        const schedule = buildAmortizationSchedule(1000, { interestRate: 12, minimumPayment: 100 }, asOf);
+        const first = schedule.periods[0]!;
+        const last = schedule.periods[schedule.periods.length - 1]!;
+
+        expect(first).toEqual({ period: 1, date: "2026-02-15", payment: 100, principal: 90, interest: 10, balance: 910 });
+        expect(schedule.periods).toHaveLength(11);
+        expect(last.balance).toBe(0);
+        expect(schedule.payoffDate).toBe(last.date);
+        expect(schedule.totalPaid).toBeCloseTo(1000 + schedule.totalInterest);
+    });
+
+    it("should derive the payment from the term left since the start date", () => {
+        const schedule = buildAmortizationSchedule(
+            600,
+            { interestRate: 0, termMonths: 12, startDate: "2025-07-01" },
+            asOf
+        );
+
+        expect(schedule.monthlyPayment).toBe(100);
+        expect(schedule.periods).toHaveLength(6);
+        expect(schedule.totalInterest).toBe(0);
+    });
+
+    // Sad Path
+    it("should reject loans with no payment or term, or a payment below the interest", () => {
+        expect(() => buildAmortizationSchedule(1000, { interestRate: 5 }, asOf))
+            .toThrow('Loan terms need a minimum payment or a term');
+        expect(() => buildAmortizationSchedule(10000, { interestRate: 24, minimumPayment: 150 }, asOf))
+            .toThrow('Payment does not cover the monthly interest');
+    });
+});
+
+describe("summarizeLoan", () => {
+    // Sad Path
+    it("should return null when the loan cannot be amortized", () => {
+        expect(summarizeLoan(1000, {}, asOf)).toBeNull();
+        expect(summarizeLoan(10000, { interestRate: 24, minimumPayment: 150 }, asOf)).toBeNull();
+        expect(summarizeLoan(1000, { interestRate: 12, minimumPayment: 100 }, asOf)?.remainingMonths).toBe(11);
+    });
+});
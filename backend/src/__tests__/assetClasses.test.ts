@@ -0,0 +1,66 @@
+import {
+    AssetClass,
+    LiquidityTier,
+    calculateAssetAllocation,
+    calculateLiquidAssets,
+    calculateLiquidRunway,
+    resolveAssetClassification
+} from '../domain/financial/assetClasses.js';
+
+describe("resolveAssetClassification", () => {
+    // Happy Path
+    it("should default liquidity from the asset class", () => {
+        expect(resolveAssetClassification(AssetClass.EQUITIES)).toEqual({
+            assetClass: AssetClass.EQUITIES,
+            liquidity: LiquidityTier.LIQUID
+        });
+        expect(resolveAssetClassification(AssetClass.REAL_ESTATE, LiquidityTier.SEMI_LIQUID).liquidity)
+            .toBe(LiquidityTier.SEMI_LIQUID);
+    });
+
+    // Sad Path
+    it("should treat unclassified assets as illiquid", () => {
+        expect(resolveAssetClassification(undefined, undefined)).toEqual({
+            assetClass: AssetClass.OTHER,
+            liquidity: LiquidityTier.ILLIQUID
+        });
+        expect(resolveAssetClassification("STOCKS", "FAST").assetClass).toBe(AssetClass.OTHER);
+    });
+});
+
+describe("liquid runway", () => {
+    const assets = [
+        { value: 20000, assetClass: AssetClass.EQUITIES },
+        { value: 15000, assetClass: AssetClass.VEHICLE },
+        { value: 300000, assetClass: AssetClass.REAL_ESTATE }
+    ];
+
+    // Happy Path
+    it("should count only liquid assets alongside cash", () => {
+        expect(calculateLiquidAssets(assets)).toBe(20000);
+        expect(calculateLiquidRunway(10000, 20000, 3000)).toBe(10);
+    });
+
+    // Sad Path
+    it("should report no runway when there is nothing liquid and no expenses", () => {
+        expect(calculateLiquidRunway(0, 0, 0)).toBe(0);
+        expect(calculateLiquidRunway(500, 0, 0)).toBe(999);
+    });
+});
+
+describe("calculateAssetAllocation", () => {
+    // Happy Path
+    it("should group asset value by class with cash as cash-equivalent", () => {
+        const allocation = calculateAssetAllocation([
+            { value: 30000, assetClass: AssetClass.EQUITIES },
+            { value: 10000, assetClass: AssetClass.CASH_EQUIVALENT },
+            { value: 50000 }
+        ], 10000);
+
+        expect(allocation.total).toBe(100000);
+        expect(allocation.CASH_EQUIVALENT).toEqual({ amount: 20000, pct: 20 });
+        expect(allocation.EQUITIES.pct).toBe(30);
+        expect(allocation.OTHER.amount).toBe(50000);
+        expect(allocation.CRYPTO).toEqual({ amount: 0, pct: 0 });
+    });
+});
@@ -0,0 +1,72 @@
+import { calculateAssetEquity, calculateAssetPerformance } from '../domain/financial/metrics.js';
+import { Frequency } from '../domain/financial/frequency.js';
+
+const assets = [
+    { id: 1, name: "Rental Flat", value: 200000 },
+    { id: 2, name: "Land", value: 50000 }
+];
+
+describe("calculateAssetPerformance", () => {
+    // Happy Path
+    it("should attribute linked income and expenses to each asset", () => {
+        const [flat, land] = calculateAssetPerformance(
+            assets,
+            [
+                { amount: 1500, frequency: Frequency.MONTHLY, assetId: 1 },
+                { amount: 5000, frequency: Frequency.MONTHLY, assetId: null }
+            ],
+            [
+                { amount: 3000, frequency: Frequency.ANNUAL, assetId: 1 },
+                { amount: 600, frequency: Frequency.ANNUAL, assetId: 2 }
+            ]
+        );
+
+        expect(flat!.monthlyIncome).toBe(1500);
+        expect(flat!.monthlyExpenses).toBe(250);
+        expect(flat!.netCashflow).toBe(1250);
+        expect(flat!.yield).toBe(9);
+        expect(flat!.roi).toBe(7.5);
+        expect(land!.netCashflow).toBe(-50);
+        expect(land!.roi).toBe(-1.2);
+    });
+
+    // Sad Path
+    it("should report zero yield for assets without a value", () => {
+        const [performance] = calculateAssetPerformance(
+            [{ id: 1, name: "Gift", value: 0 }],
+            [{ amount: 100, assetId: 1 }],
+            []
+        );
+
+        expect(performance!.monthlyIncome).toBe(100);
+        expect(performance!.yield).toBe(0);
+        expect(performance!.roi).toBe(0);
+    });
+});
+
+describe("calculateAssetEquity", () => {
+    // Happy Path
+    it("should subtract secured loans and flag underwater assets", () => {
+        const [flat, land] = calculateAssetEquity(assets, [
+            { value: 150000, assetId: 1 },
+            { value: 60000, assetId: 2 },
+            { value: 5000, assetId: null }
+        ]);
+
+        expect(flat!.securedDebt).toBe(150000);
+        expect(flat!.equity).toBe(50000);
+        expect(flat!.loanToValue).toBe(75);
+        expect(flat!.underwater).toBe(false);
+        expect(land!.equity).toBe(-10000);
+        expect(land!.loanToValue).toBe(120);
+        expect(land!.underwater).toBe(true);
+    });
+
+    // Sad Path
+    it("should report no loan-to-value for a worthless asset that still carries debt", () => {
+        const [car] = calculateAssetEquity([{ id: 1, name: "Written-off Car", value: 0 }], [{ value: 2000, assetId: 1 }]);
+
+        expect(car!.loanToValue).toBeNull();
+        expect(car!.underwater).toBe(true);
+    });
+});
@@ -0,0 +1,95 @@
+import { ActionType, EntityType, Event } from '../types/event.types.js';
+import { endOfDay, forkEventStream, toBranchEvent } from '../domain/financial/branches.js';
+import { reconstructStateFromEvents } from '../domain/financial/reducers.js';
+
+const currency = { id: 1, symbol: "$", name: "USD" };
+
+const event = (id: number, effectiveDate: string, overrides: Partial<Event>): Event => ({
+    id,
+    timestamp: new Date(effectiveDate),
+    effectiveDate: new Date(effectiveDate),
+    actionType: ActionType.CREATE,
+    entityType: EntityType.INCOME,
+    entitySubtype: "Earned",
+    beforeValue: null,
+    afterValue: null,
+    userId: 1,
+    entityId: 1,
+    ...overrides
+});
+
+// Salary from January, a raise in July; the branch forks in March
+const realEvents = [
+    event(1, "2025-01-10T00:00:00Z", { afterValue: { name: "Salary", amount: 5000, type: "Earned" } }),
+    event(2, "2025-07-01T00:00:00Z", {
+        actionType: ActionType.UPDATE,
+        beforeValue: { name: "Salary", amount: 5000, type: "Earned" },
+        afterValue: { name: "Salary", amount: 6000, type: "Earned" }
+    })
+];
+
+const forkPoint = endOfDay("2025-03-31");
+
+describe("forkEventStream", () => {
+    // Happy Path
+    it("should replay real events up to the fork and the branch's own events after it", () => {
+        const branchEvents = [
+            toBranchEvent({
+                id: 1,
+                timestamp: new Date("2025-04-01T00:00:00Z"),
+                effectiveDate: endOfDay("2025-04-15"),
+                actionType: ActionType.DELETE,
+                entityType: EntityType.INCOME,
+                entitySubtype: "Earned",
+                entityId: 1,
+                beforeValue: { name: "Salary", amount: 5000, type: "Earned" },
+                afterValue: null
+            }, 1),
+            toBranchEvent({
+                id: 2,
+                timestamp: new Date("2025-04-01T00:00:00Z"),
+                effectiveDate: endOfDay("2025-04-15"),
+                actionType: ActionType.CREATE,
+                entityType: EntityType.INCOME,
+                entitySubtype: "Passive",
+                entityId: 2,
+                beforeValue: null,
+                afterValue: { name: "Rent", amount: 1500, type: "Passive" }
+            }, 1)
+        ];
+
+        const stream = forkEventStream(realEvents, branchEvents, forkPoint);
+
+        expect(stream.map(e => e.id)).toEqual([1, 1 - Number.MAX_SAFE_INTEGER, 2 - Number.MAX_SAFE_INTEGER]);
+        expect(stream.every(e => e.id === 1 || e.id < 0)).toBe(true);
+        expect(endOfDay("2025-03-31").toISOString()).toBe("2025-03-31T23:59:59.999Z");
+
+        const branchState = reconstructStateFromEvents(stream, new Date("2025-12-31"), currency);
+        expect(Array.from(branchState.incomeLines.values()).map(i => i.name)).toEqual(["Rent"]);
+
+        // Reality is replayed from the real events alone and keeps the raise
+        const realState = reconstructStateFromEvents(realEvents, new Date("2025-12-31"), currency);
+        expect(realState.incomeLines.get(1)!.amount).toBe(6000);
+        expect(realState.incomeLines.has(2)).toBe(false);
+    });
+
+    // Sad Path
+    it("should drop branch events dated before the fork and real events after it", () => {
+        const early = toBranchEvent({
+            id: 3,
+            timestamp: new Date("2025-02-01T00:00:00Z"),
+            effectiveDate: new Date("2025-02-01T00:00:00Z"),
+            actionType: ActionType.DELETE,
+            entityType: EntityType.INCOME,
+            entitySubtype: "Earned",
+            entityId: 1,
+            beforeValue: null,
+            afterValue: null
+        }, 1);
+
+        const stream = forkEventStream(realEvents, [early], forkPoint);
+
+        expect(stream.map(e => e.id)).toEqual([1]);
+        expect(forkEventStream([], [], forkPoint)).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { getBudgetReport } = await import('../services/expense.service.js');
+
+const event = (
+    id: number,
+    entityType: EntityType,
+    actionType: ActionType,
+    effectiveDate: string,
+    beforeValue: Record<string, any> | null,
+    afterValue: Record<string, any> | null
+) => ({
+    id,
+    userId: 1,
+    actionType,
+    entityType,
+    entitySubtype: null,
+    entityId: 1,
+    beforeValue,
+    afterValue,
+    timestamp: new Date(effectiveDate),
+    effectiveDate: new Date(effectiveDate),
+    source: "USER",
+    revertsEventId: null
+});
+
+const rent = (amount: number) => ({ name: "Rent", amount, frequency: "MONTHLY", categoryId: null, currencyId: null });
+const rentBudget = (monthlyLimit: number) => ({ expenseId: 1, categoryId: null, monthlyLimit, rollover: "NONE" });
+
+beforeEach(() => {
+    // Switched from USD to JPY at 150 in September
+    db.user!.rows.splice(0, Infinity, { id: 1, preferredCurrencyId: 2 });
+    db.exchangeRate!.rows.splice(0, Infinity, { id: 1, fromCurrencyId: 1, toCurrencyId: 2, rate: 150 });
+    db.event!.rows.splice(0, Infinity,
+        event(1, EntityType.EXPENSE, ActionType.CREATE, "2026-08-01", null, rent(1500)),
+        event(2, EntityType.BUDGET, ActionType.CREATE, "2026-08-01", null, rentBudget(1600)),
+        event(3, EntityType.USER, ActionType.UPDATE, "2026-09-15",
+            { preferredCurrencyId: 1, currencyCode: "$", currencyName: "USD" },
+            { preferredCurrencyId: 2, currencyCode: "¥", currencyName: "JPY", conversionRate: 150 }),
+        event(4, EntityType.EXPENSE, ActionType.UPDATE, "2026-09-15", rent(1500), rent(225000)),
+        event(5, EntityType.BUDGET, ActionType.UPDATE, "2026-09-15", rentBudget(1600), rentBudget(240000))
+    );
+    // Converted along with the preferred currency
+    db.transaction!.rows.splice(0, Infinity, {
+        id: 1, userId: 1, date: new Date("2026-08-03"), amount: 225000, direction: "OUTFLOW",
+        categoryId: null, expenseId: 1, Expense: { categoryId: null }
+    });
+});
+
+describe("getBudgetReport across a currency change", () => {
+    // Happy Path
+    it("should report a month before the change in the current preferred currency", async () => {
+        const report = await getBudgetReport(1, "2026-08");
+
+        expect(report.budgets).toHaveLength(1);
+        expect(report.budgets[0]).toMatchObject({ monthlyLimit: 240000, planned: 225000, actual: 225000 });
+    });
+
+    it("should report a month after the change as recorded", async () => {
+        const report = await getBudgetReport(1, "2026-10");
+
+        expect(report.budgets[0]).toMatchObject({ monthlyLimit: 240000, planned: 225000, actual: 0 });
+    });
+
+    it("should not plan an expense outside its active period", async () => {
+        db.event!.rows.push(
+            event(6, EntityType.EXPENSE, ActionType.UPDATE, "2026-09-20", rent(225000), { ...rent(225000), activeUntil: "2026-09-30" })
+        );
+
+        expect((await getBudgetReport(1, "2026-09")).budgets[0]).toMatchObject({ planned: 225000 });
+        expect((await getBudgetReport(1, "2026-10")).budgets[0]).toMatchObject({ planned: 0 });
+    });
+
+    // Sad Path
+    it("should leave amounts alone when the preferred currency never changed", async () => {
+        db.user!.rows[0]!.preferredCurrencyId = 1;
+        db.event!.rows.splice(2, Infinity);
+        db.transaction!.rows[0]!.amount = 1500;
+
+        const report = await getBudgetReport(1, "2026-08");
+
+        expect(report.budgets[0]).toMatchObject({ monthlyLimit: 1600, planned: 1500, actual: 1500 });
+    });
+});
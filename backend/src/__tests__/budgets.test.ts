@@ -0,0 +1,90 @@
+import { Frequency } from '../domain/financial/frequency.js';
+import {
+    BudgetDefinition,
+    BudgetRollover,
+    calculateBudgetHistory,
+    isWithinCategory,
+    listMonths,
+    nextCarryOver
+} from '../domain/financial/budgets.js';
+
+const budget = (overrides: Partial<BudgetDefinition>): BudgetDefinition => ({
+    id: 1,
+    expenseId: null,
+    categoryId: null,
+    monthlyLimit: 0,
+    rollover: BudgetRollover.NONE,
+    ...overrides
+});
+
+// Food (1) > Groceries (2) > Organic (3); Transport (4)
+const parents = new Map<number, number | null>([[1, null], [2, 1], [3, 2], [4, null]]);
+
+describe("calculateBudgetHistory", () => {
+    const groceries = budget({ id: 1, categoryId: 2, monthlyLimit: 400, rollover: BudgetRollover.CARRY_UNUSED });
+    const expenses = [
+        { id: 10, name: "Groceries", amount: 350, frequency: Frequency.MONTHLY, categoryId: 3 },
+        { id: 11, name: "Train pass", amount: 1200, frequency: Frequency.ANNUAL, categoryId: 4 }
+    ];
+
+    // Happy Path
+    it("should compare budget, plan and actual across a category subtree", () => {
+        const [march] = calculateBudgetHistory([{
+            month: "2025-03",
+            budgets: [groceries],
+            expenses,
+            spending: [
+                { amount: 120, categoryId: 2 },
+                { amount: 80.5, expenseId: 10, categoryId: 3 },
+                { amount: 60, categoryId: 4 },
+                { amount: 25, categoryId: 1 }
+            ]
+        }], parents);
+
+        expect(march!.budgets[0]).toMatchObject({
+            available: 400,
+            planned: 350,
+            actual: 200.5,
+            remaining: 199.5,
+            plannedVariance: 50,
+            actualVariance: 199.5,
+            overBudget: false,
+            overPlanned: false
+        });
+    });
+
+    it("should carry budget into the next month according to the rollover rule", () => {
+        const transport = budget({ id: 2, expenseId: 11, monthlyLimit: 100, rollover: BudgetRollover.CARRY_ALL });
+        const history = calculateBudgetHistory([
+            { month: "2025-03", budgets: [groceries, transport], expenses, spending: [
+                { amount: 300, categoryId: 2 },
+                { amount: 130, expenseId: 11 }
+            ] },
+            { month: "2025-04", budgets: [groceries, transport], expenses, spending: [] }
+        ], parents);
+
+        expect(history[1]!.budgets.map(status => [status.carriedOver, status.available])).toEqual([
+            [100, 500],
+            [-30, 70]
+        ]);
+        expect(history[0]!.totals.overBudgetCount).toBe(1);
+        expect(nextCarryOver(BudgetRollover.NONE, 400, 100)).toBe(0);
+        expect(nextCarryOver(BudgetRollover.CARRY_UNUSED, 400, 450)).toBe(0);
+    });
+
+    // Sad Path
+    it("should flag overspending and reset carry-over once a budget is removed", () => {
+        const history = calculateBudgetHistory([
+            { month: "2025-03", budgets: [groceries], expenses, spending: [{ amount: 100, categoryId: 3 }] },
+            { month: "2025-04", budgets: [], expenses, spending: [] },
+            { month: "2025-05", budgets: [groceries], expenses, spending: [{ amount: 450, categoryId: 2 }] }
+        ], parents);
+
+        expect(history[1]!.budgets).toEqual([]);
+        expect(history[2]!.budgets[0]).toMatchObject({ carriedOver: 0, available: 400, overBudget: true, remaining: -50 });
+        expect(isWithinCategory(4, 1, parents)).toBe(false);
+        expect(isWithinCategory(null, 1, parents)).toBe(false);
+        expect(isWithinCategory(5, 1, new Map([[5, 6], [6, 5]]))).toBe(false);
+        expect(listMonths("2025-11", "2026-02")).toEqual(["2025-11", "2025-12", "2026-01", "2026-02"]);
+    });
+});
@@ -0,0 +1,68 @@
+import { CashAccountType, sumCashAccounts } from '../domain/financial/cashAccounts.js';
+import { cashSavingsReducer, createEmptyState } from '../domain/financial/reducers.js';
+import { ActionType, EntityType, Event } from '../types/event.types.js';
+
+let nextEventId = 1;
+
+const cashEvent = (actionType: ActionType, entityId: number, afterValue: Record<string, unknown> | null): Event => ({
+    id: nextEventId++,
+    timestamp: new Date("2025-01-01"),
+    effectiveDate: new Date("2025-01-01"),
+    actionType,
+    entityType: EntityType.CASH_SAVINGS,
+    entitySubtype: null,
+    beforeValue: null,
+    afterValue,
+    userId: 1,
+    entityId
+});
+
+describe("cashSavingsReducer", () => {
+    // Happy Path
+    it("should keep a balance per account and roll them up to the cash total", () => {
+        const state = [
+            cashEvent(ActionType.CREATE, 1, { name: "Checking", accountType: CashAccountType.CHECKING, amount: 1200 }),
+            cashEvent(ActionType.CREATE, 2, { name: "Emergency fund", accountType: CashAccountType.EMERGENCY_FUND, amount: 5000 }),
+            cashEvent(ActionType.UPDATE, 1, { name: "Checking", accountType: CashAccountType.CHECKING, amount: 800.5 })
+        ].reduce(cashSavingsReducer, createEmptyState({ symbol: "$", name: "US Dollar" }));
+
+        expect(state.cashSavings).toBe(5800.5);
+        expect(state.cashAccounts.get(1)).toEqual({
+            id: 1,
+            name: "Checking",
+            amount: 800.5,
+            accountType: CashAccountType.CHECKING
+        });
+
+        const afterDelete = cashSavingsReducer(state, cashEvent(ActionType.DELETE, 2, null));
+        expect(afterDelete.cashSavings).toBe(800.5);
+        expect(afterDelete.cashAccounts.has(2)).toBe(false);
+    });
+
+    it("should replay events recorded before accounts existed into the default account", () => {
+        const state = [
+            cashEvent(ActionType.CREATE, 7, { id: 7, userId: 1, amount: 0 }),
+            cashEvent(ActionType.UPDATE, 7, { amount: 2500 })
+        ].reduce(cashSavingsReducer, createEmptyState({ symbol: "$", name: "US Dollar" }));
+
+        expect(state.cashSavings).toBe(2500);
+        expect(state.cashAccounts.get(7)).toEqual({
+            id: 7,
+            name: "Cash",
+            amount: 2500,
+            accountType: CashAccountType.SAVINGS
+        });
+    });
+
+    // Sad Path
+    it("should ignore events without an amount and unknown account types", () => {
+        const empty = createEmptyState({ symbol: "$", name: "US Dollar" });
+        const state = cashSavingsReducer(empty, cashEvent(ActionType.UPDATE, 3, { name: "Wallet" }));
+
+        expect(state.cashAccounts.size).toBe(0);
+        expect(state.cashSavings).toBe(0);
+        expect(cashSavingsReducer(empty, cashEvent(ActionType.CREATE, 4, { name: "Jar", accountType: "PIGGY_BANK", amount: 10 }))
+            .cashAccounts.get(4)!.accountType).toBe(CashAccountType.SAVINGS);
+        expect(sumCashAccounts([{ amount: 0.1 }, { amount: 0.2 }])).toBe(0.3);
+    });
+});
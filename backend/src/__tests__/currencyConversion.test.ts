@@ -0,0 +1,164 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { convertUserCurrency, previewCurrencyConversion } = await import('../services/currencyConversion.service.js');
+
+const usd = { id: 1, cur_symbol: "$", cur_name: "USD" };
+const jpy = { id: 2, cur_symbol: "¥", cur_name: "JPY" };
+const eur = { id: 3, cur_symbol: "€", cur_name: "EUR" };
+
+const balanceSheet = { userId: 1 };
+const incomeStatement = { userId: 1 };
+
+beforeEach(() => {
+    db.currency!.rows.splice(0, Infinity, usd, jpy, eur);
+    db.user!.rows.splice(0, Infinity, { id: 1, preferredCurrencyId: 1, PreferredCurrency: usd });
+    db.asset!.rows.splice(0, Infinity,
+        { id: 1, name: "Index Fund", value: 5000, assetClass: "EQUITIES", liquidity: "LIQUID", currencyId: null, BalanceSheet: balanceSheet },
+        // Held in its own currency, so it keeps its native value
+        { id: 2, name: "Paris Flat", value: 200000, assetClass: "REAL_ESTATE", liquidity: "ILLIQUID", currencyId: 3, BalanceSheet: balanceSheet }
+    );
+    db.liability!.rows.splice(0, Infinity, {
+        id: 1, name: "Car Loan", value: 8000, interestRate: 5, minimumPayment: 250, termMonths: null, startDate: null,
+        assetId: null, currencyId: null, BalanceSheet: balanceSheet
+    });
+    db.incomeLine!.rows.splice(0, Infinity, {
+        id: 1, name: "Salary", amount: 4000, type: "Earned", quadrant: "EMPLOYEE", frequency: "MONTHLY",
+        assetId: null, currencyId: null, activeFrom: null, activeUntil: null, IncomeStatement: incomeStatement
+    });
+    db.expense!.rows.splice(0, Infinity, {
+        id: 1, name: "Rent", amount: 1500, frequency: "MONTHLY", categoryId: null, assetId: null, liabilityId: null,
+        currencyId: null, activeFrom: null, activeUntil: null, IncomeStatement: incomeStatement
+    });
+    db.cashAccount!.rows.splice(0, Infinity, { id: 1, userId: 1, name: "Checking", accountType: "CHECKING", amount: 1200.5 });
+    db.budget!.rows.splice(0, Infinity, {
+        id: 1, userId: 1, expenseId: 1, categoryId: null, monthlyLimit: 1600, rollover: "NONE", Expense: { name: "Rent" }, ExpenseCategory: null
+    });
+    db.debtPayoffPlan!.rows.splice(0, Infinity, { id: 1, userId: 1, strategy: "AVALANCHE", extraPayment: 100, customOrder: [] });
+    db.goal!.rows.splice(0, Infinity,
+        { id: 1, userId: 1, metric: "NET_WORTH", targetValue: 100000, startValue: 20000 },
+        // Measured in months, so the conversion leaves it alone
+        { id: 2, userId: 1, metric: "LIQUID_RUNWAY", targetValue: 6, startValue: 2 }
+    );
+    db.transaction!.rows.splice(0, Infinity,
+        { id: 1, userId: 1, date: new Date("2026-09-01"), amount: 1500, direction: "OUTFLOW", description: "September rent", cashAccountId: 1, expenseId: 1 },
+        { id: 2, userId: 2, date: new Date("2026-09-01"), amount: 80, direction: "OUTFLOW", description: "Another user's groceries", cashAccountId: null, expenseId: null }
+    );
+    db.plannedChange!.rows.splice(0, Infinity, {
+        id: 1, userId: 1, label: "New car", effectiveDate: new Date("2027-03-01"), status: "PENDING", changes: [
+            { type: "ADD", entityType: "LIABILITY", data: { name: "Car Loan 2", value: 20000, interestRate: 6, minimumPayment: 400, currencyId: null } },
+            { type: "ADJUST_CASH", cashAccountId: 1, amount: -5000 },
+            { type: "SCALE", entityType: "EXPENSE", entityId: 1, factor: 0.9 }
+        ]
+    });
+    db.scenarioEvent!.rows.splice(0, Infinity,
+        {
+            id: 1, branchId: 1, actionType: "UPDATE", entityType: "EXPENSE", entityId: 1,
+            beforeValue: { name: "Rent", amount: 1500, currencyId: null }, afterValue: { name: "Rent", amount: 1200, currencyId: null },
+            ScenarioBranch: { userId: 1, forkDate: new Date("2099-01-01") }
+        },
+        // Forked before the switch, so it replays in the old currency
+        {
+            id: 2, branchId: 2, actionType: "CREATE", entityType: "ASSET", entityId: -1,
+            beforeValue: null, afterValue: { name: "Boat", value: 3000, currencyId: null },
+            ScenarioBranch: { userId: 1, forkDate: new Date("2026-01-01") }
+        }
+    );
+    db.event!.rows.splice(0, Infinity);
+    db.financialSnapshot!.rows.splice(0, Infinity);
+});
+
+describe("previewCurrencyConversion", () => {
+    // Happy Path
+    it("should list every preferred-currency amount at the new rate", async () => {
+        const preview = await previewCurrencyConversion(1, 2, 150);
+
+        expect(preview.rate).toBe(150);
+        expect(preview.items.map(({ entityType, entityId, field, before, after }) => ({ entityType, entityId, field, before, after }))).toEqual([
+            { entityType: EntityType.ASSET, entityId: 1, field: "value", before: 5000, after: 750000 },
+            { entityType: EntityType.LIABILITY, entityId: 1, field: "value", before: 8000, after: 1200000 },
+            { entityType: EntityType.LIABILITY, entityId: 1, field: "minimumPayment", before: 250, after: 37500 },
+            { entityType: EntityType.INCOME, entityId: 1, field: "amount", before: 4000, after: 600000 },
+            { entityType: EntityType.EXPENSE, entityId: 1, field: "amount", before: 1500, after: 225000 },
+            { entityType: EntityType.CASH_SAVINGS, entityId: 1, field: "amount", before: 1200.5, after: 180075 },
+            { entityType: EntityType.BUDGET, entityId: 1, field: "monthlyLimit", before: 1600, after: 240000 }
+        ]);
+        expect(preview.items.at(-1)!.name).toBe("Rent");
+        expect(db.event!.rows).toHaveLength(0);
+    });
+});
+
+describe("convertUserCurrency", () => {
+    // Happy Path
+    it("should re-denominate every preferred-currency amount", async () => {
+        await convertUserCurrency(1, 2, 150);
+
+        expect(db.user!.rows[0]!.preferredCurrencyId).toBe(2);
+        expect(db.asset!.rows.map(asset => asset.value)).toEqual([750000, 200000]);
+        expect(db.liability!.rows[0]).toMatchObject({ value: 1200000, minimumPayment: 37500 });
+        expect(db.incomeLine!.rows[0]!.amount).toBe(600000);
+        expect(db.expense!.rows[0]!.amount).toBe(225000);
+        expect(db.cashAccount!.rows[0]!.amount).toBe(180075);
+        expect(db.budget!.rows[0]!.monthlyLimit).toBe(240000);
+        expect(db.debtPayoffPlan!.rows[0]!.extraPayment).toBe(15000);
+        expect(db.goal!.rows.map(({ targetValue, startValue }) => ({ targetValue, startValue }))).toEqual([
+            { targetValue: 15000000, startValue: 3000000 },
+            { targetValue: 6, startValue: 2 }
+        ]);
+        expect(db.transaction!.rows.map(transaction => transaction.amount)).toEqual([225000, 80]);
+    });
+
+    it("should convert pending planned changes and the events of branches forked from today", async () => {
+        await convertUserCurrency(1, 2, 150);
+
+        expect(db.plannedChange!.rows[0]!.changes).toEqual([
+            { type: "ADD", entityType: "LIABILITY", data: { name: "Car Loan 2", value: 3000000, interestRate: 6, minimumPayment: 60000 } },
+            { type: "ADJUST_CASH", cashAccountId: 1, amount: -750000 },
+            { type: "SCALE", entityType: "EXPENSE", entityId: 1, factor: 0.9 }
+        ]);
+        expect(db.scenarioEvent!.rows[0]).toMatchObject({
+            beforeValue: { amount: 225000 },
+            afterValue: { amount: 180000 }
+        });
+        expect(db.scenarioEvent!.rows[1]!.afterValue).toEqual({ name: "Boat", value: 3000, currencyId: null });
+    });
+
+    it("should record the currency switch first, then one UPDATE per converted entity", async () => {
+        await convertUserCurrency(1, 2, 150);
+
+        const events = db.event!.rows;
+        expect(events.map(({ actionType, entityType, entityId }) => ({ actionType, entityType, entityId }))).toEqual([
+            { actionType: ActionType.UPDATE, entityType: EntityType.USER, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.ASSET, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.LIABILITY, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.INCOME, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.EXPENSE, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.CASH_SAVINGS, entityId: 1 },
+            { actionType: ActionType.UPDATE, entityType: EntityType.BUDGET, entityId: 1 }
+        ]);
+        expect(events[0]!.afterValue).toMatchObject({ preferredCurrencyId: 2, conversionRate: 150 });
+        expect(events[1]!.beforeValue).toMatchObject({ value: 5000 });
+        expect(events[1]!.afterValue).toMatchObject({ value: 750000 });
+        expect(events[2]!.afterValue).toMatchObject({ value: 1200000, minimumPayment: 37500 });
+        expect(events[4]!.beforeValue).toMatchObject({ name: "Rent", amount: 1500 });
+        expect(events[4]!.afterValue).toMatchObject({ name: "Rent", amount: 225000 });
+        expect(events[6]!.beforeValue).toEqual({ expenseId: 1, categoryId: null, monthlyLimit: 1600, rollover: "NONE" });
+        expect(events[6]!.afterValue).toEqual({ expenseId: 1, categoryId: null, monthlyLimit: 240000, rollover: "NONE" });
+    });
+
+    // Sad Path
+    it("should refuse to convert to the current preferred currency and write nothing", async () => {
+        await expect(convertUserCurrency(1, 1, 2)).rejects.toThrow("Currency is already the preferred currency");
+
+        expect(db.asset!.rows[0]!.value).toBe(5000);
+        expect(db.event!.rows).toHaveLength(0);
+    });
+
+    it("should fail for an unknown currency", async () => {
+        await expect(convertUserCurrency(1, 99, 2)).rejects.toThrow("Currency not found");
+    });
+});
@@ -0,0 +1,28 @@
+import { matchCurrencyMetadata } from '../domain/financial/currencyMetadata.js';
+
+describe("matchCurrencyMetadata", () => {
+    // Happy Path
+    it("should match by name, ignoring case and spacing", () => {
+        expect(matchCurrencyMetadata({ cur_name: " japanese yen", cur_symbol: "¥" })).toMatchObject({ code: "JPY", minorUnits: 0 });
+    });
+
+    it("should match a name or symbol that is the ISO code", () => {
+        expect(matchCurrencyMetadata({ cur_name: "usd", cur_symbol: "$" })?.code).toBe("USD");
+        expect(matchCurrencyMetadata({ cur_name: "Franc", cur_symbol: "CHF" })?.code).toBe("CHF");
+    });
+
+    it("should fall back to a symbol only one currency uses", () => {
+        expect(matchCurrencyMetadata({ cur_name: "Peso", cur_symbol: "₱" })).toMatchObject({ code: "PHP", locale: "en-PH" });
+        expect(matchCurrencyMetadata({ cur_name: "Dinar", cur_symbol: "KD" })).toMatchObject({ code: "KWD", minorUnits: 3 });
+    });
+
+    // Sad Path
+    it("should not guess from a symbol several currencies share", () => {
+        expect(matchCurrencyMetadata({ cur_name: "Dollar", cur_symbol: "$" })).toBeNull();
+        expect(matchCurrencyMetadata({ cur_name: "Yen or Yuan", cur_symbol: "¥" })).toBeNull();
+    });
+
+    it("should return null for an unknown currency", () => {
+        expect(matchCurrencyMetadata({ cur_name: "Bitcoin", cur_symbol: "₿" })).toBeNull();
+    });
+});
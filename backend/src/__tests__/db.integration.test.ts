@@ -204,6 +204,164 @@ describe("Expense API Integration Test (Protected)", () => {
             });
             expect(deletedExpense).toBeNull();
     });
+
+    // Happy Path
+    it("POST /api/expenses - should record a backdated effective date on the event", async () => {
+            const expenseData = {
+                name: "Gym Membership",
+                amount: 45.00,
+                effectiveDate: "2024-03-01"
+            };
+
+            const response = await request(app)
+                .post("/api/expenses")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send(expenseData);
+
+            expect(response.status).toBe(201);
+
+            const event = await prisma.event.findFirst({
+                where: { entityType: "EXPENSE", entityId: response.body.expense.id }
+            });
+            expect(event).not.toBeNull();
+            expect(event!.effectiveDate.toISOString()).toBe("2024-03-01T00:00:00.000Z");
+            expect(event!.timestamp.getTime()).toBeGreaterThan(event!.effectiveDate.getTime());
+    });
+
+    // Sad Path
+    it("POST /api/expenses - should fail if effective date is invalid", async () => {
+            const expenseData = {
+                name: "Streaming",
+                amount: 12.00,
+                effectiveDate: "not-a-date"
+            };
+
+            const response = await request(app)
+                .post("/api/expenses")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send(expenseData);
+
+            expect(response.status).toBe(400);
+    });
+
+    // Happy Path
+    it("POST /api/events/:id/revert - should restore the previous expense amount", async () => {
+            const createResponse = await request(app)
+                .post("/api/expenses")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ name: "Internet", amount: 60.00 });
+
+            const expenseId = createResponse.body.expense.id;
+
+            await request(app)
+                .put(`/api/expenses/${expenseId}`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ name: "Internet", amount: 90.00 });
+
+            const updateEvent = await prisma.event.findFirst({
+                where: { entityType: "EXPENSE", entityId: expenseId, actionType: "UPDATE" }
+            });
+
+            const previewResponse = await request(app)
+                .get(`/api/events/${updateEvent!.id}/revert/preview`)
+                .set("Authorization", `Bearer ${authToken}`);
+
+            expect(previewResponse.status).toBe(200);
+            expect(previewResponse.body.preview.action).toBe("RESTORE");
+            expect(previewResponse.body.preview.changes).toEqual([{ field: "amount", from: 90, to: 60 }]);
+
+            const revertResponse = await request(app)
+                .post(`/api/events/${updateEvent!.id}/revert`)
+                .set("Authorization", `Bearer ${authToken}`);
+
+            expect(revertResponse.status).toBe(200);
+
+            const expense = await prisma.expense.findUnique({ where: { id: expenseId } });
+            expect(Number(expense!.amount)).toBe(60);
+
+            const revertEvent = await prisma.event.findFirst({
+                where: { revertsEventId: updateEvent!.id }
+            });
+            expect(revertEvent).not.toBeNull();
+            expect(revertEvent!.source).toBe("REVERT");
+    });
+
+    // Sad Path
+    it("POST /api/events/:id/revert - should fail if the event was already reverted", async () => {
+            const revertEvent = await prisma.event.findFirst({
+                where: { source: "REVERT" }
+            });
+
+            const response = await request(app)
+                .post(`/api/events/${revertEvent!.revertsEventId}/revert`)
+                .set("Authorization", `Bearer ${authToken}`);
+
+            expect(response.status).toBe(409);
+    });
+
+    it("POST /api/events/:id/revert - should apply only one of two concurrent reverts", async () => {
+            const createResponse = await request(app)
+                .post("/api/expenses")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ name: "Phone", amount: 30.00 });
+
+            const expenseId = createResponse.body.expense.id;
+
+            await request(app)
+                .put(`/api/expenses/${expenseId}`)
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ name: "Phone", amount: 45.00 });
+
+            const updateEvent = await prisma.event.findFirst({
+                where: { entityType: "EXPENSE", entityId: expenseId, actionType: "UPDATE" }
+            });
+
+            const responses = await Promise.all([1, 2].map(() => request(app)
+                .post(`/api/events/${updateEvent!.id}/revert`)
+                .set("Authorization", `Bearer ${authToken}`)));
+
+            expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+            expect(await prisma.event.count({ where: { revertsEventId: updateEvent!.id } })).toBe(1);
+            expect(await prisma.event.count({ where: { entityType: "EXPENSE", entityId: expenseId } })).toBe(3);
+    });
+
+    // Happy Path
+    it("POST /api/expenses - should record the category path and classification on the event", async () => {
+            const categoriesResponse = await request(app)
+                .get("/api/expense-categories")
+                .set("Authorization", `Bearer ${authToken}`);
+
+            expect(categoriesResponse.status).toBe(200);
+            const gadgets = categoriesResponse.body.find((c: any) => c.path === "Lifestyle > Gadgets");
+            expect(gadgets).toBeDefined();
+
+            const response = await request(app)
+                .post("/api/expenses")
+                .set("Authorization", `Bearer ${authToken}`)
+                .send({ name: "New Phone", amount: 80.00, categoryId: gadgets.id });
+
+            expect(response.status).toBe(201);
+
+            const event = await prisma.event.findFirst({
+                where: { entityType: "EXPENSE", entityId: response.body.expense.id }
+            });
+            const afterValue = event!.afterValue as any;
+            expect(afterValue.categoryPath).toBe("Lifestyle > Gadgets");
+            expect(afterValue.classification).toBe("DOODAD");
+    });
+
+    // Sad Path
+    it("DELETE /api/expense-categories/:id - should fail if expenses still use the category", async () => {
+            const expense = await prisma.expense.findFirst({
+                where: { name: "New Phone" }
+            });
+
+            const response = await request(app)
+                .delete(`/api/expense-categories/${expense!.categoryId}`)
+                .set("Authorization", `Bearer ${authToken}`);
+
+            expect(response.status).toBe(409);
+    });
 });
 
 describe("Income API Integration Test (Protected)", () => {
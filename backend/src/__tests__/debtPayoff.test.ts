@@ -0,0 +1,118 @@
+import {
+    PayoffDebt,
+    PayoffStrategy,
+    calculateDebtToIncome,
+    calculateWeightedAverageRate,
+    orderDebts,
+    simulatePayoff
+} from '../domain/financial/debtPayoff.js';
+import { calculateFinancialHealth } from '../domain/financial/metrics.js';
+import { createEmptyState } from '../domain/financial/reducers.js';
+
+const asOf = new Date('2026-01-15T00:00:00Z');
+
+const debts: PayoffDebt[] = [
+    { id: 1, name: "Car Loan", balance: 5000, interestRate: 6, minimumPayment: 200 },
+    { id: 2, name: "Credit Card", balance: 3000, interestRate: 24, minimumPayment: 90 },
+    { id: 3, name: "Store Card", balance: 800, interestRate: 18, minimumPayment: 40 }
+];
+
+describe("orderDebts", () => {
+    // Happy Path
+    it("should order by balance, rate or the user's choice", () => {
+        expect(orderDebts(debts, PayoffStrategy.SNOWBALL).map(d => d.id)).toEqual([3, 2, 1]);
+        expect(orderDebts(debts, PayoffStrategy.AVALANCHE).map(d => d.id)).toEqual([2, 3, 1]);
+        expect(orderDebts(debts, PayoffStrategy.CUSTOM, [1]).map(d => d.id)).toEqual([1, 2, 3]);
+    });
+});
+
+describe("simulatePayoff", () => {
+    // Happy Path
+    it("should pay off every debt and save interest with the avalanche method", () => {
+        const snowball = simulatePayoff(debts, 300, PayoffStrategy.SNOWBALL, [], asOf);
+        const avalanche = simulatePayoff(debts, 300, PayoffStrategy.AVALANCHE, [], asOf);
+
+        expect(snowball.debts.every(d => d.payoffMonth !== null)).toBe(true);
+        expect(snowball.debts[0]!.payoffMonth).toBeLessThan(avalanche.debts.find(d => d.id === 3)!.payoffMonth!);
+        expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+        expect(avalanche.debtFreeDate).not.toBeNull();
+        expect(avalanche.totalPaid).toBeCloseTo(8800 + avalanche.totalInterest);
+    });
+
+    // Sad Path
+    it("should report no debt-free date when payments never cover the interest", () => {
+        const simulation = simulatePayoff(
+            [{ id: 1, name: "Loan", balance: 10000, interestRate: 24, minimumPayment: 100 }],
+            0,
+            PayoffStrategy.AVALANCHE,
+            [],
+            asOf
+        );
+
+        expect(simulation.months).toBeNull();
+        expect(simulation.debtFreeDate).toBeNull();
+        expect(simulation.debts[0]!.payoffMonth).toBeNull();
+    });
+});
+
+describe("debt ratios", () => {
+    // Happy Path
+    it("should weight the average rate by balance", () => {
+        expect(calculateWeightedAverageRate(debts)).toBe(13.23);
+        expect(calculateDebtToIncome(330, 5000)).toBe(6.6);
+    });
+
+    // Sad Path
+    it("should not divide by zero without income or debts", () => {
+        expect(calculateDebtToIncome(0, 0)).toBe(0);
+        expect(calculateWeightedAverageRate([])).toBe(0);
+    });
+});
+
+describe("calculateFinancialHealth with a payoff plan", () => {
+    // Happy Path
+    it("should bring the freedom date forward once loan payments end", () => {
+        const currency = { symbol: "$", name: "USD" };
+        const state = createEmptyState(currency);
+        state.incomeLines.set(1, { id: 1, name: "Rent", amount: 1000, type: "PASSIVE" });
+        state.expenses.set(1, { id: 1, name: "Living", amount: 800 });
+        state.expenses.set(2, { id: 2, name: "Car payment", amount: 300, liabilityId: 1 });
+        state.liabilities.set(1, { id: 1, name: "Car", value: 1200, interestRate: 0, minimumPayment: 300 });
+
+        const sixMonthsAgo = createEmptyState(currency);
+        sixMonthsAgo.incomeLines.set(1, { id: 1, name: "Rent", amount: 1000, type: "PASSIVE" });
+
+        const withoutPlan = calculateFinancialHealth(state, null, sixMonthsAgo);
+        const withPlan = calculateFinancialHealth(state, null, sixMonthsAgo, {
+            strategy: PayoffStrategy.AVALANCHE,
+            extraPayment: 0,
+            customOrder: []
+        });
+
+        expect(withoutPlan.freedomDate).toBe("Stagnant/Declining");
+        expect(withoutPlan.debtFreeDate).toBeNull();
+        expect(withPlan.freedomDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+        expect(withPlan.debtFreeDate).not.toBeNull();
+    });
+
+    // Sad Path
+    it("should not bring the freedom date forward for a loan no expense pays", () => {
+        const currency = { symbol: "$", name: "USD" };
+        const state = createEmptyState(currency);
+        state.incomeLines.set(1, { id: 1, name: "Rent", amount: 1000, type: "PASSIVE" });
+        state.expenses.set(1, { id: 1, name: "Living", amount: 1100 });
+        state.liabilities.set(1, { id: 1, name: "Car", value: 1200, interestRate: 0, minimumPayment: 300 });
+
+        const sixMonthsAgo = createEmptyState(currency);
+        sixMonthsAgo.incomeLines.set(1, { id: 1, name: "Rent", amount: 1000, type: "PASSIVE" });
+
+        const withPlan = calculateFinancialHealth(state, null, sixMonthsAgo, {
+            strategy: PayoffStrategy.AVALANCHE,
+            extraPayment: 0,
+            customOrder: []
+        });
+
+        expect(withPlan.freedomDate).toBe("Stagnant/Declining");
+        expect(withPlan.debtFreeDate).not.toBeNull();
+    });
+});
@@ -0,0 +1,70 @@
+import {
+    ExpenseClassification,
+    UNCATEGORIZED,
+    buildCategoryPaths,
+    calculateExpenseBreakdown,
+    getTopLevelCategory
+} from '../domain/financial/expenseCategories.js';
+import { Frequency } from '../domain/financial/frequency.js';
+
+describe("buildCategoryPaths", () => {
+    // Happy Path
+    it("should join parent names into a full path", () => {
+        const paths = buildCategoryPaths([
+            { id: 1, name: "Housing", parentId: null },
+            { id: 2, name: "Utilities", parentId: 1 },
+            { id: 3, name: "Electricity", parentId: 2 }
+        ]);
+
+        expect(paths.get(1)).toBe("Housing");
+        expect(paths.get(2)).toBe("Housing > Utilities");
+        expect(paths.get(3)).toBe("Housing > Utilities > Electricity");
+    });
+
+    // Sad Path
+    it("should stop at a cycle instead of looping forever", () => {
+        const paths = buildCategoryPaths([
+            { id: 1, name: "A", parentId: 2 },
+            { id: 2, name: "B", parentId: 1 }
+        ]);
+
+        expect(paths.get(1)).toBe("B > A");
+    });
+});
+
+describe("getTopLevelCategory", () => {
+    // Sad Path
+    it("should bucket expenses without a category as uncategorized", () => {
+        expect(getTopLevelCategory(null)).toBe(UNCATEGORIZED);
+        expect(getTopLevelCategory("Lifestyle > Gadgets")).toBe("Lifestyle");
+    });
+});
+
+describe("calculateExpenseBreakdown", () => {
+    // Happy Path
+    it("should roll subcategories up and split by classification in monthly terms", () => {
+        const breakdown = calculateExpenseBreakdown([
+            { amount: 1500, categoryPath: "Housing > Rent / Mortgage", classification: ExpenseClassification.ESSENTIAL },
+            { amount: 100, categoryPath: "Housing > Utilities", classification: ExpenseClassification.ESSENTIAL },
+            { amount: 1200, frequency: Frequency.ANNUAL, categoryPath: "Lifestyle > Gadgets", classification: ExpenseClassification.DOODAD },
+            { amount: 300 }
+        ]);
+
+        expect(breakdown.total).toBeCloseTo(2000);
+        expect(breakdown.byCategory.map(c => c.category)).toEqual(["Housing", "Uncategorized", "Lifestyle"]);
+        expect(breakdown.byCategory[0]!.amount).toBe(1600);
+        expect(breakdown.byCategory[0]!.subcategories).toHaveLength(2);
+        expect(breakdown.byClassification.ESSENTIAL.pct).toBe(80);
+        expect(breakdown.byClassification.DOODAD.amount).toBeCloseTo(100);
+        expect(breakdown.byClassification.UNCLASSIFIED.amount).toBe(300);
+    });
+
+    // Sad Path
+    it("should return zero percentages when there are no expenses", () => {
+        const breakdown = calculateExpenseBreakdown([]);
+
+        expect(breakdown.total).toBe(0);
+        expect(breakdown.byCategory).toEqual([]);
+        expect(breakdown.byClassification.DOODAD).toEqual({ amount: 0, pct: 0 });
+    });
+});
@@ -0,0 +1,57 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType, EventSource } from '../types/event.types.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { expireEndedLines } = await import('../services/expiry.service.js');
+
+const bonus = {
+    id: 1, name: "Signing Bonus", amount: 500, type: "Earned", quadrant: "EMPLOYEE", frequency: "MONTHLY",
+    assetId: null, currencyId: null, activeFrom: null, activeUntil: new Date("2026-03-31"),
+    IncomeStatement: { userId: 1 }
+};
+
+const created = (effectiveDate: string) => ({
+    id: 1, userId: 1, actionType: ActionType.CREATE, entityType: EntityType.INCOME, entitySubtype: "Earned", entityId: 1,
+    beforeValue: null, afterValue: { name: "Signing Bonus", amount: 500 },
+    timestamp: new Date(effectiveDate), effectiveDate: new Date(effectiveDate), source: EventSource.USER, revertsEventId: null
+});
+
+beforeEach(() => {
+    db.incomeLine!.rows.splice(0, Infinity, { ...bonus });
+    db.expense!.rows.splice(0, Infinity);
+});
+
+describe("expireEndedLines", () => {
+    // Happy Path
+    it("should delete an ended line the day after its last active day", async () => {
+        db.event!.rows.splice(0, Infinity, created("2026-01-01"));
+
+        const result = await expireEndedLines(new Date("2026-10-18"));
+
+        expect(result).toEqual({ expired: 1, failed: [] });
+        expect(db.incomeLine!.rows).toHaveLength(0);
+        expect(db.event!.rows[1]).toMatchObject({ actionType: ActionType.DELETE, source: EventSource.EXPIRY });
+        expect(db.event!.rows[1]!.effectiveDate).toEqual(new Date("2026-04-01"));
+    });
+
+    // Sad Path
+    it("should not date the deletion before the line was recorded", async () => {
+        // Entered in June with an end date already past
+        db.event!.rows.splice(0, Infinity, created("2026-06-01"));
+
+        await expireEndedLines(new Date("2026-10-18"));
+
+        expect(db.event!.rows[1]!.effectiveDate).toEqual(new Date("2026-06-01"));
+    });
+
+    it("should leave lines that are still active", async () => {
+        db.incomeLine!.rows[0]!.activeUntil = new Date("2026-12-31");
+        db.event!.rows.splice(0, Infinity, created("2026-01-01"));
+
+        expect(await expireEndedLines(new Date("2026-10-18"))).toEqual({ expired: 0, failed: [] });
+        expect(db.incomeLine!.rows).toHaveLength(1);
+    });
+});
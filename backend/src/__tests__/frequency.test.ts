@@ -0,0 +1,33 @@
+import { Frequency, isFrequency, toMonthlyAmount } from '../domain/financial/frequency.js';
+
+describe("toMonthlyAmount", () => {
+    // Happy Path
+    it("should normalize recurring amounts to a monthly equivalent", () => {
+        expect(toMonthlyAmount(1200, Frequency.ANNUAL)).toBeCloseTo(100);
+        expect(toMonthlyAmount(300, Frequency.QUARTERLY)).toBeCloseTo(100);
+        expect(toMonthlyAmount(600, Frequency.SEMI_ANNUAL)).toBeCloseTo(100);
+        expect(toMonthlyAmount(1000, Frequency.BI_WEEKLY)).toBeCloseTo(2166.67, 2);
+        expect(toMonthlyAmount(100, Frequency.WEEKLY)).toBeCloseTo(433.33, 2);
+        expect(toMonthlyAmount(100, Frequency.MONTHLY)).toBe(100);
+    });
+
+    // Happy Path
+    it("should treat lines without a frequency as monthly", () => {
+        expect(toMonthlyAmount(250)).toBe(250);
+        expect(toMonthlyAmount(250, null)).toBe(250);
+    });
+
+    // Sad Path
+    it("should not count one-off amounts as recurring cashflow", () => {
+        expect(toMonthlyAmount(5000, Frequency.ONE_OFF)).toBe(0);
+    });
+});
+
+describe("isFrequency", () => {
+    // Sad Path
+    it("should reject unknown frequencies", () => {
+        expect(isFrequency("MONTHLY")).toBe(true);
+        expect(isFrequency("monthly")).toBe(false);
+        expect(isFrequency(12)).toBe(false);
+    });
+});
@@ -0,0 +1,128 @@
+import {
+    buildFxRates,
+    buildFxRatesAsOf,
+    convertEntityAmount,
+    convertFinancialState,
+    findMissingRates,
+    fxAsOf,
+    getExchangeRate,
+    parseExchangeRateCsv
+} from '../domain/financial/fx.js';
+import { createEmptyState } from '../domain/financial/reducers.js';
+
+const USD = 1;
+const PHP = 2;
+const EUR = 3;
+const JPY = 4;
+
+const rates = buildFxRates([
+    { fromCurrencyId: USD, toCurrencyId: PHP, rate: 50 },
+    { fromCurrencyId: EUR, toCurrencyId: USD, rate: 1.1 }
+]);
+
+describe("getExchangeRate", () => {
+    // Happy Path
+    it("should use direct, inverse and cross rates", () => {
+        expect(getExchangeRate(rates, USD, USD)).toBe(1);
+        expect(getExchangeRate(rates, USD, PHP)).toBe(50);
+        expect(getExchangeRate(rates, PHP, USD)).toBe(0.02);
+        expect(getExchangeRate(rates, EUR, PHP)).toBeCloseTo(55);
+    });
+
+    // Sad Path
+    it("should return null when no rate connects the currencies", () => {
+        expect(getExchangeRate(rates, JPY, USD)).toBeNull();
+        expect(convertEntityAmount(1000, JPY, USD, { rates, preferredCurrencyId: USD })).toBe(1000);
+    });
+});
+
+describe("convertFinancialState", () => {
+    // Happy Path
+    it("should convert native amounts and leave preferred-currency entities alone", () => {
+        const state = createEmptyState({ symbol: "$", name: "US Dollar" });
+        state.assets.set(1, { id: 1, name: "Brokerage", value: 1000 });
+        state.incomeLines.set(1, { id: 1, name: "Salary", amount: 50000, type: "EARNED", currencyId: PHP });
+        state.liabilities.set(1, { id: 1, name: "Loan", value: 2500, minimumPayment: 500, currencyId: PHP });
+        state.expenses.set(1, { id: 1, name: "Rent", amount: 100, currencyId: JPY });
+
+        const converted = convertFinancialState(state, { rates, preferredCurrencyId: USD });
+
+        expect(converted.assets.get(1)!.value).toBe(1000);
+        expect(converted.incomeLines.get(1)!.amount).toBe(1000);
+        expect(converted.incomeLines.get(1)!.currencyId).toBe(PHP);
+        expect(converted.liabilities.get(1)!.value).toBe(50);
+        expect(converted.liabilities.get(1)!.minimumPayment).toBe(10);
+        expect(state.incomeLines.get(1)!.amount).toBe(50000);
+        expect(findMissingRates(state, rates, USD)).toEqual([JPY]);
+    });
+});
+
+describe("buildFxRatesAsOf", () => {
+    const history = [
+        { fromCurrencyId: USD, toCurrencyId: PHP, rate: 52, effectiveDate: new Date("2024-01-01") },
+        { fromCurrencyId: USD, toCurrencyId: PHP, rate: 56, effectiveDate: new Date("2025-01-01") },
+        { fromCurrencyId: EUR, toCurrencyId: USD, rate: 1.1, effectiveDate: new Date("2025-06-01") }
+    ];
+
+    // Happy Path
+    it("should use the latest rate on or before the date", () => {
+        const rates = buildFxRatesAsOf(history, new Date("2024-07-01"));
+
+        expect(getExchangeRate(rates, USD, PHP)).toBe(52);
+        expect(getExchangeRate(buildFxRatesAsOf(history, new Date("2025-01-01")), USD, PHP)).toBe(56);
+    });
+
+    it("should convert a past state from the currency preferred at the time", () => {
+        const state = createEmptyState({ id: PHP, symbol: "₱", name: "Philippine Peso" });
+        state.cashSavings = 5200;
+        state.assets.set(1, { id: 1, name: "Condo", value: 104000 });
+        state.assets.set(2, { id: 2, name: "Brokerage", value: 100, currencyId: USD });
+
+        const fx = fxAsOf({ rates: buildFxRates([]), history, preferredCurrencyId: USD }, new Date("2024-07-01"));
+        const converted = convertFinancialState(state, fx, { id: USD, symbol: "$", name: "US Dollar" });
+
+        expect(converted.cashSavings).toBe(100);
+        expect(converted.assets.get(1)!.value).toBe(2000);
+        expect(converted.assets.get(2)!.value).toBe(100);
+        expect(converted.currency).toEqual({ id: USD, symbol: "$", name: "US Dollar" });
+    });
+
+    // Sad Path
+    it("should fall back to the earliest rate before a pair's history starts", () => {
+        const rates = buildFxRatesAsOf(history, new Date("2020-01-01"));
+
+        expect(getExchangeRate(rates, USD, PHP)).toBe(52);
+        expect(getExchangeRate(rates, EUR, USD)).toBe(1.1);
+        expect(getExchangeRate(buildFxRatesAsOf([], new Date("2020-01-01")), USD, PHP)).toBeNull();
+    });
+});
+
+describe("parseExchangeRateCsv", () => {
+    const resolve = (value: string) => ({ "US Dollar": USD, "Philippine Peso": PHP, "2": PHP } as Record<string, number>)[value] ?? null;
+
+    // Happy Path
+    it("should skip the header and resolve currencies by name or id", () => {
+        const parsed = parseExchangeRateCsv("from,to,rate\nUS Dollar,Philippine Peso,56.1\r\n\nUS Dollar,2,56.2,2024-03-01\n", resolve);
+
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.rows).toEqual([
+            { fromCurrencyId: USD, toCurrencyId: PHP, rate: 56.1 },
+            { fromCurrencyId: USD, toCurrencyId: PHP, rate: 56.2, effectiveDate: new Date("2024-03-01") }
+        ]);
+    });
+
+    // Sad Path
+    it("should report every invalid line", () => {
+        const parsed = parseExchangeRateCsv("US Dollar,Euro,1.1\nUS Dollar,Philippine Peso,-3\nUS Dollar,US Dollar,1\nbad line\nUS Dollar,2,56,March", resolve);
+
+        expect(parsed.rows).toEqual([]);
+        expect(parsed.errors).toEqual([
+            'Line 1: unknown currency "Euro"',
+            'Line 2: rate must be a positive number',
+            'Line 3: a currency cannot be converted to itself',
+            'Line 4: expected from,to,rate',
+            'Line 5: date must be YYYY-MM-DD'
+        ]);
+        expect(parseExchangeRateCsv("from,to,rate\n", resolve).errors).toEqual(['No exchange rates found']);
+    });
+});
@@ -0,0 +1,94 @@
+import {
+    GoalDefinition,
+    GoalMetric,
+    GoalMetricValues,
+    calculateTrendPerMonth,
+    evaluateGoal,
+    readGoalMetric
+} from '../domain/financial/goals.js';
+
+const values = (overrides: Partial<GoalMetricValues> = {}): GoalMetricValues => ({
+    netWorth: 0,
+    totalCash: 0,
+    liquidRunway: 0,
+    passiveIncome: 0,
+    totalExpenses: 0,
+    totalLiabilities: 0,
+    ...overrides
+});
+
+const goal = (overrides: Partial<GoalDefinition>): GoalDefinition => ({
+    id: 1,
+    name: "Goal",
+    metric: GoalMetric.NET_WORTH,
+    targetValue: 0,
+    deadline: new Date("2030-01-01"),
+    startValue: 0,
+    ...overrides
+});
+
+const asOf = new Date("2025-01-01");
+
+// One point a month through 2024, rising by 1,000 a month to 60,000
+const history = Array.from({ length: 13 }, (_, month) => ({
+    date: new Date(Date.UTC(2024, month, 1)),
+    ...values({ netWorth: 48000 + month * 1000, totalLiabilities: 20000 - month * 500 })
+}));
+
+describe("evaluateGoal", () => {
+    // Happy Path
+    it("should project a net worth goal from its trend and the monthly contribution still needed", () => {
+        const progress = evaluateGoal(
+            goal({ targetValue: 110000, startValue: 40000 }),
+            values({ netWorth: 60000 }),
+            history,
+            asOf
+        );
+
+        expect(progress.progress).toBeCloseTo(28.57, 2);
+        expect(progress.trendPerMonth).toBeCloseTo(1000, -1);
+        expect(progress.monthsRemaining).toBeCloseTo(60, 0);
+        expect(progress.onTrack).toBe(true);
+        expect(progress.requiredMonthlyContribution).toBeCloseTo(833, -1);
+    });
+
+    it("should treat lower liabilities as progress and price runway in months of expenses", () => {
+        const debt = evaluateGoal(
+            goal({ metric: GoalMetric.TOTAL_LIABILITIES, targetValue: 0, startValue: 20000 }),
+            values({ totalLiabilities: 14000 }),
+            history,
+            asOf
+        );
+        expect(debt.progress).toBe(30);
+        expect(debt.onTrack).toBe(true);
+        expect(debt.requiredMonthlyChange).toBeLessThan(0);
+        expect(debt.requiredMonthlyContribution).toBeGreaterThan(0);
+
+        const runway = evaluateGoal(
+            goal({ metric: GoalMetric.LIQUID_RUNWAY, targetValue: 6, deadline: new Date("2025-07-02") }),
+            values({ liquidRunway: 3, totalExpenses: 2000 }),
+            [],
+            asOf
+        );
+        expect(runway.requiredMonthlyChange).toBeCloseTo(0.5, 1);
+        expect(runway.requiredMonthlyContribution).toBeCloseTo(1000, -1);
+        expect(readGoalMetric(values({ passiveIncome: 500, totalExpenses: 2000 }), GoalMetric.PASSIVE_COVERAGE)).toBe(25);
+    });
+
+    // Sad Path
+    it("should report goals past their deadline as off track and flat histories as trendless", () => {
+        const progress = evaluateGoal(
+            goal({ targetValue: 120000, deadline: new Date("2024-06-01") }),
+            values({ netWorth: 60000 }),
+            history,
+            asOf
+        );
+
+        expect(progress.monthsRemaining).toBe(0);
+        expect(progress.onTrack).toBe(false);
+        expect(progress.requiredMonthlyChange).toBe(0);
+        expect(calculateTrendPerMonth([{ date: asOf, value: 5 }])).toBe(0);
+        expect(evaluateGoal(goal({ metric: GoalMetric.PASSIVE_INCOME, targetValue: 1000 }), values(), [], asOf)
+            .requiredMonthlyContribution).toBeNull();
+    });
+});
@@ -0,0 +1,116 @@
+import {
+    InflationIndexRow,
+    annualInflationRate,
+    buildInflationContext,
+    deflateFinancialState,
+    deflationFactor,
+    indexAsOf,
+    parseInflationIndexCsv
+} from '../domain/financial/inflation.js';
+import { calculateFinancialHealth } from '../domain/financial/metrics.js';
+import { createEmptyState } from '../domain/financial/reducers.js';
+
+const currency = { id: 1, symbol: "$", name: "USD" };
+
+// Prices rise 10% a year, recorded each January and July
+const series: InflationIndexRow[] = [
+    { date: new Date("2020-01-01"), value: 100 },
+    { date: new Date("2020-07-01"), value: 105 },
+    { date: new Date("2021-01-01"), value: 110 },
+    { date: new Date("2021-07-01"), value: 115.5 },
+    { date: new Date("2022-01-01"), value: 121 }
+];
+
+describe("inflation index", () => {
+    // Happy Path
+    it("should restate amounts in the purchasing power of a base year", () => {
+        const real = buildInflationContext(series, 2020)!;
+
+        expect(real.baseIndex).toBe(102.5);
+        expect(indexAsOf(real.series, new Date("2021-03-15"))).toBe(110);
+        expect(deflationFactor(real, new Date("2022-06-01"))).toBeCloseTo(102.5 / 121);
+
+        const state = createEmptyState(currency);
+        state.cashSavings = 1210;
+        state.assets.set(1, { id: 1, name: "House", value: 121000 });
+        state.liabilities.set(1, { id: 1, name: "Mortgage", value: 60500, minimumPayment: 605 });
+        state.incomeLines.set(1, { id: 1, name: "Salary", amount: 4840, type: "EARNED" });
+        state.expenses.set(1, { id: 1, name: "Living", amount: 2420 });
+
+        const restated = deflateFinancialState(state, 100 / 121);
+
+        expect(restated.cashSavings).toBeCloseTo(1000);
+        expect(restated.assets.get(1)!.value).toBeCloseTo(100000);
+        expect(restated.liabilities.get(1)!.minimumPayment).toBeCloseTo(500);
+        expect(restated.incomeLines.get(1)!.amount).toBeCloseTo(4000);
+        expect(restated.expenses.get(1)!.amount).toBeCloseTo(2000);
+        // The nominal state is left as it was
+        expect(state.cashSavings).toBe(1210);
+
+        expect(annualInflationRate(series, new Date("2022-01-15"))).toBe(10);
+    });
+
+    it("should parse an index CSV with monthly or daily dates", () => {
+        const resolve = (value: string) => (value === "US Dollar" || value === "1" ? 1 : null);
+        const { rows, errors } = parseInflationIndexCsv(
+            "currency,date,value\nUS Dollar,2024-03,312.33\n1,2024-04-01,313.5\n",
+            resolve
+        );
+
+        expect(errors).toEqual([]);
+        expect(rows).toEqual([
+            { currencyId: 1, date: new Date("2024-03-01"), value: 312.33 },
+            { currencyId: 1, date: new Date("2024-04-01"), value: 313.5 }
+        ]);
+    });
+
+    // Sad Path
+    it("should report every bad line and leave states without an index unchanged", () => {
+        const { rows, errors } = parseInflationIndexCsv(
+            "Euro,2024-03,120\nUS Dollar,March,300\n1,2024-03,-5\n1,2024-03",
+            value => (value === "US Dollar" || value === "1" ? 1 : null)
+        );
+
+        expect(rows).toEqual([]);
+        expect(errors).toEqual([
+            'Line 1: unknown currency "Euro"',
+            "Line 2: date must be YYYY-MM or YYYY-MM-DD",
+            "Line 3: index value must be a positive number",
+            "Line 4: expected currency,date,value"
+        ]);
+
+        expect(buildInflationContext([], 2020)).toBeNull();
+        expect(annualInflationRate(series, new Date("2020-09-01"))).toBeNull();
+    });
+});
+
+describe("calculateFinancialHealth with inflation", () => {
+    // Happy Path
+    it("should push the freedom date back when expenses rise with inflation", () => {
+        const state = createEmptyState(currency);
+        state.incomeLines.set(1, { id: 1, name: "Dividends", amount: 1000, type: "PORTFOLIO" });
+        state.expenses.set(1, { id: 1, name: "Living", amount: 2000 });
+
+        const sixMonthsAgo = createEmptyState(currency);
+        sixMonthsAgo.incomeLines.set(1, { id: 1, name: "Dividends", amount: 900, type: "PORTFOLIO" });
+
+        const nominal = calculateFinancialHealth(state, null, sixMonthsAgo);
+        const inflated = calculateFinancialHealth(state, null, sixMonthsAgo, null, 5);
+
+        expect(nominal.inflationAdjustedFreedomDate).toBeNull();
+        expect(inflated.expenseInflation).toBe(5);
+        expect(inflated.freedomDate).toBe(nominal.freedomDate);
+        expect(inflated.inflationAdjustedFreedomDate! > inflated.freedomDate!).toBe(true);
+    });
+
+    // Sad Path
+    it("should keep labels that have no date to move", () => {
+        const state = createEmptyState(currency);
+        state.expenses.set(1, { id: 1, name: "Living", amount: 2000 });
+
+        const health = calculateFinancialHealth(state, null, null, null, 3);
+
+        expect(health.freedomDate).toBe("No Passive Income");
+        expect(health.inflationAdjustedFreedomDate).toBe("No Passive Income");
+    });
+});
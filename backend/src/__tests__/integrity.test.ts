@@ -0,0 +1,166 @@
+import { ActionType, EntityType, Event } from '../types/event.types.js';
+import { FinancialState, createEmptyState } from '../domain/financial/reducers.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import {
+    CompensatingEvent,
+    diffFinancialStates,
+    planCompensatingEvents,
+    replayAllEvents
+} from '../domain/financial/integrity.js';
+
+const currency = { id: 1, symbol: "$", name: "USD" };
+
+const fund = (value: number) => ({ name: "Index Fund", value, assetClass: "EQUITIES", liquidity: "LIQUID", currencyId: null });
+const gym = { name: "Gym", amount: 40, frequency: Frequency.MONTHLY, categoryId: null, assetId: null, currencyId: null };
+
+function event(
+    id: number,
+    entityType: EntityType,
+    entityId: number,
+    actionType: ActionType,
+    effectiveDate: string,
+    afterValue: Record<string, any> | null
+): Event {
+    return {
+        id,
+        userId: 1,
+        timestamp: new Date("2026-01-01"),
+        effectiveDate: new Date(effectiveDate),
+        actionType,
+        entityType,
+        entitySubtype: null,
+        entityId,
+        beforeValue: null,
+        afterValue
+    } as Event;
+}
+
+/**
+ * Record planned repairs the way the service does, after every existing event
+ */
+const recordRepairs = (events: Event[], repairs: CompensatingEvent[]): Event[] => [
+    ...events,
+    ...repairs.map((repair, index) => ({
+        ...event(1000 + index, repair.entityType, repair.entityId, repair.actionType, repair.effectiveDate.toISOString(), repair.afterValue ?? null),
+        beforeValue: repair.beforeValue ?? null
+    }) as Event)
+];
+
+const liveState = (): FinancialState => {
+    const state = createEmptyState(currency);
+    state.assets.set(1, { id: 1, ...fund(150) });
+    state.cashAccounts.set(3, { id: 3, name: "Emergency", amount: 2000, accountType: "SAVINGS" });
+    return state;
+};
+
+describe("diffFinancialStates", () => {
+    // Happy Path
+    it("should report nothing when the states match within half a cent", () => {
+        const live = liveState();
+        const replayed = liveState();
+        replayed.assets.set(1, { id: 1, ...fund(150.004) });
+
+        expect(diffFinancialStates(live, replayed)).toEqual([]);
+    });
+
+    it("should report an entity only the live tables have", () => {
+        const replayed = liveState();
+        replayed.cashAccounts.delete(3);
+
+        expect(diffFinancialStates(liveState(), replayed)).toEqual([{
+            entityType: EntityType.CASH_SAVINGS,
+            entityId: 3,
+            kind: "MISSING_IN_EVENTS",
+            fields: [],
+            live: { id: 3, name: "Emergency", amount: 2000, accountType: "SAVINGS" },
+            replayed: null
+        }]);
+    });
+
+    it("should report an entity only the event stream has", () => {
+        const replayed = liveState();
+        replayed.expenses.set(2, { id: 2, ...gym });
+
+        const drift = diffFinancialStates(liveState(), replayed);
+
+        expect(drift.map(({ entityType, entityId, kind, live }) => ({ entityType, entityId, kind, live }))).toEqual([
+            { entityType: EntityType.EXPENSE, entityId: 2, kind: "MISSING_IN_LIVE", live: null }
+        ]);
+    });
+
+    it("should list every field that differs", () => {
+        const replayed = liveState();
+        replayed.assets.set(1, { ...fund(100), id: 1, name: "Fund", liquidity: "SEMI_LIQUID" });
+
+        const drift = diffFinancialStates(liveState(), replayed);
+
+        expect(drift).toHaveLength(1);
+        expect(drift[0]).toMatchObject({ entityType: EntityType.ASSET, entityId: 1, kind: "VALUE_MISMATCH" });
+        expect(drift[0]!.fields).toEqual(["name", "value", "liquidity"]);
+    });
+
+    // Sad Path
+    it("should treat a missing optional field as null", () => {
+        const live = liveState();
+        const replayed = liveState();
+        replayed.assets.set(1, { id: 1, name: "Index Fund", value: 150, assetClass: "EQUITIES", liquidity: "LIQUID" });
+
+        expect(diffFinancialStates(live, replayed)).toEqual([]);
+    });
+});
+
+describe("planCompensatingEvents", () => {
+    const events = [
+        event(1, EntityType.ASSET, 1, ActionType.CREATE, "2026-01-01", fund(100)),
+        // Recorded before future dates were rejected; the live row already holds it
+        event(2, EntityType.ASSET, 1, ActionType.UPDATE, "2027-01-01", fund(120)),
+        event(3, EntityType.EXPENSE, 2, ActionType.CREATE, "2026-02-01", gym)
+    ];
+    const now = new Date("2026-10-18T12:00:00Z");
+
+    // Happy Path
+    it("should plan one event per drift item, taking the live tables as authoritative", () => {
+        const drift = diffFinancialStates(liveState(), replayAllEvents(events, currency));
+        const repairs = planCompensatingEvents(drift, events, now);
+
+        expect(repairs.map(({ entityType, entityId, actionType }) => ({ entityType, entityId, actionType }))).toEqual([
+            { entityType: EntityType.ASSET, entityId: 1, actionType: ActionType.UPDATE },
+            { entityType: EntityType.EXPENSE, entityId: 2, actionType: ActionType.DELETE },
+            { entityType: EntityType.CASH_SAVINGS, entityId: 3, actionType: ActionType.CREATE }
+        ]);
+        expect(repairs[0]!.afterValue).toMatchObject({ value: 150 });
+        expect(repairs[1]!.afterValue).toBeUndefined();
+    });
+
+    it("should date a repair after the entity's latest event, even a future-dated one", () => {
+        const drift = diffFinancialStates(liveState(), replayAllEvents(events, currency));
+        const repairs = planCompensatingEvents(drift, events, now);
+
+        expect(repairs.map(repair => repair.effectiveDate.toISOString())).toEqual([
+            "2027-01-01T00:00:00.000Z",
+            now.toISOString(),
+            now.toISOString()
+        ]);
+    });
+
+    it("should leave the stream consistent after a repair", () => {
+        const drift = diffFinancialStates(liveState(), replayAllEvents(events, currency));
+        const repaired = recordRepairs(events, planCompensatingEvents(drift, events, now));
+
+        const secondCheck = diffFinancialStates(liveState(), replayAllEvents(repaired, currency));
+
+        expect(secondCheck).toEqual([]);
+        expect(planCompensatingEvents(secondCheck, repaired, now)).toEqual([]);
+    });
+
+    // Sad Path
+    it("should plan nothing for a consistent stream", () => {
+        const consistent = [
+            event(1, EntityType.ASSET, 1, ActionType.CREATE, "2026-01-01", fund(150)),
+            event(2, EntityType.CASH_SAVINGS, 3, ActionType.CREATE, "2026-01-01", { name: "Emergency", amount: 2000, accountType: "SAVINGS" })
+        ];
+        const drift = diffFinancialStates(liveState(), replayAllEvents(consistent, currency));
+
+        expect(planCompensatingEvents(drift, consistent, now)).toEqual([]);
+    });
+});
@@ -0,0 +1,127 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType, EventSource } from '../types/event.types.js';
+
+const incomeStatement = { userId: 1 };
+
+const db = createFakePrisma({}, {
+    expense: () => ({ IncomeStatement: incomeStatement }),
+    liability: () => ({ BalanceSheet: { userId: 1 }, _count: { Expense: 0 } })
+});
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { materializeDuePlannedChanges } = await import('../services/plannedChange.service.js');
+
+const carLoan = {
+    id: 1, name: "Car Loan", value: 8000, interestRate: 5, minimumPayment: 250, termMonths: null, startDate: null,
+    assetId: null, currencyId: null, BalanceSheet: { userId: 1 }, _count: { Expense: 0 }
+};
+
+const plannedChange = (changes: unknown[]) => ({
+    id: 1, userId: 1, label: "Sell the car", effectiveDate: new Date("2026-10-01"), status: "PENDING",
+    error: null, materializedAt: null, changes
+});
+
+const addGym = { type: "ADD", entityType: EntityType.EXPENSE, data: { name: "Gym", amount: 40, frequency: "MONTHLY" } };
+const removeCarLoan = { type: "REMOVE", entityType: EntityType.LIABILITY, entityId: 1 };
+
+beforeEach(() => {
+    db.user!.rows.splice(0, Infinity, { id: 1, preferredCurrencyId: 1, PreferredCurrency: { id: 1, cur_symbol: "$", cur_name: "USD" } });
+    db.liability!.rows.splice(0, Infinity, carLoan);
+    db.balanceSheet!.rows.splice(0, Infinity, { id: 1, userId: 1, Asset: [], Liability: [carLoan] });
+    db.incomeStatement!.rows.splice(0, Infinity, { id: 1, userId: 1, Expense: [], IncomeLine: [] });
+    db.expense!.rows.splice(0, Infinity);
+    db.event!.rows.splice(0, Infinity);
+});
+
+describe("materializeDuePlannedChanges", () => {
+    // Happy Path
+    it("should record every step of a due change as scheduled events", async () => {
+        db.plannedChange!.rows.splice(0, Infinity, plannedChange([addGym, removeCarLoan]));
+
+        const result = await materializeDuePlannedChanges(new Date("2026-10-18"));
+
+        expect(result).toEqual({ applied: 1, failed: [] });
+        expect(db.plannedChange!.rows[0]!.status).toBe("APPLIED");
+        expect(db.expense!.rows.map(expense => expense.name)).toEqual(["Gym"]);
+        expect(db.liability!.rows).toHaveLength(0);
+        expect(db.event!.rows.map(({ actionType, entityType, source }) => ({ actionType, entityType, source }))).toEqual([
+            { actionType: ActionType.CREATE, entityType: EntityType.EXPENSE, source: EventSource.SCHEDULED },
+            { actionType: ActionType.DELETE, entityType: EntityType.LIABILITY, source: EventSource.SCHEDULED }
+        ]);
+        expect(db.plannedChange!.rows[0]!.recordedEventIds).toEqual(db.event!.rows.map(event => event.id));
+    });
+
+    it("should link an expense to a loan added in the same change", async () => {
+        const studentLoan = { ...carLoan, id: 5, name: "Student Loan" };
+        db.liability!.rows.splice(0, Infinity, studentLoan);
+        db.balanceSheet!.rows[0]!.Liability = [studentLoan];
+        // The new loan is liability 6 in the scenario; the database numbers it on its own
+        db.plannedChange!.rows.splice(0, Infinity, plannedChange([
+            { type: "ADD", entityType: EntityType.LIABILITY, data: { name: "Car Loan", value: 12000, interestRate: 6 } },
+            { type: "ADD", entityType: EntityType.EXPENSE, data: { name: "Car Payment", amount: 300, frequency: "MONTHLY", liabilityId: 6 } }
+        ]));
+
+        const result = await materializeDuePlannedChanges(new Date("2026-10-18"));
+
+        expect(result).toEqual({ applied: 1, failed: [] });
+        const newLoan = db.liability!.rows.find(liability => liability.name === "Car Loan")!;
+        expect(newLoan.id).not.toBe(6);
+        expect(db.expense!.rows[0]).toMatchObject({ name: "Car Payment", liabilityId: newLoan.id });
+    });
+
+    it("should revert and apply again a change left claimed by a run that stopped", async () => {
+        // The last run recorded the gym, then stopped before ending the loan
+        db.plannedChange!.rows.splice(0, Infinity, {
+            ...plannedChange([addGym, removeCarLoan]),
+            status: "APPLYING", materializedAt: new Date("2026-10-01T06:00:00Z"), recordedEventIds: [1]
+        });
+        db.expense!.rows.splice(0, Infinity, { id: 1, name: "Gym", amount: 40, frequency: "MONTHLY", IncomeStatement: incomeStatement });
+        db.event!.rows.splice(0, Infinity, {
+            id: 1, userId: 1, actionType: ActionType.CREATE, entityType: EntityType.EXPENSE, entitySubtype: null, entityId: 1,
+            beforeValue: null, afterValue: { name: "Gym", amount: 40, frequency: "MONTHLY" },
+            timestamp: new Date("2026-10-01T06:00:00Z"), effectiveDate: new Date("2026-10-01"), source: EventSource.SCHEDULED, revertsEventId: null
+        });
+
+        const result = await materializeDuePlannedChanges(new Date("2026-10-18"));
+
+        expect(result).toEqual({ applied: 1, failed: [] });
+        expect(db.expense!.rows.map(expense => expense.name)).toEqual(["Gym"]);
+        expect(db.liability!.rows).toHaveLength(0);
+
+        const [, reverted, ...reapplied] = db.event!.rows;
+        expect(reverted).toMatchObject({ actionType: ActionType.DELETE, source: EventSource.REVERT, revertsEventId: 1 });
+        expect(db.plannedChange!.rows[0]).toMatchObject({ status: "APPLIED", recordedEventIds: reapplied.map(event => event.id) });
+        expect(reapplied).toHaveLength(2);
+    });
+
+    // Sad Path
+    it("should revert the steps already recorded when a later one fails", async () => {
+        db.liability!.rows[0] = { ...carLoan, _count: { Expense: 1 } };
+        db.plannedChange!.rows.splice(0, Infinity, plannedChange([addGym, removeCarLoan]));
+
+        const result = await materializeDuePlannedChanges(new Date("2026-10-18"));
+
+        expect(result).toEqual({ applied: 0, failed: [{ id: 1, userId: 1, error: "Liability is still linked to expenses" }] });
+        expect(db.plannedChange!.rows[0]).toMatchObject({ status: "FAILED", error: "Liability is still linked to expenses" });
+        expect(db.expense!.rows).toHaveLength(0);
+        expect(db.liability!.rows).toHaveLength(1);
+
+        const [created, reverted] = db.event!.rows;
+        expect(db.event!.rows).toHaveLength(2);
+        expect(created).toMatchObject({ actionType: ActionType.CREATE, entityType: EntityType.EXPENSE, source: EventSource.SCHEDULED });
+        expect(reverted).toMatchObject({ actionType: ActionType.DELETE, source: EventSource.REVERT, revertsEventId: created!.id });
+    });
+
+    it("should leave a change claimed by a run still in progress", async () => {
+        db.plannedChange!.rows.splice(0, Infinity, {
+            ...plannedChange([addGym, removeCarLoan]), status: "APPLYING", materializedAt: new Date(), recordedEventIds: []
+        });
+
+        const result = await materializeDuePlannedChanges(new Date("2026-10-18"));
+
+        expect(result).toEqual({ applied: 0, failed: [] });
+        expect(db.plannedChange!.rows[0]!.status).toBe("APPLYING");
+        expect(db.event!.rows).toHaveLength(0);
+    });
+});
@@ -0,0 +1,53 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { getMonthlyPlanVsActual } = await import('../services/transaction.service.js');
+
+const incomeStatement = { userId: 1 };
+
+const line = (id: number, name: string, amount: number, activeFrom: string | null, activeUntil: string | null) => ({
+    id, name, amount, frequency: "MONTHLY", currencyId: null,
+    activeFrom: activeFrom ? new Date(activeFrom) : null,
+    activeUntil: activeUntil ? new Date(activeUntil) : null,
+    IncomeStatement: incomeStatement
+});
+
+beforeEach(() => {
+    db.user!.rows.splice(0, Infinity, { id: 1, preferredCurrencyId: 1 });
+    db.incomeLine!.rows.splice(0, Infinity,
+        line(1, "Salary", 4000, null, null),
+        // Starts when the property closes
+        line(2, "Rent Income", 900, "2026-05-01", null)
+    );
+    db.expense!.rows.splice(0, Infinity,
+        line(1, "Rent", 1500, null, null),
+        // Cancelled in March
+        line(2, "Streaming", 15, null, "2026-03-20")
+    );
+    db.transaction!.rows.splice(0, Infinity);
+});
+
+describe("getMonthlyPlanVsActual", () => {
+    // Happy Path
+    it("should plan a line in a month it is active on any day", async () => {
+        const report = await getMonthlyPlanVsActual(1, "2026-03");
+
+        expect(report.income.lines.map(line => line.name)).toEqual(["Salary"]);
+        expect(report.expenses.lines.map(line => line.name)).toEqual(["Rent", "Streaming"]);
+        expect(report.plannedCashflow).toBe(2485);
+    });
+
+    // Sad Path
+    it("should leave out lines that ended before or start after the month", async () => {
+        const april = await getMonthlyPlanVsActual(1, "2026-04");
+        const may = await getMonthlyPlanVsActual(1, "2026-05");
+
+        expect(april.expenses.lines.map(line => line.name)).toEqual(["Rent"]);
+        expect(april.income.planned).toBe(4000);
+        expect(may.income.lines.map(line => line.name)).toEqual(["Salary", "Rent Income"]);
+        expect(may.plannedCashflow).toBe(3400);
+    });
+});
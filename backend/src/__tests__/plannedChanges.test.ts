@@ -0,0 +1,94 @@
+import { ActionType, EntityType, Event } from '../types/event.types.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import { FinancialState, createEmptyState, reconstructStateFromEvents } from '../domain/financial/reducers.js';
+import { ScenarioChange, ScenarioChangeType } from '../domain/financial/scenarios.js';
+import { resolvePlannedChanges, withPlannedEvents } from '../domain/financial/plannedChanges.js';
+
+const currency = { id: 1, symbol: "$", name: "USD" };
+
+const context = {
+    userId: 1,
+    categories: new Map(),
+    categoryParents: new Map<number, number | null>()
+};
+
+const buildState = (): FinancialState => {
+    const state = createEmptyState(currency);
+    state.incomeLines.set(1, { id: 1, name: "Salary", amount: 5000, type: "Earned", quadrant: "EMPLOYEE", frequency: Frequency.MONTHLY, currencyId: null });
+    state.liabilities.set(1, { id: 1, name: "Car Loan", value: 8000, currencyId: null });
+    return state;
+};
+
+const raise: ScenarioChange[] = [
+    { type: ScenarioChangeType.SCALE, entityType: EntityType.INCOME, entityId: 1, factor: 1.1 }
+];
+const loanEnds: ScenarioChange[] = [
+    { type: ScenarioChangeType.REMOVE, entityType: EntityType.LIABILITY, entityId: 1 }
+];
+
+describe("resolvePlannedChanges", () => {
+    // Happy Path
+    it("should resolve changes in date order into events dated on their day", () => {
+        const state = buildState();
+        const { state: planned, events, failed } = resolvePlannedChanges(state, [
+            { id: 2, effectiveDate: new Date("2028-06-01"), changes: loanEnds },
+            { id: 1, effectiveDate: new Date("2027-01-01"), changes: raise },
+            { id: 3, effectiveDate: new Date("2028-01-01"), changes: raise }
+        ], context);
+
+        expect(failed).toEqual([]);
+        expect(events.map(event => event.effectiveDate)).toEqual([
+            new Date("2027-01-01"),
+            new Date("2028-01-01"),
+            new Date("2028-06-01")
+        ]);
+        // The second raise builds on the first
+        expect(events[1]!.afterValue).toMatchObject({ amount: 6050 });
+        expect(events[2]!.actionType).toBe(ActionType.DELETE);
+        expect(events.every(event => event.id < 0)).toBe(true);
+        expect(planned.liabilities.size).toBe(0);
+
+        // The current state is left untouched
+        expect(state.incomeLines.get(1)!.amount).toBe(5000);
+        expect(state.liabilities.size).toBe(1);
+    });
+
+    it("should extend the real event stream only up to the queried date", () => {
+        const salary: Event = {
+            id: 1,
+            timestamp: new Date("2025-01-10"),
+            effectiveDate: new Date("2025-01-10"),
+            actionType: ActionType.CREATE,
+            entityType: EntityType.INCOME,
+            entitySubtype: "Earned",
+            beforeValue: null,
+            afterValue: { name: "Salary", amount: 5000, type: "Earned" },
+            userId: 1,
+            entityId: 1
+        };
+        const { events } = resolvePlannedChanges(buildState(), [
+            { id: 1, effectiveDate: new Date("2027-01-01"), changes: raise },
+            { id: 2, effectiveDate: new Date("2028-01-01"), changes: raise }
+        ], context);
+
+        const until = new Date("2027-06-30T23:59:59Z");
+        const stream = withPlannedEvents([salary], events, until);
+
+        expect(stream).toHaveLength(2);
+        expect(reconstructStateFromEvents(stream, until, currency).incomeLines.get(1)!.amount).toBe(5500);
+        expect(reconstructStateFromEvents(stream, new Date("2026-12-31"), currency).incomeLines.get(1)!.amount).toBe(5000);
+    });
+
+    // Sad Path
+    it("should leave out a change that no longer resolves and keep the rest", () => {
+        const { events, failed } = resolvePlannedChanges(buildState(), [
+            { id: 1, effectiveDate: new Date("2027-01-01"), changes: loanEnds },
+            { id: 2, effectiveDate: new Date("2027-06-01"), changes: loanEnds },
+            { id: 3, effectiveDate: new Date("2028-01-01"), changes: raise }
+        ], context);
+
+        expect(failed).toEqual([{ id: 2, error: "Scenario entity not found" }]);
+        expect(events).toHaveLength(2);
+        expect(events[1]!.afterValue).toMatchObject({ amount: 5500 });
+    });
+});
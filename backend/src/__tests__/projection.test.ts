@@ -0,0 +1,100 @@
+import {
+    DEFAULT_PROJECTION_ASSUMPTIONS,
+    ProjectionAssumptions,
+    runMonteCarloProjection
+} from '../domain/financial/projection.js';
+import { parseProjectionAssumptions } from '../domain/schemas/projection.schema.js';
+import { createEmptyState } from '../domain/financial/reducers.js';
+
+const currency = { symbol: "$", name: "USD" };
+const asOf = new Date("2025-01-01T00:00:00Z");
+
+const assumptions = (overrides: Partial<ProjectionAssumptions> = {}): ProjectionAssumptions => ({
+    ...DEFAULT_PROJECTION_ASSUMPTIONS,
+    years: 20,
+    simulations: 500,
+    ...overrides
+});
+
+// Saves 2,000 a month towards expenses of 3,000, with some rent already coming in
+const saver = () => {
+    const state = createEmptyState(currency);
+    state.cashSavings = 10000;
+    state.assets.set(1, { id: 1, name: "Brokerage", value: 50000 });
+    state.incomeLines.set(1, { id: 1, name: "Salary", amount: 4500, type: "EARNED" });
+    state.incomeLines.set(2, { id: 2, name: "Rent", amount: 500, type: "PASSIVE" });
+    state.expenses.set(1, { id: 1, name: "Living", amount: 3000 });
+    return state;
+};
+
+describe("runMonteCarloProjection", () => {
+    // Happy Path
+    it("should widen percentile bands over time and raise the odds of freedom year by year", () => {
+        const result = runMonteCarloProjection(saver(), assumptions(), asOf);
+
+        expect(result.years).toHaveLength(21);
+        expect(result.years[0]!.date).toBe("2025-01-01");
+        expect(result.years[0]!.netWorth).toEqual({ p10: 60000, p50: 60000, p90: 60000 });
+        expect(result.years[0]!.freedomProbability).toBe(0);
+
+        const last = result.years[20]!;
+        expect(last.netWorth.p10).toBeLessThan(last.netWorth.p50);
+        expect(last.netWorth.p50).toBeLessThan(last.netWorth.p90);
+        expect(last.passiveIncome.p50).toBeGreaterThan(500);
+        expect(last.expenses).toBeCloseTo(3000 * Math.pow(1.025, 20), 0);
+
+        const odds = result.years.map(year => year.freedomProbability);
+        expect(odds).toEqual([...odds].sort((a, b) => a - b));
+        expect(last.freedomProbability).toBeGreaterThan(0.5);
+        expect(result.medianFreedomDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+
+        // The same seed replays the same paths
+        expect(runMonteCarloProjection(saver(), assumptions(), asOf)).toEqual(result);
+    });
+
+    it("should count a paid-off loan's payment as freed-up cashflow", () => {
+        const state = createEmptyState(currency);
+        state.incomeLines.set(1, { id: 1, name: "Rent", amount: 1000, type: "PASSIVE" });
+        state.expenses.set(1, { id: 1, name: "Living", amount: 800 });
+        state.expenses.set(2, { id: 2, name: "Car payment", amount: 300 });
+        state.liabilities.set(1, { id: 1, name: "Car", value: 1200, interestRate: 0, minimumPayment: 300 });
+
+        const result = runMonteCarloProjection(state, assumptions({ years: 1, inflation: 0, volatility: 0 }), asOf);
+
+        expect(result.years[1]!.netWorth.p50).toBeGreaterThan(result.years[0]!.netWorth.p50);
+        expect(result.years[1]!.expenses).toBe(800);
+        expect(result.years[1]!.freedomProbability).toBe(1);
+        expect(result.medianFreedomDate).toBe("2025-05-01");
+    });
+
+    // Sad Path
+    it("should report no freedom date when most paths never get there", () => {
+        const state = createEmptyState(currency);
+        state.cashSavings = 5000;
+        state.expenses.set(1, { id: 1, name: "Living", amount: 2000 });
+
+        const result = runMonteCarloProjection(state, assumptions({ years: 5 }), asOf);
+
+        expect(result.medianFreedomDate).toBeNull();
+        expect(result.years.every(year => year.freedomProbability === 0)).toBe(true);
+        // Spending without income runs into debt once the cash is gone
+        expect(result.years[5]!.netWorth.p50).toBeLessThan(0);
+    });
+});
+
+describe("parseProjectionAssumptions", () => {
+    // Happy Path
+    it("should read query strings and fill in defaults", () => {
+        expect(parseProjectionAssumptions({ expectedReturn: "7", years: "10" })).toEqual({
+            ...DEFAULT_PROJECTION_ASSUMPTIONS,
+            expectedReturn: 7,
+            years: 10
+        });
+    });
+
+    // Sad Path
+    it("should reject assumptions out of range", () => {
+        expect(() => parseProjectionAssumptions({ years: "100" })).toThrow(/^Invalid projection assumptions: years/);
+        expect(() => parseProjectionAssumptions({ volatility: "abc" })).toThrow(/volatility/);
+    });
+});
@@ -0,0 +1,115 @@
+import { EntityType, ActionType } from '../types/event.types.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import { FinancialState, createEmptyState } from '../domain/financial/reducers.js';
+import { ScenarioChange, ScenarioChangeType, ScenarioContext, applyScenario } from '../domain/financial/scenarios.js';
+import { parseScenarioChanges } from '../domain/schemas/scenario.schema.js';
+
+const asOf = new Date('2026-01-15T00:00:00Z');
+
+// Food (1) > Dining (2) > Coffee (3); Transport (4)
+const context: ScenarioContext = {
+    userId: 1,
+    asOf,
+    categories: new Map([
+        [1, { categoryId: 1, categoryPath: "Food", classification: "ESSENTIAL" }],
+        [2, { categoryId: 2, categoryPath: "Food > Dining", classification: "DISCRETIONARY" }],
+        [3, { categoryId: 3, categoryPath: "Food > Dining > Coffee", classification: "DISCRETIONARY" }],
+        [4, { categoryId: 4, categoryPath: "Transport", classification: "ESSENTIAL" }]
+    ]),
+    categoryParents: new Map<number, number | null>([[1, null], [2, 1], [3, 2], [4, null]])
+};
+
+const buildState = (): FinancialState => {
+    const state = createEmptyState({ id: 1, symbol: "$", name: "USD" });
+    state.assets.set(1, { id: 1, name: "Index Fund", value: 50000, assetClass: "EQUITIES", liquidity: "LIQUID", currencyId: null });
+    state.incomeLines.set(1, { id: 1, name: "Salary", amount: 6000, type: "Earned", quadrant: "EMPLOYEE", frequency: Frequency.MONTHLY, currencyId: null });
+    state.expenses.set(1, { id: 1, name: "Restaurants", amount: 400, frequency: Frequency.MONTHLY, categoryId: 2, categoryPath: "Food > Dining", classification: "DISCRETIONARY", currencyId: null });
+    state.expenses.set(2, { id: 2, name: "Cafe", amount: 100, frequency: Frequency.MONTHLY, categoryId: 3, categoryPath: "Food > Dining > Coffee", classification: "DISCRETIONARY", currencyId: null });
+    state.expenses.set(3, { id: 3, name: "Bus", amount: 80, frequency: Frequency.MONTHLY, categoryId: 4, categoryPath: "Transport", classification: "ESSENTIAL", currencyId: null });
+    state.cashAccounts.set(1, { id: 1, name: "Savings", amount: 60000, accountType: "SAVINGS" });
+    state.cashSavings = 60000;
+    return state;
+};
+
+describe("applyScenario", () => {
+    // Happy Path
+    it("should buy a mortgaged rental property with linked rent and a cash down payment", () => {
+        const changes = parseScenarioChanges({
+            changes: [
+                { type: "ADD", entityType: "ASSET", ref: "rental", data: { name: "Rental", value: 200000, assetClass: "REAL_ESTATE" } },
+                { type: "ADD", entityType: "LIABILITY", assetRef: "rental", data: { name: "Mortgage", value: 160000, interestRate: 5, termMonths: 300 } },
+                { type: "ADD", entityType: "INCOME", assetRef: "rental", data: { name: "Rent", amount: 1500, type: "Passive" } },
+                { type: "ADJUST_CASH", amount: -40000 }
+            ]
+        });
+
+        const state = buildState();
+        const { state: after, events } = applyScenario(state, changes, context);
+
+        expect(events).toHaveLength(4);
+        expect(events.every(event => event.id < 0)).toBe(true);
+        expect(after.assets.get(2)).toMatchObject({ name: "Rental", value: 200000, assetClass: "REAL_ESTATE" });
+        expect(after.liabilities.get(1)).toMatchObject({ value: 160000, assetId: 2, interestRate: 5 });
+        expect(after.incomeLines.get(2)).toMatchObject({ amount: 1500, assetId: 2, quadrant: "BUSINESS_OWNER" });
+        expect(after.cashSavings).toBe(20000);
+
+        // The live state is left untouched
+        expect(state.assets.size).toBe(1);
+        expect(state.cashSavings).toBe(60000);
+    });
+
+    it("should quit a job and cut a category subtree by a factor", () => {
+        const changes: ScenarioChange[] = [
+            { type: ScenarioChangeType.REMOVE, entityType: EntityType.INCOME, entityId: 1 },
+            { type: ScenarioChangeType.SCALE, entityType: EntityType.EXPENSE, categoryId: 2, factor: 0.7 }
+        ];
+
+        const { state: after, events } = applyScenario(buildState(), changes, context);
+
+        expect(after.incomeLines.size).toBe(0);
+        expect(after.expenses.get(1)!.amount).toBe(280);
+        expect(after.expenses.get(2)!.amount).toBe(70);
+        expect(after.expenses.get(3)!.amount).toBe(80);
+        expect(events.map(event => event.actionType)).toEqual([ActionType.DELETE, ActionType.UPDATE, ActionType.UPDATE]);
+    });
+
+    it("should keep the active period of a line that starts later", () => {
+        const changes = parseScenarioChanges({
+            changes: [{ type: "ADD", entityType: "INCOME", data: { name: "Rent", amount: 1500, type: "Passive", activeFrom: "2027-03-01", activeUntil: null } }]
+        });
+
+        const { state: after, events } = applyScenario(buildState(), changes, context);
+
+        expect(after.incomeLines.get(2)).toMatchObject({ name: "Rent", activeFrom: "2027-03-01", activeUntil: null });
+        expect(events[0]!.afterValue).toMatchObject({ activeFrom: "2027-03-01" });
+    });
+
+    // Sad Path
+    it("should reject missing entities, overdrafts and malformed changes", () => {
+        expect(() => applyScenario(buildState(), [
+            { type: ScenarioChangeType.REMOVE, entityType: EntityType.ASSET, entityId: 99 }
+        ], context)).toThrow('Scenario entity not found');
+
+        expect(() => applyScenario(buildState(), [
+            { type: ScenarioChangeType.ADJUST_CASH, amount: -60000.01 }
+        ], context)).toThrow('Scenario would overdraw the cash account');
+
+        expect(() => applyScenario(buildState(), [
+            { type: ScenarioChangeType.ADD, entityType: EntityType.LIABILITY, assetRef: "missing", data: { name: "Loan", value: 100 } }
+        ], context)).toThrow('Scenario asset reference not found');
+
+        expect(() => parseScenarioChanges({ changes: [] })).toThrow('Invalid scenario');
+        expect(() => parseScenarioChanges({
+            changes: [{ type: "ADD", entityType: "EXPENSE", data: { name: "Gym", amount: "50" } }]
+        })).toThrow('changes.0.data.amount');
+        expect(() => parseScenarioChanges({
+            changes: [{ type: "SCALE", entityType: "INCOME", categoryId: 2, factor: 0.5 }]
+        })).toThrow('Only expenses can be scaled by category');
+        expect(() => parseScenarioChanges({
+            changes: [{ type: "ADD", entityType: "EXPENSE", data: { name: "Gym", amount: 50, activeUntil: "2026-13-45" } }]
+        })).toThrow('Active dates must be valid dates');
+        expect(() => parseScenarioChanges({
+            changes: [{ type: "ADD", entityType: "INCOME", data: { name: "Rent", amount: 1500, activeFrom: "soon" } }]
+        })).toThrow('Active dates must be YYYY-MM-DD');
+    });
+});
@@ -0,0 +1,204 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+import { hydrateStateFromSnapshot } from '../domain/financial/reducers.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { createEvent } = await import('../services/event.service.js');
+const { ensureMonthlyCheckpoints, rebuildMonthlyCheckpoints } = await import('../services/analysis.service.js');
+
+const currency = { id: 1, cur_symbol: "$", cur_name: "USD" };
+
+const assetEvent = (id: number, actionType: ActionType, effectiveDate: string, value: number) => ({
+    id,
+    userId: 1,
+    actionType,
+    entityType: EntityType.ASSET,
+    entitySubtype: null,
+    entityId: 1,
+    beforeValue: null,
+    afterValue: { name: "Index Fund", value },
+    timestamp: new Date(effectiveDate),
+    effectiveDate: new Date(effectiveDate),
+    source: "USER",
+    revertsEventId: null
+});
+
+const emptyCheckpoint = (date: string) => ({
+    userId: 1,
+    date: new Date(date),
+    data: {
+        assets: [], liabilities: [], incomeLines: [], expenses: [], cashAccounts: [],
+        cashSavings: 0, currency: { id: 1, symbol: "$", name: "USD" }
+    }
+});
+
+const checkpointDates = () =>
+    db.financialSnapshot!.rows.map(row => row.date.toISOString().slice(0, 10)).sort();
+
+const assetValueAt = (date: string) => {
+    const row = db.financialSnapshot!.rows.find(snapshot => snapshot.date.toISOString().startsWith(date));
+    return hydrateStateFromSnapshot(row!.data).assets.get(1)?.value;
+};
+
+beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-05-15T12:00:00Z") });
+    db.user!.rows.splice(0, Infinity, {
+        id: 1, createdAt: new Date("2026-01-15"), preferredCurrencyId: 1, PreferredCurrency: currency
+    });
+    db.event!.rows.splice(0, Infinity, assetEvent(1, ActionType.CREATE, "2026-01-20", 100));
+    db.financialSnapshot!.rows.splice(0, Infinity);
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe("snapshot invalidation", () => {
+    // Happy Path
+    it("should drop the checkpoints on and after a backdated event's date", async () => {
+        db.financialSnapshot!.rows.push(
+            emptyCheckpoint("2026-02-01"), emptyCheckpoint("2026-03-01"), emptyCheckpoint("2026-04-01")
+        );
+
+        await createEvent({
+            actionType: ActionType.UPDATE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            afterValue: { name: "Index Fund", value: 150 },
+            effectiveDate: new Date("2026-03-01")
+        });
+
+        expect(checkpointDates()).toEqual(["2026-02-01"]);
+    });
+
+    it("should rebuild the dropped checkpoints from the event stream", async () => {
+        await ensureMonthlyCheckpoints(1);
+        expect(checkpointDates()).toEqual(["2026-01-01", "2026-02-01", "2026-03-01", "2026-04-01"]);
+        expect(assetValueAt("2026-04-01")).toBe(100);
+
+        await createEvent({
+            actionType: ActionType.UPDATE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            afterValue: { name: "Index Fund", value: 150 },
+            effectiveDate: new Date("2026-02-10")
+        });
+        await ensureMonthlyCheckpoints(1);
+
+        expect(checkpointDates()).toEqual(["2026-01-01", "2026-02-01", "2026-03-01", "2026-04-01"]);
+        expect(assetValueAt("2026-02-01")).toBe(100);
+        expect(assetValueAt("2026-03-01")).toBe(150);
+        expect(assetValueAt("2026-04-01")).toBe(150);
+    });
+
+    it("should record an internal event dated before the entity's latest one at that event's date", async () => {
+        db.event!.rows.push(assetEvent(2, ActionType.UPDATE, "2026-04-01", 120));
+        db.financialSnapshot!.rows.push(emptyCheckpoint("2026-03-01"), emptyCheckpoint("2026-04-01"));
+
+        const event = await createEvent({
+            actionType: ActionType.DELETE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            beforeValue: { name: "Index Fund", value: 120 },
+            effectiveDate: new Date("2026-02-01"),
+            clampToLatest: true
+        });
+
+        expect(event.effectiveDate).toEqual(new Date("2026-04-01"));
+        expect(checkpointDates()).toEqual(["2026-03-01"]);
+    });
+
+    it("should record a later time on the latest event's day at that event's time", async () => {
+        db.event!.rows.push(assetEvent(2, ActionType.UPDATE, "2026-04-01T15:00:00Z", 120));
+
+        const event = await createEvent({
+            actionType: ActionType.UPDATE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            afterValue: { name: "Index Fund", value: 130 },
+            effectiveDate: new Date("2026-04-01")
+        });
+
+        expect(event.effectiveDate).toEqual(new Date("2026-04-01T15:00:00Z"));
+    });
+
+    // Sad Path
+    it("should reject a requested date before the entity's latest event instead of moving it", async () => {
+        db.event!.rows.push(assetEvent(2, ActionType.UPDATE, "2026-04-01", 120));
+        db.financialSnapshot!.rows.push(emptyCheckpoint("2026-03-01"), emptyCheckpoint("2026-04-01"));
+
+        await expect(createEvent({
+            actionType: ActionType.DELETE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            beforeValue: { name: "Index Fund", value: 120 },
+            effectiveDate: new Date("2026-02-01")
+        })).rejects.toThrow("Effective date cannot be before the latest change to this entity, on 2026-04-01");
+
+        expect(db.event!.rows).toHaveLength(2);
+        expect(checkpointDates()).toEqual(["2026-03-01", "2026-04-01"]);
+    });
+
+    it("should keep every checkpoint for an event recorded now", async () => {
+        db.financialSnapshot!.rows.push(emptyCheckpoint("2026-04-01"));
+
+        await createEvent({
+            actionType: ActionType.UPDATE,
+            entityType: EntityType.ASSET,
+            userId: 1,
+            entityId: 1,
+            afterValue: { name: "Index Fund", value: 150 }
+        });
+
+        expect(checkpointDates()).toEqual(["2026-04-01"]);
+    });
+});
+
+describe("rebuildMonthlyCheckpoints", () => {
+    // Happy Path
+    it("should replace every snapshot and report the months that no longer matched", async () => {
+        db.event!.rows.push(assetEvent(2, ActionType.UPDATE, "2026-03-10", 150));
+        db.financialSnapshot!.rows.push(
+            // Built before the asset's backdated creation was recorded
+            emptyCheckpoint("2026-02-01"),
+            // A manual snapshot, not on a month boundary
+            emptyCheckpoint("2026-04-20")
+        );
+
+        const result = await rebuildMonthlyCheckpoints(1);
+
+        expect(result).toEqual({
+            userId: 1,
+            checkpointsCreated: 4,
+            snapshotsRemoved: 2,
+            changedMonths: ["2026-02"],
+            addedMonths: ["2026-01", "2026-03", "2026-04"]
+        });
+        expect(checkpointDates()).toEqual(["2026-01-01", "2026-02-01", "2026-03-01", "2026-04-01"]);
+        expect(assetValueAt("2026-01-01")).toBeUndefined();
+        expect(assetValueAt("2026-03-01")).toBe(100);
+        expect(assetValueAt("2026-04-01")).toBe(150);
+    });
+
+    // Sad Path
+    it("should report nothing changed when the checkpoints already match", async () => {
+        await rebuildMonthlyCheckpoints(1);
+        const result = await rebuildMonthlyCheckpoints(1);
+
+        expect(result.changedMonths).toEqual([]);
+        expect(result.addedMonths).toEqual([]);
+        expect(result.checkpointsCreated).toBe(4);
+    });
+
+    it("should fail for an unknown user", async () => {
+        await expect(rebuildMonthlyCheckpoints(99)).rejects.toThrow("User not found");
+    });
+});
@@ -0,0 +1,84 @@
+import { jest } from '@jest/globals';
+import { createFakePrisma } from './utils/fakePrisma.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+
+const db = createFakePrisma();
+jest.unstable_mockModule('../config/database.config.js', () => ({ default: db }));
+
+const { getFinancialTrajectory } = await import('../services/analysis.service.js');
+
+const usd = { id: 1, cur_symbol: "$", cur_name: "USD" };
+const jpy = { id: 2, cur_symbol: "¥", cur_name: "JPY" };
+
+const inflow = (id: number, date: string, amount: number) => ({
+    id, userId: 1, date: new Date(date), amount, direction: "INFLOW",
+    categoryId: null, incomeLineId: null, expenseId: null, Expense: null
+});
+
+beforeEach(() => {
+    db.currency!.rows.splice(0, Infinity, usd, jpy);
+    db.user!.rows.splice(0, Infinity, { id: 1, preferredCurrencyId: 2, PreferredCurrency: jpy, createdAt: new Date() });
+    db.exchangeRate!.rows.splice(0, Infinity, { id: 1, fromCurrencyId: 1, toCurrencyId: 2, rate: 150 });
+    // Switched from USD to JPY at 150 on August 15th
+    db.event!.rows.splice(0, Infinity, {
+        id: 1, userId: 1, actionType: ActionType.UPDATE, entityType: EntityType.USER, entitySubtype: null, entityId: 1,
+        beforeValue: { preferredCurrencyId: 1, currencyCode: "$", currencyName: "USD" },
+        afterValue: { preferredCurrencyId: 2, currencyCode: "¥", currencyName: "JPY", conversionRate: 150 },
+        timestamp: new Date("2026-08-15"), effectiveDate: new Date("2026-08-15"), source: "USER", revertsEventId: null
+    });
+    // Converted along with the preferred currency, so already in yen
+    db.transaction!.rows.splice(0, Infinity,
+        inflow(1, "2026-08-05", 150000),
+        inflow(2, "2026-09-01", 3000)
+    );
+    db.financialSnapshot!.rows.splice(0, Infinity);
+});
+
+describe("getFinancialTrajectory across a currency change", () => {
+    // Happy Path
+    it("should report actual cashflow before the change in the current preferred currency", async () => {
+        const points = await getFinancialTrajectory(1, "2026-08-10", "2026-09-10");
+
+        expect(points.map(({ date, actualCashflow, currency }) => ({ date, actualCashflow, currency }))).toEqual([
+            { date: "2026-08-10", actualCashflow: 150000, currency: "¥" },
+            { date: "2026-09-10", actualCashflow: 3000, currency: "¥" }
+        ]);
+    });
+
+    it("should convert actual cashflow into a requested currency", async () => {
+        const points = await getFinancialTrajectory(1, "2026-08-10", "2026-08-10", "monthly", 1);
+
+        expect(points[0]).toMatchObject({ actualCashflow: 1000, currency: "$" });
+    });
+
+    // Sad Path
+    it("should report no actual cashflow for a month without transactions", async () => {
+        db.transaction!.rows.splice(0, Infinity);
+
+        const points = await getFinancialTrajectory(1, "2026-08-10", "2026-09-10");
+
+        expect(points.map(point => point.actualCashflow)).toEqual([0, 0]);
+    });
+});
+
+describe("getFinancialTrajectory of a branch", () => {
+    const forkPoint = new Date("2026-09-01T00:00:00Z");
+    const expenseEvent = (id: number, actionType: ActionType, beforeValue: object | null, afterValue: object) => ({
+        id, userId: 1, actionType, entityType: EntityType.EXPENSE, entitySubtype: null, entityId: 1,
+        beforeValue, afterValue, timestamp: forkPoint, effectiveDate: forkPoint, source: "USER", revertsEventId: null
+    });
+
+    // Happy Path
+    it("should replay a branch event at the fork point after the real events there", async () => {
+        // Rent entered on the day the branch forks, which lowers it from that day
+        db.event!.rows.push(expenseEvent(2, ActionType.CREATE, null, { name: "Rent", amount: 100000 }));
+        const branch = {
+            forkPoint,
+            events: [expenseEvent(-1, ActionType.UPDATE, { name: "Rent", amount: 100000 }, { name: "Rent", amount: 80000 }) as any]
+        };
+
+        const points = await getFinancialTrajectory(1, "2026-09-10", "2026-09-10", "monthly", undefined, branch);
+
+        expect(points[0]).toMatchObject({ totalExpenses: 80000, actualCashflow: 0 });
+    });
+});
@@ -0,0 +1,75 @@
+import { Frequency } from '../domain/financial/frequency.js';
+import {
+    LedgerEntry,
+    TransactionDirection,
+    comparePlanToActual,
+    getMonthRange,
+    isMonthKey,
+    sumCashflow,
+    sumCashflowBetween
+} from '../domain/financial/transactions.js';
+
+const entry = (
+    date: string,
+    amount: number,
+    direction: TransactionDirection,
+    links: Partial<LedgerEntry> = {}
+): LedgerEntry => ({ date: new Date(date), amount, direction, ...links });
+
+describe("comparePlanToActual", () => {
+    const incomeLines = [{ id: 1, name: "Salary", amount: 5000, frequency: Frequency.MONTHLY }];
+    const expenses = [
+        { id: 10, name: "Rent", amount: 1500, frequency: Frequency.MONTHLY },
+        { id: 11, name: "Car insurance", amount: 1200, frequency: Frequency.ANNUAL }
+    ];
+
+    // Happy Path
+    it("should report planned against actual per line and overall", () => {
+        const report = comparePlanToActual("2025-03", [
+            entry("2025-03-01", 5000, TransactionDirection.INFLOW, { incomeLineId: 1 }),
+            entry("2025-03-02", 1500, TransactionDirection.OUTFLOW, { expenseId: 10, categoryPath: "Housing > Rent / Mortgage" }),
+            entry("2025-03-14", 1200, TransactionDirection.OUTFLOW, { categoryPath: "Transportation" }),
+            entry("2025-03-20", 250, TransactionDirection.INFLOW)
+        ], incomeLines, expenses);
+
+        expect(report.income.lines[0]).toEqual({ id: 1, name: "Salary", planned: 5000, actual: 5000, variance: 0 });
+        expect(report.income.unplanned).toBe(250);
+        expect(report.expenses.lines[1]).toEqual({ id: 11, name: "Car insurance", planned: 100, actual: 0, variance: -100 });
+        expect(report.expenses.unplanned).toBe(1200);
+        expect(report.plannedCashflow).toBe(3400);
+        expect(report.actualCashflow).toBe(2550);
+        expect(report.variance).toBe(-850);
+        expect(report.spendingByCategory).toEqual([
+            { categoryPath: "Housing > Rent / Mortgage", amount: 1500 },
+            { categoryPath: "Transportation", amount: 1200 }
+        ]);
+    });
+
+    it("should sum the signed cashflow within a window", () => {
+        const entries = [
+            entry("2025-02-28", 100, TransactionDirection.INFLOW),
+            entry("2025-03-01", 40.1, TransactionDirection.OUTFLOW),
+            entry("2025-03-31", 0.2, TransactionDirection.OUTFLOW)
+        ];
+
+        expect(sumCashflow(entries)).toBe(59.7);
+        expect(sumCashflowBetween(entries, new Date("2025-02-28"), new Date("2025-03-31"))).toBe(-40.3);
+        expect(getMonthRange("2025-12")).toEqual({
+            start: new Date("2025-12-01T00:00:00.000Z"),
+            end: new Date("2026-01-01T00:00:00.000Z")
+        });
+    });
+
+    // Sad Path
+    it("should count links to unknown lines as unplanned and reject bad months", () => {
+        const report = comparePlanToActual("2025-03", [
+            entry("2025-03-05", 80, TransactionDirection.OUTFLOW, { expenseId: 99 })
+        ], incomeLines, expenses);
+
+        expect(report.expenses.unplanned).toBe(80);
+        expect(report.spendingByCategory).toEqual([{ categoryPath: "Uncategorized", amount: 80 }]);
+        expect(isMonthKey("2025-13")).toBe(false);
+        expect(isMonthKey("2025-3")).toBe(false);
+        expect(isMonthKey("2025-03")).toBe(true);
+    });
+});
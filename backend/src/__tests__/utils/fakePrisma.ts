@@ -0,0 +1,180 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * In-memory stand-in for the Prisma client, for unit tests of services that
+ * cannot reach a database. Each model is an array of plain rows; relations
+ * are stored inline (e.g. an asset row carries BalanceSheet: { userId }), so
+ * relation filters match like any nested object. Only the query features the
+ * services use are supported: equality, gte/gt/lte/lt/in/not, OR, orderBy,
+ * take and skip. select and include return the whole row.
+ */
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+
+const OPERATORS = new Set(['gte', 'gt', 'lte', 'lt', 'in', 'not', 'equals']);
+
+const comparable = (value: unknown) =>
+    value instanceof Date ? value.getTime() : value instanceof Prisma.Decimal ? value.toNumber() : value;
+
+const isOperatorFilter = (filter: unknown): filter is Record<string, unknown> =>
+    typeof filter === 'object' && filter !== null && !(filter instanceof Date)
+    && Object.keys(filter).length > 0 && Object.keys(filter).every(key => OPERATORS.has(key));
+
+function matchesFilter(value: unknown, filter: Record<string, any>): boolean {
+    const actual = comparable(value) as any;
+    return Object.entries(filter).every(([operator, expected]) => {
+        const target = comparable(expected) as any;
+        switch (operator) {
+            case 'gte': return actual !== null && actual !== undefined && actual >= target;
+            case 'gt': return actual !== null && actual !== undefined && actual > target;
+            case 'lte': return actual !== null && actual !== undefined && actual <= target;
+            case 'lt': return actual !== null && actual !== undefined && actual < target;
+            case 'in': return (expected as unknown[]).map(comparable).includes(actual);
+            case 'not': return (actual ?? null) !== (target ?? null);
+            default: return (actual ?? null) === (target ?? null);
+        }
+    });
+}
+
+export function matchesWhere(row: Row | null | undefined, where: Where | undefined): boolean {
+    if (!where) return true;
+    if (!row) return false;
+
+    return Object.entries(where).every(([key, filter]) => {
+        if (filter === undefined) return true;
+        if (key === 'OR') return (filter as Where[]).some(inner => matchesWhere(row, inner));
+        if (key === 'AND') return (filter as Where[]).every(inner => matchesWhere(row, inner));
+        if (isOperatorFilter(filter)) return matchesFilter(row[key], filter);
+        if (typeof filter === 'object' && filter !== null && !(filter instanceof Date)) {
+            return matchesWhere(row[key], filter);
+        }
+        return (comparable(row[key]) ?? null) === (comparable(filter) ?? null);
+    });
+}
+
+function sortRows(rows: Row[], orderBy: Record<string, 'asc' | 'desc'> | Record<string, 'asc' | 'desc'>[] | undefined): Row[] {
+    const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+    return [...rows].sort((a, b) => {
+        for (const order of orders) {
+            const [field, direction] = Object.entries(order)[0]!;
+            const left = comparable(a[field]) as any;
+            const right = comparable(b[field]) as any;
+            if (left === right) continue;
+            const diff = left < right ? -1 : 1;
+            return direction === 'desc' ? -diff : diff;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Replace Prisma's null sentinels with plain nulls and drop undefined fields,
+ * as the database would
+ */
+const toStored = (data: Row): Row =>
+    Object.fromEntries(Object.entries(data)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value === Prisma.DbNull || value === Prisma.JsonNull ? null : value]));
+
+export class FakeModel {
+    private nextId: number;
+
+    constructor(public rows: Row[] = [], private defaults: () => Row = () => ({})) {
+        this.nextId = rows.reduce((max, row) => Math.max(max, Number(row.id ?? 0)), 0) + 1;
+    }
+
+    async findMany(args: { where?: Where; orderBy?: any; take?: number; skip?: number } = {}) {
+        const rows = sortRows(this.rows.filter(row => matchesWhere(row, args.where)), args.orderBy);
+        const start = args.skip ?? 0;
+        return rows.slice(start, args.take !== undefined ? start + args.take : undefined).map(row => ({ ...row }));
+    }
+
+    async findFirst(args: { where?: Where; orderBy?: any } = {}) {
+        return (await this.findMany({ ...args, take: 1 }))[0] ?? null;
+    }
+
+    async findUnique(args: { where: Where }) {
+        return this.findFirst(args);
+    }
+
+    async count(args: { where?: Where } = {}) {
+        return this.rows.filter(row => matchesWhere(row, args.where)).length;
+    }
+
+    async create(args: { data: Row }) {
+        const row = { id: this.nextId++, ...this.defaults(), ...toStored(args.data) };
+        this.rows.push(row);
+        return { ...row };
+    }
+
+    async createMany(args: { data: Row[] }) {
+        for (const data of args.data) {
+            await this.create({ data });
+        }
+        return { count: args.data.length };
+    }
+
+    async update(args: { where: Where; data: Row }) {
+        const row = this.rows.find(candidate => matchesWhere(candidate, args.where));
+        if (!row) throw new Error('Record to update not found');
+        Object.assign(row, toStored(args.data));
+        return { ...row };
+    }
+
+    async updateMany(args: { where?: Where; data: Row }) {
+        const rows = this.rows.filter(row => matchesWhere(row, args.where));
+        rows.forEach(row => Object.assign(row, toStored(args.data)));
+        return { count: rows.length };
+    }
+
+    async delete(args: { where: Where }) {
+        const index = this.rows.findIndex(row => matchesWhere(row, args.where));
+        if (index === -1) throw new Error('Record to delete does not exist');
+        return this.rows.splice(index, 1)[0]!;
+    }
+
+    async deleteMany(args: { where?: Where } = {}) {
+        const kept = this.rows.filter(row => !matchesWhere(row, args.where));
+        const count = this.rows.length - kept.length;
+        this.rows.splice(0, this.rows.length, ...kept);
+        return { count };
+    }
+}
+
+export type FakePrisma = Record<string, FakeModel> & {
+    $transaction: (operation: any) => Promise<any>;
+};
+
+/**
+ * Create a fake client; models not seeded start empty
+ * Events get the same defaults as the database: recorded now, effective now, source USER.
+ * Extra defaults give created rows the inline relations that filters match on,
+ * e.g. { expense: () => ({ IncomeStatement: { userId: 1 } }) }.
+ */
+export function createFakePrisma(seed: Record<string, Row[]> = {}, defaults: Record<string, () => Row> = {}): FakePrisma {
+    const models = new Map<string, FakeModel>();
+    const modelDefaults: Record<string, () => Row> = {
+        event: () => {
+            const now = new Date();
+            return { timestamp: now, effectiveDate: now, source: 'USER', revertsEventId: null, entitySubtype: null };
+        },
+        ...defaults
+    };
+
+    const client: any = new Proxy({}, {
+        get(_target, name: string) {
+            if (name === '$transaction') {
+                return async (operation: any) =>
+                    typeof operation === 'function' ? operation(client) : Promise.all(operation);
+            }
+            if (name === 'then') return undefined;
+            if (!models.has(name)) {
+                models.set(name, new FakeModel(seed[name] ?? [], modelDefaults[name]));
+            }
+            return models.get(name);
+        }
+    });
+
+    return client as FakePrisma;
+}
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { getAllUsers, getUserById, deleteUserById, getUserFinancialData } from '../services/admin.service.js';
+import { rebuildMonthlyCheckpoints } from '../services/analysis.service.js';
+import { verifyUserIntegrity, verifyAllUsersIntegrity } from '../services/integrity.service.js';
 
 /**
  * Get all users
@@ -121,3 +123,135 @@ export async function getUserFinancials(req: Request, res: Response, next: NextF
     });
   }
 }
+
+/**
+ * Rebuild a user's financial snapshots from the event stream
+ * @route POST /api/admin/users/:id/snapshots/rebuild
+ * @access Private (Admin only)
+ */
+export async function rebuildUserSnapshots(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = parseInt((req.params.id as string) || '');
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        error: 'Invalid user ID',
+      });
+    }
+
+    const user = await getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const result = await rebuildMonthlyCheckpoints(userId);
+
+    return res.status(200).json({
+      message: 'User snapshots rebuilt successfully',
+      result,
+    });
+  } catch (error) {
+    console.error('Rebuild user snapshots error:', error);
+    return res.status(500).json({
+      error: 'Failed to rebuild user snapshots',
+    });
+  }
+}
+
+/**
+ * Verify a user's event stream against the live financial tables
+ * @route GET /api/admin/users/:id/integrity
+ * @access Private (Admin only)
+ */
+export async function getUserIntegrity(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = parseInt((req.params.id as string) || '');
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        error: 'Invalid user ID',
+      });
+    }
+
+    const user = await getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const report = await verifyUserIntegrity(userId);
+
+    return res.status(200).json({
+      report,
+    });
+  } catch (error) {
+    console.error('Verify user integrity error:', error);
+    return res.status(500).json({
+      error: 'Failed to verify user integrity',
+    });
+  }
+}
+
+/**
+ * Write compensating events so a user's event stream matches the live tables
+ * @route POST /api/admin/users/:id/integrity/repair
+ * @access Private (Admin only)
+ */
+export async function repairUserIntegrity(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = parseInt((req.params.id as string) || '');
+
+    if (isNaN(userId)) {
+      return res.status(400).json({
+        error: 'Invalid user ID',
+      });
+    }
+
+    const user = await getUserById(userId);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const report = await verifyUserIntegrity(userId, { repair: true });
+
+    return res.status(200).json({
+      message: 'User integrity repaired successfully',
+      report,
+    });
+  } catch (error) {
+    console.error('Repair user integrity error:', error);
+    return res.status(500).json({
+      error: 'Failed to repair user integrity',
+    });
+  }
+}
+
+/**
+ * Verify every user's event stream, optionally repairing drift
+ * @route POST /api/admin/integrity
+ * @access Private (Admin only)
+ */
+export async function verifyAllIntegrity(req: Request, res: Response, next: NextFunction) {
+  try {
+    const repair = req.body?.repair === true;
+    const result = await verifyAllUsersIntegrity({ repair });
+
+    return res.status(200).json({
+      message: repair ? 'Integrity check and repair completed' : 'Integrity check completed',
+      result,
+    });
+  } catch (error) {
+    console.error('Verify all integrity error:', error);
+    return res.status(500).json({
+      error: 'Failed to verify integrity',
+    });
+  }
+}
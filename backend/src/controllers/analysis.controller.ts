@@ -1,5 +1,61 @@
 import { Request, Response, NextFunction } from 'express';
-import { getFinancialSnapshot, getFinancialTrajectory, createSnapshot } from '../services/analysis.service.js';
+import {
+  getFinancialSnapshot,
+  getFinancialTrajectory,
+  createSnapshot,
+  rebuildMonthlyCheckpoints,
+  simulateScenario,
+  projectFinancialFuture
+} from '../services/analysis.service.js';
+import { parseScenarioChanges } from '../domain/schemas/scenario.schema.js';
+import { parseProjectionAssumptions } from '../domain/schemas/projection.schema.js';
+import { MAX_PROJECTION_YEARS } from '../domain/financial/projection.js';
+
+/**
+ * Errors thrown when a scenario refers to something the user does not have
+ * or cannot afford
+ */
+const SCENARIO_ERRORS = [
+  'Currency not found',
+  'Category not found',
+  'Scenario entity not found',
+  'Scenario asset reference not found',
+  'Scenario would overdraw the cash account'
+];
+
+/**
+ * Parse the optional currency an analysis result should be expressed in
+ */
+function parseCurrencyId(value: unknown): { isValid: boolean; currencyId?: number } {
+  if (value === undefined || value === '') {
+    return { isValid: true };
+  }
+
+  const currencyId = Number(value);
+  return Number.isInteger(currencyId) ? { isValid: true, currencyId } : { isValid: false };
+}
+
+/**
+ * Parse the base year real figures are restated in: none unless real=true,
+ * the current year unless a baseYear is given
+ */
+function parseRealBaseYear(real: unknown, baseYear: unknown): { isValid: boolean; baseYear?: number } {
+  if (real !== 'true') {
+    return { isValid: true };
+  }
+
+  if (baseYear === undefined || baseYear === '') {
+    return { isValid: true, baseYear: new Date().getUTCFullYear() };
+  }
+
+  const year = Number(baseYear);
+  return Number.isInteger(year) && year >= 1900 && year <= 2200 ? { isValid: true, baseYear: year } : { isValid: false };
+}
+
+/**
+ * Errors of a request for real figures in a currency without a price index
+ */
+const REAL_TERMS_ERRORS = ['Currency not found', 'Inflation index not found'];
 
 export async function getFinancialSnapshotHandler(req: Request, res: Response, next: NextFunction) {
   try {
@@ -10,11 +66,26 @@ export async function getFinancialSnapshotHandler(req: Request, res: Response, n
     }
 
     const date = req.query.date as string | undefined;
+    const currency = parseCurrencyId(req.query.currencyId);
 
-    const snapshot = await getFinancialSnapshot(userId, date);
+    if (!currency.isValid) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const real = parseRealBaseYear(req.query.real, req.query.baseYear);
+
+    if (!real.isValid) {
+      return res.status(400).json({ error: 'Base year must be a year' });
+    }
+
+    const snapshot = await getFinancialSnapshot(userId, date, currency.currencyId, real.baseYear);
 
     return res.status(200).json(snapshot);
   } catch (error: any) {
+    if (REAL_TERMS_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error('Get financial snapshot error:', error);
     return res.status(500).json({ error: error.message || 'Failed to get financial snapshot' });
   }
@@ -36,10 +107,35 @@ export async function getFinancialTrajectoryHandler(req: Request, res: Response,
       return res.status(400).json({ error: 'startDate and endDate are required' });
     }
 
-    const trajectory = await getFinancialTrajectory(userId, startDate, endDate, interval);
+    // Points after today follow the planned changes, within the projection horizon
+    const horizon = new Date();
+    horizon.setUTCFullYear(horizon.getUTCFullYear() + MAX_PROJECTION_YEARS);
+    if (new Date(endDate) > horizon) {
+      return res.status(400).json({ error: `endDate cannot be more than ${MAX_PROJECTION_YEARS} years ahead` });
+    }
+
+    const currency = parseCurrencyId(req.query.currencyId);
+
+    if (!currency.isValid) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const real = parseRealBaseYear(req.query.real, req.query.baseYear);
+
+    if (!real.isValid) {
+      return res.status(400).json({ error: 'Base year must be a year' });
+    }
+
+    const trajectory = await getFinancialTrajectory(
+      userId, startDate, endDate, interval, currency.currencyId, undefined, real.baseYear
+    );
 
     return res.status(200).json(trajectory);
   } catch (error: any) {
+    if (REAL_TERMS_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+
     console.error('Get financial trajectory error:', error);
     return res.status(500).json({ error: error.message || 'Failed to get financial trajectory' });
   }
@@ -62,3 +158,88 @@ export async function createSnapshotHandler(req: Request, res: Response, next: N
   }
 }
 
+export async function rebuildSnapshotsHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const result = await rebuildMonthlyCheckpoints(userId);
+
+    return res.status(200).json({ message: 'Financial snapshots rebuilt successfully', result });
+  } catch (error: any) {
+    console.error('Rebuild snapshots error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to rebuild financial snapshots' });
+  }
+}
+
+export async function simulateScenarioHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const currency = parseCurrencyId(req.body?.currencyId);
+
+    if (!currency.isValid) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    let changes;
+    try {
+      changes = parseScenarioChanges(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const result = await simulateScenario(userId, changes, currency.currencyId);
+
+    return res.status(200).json(result);
+  } catch (error: any) {
+    if (error instanceof Error && SCENARIO_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Simulate scenario error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to simulate scenario' });
+  }
+}
+
+export async function getProjectionHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { currencyId, ...query } = req.query;
+    const currency = parseCurrencyId(currencyId);
+
+    if (!currency.isValid) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    let assumptions;
+    try {
+      assumptions = parseProjectionAssumptions(query);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const projection = await projectFinancialFuture(userId, assumptions, currency.currencyId);
+
+    return res.status(200).json(projection);
+  } catch (error: any) {
+    if (error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Get financial projection error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to get financial projection' });
+  }
+}
@@ -9,7 +9,7 @@ import {
   invalidateAllUserSessions
   , updateUsername
 } from '../services/auth.service.js';
-import { updateEmail, updatePassword } from '../services/auth.service.js';
+import { updateEmail, updatePassword, updateNumberLocale } from '../services/auth.service.js';
 import { generateAccessToken } from '../utils/jwt.utils.js';
 import prisma from '../config/database.config.js';
 
@@ -103,6 +103,7 @@ export async function login(req: Request, res: Response, next: NextFunction) {
         name: user.name,
         isAdmin: user.isAdmin,
         createdAt: user.createdAt,
+        numberLocale: user.numberLocale,
         preferredCurrency: user.PreferredCurrency
       }
     });
@@ -146,6 +147,7 @@ export async function refreshToken(req: Request, res: Response, next: NextFuncti
         name: session.User.name,
         isAdmin: session.User.isAdmin,
         createdAt: session.User.createdAt,
+        numberLocale: session.User.numberLocale,
         preferredCurrency: session.User.PreferredCurrency
       }
     });
@@ -225,6 +227,7 @@ export async function getProfile(req: Request, res: Response, next: NextFunction
         isAdmin: true,
         createdAt: true,
         lastLogin: true,
+        numberLocale: true,
         PreferredCurrency: true
       }
     });
@@ -240,6 +243,7 @@ export async function getProfile(req: Request, res: Response, next: NextFunction
         name: user.name,
         isAdmin: user.isAdmin,
         createdAt: user.createdAt,
+        numberLocale: user.numberLocale,
         preferredCurrency: user.PreferredCurrency
       }
     });
@@ -314,6 +318,38 @@ export async function updateEmailHandler(req: Request, res: Response, next: Next
   }
 }
 
+/**
+ * Update current user's number locale
+ * @route PUT /api/auth/locale
+ */
+export async function updateLocaleHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const { locale } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (locale !== null && (typeof locale !== 'string' || !locale.trim())) {
+      return res.status(400).json({ error: 'Locale must be a locale tag or null' });
+    }
+
+    try {
+      const updated = await updateNumberLocale(userId, locale === null ? null : locale.trim());
+      return res.status(200).json({ user: updated });
+    } catch (err: any) {
+      if (err?.code === 'INVALID_LOCALE') {
+        return res.status(400).json({ error: 'Unsupported locale' });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Update locale error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 /**
  * Update current user's password
  * @route PUT /api/auth/password
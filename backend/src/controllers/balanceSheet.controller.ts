@@ -9,8 +9,64 @@ import {
   getLiabilities,
   addLiability,
   updateLiability,
-  deleteLiability
+  deleteLiability,
+  getLiabilitySchedule
 } from '../services/balanceSheet.service.js';
+import { isStaleEffectiveDateError } from '../services/event.service.js';
+import { validateEffectiveDate } from '../utils/validation.utils.js';
+import {
+  ASSET_CLASSES,
+  LIQUIDITY_TIERS,
+  isAssetClass,
+  isLiquidityTier
+} from '../domain/financial/assetClasses.js';
+
+/**
+ * Validate the optional asset class and liquidity tier
+ * @returns An error message, or null when both are absent or valid
+ */
+function validateAssetClassification(assetClass: unknown, liquidity: unknown): string | null {
+  if (assetClass !== undefined && !isAssetClass(assetClass)) {
+    return `Asset class must be one of: ${ASSET_CLASSES.join(', ')}`;
+  }
+
+  if (liquidity !== undefined && !isLiquidityTier(liquidity)) {
+    return `Liquidity must be one of: ${LIQUIDITY_TIERS.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the optional loan terms of a liability
+ * Each term may be omitted, or null to clear it
+ * @returns An error message, or null when every term is absent or valid
+ */
+function validateLoanTerms(body: Record<string, unknown>): string | null {
+  const { interestRate, minimumPayment, termMonths, startDate } = body;
+
+  if (interestRate !== undefined && interestRate !== null
+    && (typeof interestRate !== 'number' || interestRate < 0 || interestRate > 100)) {
+    return 'Interest rate must be a number between 0 and 100';
+  }
+
+  if (minimumPayment !== undefined && minimumPayment !== null
+    && (typeof minimumPayment !== 'number' || minimumPayment < 0)) {
+    return 'Minimum payment must be a non-negative number';
+  }
+
+  if (termMonths !== undefined && termMonths !== null
+    && (typeof termMonths !== 'number' || !Number.isInteger(termMonths) || termMonths <= 0)) {
+    return 'Term must be a positive whole number of months';
+  }
+
+  if (startDate !== undefined && startDate !== null
+    && (typeof startDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(startDate) || isNaN(new Date(startDate).getTime()))) {
+    return 'Start date must be a valid date (YYYY-MM-DD)';
+  }
+
+  return null;
+}
 
 /**
  * Get balance sheet for the authenticated user
@@ -82,7 +138,7 @@ export async function getAssetsHandler(req: Request, res: Response, next: NextFu
 export async function addAssetHandler(req: Request, res: Response, next: NextFunction) {
   try {
     const userId = req.user?.userId;
-    const { name, value } = req.body;
+    const { name, value, assetClass, liquidity, currencyId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -99,14 +155,31 @@ export async function addAssetHandler(req: Request, res: Response, next: NextFun
       return res.status(400).json({ error: 'Value cannot be negative' });
     }
 
-    const asset = await addAsset(userId, { name, value });
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const classificationError = validateAssetClassification(assetClass, liquidity);
+    if (classificationError) {
+      return res.status(400).json({ error: classificationError });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const asset = await addAsset(userId, { name, value, assetClass, liquidity, currencyId }, { effectiveDate: effective.date });
 
     return res.status(201).json({
       message: 'Asset added successfully',
       asset
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Add asset error:', error);
+    if (error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -119,7 +192,7 @@ export async function updateAssetHandler(req: Request, res: Response, next: Next
   try {
     const userId = req.user?.userId;
     const assetId = parseInt(String(req.params.id), 10);
-    const { name, value } = req.body;
+    const { name, value, assetClass, liquidity, currencyId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -140,7 +213,21 @@ export async function updateAssetHandler(req: Request, res: Response, next: Next
       return res.status(400).json({ error: 'Value cannot be negative' });
     }
 
-    const asset = await updateAsset(userId, assetId, { name, value });
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const classificationError = validateAssetClassification(assetClass, liquidity);
+    if (classificationError) {
+      return res.status(400).json({ error: classificationError });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const asset = await updateAsset(userId, assetId, { name, value, assetClass, liquidity, currencyId }, { effectiveDate: effective.date });
 
     return res.status(200).json({
       message: 'Asset updated successfully',
@@ -148,9 +235,15 @@ export async function updateAssetHandler(req: Request, res: Response, next: Next
     });
   } catch (error: any) {
     console.error('Update asset error:', error);
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message === 'Asset not found or unauthorized') {
       return res.status(404).json({ error: error.message });
     }
+    if (error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -172,16 +265,27 @@ export async function deleteAssetHandler(req: Request, res: Response, next: Next
       return res.status(400).json({ error: 'Invalid asset ID' });
     }
 
-    await deleteAsset(userId, assetId);
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    await deleteAsset(userId, assetId, { effectiveDate: effective.date });
 
     return res.status(200).json({
       message: 'Asset deleted successfully'
     });
   } catch (error: any) {
     console.error('Delete asset error:', error);
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message === 'Asset not found or unauthorized') {
       return res.status(404).json({ error: error.message });
     }
+    if (error.message === 'Asset is still linked to income, expenses or liabilities') {
+      return res.status(409).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -213,7 +317,7 @@ export async function getLiabilitiesHandler(req: Request, res: Response, next: N
 export async function addLiabilityHandler(req: Request, res: Response, next: NextFunction) {
   try {
     const userId = req.user?.userId;
-    const { name, value } = req.body;
+    const { name, value, interestRate, minimumPayment, termMonths, startDate, assetId, currencyId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -230,14 +334,39 @@ export async function addLiabilityHandler(req: Request, res: Response, next: Nex
       return res.status(400).json({ error: 'Value cannot be negative' });
     }
 
-    const liability = await addLiability(userId, { name, value });
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const loanTermsError = validateLoanTerms(req.body);
+    if (loanTermsError) {
+      return res.status(400).json({ error: loanTermsError });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const liability = await addLiability(
+      userId,
+      { name, value, interestRate, minimumPayment, termMonths, startDate, assetId, currencyId },
+      { effectiveDate: effective.date }
+    );
 
     return res.status(201).json({
       message: 'Liability added successfully',
       liability
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error('Add liability error:', error);
+    if (error.message === 'Asset not found' || error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -250,7 +379,7 @@ export async function updateLiabilityHandler(req: Request, res: Response, next:
   try {
     const userId = req.user?.userId;
     const liabilityId = parseInt(String(req.params.id), 10);
-    const { name, value } = req.body;
+    const { name, value, interestRate, minimumPayment, termMonths, startDate, assetId, currencyId } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -271,7 +400,30 @@ export async function updateLiabilityHandler(req: Request, res: Response, next:
       return res.status(400).json({ error: 'Value cannot be negative' });
     }
 
-    const liability = await updateLiability(userId, liabilityId, { name, value });
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const loanTermsError = validateLoanTerms(req.body);
+    if (loanTermsError) {
+      return res.status(400).json({ error: loanTermsError });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const liability = await updateLiability(
+      userId,
+      liabilityId,
+      { name, value, interestRate, minimumPayment, termMonths, startDate, assetId, currencyId },
+      { effectiveDate: effective.date }
+    );
 
     return res.status(200).json({
       message: 'Liability updated successfully',
@@ -279,9 +431,15 @@ export async function updateLiabilityHandler(req: Request, res: Response, next:
     });
   } catch (error: any) {
     console.error('Update liability error:', error);
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message === 'Liability not found or unauthorized') {
       return res.status(404).json({ error: error.message });
     }
+    if (error.message === 'Asset not found' || error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -303,16 +461,59 @@ export async function deleteLiabilityHandler(req: Request, res: Response, next:
       return res.status(400).json({ error: 'Invalid liability ID' });
     }
 
-    await deleteLiability(userId, liabilityId);
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    await deleteLiability(userId, liabilityId, { effectiveDate: effective.date });
 
     return res.status(200).json({
       message: 'Liability deleted successfully'
     });
   } catch (error: any) {
     console.error('Delete liability error:', error);
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     if (error.message === 'Liability not found or unauthorized') {
       return res.status(404).json({ error: error.message });
     }
+    if (error.message === 'Liability is still linked to expenses') {
+      return res.status(409).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Get the amortization schedule for a liability
+ * @route GET /api/liabilities/:id/schedule
+ */
+export async function getLiabilityScheduleHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const liabilityId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(liabilityId)) {
+      return res.status(400).json({ error: 'Invalid liability ID' });
+    }
+
+    const schedule = await getLiabilitySchedule(userId, liabilityId);
+    return res.status(200).json(schedule);
+  } catch (error: any) {
+    console.error('Get liability schedule error:', error);
+    if (error.message === 'Liability not found or unauthorized') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'Loan terms need a minimum payment or a term'
+      || error.message === 'Payment does not cover the monthly interest') {
+      return res.status(400).json({ error: error.message });
+    }
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
@@ -1,8 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
-import { getCashSavings, updateCashSavings } from '../services/cashSavings.service.js';
+import {
+  getCashSavings,
+  updateCashSavings,
+  addCashAccount,
+  updateCashAccount,
+  deleteCashAccount
+} from '../services/cashSavings.service.js';
+import { isStaleEffectiveDateError } from '../services/event.service.js';
+import { validateEffectiveDate } from '../utils/validation.utils.js';
+import { CASH_ACCOUNT_TYPES, isCashAccountType } from '../domain/financial/cashAccounts.js';
+
+/**
+ * Validate a cash account body
+ * @param partial - Allow omitted fields (updates keep the current value)
+ * @returns An error message, or null when the body is valid
+ */
+function validateCashAccount(body: Record<string, unknown>, partial: boolean): string | null {
+  const { name, amount, accountType } = body;
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return 'Account name is required';
+    }
+  }
+
+  if (amount !== undefined || !partial) {
+    if (typeof amount !== 'number' || isNaN(amount)) {
+      return 'Invalid amount. Must be a number.';
+    }
+    if (amount < 0) {
+      return 'Amount cannot be negative';
+    }
+  }
+
+  if (accountType !== undefined && !isCashAccountType(accountType)) {
+    return `Account type must be one of: ${CASH_ACCOUNT_TYPES.join(', ')}`;
+  }
+
+  return null;
+}
 
 /**
  * Get cash savings for the authenticated user
+ * Returns the total across accounts alongside the accounts themselves
  * @route GET /api/cash-savings
  */
 export async function getCashSavingsHandler(req: Request, res: Response, next: NextFunction) {
@@ -15,10 +55,6 @@ export async function getCashSavingsHandler(req: Request, res: Response, next: N
 
     const cashSavings = await getCashSavings(userId);
 
-    if (!cashSavings) {
-      return res.status(404).json({ error: 'Cash savings record not found' });
-    }
-
     return res.status(200).json(cashSavings);
   } catch (error) {
     console.error('Get cash savings error:', error);
@@ -27,7 +63,7 @@ export async function getCashSavingsHandler(req: Request, res: Response, next: N
 }
 
 /**
- * Update cash savings amount for the authenticated user
+ * Update the balance of the default cash account for the authenticated user
  * @route PUT /api/cash-savings
  */
 export async function updateCashSavingsHandler(req: Request, res: Response, next: NextFunction) {
@@ -48,14 +84,149 @@ export async function updateCashSavingsHandler(req: Request, res: Response, next
       return res.status(400).json({ error: 'Amount cannot be negative' });
     }
 
-    const updatedCashSavings = await updateCashSavings(userId, amount);
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const updatedCashSavings = await updateCashSavings(userId, amount, { effectiveDate: effective.date });
 
     return res.status(200).json({
       message: 'Cash savings updated successfully',
       cashSavings: updatedCashSavings
     });
   } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update cash savings error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+/**
+ * Add a cash account for the authenticated user
+ * @route POST /api/cash-savings/accounts
+ */
+export async function addCashAccountHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const { name, amount, accountType } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const validationError = validateCashAccount(req.body ?? {}, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const account = await addCashAccount(userId, { name: name.trim(), amount, accountType }, { effectiveDate: effective.date });
+
+    return res.status(201).json({
+      message: 'Cash account added successfully',
+      account
+    });
+  } catch (error) {
+    console.error('Add cash account error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update a cash account for the authenticated user
+ * @route PUT /api/cash-savings/accounts/:id
+ */
+export async function updateCashAccountHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const accountId = parseInt(String(req.params.id), 10);
+    const { name, amount, accountType } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({ error: 'Invalid cash account ID' });
+    }
+
+    const validationError = validateCashAccount(req.body ?? {}, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const account = await updateCashAccount(
+      userId,
+      accountId,
+      { name: typeof name === 'string' ? name.trim() : undefined, amount, accountType },
+      { effectiveDate: effective.date }
+    );
+
+    if (!account) {
+      return res.status(404).json({ error: 'Cash account not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Cash account updated successfully',
+      account
+    });
+  } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update cash account error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a cash account for the authenticated user
+ * @route DELETE /api/cash-savings/accounts/:id
+ */
+export async function deleteCashAccountHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const accountId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(accountId)) {
+      return res.status(400).json({ error: 'Invalid cash account ID' });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const account = await deleteCashAccount(userId, accountId, { effectiveDate: effective.date });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Cash account not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Cash account deleted successfully'
+    });
+  } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Delete cash account error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import * as currencyService from '../services/currency.service.js';
+import * as currencyConversionService from '../services/currencyConversion.service.js';
+import { validateEffectiveDate } from '../utils/validation.utils.js';
 
 /**
  * Get all available currencies
@@ -35,13 +37,35 @@ export const getUserPreferredCurrency = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Map the errors a currency change can raise to a response
+ */
+const sendCurrencyChangeError = (res: Response, error: unknown, fallback: string) => {
+  if (error instanceof Error && error.message === 'Currency not found') {
+    return res.status(404).json({ error: 'Currency not found' });
+  }
+  if (
+    error instanceof Error &&
+    (error.message === 'Currency is already the preferred currency' ||
+      error.message === 'No exchange rate between these currencies')
+  ) {
+    return res.status(400).json({ error: error.message });
+  }
+  res.status(500).json({
+    error: error instanceof Error ? error.message : fallback,
+  });
+};
+
 /**
  * Update user's preferred currency
+ * Body: { currencyId, convert?, rate? }
+ * With convert, every amount held in the old preferred currency is re-denominated
+ * at the supplied rate, or the stored one when no rate is given
  */
 export const updateUserPreferredCurrency = async (req: Request, res: Response) => {
   try {
     const userId = req.user?.userId;
-    const { currencyId } = req.body;
+    const { currencyId, convert, rate } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Unauthorized' });
@@ -51,19 +75,235 @@ export const updateUserPreferredCurrency = async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Valid currency ID is required' });
     }
 
-    await currencyService.updateUserCurrency(userId, currencyId);
+    if (convert !== undefined && typeof convert !== 'boolean') {
+      return res.status(400).json({ error: 'Convert must be a boolean' });
+    }
+
+    if (rate !== undefined && (typeof rate !== 'number' || !(rate > 0))) {
+      return res.status(400).json({ error: 'Rate must be a positive number' });
+    }
+
+    if (convert) {
+      await currencyConversionService.convertUserCurrency(userId, currencyId, rate);
+    } else {
+      await currencyService.updateUserCurrency(userId, currencyId);
+    }
     const updatedCurrency = await currencyService.getUserCurrency(userId);
     
     res.status(200).json({
-      message: 'Currency preference updated successfully',
+      message: convert
+        ? 'Currency preference updated and amounts converted'
+        : 'Currency preference updated successfully',
       preferredCurrency: updatedCurrency,
     });
   } catch (error) {
-    if (error instanceof Error && error.message === 'Currency not found') {
-      return res.status(404).json({ error: 'Currency not found' });
+    sendCurrencyChangeError(res, error, 'Failed to update currency preference');
+  }
+};
+
+/**
+ * Preview the amounts a conversion to a new preferred currency would change
+ * Query: ?currencyId=2&rate=56.1 (rate optional, defaults to the stored rate)
+ */
+export const getCurrencyConversionPreview = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
-    res.status(500).json({
-      error: error instanceof Error ? error.message : 'Failed to update currency preference',
+
+    const currencyId = Number(req.query.currencyId);
+    const rate = req.query.rate !== undefined ? Number(req.query.rate) : undefined;
+
+    if (!Number.isInteger(currencyId) || currencyId <= 0) {
+      return res.status(400).json({ error: 'Valid currency ID is required' });
+    }
+
+    if (rate !== undefined && !(rate > 0)) {
+      return res.status(400).json({ error: 'Rate must be a positive number' });
+    }
+
+    const preview = await currencyConversionService.previewCurrencyConversion(userId, currencyId, rate);
+    res.status(200).json(preview);
+  } catch (error) {
+    sendCurrencyChangeError(res, error, 'Failed to preview currency conversion');
+  }
+};
+
+/**
+ * Get all stored exchange rates
+ */
+export const getExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const rates = await currencyService.getExchangeRates();
+    res.status(200).json(rates);
+  } catch (error) {
+    console.error('Get exchange rates error:', error);
+    res.status(500).json({ error: 'Failed to fetch exchange rates' });
+  }
+};
+
+/**
+ * Get the dated rate history, optionally for one currency pair
+ * Query: ?fromCurrencyId=1&toCurrencyId=2
+ */
+export const getExchangeRateHistory = async (req: Request, res: Response) => {
+  try {
+    const fromCurrencyId = req.query.fromCurrencyId !== undefined ? Number(req.query.fromCurrencyId) : undefined;
+    const toCurrencyId = req.query.toCurrencyId !== undefined ? Number(req.query.toCurrencyId) : undefined;
+
+    if (
+      (fromCurrencyId !== undefined && !Number.isInteger(fromCurrencyId)) ||
+      (toCurrencyId !== undefined && !Number.isInteger(toCurrencyId))
+    ) {
+      return res.status(400).json({ error: 'Currency IDs must be integers' });
+    }
+
+    const history = await currencyService.getExchangeRateHistory(fromCurrencyId, toCurrencyId);
+    res.status(200).json(history);
+  } catch (error) {
+    console.error('Get exchange rate history error:', error);
+    res.status(500).json({ error: 'Failed to fetch exchange rate history' });
+  }
+};
+
+/**
+ * Record exchange rates (admin only)
+ * Body: { rates: [{ fromCurrencyId, toCurrencyId, rate, effectiveDate? }] }
+ */
+export const updateExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const { rates } = req.body ?? {};
+
+    if (!Array.isArray(rates) || rates.length === 0) {
+      return res.status(400).json({ error: 'A non-empty list of rates is required' });
+    }
+
+    const isValidRow = (row: any) =>
+      Number.isInteger(row?.fromCurrencyId) &&
+      Number.isInteger(row?.toCurrencyId) &&
+      row.fromCurrencyId !== row.toCurrencyId &&
+      typeof row.rate === 'number' &&
+      row.rate > 0;
+
+    if (!rates.every(isValidRow)) {
+      return res.status(400).json({
+        error: 'Each rate needs two different currency IDs and a positive rate',
+      });
+    }
+
+    const effectiveDates = rates.map((row: any) => validateEffectiveDate(row.effectiveDate));
+    const invalidDate = effectiveDates.find(effective => !effective.isValid);
+    if (invalidDate) {
+      return res.status(400).json({ error: invalidDate.error });
+    }
+
+    const saved = await currencyService.saveExchangeRates(
+      rates.map((row: any, index: number) => ({
+        fromCurrencyId: row.fromCurrencyId,
+        toCurrencyId: row.toCurrencyId,
+        rate: row.rate,
+        effectiveDate: effectiveDates[index]!.date,
+      }))
+    );
+
+    res.status(200).json({
+      message: 'Exchange rates updated successfully',
+      rates: saved,
     });
+  } catch (error) {
+    if (error instanceof Error && (
+      error.message === 'Currency not found' ||
+      error.message === 'Exchange rate date cannot be in the future'
+    )) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update exchange rates error:', error);
+    res.status(500).json({ error: 'Failed to update exchange rates' });
+  }
+};
+
+/**
+ * Import exchange rates from CSV text (admin only)
+ * Body: { csv: "from,to,rate,date\nUS Dollar,Philippine Peso,56.1,2024-03-01" }
+ */
+export const importExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const { csv } = req.body ?? {};
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'CSV content is required' });
+    }
+
+    const { rates, errors } = await currencyService.importExchangeRatesCsv(csv);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: `Invalid exchange rate CSV: ${errors.join('; ')}`,
+        errors,
+      });
+    }
+
+    res.status(200).json({
+      message: 'Exchange rates imported successfully',
+      rates,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Exchange rate date cannot be in the future') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Import exchange rates error:', error);
+    res.status(500).json({ error: 'Failed to import exchange rates' });
+  }
+};
+
+/**
+ * Get the recorded price index, optionally for one currency (?currencyId=)
+ */
+export const getInflationIndex = async (req: Request, res: Response) => {
+  try {
+    const currencyId = req.query.currencyId !== undefined ? Number(req.query.currencyId) : undefined;
+
+    if (currencyId !== undefined && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const index = await currencyService.getInflationIndex(currencyId);
+    res.status(200).json(index);
+  } catch (error) {
+    console.error('Get inflation index error:', error);
+    res.status(500).json({ error: 'Failed to fetch inflation index' });
+  }
+};
+
+/**
+ * Import price index values from CSV text (admin only)
+ * Body: { csv: "currency,date,value\nUS Dollar,2024-03,312.33" }
+ */
+export const importInflationIndex = async (req: Request, res: Response) => {
+  try {
+    const { csv } = req.body ?? {};
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'CSV content is required' });
+    }
+
+    const { values, errors } = await currencyService.importInflationIndexCsv(csv);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: `Invalid inflation index CSV: ${errors.join('; ')}`,
+        errors,
+      });
+    }
+
+    res.status(200).json({
+      message: 'Inflation index imported successfully',
+      values,
+    });
+  } catch (error) {
+    console.error('Import inflation index error:', error);
+    res.status(500).json({ error: 'Failed to import inflation index' });
   }
 };
@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  compareDebtPayoffStrategies,
+  saveDebtPayoffPlan
+} from '../services/debtPayoff.service.js';
+import { PAYOFF_STRATEGIES, isPayoffStrategy } from '../domain/financial/debtPayoff.js';
+
+function isLiabilityIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(id => Number.isInteger(id));
+}
+
+/**
+ * Compare snowball, avalanche and custom payoff strategies
+ * @route GET /api/debt-payoff?extraPayment=500&customOrder=3,1,2
+ */
+export async function compareDebtPayoffHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { extraPayment, customOrder } = req.query;
+
+    let parsedExtraPayment: number | undefined;
+    if (extraPayment !== undefined) {
+      parsedExtraPayment = Number(extraPayment);
+      if (isNaN(parsedExtraPayment) || parsedExtraPayment < 0) {
+        return res.status(400).json({ error: 'Extra payment must be a non-negative number' });
+      }
+    }
+
+    let parsedCustomOrder: number[] | undefined;
+    if (customOrder !== undefined) {
+      parsedCustomOrder = String(customOrder).split(',').filter(Boolean).map(Number);
+      if (!isLiabilityIdList(parsedCustomOrder)) {
+        return res.status(400).json({ error: 'Custom order must be a comma-separated list of liability IDs' });
+      }
+    }
+
+    const comparison = await compareDebtPayoffStrategies(userId, {
+      extraPayment: parsedExtraPayment,
+      customOrder: parsedCustomOrder
+    });
+    return res.status(200).json(comparison);
+  } catch (error) {
+    console.error('Compare debt payoff error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Save the payoff strategy used by the freedom-date projection
+ * @route PUT /api/debt-payoff/plan
+ */
+export async function saveDebtPayoffPlanHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const { strategy, extraPayment, customOrder = [] } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!isPayoffStrategy(strategy)) {
+      return res.status(400).json({ error: `Strategy must be one of: ${PAYOFF_STRATEGIES.join(', ')}` });
+    }
+
+    if (typeof extraPayment !== 'number' || extraPayment < 0) {
+      return res.status(400).json({ error: 'Extra payment must be a non-negative number' });
+    }
+
+    if (!isLiabilityIdList(customOrder)) {
+      return res.status(400).json({ error: 'Custom order must be a list of liability IDs' });
+    }
+
+    const plan = await saveDebtPayoffPlan(userId, { strategy, extraPayment, customOrder });
+
+    return res.status(200).json({
+      message: 'Payoff plan saved successfully',
+      plan
+    });
+  } catch (error) {
+    console.error('Save debt payoff plan error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -4,6 +4,7 @@ import {
   getEventsByEntity,
   getEventCount
 } from '../services/event.service.js';
+import { previewRevert, revertEvent } from '../services/revert.service.js';
 import { EntityType } from '../types/event.types.js';
 
 /**
@@ -109,6 +110,88 @@ export async function getEntityEventsHandler(req: Request, res: Response, next:
   }
 }
 
+/**
+ * Map revert service errors to HTTP responses
+ */
+function sendRevertError(res: Response, error: any) {
+  switch (error?.message) {
+    case 'Event not found':
+      return res.status(404).json({ error: error.message });
+    case 'Event has already been reverted':
+    case 'The entity changed by this event no longer exists':
+    case 'Asset not found':
+    case 'Asset is still linked to income, expenses or liabilities':
+    case 'Liability is still linked to expenses':
+      return res.status(409).json({ error: error.message });
+    case 'Only income, expense, asset, liability and cash savings events can be reverted':
+      return res.status(400).json({ error: error.message });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Preview what reverting an event would change
+ * @route GET /api/events/:id/revert/preview
+ */
+export async function previewRevertHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const eventId = parseInt(String(req.params.id), 10);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const preview = await previewRevert(userId, eventId);
+
+    return res.status(200).json({ preview });
+  } catch (error: any) {
+    const handled = sendRevertError(res, error);
+    if (handled) return handled;
+    console.error('Preview revert error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Revert an event by applying its beforeValue through the entity services
+ * The original event is untouched; a new event links back to it
+ * @route POST /api/events/:id/revert
+ */
+export async function revertEventHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const eventId = parseInt(String(req.params.id), 10);
+
+    if (isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid event ID' });
+    }
+
+    const result = await revertEvent(userId, eventId);
+
+    return res.status(200).json({
+      message: 'Event reverted successfully',
+      ...result
+    });
+  } catch (error: any) {
+    const handled = sendRevertError(res, error);
+    if (handled) return handled;
+    console.error('Revert event error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 /**
  * Block any attempt to update events
  * Events are immutable and cannot be modified
@@ -1,5 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
-import { addExpense, getExpenses, updateExpense, deleteExpense } from '../services/expense.service.js';
+import {
+  addExpense,
+  getExpenses,
+  updateExpense,
+  deleteExpense,
+  getBudgets,
+  addBudget,
+  updateBudget,
+  deleteBudget,
+  getBudgetReport,
+  getBudgetHistory
+} from '../services/expense.service.js';
+import { isStaleEffectiveDateError } from '../services/event.service.js';
+import { validateActivePeriod, validateEffectiveDate } from '../utils/validation.utils.js';
+import { FREQUENCIES, isFrequency } from '../domain/financial/frequency.js';
+import { BUDGET_ROLLOVERS, isBudgetRollover } from '../domain/financial/budgets.js';
+import { isMonthKey } from '../domain/financial/transactions.js';
+
+const BUDGET_ERRORS = ['Expense not found', 'Category not found', 'Budget already exists'];
+
+/** Longest history the budget page can request */
+const MAX_HISTORY_MONTHS = 36;
+
+/**
+ * Validate the limit and rollover rule of a budget request body
+ * @returns An error message, or null when the body is valid
+ */
+function validateBudget(body: any): string | null {
+  const { monthlyLimit, rollover } = body ?? {};
+
+  if (typeof monthlyLimit !== 'number' || !Number.isFinite(monthlyLimit)) {
+    return 'Monthly limit is required and must be a number';
+  }
+
+  if (monthlyLimit < 0) {
+    return 'Monthly limit cannot be negative';
+  }
+
+  if (rollover !== undefined && !isBudgetRollover(rollover)) {
+    return `Rollover must be one of: ${BUDGET_ROLLOVERS.join(', ')}`;
+  }
+
+  return null;
+}
 
 /**
  * Get all expenses for the authenticated user
@@ -28,7 +71,7 @@ export async function getExpensesHandler(req: Request, res: Response, next: Next
 export async function addExpenseHandler(req: Request, res: Response, next: NextFunction) {
   try {
     const userId = req.user?.userId;
-    const { name, amount } = req.body;
+    const { name, amount, frequency, categoryId, assetId, liabilityId, currencyId, activeFrom, activeUntil } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -45,13 +88,56 @@ export async function addExpenseHandler(req: Request, res: Response, next: NextF
       return res.status(400).json({ error: 'Amount cannot be negative' });
     }
 
-    const expense = await addExpense(userId, { name, amount });
+    if (frequency !== undefined && !isFrequency(frequency)) {
+      return res.status(400).json({
+        error: `Frequency must be one of: ${FREQUENCIES.join(', ')}`
+      });
+    }
+
+    if (categoryId !== undefined && categoryId !== null && !Number.isInteger(categoryId)) {
+      return res.status(400).json({ error: 'Category ID must be an integer' });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (liabilityId !== undefined && liabilityId !== null && !Number.isInteger(liabilityId)) {
+      return res.status(400).json({ error: 'Liability ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const period = validateActivePeriod(activeFrom, activeUntil);
+    if (!period.isValid) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    // A line that started before it was entered is recorded from its first active day
+    const effectiveDate = effective.date
+      ?? (typeof activeFrom === 'string' && new Date(activeFrom) < new Date() ? new Date(activeFrom) : undefined);
+
+    const expense = await addExpense(
+      userId,
+      { name, amount, frequency, categoryId, assetId, liabilityId, currencyId, activeFrom, activeUntil },
+      { effectiveDate }
+    );
 
     return res.status(201).json({
       message: 'Expense added successfully',
       expense
     });
   } catch (error) {
+    if (error instanceof Error && (error.message === 'Category not found' || error.message === 'Asset not found' || error.message === 'Liability not found' || error.message === 'Currency not found')) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Add expense error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
@@ -65,7 +151,7 @@ export async function updateExpenseHandler(req: Request, res: Response, next: Ne
   try {
     const userId = req.user?.userId;
     const expenseId = parseInt(String(req.params.id), 10);
-    const { name, amount } = req.body;
+    const { name, amount, frequency, categoryId, assetId, liabilityId, currencyId, activeFrom, activeUntil } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -86,10 +172,49 @@ export async function updateExpenseHandler(req: Request, res: Response, next: Ne
       return res.status(400).json({ error: 'Amount cannot be negative' });
     }
 
+    if (frequency !== undefined && !isFrequency(frequency)) {
+      return res.status(400).json({
+        error: `Frequency must be one of: ${FREQUENCIES.join(', ')}`
+      });
+    }
+
+    if (categoryId !== undefined && categoryId !== null && !Number.isInteger(categoryId)) {
+      return res.status(400).json({ error: 'Category ID must be an integer' });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (liabilityId !== undefined && liabilityId !== null && !Number.isInteger(liabilityId)) {
+      return res.status(400).json({ error: 'Liability ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const period = validateActivePeriod(activeFrom, activeUntil);
+    if (!period.isValid) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
     const updatedExpense = await updateExpense(userId, expenseId, {
       name,
-      amount
-    });
+      amount,
+      frequency,
+      categoryId,
+      assetId,
+      liabilityId,
+      currencyId,
+      activeFrom,
+      activeUntil
+    }, { effectiveDate: effective.date });
 
     if (!updatedExpense) {
       return res.status(404).json({ error: 'Expense not found' });
@@ -100,6 +225,12 @@ export async function updateExpenseHandler(req: Request, res: Response, next: Ne
       expense: updatedExpense
     });
   } catch (error) {
+    if (error instanceof Error && (error.message === 'Category not found' || error.message === 'Asset not found' || error.message === 'Liability not found' || error.message === 'Currency not found' || error.message === 'Active until cannot be before active from')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update expense error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
@@ -122,7 +253,12 @@ export async function deleteExpenseHandler(req: Request, res: Response, next: Ne
       return res.status(400).json({ error: 'Invalid expense ID' });
     }
 
-    const deleted = await deleteExpense(userId, expenseId);
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const deleted = await deleteExpense(userId, expenseId, { effectiveDate: effective.date });
 
     if (!deleted) {
       return res.status(404).json({ error: 'Expense not found' });
@@ -132,7 +268,220 @@ export async function deleteExpenseHandler(req: Request, res: Response, next: Ne
       message: 'Expense deleted successfully'
     });
   } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Delete expense error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
-}
\ No newline at end of file
+}
+/**
+ * Get all budgets for the authenticated user
+ * @route GET /api/expenses/budgets
+ */
+export async function getBudgetsHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const budgets = await getBudgets(userId);
+    return res.status(200).json(budgets);
+  } catch (error) {
+    console.error('Get budgets error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Add a budget for one expense or one category
+ * @route POST /api/expenses/budgets
+ */
+export async function addBudgetHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const { expenseId, categoryId, monthlyLimit, rollover } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const hasExpense = expenseId !== undefined && expenseId !== null;
+    const hasCategory = categoryId !== undefined && categoryId !== null;
+
+    if (hasExpense === hasCategory) {
+      return res.status(400).json({ error: 'Provide either an expense ID or a category ID' });
+    }
+
+    if ((hasExpense && !Number.isInteger(expenseId)) || (hasCategory && !Number.isInteger(categoryId))) {
+      return res.status(400).json({ error: 'Expense ID and category ID must be integers' });
+    }
+
+    const validationError = validateBudget(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const budget = await addBudget(userId, {
+      expenseId: hasExpense ? expenseId : null,
+      categoryId: hasCategory ? categoryId : null,
+      monthlyLimit,
+      rollover
+    }, { effectiveDate: effective.date });
+
+    return res.status(201).json({
+      message: 'Budget added successfully',
+      budget
+    });
+  } catch (error) {
+    if (error instanceof Error && BUDGET_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Add budget error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update the limit or rollover rule of a budget
+ * @route PUT /api/expenses/budgets/:id
+ */
+export async function updateBudgetHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const budgetId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(budgetId)) {
+      return res.status(400).json({ error: 'Invalid budget ID' });
+    }
+
+    const validationError = validateBudget(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const { monthlyLimit, rollover } = req.body;
+    const budget = await updateBudget(userId, budgetId, { monthlyLimit, rollover }, { effectiveDate: effective.date });
+
+    if (!budget) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Budget updated successfully',
+      budget
+    });
+  } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update budget error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a budget
+ * @route DELETE /api/expenses/budgets/:id
+ */
+export async function deleteBudgetHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const budgetId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(budgetId)) {
+      return res.status(400).json({ error: 'Invalid budget ID' });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const deleted = await deleteBudget(userId, budgetId, { effectiveDate: effective.date });
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Budget not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Budget deleted successfully'
+    });
+  } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Delete budget error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Budget vs planned vs actual for one month
+ * @route GET /api/expenses/budgets/report?month=YYYY-MM
+ */
+export async function getBudgetReportHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const month = req.query.month ?? new Date().toISOString().slice(0, 7);
+    if (!isMonthKey(month)) {
+      return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+    }
+
+    const report = await getBudgetReport(userId, month);
+    return res.status(200).json(report);
+  } catch (error) {
+    console.error('Get budget report error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Monthly budget reports up to the current month
+ * @route GET /api/expenses/budgets/history?months=12
+ */
+export async function getBudgetHistoryHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const months = req.query.months === undefined ? 12 : Number(req.query.months);
+    if (!Number.isInteger(months) || months < 1 || months > MAX_HISTORY_MONTHS) {
+      return res.status(400).json({ error: `Months must be an integer between 1 and ${MAX_HISTORY_MONTHS}` });
+    }
+
+    const history = await getBudgetHistory(userId, months);
+    return res.status(200).json(history);
+  } catch (error) {
+    console.error('Get budget history error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getExpenseCategories,
+  addExpenseCategory,
+  updateExpenseCategory,
+  deleteExpenseCategory
+} from '../services/expenseCategory.service.js';
+import { EXPENSE_CLASSIFICATIONS, isExpenseClassification } from '../domain/financial/expenseCategories.js';
+
+/**
+ * Validate the category fields shared by create and update
+ * @returns An error message, or null when the body is valid
+ */
+function validateCategoryBody(body: any): string | null {
+  const { name, parentId, classification } = body ?? {};
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Category name is required';
+  }
+
+  if (parentId !== undefined && parentId !== null && !Number.isInteger(parentId)) {
+    return 'Parent category ID must be an integer';
+  }
+
+  if (classification !== undefined && !isExpenseClassification(classification)) {
+    return `Classification must be one of: ${EXPENSE_CLASSIFICATIONS.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Map category service errors to HTTP responses
+ */
+function sendCategoryError(res: Response, error: unknown) {
+  if (!(error instanceof Error)) return null;
+
+  switch (error.message) {
+    case 'Parent category not found':
+    case 'A category cannot be nested under itself':
+      return res.status(400).json({ error: error.message });
+    case 'Category is still used by expenses or subcategories':
+      return res.status(409).json({ error: error.message });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get all expense categories for the authenticated user
+ * @route GET /api/expense-categories
+ */
+export async function getExpenseCategoriesHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const categories = await getExpenseCategories(userId);
+    return res.status(200).json(categories);
+  } catch (error) {
+    console.error('Get expense categories error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Add a new expense category
+ * @route POST /api/expense-categories
+ */
+export async function addExpenseCategoryHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const validationError = validateCategoryBody(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { name, parentId, classification } = req.body;
+    const category = await addExpenseCategory(userId, { name: name.trim(), parentId, classification });
+
+    return res.status(201).json({
+      message: 'Expense category added successfully',
+      category
+    });
+  } catch (error) {
+    const handled = sendCategoryError(res, error);
+    if (handled) return handled;
+    console.error('Add expense category error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update an expense category (rename, move or reclassify)
+ * @route PUT /api/expense-categories/:id
+ */
+export async function updateExpenseCategoryHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const categoryId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid category ID' });
+    }
+
+    const validationError = validateCategoryBody(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const { name, parentId, classification } = req.body;
+    const category = await updateExpenseCategory(userId, categoryId, { name: name.trim(), parentId, classification });
+
+    if (!category) {
+      return res.status(404).json({ error: 'Expense category not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Expense category updated successfully',
+      category
+    });
+  } catch (error) {
+    const handled = sendCategoryError(res, error);
+    if (handled) return handled;
+    console.error('Update expense category error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete an expense category
+ * @route DELETE /api/expense-categories/:id
+ */
+export async function deleteExpenseCategoryHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const categoryId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid category ID' });
+    }
+
+    const deleted = await deleteExpenseCategory(userId, categoryId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Expense category not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Expense category deleted successfully'
+    });
+  } catch (error) {
+    const handled = sendCategoryError(res, error);
+    if (handled) return handled;
+    console.error('Delete expense category error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
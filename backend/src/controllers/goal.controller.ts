@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getGoals,
+  addGoal,
+  updateGoal,
+  deleteGoal,
+  getGoalProgress
+} from '../services/goal.service.js';
+import { GOAL_METRICS, GOAL_METRIC_DETAILS, GoalMetric, isGoalMetric } from '../domain/financial/goals.js';
+
+/**
+ * Validate a goal body
+ * @returns The goal, or an error message
+ */
+function parseGoal(body: any) {
+  const { name, metric, targetValue, deadline } = body ?? {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'Name is required' };
+  }
+
+  if (!isGoalMetric(metric)) {
+    return { error: `Metric must be one of: ${GOAL_METRICS.join(', ')}` };
+  }
+
+  if (typeof targetValue !== 'number' || !Number.isFinite(targetValue)) {
+    return { error: 'Target value is required and must be a number' };
+  }
+
+  // Only net worth can sensibly be aimed at below zero
+  if (targetValue < 0 && metric !== GoalMetric.NET_WORTH) {
+    return { error: 'Target value cannot be negative' };
+  }
+
+  if (GOAL_METRIC_DETAILS[metric].unit === 'PERCENT' && targetValue > 1000) {
+    return { error: 'Target percentage cannot exceed 1000' };
+  }
+
+  const date = typeof deadline === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(deadline) ? new Date(deadline) : null;
+  if (!date || isNaN(date.getTime())) {
+    return { error: 'Deadline must be a date in YYYY-MM-DD format' };
+  }
+
+  if (date.getTime() <= Date.now()) {
+    return { error: 'Deadline must be in the future' };
+  }
+
+  return { goal: { name: name.trim(), metric, targetValue, deadline: date } };
+}
+
+/**
+ * Get all goals for the authenticated user
+ * @route GET /api/goals
+ */
+export async function getGoalsHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const goals = await getGoals(userId);
+    return res.status(200).json(goals);
+  } catch (error) {
+    console.error('Get goals error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Evaluate progress on every goal
+ * @route GET /api/goals/progress
+ */
+export async function getGoalProgressHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const progress = await getGoalProgress(userId);
+    return res.status(200).json(progress);
+  } catch (error) {
+    console.error('Get goal progress error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Add a goal
+ * @route POST /api/goals
+ */
+export async function addGoalHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const parsed = parseGoal(req.body);
+    if (!parsed.goal) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const goal = await addGoal(userId, parsed.goal);
+
+    return res.status(201).json({
+      message: 'Goal added successfully',
+      goal
+    });
+  } catch (error) {
+    console.error('Add goal error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update a goal
+ * @route PUT /api/goals/:id
+ */
+export async function updateGoalHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const goalId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(goalId)) {
+      return res.status(400).json({ error: 'Invalid goal ID' });
+    }
+
+    const parsed = parseGoal(req.body);
+    if (!parsed.goal) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const goal = await updateGoal(userId, goalId, parsed.goal);
+
+    if (!goal) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Goal updated successfully',
+      goal
+    });
+  } catch (error) {
+    console.error('Update goal error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a goal
+ * @route DELETE /api/goals/:id
+ */
+export async function deleteGoalHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const goalId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(goalId)) {
+      return res.status(400).json({ error: 'Invalid goal ID' });
+    }
+
+    const deleted = await deleteGoal(userId, goalId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Goal not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Goal deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete goal error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
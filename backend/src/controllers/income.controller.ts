@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { addIncomeLine, getIncomeLines, updateIncomeLine, deleteIncomeLine } from '../services/income.service.js';
+import { isStaleEffectiveDateError } from '../services/event.service.js';
 import { EARNED_QUADRANTS } from '../utils/incomeQuadrant.utils.js';
+import { validateActivePeriod, validateEffectiveDate } from '../utils/validation.utils.js';
+import { FREQUENCIES, isFrequency } from '../domain/financial/frequency.js';
 
 /**
  * Get all income lines for the authenticated user
@@ -29,7 +32,7 @@ export async function getIncomeLinesHandler(req: Request, res: Response, next: N
 export async function addIncomeLineHandler(req: Request, res: Response, next: NextFunction) {
   try {
     const userId = req.user?.userId;
-    const { name, amount, type, quadrant } = req.body;
+    const { name, amount, type, quadrant, frequency, assetId, currencyId, activeFrom, activeUntil } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -46,6 +49,20 @@ export async function addIncomeLineHandler(req: Request, res: Response, next: Ne
       return res.status(400).json({ error: 'Amount cannot be negative' });
     }
 
+    if (frequency !== undefined && !isFrequency(frequency)) {
+      return res.status(400).json({
+        error: `Frequency must be one of: ${FREQUENCIES.join(', ')}`
+      });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
     // Validate income type
     const validTypes = ['Earned', 'Portfolio', 'Passive'];
     if (!validTypes.includes(type)) {
@@ -64,13 +81,34 @@ export async function addIncomeLineHandler(req: Request, res: Response, next: Ne
       });
     }
 
-    const incomeLine = await addIncomeLine(userId, { name, amount, type, quadrant: normalizedQuadrant ?? null });
+    const period = validateActivePeriod(activeFrom, activeUntil);
+    if (!period.isValid) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    // A line that started before it was entered is recorded from its first active day
+    const effectiveDate = effective.date
+      ?? (typeof activeFrom === 'string' && new Date(activeFrom) < new Date() ? new Date(activeFrom) : undefined);
+
+    const incomeLine = await addIncomeLine(
+      userId,
+      { name, amount, type, quadrant: normalizedQuadrant ?? null, frequency, assetId, currencyId, activeFrom, activeUntil },
+      { effectiveDate }
+    );
 
     return res.status(201).json({
       message: 'Income line added successfully',
       incomeLine
     });
   } catch (error) {
+    if (error instanceof Error && (error.message === 'Asset not found' || error.message === 'Currency not found')) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Add income line error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
@@ -84,7 +122,7 @@ export async function updateIncomeLineHandler(req: Request, res: Response, next:
   try {
     const userId = req.user?.userId;
   const incomeLineId = parseInt(String(req.params.id), 10);
-    const { name, amount, type, quadrant } = req.body;
+    const { name, amount, type, quadrant, frequency, assetId, currencyId, activeFrom, activeUntil } = req.body;
 
     if (!userId) {
       return res.status(401).json({ error: 'Authentication required' });
@@ -105,6 +143,20 @@ export async function updateIncomeLineHandler(req: Request, res: Response, next:
       return res.status(400).json({ error: 'Amount cannot be negative' });
     }
 
+    if (frequency !== undefined && !isFrequency(frequency)) {
+      return res.status(400).json({
+        error: `Frequency must be one of: ${FREQUENCIES.join(', ')}`
+      });
+    }
+
+    if (assetId !== undefined && assetId !== null && !Number.isInteger(assetId)) {
+      return res.status(400).json({ error: 'Asset ID must be an integer' });
+    }
+
+    if (currencyId !== undefined && currencyId !== null && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
     // Validate income type
     const validTypes = ['Earned', 'Portfolio', 'Passive'];
     if (!validTypes.includes(type)) {
@@ -123,12 +175,27 @@ export async function updateIncomeLineHandler(req: Request, res: Response, next:
       });
     }
 
+    const period = validateActivePeriod(activeFrom, activeUntil);
+    if (!period.isValid) {
+      return res.status(400).json({ error: period.error });
+    }
+
+    const effective = validateEffectiveDate(req.body?.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
     const updatedIncomeLine = await updateIncomeLine(userId, incomeLineId, {
       name,
       amount,
       type,
-      quadrant: normalizedQuadrant ?? null
-    });
+      quadrant: normalizedQuadrant ?? null,
+      frequency,
+      assetId,
+      currencyId,
+      activeFrom,
+      activeUntil
+    }, { effectiveDate: effective.date });
 
     if (!updatedIncomeLine) {
       return res.status(404).json({ error: 'Income line not found' });
@@ -139,6 +206,12 @@ export async function updateIncomeLineHandler(req: Request, res: Response, next:
       incomeLine: updatedIncomeLine
     });
   } catch (error) {
+    if (error instanceof Error && (error.message === 'Asset not found' || error.message === 'Currency not found' || error.message === 'Active until cannot be before active from')) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Update income line error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
@@ -161,7 +234,12 @@ export async function deleteIncomeLineHandler(req: Request, res: Response, next:
       return res.status(400).json({ error: 'Invalid income line ID' });
     }
 
-    const deleted = await deleteIncomeLine(userId, incomeLineId);
+    const effective = validateEffectiveDate(req.body?.effectiveDate ?? req.query.effectiveDate);
+    if (!effective.isValid) {
+      return res.status(400).json({ error: effective.error });
+    }
+
+    const deleted = await deleteIncomeLine(userId, incomeLineId, { effectiveDate: effective.date });
 
     if (!deleted) {
       return res.status(404).json({ error: 'Income line not found' });
@@ -171,6 +249,9 @@ export async function deleteIncomeLineHandler(req: Request, res: Response, next:
       message: 'Income line deleted successfully'
     });
   } catch (error) {
+    if (isStaleEffectiveDateError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Delete income line error:', error);
     return res.status(500).json({ error: 'Internal server error' });
   }
@@ -0,0 +1,132 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getPlannedChanges,
+  addPlannedChange,
+  deletePlannedChange
+} from '../services/plannedChange.service.js';
+import { parseScenarioChanges } from '../domain/schemas/scenario.schema.js';
+
+/**
+ * Errors thrown when planned changes refer to something the state on their
+ * date does not have or cannot afford
+ */
+const PLANNED_CHANGE_ERRORS = [
+  'Category not found',
+  'Scenario entity not found',
+  'Scenario asset reference not found',
+  'Scenario would overdraw the cash account'
+];
+
+/**
+ * Validate a YYYY-MM-DD date
+ */
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Get all planned changes for the authenticated user
+ * @route GET /api/planned-changes
+ */
+export async function getPlannedChangesHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const changes = await getPlannedChanges(userId);
+    return res.status(200).json(changes);
+  } catch (error) {
+    console.error('Get planned changes error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Schedule changes for a future date
+ * @route POST /api/planned-changes
+ */
+export async function addPlannedChangeHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const label = typeof req.body?.label === 'string' ? req.body.label.trim() : '';
+    if (!label) {
+      return res.status(400).json({ error: 'Label is required' });
+    }
+
+    const effectiveDate = req.body?.effectiveDate;
+    if (!isDateString(effectiveDate)) {
+      return res.status(400).json({ error: 'Effective date must be a date in YYYY-MM-DD format' });
+    }
+
+    // Changes that have already happened are recorded directly
+    const today = new Date().toISOString().slice(0, 10);
+    if (effectiveDate <= today) {
+      return res.status(400).json({ error: 'Effective date must be after today' });
+    }
+
+    let changes;
+    try {
+      changes = parseScenarioChanges(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const change = await addPlannedChange(userId, { label, effectiveDate, changes });
+
+    return res.status(201).json({
+      message: 'Planned change scheduled successfully',
+      change
+    });
+  } catch (error) {
+    if (error instanceof Error && PLANNED_CHANGE_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Add planned change error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a pending or failed planned change
+ * @route DELETE /api/planned-changes/:id
+ */
+export async function deletePlannedChangeHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const changeId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(changeId)) {
+      return res.status(400).json({ error: 'Invalid planned change ID' });
+    }
+
+    const deleted = await deletePlannedChange(userId, changeId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Planned change not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Planned change deleted successfully'
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Applied changes cannot be deleted') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Delete planned change error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,341 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getBranches,
+  getBranch,
+  addBranch,
+  updateBranch,
+  deleteBranch,
+  addBranchChanges,
+  deleteBranchEvent,
+  getBranchTrajectory
+} from '../services/scenarioBranch.service.js';
+import { parseScenarioChanges } from '../domain/schemas/scenario.schema.js';
+
+/**
+ * Errors thrown when branch changes refer to something the branch does not
+ * have, cannot afford or come out of order
+ */
+const BRANCH_CHANGE_ERRORS = [
+  'Category not found',
+  'Scenario entity not found',
+  'Scenario asset reference not found',
+  'Scenario would overdraw the cash account',
+  'Changes cannot predate the fork date',
+  'Changes cannot predate the latest change of the branch'
+];
+
+const TRAJECTORY_INTERVALS = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Validate a YYYY-MM-DD date
+ */
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function parseName(name: unknown) {
+  return typeof name === 'string' && name.trim() ? name.trim() : null;
+}
+
+/**
+ * Get all scenario branches for the authenticated user
+ * @route GET /api/scenario-branches
+ */
+export async function getBranchesHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const branches = await getBranches(userId);
+    return res.status(200).json(branches);
+  } catch (error) {
+    console.error('Get scenario branches error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Get a scenario branch with its events
+ * @route GET /api/scenario-branches/:id
+ */
+export async function getBranchHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId)) {
+      return res.status(400).json({ error: 'Invalid branch ID' });
+    }
+
+    const branch = await getBranch(userId, branchId);
+
+    if (!branch) {
+      return res.status(404).json({ error: 'Scenario branch not found' });
+    }
+
+    return res.status(200).json(branch);
+  } catch (error) {
+    console.error('Get scenario branch error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a scenario branch forking at a date (today by default)
+ * @route POST /api/scenario-branches
+ */
+export async function addBranchHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const name = parseName(req.body?.name);
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const forkDate = req.body?.forkDate ?? today;
+
+    if (!isDateString(forkDate)) {
+      return res.status(400).json({ error: 'Fork date must be a date in YYYY-MM-DD format' });
+    }
+
+    // A branch forks from what has already happened
+    if (forkDate > today) {
+      return res.status(400).json({ error: 'Fork date cannot be in the future' });
+    }
+
+    const branch = await addBranch(userId, { name, forkDate });
+
+    return res.status(201).json({
+      message: 'Scenario branch created successfully',
+      branch
+    });
+  } catch (error) {
+    console.error('Add scenario branch error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Rename a scenario branch
+ * @route PUT /api/scenario-branches/:id
+ */
+export async function updateBranchHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId)) {
+      return res.status(400).json({ error: 'Invalid branch ID' });
+    }
+
+    const name = parseName(req.body?.name);
+    if (!name) {
+      return res.status(400).json({ error: 'Name is required' });
+    }
+
+    const branch = await updateBranch(userId, branchId, name);
+
+    if (!branch) {
+      return res.status(404).json({ error: 'Scenario branch not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Scenario branch updated successfully',
+      branch
+    });
+  } catch (error) {
+    console.error('Update scenario branch error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a scenario branch and its events
+ * @route DELETE /api/scenario-branches/:id
+ */
+export async function deleteBranchHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId)) {
+      return res.status(400).json({ error: 'Invalid branch ID' });
+    }
+
+    const deleted = await deleteBranch(userId, branchId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Scenario branch not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Scenario branch deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete scenario branch error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Record hypothetical changes on a branch
+ * @route POST /api/scenario-branches/:id/changes
+ */
+export async function addBranchChangesHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId)) {
+      return res.status(400).json({ error: 'Invalid branch ID' });
+    }
+
+    const effectiveDate = req.body?.effectiveDate;
+    if (!isDateString(effectiveDate)) {
+      return res.status(400).json({ error: 'Effective date must be a date in YYYY-MM-DD format' });
+    }
+
+    let changes;
+    try {
+      changes = parseScenarioChanges(req.body);
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const events = await addBranchChanges(userId, branchId, effectiveDate, changes);
+
+    if (!events) {
+      return res.status(404).json({ error: 'Scenario branch not found' });
+    }
+
+    return res.status(201).json({
+      message: 'Scenario changes recorded successfully',
+      events
+    });
+  } catch (error) {
+    if (error instanceof Error && BRANCH_CHANGE_ERRORS.includes(error.message)) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Add scenario branch changes error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete one event of a branch
+ * @route DELETE /api/scenario-branches/:id/events/:eventId
+ */
+export async function deleteBranchEventHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+    const eventId = parseInt(String(req.params.eventId), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId) || isNaN(eventId)) {
+      return res.status(400).json({ error: 'Invalid branch or event ID' });
+    }
+
+    const deleted = await deleteBranchEvent(userId, branchId, eventId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Scenario event not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Scenario event deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete scenario branch event error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Trajectory of a branch next to reality
+ * @route GET /api/scenario-branches/:id/trajectory
+ */
+export async function getBranchTrajectoryHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const branchId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(branchId)) {
+      return res.status(400).json({ error: 'Invalid branch ID' });
+    }
+
+    const { startDate, endDate } = req.query;
+    const interval = (req.query.interval as string | undefined) || 'monthly';
+
+    if (!isDateString(startDate) || !isDateString(endDate)) {
+      return res.status(400).json({ error: 'startDate and endDate are required in YYYY-MM-DD format' });
+    }
+
+    if (!TRAJECTORY_INTERVALS.includes(interval)) {
+      return res.status(400).json({ error: `Interval must be one of: ${TRAJECTORY_INTERVALS.join(', ')}` });
+    }
+
+    const currencyId = req.query.currencyId !== undefined && req.query.currencyId !== ''
+      ? Number(req.query.currencyId)
+      : undefined;
+
+    if (currencyId !== undefined && !Number.isInteger(currencyId)) {
+      return res.status(400).json({ error: 'Currency ID must be an integer' });
+    }
+
+    const trajectory = await getBranchTrajectory(
+      userId,
+      branchId,
+      startDate,
+      endDate,
+      interval as 'daily' | 'weekly' | 'monthly',
+      currencyId
+    );
+
+    if (!trajectory) {
+      return res.status(404).json({ error: 'Scenario branch not found' });
+    }
+
+    return res.status(200).json(trajectory);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Currency not found') {
+      return res.status(400).json({ error: error.message });
+    }
+
+    console.error('Get scenario branch trajectory error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,290 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  getTransactions,
+  addTransaction,
+  updateTransaction,
+  deleteTransaction,
+  getMonthlyPlanVsActual
+} from '../services/transaction.service.js';
+import {
+  TRANSACTION_DIRECTIONS,
+  isMonthKey,
+  isTransactionDirection
+} from '../domain/financial/transactions.js';
+
+/**
+ * Errors thrown by the service for links that do not belong to the user
+ * or do not suit the transaction's direction
+ */
+const LINK_ERRORS = [
+  'Cash account not found',
+  'Category not found',
+  'Income line not found',
+  'Expense not found',
+  'Only inflows can be linked to an income line',
+  'Only outflows can be linked to an expense',
+  'Transaction would overdraw the cash account'
+];
+
+function isLinkError(error: unknown): error is Error {
+  return error instanceof Error && LINK_ERRORS.includes(error.message);
+}
+
+/**
+ * Parse a transaction date; transactions record what already happened
+ * @returns The date, or an error message
+ */
+function parseTransactionDate(value: unknown): { date?: Date; error?: string } {
+  if (typeof value !== 'string' || !value) {
+    return { error: 'Transaction date must be an ISO date string' };
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return { error: 'Transaction date is not a valid date' };
+  }
+
+  if (date.getTime() > Date.now()) {
+    return { error: 'Transaction date cannot be in the future' };
+  }
+
+  return { date };
+}
+
+function isOptionalId(value: unknown): boolean {
+  return value === undefined || value === null || Number.isInteger(value);
+}
+
+/**
+ * Validate a transaction body
+ * @param partial - Allow omitted fields (updates keep the current value)
+ * @returns An error message, or null when the body is valid
+ */
+function validateTransaction(body: Record<string, unknown>, partial: boolean): string | null {
+  const { amount, direction, description, cashAccountId, categoryId, incomeLineId, expenseId } = body;
+
+  if (amount !== undefined || !partial) {
+    if (typeof amount !== 'number' || isNaN(amount) || amount <= 0) {
+      return 'Amount must be a positive number';
+    }
+  }
+
+  if (direction !== undefined || !partial) {
+    if (!isTransactionDirection(direction)) {
+      return `Direction must be one of: ${TRANSACTION_DIRECTIONS.join(', ')}`;
+    }
+  }
+
+  if (description !== undefined || !partial) {
+    if (typeof description !== 'string' || !description.trim()) {
+      return 'Description is required';
+    }
+  }
+
+  if (!isOptionalId(cashAccountId)) return 'Cash account ID must be an integer';
+  if (!isOptionalId(categoryId)) return 'Category ID must be an integer';
+  if (!isOptionalId(incomeLineId)) return 'Income line ID must be an integer';
+  if (!isOptionalId(expenseId)) return 'Expense ID must be an integer';
+
+  return null;
+}
+
+/**
+ * Get transactions for the authenticated user
+ * @route GET /api/transactions?from=2025-01-01&to=2025-01-31&cashAccountId=3
+ */
+export async function getTransactionsHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const { from, to, cashAccountId } = req.query;
+    const fromDate = from !== undefined ? new Date(String(from)) : undefined;
+    const toDate = to !== undefined ? new Date(String(to)) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+
+    const accountId = cashAccountId !== undefined ? parseInt(String(cashAccountId), 10) : undefined;
+    if (accountId !== undefined && isNaN(accountId)) {
+      return res.status(400).json({ error: 'Invalid cash account ID' });
+    }
+
+    const transactions = await getTransactions(userId, { from: fromDate, to: toDate, cashAccountId: accountId });
+    return res.status(200).json(transactions);
+  } catch (error) {
+    console.error('Get transactions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Record a transaction
+ * @route POST /api/transactions
+ */
+export async function addTransactionHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const { amount, direction, description, cashAccountId, categoryId, incomeLineId, expenseId } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const validationError = validateTransaction(req.body ?? {}, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const parsedDate = parseTransactionDate(req.body?.date);
+    if (parsedDate.error) {
+      return res.status(400).json({ error: parsedDate.error });
+    }
+
+    const transaction = await addTransaction(userId, {
+      date: parsedDate.date!,
+      amount,
+      direction,
+      description: description.trim(),
+      cashAccountId,
+      categoryId,
+      incomeLineId,
+      expenseId
+    });
+
+    return res.status(201).json({
+      message: 'Transaction added successfully',
+      transaction
+    });
+  } catch (error) {
+    if (isLinkError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Add transaction error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update a transaction
+ * @route PUT /api/transactions/:id
+ */
+export async function updateTransactionHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const transactionId = parseInt(String(req.params.id), 10);
+    const { amount, direction, description, cashAccountId, categoryId, incomeLineId, expenseId } = req.body ?? {};
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(transactionId)) {
+      return res.status(400).json({ error: 'Invalid transaction ID' });
+    }
+
+    const validationError = validateTransaction(req.body ?? {}, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    let date: Date | undefined;
+    if (req.body?.date !== undefined) {
+      const parsedDate = parseTransactionDate(req.body.date);
+      if (parsedDate.error) {
+        return res.status(400).json({ error: parsedDate.error });
+      }
+      date = parsedDate.date;
+    }
+
+    const transaction = await updateTransaction(userId, transactionId, {
+      date,
+      amount,
+      direction,
+      description: typeof description === 'string' ? description.trim() : undefined,
+      cashAccountId,
+      categoryId,
+      incomeLineId,
+      expenseId
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Transaction updated successfully',
+      transaction
+    });
+  } catch (error) {
+    if (isLinkError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update transaction error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a transaction
+ * @route DELETE /api/transactions/:id
+ */
+export async function deleteTransactionHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+    const transactionId = parseInt(String(req.params.id), 10);
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (isNaN(transactionId)) {
+      return res.status(400).json({ error: 'Invalid transaction ID' });
+    }
+
+    const transaction = await deleteTransaction(userId, transactionId);
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Transaction not found' });
+    }
+
+    return res.status(200).json({
+      message: 'Transaction deleted successfully'
+    });
+  } catch (error) {
+    if (isLinkError(error)) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Delete transaction error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Compare a month of transactions against the monthly statement
+ * @route GET /api/transactions/plan-vs-actual?month=2025-01
+ */
+export async function getPlanVsActualHandler(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const month = req.query.month ?? new Date().toISOString().slice(0, 7);
+    if (!isMonthKey(month)) {
+      return res.status(400).json({ error: 'Month must be in YYYY-MM format' });
+    }
+
+    const report = await getMonthlyPlanVsActual(userId, month);
+    return res.status(200).json(report);
+  } catch (error) {
+    console.error('Get plan vs actual error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
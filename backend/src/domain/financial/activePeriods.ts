@@ -0,0 +1,109 @@
+/**
+ * Active Periods
+ *
+ * Income lines and expenses may start and end on known dates: a contract that
+ * runs out, a subscription that is cancelled, rent that starts when a lease
+ * begins. A line counts towards income, expenses and every derived metric
+ * only from its first active day through its last, both inclusive. Lines are
+ * filtered on each date a state is looked at, so a replay stays correct for
+ * the days before a line started and after it ended, even before the expiry
+ * job has recorded its end.
+ */
+
+import { FinancialState } from './reducers.js';
+
+export interface ActivePeriod {
+    /** First day the line counts, YYYY-MM-DD; null when it always has */
+    activeFrom?: string | null;
+    /** Last day the line counts, YYYY-MM-DD; null when it has no end */
+    activeUntil?: string | null;
+}
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Normalize an active period from a database row or event payload
+ * Dates become YYYY-MM-DD; missing dates are null
+ */
+export function toActivePeriod(source: Record<string, any>): Required<ActivePeriod> {
+    const toKey = (value: unknown) =>
+        value instanceof Date ? toDateKey(value) : typeof value === 'string' ? value.slice(0, 10) : null;
+    return {
+        activeFrom: toKey(source.activeFrom),
+        activeUntil: toKey(source.activeUntil)
+    };
+}
+
+/**
+ * The period a partial update leaves on a line
+ * Undefined keeps the stored date; null clears it
+ * @throws if the line would end before it starts
+ */
+export function mergeActivePeriod(stored: Record<string, any>, update: ActivePeriod): Required<ActivePeriod> {
+    const current = toActivePeriod(stored);
+    const merged = {
+        activeFrom: update.activeFrom === undefined ? current.activeFrom : update.activeFrom,
+        activeUntil: update.activeUntil === undefined ? current.activeUntil : update.activeUntil
+    };
+
+    if (merged.activeFrom && merged.activeUntil && merged.activeUntil < merged.activeFrom) {
+        throw new Error('Active until cannot be before active from');
+    }
+
+    return merged;
+}
+
+/**
+ * Map an active period onto date columns
+ * Undefined leaves a column unchanged; null clears it
+ */
+export function toActivePeriodColumns(period: ActivePeriod) {
+    const toColumn = (value: string | null | undefined) => (value ? new Date(value) : value);
+    return {
+        activeFrom: toColumn(period.activeFrom),
+        activeUntil: toColumn(period.activeUntil)
+    };
+}
+
+/**
+ * Whether a line counts on the day of a date
+ */
+export function isActiveOn(period: ActivePeriod, date: Date): boolean {
+    const day = toDateKey(date);
+    return (!period.activeFrom || period.activeFrom <= day)
+        && (!period.activeUntil || day <= period.activeUntil);
+}
+
+/**
+ * Whether a line counts on any day from start up to (not including) end
+ * Monthly reports plan a line for every month it is active in at all
+ */
+export function isActiveDuring(period: ActivePeriod, start: Date, end: Date): boolean {
+    return (!period.activeFrom || period.activeFrom < toDateKey(end))
+        && (!period.activeUntil || toDateKey(start) <= period.activeUntil);
+}
+
+/**
+ * The moment a line stops counting: the start of the day after its last day
+ * Expiry events are dated here so a replay drops the line on the same day the
+ * filter does.
+ */
+export function expiryDate(activeUntil: string): Date {
+    const date = new Date(`${activeUntil}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date;
+}
+
+/**
+ * A state with only the income lines and expenses active on a date
+ */
+export function activeFinancialState(state: FinancialState, date: Date): FinancialState {
+    const filterMap = <T extends ActivePeriod>(entities: Map<number, T>) =>
+        new Map(Array.from(entities).filter(([, entity]) => isActiveOn(entity, date)));
+
+    return {
+        ...state,
+        incomeLines: filterMap(state.incomeLines),
+        expenses: filterMap(state.expenses)
+    };
+}
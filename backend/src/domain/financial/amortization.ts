@@ -0,0 +1,197 @@
+/**
+ * Loan Amortization
+ *
+ * A liability's value is its outstanding balance. When the loan terms are
+ * known (an interest rate plus a monthly payment or a term), the balance is
+ * run forward month by month to show how each payment splits into principal
+ * and interest, and when the loan is paid off.
+ */
+
+export interface LoanTerms {
+    /** Annual interest rate in percent, e.g. 6.5 */
+    interestRate?: number | null;
+    /** Monthly payment; derived from the remaining term when absent */
+    minimumPayment?: number | null;
+    /** Original length of the loan in months */
+    termMonths?: number | null;
+    /** Date the loan started, YYYY-MM-DD */
+    startDate?: string | null;
+}
+
+export interface AmortizationPeriod {
+    period: number;
+    date: string;
+    payment: number;
+    principal: number;
+    interest: number;
+    /** Balance remaining after this payment */
+    balance: number;
+}
+
+export interface AmortizationSchedule {
+    balance: number;
+    interestRate: number;
+    monthlyPayment: number;
+    periods: AmortizationPeriod[];
+    /** Date of the final payment; null when already paid off or beyond the schedule limit */
+    payoffDate: string | null;
+    totalInterest: number;
+    totalPaid: number;
+}
+
+export interface LoanSummary {
+    monthlyPayment: number;
+    payoffDate: string | null;
+    remainingMonths: number;
+    totalInterest: number;
+}
+
+/** Schedules stop after 100 years */
+export const MAX_AMORTIZATION_PERIODS = 1200;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Normalize loan terms from a database row or event payload
+ * Decimals become numbers and dates become YYYY-MM-DD; missing terms are null
+ */
+export function toLoanTerms(source: Record<string, any>): Required<LoanTerms> {
+    const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+    return {
+        interestRate: toNumber(source.interestRate),
+        minimumPayment: toNumber(source.minimumPayment),
+        termMonths: source.termMonths ?? null,
+        startDate: source.startDate instanceof Date ? toDateKey(source.startDate) : (source.startDate ?? null)
+    };
+}
+
+/**
+ * Add whole months to a date, clamping to the last day of shorter months
+ */
+export function addMonths(date: Date, months: number): Date {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+    return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+}
+
+/**
+ * Level monthly payment that pays off a principal over a number of months
+ */
+export function calculateMonthlyPayment(principal: number, annualRate: number, months: number): number {
+    if (months <= 0) return round2(principal);
+    const monthlyRate = annualRate / 100 / 12;
+    if (monthlyRate === 0) return round2(principal / months);
+    return round2((principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months)));
+}
+
+/**
+ * Months left on the original term, or null when the term is unknown
+ * A loan past its term is due in full next month
+ */
+export function getRemainingTerm(terms: LoanTerms, asOf: Date = new Date()): number | null {
+    if (!terms.termMonths) return null;
+    const elapsed = terms.startDate ? Math.max(0, monthsBetween(new Date(terms.startDate), asOf)) : 0;
+    return Math.max(1, terms.termMonths - elapsed);
+}
+
+/**
+ * Monthly payment for a loan: the stated minimum, otherwise the level payment
+ * over the remaining term. Null when neither is known.
+ */
+export function resolveMonthlyPayment(balance: number, terms: LoanTerms, asOf: Date = new Date()): number | null {
+    if (terms.minimumPayment && terms.minimumPayment > 0) return terms.minimumPayment;
+    const remainingTerm = getRemainingTerm(terms, asOf);
+    return remainingTerm !== null ? calculateMonthlyPayment(balance, terms.interestRate ?? 0, remainingTerm) : null;
+}
+
+/**
+ * Build the full amortization schedule from the current balance
+ * Payments fall monthly from the loan start date, or from next month if the loan has already started
+ * @throws Error when the terms give no payment, or the payment never reduces the balance
+ */
+export function buildAmortizationSchedule(balance: number, terms: LoanTerms, asOf: Date = new Date()): AmortizationSchedule {
+    const interestRate = terms.interestRate ?? 0;
+    const monthlyRate = interestRate / 100 / 12;
+
+    if (balance <= 0) {
+        return {
+            balance: 0,
+            interestRate,
+            monthlyPayment: 0,
+            periods: [],
+            payoffDate: null,
+            totalInterest: 0,
+            totalPaid: 0
+        };
+    }
+
+    const monthlyPayment = resolveMonthlyPayment(balance, terms, asOf);
+    if (monthlyPayment === null) {
+        throw new Error('Loan terms need a minimum payment or a term');
+    }
+
+    if (monthlyPayment <= round2(balance * monthlyRate)) {
+        throw new Error('Payment does not cover the monthly interest');
+    }
+
+    const startDate = terms.startDate ? new Date(terms.startDate) : null;
+    const firstPaymentDate = startDate && startDate > asOf ? startDate : addMonths(asOf, 1);
+
+    const periods: AmortizationPeriod[] = [];
+    let remaining = balance;
+    let totalInterest = 0;
+    let totalPaid = 0;
+
+    while (remaining > 0 && periods.length < MAX_AMORTIZATION_PERIODS) {
+        const interest = round2(remaining * monthlyRate);
+        const principal = round2(Math.min(monthlyPayment - interest, remaining));
+        const payment = round2(principal + interest);
+        remaining = round2(remaining - principal);
+        totalInterest += interest;
+        totalPaid += payment;
+
+        periods.push({
+            period: periods.length + 1,
+            date: toDateKey(addMonths(firstPaymentDate, periods.length)),
+            payment,
+            principal,
+            interest,
+            balance: remaining
+        });
+    }
+
+    return {
+        balance,
+        interestRate,
+        monthlyPayment,
+        periods,
+        payoffDate: remaining <= 0 ? periods[periods.length - 1]!.date : null,
+        totalInterest: round2(totalInterest),
+        totalPaid: round2(totalPaid)
+    };
+}
+
+/**
+ * Payoff date and remaining interest for a loan, or null when it cannot be amortized
+ */
+export function summarizeLoan(balance: number, terms: LoanTerms, asOf: Date = new Date()): LoanSummary | null {
+    const monthlyPayment = resolveMonthlyPayment(balance, terms, asOf);
+    if (monthlyPayment === null || monthlyPayment <= round2(balance * (terms.interestRate ?? 0) / 100 / 12)) {
+        return null;
+    }
+
+    const schedule = buildAmortizationSchedule(balance, terms, asOf);
+    return {
+        monthlyPayment: schedule.monthlyPayment,
+        payoffDate: schedule.payoffDate,
+        remainingMonths: schedule.periods.length,
+        totalInterest: schedule.totalInterest
+    };
+}
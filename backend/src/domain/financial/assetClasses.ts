@@ -0,0 +1,126 @@
+/**
+ * Asset Classes and Liquidity
+ *
+ * A brokerage account and a car are both assets, but only one of them can
+ * pay next month's rent. Every asset carries a class (what it is) and a
+ * liquidity tier (how quickly it turns into cash). Only LIQUID assets count
+ * toward liquid runway and liquid solvency.
+ */
+
+export enum AssetClass {
+    CASH_EQUIVALENT = 'CASH_EQUIVALENT',
+    EQUITIES = 'EQUITIES',
+    BONDS = 'BONDS',
+    REAL_ESTATE = 'REAL_ESTATE',
+    VEHICLE = 'VEHICLE',
+    BUSINESS = 'BUSINESS',
+    RETIREMENT = 'RETIREMENT',
+    CRYPTO = 'CRYPTO',
+    COLLECTIBLE = 'COLLECTIBLE',
+    OTHER = 'OTHER'
+}
+
+export enum LiquidityTier {
+    /** Can be sold or withdrawn within days at close to full value */
+    LIQUID = 'LIQUID',
+    /** Can be sold within weeks or months, or only with penalties */
+    SEMI_LIQUID = 'SEMI_LIQUID',
+    /** Slow or costly to turn into cash */
+    ILLIQUID = 'ILLIQUID'
+}
+
+export const ASSET_CLASSES = Object.values(AssetClass);
+export const LIQUIDITY_TIERS = Object.values(LiquidityTier);
+
+/**
+ * Liquidity assumed for each class when none is given
+ * Unclassified assets are treated as illiquid so runway is never overstated
+ */
+export const DEFAULT_LIQUIDITY: Record<AssetClass, LiquidityTier> = {
+    [AssetClass.CASH_EQUIVALENT]: LiquidityTier.LIQUID,
+    [AssetClass.EQUITIES]: LiquidityTier.LIQUID,
+    [AssetClass.BONDS]: LiquidityTier.LIQUID,
+    [AssetClass.CRYPTO]: LiquidityTier.LIQUID,
+    [AssetClass.RETIREMENT]: LiquidityTier.SEMI_LIQUID,
+    [AssetClass.VEHICLE]: LiquidityTier.SEMI_LIQUID,
+    [AssetClass.COLLECTIBLE]: LiquidityTier.SEMI_LIQUID,
+    [AssetClass.REAL_ESTATE]: LiquidityTier.ILLIQUID,
+    [AssetClass.BUSINESS]: LiquidityTier.ILLIQUID,
+    [AssetClass.OTHER]: LiquidityTier.ILLIQUID
+};
+
+export function isAssetClass(value: unknown): value is AssetClass {
+    return typeof value === 'string' && (ASSET_CLASSES as string[]).includes(value);
+}
+
+export function isLiquidityTier(value: unknown): value is LiquidityTier {
+    return typeof value === 'string' && (LIQUIDITY_TIERS as string[]).includes(value);
+}
+
+/**
+ * Resolve the class and liquidity of an asset, filling in defaults
+ * Assets recorded before classes existed are OTHER / ILLIQUID
+ */
+export function resolveAssetClassification(
+    assetClass?: string | null,
+    liquidity?: string | null
+): { assetClass: AssetClass; liquidity: LiquidityTier } {
+    const resolvedClass = isAssetClass(assetClass) ? assetClass : AssetClass.OTHER;
+    return {
+        assetClass: resolvedClass,
+        liquidity: isLiquidityTier(liquidity) ? liquidity : DEFAULT_LIQUIDITY[resolvedClass]
+    };
+}
+
+/**
+ * Asset entry shape needed for liquidity and allocation
+ */
+export interface ClassifiedAsset {
+    value: number;
+    assetClass?: string | null;
+    liquidity?: string | null;
+}
+
+/**
+ * Total value of assets in the LIQUID tier
+ */
+export function calculateLiquidAssets(assets: ClassifiedAsset[]): number {
+    return assets
+        .filter(asset => resolveAssetClassification(asset.assetClass, asset.liquidity).liquidity === LiquidityTier.LIQUID)
+        .reduce((sum, asset) => sum + asset.value, 0);
+}
+
+/**
+ * Months of expenses covered by cash plus liquid assets
+ * Mirrors runway: 999 stands for "no expenses to cover"
+ */
+export function calculateLiquidRunway(cash: number, liquidAssets: number, monthlyExpenses: number): number {
+    const liquidFunds = cash + liquidAssets;
+    const runway = monthlyExpenses > 0 ? liquidFunds / monthlyExpenses : (liquidFunds > 0 ? 999 : 0);
+    return Number(runway.toFixed(1));
+}
+
+export type AssetAllocation = Record<AssetClass, { amount: number; pct: number }> & { total: number };
+
+/**
+ * Break asset value down by asset class
+ * Cash savings are reported under CASH_EQUIVALENT so the allocation covers everything owned
+ */
+export function calculateAssetAllocation(assets: ClassifiedAsset[], cash: number = 0): AssetAllocation {
+    const totals = Object.fromEntries(ASSET_CLASSES.map(c => [c, 0])) as Record<AssetClass, number>;
+
+    totals[AssetClass.CASH_EQUIVALENT] += cash;
+    for (const asset of assets) {
+        totals[resolveAssetClassification(asset.assetClass, asset.liquidity).assetClass] += asset.value;
+    }
+
+    const total = Object.values(totals).reduce((sum, amount) => sum + amount, 0);
+    const allocation = Object.fromEntries(
+        ASSET_CLASSES.map(c => [c, {
+            amount: totals[c],
+            pct: total > 0 ? Number(((totals[c] / total) * 100).toFixed(2)) : 0
+        }])
+    ) as Record<AssetClass, { amount: number; pct: number }>;
+
+    return { ...allocation, total };
+}
@@ -0,0 +1,69 @@
+/**
+ * Scenario Branches
+ *
+ * A branch is a named plan that forks the user's real event stream at a date
+ * and accumulates hypothetical events of its own. Replaying a branch takes the
+ * real events up to the fork and the branch's events after it, through the
+ * same reducers as the real stream. Branch events are stored apart from real
+ * ones and only ever enter a replay through forkEventStream.
+ */
+
+import { Event } from '../../types/event.types.js';
+import { compareEventsByEffectiveDate, getEffectiveDate } from './reducers.js';
+
+/**
+ * A stored branch event; it belongs to the branch, not directly to a user
+ */
+export interface StoredBranchEvent {
+    id: number;
+    timestamp: Date;
+    effectiveDate: Date;
+    actionType: string;
+    entityType: string;
+    entitySubtype: string | null;
+    entityId: number;
+    beforeValue: any | null;
+    afterValue: any | null;
+}
+
+/**
+ * End of a YYYY-MM-DD day in UTC: the fork point of a branch, and when a
+ * branch change dated that day takes effect
+ */
+export function endOfDay(date: string): Date {
+    const [y, m, d] = date.split('-').map(Number);
+    return new Date(Date.UTC(y!, m! - 1, d!, 23, 59, 59, 999));
+}
+
+/**
+ * Turn a stored branch event into a replayable event
+ * Its id is shifted below zero, like other synthetic events, so it never
+ * matches a real one while branch events on the same date keep their order.
+ */
+export function toBranchEvent(stored: StoredBranchEvent, userId: number): Event {
+    return {
+        id: stored.id - Number.MAX_SAFE_INTEGER,
+        timestamp: stored.timestamp,
+        effectiveDate: stored.effectiveDate,
+        actionType: stored.actionType,
+        entityType: stored.entityType,
+        entitySubtype: stored.entitySubtype,
+        beforeValue: stored.beforeValue,
+        afterValue: stored.afterValue,
+        userId,
+        entityId: stored.entityId
+    };
+}
+
+/**
+ * The event stream of a branch: real events up to the fork point, then the
+ * branch's own events, in effective-date order
+ * Real events after the fork are left out; the branch replaces them.
+ */
+export function forkEventStream(realEvents: Event[], branchEvents: Event[], forkPoint: Date): Event[] {
+    // Sorted apart so real events at the fork point itself still come first
+    return [
+        ...realEvents.filter(event => getEffectiveDate(event) <= forkPoint).sort(compareEventsByEffectiveDate),
+        ...branchEvents.filter(event => getEffectiveDate(event) >= forkPoint).sort(compareEventsByEffectiveDate)
+    ];
+}
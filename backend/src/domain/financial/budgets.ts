@@ -0,0 +1,241 @@
+/**
+ * Budgets
+ *
+ * A budget caps monthly spending on one expense or on a whole category
+ * (including its subcategories). Each month compares three figures: the
+ * budget, what the monthly statement plans to spend, and what the ledger
+ * shows was actually spent. Unused budget can roll over into the next month.
+ */
+
+import { ActionType, Event } from '../../types/event.types.js';
+import { toMonthlyAmount } from './frequency.js';
+
+export enum BudgetRollover {
+    /** Every month starts from the limit */
+    NONE = 'NONE',
+    /** Unused budget is added to the next month; overspending is forgiven */
+    CARRY_UNUSED = 'CARRY_UNUSED',
+    /** Unused budget carries forward and overspending is taken from the next month */
+    CARRY_ALL = 'CARRY_ALL'
+}
+
+export const BUDGET_ROLLOVERS = Object.values(BudgetRollover);
+
+export function isBudgetRollover(value: unknown): value is BudgetRollover {
+    return typeof value === 'string' && (BUDGET_ROLLOVERS as string[]).includes(value);
+}
+
+/**
+ * A budget as recorded on its events; exactly one of expenseId and categoryId is set
+ */
+export interface BudgetDefinition {
+    id: number;
+    expenseId: number | null;
+    categoryId: number | null;
+    monthlyLimit: number;
+    rollover: BudgetRollover;
+}
+
+/**
+ * A planned expense line, amount already in the reporting currency
+ */
+export interface BudgetedExpense {
+    id: number;
+    name: string;
+    amount: number;
+    frequency?: string | null;
+    categoryId?: number | null;
+}
+
+/**
+ * An outflow from the ledger; categoryId falls back to the linked expense's category
+ */
+export interface BudgetSpending {
+    amount: number;
+    expenseId?: number | null;
+    categoryId?: number | null;
+}
+
+export interface BudgetMonthInput {
+    month: string;
+    budgets: BudgetDefinition[];
+    expenses: BudgetedExpense[];
+    spending: BudgetSpending[];
+}
+
+export interface BudgetStatus {
+    budgetId: number;
+    expenseId: number | null;
+    categoryId: number | null;
+    rollover: BudgetRollover;
+    monthlyLimit: number;
+    /** Amount carried in from the previous month (negative after overspending with CARRY_ALL) */
+    carriedOver: number;
+    /** Limit plus carry-over: what may be spent this month */
+    available: number;
+    planned: number;
+    actual: number;
+    remaining: number;
+    /** Positive when the plan fits inside the limit */
+    plannedVariance: number;
+    /** Positive when actual spending stayed inside what was available */
+    actualVariance: number;
+    overBudget: boolean;
+    /** The monthly statement itself plans to spend more than the limit */
+    overPlanned: boolean;
+}
+
+export interface BudgetMonthReport {
+    month: string;
+    budgets: BudgetStatus[];
+    totals: {
+        available: number;
+        planned: number;
+        actual: number;
+        actualVariance: number;
+        overBudgetCount: number;
+    };
+}
+
+const round = (amount: number) => Number(amount.toFixed(2));
+
+/**
+ * Apply a BUDGET event to the budgets in effect
+ */
+export function applyBudgetEvent(budgets: Map<number, BudgetDefinition>, event: Event): Map<number, BudgetDefinition> {
+    const next = new Map(budgets);
+    const { actionType, entityId, afterValue } = event;
+
+    if (actionType === ActionType.DELETE) {
+        next.delete(entityId);
+    } else if (afterValue) {
+        next.set(entityId, {
+            id: entityId,
+            expenseId: afterValue.expenseId ?? null,
+            categoryId: afterValue.categoryId ?? null,
+            monthlyLimit: Number(afterValue.monthlyLimit),
+            rollover: isBudgetRollover(afterValue.rollover) ? afterValue.rollover : BudgetRollover.NONE
+        });
+    }
+
+    return next;
+}
+
+/**
+ * Whether a category is the given one or nested anywhere below it
+ */
+export function isWithinCategory(
+    categoryId: number | null | undefined,
+    ancestorId: number,
+    parents: Map<number, number | null>
+): boolean {
+    const seen = new Set<number>();
+    let current = categoryId ?? null;
+
+    while (current !== null && !seen.has(current)) {
+        if (current === ancestorId) return true;
+        seen.add(current);
+        current = parents.get(current) ?? null;
+    }
+
+    return false;
+}
+
+/**
+ * Every YYYY-MM month from `from` through `to`, in order
+ */
+export function listMonths(from: string, to: string): string[] {
+    const months: string[] = [];
+    let [year, month] = from.split('-').map(Number) as [number, number];
+
+    for (let key = from; key <= to; key = `${year}-${String(month).padStart(2, '0')}`) {
+        months.push(key);
+        month += 1;
+        if (month > 12) {
+            month = 1;
+            year += 1;
+        }
+    }
+
+    return months;
+}
+
+/**
+ * Carry-over into the next month under a rollover rule
+ */
+export function nextCarryOver(rollover: BudgetRollover, available: number, actual: number): number {
+    switch (rollover) {
+        case BudgetRollover.CARRY_UNUSED:
+            return round(Math.max(0, available - actual));
+        case BudgetRollover.CARRY_ALL:
+            return round(available - actual);
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Budget vs planned vs actual for consecutive months
+ * Months must be in order; carry-over flows from one month into the next
+ * and resets when a budget is removed
+ * @param parents - Parent of every category, for category budgets
+ */
+export function calculateBudgetHistory(
+    months: BudgetMonthInput[],
+    parents: Map<number, number | null>
+): BudgetMonthReport[] {
+    let carry = new Map<number, number>();
+
+    return months.map(({ month, budgets, expenses, spending }) => {
+        const nextCarry = new Map<number, number>();
+
+        const statuses = budgets.map(budget => {
+            const matchesExpense = (expenseId?: number | null, categoryId?: number | null) =>
+                budget.expenseId !== null
+                    ? expenseId === budget.expenseId
+                    : isWithinCategory(categoryId, budget.categoryId!, parents);
+
+            const planned = round(expenses
+                .filter(expense => matchesExpense(expense.id, expense.categoryId))
+                .reduce((sum, expense) => sum + toMonthlyAmount(expense.amount, expense.frequency), 0));
+            const actual = round(spending
+                .filter(item => matchesExpense(item.expenseId, item.categoryId))
+                .reduce((sum, item) => sum + item.amount, 0));
+
+            const carriedOver = carry.get(budget.id) ?? 0;
+            const available = round(budget.monthlyLimit + carriedOver);
+            nextCarry.set(budget.id, nextCarryOver(budget.rollover, available, actual));
+
+            return {
+                budgetId: budget.id,
+                expenseId: budget.expenseId,
+                categoryId: budget.categoryId,
+                rollover: budget.rollover,
+                monthlyLimit: budget.monthlyLimit,
+                carriedOver,
+                available,
+                planned,
+                actual,
+                remaining: round(available - actual),
+                plannedVariance: round(budget.monthlyLimit - planned),
+                actualVariance: round(available - actual),
+                overBudget: actual > available,
+                overPlanned: planned > budget.monthlyLimit
+            };
+        });
+
+        carry = nextCarry;
+
+        return {
+            month,
+            budgets: statuses,
+            totals: {
+                available: round(statuses.reduce((sum, status) => sum + status.available, 0)),
+                planned: round(statuses.reduce((sum, status) => sum + status.planned, 0)),
+                actual: round(statuses.reduce((sum, status) => sum + status.actual, 0)),
+                actualVariance: round(statuses.reduce((sum, status) => sum + status.actualVariance, 0)),
+                overBudgetCount: statuses.filter(status => status.overBudget).length
+            }
+        };
+    });
+}
@@ -0,0 +1,42 @@
+/**
+ * Cash Accounts
+ *
+ * Cash is held in named accounts (checking, savings, an emergency fund, an
+ * e-wallet) rather than one number. Every account has its own balance and
+ * events; net worth and runway only ever see the rolled-up total.
+ */
+
+export enum CashAccountType {
+    CHECKING = 'CHECKING',
+    SAVINGS = 'SAVINGS',
+    EMERGENCY_FUND = 'EMERGENCY_FUND',
+    E_WALLET = 'E_WALLET',
+    OTHER = 'OTHER'
+}
+
+export const CASH_ACCOUNT_TYPES = Object.values(CashAccountType);
+
+/**
+ * Name of the account the old single cash savings balance was moved into
+ * Events recorded before accounts existed carry no name and replay into it
+ */
+export const DEFAULT_CASH_ACCOUNT_NAME = 'Cash';
+
+export interface CashAccountBalance {
+    amount: number;
+}
+
+export function isCashAccountType(value: unknown): value is CashAccountType {
+    return typeof value === 'string' && (CASH_ACCOUNT_TYPES as string[]).includes(value);
+}
+
+/**
+ * Total cash across every account, rounded to cents
+ */
+export function sumCashAccounts(accounts: Iterable<CashAccountBalance>): number {
+    let total = 0;
+    for (const account of accounts) {
+        total += Number(account.amount) || 0;
+    }
+    return Number(total.toFixed(2));
+}
@@ -0,0 +1,71 @@
+/**
+ * Currency Metadata
+ *
+ * ISO 4217 code, minor units and default locale for the currencies the app
+ * ships with. Stored currencies only carry a name and a symbol, which vary
+ * between seeds ("US Dollar" or "USD", "$" or "US$"), so a currency is matched
+ * by the first rule that finds exactly one entry:
+ *
+ * 1. Its name is the entry's name, ignoring case
+ * 2. Its name or symbol is the entry's ISO code
+ * 3. Its symbol is the entry's symbol, when no other entry shares that symbol
+ *
+ * The currency_metadata migration applies the same rules in SQL.
+ */
+
+export interface CurrencyMetadata {
+    code: string;
+    name: string;
+    symbol: string;
+    minorUnits: number;
+    locale: string;
+}
+
+export const CURRENCY_METADATA: CurrencyMetadata[] = [
+    { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2, locale: 'en-US' },
+    { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2, locale: 'de-DE' },
+    { code: 'GBP', name: 'British Pound', symbol: '£', minorUnits: 2, locale: 'en-GB' },
+    { code: 'JPY', name: 'Japanese Yen', symbol: '¥', minorUnits: 0, locale: 'ja-JP' },
+    { code: 'PHP', name: 'Philippine Peso', symbol: '₱', minorUnits: 2, locale: 'en-PH' },
+    { code: 'CNY', name: 'Chinese Yuan', symbol: '¥', minorUnits: 2, locale: 'zh-CN' },
+    { code: 'INR', name: 'Indian Rupee', symbol: '₹', minorUnits: 2, locale: 'en-IN' },
+    { code: 'KRW', name: 'South Korean Won', symbol: '₩', minorUnits: 0, locale: 'ko-KR' },
+    { code: 'CAD', name: 'Canadian Dollar', symbol: '$', minorUnits: 2, locale: 'en-CA' },
+    { code: 'AUD', name: 'Australian Dollar', symbol: '$', minorUnits: 2, locale: 'en-AU' },
+    { code: 'CHF', name: 'Swiss Franc', symbol: 'Fr', minorUnits: 2, locale: 'de-CH' },
+    { code: 'SGD', name: 'Singapore Dollar', symbol: '$', minorUnits: 2, locale: 'en-SG' },
+    { code: 'HKD', name: 'Hong Kong Dollar', symbol: '$', minorUnits: 2, locale: 'zh-HK' },
+    { code: 'NZD', name: 'New Zealand Dollar', symbol: '$', minorUnits: 2, locale: 'en-NZ' },
+    { code: 'MXN', name: 'Mexican Peso', symbol: '$', minorUnits: 2, locale: 'es-MX' },
+    { code: 'BRL', name: 'Brazilian Real', symbol: 'R$', minorUnits: 2, locale: 'pt-BR' },
+    { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', minorUnits: 2, locale: 'sv-SE' },
+    { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', minorUnits: 2, locale: 'nb-NO' },
+    { code: 'DKK', name: 'Danish Krone', symbol: 'kr', minorUnits: 2, locale: 'da-DK' },
+    { code: 'ZAR', name: 'South African Rand', symbol: 'R', minorUnits: 2, locale: 'en-ZA' },
+    { code: 'IDR', name: 'Indonesian Rupiah', symbol: 'Rp', minorUnits: 2, locale: 'id-ID' },
+    { code: 'THB', name: 'Thai Baht', symbol: '฿', minorUnits: 2, locale: 'th-TH' },
+    { code: 'VND', name: 'Vietnamese Dong', symbol: '₫', minorUnits: 0, locale: 'vi-VN' },
+    { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM', minorUnits: 2, locale: 'ms-MY' },
+    { code: 'KWD', name: 'Kuwaiti Dinar', symbol: 'KD', minorUnits: 3, locale: 'ar-KW' },
+    { code: 'BHD', name: 'Bahraini Dinar', symbol: 'BD', minorUnits: 3, locale: 'ar-BH' }
+];
+
+/**
+ * Find the metadata for a stored currency; null when no rule finds exactly one entry
+ */
+export function matchCurrencyMetadata(currency: { cur_name: string; cur_symbol: string }): CurrencyMetadata | null {
+    const name = currency.cur_name.trim();
+    const symbol = currency.cur_symbol.trim();
+
+    const rules: ((entry: CurrencyMetadata) => boolean)[] = [
+        entry => entry.name.toLowerCase() === name.toLowerCase(),
+        entry => entry.code === name.toUpperCase() || entry.code === symbol.toUpperCase(),
+        entry => entry.symbol === symbol
+    ];
+
+    for (const rule of rules) {
+        const matches = CURRENCY_METADATA.filter(rule);
+        if (matches.length === 1) return matches[0]!;
+    }
+    return null;
+}
@@ -0,0 +1,229 @@
+/**
+ * Debt Payoff Planner
+ *
+ * Simulates paying off every liability with a fixed monthly budget: the sum
+ * of all minimum payments plus an extra amount. Each month every debt gets
+ * its minimum, and whatever is left goes to the first unpaid debt in the
+ * strategy's order. When a debt is paid off its minimum rolls into the
+ * budget for the next one.
+ *
+ * - SNOWBALL: smallest balance first (quick wins)
+ * - AVALANCHE: highest interest rate first (least interest)
+ * - CUSTOM: the order the user chose
+ */
+
+import { LoanTerms, addMonths, resolveMonthlyPayment } from './amortization.js';
+import { toMonthlyAmount } from './frequency.js';
+
+export enum PayoffStrategy {
+    SNOWBALL = 'SNOWBALL',
+    AVALANCHE = 'AVALANCHE',
+    CUSTOM = 'CUSTOM'
+}
+
+export const PAYOFF_STRATEGIES = Object.values(PayoffStrategy);
+
+export function isPayoffStrategy(value: unknown): value is PayoffStrategy {
+    return typeof value === 'string' && (PAYOFF_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * The strategy a user picked; feeds the freedom-date projection
+ */
+export interface PayoffPlan {
+    strategy: PayoffStrategy;
+    extraPayment: number;
+    /** Liability ids in payoff order, used by CUSTOM */
+    customOrder: number[];
+}
+
+export interface PayoffDebt {
+    id: number;
+    name: string;
+    balance: number;
+    /** Annual interest rate in percent */
+    interestRate: number;
+    minimumPayment: number;
+}
+
+export interface DebtPayoffResult {
+    id: number;
+    name: string;
+    startingBalance: number;
+    minimumPayment: number;
+    /** Months from now until the debt is paid off; null if never within the simulation */
+    payoffMonth: number | null;
+    payoffDate: string | null;
+    interestPaid: number;
+}
+
+export interface PayoffSimulation {
+    strategy: PayoffStrategy;
+    /** Liability ids in the order they are targeted */
+    order: number[];
+    debts: DebtPayoffResult[];
+    months: number | null;
+    debtFreeDate: string | null;
+    totalInterest: number;
+    totalPaid: number;
+}
+
+/** Simulations stop after 100 years */
+export const MAX_PAYOFF_MONTHS = 1200;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Turn liabilities into debts for the planner
+ * The minimum payment comes from the loan terms; debts without terms have none
+ * and are only paid down by the extra budget
+ */
+export function toPayoffDebts(
+    liabilities: Iterable<{ id: number; name: string; value: number } & LoanTerms>,
+    asOf: Date = new Date()
+): PayoffDebt[] {
+    return Array.from(liabilities)
+        .filter(liability => liability.value > 0)
+        .map(liability => ({
+            id: liability.id,
+            name: liability.name,
+            balance: liability.value,
+            interestRate: liability.interestRate ?? 0,
+            minimumPayment: resolveMonthlyPayment(liability.value, liability, asOf) ?? 0
+        }));
+}
+
+/**
+ * Order debts for a strategy
+ * Custom orders may omit debts; those follow in their original order
+ */
+export function orderDebts(debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: number[] = []): PayoffDebt[] {
+    const sorted = [...debts];
+
+    switch (strategy) {
+        case PayoffStrategy.SNOWBALL:
+            return sorted.sort((a, b) => a.balance - b.balance || b.interestRate - a.interestRate);
+        case PayoffStrategy.AVALANCHE:
+            return sorted.sort((a, b) => b.interestRate - a.interestRate || a.balance - b.balance);
+        case PayoffStrategy.CUSTOM: {
+            const rank = (id: number) => {
+                const index = customOrder.indexOf(id);
+                return index === -1 ? customOrder.length : index;
+            };
+            return sorted.sort((a, b) => rank(a.id) - rank(b.id));
+        }
+    }
+}
+
+/**
+ * Simulate paying off all debts month by month
+ */
+export function simulatePayoff(
+    debts: PayoffDebt[],
+    extraPayment: number,
+    strategy: PayoffStrategy,
+    customOrder: number[] = [],
+    asOf: Date = new Date()
+): PayoffSimulation {
+    const ordered = orderDebts(debts, strategy, customOrder);
+    const budget = ordered.reduce((sum, debt) => sum + debt.minimumPayment, 0) + Math.max(0, extraPayment);
+
+    const balances = new Map(ordered.map(debt => [debt.id, debt.balance]));
+    const interestPaid = new Map(ordered.map(debt => [debt.id, 0]));
+    const payoffMonths = new Map<number, number>();
+    let totalPaid = 0;
+    let month = 0;
+
+    while (payoffMonths.size < ordered.length && month < MAX_PAYOFF_MONTHS) {
+        month++;
+        let available = budget;
+        const active = ordered.filter(debt => !payoffMonths.has(debt.id));
+
+        // Interest accrues before the month's payments
+        for (const debt of active) {
+            const interest = round2(balances.get(debt.id)! * debt.interestRate / 100 / 12);
+            balances.set(debt.id, balances.get(debt.id)! + interest);
+            interestPaid.set(debt.id, interestPaid.get(debt.id)! + interest);
+        }
+
+        // Every debt gets its minimum, then the remainder goes down the order
+        const pay = (debt: PayoffDebt, amount: number) => {
+            const payment = round2(Math.min(amount, balances.get(debt.id)!, available));
+            balances.set(debt.id, round2(balances.get(debt.id)! - payment));
+            available = round2(available - payment);
+            totalPaid += payment;
+        };
+
+        for (const debt of active) pay(debt, debt.minimumPayment);
+        for (const debt of active) pay(debt, available);
+
+        for (const debt of active) {
+            if (balances.get(debt.id)! <= 0) payoffMonths.set(debt.id, month);
+        }
+    }
+
+    const toDate = (months: number) => addMonths(asOf, months).toISOString().slice(0, 10);
+    const allPaid = payoffMonths.size === ordered.length;
+    const months = allPaid ? Math.max(0, ...payoffMonths.values()) : null;
+
+    return {
+        strategy,
+        order: ordered.map(debt => debt.id),
+        debts: ordered.map(debt => {
+            const payoffMonth = payoffMonths.get(debt.id) ?? null;
+            return {
+                id: debt.id,
+                name: debt.name,
+                startingBalance: debt.balance,
+                minimumPayment: debt.minimumPayment,
+                payoffMonth,
+                payoffDate: payoffMonth !== null ? toDate(payoffMonth) : null,
+                interestPaid: round2(interestPaid.get(debt.id)!)
+            };
+        }),
+        months,
+        debtFreeDate: months !== null && months > 0 ? toDate(months) : null,
+        totalInterest: round2([...interestPaid.values()].reduce((sum, interest) => sum + interest, 0)),
+        totalPaid: round2(totalPaid)
+    };
+}
+
+/**
+ * Debt-to-income ratio: monthly debt payments as a percentage of monthly income
+ */
+export function calculateDebtToIncome(monthlyDebtPayments: number, monthlyIncome: number): number {
+    if (monthlyIncome <= 0) return monthlyDebtPayments > 0 ? 100 : 0;
+    return Number(((monthlyDebtPayments / monthlyIncome) * 100).toFixed(2));
+}
+
+/**
+ * Interest rate weighted by each debt's balance
+ */
+export function calculateWeightedAverageRate(debts: PayoffDebt[]): number {
+    const totalBalance = debts.reduce((sum, debt) => sum + debt.balance, 0);
+    if (totalBalance <= 0) return 0;
+    const weighted = debts.reduce((sum, debt) => sum + debt.balance * debt.interestRate, 0);
+    return Number((weighted / totalBalance).toFixed(2));
+}
+
+/**
+ * Monthly expense relief from a payoff simulation
+ * Each paid-off debt's linked expense lines drop out of expenses from its
+ * payoff month; a debt with no linked expense gives no relief, since its
+ * payments may not be recorded as expenses at all
+ */
+export function getPayoffRelief(
+    simulation: PayoffSimulation,
+    expenses: Iterable<{ amount: number; frequency?: string | null; liabilityId?: number | null }>
+): { month: number; amount: number }[] {
+    const linkedExpenses = Array.from(expenses);
+    return simulation.debts
+        .filter(debt => debt.payoffMonth !== null)
+        .map(debt => ({
+            month: debt.payoffMonth!,
+            amount: linkedExpenses
+                .filter(expense => expense.liabilityId === debt.id)
+                .reduce((sum, expense) => sum + toMonthlyAmount(expense.amount, expense.frequency), 0)
+        }))
+        .filter(relief => relief.amount > 0);
+}
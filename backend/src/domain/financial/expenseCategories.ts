@@ -0,0 +1,208 @@
+/**
+ * Expense Categories and Classification
+ *
+ * Categories form a per-user tree (e.g. Housing > Rent). Each category is
+ * classified the Rich Dad way: essential costs of living, discretionary
+ * spending, or "doodads" - things bought that take money out of your pocket
+ * and never put any back. Expense events record the category path and
+ * classification as they were at the time, so historical breakdowns survive
+ * later renames.
+ */
+
+import { toMonthlyAmount } from './frequency.js';
+
+export enum ExpenseClassification {
+    ESSENTIAL = 'ESSENTIAL',
+    DISCRETIONARY = 'DISCRETIONARY',
+    DOODAD = 'DOODAD'
+}
+
+export const EXPENSE_CLASSIFICATIONS = Object.values(ExpenseClassification);
+
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+/**
+ * Bucket for expenses recorded without a category
+ */
+export const UNCATEGORIZED = 'Uncategorized';
+
+export interface DefaultExpenseCategory {
+    name: string;
+    classification: ExpenseClassification;
+    children?: DefaultExpenseCategory[];
+}
+
+/**
+ * Category tree seeded for every user the first time categories are requested
+ */
+export const DEFAULT_EXPENSE_CATEGORIES: DefaultExpenseCategory[] = [
+    {
+        name: 'Housing',
+        classification: ExpenseClassification.ESSENTIAL,
+        children: [
+            { name: 'Rent / Mortgage', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Utilities', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Maintenance', classification: ExpenseClassification.ESSENTIAL }
+        ]
+    },
+    {
+        name: 'Transportation',
+        classification: ExpenseClassification.ESSENTIAL,
+        children: [
+            { name: 'Car Payment', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Fuel', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Public Transit', classification: ExpenseClassification.ESSENTIAL }
+        ]
+    },
+    {
+        name: 'Food',
+        classification: ExpenseClassification.ESSENTIAL,
+        children: [
+            { name: 'Groceries', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Dining Out', classification: ExpenseClassification.DISCRETIONARY }
+        ]
+    },
+    {
+        name: 'Insurance',
+        classification: ExpenseClassification.ESSENTIAL,
+        children: [
+            { name: 'Health', classification: ExpenseClassification.ESSENTIAL },
+            { name: 'Life', classification: ExpenseClassification.ESSENTIAL }
+        ]
+    },
+    { name: 'Debt Payments', classification: ExpenseClassification.ESSENTIAL },
+    { name: 'Taxes', classification: ExpenseClassification.ESSENTIAL },
+    { name: 'Education', classification: ExpenseClassification.DISCRETIONARY },
+    {
+        name: 'Lifestyle',
+        classification: ExpenseClassification.DISCRETIONARY,
+        children: [
+            { name: 'Entertainment', classification: ExpenseClassification.DISCRETIONARY },
+            { name: 'Travel', classification: ExpenseClassification.DISCRETIONARY },
+            { name: 'Subscriptions', classification: ExpenseClassification.DOODAD },
+            { name: 'Gadgets', classification: ExpenseClassification.DOODAD },
+            { name: 'Luxury Goods', classification: ExpenseClassification.DOODAD }
+        ]
+    }
+];
+
+export function isExpenseClassification(value: unknown): value is ExpenseClassification {
+    return typeof value === 'string' && (EXPENSE_CLASSIFICATIONS as string[]).includes(value);
+}
+
+/**
+ * Minimal category row shape needed to build paths
+ */
+export interface CategoryNode {
+    id: number;
+    name: string;
+    parentId: number | null;
+}
+
+/**
+ * Build the full path ("Housing > Utilities") for every category
+ * Parent links that point outside the set or form a cycle end the path
+ */
+export function buildCategoryPaths(categories: CategoryNode[]): Map<number, string> {
+    const byId = new Map(categories.map(c => [c.id, c]));
+    const paths = new Map<number, string>();
+
+    for (const category of categories) {
+        const names: string[] = [];
+        const seen = new Set<number>();
+        let current: CategoryNode | undefined = category;
+
+        while (current && !seen.has(current.id)) {
+            seen.add(current.id);
+            names.unshift(current.name);
+            current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+        }
+
+        paths.set(category.id, names.join(CATEGORY_PATH_SEPARATOR));
+    }
+
+    return paths;
+}
+
+/**
+ * Top-level segment of a category path, used to roll subcategories up
+ */
+export function getTopLevelCategory(categoryPath?: string | null): string {
+    if (!categoryPath) return UNCATEGORIZED;
+    return categoryPath.split(CATEGORY_PATH_SEPARATOR)[0] || UNCATEGORIZED;
+}
+
+/**
+ * Expense entry shape needed for a breakdown
+ */
+export interface CategorizedExpense {
+    amount: number;
+    frequency?: string;
+    categoryPath?: string | null;
+    classification?: string | null;
+}
+
+export interface CategoryBreakdownItem {
+    category: string;
+    amount: number;
+    pct: number;
+    subcategories: { category: string; amount: number; pct: number }[];
+}
+
+export type ClassificationKey = ExpenseClassification | 'UNCLASSIFIED';
+
+export interface ExpenseBreakdown {
+    byCategory: CategoryBreakdownItem[];
+    byClassification: Record<ClassificationKey, { amount: number; pct: number }>;
+    total: number;
+}
+
+/**
+ * Break monthly expenses down by top-level category (with subcategories)
+ * and by essential / discretionary / doodad classification
+ */
+export function calculateExpenseBreakdown(expenses: CategorizedExpense[]): ExpenseBreakdown {
+    const pct = (amount: number, total: number) => total > 0 ? Number(((amount / total) * 100).toFixed(2)) : 0;
+
+    const categoryTotals = new Map<string, { amount: number; subcategories: Map<string, number> }>();
+    const classificationTotals: Record<ClassificationKey, number> = {
+        [ExpenseClassification.ESSENTIAL]: 0,
+        [ExpenseClassification.DISCRETIONARY]: 0,
+        [ExpenseClassification.DOODAD]: 0,
+        UNCLASSIFIED: 0
+    };
+    let total = 0;
+
+    for (const expense of expenses) {
+        const monthly = toMonthlyAmount(expense.amount, expense.frequency);
+        const topLevel = getTopLevelCategory(expense.categoryPath);
+        const entry = categoryTotals.get(topLevel) ?? { amount: 0, subcategories: new Map<string, number>() };
+
+        entry.amount += monthly;
+        if (expense.categoryPath && expense.categoryPath !== topLevel) {
+            entry.subcategories.set(expense.categoryPath, (entry.subcategories.get(expense.categoryPath) ?? 0) + monthly);
+        }
+        categoryTotals.set(topLevel, entry);
+
+        const classification = isExpenseClassification(expense.classification) ? expense.classification : 'UNCLASSIFIED';
+        classificationTotals[classification] += monthly;
+        total += monthly;
+    }
+
+    const byCategory = Array.from(categoryTotals.entries())
+        .map(([category, { amount, subcategories }]) => ({
+            category,
+            amount,
+            pct: pct(amount, total),
+            subcategories: Array.from(subcategories.entries())
+                .map(([path, subAmount]) => ({ category: path, amount: subAmount, pct: pct(subAmount, total) }))
+                .sort((a, b) => b.amount - a.amount)
+        }))
+        .sort((a, b) => b.amount - a.amount);
+
+    const byClassification = Object.fromEntries(
+        Object.entries(classificationTotals).map(([key, amount]) => [key, { amount, pct: pct(amount, total) }])
+    ) as ExpenseBreakdown['byClassification'];
+
+    return { byCategory, byClassification, total };
+}
@@ -0,0 +1,46 @@
+/**
+ * Recurrence Frequencies for Income and Expense Lines
+ *
+ * Amounts are stored as entered (per paycheck, per premium, ...). Every
+ * cashflow metric works in monthly terms, so amounts are normalized here.
+ */
+
+export enum Frequency {
+    WEEKLY = 'WEEKLY',
+    BI_WEEKLY = 'BI_WEEKLY',
+    MONTHLY = 'MONTHLY',
+    QUARTERLY = 'QUARTERLY',
+    SEMI_ANNUAL = 'SEMI_ANNUAL',
+    ANNUAL = 'ANNUAL',
+    ONE_OFF = 'ONE_OFF'
+}
+
+export const FREQUENCIES = Object.values(Frequency);
+
+/**
+ * Occurrences per month for each frequency
+ * One-off amounts do not recur, so they contribute nothing to monthly cashflow
+ */
+const MONTHLY_FACTORS: Record<Frequency, number> = {
+    [Frequency.WEEKLY]: 52 / 12,
+    [Frequency.BI_WEEKLY]: 26 / 12,
+    [Frequency.MONTHLY]: 1,
+    [Frequency.QUARTERLY]: 1 / 3,
+    [Frequency.SEMI_ANNUAL]: 1 / 6,
+    [Frequency.ANNUAL]: 1 / 12,
+    [Frequency.ONE_OFF]: 0
+};
+
+export function isFrequency(value: unknown): value is Frequency {
+    return typeof value === 'string' && (FREQUENCIES as string[]).includes(value);
+}
+
+/**
+ * Convert an amount at the given frequency to its monthly equivalent
+ * Lines recorded before frequencies existed have none and are monthly
+ */
+export function toMonthlyAmount(amount: number, frequency?: string | null): number {
+    const factor = isFrequency(frequency) ? MONTHLY_FACTORS[frequency] : 1;
+    return amount * factor;
+}
+
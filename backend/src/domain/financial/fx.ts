@@ -0,0 +1,313 @@
+/**
+ * Foreign Exchange Conversion
+ *
+ * Every asset, liability, income line and expense may be held in its own
+ * currency. Totals only make sense in one currency, so entity amounts are
+ * converted to the user's preferred currency before any metric is computed.
+ * An entity without a currency is held in whichever currency was preferred
+ * at the time, so past states are converted with the rates valid on their date.
+ *
+ * A rate of 56.1 from USD to PHP means one USD buys 56.1 PHP.
+ */
+
+import { EntityType } from '../../types/event.types.js';
+import { FinancialState, StateCurrency } from './reducers.js';
+
+export interface ExchangeRateRow {
+    fromCurrencyId: number;
+    toCurrencyId: number;
+    rate: number;
+}
+
+/**
+ * A rate as recorded on the date it took effect
+ */
+export interface DatedExchangeRateRow extends ExchangeRateRow {
+    effectiveDate: Date;
+}
+
+/**
+ * A rate to save; without a date it takes effect today
+ */
+export interface ExchangeRateUpdate extends ExchangeRateRow {
+    effectiveDate?: Date;
+}
+
+/**
+ * Known rates keyed by "from:to"
+ */
+export type FxRates = Map<string, number>;
+
+/**
+ * Rates plus the currency that entities without their own currency are held in
+ */
+export interface FxContext {
+    rates: FxRates;
+    preferredCurrencyId: number;
+    /** Dated rates, so past states convert at the rate valid on their date */
+    history?: DatedExchangeRateRow[];
+}
+
+const rateKey = (fromCurrencyId: number, toCurrencyId: number) => `${fromCurrencyId}:${toCurrencyId}`;
+
+/**
+ * Build a rate lookup from stored rows
+ * The inverse of each row is added unless that direction is stored explicitly
+ */
+export function buildFxRates(rows: ExchangeRateRow[]): FxRates {
+    const rates: FxRates = new Map();
+
+    for (const row of rows) {
+        if (row.rate > 0) {
+            rates.set(rateKey(row.fromCurrencyId, row.toCurrencyId), row.rate);
+        }
+    }
+
+    for (const row of rows) {
+        const inverseKey = rateKey(row.toCurrencyId, row.fromCurrencyId);
+        if (row.rate > 0 && !rates.has(inverseKey)) {
+            rates.set(inverseKey, 1 / row.rate);
+        }
+    }
+
+    return rates;
+}
+
+/**
+ * Build the rate lookup valid on a date from the recorded rate history
+ * Each pair uses its latest rate on or before the date; a date older than a
+ * pair's history uses the earliest recorded rate, the closest one known
+ */
+export function buildFxRatesAsOf(history: DatedExchangeRateRow[], date: Date): FxRates {
+    const byPair = new Map<string, DatedExchangeRateRow>();
+    const sorted = [...history].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+    // In date order: keep each pair's earliest rate, then move forward while still on or before the date
+    for (const row of sorted) {
+        const key = rateKey(row.fromCurrencyId, row.toCurrencyId);
+        if (!byPair.has(key) || row.effectiveDate.getTime() <= date.getTime()) {
+            byPair.set(key, row);
+        }
+    }
+
+    return buildFxRates(Array.from(byPair.values()));
+}
+
+/**
+ * The conversion context valid on a date
+ * Without any rate history the current rates apply to every date
+ */
+export function fxAsOf(fx: FxContext, date: Date): FxContext {
+    if (!fx.history || fx.history.length === 0) return fx;
+    return { ...fx, rates: buildFxRatesAsOf(fx.history, date) };
+}
+
+/**
+ * Rate converting one unit of the from currency into the to currency
+ * Falls back to a single cross through a shared currency; null when no path exists
+ */
+export function getExchangeRate(rates: FxRates, fromCurrencyId: number, toCurrencyId: number): number | null {
+    if (fromCurrencyId === toCurrencyId) return 1;
+
+    const direct = rates.get(rateKey(fromCurrencyId, toCurrencyId));
+    if (direct !== undefined) return direct;
+
+    for (const [key, firstLeg] of rates) {
+        const [from, via] = key.split(':').map(Number);
+        if (from !== fromCurrencyId) continue;
+
+        const secondLeg = rates.get(rateKey(via!, toCurrencyId));
+        if (secondLeg !== undefined) return firstLeg * secondLeg;
+    }
+
+    return null;
+}
+
+/**
+ * Apply a rate to an amount, rounded to cents
+ */
+export function applyRate(amount: number, rate: number): number {
+    return Number((amount * rate).toFixed(2));
+}
+
+/**
+ * Amount fields of each entity's event payload
+ */
+const PAYLOAD_AMOUNT_FIELDS: Partial<Record<string, string[]>> = {
+    [EntityType.ASSET]: ['value'],
+    [EntityType.LIABILITY]: ['value', 'minimumPayment'],
+    [EntityType.INCOME]: ['amount'],
+    [EntityType.EXPENSE]: ['amount'],
+    [EntityType.CASH_SAVINGS]: ['amount']
+};
+
+/**
+ * Apply a rate to the amounts of an event payload held in the preferred currency
+ * A payload with a currency of its own keeps its native amounts
+ */
+export function convertEventPayload(entityType: string, payload: Record<string, any>, rate: number): Record<string, any> {
+    if (payload.currencyId) return payload;
+
+    const converted = { ...payload };
+    for (const field of PAYLOAD_AMOUNT_FIELDS[entityType] ?? []) {
+        if (converted[field] !== undefined && converted[field] !== null) {
+            converted[field] = applyRate(Number(converted[field]), rate);
+        }
+    }
+    return converted;
+}
+
+/**
+ * Convert an amount between currencies
+ * Amounts without a known rate are kept at face value rather than dropped from totals
+ */
+export function convertAmount(amount: number, fromCurrencyId: number, toCurrencyId: number, rates: FxRates): number {
+    const rate = getExchangeRate(rates, fromCurrencyId, toCurrencyId);
+    return rate === null ? amount : applyRate(amount, rate);
+}
+
+/**
+ * Convert between entity currencies, where null stands for the preferred currency
+ */
+export function convertEntityAmount(
+    amount: number,
+    fromCurrencyId: number | null | undefined,
+    toCurrencyId: number | null | undefined,
+    fx: FxContext
+): number {
+    const from = fromCurrencyId ?? fx.preferredCurrencyId;
+    const to = toCurrencyId ?? fx.preferredCurrencyId;
+    return from === to ? amount : convertAmount(amount, from, to, fx.rates);
+}
+
+/**
+ * Currencies held by the state's entities that have no rate into the target currency
+ */
+export function findMissingRates(state: FinancialState, rates: FxRates, targetCurrencyId: number): number[] {
+    const currencyIds = new Set<number>();
+    const collect = (entity: { currencyId?: number | null }) => {
+        if (entity.currencyId) currencyIds.add(entity.currencyId);
+    };
+
+    // Cash and entities without a currency are held in the state's own currency
+    collect({ currencyId: state.currency.id });
+    state.assets.forEach(collect);
+    state.liabilities.forEach(collect);
+    state.incomeLines.forEach(collect);
+    state.expenses.forEach(collect);
+
+    return Array.from(currencyIds)
+        .filter(currencyId => getExchangeRate(rates, currencyId, targetCurrencyId) === null)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Re-express every entity amount in the target currency, the preferred one by default
+ * Converted entities keep their native currencyId so the origin stays visible.
+ * Cash savings and entities without a currency are held in the state's own
+ * currency, which for a past state is the one preferred at the time
+ */
+export function convertFinancialState(
+    state: FinancialState,
+    fx: FxContext,
+    targetCurrency?: StateCurrency & { id: number }
+): FinancialState {
+    const targetCurrencyId = targetCurrency?.id ?? fx.preferredCurrencyId;
+    const stateCurrencyId = state.currency.id ?? fx.preferredCurrencyId;
+    const convert = (amount: number, currencyId?: number | null) =>
+        convertEntityAmount(amount, currencyId ?? stateCurrencyId, targetCurrencyId, fx);
+
+    const convertMap = <T extends { currencyId?: number | null }>(
+        entities: Map<number, T>,
+        map: (entity: T) => T
+    ) => new Map(Array.from(entities, ([id, entity]) => [id, map(entity)] as [number, T]));
+
+    return {
+        ...state,
+        currency: targetCurrency ? { ...targetCurrency } : state.currency,
+        cashSavings: convert(state.cashSavings),
+        cashAccounts: new Map(Array.from(state.cashAccounts, ([id, account]) => [id, {
+            ...account,
+            amount: convert(account.amount)
+        }])),
+        assets: convertMap(state.assets, asset => ({
+            ...asset,
+            value: convert(asset.value, asset.currencyId)
+        })),
+        liabilities: convertMap(state.liabilities, liability => ({
+            ...liability,
+            value: convert(liability.value, liability.currencyId),
+            minimumPayment: liability.minimumPayment != null
+                ? convert(liability.minimumPayment, liability.currencyId)
+                : liability.minimumPayment
+        })),
+        incomeLines: convertMap(state.incomeLines, line => ({
+            ...line,
+            amount: convert(line.amount, line.currencyId)
+        })),
+        expenses: convertMap(state.expenses, expense => ({
+            ...expense,
+            amount: convert(expense.amount, expense.currencyId)
+        }))
+    };
+}
+
+export interface ParsedExchangeRates {
+    rows: ExchangeRateUpdate[];
+    errors: string[];
+}
+
+/**
+ * Parse an exchange rate CSV of "from,to,rate" lines with an optional fourth date column
+ * Currencies may be given by id or by name; a leading header line is skipped.
+ * Every bad line is reported so an upload can be fixed in one pass
+ */
+export function parseExchangeRateCsv(
+    csv: string,
+    resolveCurrencyId: (value: string) => number | null
+): ParsedExchangeRates {
+    const rows: ExchangeRateUpdate[] = [];
+    const errors: string[] = [];
+
+    const lines = csv.split(/\r?\n/).map(line => line.trim());
+
+    lines.forEach((line, index) => {
+        if (!line) return;
+
+        const lineNumber = index + 1;
+        const fields = line.split(',').map(field => field.trim());
+
+        if (index === 0 && fields[2] !== undefined && isNaN(Number(fields[2]))) return;
+
+        if (fields.length !== 3 && fields.length !== 4) {
+            errors.push(`Line ${lineNumber}: expected from,to,rate`);
+            return;
+        }
+
+        const [from, to, rateText, dateText] = fields as [string, string, string, string?];
+        const fromCurrencyId = resolveCurrencyId(from);
+        const toCurrencyId = resolveCurrencyId(to);
+        const rate = Number(rateText);
+        const effectiveDate = dateText ? new Date(dateText) : undefined;
+
+        if (fromCurrencyId === null) {
+            errors.push(`Line ${lineNumber}: unknown currency "${from}"`);
+        } else if (toCurrencyId === null) {
+            errors.push(`Line ${lineNumber}: unknown currency "${to}"`);
+        } else if (fromCurrencyId === toCurrencyId) {
+            errors.push(`Line ${lineNumber}: a currency cannot be converted to itself`);
+        } else if (!rateText || isNaN(rate) || rate <= 0) {
+            errors.push(`Line ${lineNumber}: rate must be a positive number`);
+        } else if (dateText !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(dateText) || isNaN(effectiveDate!.getTime()))) {
+            errors.push(`Line ${lineNumber}: date must be YYYY-MM-DD`);
+        } else {
+            rows.push(effectiveDate ? { fromCurrencyId, toCurrencyId, rate, effectiveDate } : { fromCurrencyId, toCurrencyId, rate });
+        }
+    });
+
+    if (rows.length === 0 && errors.length === 0) {
+        errors.push('No exchange rates found');
+    }
+
+    return { rows, errors };
+}
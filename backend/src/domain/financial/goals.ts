@@ -0,0 +1,205 @@
+/**
+ * Financial Goals
+ *
+ * A goal sets a target for one snapshot metric by a deadline, e.g. net worth
+ * of 1M by 2030 or six months of liquid runway. Progress is measured from the
+ * value the metric had when the goal was set; whether the user is on track is
+ * projected from the metric's trend over recent months.
+ */
+
+export enum GoalMetric {
+    NET_WORTH = 'NET_WORTH',
+    CASH_SAVINGS = 'CASH_SAVINGS',
+    /** Months of expenses covered by cash and liquid assets */
+    LIQUID_RUNWAY = 'LIQUID_RUNWAY',
+    /** Passive and portfolio income as a percentage of expenses */
+    PASSIVE_COVERAGE = 'PASSIVE_COVERAGE',
+    /** Monthly passive and portfolio income */
+    PASSIVE_INCOME = 'PASSIVE_INCOME',
+    TOTAL_LIABILITIES = 'TOTAL_LIABILITIES'
+}
+
+export const GOAL_METRICS = Object.values(GoalMetric);
+
+export function isGoalMetric(value: unknown): value is GoalMetric {
+    return typeof value === 'string' && (GOAL_METRICS as string[]).includes(value);
+}
+
+export type GoalUnit = 'CURRENCY' | 'MONTHS' | 'PERCENT';
+
+/**
+ * Unit of each metric and whether the goal is to raise or lower it
+ */
+export const GOAL_METRIC_DETAILS: Record<GoalMetric, { unit: GoalUnit; decreasing: boolean }> = {
+    [GoalMetric.NET_WORTH]: { unit: 'CURRENCY', decreasing: false },
+    [GoalMetric.CASH_SAVINGS]: { unit: 'CURRENCY', decreasing: false },
+    [GoalMetric.LIQUID_RUNWAY]: { unit: 'MONTHS', decreasing: false },
+    [GoalMetric.PASSIVE_COVERAGE]: { unit: 'PERCENT', decreasing: false },
+    [GoalMetric.PASSIVE_INCOME]: { unit: 'CURRENCY', decreasing: false },
+    [GoalMetric.TOTAL_LIABILITIES]: { unit: 'CURRENCY', decreasing: true }
+};
+
+/**
+ * The snapshot and trajectory fields goals are measured against
+ */
+export interface GoalMetricValues {
+    netWorth: number;
+    totalCash: number;
+    liquidRunway: number;
+    /** Passive plus portfolio income, monthly */
+    passiveIncome: number;
+    totalExpenses: number;
+    totalLiabilities: number;
+}
+
+export interface GoalDefinition {
+    id: number;
+    name: string;
+    metric: GoalMetric;
+    targetValue: number;
+    deadline: Date;
+    /** Value of the metric when the goal was set */
+    startValue: number;
+}
+
+export interface GoalProgress {
+    goalId: number;
+    name: string;
+    metric: GoalMetric;
+    unit: GoalUnit;
+    targetValue: number;
+    deadline: string;
+    startValue: number;
+    currentValue: number;
+    /** Share of the way from the start value to the target, 0-100 */
+    progress: number;
+    achieved: boolean;
+    monthsRemaining: number;
+    /** Least-squares change of the metric per month over the recent trajectory */
+    trendPerMonth: number;
+    /** Value at the deadline if the trend holds */
+    projectedValue: number;
+    onTrack: boolean;
+    /** Change per month needed to reach the target by the deadline, in the metric's unit */
+    requiredMonthlyChange: number;
+    /** Money to set aside per month; null for income metrics, which saving does not move directly */
+    requiredMonthlyContribution: number | null;
+}
+
+const AVERAGE_MONTH_MS = 30.4375 * 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Read a goal metric from snapshot or trajectory values
+ */
+export function readGoalMetric(values: GoalMetricValues, metric: GoalMetric): number {
+    switch (metric) {
+        case GoalMetric.NET_WORTH:
+            return values.netWorth;
+        case GoalMetric.CASH_SAVINGS:
+            return values.totalCash;
+        case GoalMetric.LIQUID_RUNWAY:
+            return values.liquidRunway;
+        case GoalMetric.PASSIVE_COVERAGE:
+            return values.totalExpenses > 0 ? (values.passiveIncome / values.totalExpenses) * 100 : 0;
+        case GoalMetric.PASSIVE_INCOME:
+            return values.passiveIncome;
+        case GoalMetric.TOTAL_LIABILITIES:
+            return values.totalLiabilities;
+    }
+}
+
+/**
+ * Months between two dates, fractional
+ */
+export function monthsBetween(from: Date, to: Date): number {
+    return (to.getTime() - from.getTime()) / AVERAGE_MONTH_MS;
+}
+
+/**
+ * Least-squares slope of a series, per month
+ * @returns 0 with fewer than two points
+ */
+export function calculateTrendPerMonth(points: Array<{ date: Date; value: number }>): number {
+    if (points.length < 2) {
+        return 0;
+    }
+
+    const origin = points[0]!.date;
+    const xs = points.map(point => monthsBetween(origin, point.date));
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = points.reduce((sum, point) => sum + point.value, 0) / points.length;
+
+    let covariance = 0;
+    let variance = 0;
+    points.forEach((point, index) => {
+        covariance += (xs[index]! - meanX) * (point.value - meanY);
+        variance += (xs[index]! - meanX) ** 2;
+    });
+
+    return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Evaluate a goal against the current values and the recent trajectory
+ * @param history - Dated values, oldest first, the trend is fitted to
+ */
+export function evaluateGoal(
+    goal: GoalDefinition,
+    current: GoalMetricValues,
+    history: Array<{ date: Date } & GoalMetricValues>,
+    asOf: Date
+): GoalProgress {
+    const { unit, decreasing } = GOAL_METRIC_DETAILS[goal.metric];
+    const currentValue = readGoalMetric(current, goal.metric);
+    const reached = (value: number) => decreasing ? value <= goal.targetValue : value >= goal.targetValue;
+
+    const achieved = reached(currentValue);
+    const monthsRemaining = Math.max(0, monthsBetween(asOf, goal.deadline));
+    const trendPerMonth = calculateTrendPerMonth(
+        history.map(point => ({ date: point.date, value: readGoalMetric(point, goal.metric) }))
+    );
+    const projectedValue = currentValue + trendPerMonth * monthsRemaining;
+
+    // Past the deadline nothing more can be done in time
+    const requiredMonthlyChange = achieved || monthsRemaining === 0
+        ? 0
+        : (goal.targetValue - currentValue) / monthsRemaining;
+
+    let requiredMonthlyContribution: number | null;
+    if (unit === 'MONTHS') {
+        // Each extra month of runway is one more month of expenses put aside
+        requiredMonthlyContribution = requiredMonthlyChange * current.totalExpenses;
+    } else if (goal.metric === GoalMetric.PASSIVE_COVERAGE || goal.metric === GoalMetric.PASSIVE_INCOME) {
+        requiredMonthlyContribution = null;
+    } else {
+        requiredMonthlyContribution = Math.abs(requiredMonthlyChange);
+    }
+
+    const distance = goal.targetValue - goal.startValue;
+    const progress = achieved
+        ? 100
+        : distance !== 0
+            ? Math.min(100, Math.max(0, ((currentValue - goal.startValue) / distance) * 100))
+            : 0;
+
+    return {
+        goalId: goal.id,
+        name: goal.name,
+        metric: goal.metric,
+        unit,
+        targetValue: goal.targetValue,
+        deadline: goal.deadline.toISOString().slice(0, 10),
+        startValue: goal.startValue,
+        currentValue: round(currentValue),
+        progress: round(progress),
+        achieved,
+        monthsRemaining: round(monthsRemaining),
+        trendPerMonth: round(trendPerMonth),
+        projectedValue: round(projectedValue),
+        onTrack: achieved || (monthsRemaining > 0 && reached(projectedValue)),
+        requiredMonthlyChange: round(requiredMonthlyChange),
+        requiredMonthlyContribution: requiredMonthlyContribution === null ? null : round(requiredMonthlyContribution)
+    };
+}
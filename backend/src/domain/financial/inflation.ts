@@ -0,0 +1,183 @@
+/**
+ * Inflation (CPI) Functions
+ *
+ * A price index per currency restates nominal amounts in the purchasing power
+ * of a base year: an amount on a date is multiplied by the base-year index
+ * over the index on that date. Restating a whole state before metrics are
+ * calculated keeps every derived figure (net worth, freedom gap, trends) in
+ * real terms, while ratios are unchanged.
+ */
+
+import { FinancialState } from './reducers.js';
+
+export interface InflationIndexRow {
+    /** First day of the period the index value measures */
+    date: Date;
+    value: number;
+}
+
+export interface InflationIndexUpdate extends InflationIndexRow {
+    currencyId: number;
+}
+
+/**
+ * A currency's price index, sorted by date, with the level amounts are restated at
+ */
+export interface InflationContext {
+    series: InflationIndexRow[];
+    baseYear: number;
+    baseIndex: number;
+}
+
+/**
+ * Index level on a date: the latest value on or before it
+ * Dates before the series starts use its first value, so older amounts are
+ * restated no further than the data reaches.
+ */
+export function indexAsOf(series: InflationIndexRow[], date: Date): number | null {
+    if (series.length === 0) return null;
+
+    let level = series[0]!.value;
+    for (const row of series) {
+        if (row.date > date) break;
+        level = row.value;
+    }
+    return level;
+}
+
+/**
+ * Index level of a base year: the average of its values, or the level at the
+ * end of the year when none were recorded in it
+ */
+export function baseYearIndex(series: InflationIndexRow[], year: number): number | null {
+    const inYear = series.filter(row => row.date.getUTCFullYear() === year);
+
+    if (inYear.length > 0) {
+        return inYear.reduce((sum, row) => sum + row.value, 0) / inYear.length;
+    }
+
+    return indexAsOf(series, new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999)));
+}
+
+/**
+ * Build the context restating amounts in a base year's purchasing power
+ * Returns null when the currency has no index
+ */
+export function buildInflationContext(rows: InflationIndexRow[], baseYear: number): InflationContext | null {
+    const series = [...rows].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const baseIndex = baseYearIndex(series, baseYear);
+
+    if (baseIndex === null || baseIndex <= 0) return null;
+
+    return { series, baseYear, baseIndex };
+}
+
+/**
+ * Factor turning a nominal amount on a date into base-year purchasing power
+ */
+export function deflationFactor(context: InflationContext, date: Date): number {
+    const level = indexAsOf(context.series, date);
+    return level && level > 0 ? context.baseIndex / level : 1;
+}
+
+/**
+ * Restate every amount of a state that has been converted to one currency
+ */
+export function deflateFinancialState(state: FinancialState, factor: number): FinancialState {
+    if (factor === 1) return state;
+
+    const scaleMap = <T>(entities: Map<number, T>, scale: (entity: T) => T) =>
+        new Map(Array.from(entities, ([id, entity]) => [id, scale(entity)] as [number, T]));
+
+    return {
+        ...state,
+        cashSavings: state.cashSavings * factor,
+        cashAccounts: scaleMap(state.cashAccounts, account => ({ ...account, amount: account.amount * factor })),
+        assets: scaleMap(state.assets, asset => ({ ...asset, value: asset.value * factor })),
+        liabilities: scaleMap(state.liabilities, liability => ({
+            ...liability,
+            value: liability.value * factor,
+            minimumPayment: liability.minimumPayment != null
+                ? liability.minimumPayment * factor
+                : liability.minimumPayment
+        })),
+        incomeLines: scaleMap(state.incomeLines, line => ({ ...line, amount: line.amount * factor })),
+        expenses: scaleMap(state.expenses, expense => ({ ...expense, amount: expense.amount * factor }))
+    };
+}
+
+/**
+ * Inflation over the 12 months up to a date, in percent
+ * Null when the index does not reach back a year
+ */
+export function annualInflationRate(series: InflationIndexRow[], asOf: Date): number | null {
+    const yearAgo = new Date(asOf);
+    yearAgo.setUTCFullYear(yearAgo.getUTCFullYear() - 1);
+
+    if (series.length === 0 || series[0]!.date > yearAgo) return null;
+
+    const current = indexAsOf(series, asOf);
+    const previous = indexAsOf(series, yearAgo);
+
+    if (!current || !previous) return null;
+
+    return Number((((current / previous) - 1) * 100).toFixed(2));
+}
+
+export interface ParsedInflationIndex {
+    rows: InflationIndexUpdate[];
+    errors: string[];
+}
+
+/**
+ * Parse a price index CSV of "currency,date,value" lines
+ * Currencies may be given by id or by name and dates as YYYY-MM or YYYY-MM-DD;
+ * a leading header line is skipped. Every bad line is reported so an upload
+ * can be fixed in one pass
+ */
+export function parseInflationIndexCsv(
+    csv: string,
+    resolveCurrencyId: (value: string) => number | null
+): ParsedInflationIndex {
+    const rows: InflationIndexUpdate[] = [];
+    const errors: string[] = [];
+
+    const lines = csv.split(/\r?\n/).map(line => line.trim());
+
+    lines.forEach((line, index) => {
+        if (!line) return;
+
+        const lineNumber = index + 1;
+        const fields = line.split(',').map(field => field.trim());
+
+        if (index === 0 && fields[2] !== undefined && isNaN(Number(fields[2]))) return;
+
+        if (fields.length !== 3) {
+            errors.push(`Line ${lineNumber}: expected currency,date,value`);
+            return;
+        }
+
+        const [currency, dateText, valueText] = fields as [string, string, string];
+        const currencyId = resolveCurrencyId(currency);
+        const value = Number(valueText);
+        const date = /^\d{4}-\d{2}$/.test(dateText)
+            ? new Date(`${dateText}-01`)
+            : /^\d{4}-\d{2}-\d{2}$/.test(dateText) ? new Date(dateText) : null;
+
+        if (currencyId === null) {
+            errors.push(`Line ${lineNumber}: unknown currency "${currency}"`);
+        } else if (!date || isNaN(date.getTime())) {
+            errors.push(`Line ${lineNumber}: date must be YYYY-MM or YYYY-MM-DD`);
+        } else if (!valueText || isNaN(value) || value <= 0) {
+            errors.push(`Line ${lineNumber}: index value must be a positive number`);
+        } else {
+            rows.push({ currencyId, date, value });
+        }
+    });
+
+    if (rows.length === 0 && errors.length === 0) {
+        errors.push('No index values found');
+    }
+
+    return { rows, errors };
+}
@@ -0,0 +1,177 @@
+/**
+ * Integrity Checks
+ *
+ * The pure half of the integrity verifier: replay a user's events, diff the
+ * result against the live tables entity by entity, and plan the compensating
+ * events that bring the stream back in line. The live tables are treated as
+ * authoritative.
+ */
+
+import { ActionType, EntityType, Event } from '../../types/event.types.js';
+import {
+    FinancialState,
+    createEmptyState,
+    rootReducer,
+    compareEventsByEffectiveDate,
+    getEffectiveDate
+} from './reducers.js';
+
+/**
+ * Amounts are stored with two decimals, so anything below half a cent is rounding noise
+ */
+const AMOUNT_TOLERANCE = 0.005;
+
+export type DriftEntityType =
+    | EntityType.ASSET
+    | EntityType.LIABILITY
+    | EntityType.INCOME
+    | EntityType.EXPENSE
+    | EntityType.CASH_SAVINGS;
+
+export type DriftKind = 'MISSING_IN_EVENTS' | 'MISSING_IN_LIVE' | 'VALUE_MISMATCH';
+
+export interface DriftItem {
+    entityType: DriftEntityType;
+    entityId: number;
+    kind: DriftKind;
+    fields: string[];
+    live: Record<string, any> | null;
+    replayed: Record<string, any> | null;
+}
+
+/**
+ * An event to record so the stream replays to the live tables again
+ */
+export interface CompensatingEvent {
+    actionType: ActionType;
+    entityType: DriftEntityType;
+    entityId: number;
+    beforeValue?: Record<string, any>;
+    afterValue?: Record<string, any>;
+    effectiveDate: Date;
+}
+
+/**
+ * Fields compared per entity type; numeric fields use AMOUNT_TOLERANCE
+ */
+const COMPARED_FIELDS: Record<
+    DriftEntityType,
+    { stateKey: 'assets' | 'liabilities' | 'incomeLines' | 'expenses' | 'cashAccounts'; fields: string[] }
+> = {
+    [EntityType.ASSET]: { stateKey: 'assets', fields: ['name', 'value', 'assetClass', 'liquidity', 'currencyId'] },
+    [EntityType.LIABILITY]: {
+        stateKey: 'liabilities',
+        fields: ['name', 'value', 'interestRate', 'minimumPayment', 'termMonths', 'startDate', 'assetId', 'currencyId']
+    },
+    [EntityType.INCOME]: {
+        stateKey: 'incomeLines',
+        fields: ['name', 'amount', 'type', 'quadrant', 'frequency', 'assetId', 'currencyId', 'activeFrom', 'activeUntil']
+    },
+    [EntityType.EXPENSE]: {
+        stateKey: 'expenses',
+        fields: ['name', 'amount', 'frequency', 'categoryId', 'assetId', 'liabilityId', 'currencyId', 'activeFrom', 'activeUntil']
+    },
+    [EntityType.CASH_SAVINGS]: { stateKey: 'cashAccounts', fields: ['name', 'amount', 'accountType'] }
+};
+
+function fieldsEqual(a: unknown, b: unknown): boolean {
+    if (typeof a === 'number' || typeof b === 'number') {
+        return Math.abs(Number(a ?? 0) - Number(b ?? 0)) < AMOUNT_TOLERANCE;
+    }
+    return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Replay every recorded event for the user
+ * Future-dated events are included because the live tables already reflect them
+ */
+export function replayAllEvents(events: Event[], currency: FinancialState['currency']): FinancialState {
+    return [...events]
+        .sort(compareEventsByEffectiveDate)
+        .reduce((state, event) => rootReducer(state, event), createEmptyState(currency));
+}
+
+/**
+ * Diff a replayed state against the live state
+ */
+export function diffFinancialStates(live: FinancialState, replayed: FinancialState): DriftItem[] {
+    const drift: DriftItem[] = [];
+
+    for (const [entityType, { stateKey, fields }] of Object.entries(COMPARED_FIELDS)) {
+        const liveEntities = live[stateKey] as Map<number, Record<string, any>>;
+        const replayedEntities = replayed[stateKey] as Map<number, Record<string, any>>;
+        const ids = new Set([...liveEntities.keys(), ...replayedEntities.keys()]);
+
+        for (const entityId of [...ids].sort((a, b) => a - b)) {
+            const liveEntity = liveEntities.get(entityId) ?? null;
+            const replayedEntity = replayedEntities.get(entityId) ?? null;
+
+            if (!replayedEntity || !liveEntity) {
+                drift.push({
+                    entityType: entityType as DriftEntityType,
+                    entityId,
+                    kind: replayedEntity ? 'MISSING_IN_LIVE' : 'MISSING_IN_EVENTS',
+                    fields: [],
+                    live: liveEntity,
+                    replayed: replayedEntity
+                });
+                continue;
+            }
+
+            const mismatched = fields.filter(field => !fieldsEqual(liveEntity[field], replayedEntity[field]));
+            if (mismatched.length > 0) {
+                drift.push({
+                    entityType: entityType as DriftEntityType,
+                    entityId,
+                    kind: 'VALUE_MISMATCH',
+                    fields: mismatched,
+                    live: liveEntity,
+                    replayed: replayedEntity
+                });
+            }
+        }
+    }
+
+    return drift;
+}
+
+/**
+ * Strip the entity id from a state entry so it matches the event payload shape
+ */
+function toEventPayload(entity: Record<string, any> | null): Record<string, any> | undefined {
+    if (!entity) return undefined;
+    const { id: _id, ...payload } = entity;
+    return payload;
+}
+
+/**
+ * Plan one compensating event per drift item
+ * Each is dated now, or at the entity's latest event when that is later, so
+ * replay applies it after everything already recorded for the entity; a
+ * repair dated before a future-dated event would be overwritten by it and
+ * found again on the next check.
+ */
+export function planCompensatingEvents(drift: DriftItem[], events: Event[], now: Date): CompensatingEvent[] {
+    const latestByEntity = new Map<string, number>();
+    for (const event of events) {
+        const key = `${event.entityType}:${event.entityId}`;
+        const time = getEffectiveDate(event).getTime();
+        latestByEntity.set(key, Math.max(latestByEntity.get(key) ?? time, time));
+    }
+
+    return drift.map(item => {
+        const latest = latestByEntity.get(`${item.entityType}:${item.entityId}`) ?? now.getTime();
+        return {
+            actionType: item.kind === 'MISSING_IN_EVENTS'
+                ? ActionType.CREATE
+                : item.kind === 'MISSING_IN_LIVE'
+                    ? ActionType.DELETE
+                    : ActionType.UPDATE,
+            entityType: item.entityType,
+            entityId: item.entityId,
+            beforeValue: toEventPayload(item.replayed),
+            afterValue: item.kind === 'MISSING_IN_LIVE' ? undefined : toEventPayload(item.live),
+            effectiveDate: new Date(Math.max(latest, now.getTime()))
+        };
+    });
+}
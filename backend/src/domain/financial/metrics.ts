@@ -7,6 +7,10 @@
  */
 
 import { FinancialState } from './reducers.js';
+import { toMonthlyAmount } from './frequency.js';
+import { calculateExpenseBreakdown } from './expenseCategories.js';
+import { calculateAssetAllocation, calculateLiquidAssets, calculateLiquidRunway } from './assetClasses.js';
+import { PayoffPlan, getPayoffRelief, simulatePayoff, toPayoffDebts } from './debtPayoff.js';
 import { createEmptyQuadrantTotals, determineIncomeQuadrant } from '../../utils/incomeQuadrant.utils.js';
 
 /**
@@ -14,7 +18,14 @@ import { createEmptyQuadrantTotals, determineIncomeQuadrant } from '../../utils/
  */
 export interface FinancialHealth {
     runway: number;
+    liquidRunway: number;
     freedomDate: string | null;
+    /** Debt-free date under the user's payoff plan; null without a plan */
+    debtFreeDate: string | null;
+    /** Yearly inflation applied to future expenses, in percent; null when unknown */
+    expenseInflation: number | null;
+    /** Freedom date with expenses rising at expenseInflation; null when it is unknown */
+    inflationAdjustedFreedomDate: string | null;
     assetEfficiency: number;
     trends: {
         netWorth: number;
@@ -22,19 +33,150 @@ export interface FinancialHealth {
     };
 }
 
+/**
+ * Monthly cashflow attributed to a single asset through linked income and expense lines
+ */
+export interface AssetPerformance {
+    assetId: number;
+    name: string;
+    value: number;
+    monthlyIncome: number;
+    monthlyExpenses: number;
+    netCashflow: number;
+    /** Annual linked income as a percentage of the asset's value */
+    yield: number;
+    /** Annual net cashflow as a percentage of the asset's value */
+    roi: number;
+}
+
+interface LinkedAmount {
+    amount: number;
+    frequency?: string | null;
+    assetId?: number | null;
+}
+
+/**
+ * Per-asset yield, net cashflow and ROI
+ * The per-asset counterpart of assetEfficiency; lines without an asset are ignored
+ */
+export function calculateAssetPerformance(
+    assets: { id: number; name: string; value: number }[],
+    incomeLines: LinkedAmount[],
+    expenses: LinkedAmount[]
+): AssetPerformance[] {
+    const sumFor = (lines: LinkedAmount[], assetId: number) => lines
+        .filter(line => line.assetId === assetId)
+        .reduce((sum, line) => sum + toMonthlyAmount(line.amount, line.frequency), 0);
+
+    return assets.map(asset => {
+        const monthlyIncome = sumFor(incomeLines, asset.id);
+        const monthlyExpenses = sumFor(expenses, asset.id);
+        const netCashflow = monthlyIncome - monthlyExpenses;
+        const toAnnualPct = (monthly: number) => asset.value > 0
+            ? Number(((monthly * 12 / asset.value) * 100).toFixed(2))
+            : 0;
+
+        return {
+            assetId: asset.id,
+            name: asset.name,
+            value: asset.value,
+            monthlyIncome: Number(monthlyIncome.toFixed(2)),
+            monthlyExpenses: Number(monthlyExpenses.toFixed(2)),
+            netCashflow: Number(netCashflow.toFixed(2)),
+            yield: toAnnualPct(monthlyIncome),
+            roi: toAnnualPct(netCashflow)
+        };
+    });
+}
+
+/**
+ * Equity held in a single asset after the liabilities it secures
+ */
+export interface AssetEquity {
+    assetId: number;
+    name: string;
+    value: number;
+    /** Outstanding balance of liabilities secured by the asset */
+    securedDebt: number;
+    equity: number;
+    /** Secured debt as a percentage of value; null when a worthless asset still carries debt */
+    loanToValue: number | null;
+    /** The secured debt exceeds the asset's value */
+    underwater: boolean;
+}
+
+/**
+ * Per-asset equity and loan-to-value from secured liabilities
+ * Unsecured liabilities are ignored; they are a claim on net worth, not on one asset
+ */
+export function calculateAssetEquity(
+    assets: { id: number; name: string; value: number }[],
+    liabilities: { value: number; assetId?: number | null }[]
+): AssetEquity[] {
+    return assets.map(asset => {
+        const securedDebt = liabilities
+            .filter(liability => liability.assetId === asset.id)
+            .reduce((sum, liability) => sum + liability.value, 0);
+
+        let loanToValue: number | null = 0;
+        if (asset.value > 0) {
+            loanToValue = Number(((securedDebt / asset.value) * 100).toFixed(2));
+        } else if (securedDebt > 0) {
+            loanToValue = null;
+        }
+
+        return {
+            assetId: asset.id,
+            name: asset.name,
+            value: asset.value,
+            securedDebt: Number(securedDebt.toFixed(2)),
+            equity: Number((asset.value - securedDebt).toFixed(2)),
+            loanToValue,
+            underwater: securedDebt > asset.value
+        };
+    });
+}
+
+/**
+ * First month in which projected passive income covers expenses reduced by the
+ * expense lines linked to paid-off debts, within the 50 year projection window
+ * Expenses rise by the yearly inflation given in percent
+ */
+function findFreedomMonth(
+    projectPassiveIncome: (months: number) => number,
+    monthlyExpenses: number,
+    relief: { month: number; amount: number }[],
+    annualInflation: number = 0
+): number | null {
+    for (let month = 1; month < 600; month++) {
+        const expenses = relief
+            .filter(r => r.month <= month)
+            .reduce((remaining, r) => remaining - r.amount, monthlyExpenses * Math.pow(1 + annualInflation / 100, month / 12));
+        if (projectPassiveIncome(month) >= expenses) return month;
+    }
+    return null;
+}
+
 /**
  * Calculate financial health metrics
  * 
  * Computes:
  * - Runway: months of expenses covered by cash
+ * - Liquid Runway: months of expenses covered by cash plus liquid assets
  * - Asset Efficiency: passive income as percentage of assets
  * - Trends: month-over-month changes in net worth and cashflow
  * - Freedom Date: projected date when passive income covers expenses
+ *   (with a payoff plan, expenses fall as each loan is paid off)
+ * - Debt-Free Date: when the payoff plan clears every liability
+ * - Inflation-Adjusted Freedom Date: the freedom date with expenses rising at
+ *   the given yearly inflation, for nominal figures
  */
 export function calculateFinancialHealth(
     currentState: FinancialState,
     prevMonthState: FinancialState | null,
-    sixMonthAgoState: FinancialState | null
+    sixMonthAgoState: FinancialState | null,
+    payoffPlan: PayoffPlan | null = null,
+    expenseInflation: number | null = null
 ): FinancialHealth {
     // Calculate totals for current state
     const currentTotalAssets = Array.from(currentState.assets.values()).reduce((sum, a) => sum + a.value, 0);
@@ -45,18 +187,25 @@ export function calculateFinancialHealth(
     const currentIncomeLines = Array.from(currentState.incomeLines.values());
     const currentPassiveIncome = currentIncomeLines
         .filter(i => i.type.toUpperCase() === 'PASSIVE')
-        .reduce((sum, i) => sum + i.amount, 0);
+        .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
     const currentPortfolioIncome = currentIncomeLines
         .filter(i => i.type.toUpperCase() === 'PORTFOLIO')
-        .reduce((sum, i) => sum + i.amount, 0);
-    const currentTotalIncome = currentIncomeLines.reduce((sum, i) => sum + i.amount, 0);
+        .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+    const currentTotalIncome = currentIncomeLines.reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
 
-    const currentExpenses = Array.from(currentState.expenses.values()).reduce((sum, e) => sum + e.amount, 0);
+    const currentExpenses = Array.from(currentState.expenses.values()).reduce((sum, e) => sum + toMonthlyAmount(e.amount, e.frequency), 0);
     const currentNetCashflow = currentTotalIncome - currentExpenses;
 
     // 1. Runway: (Cash + Liquid Assets) / Monthly Expenses
     const runway = currentExpenses > 0 ? currentCash / currentExpenses : (currentCash > 0 ? 999 : 0);
 
+    // 1b. Liquid Runway: adds assets that can be sold within days (brokerage, bonds, ...)
+    const liquidRunway = calculateLiquidRunway(
+        currentCash,
+        calculateLiquidAssets(Array.from(currentState.assets.values())),
+        currentExpenses
+    );
+
     // 2. Asset Efficiency: (Passive + Portfolio) / (Total Assets - Cash)
     // Note: In our state model, totalAssets excludes cash.
     const assetEfficiency = currentTotalAssets > 0
@@ -73,8 +222,8 @@ export function calculateFinancialHealth(
         const prevCash = prevMonthState.cashSavings;
         const prevNetWorth = prevAssets - prevLiabilities + prevCash;
 
-        const prevIncome = Array.from(prevMonthState.incomeLines.values()).reduce((sum, i) => sum + i.amount, 0);
-        const prevExpenses = Array.from(prevMonthState.expenses.values()).reduce((sum, e) => sum + e.amount, 0);
+        const prevIncome = Array.from(prevMonthState.incomeLines.values()).reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+        const prevExpenses = Array.from(prevMonthState.expenses.values()).reduce((sum, e) => sum + toMonthlyAmount(e.amount, e.frequency), 0);
         const prevNetCashflow = prevIncome - prevExpenses;
 
         if (prevNetWorth !== 0) {
@@ -95,6 +244,8 @@ export function calculateFinancialHealth(
     // since portfolio income (from investments) also generates money without active work
     const currentCombinedPassiveIncome = currentPassiveIncome + currentPortfolioIncome;
     let freedomDate: string | null = null;
+    // Passive income after n months under the growth model in use, for the payoff plan projection
+    let projectPassiveIncome: ((months: number) => number) | null = null;
 
     if (currentCombinedPassiveIncome >= currentExpenses) {
         freedomDate = "Achieved";
@@ -103,10 +254,10 @@ export function calculateFinancialHealth(
         if (sixMonthAgoState) {
             const sixMonthPassive = Array.from(sixMonthAgoState.incomeLines.values())
                 .filter(i => i.type.toUpperCase() === 'PASSIVE')
-                .reduce((sum, i) => sum + i.amount, 0);
+                .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
             const sixMonthPortfolio = Array.from(sixMonthAgoState.incomeLines.values())
                 .filter(i => i.type.toUpperCase() === 'PORTFOLIO')
-                .reduce((sum, i) => sum + i.amount, 0);
+                .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
             const sixMonthCombinedPassive = sixMonthPassive + sixMonthPortfolio;
 
             // Case 1: Growth from non-zero base (Compound Growth)
@@ -117,6 +268,7 @@ export function calculateFinancialHealth(
                     const r = growthFactor - 1;
 
                     if (r > 0) {
+                        projectPassiveIncome = (months) => currentCombinedPassiveIncome * Math.pow(1 + r, months);
                         const monthsToFreedom = Math.log(currentExpenses / currentCombinedPassiveIncome) / Math.log(1 + r);
 
                         if (monthsToFreedom > 0 && monthsToFreedom < 600) { // Cap at 50 years
@@ -129,6 +281,7 @@ export function calculateFinancialHealth(
                     }
                 } else {
                     freedomDate = "Stagnant/Declining";
+                    projectPassiveIncome = () => currentCombinedPassiveIncome;
                 }
             }
             // Case 2: Growth from zero base (Linear Projection)
@@ -139,6 +292,7 @@ export function calculateFinancialHealth(
                 const gapToCover = currentExpenses - currentCombinedPassiveIncome;
 
                 if (monthlyGrowthAmount > 0) {
+                    projectPassiveIncome = (months) => currentCombinedPassiveIncome + monthlyGrowthAmount * months;
                     const monthsToFreedom = gapToCover / monthlyGrowthAmount;
 
                     if (monthsToFreedom > 0 && monthsToFreedom < 600) {
@@ -157,9 +311,53 @@ export function calculateFinancialHealth(
         freedomDate = "No Passive Income";
     }
 
+    // 5. Debt payoff plan: expenses linked to a paid-off loan stop from its payoff month
+    let debtFreeDate: string | null = null;
+    let relief: { month: number; amount: number }[] = [];
+    if (payoffPlan) {
+        const simulation = simulatePayoff(
+            toPayoffDebts(currentState.liabilities.values()),
+            payoffPlan.extraPayment,
+            payoffPlan.strategy,
+            payoffPlan.customOrder
+        );
+        debtFreeDate = simulation.debtFreeDate;
+
+        relief = getPayoffRelief(simulation, currentState.expenses.values());
+        if (projectPassiveIncome && relief.length > 0) {
+            const monthsToFreedom = findFreedomMonth(projectPassiveIncome, currentExpenses, relief);
+            if (monthsToFreedom !== null) {
+                const freedom = new Date();
+                freedom.setMonth(freedom.getMonth() + monthsToFreedom);
+                freedomDate = freedom.toISOString().substring(0, 10);
+            }
+        }
+    }
+
+    // 6. Freedom Gap under inflation: passive income has to catch up with rising expenses
+    let inflationAdjustedFreedomDate: string | null = null;
+    if (expenseInflation !== null) {
+        if (freedomDate === "Achieved" || !projectPassiveIncome) {
+            inflationAdjustedFreedomDate = freedomDate;
+        } else {
+            const monthsToFreedom = findFreedomMonth(projectPassiveIncome, currentExpenses, relief, expenseInflation);
+            if (monthsToFreedom !== null) {
+                const freedom = new Date();
+                freedom.setMonth(freedom.getMonth() + monthsToFreedom);
+                inflationAdjustedFreedomDate = freedom.toISOString().substring(0, 10);
+            } else {
+                inflationAdjustedFreedomDate = "> 50 Years";
+            }
+        }
+    }
+
     return {
         runway: Number(runway.toFixed(1)),
+        liquidRunway,
         freedomDate,
+        debtFreeDate,
+        expenseInflation,
+        inflationAdjustedFreedomDate,
         assetEfficiency: Number(assetEfficiency.toFixed(2)),
         trends: {
             netWorth: Number(netWorthTrend.toFixed(2)),
@@ -177,6 +375,10 @@ export function calculateFinancialHealth(
  * - Financial ratios
  * - RichFlow metrics (Wealth Velocity, Solvency, Freedom Gap)
  * - Income quadrant distribution
+ * - Expense breakdown by category and classification
+ * - Asset allocation by asset class
+ * - Per-asset yield and ROI from linked income and expenses
+ * - Per-asset equity and loan-to-value from secured liabilities
  */
 export function calculateSnapshotFromState(
     state: FinancialState,
@@ -189,22 +391,24 @@ export function calculateSnapshotFromState(
     const totalLiabilities = Array.from(state.liabilities.values()).reduce((sum, liability) => sum + liability.value, 0);
     const totalCashBalance = state.cashSavings;
     const netWorth = totalAssets - totalLiabilities + totalCashBalance;
+    const assets = Array.from(state.assets.values());
+    const totalLiquidAssets = calculateLiquidAssets(assets);
 
     // Calculate income by type
     const incomeLines = Array.from(state.incomeLines.values());
     const earnedIncome = incomeLines
         .filter(i => i.type.toUpperCase() === 'EARNED')
-        .reduce((sum, i) => sum + i.amount, 0);
+        .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
     const passiveIncome = incomeLines
         .filter(i => i.type.toUpperCase() === 'PASSIVE')
-        .reduce((sum, i) => sum + i.amount, 0);
+        .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
     const portfolioIncome = incomeLines
         .filter(i => i.type.toUpperCase() === 'PORTFOLIO')
-        .reduce((sum, i) => sum + i.amount, 0);
+        .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
     const totalIncome = earnedIncome + passiveIncome + portfolioIncome;
 
     // Calculate expenses
-    const totalExpenses = Array.from(state.expenses.values()).reduce((sum, expense) => sum + expense.amount, 0);
+    const totalExpenses = Array.from(state.expenses.values()).reduce((sum, expense) => sum + toMonthlyAmount(expense.amount, expense.frequency), 0);
     const netCashflow = totalIncome - totalExpenses;
 
     // Combined passive income (passive + portfolio) for freedom calculations
@@ -241,6 +445,11 @@ export function calculateSnapshotFromState(
     const totalAssetsWithCash = totalAssets + totalCashBalance;
     const solvencyRatio = totalAssetsWithCash > 0 ? (totalLiabilities / totalAssetsWithCash) * 100 : 0;
 
+    // 2b. Liquid Solvency Ratio (Liabilities / (Cash + Liquid Assets))
+    // How much of what is owed could be paid off without selling illiquid assets
+    const liquidFunds = totalCashBalance + totalLiquidAssets;
+    const liquidSolvencyRatio = liquidFunds > 0 ? (totalLiabilities / liquidFunds) * 100 : 0;
+
     // 3. Freedom Gap (Expenses - Combined Passive Income)
     // Portfolio income is included since it also generates income without active work
     const freedomGap = totalExpenses - combinedPassiveIncome;
@@ -249,7 +458,7 @@ export function calculateSnapshotFromState(
     const quadrantTotals = createEmptyQuadrantTotals();
     incomeLines.forEach(line => {
         const bucket = determineIncomeQuadrant(line.type, line.quadrant);
-        quadrantTotals[bucket] += line.amount;
+        quadrantTotals[bucket] += toMonthlyAmount(line.amount, line.frequency);
     });
 
     const qEmployee = Number(quadrantTotals.EMPLOYEE);
@@ -275,6 +484,8 @@ export function calculateSnapshotFromState(
             // Invested / illiquid assets (excludes cash)
             totalInvestedAssets: Number(totalAssets),
             totalAssets: Number(totalAssets),
+            // Assets in the LIQUID tier (excludes cash)
+            totalLiquidAssets: Number(totalLiquidAssets),
             totalLiabilities: Number(totalLiabilities),
             netWorth: Number(netWorth)
         },
@@ -295,10 +506,19 @@ export function calculateSnapshotFromState(
             wealthVelocity: Number(wealthVelocity),
             wealthVelocityPct: Number(wealthVelocityPct.toFixed(2)),
             solvencyRatio: Number(solvencyRatio.toFixed(2)),
+            liquidSolvencyRatio: Number(liquidSolvencyRatio.toFixed(2)),
             freedomGap: Number(freedomGap)
         },
         // Income quadrant with amounts and percentage contribution
         incomeQuadrant: incomeQuadrantData,
+        // Monthly expenses by category and essential / discretionary / doodad
+        expenseBreakdown: calculateExpenseBreakdown(Array.from(state.expenses.values())),
+        // Everything owned by asset class, cash included as CASH_EQUIVALENT
+        assetAllocation: calculateAssetAllocation(assets, totalCashBalance),
+        // Yield and ROI of each asset from the income and expenses linked to it
+        assetPerformance: calculateAssetPerformance(assets, incomeLines, Array.from(state.expenses.values())),
+        // Equity left in each asset after the loans it secures; underwater when negative
+        assetEquity: calculateAssetEquity(assets, Array.from(state.liabilities.values())),
         financialHealth
     };
 }
@@ -0,0 +1,84 @@
+/**
+ * Planned Changes
+ *
+ * A planned change is a scenario scheduled for a future date, e.g. a 10% raise
+ * on 2027-01-01, a car loan that ends in 2028-06 or rent income that starts
+ * when a property closes. Pending changes stay out of the current state.
+ * Looking forward, they are resolved in date order against the current state
+ * into synthetic events that extend the real event stream, so a future date
+ * replays through the same reducers as a past one. When its date arrives, the
+ * scheduler records a change as real events.
+ */
+
+import { Event } from '../../types/event.types.js';
+import { FinancialState, compareEventsByEffectiveDate, getEffectiveDate } from './reducers.js';
+import { ScenarioChange, ScenarioContext, applyScenario } from './scenarios.js';
+
+export enum PlannedChangeStatus {
+    PENDING = 'PENDING',
+    /** Claimed by a run that is recording it; materializedAt is when */
+    APPLYING = 'APPLYING',
+    /** Recorded as real events */
+    APPLIED = 'APPLIED',
+    /** No longer resolved when its date arrived, e.g. the loan it ends was already deleted */
+    FAILED = 'FAILED'
+}
+
+export interface StoredPlannedChange {
+    id: number;
+    /** Start of the day the change takes effect (UTC) */
+    effectiveDate: Date;
+    changes: ScenarioChange[];
+}
+
+export interface ResolvedPlannedChanges {
+    /** State after every change that resolved */
+    state: FinancialState;
+    events: Event[];
+    /** Changes that no longer resolve against the state before them */
+    failed: { id: number; error: string }[];
+}
+
+/**
+ * Resolve pending changes, in date order, into synthetic events on top of a state
+ * Each change builds on the ones before it. A change that no longer resolves
+ * is left out and reported, so one stale plan does not hide the others.
+ * Event ids are shifted below zero, like branch events, so they never match a
+ * real one while changes on the same date keep their order.
+ */
+export function resolvePlannedChanges(
+    state: FinancialState,
+    planned: StoredPlannedChange[],
+    context: Omit<ScenarioContext, 'asOf'>
+): ResolvedPlannedChanges {
+    const ordered = [...planned].sort((a, b) =>
+        a.effectiveDate.getTime() - b.effectiveDate.getTime() || a.id - b.id
+    );
+    const events: Event[] = [];
+    const failed: ResolvedPlannedChanges['failed'] = [];
+    let current = state;
+
+    for (const change of ordered) {
+        try {
+            const result = applyScenario(current, change.changes, { ...context, asOf: change.effectiveDate });
+            current = result.state;
+            result.events.forEach(event => {
+                events.push({ ...event, id: events.length + 1 - Number.MAX_SAFE_INTEGER });
+            });
+        } catch (error) {
+            failed.push({ id: change.id, error: error instanceof Error ? error.message : String(error) });
+        }
+    }
+
+    return { state: current, events, failed };
+}
+
+/**
+ * The event stream extended by planned events up to a date, in effective-date order
+ */
+export function withPlannedEvents(realEvents: Event[], plannedEvents: Event[], until: Date): Event[] {
+    return [
+        ...realEvents,
+        ...plannedEvents.filter(event => getEffectiveDate(event) <= until)
+    ].sort(compareEventsByEffectiveDate);
+}
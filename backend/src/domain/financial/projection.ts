@@ -0,0 +1,257 @@
+/**
+ * Monte Carlo Projection
+ *
+ * Projects net worth and passive income forward from the current state over
+ * many simulated market paths, instead of extrapolating one trend. Each path
+ * runs month by month:
+ * - Assets grow by a random return drawn from a log-normal distribution with
+ *   the assumed mean and volatility (growth in value, excluding income paid)
+ * - Earned income grows with the assumed income growth; expenses and existing
+ *   passive income rise with inflation
+ * - Each month's surplus is invested and yields passive income at the assumed
+ *   income yield; a shortfall is drawn from cash, then investments
+ * - Loans are paid down by their scheduled payment, which is assumed to be
+ *   among the expenses and stops once the loan is cleared
+ *
+ * Freedom is reached on a path in the first month its passive and portfolio
+ * income covers expenses, matching the freedom date of the snapshot.
+ */
+
+import { FinancialState } from './reducers.js';
+import { toMonthlyAmount } from './frequency.js';
+import { addMonths } from './amortization.js';
+import { toPayoffDebts } from './debtPayoff.js';
+
+export interface ProjectionAssumptions {
+    /** Expected annual growth of asset values, in percent */
+    expectedReturn: number;
+    /** Annual standard deviation of asset returns, in percent */
+    volatility: number;
+    /** Annual inflation of expenses and existing passive income, in percent */
+    inflation: number;
+    /** Annual growth of earned income, in percent */
+    incomeGrowth: number;
+    /** Annual income paid by invested savings, in percent of their value */
+    incomeYield: number;
+    years: number;
+    simulations: number;
+    /** Seed of the random paths; the same seed gives the same projection */
+    seed: number;
+}
+
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+    expectedReturn: 5,
+    volatility: 15,
+    inflation: 2.5,
+    incomeGrowth: 3,
+    incomeYield: 4,
+    years: 30,
+    simulations: 1000,
+    seed: 1
+};
+
+/** Upper bounds keeping a projection within a request's budget */
+export const MAX_PROJECTION_YEARS = 50;
+export const MAX_PROJECTION_SIMULATIONS = 5000;
+
+export interface PercentileBand {
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface ProjectionYear {
+    year: number;
+    /** YYYY-MM-DD */
+    date: string;
+    netWorth: PercentileBand;
+    passiveIncome: PercentileBand;
+    /** Monthly expenses; the same on every path */
+    expenses: number;
+    /** Share of paths that reached freedom by this date, 0-1 */
+    freedomProbability: number;
+}
+
+export interface ProjectionResult {
+    assumptions: ProjectionAssumptions;
+    years: ProjectionYear[];
+    /** Median freedom date; null when fewer than half of the paths get there */
+    medianFreedomDate: string | null;
+}
+
+interface ProjectionDebt {
+    balance: number;
+    monthlyRate: number;
+    payment: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Standard normal draws from uniform ones (Box-Muller)
+ */
+function createNormal(random: () => number): () => number {
+    return () => {
+        const u = 1 - random();
+        const v = random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    };
+}
+
+/**
+ * Value below which the given share of sorted values fall, interpolated
+ */
+export function percentile(sorted: number[], share: number): number {
+    if (sorted.length === 0) return 0;
+    const index = (sorted.length - 1) * share;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (index - lower);
+}
+
+function toBand(values: number[]): PercentileBand {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+        p10: round2(percentile(sorted, 0.1)),
+        p50: round2(percentile(sorted, 0.5)),
+        p90: round2(percentile(sorted, 0.9))
+    };
+}
+
+/**
+ * Run the projection from a state whose amounts share one currency
+ */
+export function runMonteCarloProjection(
+    state: FinancialState,
+    assumptions: ProjectionAssumptions,
+    asOf: Date = new Date()
+): ProjectionResult {
+    const months = assumptions.years * 12;
+    const incomeLines = Array.from(state.incomeLines.values());
+    const monthlyIncome = (type: string) => incomeLines
+        .filter(line => line.type.toUpperCase() === type)
+        .reduce((sum, line) => sum + toMonthlyAmount(line.amount, line.frequency), 0);
+
+    const earned0 = monthlyIncome('EARNED');
+    const passive0 = monthlyIncome('PASSIVE') + monthlyIncome('PORTFOLIO');
+    const expenses0 = Array.from(state.expenses.values())
+        .reduce((sum, expense) => sum + toMonthlyAmount(expense.amount, expense.frequency), 0);
+    const assets0 = Array.from(state.assets.values()).reduce((sum, asset) => sum + asset.value, 0);
+    const debts0: ProjectionDebt[] = toPayoffDebts(state.liabilities.values(), asOf).map(debt => ({
+        balance: debt.balance,
+        monthlyRate: debt.interestRate / 100 / 12,
+        payment: debt.minimumPayment
+    }));
+
+    // Monthly log-returns whose compounded mean is the expected annual return
+    const sigma = assumptions.volatility / 100;
+    const drift = (Math.log(1 + assumptions.expectedReturn / 100) - sigma * sigma / 2) / 12;
+    const monthlySigma = sigma / Math.sqrt(12);
+    const inflation = Math.pow(1 + assumptions.inflation / 100, 1 / 12);
+    const incomeGrowth = Math.pow(1 + assumptions.incomeGrowth / 100, 1 / 12);
+    const monthlyYield = assumptions.incomeYield / 100 / 12;
+
+    // Loans amortize the same way on every path
+    const liabilitiesByMonth: number[] = [];
+    const reliefByMonth: number[] = [];
+    const debts = debts0.map(debt => ({ ...debt }));
+    for (let month = 0; month <= months; month++) {
+        if (month > 0) {
+            for (const debt of debts) {
+                if (debt.balance <= 0 || debt.payment <= 0) continue;
+                debt.balance = Math.max(0, debt.balance * (1 + debt.monthlyRate) - debt.payment);
+            }
+        }
+        liabilitiesByMonth.push(debts.reduce((sum, debt) => sum + debt.balance, 0));
+        reliefByMonth.push(debts.reduce((sum, debt) => sum + (debt.balance <= 0 ? debt.payment : 0), 0));
+    }
+
+    const expensesAt = (month: number) => Math.max(0, expenses0 * Math.pow(inflation, month) - reliefByMonth[month]!);
+
+    const normal = createNormal(createRandom(assumptions.seed));
+    const netWorthByYear: number[][] = Array.from({ length: assumptions.years + 1 }, () => []);
+    const passiveByYear: number[][] = Array.from({ length: assumptions.years + 1 }, () => []);
+    const freedomMonths: number[] = [];
+
+    for (let run = 0; run < assumptions.simulations; run++) {
+        let cash = state.cashSavings;
+        let assets = assets0;
+        let invested = 0;
+        let freedomMonth: number | null = passive0 >= expenses0 ? 0 : null;
+
+        netWorthByYear[0]!.push(cash + assets - liabilitiesByMonth[0]!);
+        passiveByYear[0]!.push(passive0);
+
+        for (let month = 1; month <= months; month++) {
+            const growth = Math.exp(drift + monthlySigma * normal());
+            assets *= growth;
+            invested *= growth;
+
+            const passive = passive0 * Math.pow(inflation, month) + invested * monthlyYield;
+            const expenses = expensesAt(month);
+            const surplus = earned0 * Math.pow(incomeGrowth, month) + passive - expenses;
+
+            if (surplus >= 0) {
+                invested += surplus;
+            } else {
+                // Shortfalls come out of cash, then investments, then other assets
+                let shortfall = -surplus;
+                const fromCash = Math.min(Math.max(0, cash), shortfall);
+                cash -= fromCash;
+                shortfall -= fromCash;
+                const fromInvested = Math.min(invested, shortfall);
+                invested -= fromInvested;
+                shortfall -= fromInvested;
+                const fromAssets = Math.min(Math.max(0, assets), shortfall);
+                assets -= fromAssets;
+                shortfall -= fromAssets;
+                // Nothing left to sell: the gap is borrowed
+                cash -= shortfall;
+            }
+
+            if (freedomMonth === null && passive >= expenses) {
+                freedomMonth = month;
+            }
+
+            if (month % 12 === 0) {
+                netWorthByYear[month / 12]!.push(cash + assets + invested - liabilitiesByMonth[month]!);
+                passiveByYear[month / 12]!.push(passive);
+            }
+        }
+
+        freedomMonths.push(freedomMonth ?? Infinity);
+    }
+
+    freedomMonths.sort((a, b) => a - b);
+    const medianFreedomMonth = freedomMonths[Math.ceil(freedomMonths.length / 2) - 1] ?? Infinity;
+    const toDate = (month: number) => addMonths(asOf, month).toISOString().slice(0, 10);
+
+    return {
+        assumptions,
+        years: netWorthByYear.map((netWorth, year) => ({
+            year,
+            date: toDate(year * 12),
+            netWorth: toBand(netWorth),
+            passiveIncome: toBand(passiveByYear[year]!),
+            expenses: round2(expensesAt(year * 12)),
+            freedomProbability: assumptions.simulations > 0
+                ? Number((freedomMonths.filter(month => month <= year * 12).length / assumptions.simulations).toFixed(3))
+                : 0
+        })),
+        medianFreedomDate: Number.isFinite(medianFreedomMonth) ? toDate(medianFreedomMonth) : null
+    };
+}
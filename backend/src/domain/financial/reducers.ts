@@ -6,33 +6,128 @@
  */
 
 import { EntityType, ActionType, Event } from '../../types/event.types.js';
+import { Frequency } from './frequency.js';
+import { resolveAssetClassification } from './assetClasses.js';
+import { toLoanTerms } from './amortization.js';
+import { CashAccountType, DEFAULT_CASH_ACCOUNT_NAME, isCashAccountType, sumCashAccounts } from './cashAccounts.js';
+import { toActivePeriod } from './activePeriods.js';
 
 /**
  * Represents the reconstructed financial state at a point in time
  */
 export interface FinancialState {
-    assets: Map<number, { id: number; name: string; value: number }>;
-    liabilities: Map<number, { id: number; name: string; value: number }>;
-    incomeLines: Map<number, { id: number; name: string; amount: number; type: string; quadrant?: string | null }>;
-    expenses: Map<number, { id: number; name: string; amount: number }>;
+    assets: Map<number, {
+        id: number;
+        name: string;
+        value: number;
+        assetClass?: string;
+        liquidity?: string;
+        /** Native currency of the entity, null when held in the preferred currency */
+        currencyId?: number | null;
+    }>;
+    liabilities: Map<number, {
+        id: number;
+        name: string;
+        value: number;
+        interestRate?: number | null;
+        minimumPayment?: number | null;
+        termMonths?: number | null;
+        startDate?: string | null;
+        /** Asset securing the liability, e.g. the house behind a mortgage */
+        assetId?: number | null;
+        currencyId?: number | null;
+    }>;
+    incomeLines: Map<number, {
+        id: number;
+        name: string;
+        amount: number;
+        type: string;
+        quadrant?: string | null;
+        frequency?: string;
+        assetId?: number | null;
+        currencyId?: number | null;
+        /** YYYY-MM-DD; the line counts from this day through activeUntil */
+        activeFrom?: string | null;
+        activeUntil?: string | null;
+    }>;
+    expenses: Map<number, {
+        id: number;
+        name: string;
+        amount: number;
+        frequency?: string;
+        categoryId?: number | null;
+        categoryPath?: string | null;
+        classification?: string | null;
+        assetId?: number | null;
+        /** Loan the expense pays */
+        liabilityId?: number | null;
+        currencyId?: number | null;
+        activeFrom?: string | null;
+        activeUntil?: string | null;
+    }>;
+    cashAccounts: Map<number, {
+        id: number;
+        name: string;
+        amount: number;
+        accountType: string;
+    }>;
+    /** Total across every cash account */
     cashSavings: number;
-    currency: { symbol: string; name: string };
+    /** Preferred currency at this point in time; the id is unknown for states recorded before it was tracked */
+    currency: StateCurrency;
+}
+
+export interface StateCurrency {
+    id?: number;
+    symbol: string;
+    name: string;
 }
 
 /**
  * Creates an empty initial financial state
  */
-export function createEmptyState(currency: { symbol: string; name: string }): FinancialState {
+export function createEmptyState(currency: StateCurrency): FinancialState {
     return {
         assets: new Map(),
         liabilities: new Map(),
         incomeLines: new Map(),
         expenses: new Map(),
+        cashAccounts: new Map(),
         cashSavings: 0,
         currency: { ...currency }
     };
 }
 
+/**
+ * Determine the currency a user started with
+ * The first USER currency change records the original currency in its beforeValue;
+ * without one, the fallback (current preferred currency) has always applied
+ */
+export function resolveInitialCurrency(sortedEvents: Event[], fallback: StateCurrency): StateCurrency {
+    const firstCurrencyEvent = sortedEvents.find(e =>
+        e.entityType === EntityType.USER &&
+        e.actionType === ActionType.UPDATE &&
+        e.beforeValue &&
+        (typeof e.beforeValue === 'string' ? JSON.parse(e.beforeValue).currencyCode : e.beforeValue.currencyCode)
+    );
+
+    if (firstCurrencyEvent && firstCurrencyEvent.beforeValue) {
+        const before = typeof firstCurrencyEvent.beforeValue === 'string'
+            ? JSON.parse(firstCurrencyEvent.beforeValue)
+            : firstCurrencyEvent.beforeValue;
+
+        if (before.currencyCode) {
+            return {
+                id: before.preferredCurrencyId,
+                symbol: before.currencyCode,
+                name: before.currencyName || before.currencyCode
+            };
+        }
+    }
+
+    return fallback;
+}
+
 /**
  * Reducer for ASSET entity events
  */
@@ -47,7 +142,9 @@ export const assetReducer = (state: FinancialState, event: Event): FinancialStat
                 newState.assets.set(entityId, {
                     id: entityId,
                     name: afterValue.name,
-                    value: Number(afterValue.value)
+                    value: Number(afterValue.value),
+                    ...resolveAssetClassification(afterValue.assetClass, afterValue.liquidity),
+                    currencyId: afterValue.currencyId ?? null
                 });
             }
             break;
@@ -72,7 +169,10 @@ export const liabilityReducer = (state: FinancialState, event: Event): Financial
                 newState.liabilities.set(entityId, {
                     id: entityId,
                     name: afterValue.name,
-                    value: Number(afterValue.value)
+                    value: Number(afterValue.value),
+                    ...toLoanTerms(afterValue),
+                    assetId: afterValue.assetId ?? null,
+                    currencyId: afterValue.currencyId ?? null
                 });
             }
             break;
@@ -101,7 +201,11 @@ export const incomeReducer = (state: FinancialState, event: Event): FinancialSta
                     name: afterValue.name,
                     amount: Number(afterValue.amount),
                     type: afterValue.type,
-                    quadrant: afterValue.quadrant || null
+                    quadrant: afterValue.quadrant || null,
+                    frequency: afterValue.frequency || Frequency.MONTHLY,
+                    assetId: afterValue.assetId ?? null,
+                    currencyId: afterValue.currencyId ?? null,
+                    ...toActivePeriod(afterValue)
                 });
             }
             break;
@@ -126,7 +230,15 @@ export const expenseReducer = (state: FinancialState, event: Event): FinancialSt
                 newState.expenses.set(entityId, {
                     id: entityId,
                     name: afterValue.name,
-                    amount: Number(afterValue.amount)
+                    amount: Number(afterValue.amount),
+                    frequency: afterValue.frequency || Frequency.MONTHLY,
+                    categoryId: afterValue.categoryId ?? null,
+                    categoryPath: afterValue.categoryPath ?? null,
+                    classification: afterValue.classification ?? null,
+                    assetId: afterValue.assetId ?? null,
+                    liabilityId: afterValue.liabilityId ?? null,
+                    currencyId: afterValue.currencyId ?? null,
+                    ...toActivePeriod(afterValue)
                 });
             }
             break;
@@ -138,15 +250,36 @@ export const expenseReducer = (state: FinancialState, event: Event): FinancialSt
 };
 
 /**
- * Reducer for CASH_SAVINGS entity events
+ * Reducer for CASH_SAVINGS entity events, one cash account per entityId
+ * Events recorded before accounts existed carry only an amount and replay into
+ * the default account, whose id is the old cash savings row's
  */
 export const cashSavingsReducer = (state: FinancialState, event: Event): FinancialState => {
-    const { actionType, afterValue } = event;
+    const newState = { ...state, cashAccounts: new Map(state.cashAccounts) };
+    const { actionType, entityId, afterValue } = event;
 
-    if ((actionType === ActionType.CREATE || actionType === ActionType.UPDATE) && afterValue && afterValue.amount !== undefined) {
-        return { ...state, cashSavings: Number(afterValue.amount) };
+    switch (actionType) {
+        case ActionType.CREATE:
+        case ActionType.UPDATE:
+            if (afterValue && afterValue.amount !== undefined) {
+                const existing = state.cashAccounts.get(entityId);
+                newState.cashAccounts.set(entityId, {
+                    id: entityId,
+                    name: afterValue.name ?? existing?.name ?? DEFAULT_CASH_ACCOUNT_NAME,
+                    amount: Number(afterValue.amount),
+                    accountType: isCashAccountType(afterValue.accountType)
+                        ? afterValue.accountType
+                        : existing?.accountType ?? CashAccountType.SAVINGS
+                });
+            }
+            break;
+        case ActionType.DELETE:
+            newState.cashAccounts.delete(entityId);
+            break;
     }
-    return state;
+
+    newState.cashSavings = sumCashAccounts(newState.cashAccounts.values());
+    return newState;
 };
 
 /**
@@ -159,6 +292,7 @@ export const userReducer = (state: FinancialState, event: Event): FinancialState
         return {
             ...state,
             currency: {
+                id: afterValue.preferredCurrencyId,
                 symbol: afterValue.currencyCode,
                 name: afterValue.currencyName || afterValue.currencyCode
             }
@@ -189,6 +323,23 @@ export const rootReducer = (state: FinancialState, event: Event): FinancialState
     }
 };
 
+/**
+ * Get the date an event takes effect in the financial timeline
+ * Falls back to the recorded timestamp for events without an effective date
+ */
+export function getEffectiveDate(event: Pick<Event, 'timestamp'> & { effectiveDate?: Date | string | null }): Date {
+    return new Date(event.effectiveDate ?? event.timestamp);
+}
+
+/**
+ * Comparator ordering events by effective date, then by id
+ * so same-instant events replay in the order they were recorded
+ */
+export function compareEventsByEffectiveDate(a: Event, b: Event): number {
+    const diff = getEffectiveDate(a).getTime() - getEffectiveDate(b).getTime();
+    return diff !== 0 ? diff : a.id - b.id;
+}
+
 /**
  * Reconstruct financial state from a list of events up to a target date
  * Uses the pure reducer pattern
@@ -200,10 +351,10 @@ export function reconstructStateFromEvents(
 ): FinancialState {
     const initialState = createEmptyState(initialCurrency);
 
-    // Filter events up to targetDate and sort chronologically
+    // Filter events effective up to targetDate and sort chronologically
     const relevantEvents = events
-        .filter(e => new Date(e.timestamp) <= targetDate)
-        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        .filter(e => getEffectiveDate(e) <= targetDate)
+        .sort(compareEventsByEffectiveDate);
 
     // Apply reducer pipeline
     return relevantEvents.reduce(rootReducer, initialState);
@@ -219,6 +370,7 @@ export function hydrateStateFromSnapshot(snapshotData: any): FinancialState {
         liabilities: new Map(snapshotData.liabilities),
         incomeLines: new Map(snapshotData.incomeLines),
         expenses: new Map(snapshotData.expenses),
+        cashAccounts: new Map(snapshotData.cashAccounts ?? []),
         cashSavings: Number(snapshotData.cashSavings),
         currency: snapshotData.currency
     };
@@ -234,6 +386,7 @@ export function serializeStateForSnapshot(state: FinancialState): any {
         liabilities: Array.from(state.liabilities.entries()),
         incomeLines: Array.from(state.incomeLines.entries()),
         expenses: Array.from(state.expenses.entries()),
+        cashAccounts: Array.from(state.cashAccounts.entries()),
         cashSavings: state.cashSavings,
         currency: state.currency
     };
@@ -0,0 +1,297 @@
+/**
+ * What-if Scenarios
+ *
+ * A scenario is a list of hypothetical changes, e.g. buying a rental property
+ * with a mortgage, quitting a job or cutting dining by 30%. Each change is
+ * turned into synthetic events that run through the same reducers as stored
+ * events, so the simulated state is exactly what recording those changes
+ * would produce. Nothing is persisted.
+ */
+
+import { ActionType, EntityType, Event } from '../../types/event.types.js';
+import { validateEventPayload } from '../schemas/event.schema.js';
+import { determineIncomeQuadrant } from '../../utils/incomeQuadrant.utils.js';
+import { FinancialState, rootReducer } from './reducers.js';
+import { isWithinCategory } from './budgets.js';
+import { CashAccountType, DEFAULT_CASH_ACCOUNT_NAME } from './cashAccounts.js';
+import { applyRate, convertEventPayload } from './fx.js';
+
+export enum ScenarioChangeType {
+    /** A new asset, liability, income or expense line */
+    ADD = 'ADD',
+    REMOVE = 'REMOVE',
+    /** Multiply an amount, e.g. 0.7 to cut an expense by 30% */
+    SCALE = 'SCALE',
+    /** Move cash in or out, e.g. the down payment on a purchase */
+    ADJUST_CASH = 'ADJUST_CASH'
+}
+
+export type ScenarioEntityType = EntityType.ASSET | EntityType.LIABILITY | EntityType.INCOME | EntityType.EXPENSE;
+
+export const SCENARIO_ENTITY_TYPES: ScenarioEntityType[] = [
+    EntityType.ASSET,
+    EntityType.LIABILITY,
+    EntityType.INCOME,
+    EntityType.EXPENSE
+];
+
+export type ScenarioChange =
+    | {
+        type: ScenarioChangeType.ADD;
+        entityType: ScenarioEntityType;
+        /** Label later changes use to link to this entity through assetRef */
+        ref?: string;
+        /** Link to an asset added earlier in the scenario, e.g. the property behind a mortgage */
+        assetRef?: string;
+        /** Event payload of the new entity, amounts in the preferred currency */
+        data: Record<string, unknown>;
+    }
+    | { type: ScenarioChangeType.REMOVE; entityType: ScenarioEntityType; entityId: number }
+    | {
+        type: ScenarioChangeType.SCALE;
+        entityType: ScenarioEntityType;
+        /** One entity, or every expense within a category (and its subcategories) */
+        entityId?: number;
+        categoryId?: number;
+        factor: number;
+    }
+    | {
+        type: ScenarioChangeType.ADJUST_CASH;
+        /** Signed: negative takes cash out */
+        amount: number;
+        /** Defaults to the account with the largest balance */
+        cashAccountId?: number;
+    };
+
+export interface ScenarioContext {
+    userId: number;
+    asOf: Date;
+    /** Current category paths and classifications, as recorded on expense events */
+    categories: Map<number, { categoryId: number; categoryPath: string; classification: string }>;
+    categoryParents: Map<number, number | null>;
+}
+
+export interface ScenarioResult {
+    state: FinancialState;
+    events: Event[];
+}
+
+const STATE_KEYS = {
+    [EntityType.ASSET]: 'assets',
+    [EntityType.LIABILITY]: 'liabilities',
+    [EntityType.INCOME]: 'incomeLines',
+    [EntityType.EXPENSE]: 'expenses'
+} as const;
+
+const AMOUNT_FIELDS = {
+    [EntityType.ASSET]: 'value',
+    [EntityType.LIABILITY]: 'value',
+    [EntityType.INCOME]: 'amount',
+    [EntityType.EXPENSE]: 'amount'
+} as const;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+function entitiesOf(state: FinancialState, entityType: ScenarioEntityType): Map<number, any> {
+    return state[STATE_KEYS[entityType]];
+}
+
+/**
+ * Next free id of an entity map; synthetic entities never collide with real ones
+ */
+function nextEntityId(entities: Map<number, unknown>): number {
+    return Math.max(0, ...entities.keys()) + 1;
+}
+
+/**
+ * Event payload that recreates an entity as it is held in state
+ */
+function toEventValue(entity: Record<string, any>): Record<string, any> {
+    const { id, ...value } = entity;
+    return value;
+}
+
+/**
+ * Apply a preferred-currency conversion rate to the amounts of stored changes
+ * Added entities are always held in the preferred currency; scale factors
+ * need no conversion
+ */
+export function convertScenarioChanges(changes: ScenarioChange[], rate: number): ScenarioChange[] {
+    return changes.map(change => {
+        switch (change.type) {
+            case ScenarioChangeType.ADD: {
+                const { currencyId: _currencyId, ...data } = change.data;
+                return { ...change, data: convertEventPayload(change.entityType, data, rate) };
+            }
+            case ScenarioChangeType.ADJUST_CASH:
+                return { ...change, amount: applyRate(change.amount, rate) };
+            default:
+                return change;
+        }
+    });
+}
+
+/**
+ * Apply hypothetical changes to a state, in order, as synthetic events
+ * Synthetic events carry negative ids so they can never be mistaken for stored ones.
+ * @throws when a change refers to an entity, asset or category that does not exist,
+ * or takes more cash out of an account than it holds
+ */
+export function applyScenario(
+    state: FinancialState,
+    changes: ScenarioChange[],
+    context: ScenarioContext
+): ScenarioResult {
+    let current = state;
+    const events: Event[] = [];
+    const refs = new Map<string, number>();
+
+    const emit = (
+        actionType: ActionType,
+        entityType: EntityType,
+        entityId: number,
+        beforeValue: Record<string, any> | null,
+        afterValue: Record<string, any> | null,
+        entitySubtype: string | null = null
+    ) => {
+        if (afterValue) {
+            validateEventPayload(entityType, afterValue);
+        }
+
+        const event: Event = {
+            id: -(events.length + 1),
+            timestamp: context.asOf,
+            effectiveDate: context.asOf,
+            actionType,
+            entityType,
+            entitySubtype,
+            beforeValue,
+            afterValue,
+            userId: context.userId,
+            entityId
+        };
+        events.push(event);
+        current = rootReducer(current, event);
+    };
+
+    const subtypeOf = (entityType: ScenarioEntityType, value: Record<string, any>) =>
+        entityType === EntityType.INCOME ? value.type : null;
+
+    const scaleEntity = (entityType: ScenarioEntityType, entity: Record<string, any>, factor: number) => {
+        const field = AMOUNT_FIELDS[entityType];
+        const before = toEventValue(entity);
+        const after = { ...before, [field]: round(Number(entity[field]) * factor) };
+        emit(ActionType.UPDATE, entityType, entity.id, before, after, subtypeOf(entityType, after));
+    };
+
+    for (const change of changes) {
+        switch (change.type) {
+            case ScenarioChangeType.ADD: {
+                const entityType = change.entityType;
+                const value: Record<string, any> = { ...change.data, currencyId: null };
+
+                if (change.assetRef !== undefined) {
+                    const assetId = refs.get(change.assetRef);
+                    if (assetId === undefined) {
+                        throw new Error('Scenario asset reference not found');
+                    }
+                    value.assetId = assetId;
+                } else if (value.assetId !== undefined && value.assetId !== null && !current.assets.has(value.assetId)) {
+                    throw new Error('Scenario entity not found');
+                }
+
+                if (value.liabilityId !== undefined && value.liabilityId !== null && !current.liabilities.has(value.liabilityId)) {
+                    throw new Error('Scenario entity not found');
+                }
+
+                if (entityType === EntityType.INCOME) {
+                    value.quadrant = determineIncomeQuadrant(value.type, value.quadrant);
+                }
+
+                if (entityType === EntityType.EXPENSE) {
+                    const category = value.categoryId !== undefined && value.categoryId !== null
+                        ? context.categories.get(value.categoryId)
+                        : undefined;
+                    if (value.categoryId !== undefined && value.categoryId !== null && !category) {
+                        throw new Error('Category not found');
+                    }
+                    value.categoryId = category?.categoryId ?? null;
+                    value.categoryPath = category?.categoryPath ?? null;
+                    value.classification = category?.classification ?? null;
+                }
+
+                const entityId = nextEntityId(entitiesOf(current, entityType));
+                emit(ActionType.CREATE, entityType, entityId, null, value, subtypeOf(entityType, value));
+
+                if (change.ref !== undefined && entityType === EntityType.ASSET) {
+                    refs.set(change.ref, entityId);
+                }
+                break;
+            }
+
+            case ScenarioChangeType.REMOVE: {
+                const entity = entitiesOf(current, change.entityType).get(change.entityId);
+                if (!entity) {
+                    throw new Error('Scenario entity not found');
+                }
+                const before = toEventValue(entity);
+                emit(ActionType.DELETE, change.entityType, change.entityId, before, null, subtypeOf(change.entityType, before));
+                break;
+            }
+
+            case ScenarioChangeType.SCALE: {
+                const entities = entitiesOf(current, change.entityType);
+
+                if (change.categoryId !== undefined) {
+                    if (!context.categoryParents.has(change.categoryId)) {
+                        throw new Error('Category not found');
+                    }
+                    Array.from(current.expenses.values())
+                        .filter(expense => isWithinCategory(expense.categoryId, change.categoryId!, context.categoryParents))
+                        .forEach(expense => scaleEntity(EntityType.EXPENSE, expense, change.factor));
+                    break;
+                }
+
+                const entity = entities.get(change.entityId!);
+                if (!entity) {
+                    throw new Error('Scenario entity not found');
+                }
+                scaleEntity(change.entityType, entity, change.factor);
+                break;
+            }
+
+            case ScenarioChangeType.ADJUST_CASH: {
+                const accounts = Array.from(current.cashAccounts.values());
+                const account = change.cashAccountId !== undefined
+                    ? current.cashAccounts.get(change.cashAccountId)
+                    : accounts.sort((a, b) => b.amount - a.amount)[0];
+
+                if (change.cashAccountId !== undefined && !account) {
+                    throw new Error('Scenario entity not found');
+                }
+
+                const balance = round((account?.amount ?? 0) + change.amount);
+                if (balance < 0) {
+                    throw new Error('Scenario would overdraw the cash account');
+                }
+
+                const before = account ? toEventValue(account) : null;
+                const after = {
+                    name: account?.name ?? DEFAULT_CASH_ACCOUNT_NAME,
+                    accountType: account?.accountType ?? CashAccountType.SAVINGS,
+                    amount: balance
+                };
+                emit(
+                    account ? ActionType.UPDATE : ActionType.CREATE,
+                    EntityType.CASH_SAVINGS,
+                    account?.id ?? nextEntityId(current.cashAccounts),
+                    before,
+                    after
+                );
+                break;
+            }
+        }
+    }
+
+    return { state: current, events };
+}
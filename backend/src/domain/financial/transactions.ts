@@ -0,0 +1,186 @@
+/**
+ * Transaction Ledger
+ *
+ * Income lines and expenses describe the plan - what a typical month should
+ * look like. Transactions record what actually happened on a given day. Each
+ * one moves money in or out, may be booked against a cash account, and may be
+ * linked to the income line or expense it realizes, so a month can be
+ * compared against its plan.
+ */
+
+import { toMonthlyAmount } from './frequency.js';
+import { UNCATEGORIZED } from './expenseCategories.js';
+
+export enum TransactionDirection {
+    INFLOW = 'INFLOW',
+    OUTFLOW = 'OUTFLOW'
+}
+
+export const TRANSACTION_DIRECTIONS = Object.values(TransactionDirection);
+
+export function isTransactionDirection(value: unknown): value is TransactionDirection {
+    return typeof value === 'string' && (TRANSACTION_DIRECTIONS as string[]).includes(value);
+}
+
+/**
+ * A transaction as seen by the reports; amounts are always positive
+ */
+export interface LedgerEntry {
+    date: Date;
+    amount: number;
+    direction: string;
+    incomeLineId?: number | null;
+    expenseId?: number | null;
+    categoryId?: number | null;
+    categoryPath?: string | null;
+}
+
+/**
+ * An income line or expense with its planned amount, in the reporting currency
+ */
+export interface PlannedLine {
+    id: number;
+    name: string;
+    amount: number;
+    frequency?: string | null;
+}
+
+export interface PlanVarianceLine {
+    id: number;
+    name: string;
+    planned: number;
+    actual: number;
+    variance: number;
+}
+
+export interface PlanVarianceSection {
+    lines: PlanVarianceLine[];
+    /** Actual amounts not linked to any planned line */
+    unplanned: number;
+    planned: number;
+    actual: number;
+    variance: number;
+}
+
+export interface MonthlyPlanVsActual {
+    month: string;
+    income: PlanVarianceSection;
+    expenses: PlanVarianceSection;
+    /** Outflows per category path, largest first */
+    spendingByCategory: Array<{ categoryPath: string; amount: number }>;
+    plannedCashflow: number;
+    actualCashflow: number;
+    variance: number;
+}
+
+const round = (amount: number) => Number(amount.toFixed(2));
+
+/**
+ * Effect of a transaction on cash: positive for inflows, negative for outflows
+ */
+export function signedAmount(entry: Pick<LedgerEntry, 'amount' | 'direction'>): number {
+    return entry.direction === TransactionDirection.INFLOW ? entry.amount : -entry.amount;
+}
+
+/**
+ * Net cashflow of a set of transactions, rounded to cents
+ */
+export function sumCashflow(entries: Iterable<Pick<LedgerEntry, 'amount' | 'direction'>>): number {
+    let total = 0;
+    for (const entry of entries) {
+        total += signedAmount(entry);
+    }
+    return round(total);
+}
+
+/**
+ * Net cashflow of the transactions dated after `from` and up to `to`
+ */
+export function sumCashflowBetween(entries: LedgerEntry[], from: Date, to: Date): number {
+    return sumCashflow(entries.filter(entry => entry.date > from && entry.date <= to));
+}
+
+export function isMonthKey(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/**
+ * First day of a YYYY-MM month and the first day of the month after it (UTC)
+ */
+export function getMonthRange(month: string): { start: Date; end: Date } {
+    const [year, monthNumber] = month.split('-').map(Number);
+    return {
+        start: new Date(Date.UTC(year!, monthNumber! - 1, 1)),
+        end: new Date(Date.UTC(year!, monthNumber!, 1))
+    };
+}
+
+function compareSection(
+    plannedLines: PlannedLine[],
+    entries: LedgerEntry[],
+    linkOf: (entry: LedgerEntry) => number | null | undefined
+): PlanVarianceSection {
+    const actualByLine = new Map<number, number>();
+    let unplanned = 0;
+
+    for (const entry of entries) {
+        const lineId = linkOf(entry);
+        if (lineId != null && plannedLines.some(line => line.id === lineId)) {
+            actualByLine.set(lineId, (actualByLine.get(lineId) ?? 0) + entry.amount);
+        } else {
+            unplanned += entry.amount;
+        }
+    }
+
+    const lines = plannedLines.map(line => {
+        const planned = round(toMonthlyAmount(line.amount, line.frequency));
+        const actual = round(actualByLine.get(line.id) ?? 0);
+        return { id: line.id, name: line.name, planned, actual, variance: round(actual - planned) };
+    });
+
+    const planned = round(lines.reduce((sum, line) => sum + line.planned, 0));
+    const actual = round(lines.reduce((sum, line) => sum + line.actual, 0) + unplanned);
+
+    return { lines, unplanned: round(unplanned), planned, actual, variance: round(actual - planned) };
+}
+
+/**
+ * Compare one month of transactions against the monthly statement
+ * Planned amounts are the monthly equivalents of the income lines and
+ * expenses. Inflows count against the income line they are linked to and
+ * outflows against their expense; anything unlinked is reported as unplanned.
+ * Every variance is actual minus planned.
+ * @param entries - Transactions dated within the month
+ */
+export function comparePlanToActual(
+    month: string,
+    entries: LedgerEntry[],
+    incomeLines: PlannedLine[],
+    expenses: PlannedLine[]
+): MonthlyPlanVsActual {
+    const inflows = entries.filter(entry => entry.direction === TransactionDirection.INFLOW);
+    const outflows = entries.filter(entry => entry.direction !== TransactionDirection.INFLOW);
+
+    const income = compareSection(incomeLines, inflows, entry => entry.incomeLineId);
+    const spending = compareSection(expenses, outflows, entry => entry.expenseId);
+
+    const byCategory = new Map<string, number>();
+    for (const entry of outflows) {
+        const categoryPath = entry.categoryPath ?? UNCATEGORIZED;
+        byCategory.set(categoryPath, (byCategory.get(categoryPath) ?? 0) + entry.amount);
+    }
+
+    const plannedCashflow = round(income.planned - spending.planned);
+    const actualCashflow = round(income.actual - spending.actual);
+
+    return {
+        month,
+        income,
+        expenses: spending,
+        spendingByCategory: Array.from(byCategory, ([categoryPath, amount]) => ({ categoryPath, amount: round(amount) }))
+            .sort((a, b) => b.amount - a.amount),
+        plannedCashflow,
+        actualCashflow,
+        variance: round(actualCashflow - plannedCashflow)
+    };
+}
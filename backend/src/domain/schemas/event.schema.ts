@@ -7,6 +7,11 @@
 
 import { z } from 'zod';
 import { EntityType } from '../../types/event.types.js';
+import { Frequency } from '../financial/frequency.js';
+import { ExpenseClassification } from '../financial/expenseCategories.js';
+import { AssetClass, LiquidityTier } from '../financial/assetClasses.js';
+import { CashAccountType } from '../financial/cashAccounts.js';
+import { BudgetRollover } from '../financial/budgets.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Decimal-compatible number schema
@@ -26,46 +31,118 @@ const monetaryValueSchema = z.union([
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * Asset event payload: { name, value }
+ * Native currency of an entity, null when it is held in the preferred currency
+ * Optional so events recorded before per-entity currencies existed still validate
+ */
+const currencyIdSchema = z.number().int().positive().optional().nullable();
+
+/**
+ * Asset event payload: { name, value, assetClass?, liquidity?, currencyId? }
+ * Class and liquidity are optional so events recorded before they existed still validate
  */
 export const AssetEventDataSchema = z.object({
     name: z.string().min(1, 'Asset name is required'),
     value: monetaryValueSchema,
+    assetClass: z.enum(AssetClass).optional(),
+    liquidity: z.enum(LiquidityTier).optional(),
+    currencyId: currencyIdSchema,
 });
 
 /**
- * Liability event payload: { name, value }
+ * Asset a liability secures, or an income or expense line is attributed to
+ * Optional so events recorded before asset links existed still validate
+ */
+const assetIdSchema = z.number().int().positive().optional().nullable();
+
+/**
+ * Liability event payload: { name, value, interestRate?, minimumPayment?, termMonths?, startDate?, assetId?, currencyId? }
+ * Loan terms are optional and nullable; most liabilities have none
  */
 export const LiabilityEventDataSchema = z.object({
     name: z.string().min(1, 'Liability name is required'),
     value: monetaryValueSchema,
+    interestRate: monetaryValueSchema.nullable().optional(),
+    minimumPayment: monetaryValueSchema.nullable().optional(),
+    termMonths: z.number().int().positive().nullable().optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Start date must be YYYY-MM-DD').nullable().optional(),
+    assetId: assetIdSchema,
+    currencyId: currencyIdSchema,
 });
 
 /**
- * Expense event payload: { name, amount }
+ * Recurrence of an income or expense amount
+ * Optional so events recorded before frequencies existed still validate (treated as monthly)
+ */
+const frequencySchema = z.enum(Frequency).optional();
+
+/**
+ * First or last active day of an income or expense line, YYYY-MM-DD; null when unbounded
+ * Optional so events recorded before active periods existed still validate
+ */
+const activeDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Active dates must be YYYY-MM-DD')
+    .refine(value => !isNaN(new Date(value).getTime()), 'Active dates must be valid dates')
+    .optional()
+    .nullable();
+
+/**
+ * Expense event payload: { name, amount, frequency?, categoryId?, categoryPath?, classification?, assetId?, liabilityId?, currencyId?, activeFrom?, activeUntil? }
+ * The category path and classification are copied onto the event so historical
+ * breakdowns keep the names that applied at the time
  */
 export const ExpenseEventDataSchema = z.object({
     name: z.string().min(1, 'Expense name is required'),
     amount: monetaryValueSchema,
+    frequency: frequencySchema,
+    categoryId: z.number().int().positive().optional().nullable(),
+    categoryPath: z.string().optional().nullable(),
+    classification: z.enum(ExpenseClassification).optional().nullable(),
+    assetId: assetIdSchema,
+    /** Loan the expense pays; optional so events recorded before the link existed still validate */
+    liabilityId: z.number().int().positive().optional().nullable(),
+    currencyId: currencyIdSchema,
+    activeFrom: activeDateSchema,
+    activeUntil: activeDateSchema,
 });
 
 /**
- * Income event payload: { name, amount, type, quadrant? }
+ * Income event payload: { name, amount, type, quadrant?, frequency?, assetId?, currencyId?, activeFrom?, activeUntil? }
  */
 export const IncomeEventDataSchema = z.object({
     name: z.string().min(1, 'Income name is required'),
     amount: monetaryValueSchema,
     type: z.string().min(1, 'Income type is required'),
     quadrant: z.string().optional().nullable(),
+    frequency: frequencySchema,
+    assetId: assetIdSchema,
+    currencyId: currencyIdSchema,
+    activeFrom: activeDateSchema,
+    activeUntil: activeDateSchema,
 });
 
 /**
- * Cash Savings event payload: { amount }
+ * Cash account event payload: { name?, accountType?, amount }
+ * Name and type are optional so events recorded before cash accounts existed still validate
  */
 export const CashSavingsEventDataSchema = z.object({
+    name: z.string().min(1, 'Cash account name is required').optional(),
+    accountType: z.enum(CashAccountType).optional(),
     amount: monetaryValueSchema,
 });
 
+/**
+ * Budget event payload: { expenseId | categoryId, monthlyLimit, rollover }
+ */
+export const BudgetEventDataSchema = z.object({
+    expenseId: z.number().int().positive().nullable(),
+    categoryId: z.number().int().positive().nullable(),
+    monthlyLimit: monetaryValueSchema,
+    rollover: z.enum(BudgetRollover),
+}).refine(
+    (budget) => (budget.expenseId === null) !== (budget.categoryId === null),
+    'A budget covers either one expense or one category'
+);
+
 /**
  * User event payload: flexible for preference changes
  */
@@ -85,6 +162,7 @@ const eventDataSchemaMap: Record<EntityType, z.ZodSchema> = {
     [EntityType.EXPENSE]: ExpenseEventDataSchema,
     [EntityType.INCOME]: IncomeEventDataSchema,
     [EntityType.CASH_SAVINGS]: CashSavingsEventDataSchema,
+    [EntityType.BUDGET]: BudgetEventDataSchema,
     [EntityType.USER]: UserEventDataSchema,
 };
 
@@ -0,0 +1,45 @@
+/**
+ * Projection Validation Schemas
+ *
+ * Zod schema for the assumptions of a Monte Carlo projection, read from query
+ * parameters. Omitted assumptions take their defaults.
+ */
+
+import { z } from 'zod';
+import {
+    DEFAULT_PROJECTION_ASSUMPTIONS,
+    MAX_PROJECTION_SIMULATIONS,
+    MAX_PROJECTION_YEARS,
+    ProjectionAssumptions
+} from '../financial/projection.js';
+
+const percentSchema = (min: number, max: number) => z.coerce.number().min(min).max(max);
+
+export const ProjectionAssumptionsSchema = z.object({
+    expectedReturn: percentSchema(-50, 50).default(DEFAULT_PROJECTION_ASSUMPTIONS.expectedReturn),
+    volatility: percentSchema(0, 100).default(DEFAULT_PROJECTION_ASSUMPTIONS.volatility),
+    inflation: percentSchema(-10, 50).default(DEFAULT_PROJECTION_ASSUMPTIONS.inflation),
+    incomeGrowth: percentSchema(-50, 50).default(DEFAULT_PROJECTION_ASSUMPTIONS.incomeGrowth),
+    incomeYield: percentSchema(0, 50).default(DEFAULT_PROJECTION_ASSUMPTIONS.incomeYield),
+    years: z.coerce.number().int().min(1).max(MAX_PROJECTION_YEARS).default(DEFAULT_PROJECTION_ASSUMPTIONS.years),
+    simulations: z.coerce.number().int().min(1).max(MAX_PROJECTION_SIMULATIONS)
+        .default(DEFAULT_PROJECTION_ASSUMPTIONS.simulations),
+    seed: z.coerce.number().int().min(0).default(DEFAULT_PROJECTION_ASSUMPTIONS.seed)
+});
+
+/**
+ * Validate projection assumptions, filling in defaults
+ * @throws descriptive error when an assumption is out of range
+ */
+export function parseProjectionAssumptions(payload: unknown): ProjectionAssumptions {
+    const result = ProjectionAssumptionsSchema.safeParse(payload);
+
+    if (!result.success) {
+        const errorMessages = result.error.issues
+            .map((err: z.ZodIssue) => `${err.path.join('.')}: ${err.message}`)
+            .join('; ');
+        throw new Error(`Invalid projection assumptions: ${errorMessages}`);
+    }
+
+    return result.data;
+}
@@ -0,0 +1,129 @@
+/**
+ * Scenario Validation Schemas
+ *
+ * Zod schemas for the hypothetical changes of a what-if scenario. New
+ * entities are checked against their event payload schemas, with amounts
+ * required as plain numbers.
+ */
+
+import { z } from 'zod';
+import { EntityType } from '../../types/event.types.js';
+import { ScenarioChange, ScenarioChangeType } from '../financial/scenarios.js';
+import {
+    AssetEventDataSchema,
+    ExpenseEventDataSchema,
+    IncomeEventDataSchema,
+    LiabilityEventDataSchema
+} from './event.schema.js';
+
+/** Upper bound on changes per scenario */
+export const MAX_SCENARIO_CHANGES = 50;
+
+const amountSchema = z.number().nonnegative();
+const idSchema = z.number().int().positive();
+const refSchema = z.string().min(1).max(50);
+
+const scenarioEntityTypeSchema = z.enum([
+    EntityType.ASSET,
+    EntityType.LIABILITY,
+    EntityType.INCOME,
+    EntityType.EXPENSE
+]);
+
+/**
+ * Payload of a new entity per type; currency, category path and
+ * classification are filled in by the simulation
+ */
+const addDataSchemaMap: Record<z.infer<typeof scenarioEntityTypeSchema>, z.ZodSchema> = {
+    [EntityType.ASSET]: AssetEventDataSchema.omit({ currencyId: true }).extend({ value: amountSchema }),
+    [EntityType.LIABILITY]: LiabilityEventDataSchema.omit({ currencyId: true }).extend({
+        value: amountSchema,
+        interestRate: amountSchema.nullable().optional(),
+        minimumPayment: amountSchema.nullable().optional()
+    }),
+    [EntityType.INCOME]: IncomeEventDataSchema.omit({ currencyId: true }).extend({
+        amount: amountSchema,
+        type: z.enum(['Earned', 'Portfolio', 'Passive'])
+    }),
+    [EntityType.EXPENSE]: ExpenseEventDataSchema
+        .omit({ currencyId: true, categoryPath: true, classification: true })
+        .extend({ amount: amountSchema })
+};
+
+const ScenarioChangeSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal(ScenarioChangeType.ADD),
+        entityType: scenarioEntityTypeSchema,
+        ref: refSchema.optional(),
+        assetRef: refSchema.optional(),
+        data: z.record(z.string(), z.unknown())
+    }),
+    z.object({
+        type: z.literal(ScenarioChangeType.REMOVE),
+        entityType: scenarioEntityTypeSchema,
+        entityId: idSchema
+    }),
+    z.object({
+        type: z.literal(ScenarioChangeType.SCALE),
+        entityType: scenarioEntityTypeSchema,
+        entityId: idSchema.optional(),
+        categoryId: idSchema.optional(),
+        factor: z.number().nonnegative().max(100)
+    }),
+    z.object({
+        type: z.literal(ScenarioChangeType.ADJUST_CASH),
+        amount: z.number().refine(Number.isFinite, 'Must be a finite number'),
+        cashAccountId: idSchema.optional()
+    })
+]);
+
+export const ScenarioSchema = z.object({
+    changes: z.array(ScenarioChangeSchema).min(1, 'At least one change is required').max(MAX_SCENARIO_CHANGES)
+}).superRefine((scenario, ctx) => {
+    scenario.changes.forEach((change, index) => {
+        const path = ['changes', index];
+
+        if (change.type === ScenarioChangeType.ADD) {
+            if (change.ref !== undefined && change.entityType !== EntityType.ASSET) {
+                ctx.addIssue({ code: 'custom', path: [...path, 'ref'], message: 'Only new assets can be referenced' });
+            }
+            if (change.assetRef !== undefined && change.entityType === EntityType.ASSET) {
+                ctx.addIssue({ code: 'custom', path: [...path, 'assetRef'], message: 'An asset cannot be linked to another asset' });
+            }
+
+            const result = addDataSchemaMap[change.entityType].safeParse(change.data);
+            if (!result.success) {
+                result.error.issues.forEach(issue => ctx.addIssue({
+                    code: 'custom',
+                    path: [...path, 'data', ...issue.path],
+                    message: issue.message
+                }));
+            }
+        }
+
+        if (change.type === ScenarioChangeType.SCALE) {
+            if ((change.entityId === undefined) === (change.categoryId === undefined)) {
+                ctx.addIssue({ code: 'custom', path, message: 'Scale either one entity or one category' });
+            } else if (change.categoryId !== undefined && change.entityType !== EntityType.EXPENSE) {
+                ctx.addIssue({ code: 'custom', path: [...path, 'categoryId'], message: 'Only expenses can be scaled by category' });
+            }
+        }
+    });
+});
+
+/**
+ * Validate the changes of a scenario request
+ * @throws descriptive error when the payload is not a valid scenario
+ */
+export function parseScenarioChanges(payload: unknown): ScenarioChange[] {
+    const result = ScenarioSchema.safeParse(payload);
+
+    if (!result.success) {
+        const errorMessages = result.error.issues
+            .map((err: z.ZodIssue) => `${err.path.join('.')}: ${err.message}`)
+            .join('; ');
+        throw new Error(`Invalid scenario: ${errorMessages}`);
+    }
+
+    return result.data.changes as ScenarioChange[];
+}
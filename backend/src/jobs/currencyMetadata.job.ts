@@ -0,0 +1,31 @@
+/**
+ * Currency Metadata Job
+ *
+ * Sets the ISO code, minor units and locale of seeded currencies that have
+ * none, for databases created with db push instead of the migrations.
+ * Usage: npm run job:currency-metadata
+ * Exits with code 1 when a currency could not be matched.
+ */
+
+import prisma from '../config/database.config.js';
+import { backfillCurrencyMetadata } from '../services/currency.service.js';
+
+async function main() {
+  const result = await backfillCurrencyMetadata();
+
+  for (const currency of result.unmatched) {
+    console.log(`Currency ${currency.id} (${currency.cur_name}, ${currency.cur_symbol}) not updated: ${currency.reason}`);
+  }
+
+  console.log(`Updated ${result.updated} currencies, ${result.unmatched.length} unmatched`);
+
+  return result.unmatched.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error('Currency metadata job error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,31 @@
+/**
+ * Expiry Job
+ *
+ * Removes every income line and expense whose last active day has passed,
+ * for deployments that run it from cron instead of the in-server scheduler.
+ * Usage: npm run job:expiry
+ * Exits with code 1 when a line could not be removed.
+ */
+
+import prisma from '../config/database.config.js';
+import { expireEndedLines } from '../services/expiry.service.js';
+
+async function main() {
+  const result = await expireEndedLines();
+
+  for (const item of result.failed) {
+    console.log(`${item.entityType} ${item.entityId} (user ${item.userId}) failed: ${item.error}`);
+  }
+
+  console.log(`Expired ${result.expired} line(s), ${result.failed.length} failed`);
+
+  return result.failed.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error('Expiry job error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
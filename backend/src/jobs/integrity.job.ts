@@ -0,0 +1,44 @@
+/**
+ * Integrity Job
+ *
+ * Verifies every user's event stream against the live financial tables.
+ * Usage: npm run job:integrity [-- --repair]
+ * Exits with code 1 when drift remains or a user could not be checked.
+ */
+
+import prisma from '../config/database.config.js';
+import { verifyAllUsersIntegrity } from '../services/integrity.service.js';
+
+async function main() {
+  const repair = process.argv.includes('--repair');
+  const result = await verifyAllUsersIntegrity({ repair });
+
+  for (const report of result.reports) {
+    if (!report.consistent) {
+      console.log(
+        `User ${report.userId}: ${report.drift.length} drift item(s)` +
+        ` (missing in events: ${report.summary.MISSING_IN_EVENTS},` +
+        ` missing in live: ${report.summary.MISSING_IN_LIVE},` +
+        ` mismatched: ${report.summary.VALUE_MISMATCH})` +
+        (repair ? `, ${report.repaired} compensating event(s) written` : '')
+      );
+    }
+  }
+
+  console.log(
+    `Checked ${result.usersChecked} user(s): ${result.inconsistentUsers} inconsistent, ` +
+    `${result.failedUsers.length} failed` +
+    (repair ? `, ${result.repairedEvents} compensating event(s) written` : '')
+  );
+
+  const unresolved = repair ? 0 : result.inconsistentUsers;
+  return unresolved > 0 || result.failedUsers.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error('Integrity job error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
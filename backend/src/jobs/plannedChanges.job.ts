@@ -0,0 +1,31 @@
+/**
+ * Planned Changes Job
+ *
+ * Records every planned change whose date has arrived as real events, for
+ * deployments that run it from cron instead of the in-server scheduler.
+ * Usage: npm run job:planned-changes
+ * Exits with code 1 when a change could not be applied.
+ */
+
+import prisma from '../config/database.config.js';
+import { materializeDuePlannedChanges } from '../services/plannedChange.service.js';
+
+async function main() {
+  const result = await materializeDuePlannedChanges();
+
+  for (const item of result.failed) {
+    console.log(`Planned change ${item.id} (user ${item.userId}) failed: ${item.error}`);
+  }
+
+  console.log(`Applied ${result.applied} planned change(s), ${result.failed.length} failed`);
+
+  return result.failed.length > 0 ? 1 : 0;
+}
+
+main()
+  .then(code => { process.exitCode = code; })
+  .catch(error => {
+    console.error('Planned changes job error:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
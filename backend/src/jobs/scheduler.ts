@@ -0,0 +1,70 @@
+/**
+ * Background Scheduler
+ *
+ * Runs inside the API server: runs every registered job on start, then once
+ * an hour. A run that is still going when the next one is due is not
+ * overlapped, and a job that throws does not stop the ones after it. Each job
+ * must be safe to run from several servers at once.
+ */
+
+import { materializeDuePlannedChanges } from '../services/plannedChange.service.js';
+import { expireEndedLines } from '../services/expiry.service.js';
+
+const INTERVAL_MS = 60 * 60 * 1000;
+
+interface ScheduledJob {
+  name: string;
+  /** Runs one batch; returns a summary to log, or null when there was nothing to do */
+  run: () => Promise<string | null>;
+}
+
+const JOBS: ScheduledJob[] = [
+  {
+    // The service claims each change, so it is only applied once
+    name: 'Planned changes',
+    run: async () => {
+      const result = await materializeDuePlannedChanges();
+      return result.applied > 0 || result.failed.length > 0
+        ? `${result.applied} applied, ${result.failed.length} failed`
+        : null;
+    }
+  },
+  {
+    // A line already deleted in the meantime is skipped
+    name: 'Ended lines',
+    run: async () => {
+      const result = await expireEndedLines();
+      return result.expired > 0 || result.failed.length > 0
+        ? `${result.expired} expired, ${result.failed.length} failed`
+        : null;
+    }
+  }
+];
+
+export function startScheduler(intervalMs: number = INTERVAL_MS): NodeJS.Timeout {
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+
+    for (const job of JOBS) {
+      try {
+        const summary = await job.run();
+        if (summary) {
+          console.log(`[scheduler] ${job.name}: ${summary}`);
+        }
+      } catch (error) {
+        console.error(`${job.name} scheduler error:`, error);
+      }
+    }
+
+    running = false;
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  // The schedule alone never keeps the process alive
+  timer.unref();
+  return timer;
+}
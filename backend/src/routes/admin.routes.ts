@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { getUsers, getUser, deleteUser, getUserFinancials } from '../controllers/admin.controller.js';
+import { getUsers, getUser, deleteUser, getUserFinancials, rebuildUserSnapshots, getUserIntegrity, repairUserIntegrity, verifyAllIntegrity } from '../controllers/admin.controller.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
 
 const router = Router();
@@ -25,6 +25,34 @@ router.get('/users/:id', authenticateToken, requireAdmin, getUser);
  */
 router.get('/users/:id/financial', authenticateToken, requireAdmin, getUserFinancials);
 
+/**
+ * @route POST /api/admin/users/:id/snapshots/rebuild
+ * @desc Recompute a user's monthly checkpoints from the event stream
+ * @access Private (Admin only)
+ */
+router.post('/users/:id/snapshots/rebuild', authenticateToken, requireAdmin, rebuildUserSnapshots);
+
+/**
+ * @route GET /api/admin/users/:id/integrity
+ * @desc Diff a user's replayed event stream against the live financial tables
+ * @access Private (Admin only)
+ */
+router.get('/users/:id/integrity', authenticateToken, requireAdmin, getUserIntegrity);
+
+/**
+ * @route POST /api/admin/users/:id/integrity/repair
+ * @desc Write compensating events for any drift found in a user's event stream
+ * @access Private (Admin only)
+ */
+router.post('/users/:id/integrity/repair', authenticateToken, requireAdmin, repairUserIntegrity);
+
+/**
+ * @route POST /api/admin/integrity
+ * @desc Run the integrity check for all users (body: { repair?: boolean })
+ * @access Private (Admin only)
+ */
+router.post('/integrity', authenticateToken, requireAdmin, verifyAllIntegrity);
+
 /**
  * @route DELETE /api/admin/users/:id
  * @desc Delete a user by ID
@@ -1,23 +1,37 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth.middleware.js';
-import { getFinancialSnapshotHandler, getFinancialTrajectoryHandler, createSnapshotHandler } from '../controllers/analysis.controller.js';
+import {
+  getFinancialSnapshotHandler,
+  getFinancialTrajectoryHandler,
+  createSnapshotHandler,
+  rebuildSnapshotsHandler,
+  simulateScenarioHandler,
+  getProjectionHandler
+} from '../controllers/analysis.controller.js';
 
 const router = Router();
 
 /**
  * @route GET /api/analysis/snapshot
- * @desc Get financial snapshot for a specific date
+ * @desc Get financial snapshot for a specific date (later dates include pending planned changes), optionally in another currency (?currencyId=) or in real terms (?real=true&baseYear=)
  * @access Private
  */
 router.get('/snapshot', authenticateToken, getFinancialSnapshotHandler);
 
 /**
  * @route GET /api/analysis/trajectory
- * @desc Get financial trajectory over time for velocity and freedom gap visualization
+ * @desc Get financial trajectory over time for velocity and freedom gap visualization, following planned changes past today, in one currency throughout, optionally in real terms (?real=true&baseYear=)
  * @access Private
  */
 router.get('/trajectory', authenticateToken, getFinancialTrajectoryHandler);
 
+/**
+ * @route GET /api/analysis/projection
+ * @desc Monte Carlo projection of net worth, passive income and freedom probability under configurable assumptions
+ * @access Private
+ */
+router.get('/projection', authenticateToken, getProjectionHandler);
+
 /**
  * @route POST /api/analysis/snapshot
  * @desc Manually trigger a financial snapshot creation
@@ -25,4 +39,18 @@ router.get('/trajectory', authenticateToken, getFinancialTrajectoryHandler);
  */
 router.post('/snapshot', authenticateToken, createSnapshotHandler);
 
+/**
+ * @route POST /api/analysis/snapshots/rebuild
+ * @desc Recompute all monthly checkpoints from the event stream and report changed months
+ * @access Private
+ */
+router.post('/snapshots/rebuild', authenticateToken, rebuildSnapshotsHandler);
+
+/**
+ * @route POST /api/analysis/scenario
+ * @desc Simulate hypothetical changes on the current state and compare snapshots before and after, without saving them
+ * @access Private
+ */
+router.post('/scenario', authenticateToken, simulateScenarioHandler);
+
 export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { signup, login, refreshToken, logout, logoutAll, getProfile, updateUsernameHandler, updateEmailHandler, updatePasswordHandler } from '../controllers/auth.controller.js';
+import { signup, login, refreshToken, logout, logoutAll, getProfile, updateUsernameHandler, updateEmailHandler, updatePasswordHandler, updateLocaleHandler } from '../controllers/auth.controller.js';
 import { validateSignup, validateLogin } from '../middleware/validation.middleware.js';
 import { signupLimiter, loginLimiter } from '../middleware/rateLimit.middleware.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
@@ -67,6 +67,13 @@ router.put('/username', authenticateToken, updateUsernameHandler);
  */
 router.put('/email', authenticateToken, updateEmailHandler);
 
+/**
+ * @route PUT /api/auth/locale
+ * @desc Update current user's number locale (null follows each currency's locale)
+ * @access Private
+ */
+router.put('/locale', authenticateToken, updateLocaleHandler);
+
 /**
  * @route PUT /api/auth/password
  * @desc Update current user's password
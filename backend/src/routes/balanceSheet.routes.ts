@@ -9,7 +9,8 @@ import {
   getLiabilitiesHandler,
   addLiabilityHandler,
   updateLiabilityHandler,
-  deleteLiabilityHandler
+  deleteLiabilityHandler,
+  getLiabilityScheduleHandler
 } from '../controllers/balanceSheet.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
 
@@ -30,5 +31,6 @@ router.get('/liabilities', authenticateToken, getLiabilitiesHandler);
 router.post('/liabilities', authenticateToken, addLiabilityHandler);
 router.put('/liabilities/:id', authenticateToken, updateLiabilityHandler);
 router.delete('/liabilities/:id', authenticateToken, deleteLiabilityHandler);
+router.get('/liabilities/:id/schedule', authenticateToken, getLiabilityScheduleHandler);
 
 export default router;
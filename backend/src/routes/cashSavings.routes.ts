@@ -1,5 +1,11 @@
 import { Router } from 'express';
-import { getCashSavingsHandler, updateCashSavingsHandler } from '../controllers/cashSavings.controller.js';
+import {
+  getCashSavingsHandler,
+  updateCashSavingsHandler,
+  addCashAccountHandler,
+  updateCashAccountHandler,
+  deleteCashAccountHandler
+} from '../controllers/cashSavings.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
 
 const router = Router();
@@ -9,10 +15,19 @@ const router = Router();
  * All routes require authentication
  */
 
-// GET /api/cash-savings - Get cash savings for authenticated user
+// GET /api/cash-savings - Get the cash total and every cash account
 router.get('/', authenticateToken, getCashSavingsHandler);
 
-// PUT /api/cash-savings - Update cash savings amount
+// PUT /api/cash-savings - Update the default cash account's balance
 router.put('/', authenticateToken, updateCashSavingsHandler);
 
+// POST /api/cash-savings/accounts - Add a cash account
+router.post('/accounts', authenticateToken, addCashAccountHandler);
+
+// PUT /api/cash-savings/accounts/:id - Update a cash account
+router.put('/accounts/:id', authenticateToken, updateCashAccountHandler);
+
+// DELETE /api/cash-savings/accounts/:id - Delete a cash account
+router.delete('/accounts/:id', authenticateToken, deleteCashAccountHandler);
+
 export default router;
@@ -1,6 +1,6 @@
 import express from 'express';
 import * as currencyController from '../controllers/currency.controller.js';
-import { authenticateToken } from '../middleware/auth.middleware.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware.js';
 
 const router = express.Router();
 
@@ -18,8 +18,50 @@ router.get('/user', authenticateToken, currencyController.getUserPreferredCurren
 
 /**
  * PUT /api/currency/user
- * Update user's preferred currency
+ * Update user's preferred currency, optionally converting amounts held in the old one
  */
 router.put('/user', authenticateToken, currencyController.updateUserPreferredCurrency);
 
+/**
+ * GET /api/currency/user/conversion-preview
+ * Preview the amounts converting to a new preferred currency would change
+ */
+router.get('/user/conversion-preview', authenticateToken, currencyController.getCurrencyConversionPreview);
+
+/**
+ * GET /api/currency/rates
+ * Get exchange rates used to convert entity amounts to the preferred currency
+ */
+router.get('/rates', authenticateToken, currencyController.getExchangeRates);
+
+/**
+ * GET /api/currency/rates/history
+ * Get the dated exchange rate history used for past states
+ */
+router.get('/rates/history', authenticateToken, currencyController.getExchangeRateHistory);
+
+/**
+ * PUT /api/currency/rates
+ * Record exchange rates, today or on a past date (admin only)
+ */
+router.put('/rates', authenticateToken, requireAdmin, currencyController.updateExchangeRates);
+
+/**
+ * POST /api/currency/rates/import
+ * Import exchange rates from CSV (admin only)
+ */
+router.post('/rates/import', authenticateToken, requireAdmin, currencyController.importExchangeRates);
+
+/**
+ * GET /api/currency/inflation
+ * Get the price index used to restate amounts in real terms
+ */
+router.get('/inflation', authenticateToken, currencyController.getInflationIndex);
+
+/**
+ * POST /api/currency/inflation/import
+ * Import price index values from CSV (admin only)
+ */
+router.post('/inflation/import', authenticateToken, requireAdmin, currencyController.importInflationIndex);
+
 export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  compareDebtPayoffHandler,
+  saveDebtPayoffPlanHandler
+} from '../controllers/debtPayoff.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All debt payoff routes require authentication
+router.use(authenticateToken);
+
+// GET /api/debt-payoff - Compare payoff strategies across all liabilities
+router.get('/', compareDebtPayoffHandler);
+
+// PUT /api/debt-payoff/plan - Save the chosen strategy and extra payment
+router.put('/plan', saveDebtPayoffPlanHandler);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import {
   getEventsHandler,
   getEntityEventsHandler,
+  previewRevertHandler,
+  revertEventHandler,
   blockEventUpdate,
   blockEventDelete
 } from '../controllers/event.controller.js';
@@ -21,6 +23,18 @@ router.use(authenticateToken);
  */
 router.get('/', getEventsHandler);
 
+/**
+ * GET /api/events/:id/revert/preview
+ * Show what reverting an event would change without applying it
+ */
+router.get('/:id/revert/preview', previewRevertHandler);
+
+/**
+ * POST /api/events/:id/revert
+ * Undo an event by applying its beforeValue and logging a linked compensating event
+ */
+router.post('/:id/revert', revertEventHandler);
+
 /**
  * GET /api/events/:entityType/:entityId
  * Get all events for a specific entity
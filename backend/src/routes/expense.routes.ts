@@ -3,7 +3,13 @@ import {
   getExpensesHandler,
   addExpenseHandler,
   updateExpenseHandler,
-  deleteExpenseHandler
+  deleteExpenseHandler,
+  getBudgetsHandler,
+  addBudgetHandler,
+  updateBudgetHandler,
+  deleteBudgetHandler,
+  getBudgetReportHandler,
+  getBudgetHistoryHandler
 } from '../controllers/expense.controller.js';
 import { authenticateToken } from '../middleware/auth.middleware.js';
 
@@ -18,6 +24,24 @@ router.get('/', getExpensesHandler);
 // POST /api/expenses - Add new expense
 router.post('/', addExpenseHandler);
 
+// GET /api/expenses/budgets - Get all budgets
+router.get('/budgets', getBudgetsHandler);
+
+// GET /api/expenses/budgets/report - Budget vs planned vs actual for one month
+router.get('/budgets/report', getBudgetReportHandler);
+
+// GET /api/expenses/budgets/history - Monthly budget reports up to the current month
+router.get('/budgets/history', getBudgetHistoryHandler);
+
+// POST /api/expenses/budgets - Add a budget
+router.post('/budgets', addBudgetHandler);
+
+// PUT /api/expenses/budgets/:id - Update a budget
+router.put('/budgets/:id', updateBudgetHandler);
+
+// DELETE /api/expenses/budgets/:id - Delete a budget
+router.delete('/budgets/:id', deleteBudgetHandler);
+
 // PUT /api/expenses/:id - Update expense
 router.put('/:id', updateExpenseHandler);
 
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+  getExpenseCategoriesHandler,
+  addExpenseCategoryHandler,
+  updateExpenseCategoryHandler,
+  deleteExpenseCategoryHandler
+} from '../controllers/expenseCategory.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All expense category routes require authentication
+router.use(authenticateToken);
+
+// GET /api/expense-categories - Get all categories (seeds defaults on first use)
+router.get('/', getExpenseCategoriesHandler);
+
+// POST /api/expense-categories - Add new category
+router.post('/', addExpenseCategoryHandler);
+
+// PUT /api/expense-categories/:id - Rename, move or reclassify a category
+router.put('/:id', updateExpenseCategoryHandler);
+
+// DELETE /api/expense-categories/:id - Delete an unused category
+router.delete('/:id', deleteExpenseCategoryHandler);
+
+export default router;
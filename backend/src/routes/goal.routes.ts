@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getGoalsHandler,
+  getGoalProgressHandler,
+  addGoalHandler,
+  updateGoalHandler,
+  deleteGoalHandler
+} from '../controllers/goal.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All goal routes require authentication
+router.use(authenticateToken);
+
+// GET /api/goals - Get all goals
+router.get('/', getGoalsHandler);
+
+// GET /api/goals/progress - Progress, projection and required contribution per goal
+router.get('/progress', getGoalProgressHandler);
+
+// POST /api/goals - Add a goal
+router.post('/', addGoalHandler);
+
+// PUT /api/goals/:id - Update a goal
+router.put('/:id', updateGoalHandler);
+
+// DELETE /api/goals/:id - Delete a goal
+router.delete('/:id', deleteGoalHandler);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import {
+  getPlannedChangesHandler,
+  addPlannedChangeHandler,
+  deletePlannedChangeHandler
+} from '../controllers/plannedChange.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All planned change routes require authentication
+router.use(authenticateToken);
+
+// GET /api/planned-changes - Get all planned changes, pending and past
+router.get('/', getPlannedChangesHandler);
+
+// POST /api/planned-changes - Schedule changes for a future date
+router.post('/', addPlannedChangeHandler);
+
+// DELETE /api/planned-changes/:id - Delete a pending or failed planned change
+router.delete('/:id', deletePlannedChangeHandler);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import {
+  getBranchesHandler,
+  getBranchHandler,
+  addBranchHandler,
+  updateBranchHandler,
+  deleteBranchHandler,
+  addBranchChangesHandler,
+  deleteBranchEventHandler,
+  getBranchTrajectoryHandler
+} from '../controllers/scenarioBranch.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All scenario branch routes require authentication
+router.use(authenticateToken);
+
+// GET /api/scenario-branches - Get all scenario branches
+router.get('/', getBranchesHandler);
+
+// POST /api/scenario-branches - Create a branch forking the event stream at a date
+router.post('/', addBranchHandler);
+
+// GET /api/scenario-branches/:id - Get a branch with its events
+router.get('/:id', getBranchHandler);
+
+// PUT /api/scenario-branches/:id - Rename a branch
+router.put('/:id', updateBranchHandler);
+
+// DELETE /api/scenario-branches/:id - Delete a branch and its events
+router.delete('/:id', deleteBranchHandler);
+
+// POST /api/scenario-branches/:id/changes - Record hypothetical changes on a branch
+router.post('/:id/changes', addBranchChangesHandler);
+
+// DELETE /api/scenario-branches/:id/events/:eventId - Delete one branch event
+router.delete('/:id/events/:eventId', deleteBranchEventHandler);
+
+// GET /api/scenario-branches/:id/trajectory - Branch trajectory next to reality
+router.get('/:id/trajectory', getBranchTrajectoryHandler);
+
+export default router;
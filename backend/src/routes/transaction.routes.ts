@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import {
+  getTransactionsHandler,
+  addTransactionHandler,
+  updateTransactionHandler,
+  deleteTransactionHandler,
+  getPlanVsActualHandler
+} from '../controllers/transaction.controller.js';
+import { authenticateToken } from '../middleware/auth.middleware.js';
+
+const router = Router();
+
+// All transaction routes require authentication
+router.use(authenticateToken);
+
+// GET /api/transactions - List transactions, newest first
+router.get('/', getTransactionsHandler);
+
+// GET /api/transactions/plan-vs-actual - Compare a month against the monthly statement
+router.get('/plan-vs-actual', getPlanVsActualHandler);
+
+// POST /api/transactions - Record a transaction
+router.post('/', addTransactionHandler);
+
+// PUT /api/transactions/:id - Update a transaction
+router.put('/:id', updateTransactionHandler);
+
+// DELETE /api/transactions/:id - Delete a transaction
+router.delete('/:id', deleteTransactionHandler);
+
+export default router;
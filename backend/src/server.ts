@@ -7,6 +7,12 @@ import authRoutes from './routes/auth.routes.js';
 import cashSavingsRoutes from './routes/cashSavings.routes.js';
 import incomeRoutes from './routes/income.routes.js';
 import expenseRoutes from './routes/expense.routes.js';
+import expenseCategoryRoutes from './routes/expenseCategory.routes.js';
+import debtPayoffRoutes from './routes/debtPayoff.routes.js';
+import transactionRoutes from './routes/transaction.routes.js';
+import goalRoutes from './routes/goal.routes.js';
+import scenarioBranchRoutes from './routes/scenarioBranch.routes.js';
+import plannedChangeRoutes from './routes/plannedChange.routes.js';
 import aiRoutes from './routes/ai.routes.js';
 import balanceSheetRoutes from './routes/balanceSheet.routes.js';
 import adminRoutes from './routes/admin.routes.js';
@@ -14,6 +20,7 @@ import currencyRoutes from './routes/currency.routes.js';
 import eventRoutes from './routes/event.routes.js';
 import analysisRoutes from './routes/analysis.routes.js';
 import { errorHandler } from './middleware/errorHandler.middleware.js';
+import { startScheduler } from './jobs/scheduler.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -64,6 +71,24 @@ app.use('/api/income', incomeRoutes);
 // Mount expense routes
 app.use('/api/expenses', expenseRoutes);
 
+// Mount expense category routes
+app.use('/api/expense-categories', expenseCategoryRoutes);
+
+// Mount debt payoff planner routes
+app.use('/api/debt-payoff', debtPayoffRoutes);
+
+// Mount transaction ledger routes
+app.use('/api/transactions', transactionRoutes);
+
+// Mount financial goal routes
+app.use('/api/goals', goalRoutes);
+
+// Mount scenario branch routes
+app.use('/api/scenario-branches', scenarioBranchRoutes);
+
+// Mount planned change routes
+app.use('/api/planned-changes', plannedChangeRoutes);
+
 // Mount currency routes (BEFORE /api to avoid auth middleware interference)
 app.use('/api/currency', currencyRoutes);
 
@@ -137,6 +162,7 @@ if (process.env.NODE_ENV !== 'test') {
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+  startScheduler();
 }
 
 export default app;
\ No newline at end of file
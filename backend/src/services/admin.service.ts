@@ -1,4 +1,5 @@
 import prisma from '../config/database.config.js';
+import { sumCashAccounts } from '../domain/financial/cashAccounts.js';
 
 /**
  * Get all users from the database
@@ -93,7 +94,7 @@ export async function getUserFinancialData(userId: number) {
             IncomeLine: true,
           },
         },
-        CashSavings: true,
+        CashAccount: { orderBy: { id: 'asc' } },
         PreferredCurrency: true,
       },
     });
@@ -107,7 +108,7 @@ export async function getUserFinancialData(userId: number) {
     console.log('Income Statement:', user.IncomeStatement ? 'exists' : 'null');
     console.log('Income Lines:', user.IncomeStatement?.IncomeLine?.length || 0);
     console.log('Expenses:', user.IncomeStatement?.Expense?.length || 0);
-    console.log('Cash Savings:', user.CashSavings ? user.CashSavings.amount : 'null');
+    console.log('Cash Accounts:', user.CashAccount.length);
     console.log('Assets count:', user.BalanceSheet?.Asset?.length || 0);
     console.log('Liabilities count:', user.BalanceSheet?.Liability?.length || 0);
 
@@ -130,7 +131,10 @@ export async function getUserFinancialData(userId: number) {
         ...user.IncomeStatement,
         expenses: user.IncomeStatement.Expense || [],
       } : null,
-      cashSavings: user.CashSavings,
+      cashSavings: {
+        amount: sumCashAccounts(user.CashAccount.map(account => ({ amount: Number(account.amount) }))),
+        accounts: user.CashAccount,
+      },
       income: user.IncomeStatement?.IncomeLine || [],
     };
 
@@ -7,21 +7,42 @@
  * Domain logic has been extracted to:
  * - src/domain/financial/reducers.ts (pure state reducers)
  * - src/domain/financial/metrics.ts (financial calculations)
+ * - src/domain/financial/fx.ts (currency conversion)
+ * - src/domain/financial/scenarios.ts (what-if simulation)
+ * - src/domain/financial/projection.ts (Monte Carlo projection)
+ * - src/domain/financial/inflation.ts (real terms)
+ * - src/domain/financial/plannedChanges.ts (future-dated changes)
+ * - src/domain/financial/activePeriods.ts (income and expense start and end dates)
+ *
+ * Entities keep their native currency in state and checkpoints; amounts are
+ * converted to the preferred currency just before metrics are calculated, and
+ * restated in a base year's purchasing power after that when real figures
+ * are asked for. Only the income lines and expenses active on a state's date
+ * are counted. Dates after today replay pending planned changes on top of
+ * the current state.
  */
 
 import prisma from '../config/database.config.js';
 import { createEmptyQuadrantTotals, determineIncomeQuadrant } from '../utils/incomeQuadrant.utils.js';
 import { getEventsByUser } from './event.service.js';
+import { getExpenseCategoryIndex } from './expenseCategory.service.js';
+import { getDebtPayoffPlan } from './debtPayoff.service.js';
+import { getTargetCurrency, loadInflationIndex, loadUserFx } from './currency.service.js';
+import { getLedgerEntries } from './transaction.service.js';
 import { EntityType, ActionType, Event } from '../types/event.types.js';
 
 // Import domain functions
 import {
   FinancialState,
+  StateCurrency,
   createEmptyState,
+  resolveInitialCurrency,
   rootReducer,
   reconstructStateFromEvents,
   hydrateStateFromSnapshot,
-  serializeStateForSnapshot
+  serializeStateForSnapshot,
+  getEffectiveDate,
+  compareEventsByEffectiveDate
 } from '../domain/financial/reducers.js';
 
 import {
@@ -29,6 +50,33 @@ import {
   calculateFinancialHealth,
   calculateSnapshotFromState
 } from '../domain/financial/metrics.js';
+import { convertEntityAmount, convertFinancialState, findMissingRates, fxAsOf } from '../domain/financial/fx.js';
+import { toMonthlyAmount } from '../domain/financial/frequency.js';
+import { toLoanTerms } from '../domain/financial/amortization.js';
+import {
+  calculateAssetAllocation,
+  calculateLiquidAssets,
+  calculateLiquidRunway
+} from '../domain/financial/assetClasses.js';
+import { sumCashAccounts } from '../domain/financial/cashAccounts.js';
+import { sumCashflowBetween } from '../domain/financial/transactions.js';
+import { ScenarioChange, ScenarioContext, applyScenario } from '../domain/financial/scenarios.js';
+import { forkEventStream } from '../domain/financial/branches.js';
+import { ProjectionAssumptions, runMonteCarloProjection } from '../domain/financial/projection.js';
+import {
+  InflationContext,
+  annualInflationRate,
+  buildInflationContext,
+  deflateFinancialState,
+  deflationFactor
+} from '../domain/financial/inflation.js';
+import {
+  PlannedChangeStatus,
+  StoredPlannedChange,
+  resolvePlannedChanges,
+  withPlannedEvents
+} from '../domain/financial/plannedChanges.js';
+import { activeFinancialState, toActivePeriod } from '../domain/financial/activePeriods.js';
 
 // Re-export types for consumers
 export type { FinancialState, FinancialHealth };
@@ -48,6 +96,62 @@ function isSameMonth(date1: Date, date2: Date): boolean {
     date1.getUTCMonth() === date2.getUTCMonth();
 }
 
+/**
+ * Format a date as a YYYY-MM month key
+ */
+function toMonthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Price index of the target currency, for figures restated in a base year's purchasing power
+ */
+async function loadRealTerms(currencyId: number, baseYear: number): Promise<InflationContext> {
+  const real = buildInflationContext(await loadInflationIndex(currencyId), baseYear);
+
+  if (!real) {
+    throw new Error('Inflation index not found');
+  }
+
+  return real;
+}
+
+/**
+ * Restate a converted state as counted on a date: only the lines active then,
+ * at that date's prices when real figures are asked for
+ */
+function restateState(state: FinancialState, real: InflationContext | null, date: Date): FinancialState {
+  const active = activeFinancialState(state, date);
+  return real ? deflateFinancialState(active, deflationFactor(real, date)) : active;
+}
+
+/**
+ * Yearly inflation future expenses rise at, from the index of the target currency
+ * Real figures already net inflation out, so they get none
+ */
+async function loadExpenseInflation(currencyId: number, real: InflationContext | null, asOf: Date) {
+  return real ? null : annualInflationRate(await loadInflationIndex(currencyId), asOf);
+}
+
+/**
+ * Normalize serialized snapshot data for comparison
+ * Map entries are ordered by id so replay order does not register as a change
+ */
+function canonicalizeSnapshotData(data: any): string {
+  const sortEntries = (entries: any[] | undefined) =>
+    [...(entries ?? [])].sort((a, b) => Number(a[0]) - Number(b[0]));
+
+  return JSON.stringify({
+    assets: sortEntries(data?.assets),
+    liabilities: sortEntries(data?.liabilities),
+    incomeLines: sortEntries(data?.incomeLines),
+    expenses: sortEntries(data?.expenses),
+    cashAccounts: sortEntries(data?.cashAccounts),
+    cashSavings: Number(data?.cashSavings ?? 0),
+    currency: data?.currency ?? null
+  });
+}
+
 /**
  * Ensure monthly checkpoints exist for a user from account creation to now
  * This is a self-healing mechanism that fills gaps in snapshot history
@@ -128,35 +232,15 @@ export async function ensureMonthlyCheckpoints(userId: number): Promise<void> {
   const events = await getEventsByUser({ userId, limit: 100000 });
   const typedEvents = events as unknown as Event[];
 
-  // Sort events chronologically
-  typedEvents.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  // Sort events chronologically by effective date
+  typedEvents.sort(compareEventsByEffectiveDate);
 
   // Determine initial currency
-  let initialCurrency = {
+  const initialCurrency = resolveInitialCurrency(typedEvents, {
+    id: user.preferredCurrencyId,
     symbol: user.PreferredCurrency?.cur_symbol || '$',
     name: user.PreferredCurrency?.cur_name || 'USD'
-  };
-
-  // Check for first currency update event to get original currency
-  const firstCurrencyEvent = typedEvents.find(e =>
-    e.entityType === EntityType.USER &&
-    e.actionType === ActionType.UPDATE &&
-    e.beforeValue &&
-    (typeof e.beforeValue === 'string' ? JSON.parse(e.beforeValue).currencyCode : (e.beforeValue as any).currencyCode)
-  );
-
-  if (firstCurrencyEvent && firstCurrencyEvent.beforeValue) {
-    const before = typeof firstCurrencyEvent.beforeValue === 'string'
-      ? JSON.parse(firstCurrencyEvent.beforeValue)
-      : firstCurrencyEvent.beforeValue;
-
-    if (before.currencyCode) {
-      initialCurrency = {
-        symbol: before.currencyCode,
-        name: before.currencyName || before.currencyCode
-      };
-    }
-  }
+  });
 
   // 7. Use incremental reconstruction for efficiency
   // Find the best starting point (latest snapshot before first missing month)
@@ -176,7 +260,7 @@ export async function ensureMonthlyCheckpoints(userId: number): Promise<void> {
     const snapshotDate = new Date(baseSnapshot.date);
 
     // Find first event after the base snapshot
-    eventIndex = typedEvents.findIndex(e => new Date(e.timestamp) > snapshotDate);
+    eventIndex = typedEvents.findIndex(e => getEffectiveDate(e) > snapshotDate);
     if (eventIndex === -1) eventIndex = typedEvents.length;
   } else {
     // Start from scratch
@@ -188,7 +272,7 @@ export async function ensureMonthlyCheckpoints(userId: number): Promise<void> {
 
   for (const targetDate of missingMonths) {
     // Apply events up to this target date
-    while (eventIndex < typedEvents.length && new Date(typedEvents[eventIndex]!.timestamp) <= targetDate) {
+    while (eventIndex < typedEvents.length && getEffectiveDate(typedEvents[eventIndex]!) <= targetDate) {
       state = rootReducer(state, typedEvents[eventIndex]!);
       eventIndex++;
     }
@@ -211,9 +295,19 @@ export async function ensureMonthlyCheckpoints(userId: number): Promise<void> {
 }
 
 /**
- * Get current financial snapshot from database (no event replay)
+ * The currency a user started with, read from all of their currency changes
+ * For replays of a cut-off stream (a past window or a branch), which may end
+ * before the first change and would otherwise start in today's currency
+ */
+export async function loadInitialCurrency(userId: number, fallback: StateCurrency): Promise<StateCurrency> {
+  const userEvents = await getEventsByUser({ userId, entityType: EntityType.USER, limit: 100000 });
+  return resolveInitialCurrency((userEvents as unknown as Event[]).sort(compareEventsByEffectiveDate), fallback);
+}
+
+/**
+ * Load a user's current financial state directly from the live tables (no event replay)
  */
-async function getCurrentFinancialSnapshot(userId: number) {
+export async function loadLiveFinancialState(userId: number): Promise<FinancialState> {
   // Get user's preferred currency
   const user = await prisma.user.findUnique({
     where: { id: userId },
@@ -221,6 +315,7 @@ async function getCurrentFinancialSnapshot(userId: number) {
   });
 
   const currency = {
+    id: user?.preferredCurrencyId,
     symbol: user?.PreferredCurrency?.cur_symbol || '$',
     name: user?.PreferredCurrency?.cur_name || 'USD'
   };
@@ -234,8 +329,8 @@ async function getCurrentFinancialSnapshot(userId: number) {
     }
   });
 
-  // Get cash savings (current state)
-  const cashSavings = await prisma.cashSavings.findFirst({
+  // Get cash accounts (current state)
+  const cashAccounts = await prisma.cashAccount.findMany({
     where: { userId }
   });
 
@@ -248,134 +343,226 @@ async function getCurrentFinancialSnapshot(userId: number) {
     }
   });
 
-  // Construct Current FinancialState object for Health Calculation
-  const currentState: FinancialState = {
-    assets: new Map(balanceSheet?.Asset.map((a: any) => [a.id, { id: a.id, name: a.name, value: Number(a.value) }]) || []),
-    liabilities: new Map(balanceSheet?.Liability.map((l: any) => [l.id, { id: l.id, name: l.name, value: Number(l.value) }]) || []),
-    incomeLines: new Map(incomeStatement?.IncomeLine.map((i: any) => [i.id, { id: i.id, name: i.name, amount: Number(i.amount), type: i.type, quadrant: i.quadrant }]) || []),
-    expenses: new Map(incomeStatement?.Expense.map((e: any) => [e.id, { id: e.id, name: e.name, amount: Number(e.amount) }]) || []),
-    cashSavings: Number(cashSavings?.amount) || 0,
+  // Current category paths, matching what expense events record
+  const categories = await getExpenseCategoryIndex(userId);
+
+  return {
+    assets: new Map(balanceSheet?.Asset.map((a: any) => [a.id, {
+      id: a.id,
+      name: a.name,
+      value: Number(a.value),
+      assetClass: a.assetClass,
+      liquidity: a.liquidity,
+      currencyId: a.currencyId
+    }]) || []),
+    liabilities: new Map(balanceSheet?.Liability.map((l: any) => [l.id, {
+      id: l.id,
+      name: l.name,
+      value: Number(l.value),
+      ...toLoanTerms(l),
+      assetId: l.assetId,
+      currencyId: l.currencyId
+    }]) || []),
+    incomeLines: new Map(incomeStatement?.IncomeLine.map((i: any) => [i.id, { id: i.id, name: i.name, amount: Number(i.amount), type: i.type, quadrant: i.quadrant, frequency: i.frequency, assetId: i.assetId, currencyId: i.currencyId, ...toActivePeriod(i) }]) || []),
+    expenses: new Map(incomeStatement?.Expense.map((e: any) => {
+      const category = e.categoryId !== null ? categories.get(e.categoryId) : undefined;
+      return [e.id, {
+        id: e.id,
+        name: e.name,
+        amount: Number(e.amount),
+        frequency: e.frequency,
+        categoryId: category?.categoryId ?? null,
+        categoryPath: category?.categoryPath ?? null,
+        classification: category?.classification ?? null,
+        assetId: e.assetId,
+        liabilityId: e.liabilityId,
+        currencyId: e.currencyId,
+        ...toActivePeriod(e)
+      }];
+    }) || []),
+    cashAccounts: new Map(cashAccounts.map(c => [c.id, {
+      id: c.id,
+      name: c.name,
+      amount: Number(c.amount),
+      accountType: c.accountType
+    }])),
+    cashSavings: sumCashAccounts(cashAccounts.map(c => ({ amount: Number(c.amount) }))),
     currency
   };
+}
+
+/**
+ * Inputs shared by every snapshot of the current state: exchange rates,
+ * the states a month and six months ago for trends, and the payoff plan
+ * A snapshot of a future date takes its trends from the planned events
+ * leading up to it.
+ */
+async function loadCurrentSnapshotContext(
+  userId: number,
+  currency: StateCurrency,
+  targetCurrency: StateCurrency & { id: number },
+  real: InflationContext | null = null,
+  now: Date = new Date(),
+  plannedEvents: Event[] = []
+) {
+  const fx = await loadUserFx(userId);
 
   // Fetch events to reconstruct past states for trends
   const events = await getEventsByUser({ userId, limit: 100000 });
-  const now = new Date();
   const oneMonthAgo = new Date(now); oneMonthAgo.setMonth(now.getMonth() - 1);
   const sixMonthsAgo = new Date(now); sixMonthsAgo.setMonth(now.getMonth() - 6);
 
   // Cast events to Event[] since we know they match our type
-  const typedEvents = events as unknown as Event[];
+  const typedEvents = withPlannedEvents(events as unknown as Event[], plannedEvents, now);
 
-  const prevMonthState = reconstructStateFromEvents(typedEvents, oneMonthAgo, currency);
-  const sixMonthAgoState = reconstructStateFromEvents(typedEvents, sixMonthsAgo, currency);
+  const prevMonthState = restateState(convertFinancialState(
+    reconstructStateFromEvents(typedEvents, oneMonthAgo, currency), fxAsOf(fx, oneMonthAgo), targetCurrency
+  ), real, oneMonthAgo);
+  const sixMonthAgoState = restateState(convertFinancialState(
+    reconstructStateFromEvents(typedEvents, sixMonthsAgo, currency), fxAsOf(fx, sixMonthsAgo), targetCurrency
+  ), real, sixMonthsAgo);
 
-  const financialHealth = calculateFinancialHealth(currentState, prevMonthState, sixMonthAgoState);
+  // The saved payoff plan only shapes projections from today
+  const payoffPlan = await getDebtPayoffPlan(userId);
+  const expenseInflation = await loadExpenseInflation(targetCurrency.id, real, now);
 
-  // Calculate balance sheet totals
-  const totalAssets = balanceSheet?.Asset.reduce((sum: number, asset: any) => sum + Number(asset.value), 0) || 0;
-  const totalLiabilities = balanceSheet?.Liability.reduce((sum: number, liability: any) => sum + Number(liability.value), 0) || 0;
-  const totalCashBalance = Number(cashSavings?.amount) || 0;
-  const netWorth = totalAssets - totalLiabilities + totalCashBalance;
+  return { fx, now, prevMonthState, sixMonthAgoState, payoffPlan, real, expenseInflation };
+}
 
-  // Income by type (case-insensitive matching)
-  const earnedIncome = incomeStatement?.IncomeLine.filter((i: any) => i.type.toUpperCase() === 'EARNED').reduce((sum: number, i: any) => sum + Number(i.amount), 0) || 0;
-  const passiveIncome = incomeStatement?.IncomeLine.filter((i: any) => i.type.toUpperCase() === 'PASSIVE').reduce((sum: number, i: any) => sum + Number(i.amount), 0) || 0;
-  const portfolioIncome = incomeStatement?.IncomeLine.filter((i: any) => i.type.toUpperCase() === 'PORTFOLIO').reduce((sum: number, i: any) => sum + Number(i.amount), 0) || 0;
-  const totalIncome = earnedIncome + passiveIncome + portfolioIncome;
+/**
+ * Snapshot of a current state, live or simulated, in the target currency
+ * Lists the currencies that could not be converted for lack of a rate
+ */
+function snapshotFromCurrentState(
+  state: FinancialState,
+  context: Awaited<ReturnType<typeof loadCurrentSnapshotContext>>,
+  targetCurrency: StateCurrency & { id: number }
+) {
+  const currentState = restateState(convertFinancialState(state, context.fx, targetCurrency), context.real, context.now);
+  const financialHealth = calculateFinancialHealth(
+    currentState, context.prevMonthState, context.sixMonthAgoState, context.payoffPlan, context.expenseInflation
+  );
 
-  const totalExpenses = incomeStatement?.Expense.reduce((sum: number, expense: any) => sum + Number(expense.amount), 0) || 0;
-  const netCashflow = totalIncome - totalExpenses;
+  return {
+    ...calculateSnapshotFromState(currentState, context.now, financialHealth, context.prevMonthState),
+    missingExchangeRates: findMissingRates(state, context.fx.rates, targetCurrency.id),
+    realBaseYear: context.real?.baseYear ?? null
+  };
+}
 
-  // Combined passive income (passive + portfolio) for freedom calculations
-  // Portfolio income from investments also generates money without active work
-  const combinedPassiveIncome = passiveIncome + portfolioIncome;
+/**
+ * Get current financial snapshot from database (no event replay)
+ * Given a later date, the pending planned changes up to it are applied on top.
+ */
+async function getCurrentFinancialSnapshot(
+  userId: number,
+  targetCurrency: StateCurrency & { id: number },
+  real: InflationContext | null,
+  asOf?: Date
+) {
+  const liveState = await loadLiveFinancialState(userId);
+
+  if (!asOf) {
+    const context = await loadCurrentSnapshotContext(userId, liveState.currency, targetCurrency, real);
+    return snapshotFromCurrentState(liveState, context, targetCurrency);
+  }
 
-  // Calculate ratios
-  // Passive coverage now includes portfolio income since it also contributes to financial freedom
-  const passiveCoverageRatio = totalExpenses > 0 ? (combinedPassiveIncome / totalExpenses) * 100 : 0;
-  const savingsRate = totalIncome > 0 ? (netCashflow / totalIncome) * 100 : 0;
+  const plannedEvents = await loadPlannedEvents(userId, liveState);
+  const plannedState = plannedEvents
+    .filter(event => getEffectiveDate(event) <= asOf)
+    .reduce(rootReducer, liveState);
+  const context = await loadCurrentSnapshotContext(
+    userId, liveState.currency, targetCurrency, real, asOf, plannedEvents
+  );
 
-  // --- RichFlow Metrics ---
+  return snapshotFromCurrentState(plannedState, context, targetCurrency);
+}
 
-  // 1. Wealth Velocity (Net Worth Change vs Previous Month)
-  let wealthVelocity = 0;
-  let wealthVelocityPct = 0;
+/**
+ * Categories a scenario's expense changes resolve against, as of a date
+ */
+export async function loadScenarioContext(userId: number, asOf: Date): Promise<ScenarioContext> {
+  const [categories, categoryRows] = await Promise.all([
+    getExpenseCategoryIndex(userId),
+    prisma.expenseCategory.findMany({ where: { userId }, select: { id: true, parentId: true } })
+  ]);
 
-  if (prevMonthState) {
-    const prevAssets = Array.from(prevMonthState.assets.values()).reduce((sum, a) => sum + a.value, 0);
-    const prevLiabilities = Array.from(prevMonthState.liabilities.values()).reduce((sum, l) => sum + l.value, 0);
-    const prevCash = prevMonthState.cashSavings;
-    const prevNetWorth = prevAssets - prevLiabilities + prevCash;
+  return {
+    userId,
+    asOf,
+    categories,
+    categoryParents: new Map(categoryRows.map(category => [category.id, category.parentId]))
+  };
+}
 
-    wealthVelocity = netWorth - prevNetWorth;
-    if (prevNetWorth !== 0) {
-      wealthVelocityPct = (wealthVelocity / Math.abs(prevNetWorth)) * 100;
-    } else if (netWorth !== 0) {
-      wealthVelocityPct = netWorth > 0 ? 100 : -100;
-    }
+/**
+ * Pending planned changes resolved into events on top of the live state
+ * Changes that no longer resolve are left out; the scheduler marks them
+ * failed when their date arrives.
+ */
+export async function loadPlannedEvents(userId: number, liveState: FinancialState): Promise<Event[]> {
+  const pending = await prisma.plannedChange.findMany({
+    where: { userId, status: PlannedChangeStatus.PENDING },
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
+  });
+
+  if (pending.length === 0) {
+    return [];
   }
 
-  // 2. Solvency Ratio (Liabilities / Assets)
-  const totalAssetsWithCash = totalAssets + totalCashBalance;
-  const solvencyRatio = totalAssetsWithCash > 0 ? (totalLiabilities / totalAssetsWithCash) * 100 : 0;
+  const { asOf: _asOf, ...context } = await loadScenarioContext(userId, new Date());
+  const planned: StoredPlannedChange[] = pending.map(change => ({
+    id: change.id,
+    effectiveDate: change.effectiveDate,
+    changes: change.changes as unknown as ScenarioChange[]
+  }));
 
-  // 3. Freedom Gap (Expenses - Combined Passive Income)
-  // Portfolio income is included since it also generates income without active work
-  const freedomGap = totalExpenses - combinedPassiveIncome;
+  return resolvePlannedChanges(liveState, planned, context).events;
+}
 
-  // Income quadrant distribution
-  const quadrantTotals = createEmptyQuadrantTotals();
-  incomeStatement?.IncomeLine?.forEach((line: any) => {
-    const bucket = determineIncomeQuadrant(line.type, line.quadrant);
-    quadrantTotals[bucket] += Number(line.amount);
-  });
+/**
+ * Simulate a what-if scenario on the current state
+ * The changes are applied as synthetic events and never persisted; both
+ * snapshots share the same trend history, so the difference between them is
+ * the scenario alone.
+ */
+export async function simulateScenario(userId: number, changes: ScenarioChange[], currencyId?: number) {
+  const targetCurrency = await getTargetCurrency(userId, currencyId);
+  const liveState = await loadLiveFinancialState(userId);
+
+  const { state: scenarioState, events } = applyScenario(
+    liveState,
+    changes,
+    await loadScenarioContext(userId, new Date())
+  );
+
+  const context = await loadCurrentSnapshotContext(userId, liveState.currency, targetCurrency);
 
-  const qEmployee = Number(quadrantTotals.EMPLOYEE);
-  const qSelf = Number(quadrantTotals.SELF_EMPLOYED);
-  const qBus = Number(quadrantTotals.BUSINESS_OWNER);
-  const qInv = Number(quadrantTotals.INVESTOR);
-
-  const incomeQuadrantData = {
-    EMPLOYEE: { amount: qEmployee, pct: totalIncome > 0 ? (qEmployee / totalIncome) * 100 : 0 },
-    SELF_EMPLOYED: { amount: qSelf, pct: totalIncome > 0 ? (qSelf / totalIncome) * 100 : 0 },
-    BUSINESS_OWNER: { amount: qBus, pct: totalIncome > 0 ? (qBus / totalIncome) * 100 : 0 },
-    INVESTOR: { amount: qInv, pct: totalIncome > 0 ? (qInv / totalIncome) * 100 : 0 },
-    total: totalIncome
+  return {
+    before: snapshotFromCurrentState(liveState, context, targetCurrency),
+    after: snapshotFromCurrentState(scenarioState, context, targetCurrency),
+    events
   };
+}
+
+/**
+ * Monte Carlo projection of the current state in the target currency
+ */
+export async function projectFinancialFuture(
+  userId: number,
+  assumptions: ProjectionAssumptions,
+  currencyId?: number
+) {
+  const targetCurrency = await getTargetCurrency(userId, currencyId);
+  const liveState = await loadLiveFinancialState(userId);
+  const fx = await loadUserFx(userId);
 
   return {
-    date: new Date().toISOString().substring(0, 10),
-    currency,
-    balanceSheet: {
-      totalCashBalance: Number(totalCashBalance),
-      totalCash: Number(totalCashBalance),
-      totalInvestedAssets: Number(totalAssets),
-      totalAssets: Number(totalAssets),
-      totalLiabilities: Number(totalLiabilities),
-      netWorth: Number(netWorth)
-    },
-    cashflow: {
-      earnedIncome: Number(earnedIncome),
-      passiveIncome: Number(passiveIncome),
-      portfolioIncome: Number(portfolioIncome),
-      totalIncome: Number(totalIncome),
-      totalExpenses: Number(totalExpenses),
-      netCashflow: Number(netCashflow),
-      direction: netCashflow >= 0 ? 'positive' : 'negative'
-    },
-    ratios: {
-      passiveCoverageRatio: passiveCoverageRatio.toFixed(2),
-      savingsRate: savingsRate.toFixed(2)
-    },
-    richFlowMetrics: {
-      wealthVelocity: Number(wealthVelocity),
-      wealthVelocityPct: Number(wealthVelocityPct.toFixed(2)),
-      solvencyRatio: Number(solvencyRatio.toFixed(2)),
-      freedomGap: Number(freedomGap)
-    },
-    incomeQuadrant: incomeQuadrantData,
-    financialHealth
+    ...runMonteCarloProjection(
+      convertFinancialState(activeFinancialState(liveState, new Date()), fx, targetCurrency), assumptions
+    ),
+    currency: { symbol: targetCurrency.symbol, name: targetCurrency.name },
+    missingExchangeRates: findMissingRates(liveState, fx.rates, targetCurrency.id)
   };
 }
 
@@ -394,34 +581,15 @@ export async function createSnapshot(userId: number): Promise<void> {
   const events = await getEventsByUser({ userId, limit: 100000 });
   const typedEvents = events as unknown as Event[];
 
-  // Sort events
-  typedEvents.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  // Sort events by effective date
+  typedEvents.sort(compareEventsByEffectiveDate);
 
   // Determine initial currency
-  let initialCurrency = {
+  const initialCurrency = resolveInitialCurrency(typedEvents, {
+    id: user.preferredCurrencyId,
     symbol: user.PreferredCurrency?.cur_symbol || '$',
     name: user.PreferredCurrency?.cur_name || 'USD'
-  };
-
-  // Check for currency update events
-  const firstCurrencyEvent = typedEvents.find(e =>
-    e.entityType === EntityType.USER &&
-    e.actionType === ActionType.UPDATE &&
-    (e.beforeValue && (typeof e.beforeValue === 'string' ? JSON.parse(e.beforeValue).currencyCode : e.beforeValue.currencyCode))
-  );
-
-  if (firstCurrencyEvent && firstCurrencyEvent.beforeValue) {
-    const before = typeof firstCurrencyEvent.beforeValue === 'string'
-      ? JSON.parse(firstCurrencyEvent.beforeValue)
-      : firstCurrencyEvent.beforeValue;
-
-    if (before.currencyCode) {
-      initialCurrency = {
-        symbol: before.currencyCode,
-        name: before.currencyName || before.currencyCode
-      };
-    }
-  }
+  });
 
   const now = new Date();
   const state = reconstructStateFromEvents(typedEvents, now, initialCurrency);
@@ -439,15 +607,118 @@ export async function createSnapshot(userId: number): Promise<void> {
   });
 }
 
+export interface SnapshotRebuildResult {
+  userId: number;
+  checkpointsCreated: number;
+  snapshotsRemoved: number;
+  changedMonths: string[];
+  addedMonths: string[];
+}
+
+/**
+ * Recompute all monthly checkpoints for a user from the event stream
+ * Replaces every cached snapshot (including manual ones) and reports
+ * which months held a checkpoint that no longer matched the events
+ */
+export async function rebuildMonthlyCheckpoints(userId: number): Promise<SnapshotRebuildResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { PreferredCurrency: true }
+  });
+
+  if (!user) throw new Error('User not found');
+
+  const events = await getEventsByUser({ userId, limit: 100000 });
+  const typedEvents = events as unknown as Event[];
+  typedEvents.sort(compareEventsByEffectiveDate);
+
+  const initialCurrency = resolveInitialCurrency(typedEvents, {
+    id: user.preferredCurrencyId,
+    symbol: user.PreferredCurrency?.cur_symbol || '$',
+    name: user.PreferredCurrency?.cur_name || 'USD'
+  });
+
+  const existingSnapshots = await prisma.financialSnapshot.findMany({
+    where: { userId },
+    orderBy: { date: 'asc' }
+  });
+
+  // Only month-aligned checkpoints are comparable with the rebuilt ones
+  const previousCheckpoints = new Map<string, any>();
+  for (const snapshot of existingSnapshots) {
+    const date = new Date(snapshot.date);
+    if (date.getTime() === getFirstOfMonth(date).getTime()) {
+      previousCheckpoints.set(toMonthKey(date), snapshot.data);
+    }
+  }
+
+  // Replay the stream once, capturing state at the first of each month
+  const currentMonthFirst = getFirstOfMonth(new Date());
+  const snapshotsToCreate: { userId: number; date: Date; data: any }[] = [];
+  const changedMonths: string[] = [];
+  const addedMonths: string[] = [];
+
+  let state = createEmptyState(initialCurrency);
+  let eventIndex = 0;
+  let checkDate = getFirstOfMonth(user.createdAt);
+
+  while (checkDate < currentMonthFirst) {
+    while (eventIndex < typedEvents.length && getEffectiveDate(typedEvents[eventIndex]!) <= checkDate) {
+      state = rootReducer(state, typedEvents[eventIndex]!);
+      eventIndex++;
+    }
+
+    const data = serializeStateForSnapshot(state);
+    const monthKey = toMonthKey(checkDate);
+    const previous = previousCheckpoints.get(monthKey);
+
+    if (previous === undefined) {
+      addedMonths.push(monthKey);
+    } else if (canonicalizeSnapshotData(previous) !== canonicalizeSnapshotData(data)) {
+      changedMonths.push(monthKey);
+    }
+
+    snapshotsToCreate.push({ userId, date: new Date(checkDate), data });
+    checkDate = new Date(Date.UTC(checkDate.getUTCFullYear(), checkDate.getUTCMonth() + 1, 1, 0, 0, 0, 0));
+  }
+
+  // Swap the cache atomically so readers never see a half-built history
+  await prisma.$transaction(async (tx) => {
+    await tx.financialSnapshot.deleteMany({ where: { userId } });
+    if (snapshotsToCreate.length > 0) {
+      await tx.financialSnapshot.createMany({ data: snapshotsToCreate });
+    }
+  });
+
+  return {
+    userId,
+    checkpointsCreated: snapshotsToCreate.length,
+    snapshotsRemoved: existingSnapshots.length,
+    changedMonths,
+    addedMonths
+  };
+}
+
 /**
  * Get financial snapshot - either current state or reconstructed point-in-time state
  * Uses "Snapshot + Delta" pattern: queries for the latest snapshot first,
  * then only fetches events after the snapshot date to reduce memory usage.
+ * Amounts are expressed in the given currency (the preferred one by default)
+ * at the exchange rates valid on the snapshot date. Given a base year, they
+ * are restated in that year's purchasing power.
  */
-export const getFinancialSnapshot = async (userId: number, date?: string) => {
+export const getFinancialSnapshot = async (
+  userId: number,
+  date?: string,
+  currencyId?: number,
+  realBaseYear?: number
+) => {
+  const targetCurrency = await getTargetCurrency(userId, currencyId);
+  const real = realBaseYear !== undefined ? await loadRealTerms(targetCurrency.id, realBaseYear) : null;
+
   // If no date specified, return current state from database
   if (!date) {
-    return await getCurrentFinancialSnapshot(userId);
+    return await getCurrentFinancialSnapshot(userId, targetCurrency, real);
   }
 
   // Parse target date as end-of-day UTC for the provided YYYY-MM-DD
@@ -460,9 +731,9 @@ export const getFinancialSnapshot = async (userId: number, date?: string) => {
   })();
   const now = new Date();
 
-  // If target date is in the future or today, return current state
+  // Today or later: the current state with the planned changes up to the date
   if (targetDate >= now) {
-    return await getCurrentFinancialSnapshot(userId);
+    return await getCurrentFinancialSnapshot(userId, targetCurrency, real, targetDate);
   }
 
   // For historical dates, get user info first
@@ -478,10 +749,11 @@ export const getFinancialSnapshot = async (userId: number, date?: string) => {
       entityType: EntityType.USER,
       actionType: ActionType.UPDATE
     },
-    orderBy: { timestamp: 'asc' }
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
   });
 
   let initialCurrency = {
+    id: user?.PreferredCurrency?.id,
     symbol: user?.PreferredCurrency?.cur_symbol || '$',
     name: user?.PreferredCurrency?.cur_name || 'USD'
   };
@@ -493,6 +765,7 @@ export const getFinancialSnapshot = async (userId: number, date?: string) => {
 
     if (before && before.currencyCode) {
       initialCurrency = {
+        id: before.preferredCurrencyId,
         symbol: before.currencyCode,
         name: before.currencyName || before.currencyCode
       };
@@ -521,43 +794,39 @@ export const getFinancialSnapshot = async (userId: number, date?: string) => {
     state = hydrateStateFromSnapshot(latestSnapshot.data);
     const snapshotDate = new Date(latestSnapshot.date);
 
-    // Step 2b: Fetch ONLY delta events (after snapshot, up to targetDate)
+    // Step 2b: Fetch ONLY delta events (effective after snapshot, up to targetDate)
     const deltaEvents = await prisma.event.findMany({
       where: {
         userId,
-        timestamp: {
+        effectiveDate: {
           gt: snapshotDate,
           lte: targetDate
         }
       },
-      orderBy: { timestamp: 'asc' }
+      orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
     });
 
     // Step 2c: Apply delta events to hydrated state
     state = (deltaEvents as unknown as Event[]).reduce(rootReducer, state);
 
     // For trend calculations, we still need events for past states
-    // Fetch events from account creation to targetDate for trend reconstruction
-    const queryParams: any = {
+    // Fetch events effective up to targetDate for trend reconstruction
+    // No start bound: backdated events may take effect before account creation
+    allEvents = (await getEventsByUser({
       userId,
       endDate: targetDate,
+      dateField: 'effectiveDate',
       limit: 100000
-    };
-    if (user?.createdAt) {
-      queryParams.startDate = user.createdAt;
-    }
-    allEvents = (await getEventsByUser(queryParams)) as unknown as Event[];
+    })) as unknown as Event[];
   } else {
     // Step 3: No snapshot exists - fall back to full event replay
-    const queryParams: any = {
+    // No start bound: backdated events may take effect before account creation
+    allEvents = (await getEventsByUser({
       userId,
       endDate: targetDate,
+      dateField: 'effectiveDate',
       limit: 100000
-    };
-    if (user?.createdAt) {
-      queryParams.startDate = user.createdAt;
-    }
-    allEvents = (await getEventsByUser(queryParams)) as unknown as Event[];
+    })) as unknown as Event[];
     state = reconstructStateFromEvents(allEvents, targetDate, initialCurrency);
   }
 
@@ -565,23 +834,59 @@ export const getFinancialSnapshot = async (userId: number, date?: string) => {
   const oneMonthAgo = new Date(targetDate); oneMonthAgo.setMonth(targetDate.getMonth() - 1);
   const sixMonthsAgo = new Date(targetDate); sixMonthsAgo.setMonth(targetDate.getMonth() - 6);
 
-  const prevMonthState = reconstructStateFromEvents(allEvents, oneMonthAgo, initialCurrency);
-  const sixMonthAgoState = reconstructStateFromEvents(allEvents, sixMonthsAgo, initialCurrency);
-
-  const financialHealth = calculateFinancialHealth(state, prevMonthState, sixMonthAgoState);
+  // Convert every state to the target currency at its own date's rates before comparing them
+  const fx = await loadUserFx(userId);
+  const targetFx = fxAsOf(fx, targetDate);
+  const convertedState = restateState(convertFinancialState(state, targetFx, targetCurrency), real, targetDate);
+  const prevMonthState = restateState(convertFinancialState(
+    reconstructStateFromEvents(allEvents, oneMonthAgo, initialCurrency), fxAsOf(fx, oneMonthAgo), targetCurrency
+  ), real, oneMonthAgo);
+  const sixMonthAgoState = restateState(convertFinancialState(
+    reconstructStateFromEvents(allEvents, sixMonthsAgo, initialCurrency), fxAsOf(fx, sixMonthsAgo), targetCurrency
+  ), real, sixMonthsAgo);
+
+  const financialHealth = calculateFinancialHealth(
+    convertedState,
+    prevMonthState,
+    sixMonthAgoState,
+    null,
+    await loadExpenseInflation(targetCurrency.id, real, targetDate)
+  );
 
-  return calculateSnapshotFromState(state, targetDate, financialHealth, prevMonthState);
+  return {
+    ...calculateSnapshotFromState(convertedState, targetDate, financialHealth, prevMonthState),
+    missingExchangeRates: findMissingRates(state, targetFx.rates, targetCurrency.id),
+    realBaseYear: real?.baseYear ?? null
+  };
 };
 
+/**
+ * Hypothetical events of a scenario branch and the point it forks from
+ */
+export interface BranchReplay {
+  forkPoint: Date;
+  events: Event[];
+}
+
 /**
  * Get financial trajectory over time - returns historical snapshots for velocity and freedom tracking
  * This enables visualization of the "Freedom Gap" over time
+ * Every point is expressed in one currency at the rates valid on its date,
+ * so the series stays comparable across a change of preferred currency.
+ * actualCashflow is the net of the transactions in the month up to each point,
+ * next to the planned netCashflow of the monthly statement
+ * Given a branch, the trajectory follows that plan instead of reality after its fork point;
+ * otherwise points after today follow the pending planned changes.
+ * Given a base year, every point is restated in that year's purchasing power.
  */
 export const getFinancialTrajectory = async (
   userId: number,
   startDate: string,
   endDate: string,
-  interval: 'daily' | 'weekly' | 'monthly' = 'monthly'
+  interval: 'daily' | 'weekly' | 'monthly' = 'monthly',
+  currencyId?: number,
+  branch?: BranchReplay,
+  realBaseYear?: number
 ): Promise<any[]> => {
   // Self-healing: Ensure monthly checkpoints exist before generating trajectory
   // This limits event replay depth for long-term users (5+ years of data)
@@ -591,6 +896,9 @@ export const getFinancialTrajectory = async (
   const end = new Date(endDate);
   const trajectoryPoints: any[] = [];
 
+  // A branch shares the real history only up to its fork point
+  const realEnd = branch && branch.forkPoint < end ? branch.forkPoint : end;
+
   // Calculate date intervals based on interval type
   const incrementDate = (date: Date): Date => {
     const newDate = new Date(date);
@@ -614,63 +922,50 @@ export const getFinancialTrajectory = async (
     include: { PreferredCurrency: true }
   });
 
-  const queryParams: any = {
+  // No start bound: backdated events may take effect before account creation
+  const events = await getEventsByUser({
     userId,
-    endDate: end,
+    endDate: realEnd,
+    dateField: 'effectiveDate',
     limit: 100000
-  };
-
-  if (user?.createdAt) {
-    queryParams.startDate = user.createdAt;
-  }
-
-  const events = await getEventsByUser(queryParams);
-  const typedEvents = events as unknown as Event[];
-
-  // Ensure events are sorted chronologically
-  typedEvents.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-
-  const initialCurrency = (() => {
-    // Default to current if no history
-    let currency = user?.PreferredCurrency
-      ? { symbol: user.PreferredCurrency.cur_symbol, name: user.PreferredCurrency.cur_name }
-      : { symbol: '$', name: 'USD' };
-
-    // Try to find the first currency update to get the original currency
-    const firstCurrencyEvent = typedEvents.find(e =>
-      e.entityType === EntityType.USER &&
-      e.actionType === ActionType.UPDATE &&
-      e.beforeValue &&
-      (typeof e.beforeValue === 'string' ? JSON.parse(e.beforeValue).currencyCode : e.beforeValue.currencyCode)
-    );
-
-    if (firstCurrencyEvent && firstCurrencyEvent.beforeValue) {
-      const before = typeof firstCurrencyEvent.beforeValue === 'string'
-        ? JSON.parse(firstCurrencyEvent.beforeValue)
-        : firstCurrencyEvent.beforeValue;
-
-      if (before.currencyCode) {
-        currency = {
-          symbol: before.currencyCode,
-          name: before.currencyName || before.currencyCode
-        };
-      }
-    }
-    return currency;
-  })();
+  });
+  const now = new Date();
+  // Ensure events are sorted chronologically by effective date. A branch stream
+  // is already in order and is not sorted again: branch ids are negative, so a
+  // sort would replay branch events at the fork point before the real ones
+  const typedEvents = branch
+    ? forkEventStream(events as unknown as Event[], branch.events, branch.forkPoint)
+    : end > now
+      ? withPlannedEvents(events as unknown as Event[], await loadPlannedEvents(userId, await loadLiveFinancialState(userId)), end)
+      : (events as unknown as Event[]).sort(compareEventsByEffectiveDate);
+
+  // Default to current if no history
+  const initialCurrency = await loadInitialCurrency(
+    userId,
+    user?.PreferredCurrency
+      ? { id: user.preferredCurrencyId, symbol: user.PreferredCurrency.cur_symbol, name: user.PreferredCurrency.cur_name }
+      : { symbol: '$', name: 'USD' }
+  );
 
   // Initialize state
   let state: FinancialState = createEmptyState(initialCurrency);
+  const fx = await loadUserFx(userId);
+  const targetCurrency = await getTargetCurrency(userId, currencyId);
+  const real = realBaseYear !== undefined ? await loadRealTerms(targetCurrency.id, realBaseYear) : null;
+  const ledgerStart = new Date(start);
+  ledgerStart.setMonth(ledgerStart.getMonth() - 1);
+  // A plan has no actual cashflow of its own
+  const ledgerEntries = branch ? [] : await getLedgerEntries(userId, ledgerStart, incrementDate(end));
 
   let currentDate = new Date(start);
   let eventIndex = 0;
 
   // OPTIMIZATION: Check for snapshots
-  // Find the latest snapshot before the start date
+  // Find the latest snapshot before the start date (and the fork point of a branch)
   const latestSnapshot = await prisma.financialSnapshot.findFirst({
     where: {
       userId,
-      date: { lte: start }
+      date: { lte: realEnd < start ? realEnd : start }
     },
     orderBy: { date: 'desc' }
   });
@@ -680,41 +975,54 @@ export const getFinancialTrajectory = async (
     const snapshotDate = new Date(latestSnapshot.date);
 
     // Find the index of the first event after the snapshot
-    eventIndex = typedEvents.findIndex(e => new Date(e.timestamp) > snapshotDate);
+    eventIndex = typedEvents.findIndex(e => getEffectiveDate(e) > snapshotDate);
     if (eventIndex === -1) eventIndex = typedEvents.length; // No events after snapshot
   }
 
   // Incremental state reconstruction
   while (currentDate <= end) {
     // Apply new events since last check
-    while (eventIndex < typedEvents.length && new Date(typedEvents[eventIndex]!.timestamp) <= currentDate) {
+    while (eventIndex < typedEvents.length && getEffectiveDate(typedEvents[eventIndex]!) <= currentDate) {
       // Use rootReducer for incremental updates
       state = rootReducer(state, typedEvents[eventIndex]!);
       eventIndex++;
     }
 
-    // Calculate metrics from current state
-    const totalAssets = Array.from(state.assets.values()).reduce((sum, asset) => sum + asset.value, 0);
-    const totalLiabilities = Array.from(state.liabilities.values()).reduce((sum, liability) => sum + liability.value, 0);
-    const totalCash = state.cashSavings;
+    // Calculate metrics from current state in the target currency at this date's rates (and prices)
+    const pointFx = fxAsOf(fx, currentDate);
+    const pointState = restateState(convertFinancialState(state, pointFx, targetCurrency), real, currentDate);
+    const totalAssets = Array.from(pointState.assets.values()).reduce((sum, asset) => sum + asset.value, 0);
+    const totalLiabilities = Array.from(pointState.liabilities.values()).reduce((sum, liability) => sum + liability.value, 0);
+    const totalCash = pointState.cashSavings;
     const netWorth = totalAssets - totalLiabilities + totalCash;
 
-    const incomeLines = Array.from(state.incomeLines.values());
+    const incomeLines = Array.from(pointState.incomeLines.values());
     const passiveIncome = incomeLines
       .filter(i => i.type.toUpperCase() === 'PASSIVE')
-      .reduce((sum, i) => sum + i.amount, 0);
+      .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
     const portfolioIncome = incomeLines
       .filter(i => i.type.toUpperCase() === 'PORTFOLIO')
-      .reduce((sum, i) => sum + i.amount, 0);
-    const totalIncome = incomeLines.reduce((sum, i) => sum + i.amount, 0);
+      .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+    const totalIncome = incomeLines.reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
 
     // Combined passive income (passive + portfolio) for freedom calculations
     // Portfolio income from investments also generates money without active work
     const combinedPassiveIncome = passiveIncome + portfolioIncome;
 
-    const totalExpenses = Array.from(state.expenses.values()).reduce((sum, expense) => sum + expense.amount, 0);
+    const totalExpenses = Array.from(pointState.expenses.values()).reduce((sum, expense) => sum + toMonthlyAmount(expense.amount, expense.frequency), 0);
     const netCashflow = totalIncome - totalExpenses;
 
+    // Actual cashflow over the month ending at this point; the ledger is
+    // converted along with a currency change, so it is always in the current preferred currency
+    const monthBefore = new Date(currentDate);
+    monthBefore.setMonth(monthBefore.getMonth() - 1);
+    const actualCashflow = convertEntityAmount(
+      sumCashflowBetween(ledgerEntries, monthBefore, currentDate),
+      pointFx.preferredCurrencyId,
+      targetCurrency.id,
+      pointFx
+    ) * (real ? deflationFactor(real, currentDate) : 1);
+
     // Freedom Gap = Monthly Expenses - Combined Passive Income
     // Portfolio income is included since it also generates income without active work
     const freedomGap = totalExpenses - combinedPassiveIncome;
@@ -727,11 +1035,21 @@ export const getFinancialTrajectory = async (
       ? ((passiveIncome + portfolioIncome) / totalAssets) * 100
       : 0;
 
+    // Liquid Runway = (Cash + Liquid Assets) / Monthly Expenses
+    const assets = Array.from(pointState.assets.values());
+    const liquidRunway = calculateLiquidRunway(totalCash, calculateLiquidAssets(assets), totalExpenses);
+
+    // Asset class allocation (amounts only; cash counts as cash-equivalent)
+    const { total: _allocationTotal, ...allocation } = calculateAssetAllocation(assets, totalCash);
+    const assetAllocation = Object.fromEntries(
+      Object.entries(allocation).map(([assetClass, { amount }]) => [assetClass, amount])
+    );
+
     // Income Quadrant Breakdown
     const quadrantTotals = createEmptyQuadrantTotals();
     incomeLines.forEach(line => {
       const bucket = determineIncomeQuadrant(line.type, line.quadrant);
-      quadrantTotals[bucket] += line.amount;
+      quadrantTotals[bucket] += toMonthlyAmount(line.amount, line.frequency);
     });
 
     // Derive net worth delta
@@ -745,16 +1063,21 @@ export const getFinancialTrajectory = async (
       date: currentDate.toISOString().split('T')[0],
       netWorth,
       netWorthDelta,
+      totalCash,
+      totalLiabilities,
       passiveIncome,
       portfolioIncome,
       totalExpenses,
       freedomGap,
       wealthVelocity: wealthVelocity * 100,
       assetEfficiency,
+      liquidRunway,
       netCashflow,
+      actualCashflow,
       totalIncome,
       incomeQuadrant: quadrantTotals,
-      currency: state.currency.symbol
+      assetAllocation,
+      currency: pointState.currency.symbol
     });
 
     currentDate = incrementDate(currentDate);
@@ -3,6 +3,7 @@ import { Prisma } from '@prisma/client';
 import { hashPassword, comparePassword } from '../utils/password.utils.js';
 import { generateRefreshToken, getRefreshTokenExpiration } from '../utils/jwt.utils.js';
 import { ActionType, EntityType } from '../types/event.types.js';
+import { CashAccountType, DEFAULT_CASH_ACCOUNT_NAME } from '../domain/financial/cashAccounts.js';
 
 interface CreateUserData {
   name: string;
@@ -82,10 +83,12 @@ export async function createUser(userData: CreateUserData): Promise<UserResponse
       }
     });
 
-    // Automatically create a cash savings record with default amount of 0
-    const cashSavings = await tx.cashSavings.create({
+    // Automatically create a default cash account with a balance of 0
+    const cashAccount = await tx.cashAccount.create({
       data: {
         userId: newUser.id,
+        name: DEFAULT_CASH_ACCOUNT_NAME,
+        accountType: CashAccountType.SAVINGS,
         amount: 0
       }
     });
@@ -103,16 +106,16 @@ export async function createUser(userData: CreateUserData): Promise<UserResponse
       }
     });
 
-    // Log cash savings creation event
+    // Log cash account creation event
     await tx.event.create({
       data: {
         actionType: ActionType.CREATE,
         entityType: EntityType.CASH_SAVINGS,
         entitySubtype: null,
         beforeValue: Prisma.DbNull,
-        afterValue: { id: cashSavings.id, userId: newUser.id, amount: 0 },
+        afterValue: { name: cashAccount.name, accountType: cashAccount.accountType, amount: 0 },
         userId: newUser.id,
-        entityId: cashSavings.id
+        entityId: cashAccount.id
       }
     });
 
@@ -136,6 +139,12 @@ export async function createUser(userData: CreateUserData): Promise<UserResponse
       liabilities: [],      // Empty array (serialized Map format)
       incomeLines: [],      // Empty array (serialized Map format)
       expenses: [],         // Empty array (serialized Map format)
+      cashAccounts: [[cashAccount.id, {
+        id: cashAccount.id,
+        name: cashAccount.name,
+        amount: 0,
+        accountType: cashAccount.accountType
+      }]],
       cashSavings: 0,
       currency: {
         symbol: '$',        // Default to USD
@@ -192,6 +201,7 @@ export async function loginUser(email: string, password: string) {
     name: user.name,
     isAdmin: user.isAdmin,
     createdAt: user.createdAt,
+    numberLocale: user.numberLocale,
     PreferredCurrency: user.PreferredCurrency
   };
 }
@@ -239,6 +249,7 @@ export async function findValidSession(refreshToken: string) {
           name: true,
           isAdmin: true,
           createdAt: true,
+          numberLocale: true,
           PreferredCurrency: true
         }
       }
@@ -314,6 +325,7 @@ export async function updateUsername(userId: number, newName: string) {
       name: true,
       isAdmin: true,
       createdAt: true,
+      numberLocale: true,
       PreferredCurrency: true
     }
   });
@@ -345,7 +357,39 @@ export async function updateEmail(userId: number, newEmail: string) {
   const updated = await prisma.user.update({
     where: { id: userId },
     data: { email: newEmail, updatedAt: new Date() },
-    select: { id: true, email: true, name: true, isAdmin: true, createdAt: true, PreferredCurrency: true }
+    select: { id: true, email: true, name: true, isAdmin: true, createdAt: true, numberLocale: true, PreferredCurrency: true }
+  });
+
+  return updated;
+}
+
+/**
+ * Update the locale used to format a user's numbers
+ * @param userId - ID of the user to update
+ * @param locale - BCP 47 locale tag (e.g. "de-DE"), or null to follow each currency's own locale
+ * @returns Updated user or throws on an unsupported locale
+ */
+export async function updateNumberLocale(userId: number, locale: string | null) {
+  let numberLocale: string | null = null;
+
+  if (locale !== null) {
+    try {
+      numberLocale = Intl.getCanonicalLocales(locale)[0] ?? null;
+    } catch {
+      numberLocale = null;
+    }
+
+    if (!numberLocale || Intl.NumberFormat.supportedLocalesOf(numberLocale).length === 0) {
+      const err: any = new Error('Unsupported locale');
+      err.code = 'INVALID_LOCALE';
+      throw err;
+    }
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { numberLocale, updatedAt: new Date() },
+    select: { id: true, email: true, name: true, isAdmin: true, createdAt: true, numberLocale: true, PreferredCurrency: true }
   });
 
   return updated;
@@ -1,20 +1,101 @@
 import prisma from '../config/database.config.js';
 import { Asset, Liability } from '@prisma/client';
-import { logAssetEvent, logLiabilityEvent, TransactionClient } from './event.service.js';
-import { ActionType } from '../types/event.types.js';
+import { logAssetEvent, logLiabilityEvent, runInTransaction, TransactionClient } from './event.service.js';
+import { ActionType, EventContext } from '../types/event.types.js';
+import {
+  AssetClass,
+  LiquidityTier,
+  DEFAULT_LIQUIDITY,
+  resolveAssetClassification
+} from '../domain/financial/assetClasses.js';
+import {
+  LoanTerms,
+  buildAmortizationSchedule,
+  summarizeLoan,
+  toLoanTerms
+} from '../domain/financial/amortization.js';
+import { calculateAssetEquity, calculateAssetPerformance } from '../domain/financial/metrics.js';
+import { FxContext, convertEntityAmount } from '../domain/financial/fx.js';
+import { loadUserFx, verifyCurrency } from './currency.service.js';
 
 interface AssetData {
   name: string;
   value: number;
+  assetClass?: AssetClass;
+  liquidity?: LiquidityTier;
+  /** Native currency; undefined keeps the current one, null means the preferred currency */
+  currencyId?: number | null;
 }
 
-interface LiabilityData {
+/**
+ * Build the event payload for an asset row
+ */
+export function toAssetEventValue(asset: Asset) {
+  return {
+    name: asset.name,
+    value: asset.value,
+    assetClass: asset.assetClass,
+    liquidity: asset.liquidity,
+    currencyId: asset.currencyId
+  };
+}
+
+interface LiabilityData extends LoanTerms {
   name: string;
   value: number;
+  /** Asset the liability secures; undefined keeps the current link, null clears it */
+  assetId?: number | null;
+  currencyId?: number | null;
+}
+
+/**
+ * Build the event payload for a liability row
+ */
+export function toLiabilityEventValue(liability: Liability) {
+  return {
+    name: liability.name,
+    value: liability.value,
+    ...toLoanTerms(liability),
+    assetId: liability.assetId,
+    currencyId: liability.currencyId
+  };
+}
+
+/**
+ * Map loan terms onto liability columns
+ * Undefined leaves a column unchanged; null clears it
+ */
+function toLoanTermColumns(terms: LoanTerms) {
+  return {
+    interestRate: terms.interestRate,
+    minimumPayment: terms.minimumPayment,
+    termMonths: terms.termMonths,
+    startDate: terms.startDate ? new Date(terms.startDate) : terms.startDate
+  };
+}
+
+function toAssetAmount(asset: Asset) {
+  return { id: asset.id, name: asset.name, value: Number(asset.value) };
+}
+
+/**
+ * Express an amount linked to an asset in that asset's currency
+ * so per-asset yield and equity never mix currencies
+ */
+function toAssetCurrency(
+  amount: unknown,
+  currencyId: number | null,
+  assets: Asset[],
+  assetId: number | null,
+  fx: FxContext
+) {
+  const asset = assets.find(a => a.id === assetId);
+  return convertEntityAmount(Number(amount), currencyId, asset?.currencyId, fx);
 }
 
 /**
  * Get balance sheet with assets and liabilities for a user
+ * Includes each asset's equity after the liabilities it secures
  */
 export async function getBalanceSheet(userId: number) {
   const balanceSheet = await prisma.balanceSheet.findFirst({
@@ -25,7 +106,22 @@ export async function getBalanceSheet(userId: number) {
     }
   });
 
-  return balanceSheet;
+  if (!balanceSheet) {
+    return null;
+  }
+
+  const fx = await loadUserFx(userId);
+
+  return {
+    ...balanceSheet,
+    assetEquity: calculateAssetEquity(
+      balanceSheet.Asset.map(toAssetAmount),
+      balanceSheet.Liability.map(liability => ({
+        value: toAssetCurrency(liability.value, liability.currencyId, balanceSheet.Asset, liability.assetId, fx),
+        assetId: liability.assetId
+      }))
+    )
+  };
 }
 
 /**
@@ -64,7 +160,9 @@ export async function getAssets(userId: number) {
   const balanceSheet = await prisma.balanceSheet.findFirst({
     where: { userId },
     include: {
-      Asset: true
+      Asset: {
+        include: { IncomeLine: true, Expense: true, Liability: true }
+      }
     }
   });
 
@@ -72,15 +170,66 @@ export async function getAssets(userId: number) {
     return [];
   }
 
-  return balanceSheet.Asset;
+  const fx = await loadUserFx(userId);
+
+  const toLinkedAmount = (line: { amount: unknown; frequency: string; assetId: number | null; currencyId: number | null }) => ({
+    amount: toAssetCurrency(line.amount, line.currencyId, balanceSheet.Asset, line.assetId, fx),
+    frequency: line.frequency,
+    assetId: line.assetId
+  });
+
+  const assets = balanceSheet.Asset.map(toAssetAmount);
+  const performance = calculateAssetPerformance(
+    assets,
+    balanceSheet.Asset.flatMap(asset => asset.IncomeLine).map(toLinkedAmount),
+    balanceSheet.Asset.flatMap(asset => asset.Expense).map(toLinkedAmount)
+  );
+  const equity = calculateAssetEquity(
+    assets,
+    balanceSheet.Asset.flatMap(asset => asset.Liability).map(liability => ({
+      value: toAssetCurrency(liability.value, liability.currencyId, balanceSheet.Asset, liability.assetId, fx),
+      assetId: liability.assetId
+    }))
+  );
+
+  return balanceSheet.Asset.map(({ IncomeLine, Expense, Liability, ...asset }, index) => ({
+    ...asset,
+    performance: performance[index]!,
+    equity: equity[index]!
+  }));
+}
+
+/**
+ * Verify an asset linked from an income or expense line belongs to the user
+ */
+export async function verifyAssetOwnership(userId: number, assetId: number | null | undefined) {
+  if (assetId === null || assetId === undefined) {
+    return;
+  }
+
+  const asset = await prisma.asset.findFirst({
+    where: {
+      id: assetId,
+      BalanceSheet: {
+        userId
+      }
+    }
+  });
+
+  if (!asset) {
+    throw new Error('Asset not found');
+  }
 }
 
 /**
  * Add a new asset for a user
  * Uses transaction to ensure atomicity between entity creation and event logging
  */
-export async function addAsset(userId: number, data: AssetData): Promise<Asset> {
-  return await prisma.$transaction(async (tx) => {
+export async function addAsset(userId: number, data: AssetData, context?: EventContext, tx?: TransactionClient): Promise<Asset> {
+  // Throws if the currency does not exist
+  await verifyCurrency(data.currencyId);
+
+  return await runInTransaction(tx, async (tx) => {
     // Get or create balance sheet
     let balanceSheet = await tx.balanceSheet.findFirst({
       where: { userId }
@@ -92,11 +241,13 @@ export async function addAsset(userId: number, data: AssetData): Promise<Asset>
       });
     }
 
-    // Create asset
+    // Create asset; liquidity defaults from the asset class
     const newAsset = await tx.asset.create({
       data: {
         name: data.name,
         value: data.value,
+        ...resolveAssetClassification(data.assetClass, data.liquidity),
+        currencyId: data.currencyId ?? null,
         bsId: balanceSheet.id
       }
     });
@@ -107,11 +258,9 @@ export async function addAsset(userId: number, data: AssetData): Promise<Asset>
       userId,
       newAsset.id,
       undefined,
-      {
-        name: newAsset.name,
-        value: newAsset.value
-      },
-      tx as unknown as TransactionClient
+      toAssetEventValue(newAsset),
+      tx,
+      context
     );
 
     return newAsset;
@@ -123,9 +272,9 @@ export async function addAsset(userId: number, data: AssetData): Promise<Asset>
  * Verifies ownership before update
  * Uses transaction to ensure atomicity between entity update and event logging
  */
-export async function updateAsset(userId: number, assetId: number, data: AssetData): Promise<Asset> {
-  // First verify ownership (outside transaction for fast-fail)
-  const asset = await prisma.asset.findFirst({
+export async function updateAsset(userId: number, assetId: number, data: AssetData, context?: EventContext, tx?: TransactionClient): Promise<Asset> {
+  // First verify ownership (before the write, in the caller's transaction if any)
+  const asset = await (tx ?? prisma).asset.findFirst({
     where: {
       id: assetId,
       BalanceSheet: {
@@ -138,19 +287,27 @@ export async function updateAsset(userId: number, assetId: number, data: AssetDa
     throw new Error('Asset not found or unauthorized');
   }
 
+  // Throws if the currency does not exist
+  await verifyCurrency(data.currencyId);
+
   // Capture before state
-  const beforeValue = {
-    name: asset.name,
-    value: asset.value
-  };
+  const beforeValue = toAssetEventValue(asset);
 
-  return await prisma.$transaction(async (tx) => {
+  // Omitted fields keep their current value; a new class without an
+  // explicit liquidity takes that class's default liquidity
+  const assetClass = data.assetClass ?? asset.assetClass;
+  const liquidity = data.liquidity ?? (data.assetClass ? DEFAULT_LIQUIDITY[data.assetClass] : asset.liquidity);
+
+  return await runInTransaction(tx, async (tx) => {
     // Update asset
     const updatedAsset = await tx.asset.update({
       where: { id: assetId },
       data: {
         name: data.name,
-        value: data.value
+        value: data.value,
+        assetClass,
+        liquidity,
+        currencyId: data.currencyId
       }
     });
 
@@ -160,11 +317,9 @@ export async function updateAsset(userId: number, assetId: number, data: AssetDa
       userId,
       assetId,
       beforeValue,
-      {
-        name: updatedAsset.name,
-        value: updatedAsset.value
-      },
-      tx as unknown as TransactionClient
+      toAssetEventValue(updatedAsset),
+      tx,
+      context
     );
 
     return updatedAsset;
@@ -176,14 +331,17 @@ export async function updateAsset(userId: number, assetId: number, data: AssetDa
  * Verifies ownership before deletion
  * Uses transaction to ensure atomicity between entity deletion and event logging
  */
-export async function deleteAsset(userId: number, assetId: number): Promise<Asset> {
-  // First verify ownership (outside transaction for fast-fail)
-  const asset = await prisma.asset.findFirst({
+export async function deleteAsset(userId: number, assetId: number, context?: EventContext, tx?: TransactionClient): Promise<Asset> {
+  // First verify ownership (before the write, in the caller's transaction if any)
+  const asset = await (tx ?? prisma).asset.findFirst({
     where: {
       id: assetId,
       BalanceSheet: {
         userId
       }
+    },
+    include: {
+      _count: { select: { IncomeLine: true, Expense: true, Liability: true } }
     }
   });
 
@@ -191,13 +349,15 @@ export async function deleteAsset(userId: number, assetId: number): Promise<Asse
     throw new Error('Asset not found or unauthorized');
   }
 
+  // Unlinking would change the linked rows without logging their events
+  if (asset._count.IncomeLine > 0 || asset._count.Expense > 0 || asset._count.Liability > 0) {
+    throw new Error('Asset is still linked to income, expenses or liabilities');
+  }
+
   // Capture before state for event log
-  const beforeValue = {
-    name: asset.name,
-    value: asset.value
-  };
+  const beforeValue = toAssetEventValue(asset);
 
-  return await prisma.$transaction(async (tx) => {
+  return await runInTransaction(tx, async (tx) => {
     // Delete asset
     const deletedAsset = await tx.asset.delete({
       where: { id: assetId }
@@ -210,15 +370,39 @@ export async function deleteAsset(userId: number, assetId: number): Promise<Asse
       assetId,
       beforeValue,
       undefined,
-      tx as unknown as TransactionClient
+      tx,
+      context
     );
 
     return deletedAsset;
   });
 }
 
+/**
+ * Verify a liability linked from an expense line belongs to the user
+ */
+export async function verifyLiabilityOwnership(userId: number, liabilityId: number | null | undefined) {
+  if (liabilityId === null || liabilityId === undefined) {
+    return;
+  }
+
+  const liability = await prisma.liability.findFirst({
+    where: {
+      id: liabilityId,
+      BalanceSheet: {
+        userId
+      }
+    }
+  });
+
+  if (!liability) {
+    throw new Error('Liability not found');
+  }
+}
+
 /**
  * Get all liabilities for a user
+ * Loans with known terms include their payoff date and remaining interest
  */
 export async function getLiabilities(userId: number) {
   const balanceSheet = await prisma.balanceSheet.findFirst({
@@ -232,15 +416,47 @@ export async function getLiabilities(userId: number) {
     return [];
   }
 
-  return balanceSheet.Liability;
+  return balanceSheet.Liability.map(liability => ({
+    ...liability,
+    loanSummary: summarizeLoan(Number(liability.value), toLoanTerms(liability))
+  }));
+}
+
+/**
+ * Get the amortization schedule for a liability
+ * Verifies ownership before building the schedule
+ */
+export async function getLiabilitySchedule(userId: number, liabilityId: number) {
+  const liability = await prisma.liability.findFirst({
+    where: {
+      id: liabilityId,
+      BalanceSheet: {
+        userId
+      }
+    }
+  });
+
+  if (!liability) {
+    throw new Error('Liability not found or unauthorized');
+  }
+
+  return {
+    liabilityId: liability.id,
+    name: liability.name,
+    ...buildAmortizationSchedule(Number(liability.value), toLoanTerms(liability))
+  };
 }
 
 /**
  * Add a new liability for a user
  * Uses transaction to ensure atomicity between entity creation and event logging
  */
-export async function addLiability(userId: number, data: LiabilityData): Promise<Liability> {
-  return await prisma.$transaction(async (tx) => {
+export async function addLiability(userId: number, data: LiabilityData, context?: EventContext, tx?: TransactionClient): Promise<Liability> {
+  // Throws if the secured asset does not belong to the user or the currency does not exist
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyCurrency(data.currencyId);
+
+  return await runInTransaction(tx, async (tx) => {
     // Get or create balance sheet
     let balanceSheet = await tx.balanceSheet.findFirst({
       where: { userId }
@@ -257,6 +473,9 @@ export async function addLiability(userId: number, data: LiabilityData): Promise
       data: {
         name: data.name,
         value: data.value,
+        ...toLoanTermColumns(data),
+        assetId: data.assetId ?? null,
+        currencyId: data.currencyId ?? null,
         bsId: balanceSheet.id
       }
     });
@@ -267,11 +486,9 @@ export async function addLiability(userId: number, data: LiabilityData): Promise
       userId,
       newLiability.id,
       undefined,
-      {
-        name: newLiability.name,
-        value: newLiability.value
-      },
-      tx as unknown as TransactionClient
+      toLiabilityEventValue(newLiability),
+      tx,
+      context
     );
 
     return newLiability;
@@ -283,9 +500,9 @@ export async function addLiability(userId: number, data: LiabilityData): Promise
  * Verifies ownership before update
  * Uses transaction to ensure atomicity between entity update and event logging
  */
-export async function updateLiability(userId: number, liabilityId: number, data: LiabilityData): Promise<Liability> {
-  // First verify ownership (outside transaction for fast-fail)
-  const liability = await prisma.liability.findFirst({
+export async function updateLiability(userId: number, liabilityId: number, data: LiabilityData, context?: EventContext, tx?: TransactionClient): Promise<Liability> {
+  // First verify ownership (before the write, in the caller's transaction if any)
+  const liability = await (tx ?? prisma).liability.findFirst({
     where: {
       id: liabilityId,
       BalanceSheet: {
@@ -298,19 +515,23 @@ export async function updateLiability(userId: number, liabilityId: number, data:
     throw new Error('Liability not found or unauthorized');
   }
 
+  // Throws if the secured asset does not belong to the user or the currency does not exist
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyCurrency(data.currencyId);
+
   // Capture before state
-  const beforeValue = {
-    name: liability.name,
-    value: liability.value
-  };
+  const beforeValue = toLiabilityEventValue(liability);
 
-  return await prisma.$transaction(async (tx) => {
-    // Update liability
+  return await runInTransaction(tx, async (tx) => {
+    // Update liability; omitted loan terms, asset and currency keep their current value
     const updatedLiability = await tx.liability.update({
       where: { id: liabilityId },
       data: {
         name: data.name,
-        value: data.value
+        value: data.value,
+        ...toLoanTermColumns(data),
+        assetId: data.assetId,
+        currencyId: data.currencyId
       }
     });
 
@@ -320,11 +541,9 @@ export async function updateLiability(userId: number, liabilityId: number, data:
       userId,
       liabilityId,
       beforeValue,
-      {
-        name: updatedLiability.name,
-        value: updatedLiability.value
-      },
-      tx as unknown as TransactionClient
+      toLiabilityEventValue(updatedLiability),
+      tx,
+      context
     );
 
     return updatedLiability;
@@ -336,14 +555,17 @@ export async function updateLiability(userId: number, liabilityId: number, data:
  * Verifies ownership before deletion
  * Uses transaction to ensure atomicity between entity deletion and event logging
  */
-export async function deleteLiability(userId: number, liabilityId: number): Promise<Liability> {
-  // First verify ownership (outside transaction for fast-fail)
-  const liability = await prisma.liability.findFirst({
+export async function deleteLiability(userId: number, liabilityId: number, context?: EventContext, tx?: TransactionClient): Promise<Liability> {
+  // First verify ownership (before the write, in the caller's transaction if any)
+  const liability = await (tx ?? prisma).liability.findFirst({
     where: {
       id: liabilityId,
       BalanceSheet: {
         userId
       }
+    },
+    include: {
+      _count: { select: { Expense: true } }
     }
   });
 
@@ -351,13 +573,15 @@ export async function deleteLiability(userId: number, liabilityId: number): Prom
     throw new Error('Liability not found or unauthorized');
   }
 
+  // Unlinking would change the expense lines without logging their events
+  if (liability._count.Expense > 0) {
+    throw new Error('Liability is still linked to expenses');
+  }
+
   // Capture before state for event log
-  const beforeValue = {
-    name: liability.name,
-    value: liability.value
-  };
+  const beforeValue = toLiabilityEventValue(liability);
 
-  return await prisma.$transaction(async (tx) => {
+  return await runInTransaction(tx, async (tx) => {
     // Delete liability
     const deletedLiability = await tx.liability.delete({
       where: { id: liabilityId }
@@ -370,7 +594,8 @@ export async function deleteLiability(userId: number, liabilityId: number): Prom
       liabilityId,
       beforeValue,
       undefined,
-      tx as unknown as TransactionClient
+      tx,
+      context
     );
 
     return deletedLiability;
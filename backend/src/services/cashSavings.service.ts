@@ -1,85 +1,192 @@
 import prisma from '../config/database.config.js';
-import { logCashSavingsEvent } from './event.service.js';
-import { ActionType } from '../types/event.types.js';
+import { CashAccount } from '@prisma/client';
+import { logCashSavingsEvent, runInTransaction, TransactionClient } from './event.service.js';
+import { ActionType, EventContext } from '../types/event.types.js';
+import {
+  CashAccountType,
+  DEFAULT_CASH_ACCOUNT_NAME,
+  sumCashAccounts
+} from '../domain/financial/cashAccounts.js';
+
+interface CashAccountData {
+  name: string;
+  amount: number;
+  accountType?: CashAccountType;
+}
 
 /**
- * Get cash savings for a specific user
+ * Build the event payload for a cash account row
+ */
+export function toCashAccountEventValue(account: CashAccount) {
+  return {
+    name: account.name,
+    accountType: account.accountType,
+    amount: account.amount
+  };
+}
+
+/**
+ * Get all cash accounts for a user, oldest first
  * @param userId - User ID
- * @returns CashSavings record or null
  */
-export async function getCashSavings(userId: number) {
-  return await prisma.cashSavings.findUnique({
+export async function getCashAccounts(userId: number) {
+  return await prisma.cashAccount.findMany({
     where: { userId },
-    select: {
-      id: true,
-      amount: true,
-      userId: true
-    }
+    orderBy: { id: 'asc' }
   });
 }
 
 /**
- * Update cash savings amount for a user
+ * Get cash savings for a specific user
  * @param userId - User ID
- * @param amount - New cash savings amount
- * @returns Updated CashSavings record
+ * @returns The total across every account and the accounts themselves
  */
-export async function updateCashSavings(userId: number, amount: number) {
-  // Check if cash savings record exists
-  const existing = await prisma.cashSavings.findUnique({
-    where: { userId }
-  });
+export async function getCashSavings(userId: number) {
+  const accounts = await getCashAccounts(userId);
+
+  return {
+    amount: sumCashAccounts(accounts.map(account => ({ amount: Number(account.amount) }))),
+    accounts
+  };
+}
 
-  if (!existing) {
-    // Create if doesn't exist (shouldn't happen if signup creates it)
-    const newCashSavings = await prisma.cashSavings.create({
+/**
+ * Add a new cash account for a user
+ * Uses transaction to ensure atomicity between entity creation and event logging
+ * @param userId - User ID
+ * @param data - Account name, balance and type
+ * @param context - Optional event metadata (e.g. effective date)
+ * @param tx - Optional transaction to join instead of starting one
+ */
+export async function addCashAccount(userId: number, data: CashAccountData, context?: EventContext, tx?: TransactionClient) {
+  return await runInTransaction(tx, async (tx) => {
+    const account = await tx.cashAccount.create({
       data: {
         userId,
-        amount
-      },
-      select: {
-        id: true,
-        amount: true,
-        userId: true
+        name: data.name,
+        amount: data.amount,
+        accountType: data.accountType ?? CashAccountType.SAVINGS
       }
     });
 
-    // Log CREATE event
+    // Log the CREATE event within the same transaction
     await logCashSavingsEvent(
       ActionType.CREATE,
       userId,
-      newCashSavings.id,
+      account.id,
       undefined,
-      { amount: newCashSavings.amount }
+      toCashAccountEventValue(account),
+      tx,
+      context
     );
 
-    return newCashSavings;
+    return account;
+  });
+}
+
+/**
+ * Update a cash account
+ * Verifies ownership before update
+ * Uses transaction so a rejected event leaves the account unchanged
+ * @returns Updated account, or null when the user has no such account
+ */
+export async function updateCashAccount(
+  userId: number,
+  accountId: number,
+  data: Partial<CashAccountData>,
+  context?: EventContext,
+  tx?: TransactionClient
+) {
+  const account = await (tx ?? prisma).cashAccount.findFirst({
+    where: { id: accountId, userId }
+  });
+
+  if (!account) {
+    return null;
   }
 
   // Capture before state
-  const beforeValue = {
-    amount: existing.amount
-  };
+  const beforeValue = toCashAccountEventValue(account);
+
+  // An omitted field keeps its current value
+  return await runInTransaction(tx, async (tx) => {
+    const updatedAccount = await tx.cashAccount.update({
+      where: { id: accountId },
+      data: {
+        name: data.name,
+        amount: data.amount,
+        accountType: data.accountType
+      }
+    });
 
-  // Update existing record
-  const updatedCashSavings = await prisma.cashSavings.update({
+    // Log the UPDATE event within the same transaction
+    await logCashSavingsEvent(
+      ActionType.UPDATE,
+      userId,
+      accountId,
+      beforeValue,
+      toCashAccountEventValue(updatedAccount),
+      tx,
+      context
+    );
+
+    return updatedAccount;
+  });
+}
+
+/**
+ * Delete a cash account
+ * Verifies ownership before deletion
+ * Uses transaction so a rejected event leaves the account in place
+ * @returns Deleted account, or null when the user has no such account
+ */
+export async function deleteCashAccount(userId: number, accountId: number, context?: EventContext, tx?: TransactionClient) {
+  const account = await (tx ?? prisma).cashAccount.findFirst({
+    where: { id: accountId, userId }
+  });
+
+  if (!account) {
+    return null;
+  }
+
+  await runInTransaction(tx, async (tx) => {
+    await tx.cashAccount.delete({
+      where: { id: accountId }
+    });
+
+    // Log the DELETE event (account is deleted but event remains)
+    await logCashSavingsEvent(
+      ActionType.DELETE,
+      userId,
+      accountId,
+      toCashAccountEventValue(account),
+      undefined,
+      tx,
+      context
+    );
+  });
+
+  return account;
+}
+
+/**
+ * Set the balance of the user's default (oldest) cash account
+ * Kept for clients that still treat cash savings as a single number
+ * @param userId - User ID
+ * @param amount - New balance
+ * @param context - Optional event metadata (e.g. effective date)
+ * @returns Updated or newly created account
+ */
+export async function updateCashSavings(userId: number, amount: number, context?: EventContext) {
+  const defaultAccount = await prisma.cashAccount.findFirst({
     where: { userId },
-    data: { amount },
-    select: {
-      id: true,
-      amount: true,
-      userId: true
-    }
+    orderBy: { id: 'asc' }
   });
 
-  // Log UPDATE event
-  await logCashSavingsEvent(
-    ActionType.UPDATE,
-    userId,
-    updatedCashSavings.id,
-    beforeValue,
-    { amount: updatedCashSavings.amount }
-  );
-
-  return updatedCashSavings;
-}
\ No newline at end of file
+  if (!defaultAccount) {
+    // Create one if every account was deleted
+    return await addCashAccount(userId, { name: DEFAULT_CASH_ACCOUNT_NAME, amount }, context);
+  }
+
+  return await updateCashAccount(userId, defaultAccount.id, { amount }, context);
+}
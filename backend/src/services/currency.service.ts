@@ -1,6 +1,21 @@
 import prisma from '../config/database.config.js';
 import { logUserEvent } from './event.service.js';
 import { ActionType } from '../types/event.types.js';
+import {
+  DatedExchangeRateRow,
+  ExchangeRateUpdate,
+  FxContext,
+  FxRates,
+  buildFxRates,
+  parseExchangeRateCsv
+} from '../domain/financial/fx.js';
+import { StateCurrency } from '../domain/financial/reducers.js';
+import {
+  InflationIndexRow,
+  InflationIndexUpdate,
+  parseInflationIndexCsv
+} from '../domain/financial/inflation.js';
+import { matchCurrencyMetadata } from '../domain/financial/currencyMetadata.js';
 
 /**
  * Get all available currencies
@@ -110,3 +125,308 @@ export const getUserCurrency = async (userId: number) => {
     throw new Error('Failed to fetch user currency preference');
   }
 };
+
+/**
+ * Verify a currency chosen for an entity exists
+ * Null and undefined mean the preferred currency and need no check
+ */
+export const verifyCurrency = async (currencyId: number | null | undefined) => {
+  if (currencyId === null || currencyId === undefined) {
+    return;
+  }
+
+  const currency = await prisma.currency.findUnique({
+    where: { id: currencyId },
+  });
+
+  if (!currency) {
+    throw new Error('Currency not found');
+  }
+};
+
+/**
+ * Get all stored exchange rates with their currencies
+ */
+export const getExchangeRates = async () => {
+  return await prisma.exchangeRate.findMany({
+    include: {
+      FromCurrency: true,
+      ToCurrency: true,
+    },
+    orderBy: [{ fromCurrencyId: 'asc' }, { toCurrencyId: 'asc' }],
+  });
+};
+
+/**
+ * Get the recorded rate history, optionally for one currency pair, newest first
+ */
+export const getExchangeRateHistory = async (fromCurrencyId?: number, toCurrencyId?: number) => {
+  return await prisma.exchangeRateHistory.findMany({
+    where: {
+      ...(fromCurrencyId !== undefined && { fromCurrencyId }),
+      ...(toCurrencyId !== undefined && { toCurrencyId }),
+    },
+    include: {
+      FromCurrency: true,
+      ToCurrency: true,
+    },
+    orderBy: [{ effectiveDate: 'desc' }, { fromCurrencyId: 'asc' }, { toCurrencyId: 'asc' }],
+  });
+};
+
+/**
+ * Load the exchange rate lookup used to convert entity amounts
+ */
+export const loadFxRates = async (): Promise<FxRates> => {
+  const rows = await prisma.exchangeRate.findMany();
+
+  return buildFxRates(rows.map(row => ({
+    fromCurrencyId: row.fromCurrencyId,
+    toCurrencyId: row.toCurrencyId,
+    rate: Number(row.rate),
+  })));
+};
+
+/**
+ * Load every recorded rate with the date it took effect
+ */
+export const loadFxRateHistory = async (): Promise<DatedExchangeRateRow[]> => {
+  const rows = await prisma.exchangeRateHistory.findMany();
+
+  return rows.map(row => ({
+    fromCurrencyId: row.fromCurrencyId,
+    toCurrencyId: row.toCurrencyId,
+    rate: Number(row.rate),
+    effectiveDate: row.effectiveDate,
+  }));
+};
+
+/**
+ * Load the rates, rate history and preferred currency used to convert a user's entities
+ */
+export const loadUserFx = async (userId: number): Promise<FxContext> => {
+  const [rates, history, user] = await Promise.all([
+    loadFxRates(),
+    loadFxRateHistory(),
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredCurrencyId: true },
+    }),
+  ]);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  return { rates, history, preferredCurrencyId: user.preferredCurrencyId };
+};
+
+/**
+ * Resolve the currency analysis results are expressed in
+ * Defaults to the user's preferred currency
+ */
+export const getTargetCurrency = async (
+  userId: number,
+  currencyId?: number
+): Promise<StateCurrency & { id: number }> => {
+  const currency = currencyId !== undefined
+    ? await prisma.currency.findUnique({ where: { id: currencyId } })
+    : (await prisma.user.findUnique({
+        where: { id: userId },
+        include: { PreferredCurrency: true },
+      }))?.PreferredCurrency;
+
+  if (!currency) {
+    throw new Error('Currency not found');
+  }
+
+  return { id: currency.id, symbol: currency.cur_symbol, name: currency.cur_name };
+};
+
+/**
+ * Record exchange rates on their effective date, today unless given
+ * Each rate is added to the history; the current rate for a pair is only
+ * replaced when no later-dated rate has been recorded for it.
+ * All rows are saved in one transaction so a bad row leaves the tables untouched
+ */
+export const saveExchangeRates = async (rows: ExchangeRateUpdate[]) => {
+  const currencyIds = [...new Set(rows.flatMap(row => [row.fromCurrencyId, row.toCurrencyId]))];
+  const currencyCount = await prisma.currency.count({
+    where: { id: { in: currencyIds } },
+  });
+
+  if (currencyCount !== currencyIds.length) {
+    throw new Error('Currency not found');
+  }
+
+  const today = new Date(new Date().toISOString().split('T')[0]!);
+
+  if (rows.some(row => row.effectiveDate && row.effectiveDate > today)) {
+    throw new Error('Exchange rate date cannot be in the future');
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const saved = [];
+
+    for (const row of rows) {
+      const pair = { fromCurrencyId: row.fromCurrencyId, toCurrencyId: row.toCurrencyId };
+      const effectiveDate = row.effectiveDate ?? today;
+
+      saved.push(await tx.exchangeRateHistory.upsert({
+        where: { fromCurrencyId_toCurrencyId_effectiveDate: { ...pair, effectiveDate } },
+        update: { rate: row.rate },
+        create: { ...pair, rate: row.rate, effectiveDate },
+      }));
+
+      const latest = await tx.exchangeRateHistory.findFirst({
+        where: pair,
+        orderBy: { effectiveDate: 'desc' },
+      });
+
+      if (!latest || latest.effectiveDate <= effectiveDate) {
+        await tx.exchangeRate.upsert({
+          where: { fromCurrencyId_toCurrencyId: pair },
+          update: { rate: row.rate },
+          create: { ...pair, rate: row.rate },
+        });
+      }
+    }
+
+    return saved;
+  });
+};
+
+/**
+ * Import exchange rates from a "from,to,rate[,date]" CSV
+ * Currencies are matched by id or name; nothing is saved if any line is invalid
+ */
+export const importExchangeRatesCsv = async (csv: string) => {
+  const currencies = await prisma.currency.findMany();
+
+  const resolveCurrencyId = (value: string) => {
+    const currency = currencies.find(c =>
+      String(c.id) === value || c.cur_name.toLowerCase() === value.toLowerCase()
+    );
+    return currency ? currency.id : null;
+  };
+
+  const { rows, errors } = parseExchangeRateCsv(csv, resolveCurrencyId);
+
+  if (errors.length > 0) {
+    return { rates: [], errors };
+  }
+
+  return { rates: await saveExchangeRates(rows), errors };
+};
+
+/**
+ * Get the recorded price index, optionally for one currency, newest first
+ */
+export const getInflationIndex = async (currencyId?: number) => {
+  return await prisma.inflationIndex.findMany({
+    where: currencyId !== undefined ? { currencyId } : {},
+    include: { Currency: true },
+    orderBy: [{ currencyId: 'asc' }, { date: 'desc' }],
+  });
+};
+
+/**
+ * Load a currency's price index in date order
+ */
+export const loadInflationIndex = async (currencyId: number): Promise<InflationIndexRow[]> => {
+  const rows = await prisma.inflationIndex.findMany({
+    where: { currencyId },
+    orderBy: { date: 'asc' },
+  });
+
+  return rows.map(row => ({ date: row.date, value: Number(row.value) }));
+};
+
+/**
+ * Record price index values, replacing any already recorded for the same currency and date
+ * All rows are saved in one transaction so a bad row leaves the table untouched
+ */
+export const saveInflationIndex = async (rows: InflationIndexUpdate[]) => {
+  const currencyIds = [...new Set(rows.map(row => row.currencyId))];
+  const currencyCount = await prisma.currency.count({
+    where: { id: { in: currencyIds } },
+  });
+
+  if (currencyCount !== currencyIds.length) {
+    throw new Error('Currency not found');
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const saved = [];
+
+    for (const row of rows) {
+      saved.push(await tx.inflationIndex.upsert({
+        where: { currencyId_date: { currencyId: row.currencyId, date: row.date } },
+        update: { value: row.value },
+        create: { currencyId: row.currencyId, date: row.date, value: row.value },
+      }));
+    }
+
+    return saved;
+  });
+};
+
+/**
+ * Import price index values from a "currency,date,value" CSV
+ * Currencies are matched by id or name; nothing is saved if any line is invalid
+ */
+export const importInflationIndexCsv = async (csv: string) => {
+  const currencies = await prisma.currency.findMany();
+
+  const resolveCurrencyId = (value: string) => {
+    const currency = currencies.find(c =>
+      String(c.id) === value || c.cur_name.toLowerCase() === value.toLowerCase()
+    );
+    return currency ? currency.id : null;
+  };
+
+  const { rows, errors } = parseInflationIndexCsv(csv, resolveCurrencyId);
+
+  if (errors.length > 0) {
+    return { values: [], errors };
+  }
+
+  return { values: await saveInflationIndex(rows), errors };
+};
+
+/**
+ * Fill in the ISO code, minor units and locale of every currency without a code
+ * For databases created with db push and a seed instead of the migrations.
+ * A currency that matches no known one, or one whose code another currency
+ * already has, is returned unchanged so it can be fixed by hand.
+ */
+export const backfillCurrencyMetadata = async () => {
+  const currencies = await prisma.currency.findMany({ orderBy: { id: 'asc' } });
+  const takenCodes = new Set(currencies.flatMap(c => c.cur_code ? [c.cur_code] : []));
+
+  let updated = 0;
+  const unmatched: { id: number; cur_name: string; cur_symbol: string; reason: string }[] = [];
+
+  for (const currency of currencies.filter(c => !c.cur_code)) {
+    const metadata = matchCurrencyMetadata(currency);
+
+    if (!metadata) {
+      unmatched.push({ id: currency.id, cur_name: currency.cur_name, cur_symbol: currency.cur_symbol, reason: 'No matching currency' });
+      continue;
+    }
+
+    if (takenCodes.has(metadata.code)) {
+      unmatched.push({ id: currency.id, cur_name: currency.cur_name, cur_symbol: currency.cur_symbol, reason: `${metadata.code} is already used` });
+      continue;
+    }
+
+    await prisma.currency.update({
+      where: { id: currency.id },
+      data: { cur_code: metadata.code, cur_minor_units: metadata.minorUnits, cur_locale: metadata.locale },
+    });
+    takenCodes.add(metadata.code);
+    updated++;
+  }
+
+  return { updated, unmatched };
+};
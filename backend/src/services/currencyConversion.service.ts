@@ -0,0 +1,373 @@
+/**
+ * Currency Conversion Service
+ *
+ * Changing the preferred currency on its own only relabels stored amounts.
+ * Conversion re-denominates every amount held in the preferred currency at one
+ * rate, so $5,000 becomes ¥750,000 instead of ¥5,000. Entities with a currency
+ * of their own keep their native amounts. Pending planned changes and the
+ * events of branches that fork on or after the switch are replayed in the new
+ * currency, so their amounts are converted as well.
+ */
+
+import prisma from '../config/database.config.js';
+import { Currency } from '@prisma/client';
+import { createEvent, TransactionClient } from './event.service.js';
+import { loadFxRates } from './currency.service.js';
+import { toAssetEventValue, toLiabilityEventValue } from './balanceSheet.service.js';
+import { toIncomeEventValue } from './income.service.js';
+import { toBudgetEventValue, toExpenseEventValue } from './expense.service.js';
+import { toCashAccountEventValue } from './cashSavings.service.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+import { applyRate, convertEventPayload, getExchangeRate } from '../domain/financial/fx.js';
+import { ScenarioChange, convertScenarioChanges } from '../domain/financial/scenarios.js';
+import { PlannedChangeStatus } from '../domain/financial/plannedChanges.js';
+import { GOAL_METRICS, GOAL_METRIC_DETAILS } from '../domain/financial/goals.js';
+
+/** Goal metrics measured in money, whose targets follow the preferred currency */
+const CURRENCY_GOAL_METRICS = GOAL_METRICS.filter(metric => GOAL_METRIC_DETAILS[metric].unit === 'CURRENCY');
+
+/**
+ * One amount that changes when the preferred currency is converted
+ */
+export interface ConversionItem {
+  entityType: EntityType;
+  entityId: number;
+  name: string;
+  field: 'amount' | 'value' | 'minimumPayment' | 'monthlyLimit';
+  before: number;
+  after: number;
+}
+
+export interface CurrencyConversionPreview {
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  /** Units of the new currency per unit of the old one */
+  rate: number;
+  items: ConversionItem[];
+}
+
+/**
+ * Load everything held in the user's preferred currency and the rate to convert it
+ * A supplied rate wins over the stored one
+ */
+async function loadConversionPlan(userId: number, currencyId: number, rate?: number) {
+  const [user, toCurrency] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      include: { PreferredCurrency: true },
+    }),
+    prisma.currency.findUnique({ where: { id: currencyId } }),
+  ]);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!toCurrency) {
+    throw new Error('Currency not found');
+  }
+
+  if (toCurrency.id === user.preferredCurrencyId) {
+    throw new Error('Currency is already the preferred currency');
+  }
+
+  const resolvedRate = rate ?? getExchangeRate(await loadFxRates(), user.preferredCurrencyId, toCurrency.id);
+
+  if (resolvedRate === null) {
+    throw new Error('No exchange rate between these currencies');
+  }
+
+  // Branches forked before today replay without the switch, in the old currency
+  const today = new Date(new Date().toISOString().slice(0, 10));
+
+  const [
+    assets,
+    liabilities,
+    incomeLines,
+    expenses,
+    cashAccounts,
+    budgets,
+    payoffPlan,
+    goals,
+    transactions,
+    plannedChanges,
+    scenarioEvents,
+  ] = await Promise.all([
+    prisma.asset.findMany({ where: { currencyId: null, BalanceSheet: { userId } } }),
+    prisma.liability.findMany({ where: { currencyId: null, BalanceSheet: { userId } } }),
+    prisma.incomeLine.findMany({ where: { currencyId: null, IncomeStatement: { userId } } }),
+    prisma.expense.findMany({ where: { currencyId: null, IncomeStatement: { userId } } }),
+    prisma.cashAccount.findMany({ where: { userId }, orderBy: { id: 'asc' } }),
+    prisma.budget.findMany({
+      where: { userId },
+      include: { Expense: { select: { name: true } }, ExpenseCategory: { select: { name: true } } },
+      orderBy: { id: 'asc' },
+    }),
+    prisma.debtPayoffPlan.findUnique({ where: { userId } }),
+    prisma.goal.findMany({ where: { userId, metric: { in: CURRENCY_GOAL_METRICS } } }),
+    prisma.transaction.findMany({ where: { userId }, orderBy: { id: 'asc' } }),
+    prisma.plannedChange.findMany({
+      where: { userId, status: PlannedChangeStatus.PENDING },
+      orderBy: { id: 'asc' },
+    }),
+    prisma.scenarioEvent.findMany({
+      where: { ScenarioBranch: { userId, forkDate: { gte: today } } },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+
+  return {
+    user,
+    fromCurrency: user.PreferredCurrency,
+    toCurrency,
+    rate: resolvedRate,
+    assets,
+    liabilities,
+    incomeLines,
+    expenses,
+    cashAccounts,
+    budgets,
+    payoffPlan,
+    goals,
+    transactions,
+    plannedChanges,
+    scenarioEvents,
+  };
+}
+
+/**
+ * Show every amount that converting to a new preferred currency would change
+ */
+export async function previewCurrencyConversion(
+  userId: number,
+  currencyId: number,
+  rate?: number
+): Promise<CurrencyConversionPreview> {
+  const plan = await loadConversionPlan(userId, currencyId, rate);
+  const item = (
+    entityType: EntityType,
+    entityId: number,
+    name: string,
+    field: ConversionItem['field'],
+    amount: unknown
+  ): ConversionItem => ({
+    entityType,
+    entityId,
+    name,
+    field,
+    before: Number(amount),
+    after: applyRate(Number(amount), plan.rate),
+  });
+
+  const items = [
+    ...plan.assets.map(a => item(EntityType.ASSET, a.id, a.name, 'value', a.value)),
+    ...plan.liabilities.flatMap(l => [
+      item(EntityType.LIABILITY, l.id, l.name, 'value', l.value),
+      ...(l.minimumPayment !== null
+        ? [item(EntityType.LIABILITY, l.id, l.name, 'minimumPayment', l.minimumPayment)]
+        : []),
+    ]),
+    ...plan.incomeLines.map(i => item(EntityType.INCOME, i.id, i.name, 'amount', i.amount)),
+    ...plan.expenses.map(e => item(EntityType.EXPENSE, e.id, e.name, 'amount', e.amount)),
+    ...plan.cashAccounts.map(c => item(EntityType.CASH_SAVINGS, c.id, c.name, 'amount', c.amount)),
+    ...plan.budgets.map(b => item(EntityType.BUDGET, b.id, b.Expense?.name ?? b.ExpenseCategory?.name ?? 'Budget', 'monthlyLimit', b.monthlyLimit)),
+  ];
+
+  return {
+    fromCurrency: plan.fromCurrency,
+    toCurrency: plan.toCurrency,
+    rate: plan.rate,
+    items,
+  };
+}
+
+/**
+ * Change the preferred currency and re-denominate every amount held in it
+ * The currency change and every converted amount are written in one
+ * transaction, each with its own UPDATE event, so history replays the switch
+ */
+export async function convertUserCurrency(userId: number, currencyId: number, rate?: number) {
+  const plan = await loadConversionPlan(userId, currencyId, rate);
+  const convert = (amount: unknown) => applyRate(Number(amount), plan.rate);
+
+  // Expense payloads resolve category paths, so build them before the transaction
+  const expenseValues = await Promise.all(plan.expenses.map(async expense => ({
+    expense,
+    before: await toExpenseEventValue(userId, expense),
+  })));
+
+  return await prisma.$transaction(async (tx) => {
+    const db = tx as unknown as TransactionClient;
+
+    // The USER event comes first so replay switches currency before the new amounts land
+    const updatedUser = await tx.user.update({
+      where: { id: userId },
+      data: { preferredCurrencyId: plan.toCurrency.id },
+      include: { PreferredCurrency: true },
+    });
+
+    await createEvent({
+      actionType: ActionType.UPDATE,
+      entityType: EntityType.USER,
+      userId,
+      entityId: userId,
+      beforeValue: {
+        preferredCurrencyId: plan.fromCurrency.id,
+        currencyCode: plan.fromCurrency.cur_symbol,
+        currencyName: plan.fromCurrency.cur_name,
+      },
+      afterValue: {
+        preferredCurrencyId: plan.toCurrency.id,
+        currencyCode: plan.toCurrency.cur_symbol,
+        currencyName: plan.toCurrency.cur_name,
+        conversionRate: plan.rate,
+      },
+    }, db);
+
+    for (const asset of plan.assets) {
+      const updated = await tx.asset.update({
+        where: { id: asset.id },
+        data: { value: convert(asset.value) },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.ASSET,
+        userId,
+        entityId: asset.id,
+        beforeValue: toAssetEventValue(asset),
+        afterValue: toAssetEventValue(updated),
+      }, db);
+    }
+
+    for (const liability of plan.liabilities) {
+      const updated = await tx.liability.update({
+        where: { id: liability.id },
+        data: {
+          value: convert(liability.value),
+          minimumPayment: liability.minimumPayment !== null ? convert(liability.minimumPayment) : null,
+        },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.LIABILITY,
+        userId,
+        entityId: liability.id,
+        beforeValue: toLiabilityEventValue(liability),
+        afterValue: toLiabilityEventValue(updated),
+      }, db);
+    }
+
+    for (const incomeLine of plan.incomeLines) {
+      const updated = await tx.incomeLine.update({
+        where: { id: incomeLine.id },
+        data: { amount: convert(incomeLine.amount) },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.INCOME,
+        entitySubtype: updated.type,
+        userId,
+        entityId: incomeLine.id,
+        beforeValue: toIncomeEventValue(incomeLine),
+        afterValue: toIncomeEventValue(updated),
+      }, db);
+    }
+
+    for (const { expense, before } of expenseValues) {
+      const amount = convert(expense.amount);
+      await tx.expense.update({
+        where: { id: expense.id },
+        data: { amount },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.EXPENSE,
+        userId,
+        entityId: expense.id,
+        beforeValue: before,
+        afterValue: { ...before, amount },
+      }, db);
+    }
+
+    for (const account of plan.cashAccounts) {
+      const updated = await tx.cashAccount.update({
+        where: { id: account.id },
+        data: { amount: convert(account.amount) },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.CASH_SAVINGS,
+        userId,
+        entityId: account.id,
+        beforeValue: toCashAccountEventValue(account),
+        afterValue: toCashAccountEventValue(updated),
+      }, db);
+    }
+
+    // Budget limits are compared with preferred-currency spending
+    for (const budget of plan.budgets) {
+      const updated = await tx.budget.update({
+        where: { id: budget.id },
+        data: { monthlyLimit: convert(budget.monthlyLimit) },
+      });
+      await createEvent({
+        actionType: ActionType.UPDATE,
+        entityType: EntityType.BUDGET,
+        userId,
+        entityId: budget.id,
+        beforeValue: toBudgetEventValue(budget),
+        afterValue: toBudgetEventValue(updated),
+      }, db);
+    }
+
+    // The payoff plan's extra payment is a preferred-currency amount too
+    if (plan.payoffPlan) {
+      await tx.debtPayoffPlan.update({
+        where: { id: plan.payoffPlan.id },
+        data: { extraPayment: convert(plan.payoffPlan.extraPayment) },
+      });
+    }
+
+    // So are the targets of money goals, and the values their progress is measured from
+    for (const goal of plan.goals) {
+      await tx.goal.update({
+        where: { id: goal.id },
+        data: { targetValue: convert(goal.targetValue), startValue: convert(goal.startValue) },
+      });
+    }
+
+    // Transactions move the cash accounts, so their amounts follow them into the new currency
+    for (const transaction of plan.transactions) {
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: { amount: convert(transaction.amount) },
+      });
+    }
+
+    // Pending planned changes materialize after the switch, in the new currency
+    for (const plannedChange of plan.plannedChanges) {
+      await tx.plannedChange.update({
+        where: { id: plannedChange.id },
+        data: {
+          changes: convertScenarioChanges(plannedChange.changes as unknown as ScenarioChange[], plan.rate) as unknown as object[],
+        },
+      });
+    }
+
+    // Branches forked from today on replay the switch before their own events
+    for (const scenarioEvent of plan.scenarioEvents) {
+      const convertPayload = (payload: unknown) => payload
+        ? convertEventPayload(scenarioEvent.entityType, payload as Record<string, any>, plan.rate)
+        : undefined;
+      await tx.scenarioEvent.update({
+        where: { id: scenarioEvent.id },
+        data: {
+          beforeValue: convertPayload(scenarioEvent.beforeValue),
+          afterValue: convertPayload(scenarioEvent.afterValue),
+        },
+      });
+    }
+
+    return updatedUser;
+  });
+}
@@ -0,0 +1,104 @@
+import prisma from '../config/database.config.js';
+import { toMonthlyAmount } from '../domain/financial/frequency.js';
+import { isActiveOn, toActivePeriod } from '../domain/financial/activePeriods.js';
+import { toLoanTerms } from '../domain/financial/amortization.js';
+import {
+  PAYOFF_STRATEGIES,
+  PayoffPlan,
+  PayoffStrategy,
+  calculateDebtToIncome,
+  calculateWeightedAverageRate,
+  simulatePayoff,
+  toPayoffDebts
+} from '../domain/financial/debtPayoff.js';
+import { convertEntityAmount } from '../domain/financial/fx.js';
+import { loadUserFx } from './currency.service.js';
+
+interface PayoffComparisonOptions {
+  extraPayment?: number;
+  customOrder?: number[];
+}
+
+/**
+ * Get the payoff plan a user picked, or null if they have not picked one
+ */
+export async function getDebtPayoffPlan(userId: number): Promise<PayoffPlan | null> {
+  const plan = await prisma.debtPayoffPlan.findUnique({ where: { userId } });
+
+  if (!plan) {
+    return null;
+  }
+
+  return {
+    strategy: plan.strategy as PayoffStrategy,
+    extraPayment: Number(plan.extraPayment),
+    customOrder: plan.customOrder
+  };
+}
+
+/**
+ * Save the payoff plan used by the freedom-date projection
+ */
+export async function saveDebtPayoffPlan(userId: number, plan: PayoffPlan): Promise<PayoffPlan> {
+  await prisma.debtPayoffPlan.upsert({
+    where: { userId },
+    create: { userId, ...plan },
+    update: plan
+  });
+
+  return plan;
+}
+
+/**
+ * Simulate every payoff strategy across the user's liabilities
+ * The extra payment and custom order default to the saved plan;
+ * balances, payments and income are compared in the preferred currency
+ */
+export async function compareDebtPayoffStrategies(userId: number, options: PayoffComparisonOptions = {}) {
+  const savedPlan = await getDebtPayoffPlan(userId);
+  const extraPayment = options.extraPayment ?? savedPlan?.extraPayment ?? 0;
+  const customOrder = options.customOrder ?? savedPlan?.customOrder ?? [];
+
+  const balanceSheet = await prisma.balanceSheet.findFirst({
+    where: { userId },
+    include: { Liability: true }
+  });
+
+  const incomeStatement = await prisma.incomeStatement.findFirst({
+    where: { userId },
+    include: { IncomeLine: true }
+  });
+
+  const fx = await loadUserFx(userId);
+  const toPreferred = (amount: unknown, currencyId: number | null) =>
+    convertEntityAmount(Number(amount), currencyId, null, fx);
+
+  const debts = toPayoffDebts((balanceSheet?.Liability ?? []).map(liability => {
+    const terms = toLoanTerms(liability);
+    return {
+      id: liability.id,
+      name: liability.name,
+      value: toPreferred(liability.value, liability.currencyId),
+      ...terms,
+      minimumPayment: terms.minimumPayment !== null ? toPreferred(terms.minimumPayment, liability.currencyId) : null
+    };
+  }));
+
+  const now = new Date();
+  const monthlyIncome = (incomeStatement?.IncomeLine ?? [])
+    .filter(line => isActiveOn(toActivePeriod(line), now))
+    .reduce((sum, line) => sum + toMonthlyAmount(toPreferred(line.amount, line.currencyId), line.frequency), 0);
+  const totalMinimumPayment = debts.reduce((sum, debt) => sum + debt.minimumPayment, 0);
+
+  return {
+    extraPayment,
+    customOrder,
+    selectedStrategy: savedPlan?.strategy ?? null,
+    totalDebt: debts.reduce((sum, debt) => sum + debt.balance, 0),
+    totalMinimumPayment,
+    monthlyIncome,
+    debtToIncomeRatio: calculateDebtToIncome(totalMinimumPayment, monthlyIncome),
+    weightedAverageRate: calculateWeightedAverageRate(debts),
+    strategies: PAYOFF_STRATEGIES.map(strategy => simulatePayoff(debts, extraPayment, strategy, customOrder))
+  };
+}
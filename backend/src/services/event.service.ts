@@ -5,7 +5,8 @@ import {
   EventQueryParams,
   ActionType,
   EntityType,
-  EventData
+  EventData,
+  EventContext
 } from '../types/event.types.js';
 import { validateEventPayload } from '../domain/schemas/event.schema.js';
 
@@ -15,6 +16,29 @@ export type TransactionClient = Omit<
   '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
 >;
 
+const STALE_EFFECTIVE_DATE_ERROR = 'Effective date cannot be before the latest change to this entity';
+
+/**
+ * Whether an error is createEvent rejecting an effective date before the entity's latest event
+ */
+export function isStaleEffectiveDateError(error: unknown): error is Error {
+  return error instanceof Error && error.message.startsWith(STALE_EFFECTIVE_DATE_ERROR);
+}
+
+/**
+ * Run a write and its event in the caller's transaction, or in a new one when none is given
+ * Lets a revert check, change and log an entity as one unit
+ */
+export async function runInTransaction<T>(
+  tx: TransactionClient | undefined,
+  operation: (tx: TransactionClient) => Promise<T>
+): Promise<T> {
+  if (tx) {
+    return await operation(tx);
+  }
+  return await prisma.$transaction(async (client) => await operation(client as unknown as TransactionClient));
+}
+
 /**
  * Create an immutable event log
  * This function should be called automatically whenever a financial action occurs
@@ -35,9 +59,29 @@ export async function createEvent(
       beforeValue,
       afterValue,
       userId,
-      entityId
+      entityId,
+      effectiveDate,
+      source,
+      revertsEventId,
+      clampToLatest,
+      onEventRecorded
     } = params;
 
+    // Replay orders events by effective date, so an event dated before the
+    // entity's latest one would be undone by it while the live row already
+    // holds this change. A requested date on an earlier day is rejected unless
+    // the caller asks for it to be moved; a later time on the same day, or an
+    // undated change behind a future-dated event, is recorded at the latest one's date
+    const requestedDate = effectiveDate ?? new Date();
+    const latestEffectiveDate = await getLatestEffectiveDate(userId, entityType, entityId, tx);
+    const toDay = (date: Date) => date.toISOString().slice(0, 10);
+    if (effectiveDate && latestEffectiveDate && !clampToLatest && toDay(effectiveDate) < toDay(latestEffectiveDate)) {
+      throw new Error(`${STALE_EFFECTIVE_DATE_ERROR}, on ${toDay(latestEffectiveDate)}`);
+    }
+    const recordedDate = latestEffectiveDate && latestEffectiveDate > requestedDate
+      ? latestEffectiveDate
+      : effectiveDate;
+
     // Validate payloads against Zod schemas
     if (beforeValue !== null && beforeValue !== undefined) {
       validateEventPayload(entityType, beforeValue);
@@ -54,10 +98,20 @@ export async function createEvent(
         beforeValue: beforeValue ?? Prisma.DbNull,
         afterValue: afterValue ?? Prisma.DbNull,
         userId,
-        entityId
+        entityId,
+        ...(recordedDate ? { effectiveDate: recordedDate } : {}),
+        ...(source ? { source } : {}),
+        ...(revertsEventId ? { revertsEventId } : {})
       } as any
     });
 
+    // An explicit effective date rewrites history: cached checkpoints
+    // from that point on no longer match the event stream
+    if (recordedDate) {
+      await invalidateSnapshotsFrom(userId, recordedDate, tx);
+    }
+
+    onEventRecorded?.(event.id);
     return event;
   } catch (error) {
     console.error('Error creating event:', error);
@@ -65,8 +119,55 @@ export async function createEvent(
   }
 }
 
+/**
+ * Effective date of the latest event recorded for one entity
+ * @param tx - Optional transaction client for atomic operations
+ * @returns The date, or null when the entity has no events yet
+ */
+export async function getLatestEffectiveDate(
+  userId: number,
+  entityType: EntityType,
+  entityId: number,
+  tx?: TransactionClient
+): Promise<Date | null> {
+  const db = tx ?? prisma;
+
+  const latestEvent = await db.event.findFirst({
+    where: { userId, entityType, entityId },
+    orderBy: [{ effectiveDate: 'desc' }, { id: 'desc' }],
+    select: { effectiveDate: true }
+  });
+
+  return latestEvent?.effectiveDate ?? null;
+}
+
+/**
+ * Delete cached FinancialSnapshot rows dated on or after the given date
+ * They are rebuilt from the event stream on the next checkpoint pass
+ * @param tx - Optional transaction client for atomic operations
+ * @returns Number of snapshots removed
+ */
+export async function invalidateSnapshotsFrom(
+  userId: number,
+  fromDate: Date,
+  tx?: TransactionClient
+): Promise<number> {
+  const db = tx ?? prisma;
+
+  const result = await db.financialSnapshot.deleteMany({
+    where: {
+      userId,
+      date: { gte: fromDate }
+    }
+  });
+
+  return result.count;
+}
+
 /**
  * Get events for a specific user with optional filters
+ * dateField selects whether the date range and ordering use the recorded
+ * timestamp (audit view, default) or the effective date (state replay)
  */
 export async function getEventsByUser(params: EventQueryParams) {
   const {
@@ -74,6 +175,7 @@ export async function getEventsByUser(params: EventQueryParams) {
     entityType,
     startDate,
     endDate,
+    dateField = 'timestamp',
     limit = 100,
     offset = 0,
     search
@@ -92,12 +194,12 @@ export async function getEventsByUser(params: EventQueryParams) {
   }
 
   if (startDate || endDate) {
-    where.timestamp = {};
+    where[dateField] = {};
     if (startDate) {
-      where.timestamp.gte = startDate;
+      where[dateField].gte = startDate;
     }
     if (endDate) {
-      where.timestamp.lte = endDate;
+      where[dateField].lte = endDate;
     }
   }
 
@@ -123,9 +225,10 @@ export async function getEventsByUser(params: EventQueryParams) {
 
   const events = await prisma.event.findMany({
     where,
-    orderBy: {
-      timestamp: 'desc'
-    },
+    orderBy: [
+      { [dateField]: 'desc' },
+      { id: 'desc' }
+    ],
     take: limit,
     skip: offset
   });
@@ -199,46 +302,68 @@ export async function getEventCount(userId: number, entityType?: EntityType, sea
 
 /**
  * Helper function to log income events
+ * @param tx - Optional transaction client for atomic operations
  */
 export async function logIncomeEvent(
   actionType: ActionType,
   userId: number,
   entityId: number,
   beforeValue?: EventData,
-  afterValue?: EventData
+  afterValue?: EventData,
+  tx?: TransactionClient,
+  context?: EventContext
 ) {
   const subtype = afterValue?.type || beforeValue?.type || null;
 
-  return await createEvent({
-    actionType,
-    entityType: EntityType.INCOME,
-    entitySubtype: subtype,
-    beforeValue: beforeValue || null,
-    afterValue: afterValue || null,
-    userId,
-    entityId
-  });
+  return await createEvent(
+    {
+      actionType,
+      entityType: EntityType.INCOME,
+      entitySubtype: subtype,
+      beforeValue: beforeValue || null,
+      afterValue: afterValue || null,
+      userId,
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
+    },
+    tx
+  );
 }
 
 /**
  * Helper function to log expense events
+ * @param tx - Optional transaction client for atomic operations
  */
 export async function logExpenseEvent(
   actionType: ActionType,
   userId: number,
   entityId: number,
   beforeValue?: EventData,
-  afterValue?: EventData
+  afterValue?: EventData,
+  tx?: TransactionClient,
+  context?: EventContext
 ) {
-  return await createEvent({
-    actionType,
-    entityType: EntityType.EXPENSE,
-    entitySubtype: null,
-    beforeValue: beforeValue || null,
-    afterValue: afterValue || null,
-    userId,
-    entityId
-  });
+  return await createEvent(
+    {
+      actionType,
+      entityType: EntityType.EXPENSE,
+      entitySubtype: null,
+      beforeValue: beforeValue || null,
+      afterValue: afterValue || null,
+      userId,
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
+    },
+    tx
+  );
 }
 
 /**
@@ -251,7 +376,8 @@ export async function logAssetEvent(
   entityId: number,
   beforeValue?: EventData,
   afterValue?: EventData,
-  tx?: TransactionClient
+  tx?: TransactionClient,
+  context?: EventContext
 ) {
   return await createEvent(
     {
@@ -261,7 +387,12 @@ export async function logAssetEvent(
       beforeValue: beforeValue || null,
       afterValue: afterValue || null,
       userId,
-      entityId
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
     },
     tx
   );
@@ -277,7 +408,8 @@ export async function logLiabilityEvent(
   entityId: number,
   beforeValue?: EventData,
   afterValue?: EventData,
-  tx?: TransactionClient
+  tx?: TransactionClient,
+  context?: EventContext
 ) {
   return await createEvent(
     {
@@ -287,7 +419,12 @@ export async function logLiabilityEvent(
       beforeValue: beforeValue || null,
       afterValue: afterValue || null,
       userId,
-      entityId
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
     },
     tx
   );
@@ -295,23 +432,66 @@ export async function logLiabilityEvent(
 
 /**
  * Helper function to log cash savings events
+ * @param tx - Optional transaction client for atomic operations
  */
 export async function logCashSavingsEvent(
   actionType: ActionType,
   userId: number,
   entityId: number,
   beforeValue?: EventData,
-  afterValue?: EventData
+  afterValue?: EventData,
+  tx?: TransactionClient,
+  context?: EventContext
 ) {
-  return await createEvent({
-    actionType,
-    entityType: EntityType.CASH_SAVINGS,
-    entitySubtype: null,
-    beforeValue: beforeValue || null,
-    afterValue: afterValue || null,
-    userId,
-    entityId
-  });
+  return await createEvent(
+    {
+      actionType,
+      entityType: EntityType.CASH_SAVINGS,
+      entitySubtype: null,
+      beforeValue: beforeValue || null,
+      afterValue: afterValue || null,
+      userId,
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
+    },
+    tx
+  );
+}
+
+/**
+ * Helper function to log budget events
+ * @param tx - Optional transaction client for atomic operations
+ */
+export async function logBudgetEvent(
+  actionType: ActionType,
+  userId: number,
+  entityId: number,
+  beforeValue?: EventData,
+  afterValue?: EventData,
+  tx?: TransactionClient,
+  context?: EventContext
+) {
+  return await createEvent(
+    {
+      actionType,
+      entityType: EntityType.BUDGET,
+      entitySubtype: null,
+      beforeValue: beforeValue || null,
+      afterValue: afterValue || null,
+      userId,
+      entityId,
+      effectiveDate: context?.effectiveDate,
+      source: context?.source,
+      revertsEventId: context?.revertsEventId,
+      clampToLatest: context?.clampToLatest,
+      onEventRecorded: context?.onEventRecorded
+    },
+    tx
+  );
 }
 
 /**
@@ -322,7 +502,8 @@ export async function logUserEvent(
   userId: number,
   entityId: number,
   beforeValue?: EventData,
-  afterValue?: EventData
+  afterValue?: EventData,
+  context?: EventContext
 ) {
   return await createEvent({
     actionType,
@@ -331,7 +512,12 @@ export async function logUserEvent(
     beforeValue: beforeValue || null,
     afterValue: afterValue || null,
     userId,
-    entityId
+    entityId,
+    effectiveDate: context?.effectiveDate,
+    source: context?.source,
+    revertsEventId: context?.revertsEventId,
+    clampToLatest: context?.clampToLatest,
+    onEventRecorded: context?.onEventRecorded
   });
 }
 
@@ -1,10 +1,83 @@
 import prisma from '../config/database.config.js';
-import { logExpenseEvent } from './event.service.js';
-import { ActionType } from '../types/event.types.js';
+import { getEventsByUser, logBudgetEvent, logExpenseEvent, runInTransaction, TransactionClient } from './event.service.js';
+import { ActionType, DecimalLike, EntityType, Event, EventContext } from '../types/event.types.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import { resolveExpenseCategory } from './expenseCategory.service.js';
+import { verifyAssetOwnership, verifyLiabilityOwnership } from './balanceSheet.service.js';
+import { loadUserFx, verifyCurrency } from './currency.service.js';
+import { getLedgerEntries } from './transaction.service.js';
+import { convertEntityAmount } from '../domain/financial/fx.js';
+import {
+  createEmptyState,
+  resolveInitialCurrency,
+  rootReducer,
+  getEffectiveDate,
+  compareEventsByEffectiveDate
+} from '../domain/financial/reducers.js';
+import { TransactionDirection, getMonthRange } from '../domain/financial/transactions.js';
+import {
+  BudgetDefinition,
+  BudgetMonthInput,
+  BudgetMonthReport,
+  BudgetRollover,
+  BudgetSpending,
+  applyBudgetEvent,
+  calculateBudgetHistory,
+  listMonths
+} from '../domain/financial/budgets.js';
+import { ActivePeriod, isActiveDuring, mergeActivePeriod, toActivePeriod, toActivePeriodColumns } from '../domain/financial/activePeriods.js';
 
-interface ExpenseData {
+interface BudgetData {
+  expenseId?: number | null;
+  categoryId?: number | null;
+  monthlyLimit: number;
+  rollover?: BudgetRollover;
+}
+
+interface ExpenseData extends ActivePeriod {
   name: string;
   amount: number;
+  frequency?: Frequency;
+  categoryId?: number | null;
+  assetId?: number | null;
+  /** Loan this expense pays; it stops once the loan is paid off */
+  liabilityId?: number | null;
+  /** Native currency; undefined keeps the current one, null means the preferred currency */
+  currencyId?: number | null;
+}
+
+/**
+ * Build the event payload for an expense row
+ * The category path and classification are resolved now so the event keeps them
+ */
+export async function toExpenseEventValue(
+  userId: number,
+  expense: {
+    name: string;
+    amount: number | DecimalLike;
+    frequency: string;
+    categoryId: number | null;
+    assetId: number | null;
+    liabilityId?: number | null;
+    currencyId: number | null;
+    activeFrom?: Date | string | null;
+    activeUntil?: Date | string | null;
+  }
+) {
+  const category = await resolveExpenseCategory(userId, expense.categoryId);
+
+  return {
+    name: expense.name,
+    amount: expense.amount,
+    frequency: expense.frequency,
+    categoryId: category?.categoryId ?? null,
+    categoryPath: category?.categoryPath ?? null,
+    classification: category?.classification ?? null,
+    assetId: expense.assetId,
+    liabilityId: expense.liabilityId ?? null,
+    currencyId: expense.currencyId,
+    ...toActivePeriod(expense)
+  };
 }
 
 /**
@@ -40,8 +113,9 @@ export async function getExpenses(userId: number) {
 
 /**
  * Add a new expense for a user
+ * Uses transaction to ensure atomicity between entity creation and event logging
  */
-export async function addExpense(userId: number, data: ExpenseData) {
+export async function addExpense(userId: number, data: ExpenseData, context?: EventContext, tx?: TransactionClient) {
   // Get or create income statement
   let incomeStatement = await prisma.incomeStatement.findFirst({
     where: { userId }
@@ -53,29 +127,42 @@ export async function addExpense(userId: number, data: ExpenseData) {
     });
   }
 
+  // Throws if the category, asset or liability does not belong to the user or the currency does not exist
+  await resolveExpenseCategory(userId, data.categoryId);
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyLiabilityOwnership(userId, data.liabilityId);
+  await verifyCurrency(data.currencyId);
+
   try {
-    // Create expense with proper type casting for amount
-    const newExpense = await prisma.expense.create({
-      data: {
-        name: data.name,
-        amount: parseFloat(data.amount.toString()), // Ensure amount is a float
-        isId: incomeStatement.id // Link to income statement
-      }
+    return await runInTransaction(tx, async (tx) => {
+      // Create expense with proper type casting for amount
+      const newExpense = await tx.expense.create({
+        data: {
+          name: data.name,
+          amount: parseFloat(data.amount.toString()), // Ensure amount is a float
+          frequency: data.frequency,
+          categoryId: data.categoryId ?? null,
+          assetId: data.assetId ?? null,
+          liabilityId: data.liabilityId ?? null,
+          currencyId: data.currencyId ?? null,
+          ...toActivePeriodColumns(data),
+          isId: incomeStatement.id // Link to income statement
+        }
+      });
+
+      // Log the CREATE event within the same transaction
+      await logExpenseEvent(
+        ActionType.CREATE,
+        userId,
+        newExpense.id,
+        undefined,
+        await toExpenseEventValue(userId, newExpense),
+        tx,
+        context
+      );
+
+      return newExpense;
     });
-    
-    // Log the CREATE event
-    await logExpenseEvent(
-      ActionType.CREATE,
-      userId,
-      newExpense.id,
-      undefined,
-      {
-        name: newExpense.name,
-        amount: newExpense.amount
-      }
-    );
-    
-    return newExpense;
   } catch (error) {
     console.error('Error creating expense:', error);
     throw error;
@@ -85,10 +172,11 @@ export async function addExpense(userId: number, data: ExpenseData) {
 /**
  * Update an expense
  * Verifies ownership before update
+ * Uses transaction so a rejected event leaves the expense unchanged
  */
-export async function updateExpense(userId: number, expenseId: number, data: ExpenseData) {
+export async function updateExpense(userId: number, expenseId: number, data: ExpenseData, context?: EventContext, tx?: TransactionClient) {
   // First verify ownership
-  const expense = await prisma.expense.findFirst({
+  const expense = await (tx ?? prisma).expense.findFirst({
     where: {
       id: expenseId,
       IncomeStatement: {
@@ -101,43 +189,57 @@ export async function updateExpense(userId: number, expenseId: number, data: Exp
     return null;
   }
 
+  // Throws if the category, asset or liability does not belong to the user or the currency does not exist
+  await resolveExpenseCategory(userId, data.categoryId);
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyLiabilityOwnership(userId, data.liabilityId);
+  await verifyCurrency(data.currencyId);
+
+  // Throws if the dates sent with the stored ones would end the expense before it starts
+  mergeActivePeriod(expense, data);
+
   // Capture before state
-  const beforeValue = {
-    name: expense.name,
-    amount: expense.amount
-  };
+  const beforeValue = await toExpenseEventValue(userId, expense);
 
-  // Update the expense
-  const updatedExpense = await prisma.expense.update({
-    where: { id: expenseId },
-    data: {
-      name: data.name,
-      amount: data.amount
-    }
-  });
+  // Update the expense; an omitted categoryId, assetId, liabilityId, currencyId or active date keeps the current value
+  return await runInTransaction(tx, async (tx) => {
+    const updatedExpense = await tx.expense.update({
+      where: { id: expenseId },
+      data: {
+        name: data.name,
+        amount: data.amount,
+        frequency: data.frequency,
+        categoryId: data.categoryId,
+        assetId: data.assetId,
+        liabilityId: data.liabilityId,
+        currencyId: data.currencyId,
+        ...toActivePeriodColumns(data)
+      }
+    });
 
-  // Log the UPDATE event
-  await logExpenseEvent(
-    ActionType.UPDATE,
-    userId,
-    expenseId,
-    beforeValue,
-    {
-      name: updatedExpense.name,
-      amount: updatedExpense.amount
-    }
-  );
+    // Log the UPDATE event within the same transaction
+    await logExpenseEvent(
+      ActionType.UPDATE,
+      userId,
+      expenseId,
+      beforeValue,
+      await toExpenseEventValue(userId, updatedExpense),
+      tx,
+      context
+    );
 
-  return updatedExpense;
+    return updatedExpense;
+  });
 }
 
 /**
  * Delete an expense
  * Verifies ownership before deletion
+ * Uses transaction so a rejected event leaves the expense in place
  */
-export async function deleteExpense(userId: number, expenseId: number) {
+export async function deleteExpense(userId: number, expenseId: number, context?: EventContext, tx?: TransactionClient) {
   // First verify ownership
-  const expense = await prisma.expense.findFirst({
+  const expense = await (tx ?? prisma).expense.findFirst({
     where: {
       id: expenseId,
       IncomeStatement: {
@@ -151,24 +253,282 @@ export async function deleteExpense(userId: number, expenseId: number) {
   }
 
   // Capture before state for event log
-  const beforeValue = {
-    name: expense.name,
-    amount: expense.amount
+  const beforeValue = await toExpenseEventValue(userId, expense);
+
+  await runInTransaction(tx, async (tx) => {
+    // Delete the expense
+    await tx.expense.delete({
+      where: { id: expenseId }
+    });
+
+    // Log the DELETE event (entity is deleted but event remains)
+    await logExpenseEvent(
+      ActionType.DELETE,
+      userId,
+      expenseId,
+      beforeValue,
+      undefined,
+      tx,
+      context
+    );
+  });
+
+  return true;
+}
+/**
+ * Build the event payload for a budget row
+ */
+export function toBudgetEventValue(budget: {
+  expenseId: number | null;
+  categoryId: number | null;
+  monthlyLimit: number | DecimalLike;
+  rollover: string;
+}) {
+  return {
+    expenseId: budget.expenseId,
+    categoryId: budget.categoryId,
+    monthlyLimit: budget.monthlyLimit,
+    rollover: budget.rollover
   };
+}
+
+/**
+ * Get all budgets for a user
+ */
+export async function getBudgets(userId: number) {
+  return await prisma.budget.findMany({
+    where: { userId },
+    orderBy: { id: 'asc' }
+  });
+}
+
+/**
+ * Add a monthly budget for one expense or one category
+ * Throws when the target does not belong to the user or already has a budget
+ */
+export async function addBudget(userId: number, data: BudgetData, context?: EventContext) {
+  if (data.expenseId != null) {
+    const expense = await prisma.expense.findFirst({
+      where: { id: data.expenseId, IncomeStatement: { userId } }
+    });
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+  } else {
+    await resolveExpenseCategory(userId, data.categoryId);
+  }
+
+  const existing = await prisma.budget.findFirst({
+    where: data.expenseId != null
+      ? { userId, expenseId: data.expenseId }
+      : { userId, categoryId: data.categoryId ?? null }
+  });
+  if (existing) {
+    throw new Error('Budget already exists');
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const budget = await tx.budget.create({
+      data: {
+        userId,
+        expenseId: data.expenseId ?? null,
+        categoryId: data.expenseId != null ? null : data.categoryId ?? null,
+        monthlyLimit: data.monthlyLimit,
+        rollover: data.rollover ?? BudgetRollover.NONE
+      }
+    });
+
+    await logBudgetEvent(
+      ActionType.CREATE,
+      userId,
+      budget.id,
+      undefined,
+      toBudgetEventValue(budget),
+      tx as unknown as TransactionClient,
+      context
+    );
+
+    return budget;
+  });
+}
+
+/**
+ * Update the limit or rollover rule of a budget
+ * The expense or category a budget covers cannot change
+ * Uses transaction so a rejected event leaves the budget unchanged
+ */
+export async function updateBudget(
+  userId: number,
+  budgetId: number,
+  data: Pick<BudgetData, 'monthlyLimit' | 'rollover'>,
+  context?: EventContext
+) {
+  const budget = await prisma.budget.findFirst({
+    where: { id: budgetId, userId }
+  });
+
+  if (!budget) {
+    return null;
+  }
+
+  const beforeValue = toBudgetEventValue(budget);
+
+  return await prisma.$transaction(async (tx) => {
+    const updatedBudget = await tx.budget.update({
+      where: { id: budgetId },
+      data: {
+        monthlyLimit: data.monthlyLimit,
+        rollover: data.rollover
+      }
+    });
+
+    await logBudgetEvent(
+      ActionType.UPDATE,
+      userId,
+      budgetId,
+      beforeValue,
+      toBudgetEventValue(updatedBudget),
+      tx as unknown as TransactionClient,
+      context
+    );
+
+    return updatedBudget;
+  });
+}
+
+/**
+ * Delete a budget
+ */
+export async function deleteBudget(userId: number, budgetId: number, context?: EventContext) {
+  const budget = await prisma.budget.findFirst({
+    where: { id: budgetId, userId }
+  });
+
+  if (!budget) {
+    return null;
+  }
+
+  const beforeValue = toBudgetEventValue(budget);
 
-  // Delete the expense
-  await prisma.expense.delete({
-    where: { id: expenseId }
+  await prisma.$transaction(async (tx) => {
+    await tx.budget.delete({
+      where: { id: budgetId }
+    });
+
+    await logBudgetEvent(
+      ActionType.DELETE,
+      userId,
+      budgetId,
+      beforeValue,
+      undefined,
+      tx as unknown as TransactionClient,
+      context
+    );
   });
 
-  // Log the DELETE event (entity is deleted but event remains)
-  await logExpenseEvent(
-    ActionType.DELETE,
+  return true;
+}
+
+/**
+ * Replay the event stream month by month into budget reports
+ * Budgets and planned expenses are taken as they stood at the end of each
+ * month, so past months keep the limits that applied then. History starts
+ * at the first budget event so carry-over is complete. Limits and expenses
+ * recorded before a currency change are converted to the preferred currency
+ * at current rates, like the ledger amounts they are compared with. Only
+ * expenses active on some day of a month are planned for it.
+ * @param lastMonth - YYYY-MM of the last month to report
+ */
+async function buildBudgetHistory(userId: number, lastMonth: string): Promise<BudgetMonthReport[]> {
+  const [events, fx, categories] = await Promise.all([
+    getEventsByUser({ userId, limit: 100000 }),
+    loadUserFx(userId),
+    prisma.expenseCategory.findMany({ where: { userId }, select: { id: true, parentId: true } })
+  ]);
+
+  const typedEvents = (events as unknown as Event[]).sort(compareEventsByEffectiveDate);
+  const firstBudgetEvent = typedEvents.find(event => event.entityType === EntityType.BUDGET);
+  const firstMonth = firstBudgetEvent
+    ? getEffectiveDate(firstBudgetEvent).toISOString().slice(0, 7)
+    : lastMonth;
+  const months = listMonths(firstMonth < lastMonth ? firstMonth : lastMonth, lastMonth);
+
+  const entries = await getLedgerEntries(
     userId,
-    expenseId,
-    beforeValue,
-    undefined
+    getMonthRange(months[0]!).start,
+    getMonthRange(lastMonth).end
   );
+  const spendingByMonth = new Map<string, BudgetSpending[]>();
+  for (const entry of entries) {
+    if (entry.direction === TransactionDirection.INFLOW) continue;
+    const month = entry.date.toISOString().slice(0, 7);
+    spendingByMonth.set(month, [...(spendingByMonth.get(month) ?? []), entry]);
+  }
 
-  return true;
-}
\ No newline at end of file
+  const parents = new Map(categories.map(category => [category.id, category.parentId]));
+
+  // The replayed state tracks the preferred currency each amount was recorded in
+  let state = createEmptyState(resolveInitialCurrency(typedEvents, { id: fx.preferredCurrencyId, symbol: '$', name: 'USD' }));
+  let budgets = new Map<number, BudgetDefinition>();
+  let eventIndex = 0;
+
+  const inputs: BudgetMonthInput[] = months.map(month => {
+    const { start, end } = getMonthRange(month);
+
+    while (eventIndex < typedEvents.length && getEffectiveDate(typedEvents[eventIndex]!) < end) {
+      const event = typedEvents[eventIndex]!;
+      if (event.entityType === EntityType.BUDGET) {
+        budgets = applyBudgetEvent(budgets, event);
+        // A limit is recorded in the currency preferred at the time
+        const budget = budgets.get(event.entityId);
+        if (budget) {
+          budgets.set(event.entityId, {
+            ...budget,
+            monthlyLimit: convertEntityAmount(budget.monthlyLimit, state.currency.id, null, fx)
+          });
+        }
+      } else {
+        state = rootReducer(state, event);
+      }
+      eventIndex++;
+    }
+
+    // A budget outlives its target only in the event stream; skip it once the target is gone
+    const activeBudgets = Array.from(budgets.values()).filter(budget =>
+      budget.expenseId !== null ? state.expenses.has(budget.expenseId) : parents.has(budget.categoryId!)
+    );
+
+    return {
+      month,
+      budgets: activeBudgets,
+      expenses: Array.from(state.expenses.values()).filter(expense => isActiveDuring(expense, start, end)).map(expense => ({
+        id: expense.id,
+        name: expense.name,
+        amount: convertEntityAmount(expense.amount, expense.currencyId ?? state.currency.id, null, fx),
+        frequency: expense.frequency,
+        categoryId: expense.categoryId
+      })),
+      spending: spendingByMonth.get(month) ?? []
+    };
+  });
+
+  return calculateBudgetHistory(inputs, parents);
+}
+
+/**
+ * Budget vs planned vs actual for one month, carry-over included
+ * @param month - YYYY-MM
+ */
+export async function getBudgetReport(userId: number, month: string): Promise<BudgetMonthReport> {
+  const history = await buildBudgetHistory(userId, month);
+  return history[history.length - 1]!;
+}
+
+/**
+ * Budget reports for the most recent months, oldest first
+ * @param months - Number of months up to and including the current one
+ */
+export async function getBudgetHistory(userId: number, months: number): Promise<BudgetMonthReport[]> {
+  const history = await buildBudgetHistory(userId, new Date().toISOString().slice(0, 7));
+  return history.slice(-months);
+}
@@ -0,0 +1,191 @@
+import prisma from '../config/database.config.js';
+import {
+  DEFAULT_EXPENSE_CATEGORIES,
+  DefaultExpenseCategory,
+  ExpenseClassification,
+  buildCategoryPaths
+} from '../domain/financial/expenseCategories.js';
+
+interface ExpenseCategoryData {
+  name: string;
+  parentId?: number | null;
+  classification?: ExpenseClassification;
+}
+
+/**
+ * Category details copied onto expense events
+ */
+export interface ResolvedExpenseCategory {
+  categoryId: number;
+  categoryPath: string;
+  classification: ExpenseClassification;
+}
+
+/**
+ * Create the default category tree for a user who has none yet
+ */
+async function ensureDefaultCategories(userId: number) {
+  const count = await prisma.expenseCategory.count({ where: { userId } });
+
+  if (count > 0) {
+    return;
+  }
+
+  const createTree = async (nodes: DefaultExpenseCategory[], parentId: number | null) => {
+    for (const node of nodes) {
+      const category = await prisma.expenseCategory.create({
+        data: { userId, parentId, name: node.name, classification: node.classification }
+      });
+      await createTree(node.children ?? [], category.id);
+    }
+  };
+
+  await createTree(DEFAULT_EXPENSE_CATEGORIES, null);
+}
+
+/**
+ * Get all expense categories for a user as a flat list ordered by path
+ * Seeds the default tree the first time a user asks for categories
+ */
+export async function getExpenseCategories(userId: number) {
+  await ensureDefaultCategories(userId);
+
+  const categories = await prisma.expenseCategory.findMany({
+    where: { userId },
+    orderBy: { id: 'asc' }
+  });
+  const paths = buildCategoryPaths(categories);
+
+  return categories
+    .map(category => ({ ...category, path: paths.get(category.id) ?? category.name }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Map every category id of a user to its current path and classification
+ */
+export async function getExpenseCategoryIndex(userId: number): Promise<Map<number, ResolvedExpenseCategory>> {
+  const categories = await prisma.expenseCategory.findMany({ where: { userId } });
+  const paths = buildCategoryPaths(categories);
+
+  return new Map(categories.map(category => [category.id, {
+    categoryId: category.id,
+    categoryPath: paths.get(category.id) ?? category.name,
+    classification: category.classification as ExpenseClassification
+  }]));
+}
+
+/**
+ * Resolve a category id to the details recorded on expense events
+ * @returns null when no category is given, throws when it does not belong to the user
+ */
+export async function resolveExpenseCategory(
+  userId: number,
+  categoryId: number | null | undefined
+): Promise<ResolvedExpenseCategory | null> {
+  if (categoryId === null || categoryId === undefined) {
+    return null;
+  }
+
+  const resolved = (await getExpenseCategoryIndex(userId)).get(categoryId);
+
+  if (!resolved) {
+    throw new Error('Category not found');
+  }
+
+  return resolved;
+}
+
+/**
+ * Verify a parent category belongs to the user and would not create a cycle
+ */
+async function validateParent(userId: number, parentId: number | null | undefined, categoryId?: number) {
+  if (parentId === null || parentId === undefined) {
+    return;
+  }
+
+  const categories = await prisma.expenseCategory.findMany({ where: { userId } });
+  const byId = new Map(categories.map(c => [c.id, c]));
+
+  if (!byId.has(parentId)) {
+    throw new Error('Parent category not found');
+  }
+
+  // Walk up from the new parent; reaching the category itself means a cycle
+  let current = byId.get(parentId);
+  while (current) {
+    if (current.id === categoryId) {
+      throw new Error('A category cannot be nested under itself');
+    }
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+}
+
+/**
+ * Add a new expense category for a user
+ */
+export async function addExpenseCategory(userId: number, data: ExpenseCategoryData) {
+  await validateParent(userId, data.parentId);
+
+  return await prisma.expenseCategory.create({
+    data: {
+      userId,
+      name: data.name,
+      parentId: data.parentId ?? null,
+      classification: data.classification ?? ExpenseClassification.ESSENTIAL
+    }
+  });
+}
+
+/**
+ * Update an expense category
+ * Verifies ownership before update
+ */
+export async function updateExpenseCategory(userId: number, categoryId: number, data: ExpenseCategoryData) {
+  const category = await prisma.expenseCategory.findFirst({
+    where: { id: categoryId, userId }
+  });
+
+  if (!category) {
+    return null;
+  }
+
+  await validateParent(userId, data.parentId, categoryId);
+
+  return await prisma.expenseCategory.update({
+    where: { id: categoryId },
+    data: {
+      name: data.name,
+      parentId: data.parentId,
+      classification: data.classification
+    }
+  });
+}
+
+/**
+ * Delete an expense category
+ * Categories still used by expenses or subcategories cannot be deleted, so
+ * live expenses never lose their category without an event being logged
+ */
+export async function deleteExpenseCategory(userId: number, categoryId: number) {
+  const category = await prisma.expenseCategory.findFirst({
+    where: { id: categoryId, userId },
+    include: {
+      _count: { select: { Expense: true, Children: true } }
+    }
+  });
+
+  if (!category) {
+    return null;
+  }
+
+  if (category._count.Expense > 0 || category._count.Children > 0) {
+    throw new Error('Category is still used by expenses or subcategories');
+  }
+
+  await prisma.expenseCategory.delete({
+    where: { id: categoryId }
+  });
+
+  return true;
+}
@@ -0,0 +1,80 @@
+/**
+ * Expiry Service
+ *
+ * Removes income lines and expenses once their last active day has passed.
+ * Lines are deleted through the regular services, so the live tables and the
+ * event log agree that the line ended; each DELETE event is dated the day
+ * after the last active day, the moment analysis stops counting the line, or
+ * at the line's latest event when that is later (a line recorded with an end
+ * date already past), so replay never deletes a line before it was created.
+ */
+
+import prisma from '../config/database.config.js';
+import { deleteIncomeLine } from './income.service.js';
+import { deleteExpense } from './expense.service.js';
+import { getLatestEffectiveDate } from './event.service.js';
+import { EntityType, EventContext, EventSource } from '../types/event.types.js';
+import { expiryDate, toActivePeriod } from '../domain/financial/activePeriods.js';
+
+export interface ExpiryResult {
+  expired: number;
+  failed: { entityType: EntityType; entityId: number; userId: number; error: string }[];
+}
+
+interface EndedLine {
+  id: number;
+  activeUntil: Date | null;
+  IncomeStatement: { userId: number };
+}
+
+/**
+ * Delete every income line and expense whose last active day is before the day of asOf
+ * A line that cannot be deleted is reported and left for the next run.
+ */
+export async function expireEndedLines(asOf: Date = new Date()): Promise<ExpiryResult> {
+  const today = new Date(asOf.toISOString().slice(0, 10));
+  const query = {
+    where: { activeUntil: { lt: today } },
+    include: { IncomeStatement: { select: { userId: true } } },
+    orderBy: { id: 'asc' as const }
+  };
+
+  const incomeLines = await prisma.incomeLine.findMany(query);
+  const expenses = await prisma.expense.findMany(query);
+
+  const result: ExpiryResult = { expired: 0, failed: [] };
+
+  const expire = async (
+    entityType: EntityType,
+    line: EndedLine,
+    remove: (userId: number, id: number, context: EventContext) => Promise<true | null>
+  ) => {
+    const { activeUntil } = toActivePeriod(line);
+    const userId = line.IncomeStatement.userId;
+
+    try {
+      const endDate = expiryDate(activeUntil!);
+      const latest = await getLatestEffectiveDate(userId, entityType, line.id);
+
+      // Null when the user deleted the line in the meantime
+      const deleted = await remove(userId, line.id, {
+        effectiveDate: latest && latest > endDate ? latest : endDate,
+        source: EventSource.EXPIRY
+      });
+      if (deleted) result.expired++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.failed.push({ entityType, entityId: line.id, userId, error: message });
+    }
+  };
+
+  for (const line of incomeLines) {
+    await expire(EntityType.INCOME, line, deleteIncomeLine);
+  }
+
+  for (const expense of expenses) {
+    await expire(EntityType.EXPENSE, expense, deleteExpense);
+  }
+
+  return result;
+}
@@ -0,0 +1,176 @@
+/**
+ * Goal Service
+ *
+ * Stores the user's financial goals and evaluates them against the current
+ * snapshot and the trajectory of recent months. Currency targets are held in
+ * the preferred currency, like the snapshot they are compared with.
+ */
+
+import prisma from '../config/database.config.js';
+import { getFinancialSnapshot, getFinancialTrajectory } from './analysis.service.js';
+import {
+  GoalDefinition,
+  GoalMetric,
+  GoalMetricValues,
+  GoalProgress,
+  evaluateGoal,
+  readGoalMetric
+} from '../domain/financial/goals.js';
+
+interface GoalData {
+  name: string;
+  metric: GoalMetric;
+  targetValue: number;
+  deadline: Date;
+}
+
+/** Months of trajectory the on-track projection is fitted to */
+const TREND_MONTHS = 12;
+
+/**
+ * Read the metrics goals are measured against from the current snapshot
+ */
+async function loadCurrentGoalValues(userId: number): Promise<GoalMetricValues> {
+  const snapshot = await getFinancialSnapshot(userId);
+
+  return {
+    netWorth: snapshot.balanceSheet.netWorth,
+    totalCash: snapshot.balanceSheet.totalCash,
+    liquidRunway: snapshot.financialHealth.liquidRunway,
+    passiveIncome: snapshot.cashflow.passiveIncome + snapshot.cashflow.portfolioIncome,
+    totalExpenses: snapshot.cashflow.totalExpenses,
+    totalLiabilities: snapshot.balanceSheet.totalLiabilities
+  };
+}
+
+function toGoalDefinition(goal: {
+  id: number;
+  name: string;
+  metric: string;
+  targetValue: unknown;
+  deadline: Date;
+  startValue: unknown;
+}): GoalDefinition {
+  return {
+    id: goal.id,
+    name: goal.name,
+    metric: goal.metric as GoalMetric,
+    targetValue: Number(goal.targetValue),
+    deadline: goal.deadline,
+    startValue: Number(goal.startValue)
+  };
+}
+
+/**
+ * Get all goals for a user, nearest deadline first
+ */
+export async function getGoals(userId: number) {
+  return await prisma.goal.findMany({
+    where: { userId },
+    orderBy: [{ deadline: 'asc' }, { id: 'asc' }]
+  });
+}
+
+/**
+ * Add a goal; progress is measured from the metric's current value
+ */
+export async function addGoal(userId: number, data: GoalData) {
+  const current = await loadCurrentGoalValues(userId);
+
+  return await prisma.goal.create({
+    data: {
+      userId,
+      name: data.name,
+      metric: data.metric,
+      targetValue: data.targetValue,
+      deadline: data.deadline,
+      startValue: readGoalMetric(current, data.metric)
+    }
+  });
+}
+
+/**
+ * Update a goal
+ * Switching to another metric restarts progress from that metric's current value
+ */
+export async function updateGoal(userId: number, goalId: number, data: GoalData) {
+  const goal = await prisma.goal.findFirst({
+    where: { id: goalId, userId }
+  });
+
+  if (!goal) {
+    return null;
+  }
+
+  const startValue = data.metric !== goal.metric
+    ? readGoalMetric(await loadCurrentGoalValues(userId), data.metric)
+    : undefined;
+
+  return await prisma.goal.update({
+    where: { id: goalId },
+    data: {
+      name: data.name,
+      metric: data.metric,
+      targetValue: data.targetValue,
+      deadline: data.deadline,
+      startValue
+    }
+  });
+}
+
+/**
+ * Delete a goal
+ */
+export async function deleteGoal(userId: number, goalId: number) {
+  const goal = await prisma.goal.findFirst({
+    where: { id: goalId, userId }
+  });
+
+  if (!goal) {
+    return null;
+  }
+
+  await prisma.goal.delete({
+    where: { id: goalId }
+  });
+
+  return true;
+}
+
+/**
+ * Evaluate every goal: progress, projection at the deadline and the
+ * monthly change still required
+ */
+export async function getGoalProgress(userId: number): Promise<GoalProgress[]> {
+  const goals = await getGoals(userId);
+
+  if (goals.length === 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const trendStart = new Date(now);
+  trendStart.setMonth(trendStart.getMonth() - TREND_MONTHS);
+
+  const [current, trajectory] = await Promise.all([
+    loadCurrentGoalValues(userId),
+    getFinancialTrajectory(
+      userId,
+      trendStart.toISOString().slice(0, 10),
+      now.toISOString().slice(0, 10),
+      'monthly'
+    )
+  ]);
+
+  const history = trajectory.map(point => ({
+    date: new Date(point.date),
+    netWorth: point.netWorth,
+    totalCash: point.totalCash,
+    liquidRunway: point.liquidRunway,
+    passiveIncome: point.passiveIncome + point.portfolioIncome,
+    totalExpenses: point.totalExpenses,
+    totalLiabilities: point.totalLiabilities
+  }));
+
+  return goals.map(goal => evaluateGoal(toGoalDefinition(goal), current, history, now));
+}
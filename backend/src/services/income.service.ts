@@ -1,13 +1,38 @@
 import prisma from '../config/database.config.js';
-import { logIncomeEvent } from './event.service.js';
-import { ActionType } from '../types/event.types.js';
+import { IncomeLine } from '@prisma/client';
+import { logIncomeEvent, runInTransaction, TransactionClient } from './event.service.js';
+import { ActionType, EventContext } from '../types/event.types.js';
 import { determineIncomeQuadrant, IncomeQuadrant } from '../utils/incomeQuadrant.utils.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import { verifyAssetOwnership } from './balanceSheet.service.js';
+import { verifyCurrency } from './currency.service.js';
+import { ActivePeriod, mergeActivePeriod, toActivePeriod, toActivePeriodColumns } from '../domain/financial/activePeriods.js';
 
-interface IncomeLineData {
+interface IncomeLineData extends ActivePeriod {
   name: string;
   amount: number;
   type: string;
   quadrant?: IncomeQuadrant | string | null;
+  frequency?: Frequency;
+  assetId?: number | null;
+  /** Native currency; undefined keeps the current one, null means the preferred currency */
+  currencyId?: number | null;
+}
+
+/**
+ * Build the event payload for an income line row
+ */
+export function toIncomeEventValue(incomeLine: IncomeLine) {
+  return {
+    name: incomeLine.name,
+    amount: incomeLine.amount,
+    type: incomeLine.type,
+    quadrant: incomeLine.quadrant,
+    frequency: incomeLine.frequency,
+    assetId: incomeLine.assetId,
+    currencyId: incomeLine.currencyId,
+    ...toActivePeriod(incomeLine)
+  };
 }
 
 /**
@@ -43,8 +68,9 @@ export async function getIncomeLines(userId: number) {
 
 /**
  * Add a new income line for a user
+ * Uses transaction to ensure atomicity between entity creation and event logging
  */
-export async function addIncomeLine(userId: number, data: IncomeLineData) {
+export async function addIncomeLine(userId: number, data: IncomeLineData, context?: EventContext, tx?: TransactionClient) {
   // Get or create income statement
   let incomeStatement = await prisma.incomeStatement.findFirst({
     where: { userId }
@@ -56,43 +82,51 @@ export async function addIncomeLine(userId: number, data: IncomeLineData) {
     });
   }
 
+  // Throws if the asset does not belong to the user or the currency does not exist
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyCurrency(data.currencyId);
+
   // Create income line
   const resolvedQuadrant = determineIncomeQuadrant(data.type, data.quadrant as string | undefined);
 
-  const newIncomeLine = await prisma.incomeLine.create({
-    data: {
-      name: data.name,
-      amount: data.amount,
-      type: data.type,
-      quadrant: resolvedQuadrant,
-      isId: incomeStatement.id // Link to income statement
-    }
-  });
-
-  // Log the CREATE event
-  await logIncomeEvent(
-    ActionType.CREATE,
-    userId,
-    newIncomeLine.id,
-    undefined,
-    {
-      name: newIncomeLine.name,
-      amount: newIncomeLine.amount,
-      type: newIncomeLine.type,
-      quadrant: newIncomeLine.quadrant
-    }
-  );
+  return await runInTransaction(tx, async (tx) => {
+    const newIncomeLine = await tx.incomeLine.create({
+      data: {
+        name: data.name,
+        amount: data.amount,
+        type: data.type,
+        quadrant: resolvedQuadrant,
+        frequency: data.frequency,
+        assetId: data.assetId ?? null,
+        currencyId: data.currencyId ?? null,
+        ...toActivePeriodColumns(data),
+        isId: incomeStatement.id // Link to income statement
+      }
+    });
 
-  return newIncomeLine;
+    // Log the CREATE event within the same transaction
+    await logIncomeEvent(
+      ActionType.CREATE,
+      userId,
+      newIncomeLine.id,
+      undefined,
+      toIncomeEventValue(newIncomeLine),
+      tx,
+      context
+    );
+
+    return newIncomeLine;
+  });
 }
 
 /**
  * Update an income line
  * Verifies ownership before update
+ * Uses transaction so a rejected event leaves the line unchanged
  */
-export async function updateIncomeLine(userId: number, incomeLineId: number, data: IncomeLineData) {
+export async function updateIncomeLine(userId: number, incomeLineId: number, data: IncomeLineData, context?: EventContext, tx?: TransactionClient) {
   // First verify ownership
-  const incomeLine = await prisma.incomeLine.findFirst({
+  const incomeLine = await (tx ?? prisma).incomeLine.findFirst({
     where: {
       id: incomeLineId,
       IncomeStatement: {
@@ -105,51 +139,57 @@ export async function updateIncomeLine(userId: number, incomeLineId: number, dat
     return null;
   }
 
+  // Throws if the asset does not belong to the user or the currency does not exist
+  await verifyAssetOwnership(userId, data.assetId);
+  await verifyCurrency(data.currencyId);
+
+  // Throws if the dates sent with the stored ones would end the line before it starts
+  mergeActivePeriod(incomeLine, data);
+
   // Capture before state
-  const beforeValue = {
-    name: incomeLine.name,
-    amount: incomeLine.amount,
-    type: incomeLine.type,
-    quadrant: incomeLine.quadrant
-  };
+  const beforeValue = toIncomeEventValue(incomeLine);
 
-  // Update the income line
+  // Update the income line; an omitted assetId, currencyId or active date keeps the current value
   const resolvedQuadrant = determineIncomeQuadrant(data.type, data.quadrant as string | undefined);
 
-  const updatedIncomeLine = await prisma.incomeLine.update({
-    where: { id: incomeLineId },
-    data: {
-      name: data.name,
-      amount: data.amount,
-      type: data.type,
-      quadrant: resolvedQuadrant
-    }
-  });
-
-  // Log the UPDATE event
-  await logIncomeEvent(
-    ActionType.UPDATE,
-    userId,
-    incomeLineId,
-    beforeValue,
-    {
-      name: updatedIncomeLine.name,
-      amount: updatedIncomeLine.amount,
-      type: updatedIncomeLine.type,
-      quadrant: updatedIncomeLine.quadrant
-    }
-  );
+  return await runInTransaction(tx, async (tx) => {
+    const updatedIncomeLine = await tx.incomeLine.update({
+      where: { id: incomeLineId },
+      data: {
+        name: data.name,
+        amount: data.amount,
+        type: data.type,
+        quadrant: resolvedQuadrant,
+        frequency: data.frequency,
+        assetId: data.assetId,
+        currencyId: data.currencyId,
+        ...toActivePeriodColumns(data)
+      }
+    });
 
-  return updatedIncomeLine;
+    // Log the UPDATE event within the same transaction
+    await logIncomeEvent(
+      ActionType.UPDATE,
+      userId,
+      incomeLineId,
+      beforeValue,
+      toIncomeEventValue(updatedIncomeLine),
+      tx,
+      context
+    );
+
+    return updatedIncomeLine;
+  });
 }
 
 /**
  * Delete an income line
  * Verifies ownership before deletion
+ * Uses transaction so a rejected event leaves the line in place
  */
-export async function deleteIncomeLine(userId: number, incomeLineId: number) {
+export async function deleteIncomeLine(userId: number, incomeLineId: number, context?: EventContext, tx?: TransactionClient) {
   // First verify ownership
-  const incomeLine = await prisma.incomeLine.findFirst({
+  const incomeLine = await (tx ?? prisma).incomeLine.findFirst({
     where: {
       id: incomeLineId,
       IncomeStatement: {
@@ -163,26 +203,25 @@ export async function deleteIncomeLine(userId: number, incomeLineId: number) {
   }
 
   // Capture before state for event log
-  const beforeValue = {
-    name: incomeLine.name,
-    amount: incomeLine.amount,
-    type: incomeLine.type,
-    quadrant: incomeLine.quadrant
-  };
+  const beforeValue = toIncomeEventValue(incomeLine);
 
-  // Delete the income line
-  await prisma.incomeLine.delete({
-    where: { id: incomeLineId }
-  });
+  await runInTransaction(tx, async (tx) => {
+    // Delete the income line
+    await tx.incomeLine.delete({
+      where: { id: incomeLineId }
+    });
 
-  // Log the DELETE event (entity is deleted but event remains)
-  await logIncomeEvent(
-    ActionType.DELETE,
-    userId,
-    incomeLineId,
-    beforeValue,
-    undefined
-  );
+    // Log the DELETE event (entity is deleted but event remains)
+    await logIncomeEvent(
+      ActionType.DELETE,
+      userId,
+      incomeLineId,
+      beforeValue,
+      undefined,
+      tx,
+      context
+    );
+  });
 
   return true;
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Integrity Service - Event Store vs Live Tables
+ *
+ * The live tables (Asset, Liability, IncomeLine, Expense, CashAccount) and the
+ * event stream are two sources of truth for the same data. This service replays
+ * a user's events, diffs the result against the live tables entity by entity,
+ * and can optionally write compensating events so the stream matches the tables again.
+ * The replay, diff and repair planning are pure (see domain/financial/integrity.ts).
+ */
+
+import prisma from '../config/database.config.js';
+import {
+  getEventsByUser,
+  logAssetEvent,
+  logLiabilityEvent,
+  logIncomeEvent,
+  logExpenseEvent,
+  logCashSavingsEvent
+} from './event.service.js';
+import { loadLiveFinancialState } from './analysis.service.js';
+import { EntityType, Event, EventContext, EventSource } from '../types/event.types.js';
+import {
+  CompensatingEvent,
+  DriftItem,
+  DriftKind,
+  diffFinancialStates,
+  planCompensatingEvents,
+  replayAllEvents
+} from '../domain/financial/integrity.js';
+
+export type { DriftItem, DriftKind };
+
+export interface IntegrityReport {
+  userId: number;
+  checkedAt: string;
+  eventCount: number;
+  consistent: boolean;
+  drift: DriftItem[];
+  summary: Record<DriftKind, number>;
+  repaired: number;
+}
+
+export interface BatchIntegrityResult {
+  checkedAt: string;
+  usersChecked: number;
+  inconsistentUsers: number;
+  repairedEvents: number;
+  failedUsers: number[];
+  reports: IntegrityReport[];
+}
+
+/**
+ * Record one planned compensating event
+ */
+async function writeCompensatingEvent(userId: number, event: CompensatingEvent): Promise<void> {
+  const context: EventContext = { source: EventSource.INTEGRITY_REPAIR, effectiveDate: event.effectiveDate };
+  const { actionType, entityId, beforeValue, afterValue } = event;
+
+  switch (event.entityType) {
+    case EntityType.ASSET:
+      await logAssetEvent(actionType, userId, entityId, beforeValue, afterValue, undefined, context);
+      break;
+    case EntityType.LIABILITY:
+      await logLiabilityEvent(actionType, userId, entityId, beforeValue, afterValue, undefined, context);
+      break;
+    case EntityType.INCOME:
+      await logIncomeEvent(actionType, userId, entityId, beforeValue, afterValue, undefined, context);
+      break;
+    case EntityType.EXPENSE:
+      await logExpenseEvent(actionType, userId, entityId, beforeValue, afterValue, undefined, context);
+      break;
+    case EntityType.CASH_SAVINGS:
+      await logCashSavingsEvent(actionType, userId, entityId, beforeValue, afterValue, undefined, context);
+      break;
+  }
+}
+
+/**
+ * Verify that a user's event stream replays to the same state as the live tables
+ * @param userId - User ID
+ * @param options.repair - Write compensating events for every drift item found
+ * @returns Structured drift report
+ */
+export async function verifyUserIntegrity(
+  userId: number,
+  options: { repair?: boolean } = {}
+): Promise<IntegrityReport> {
+  const live = await loadLiveFinancialState(userId);
+  const events = await getEventsByUser({ userId, limit: 100000 }) as unknown as Event[];
+  const replayed = replayAllEvents(events, live.currency);
+  const drift = diffFinancialStates(live, replayed);
+
+  const summary: Record<DriftKind, number> = {
+    MISSING_IN_EVENTS: 0,
+    MISSING_IN_LIVE: 0,
+    VALUE_MISMATCH: 0
+  };
+  drift.forEach(item => { summary[item.kind]++; });
+
+  let repaired = 0;
+  if (options.repair && drift.length > 0) {
+    for (const event of planCompensatingEvents(drift, events, new Date())) {
+      await writeCompensatingEvent(userId, event);
+      repaired++;
+    }
+  }
+
+  return {
+    userId,
+    checkedAt: new Date().toISOString(),
+    eventCount: events.length,
+    consistent: drift.length === 0,
+    drift,
+    summary,
+    repaired
+  };
+}
+
+/**
+ * Verify every user's event stream against the live tables
+ * A failure for one user is recorded and does not stop the batch
+ * @param options.repair - Write compensating events for every drift item found
+ */
+export async function verifyAllUsersIntegrity(options: { repair?: boolean } = {}): Promise<BatchIntegrityResult> {
+  const users = await prisma.user.findMany({ select: { id: true }, orderBy: { id: 'asc' } });
+  const reports: IntegrityReport[] = [];
+  const failedUsers: number[] = [];
+
+  for (const { id } of users) {
+    try {
+      reports.push(await verifyUserIntegrity(id, options));
+    } catch (error) {
+      console.error(`Integrity check failed for user ${id}:`, error);
+      failedUsers.push(id);
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    usersChecked: reports.length,
+    inconsistentUsers: reports.filter(r => !r.consistent).length,
+    repairedEvents: reports.reduce((sum, r) => sum + r.repaired, 0),
+    failedUsers,
+    reports
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Planned Change Service
+ *
+ * Stores scenarios scheduled for a future date. Pending changes never touch
+ * the live tables or the event log: forward-looking snapshots and trajectories
+ * resolve them through loadPlannedEvents. Once a change's date arrives,
+ * materializeDuePlannedChanges records it through the regular entity services,
+ * which log real events dated on the planned day.
+ */
+
+import prisma from '../config/database.config.js';
+import { loadLiveFinancialState, loadScenarioContext } from './analysis.service.js';
+import { applyToLiveEntity, revertEvent, toEntityValues } from './revert.service.js';
+import { TransactionClient } from './event.service.js';
+import { ActionType, EntityType, EventContext, EventSource } from '../types/event.types.js';
+import { ScenarioChange, applyScenario } from '../domain/financial/scenarios.js';
+import {
+  PlannedChangeStatus,
+  StoredPlannedChange,
+  resolvePlannedChanges
+} from '../domain/financial/plannedChanges.js';
+
+interface PlannedChangeData {
+  label: string;
+  /** YYYY-MM-DD, after today */
+  effectiveDate: string;
+  changes: ScenarioChange[];
+}
+
+export interface MaterializeResult {
+  applied: number;
+  failed: { id: number; userId: number; error: string }[];
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/** A claim older than this was left by a run that stopped part way */
+const STALE_CLAIM_MS = 60 * 60 * 1000;
+
+function toStoredPlannedChange(change: { id: number; effectiveDate: Date; changes: unknown }): StoredPlannedChange {
+  return {
+    id: change.id,
+    effectiveDate: change.effectiveDate,
+    changes: change.changes as ScenarioChange[]
+  };
+}
+
+/**
+ * Get all planned changes for a user, pending and past, in date order
+ */
+export async function getPlannedChanges(userId: number) {
+  const changes = await prisma.plannedChange.findMany({
+    where: { userId },
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
+  });
+
+  return changes.map(change => ({ ...change, effectiveDate: toDateString(change.effectiveDate) }));
+}
+
+/**
+ * Schedule changes for a future date
+ * The changes must resolve against the current state with the pending changes
+ * up to that date applied, so they can build on earlier plans.
+ */
+export async function addPlannedChange(userId: number, data: PlannedChangeData) {
+  const effectiveDate = new Date(data.effectiveDate);
+
+  const pending = await prisma.plannedChange.findMany({
+    where: { userId, status: PlannedChangeStatus.PENDING }
+  });
+
+  const liveState = await loadLiveFinancialState(userId);
+  const { asOf: _asOf, ...context } = await loadScenarioContext(userId, new Date());
+
+  // Sorted after every pending change on the same day
+  const candidate: StoredPlannedChange = { id: Number.MAX_SAFE_INTEGER, effectiveDate, changes: data.changes };
+  const { failed } = resolvePlannedChanges(liveState, [...pending.map(toStoredPlannedChange), candidate], context);
+  const rejection = failed.find(item => item.id === candidate.id);
+
+  if (rejection) {
+    throw new Error(rejection.error);
+  }
+
+  const change = await prisma.plannedChange.create({
+    data: {
+      userId,
+      label: data.label,
+      effectiveDate,
+      changes: data.changes as unknown as object[]
+    }
+  });
+
+  return { ...change, effectiveDate: toDateString(change.effectiveDate) };
+}
+
+/**
+ * Delete a pending or failed planned change
+ * Applied changes stay as the record of where their events came from.
+ */
+export async function deletePlannedChange(userId: number, changeId: number) {
+  const change = await prisma.plannedChange.findFirst({
+    where: { id: changeId, userId }
+  });
+
+  if (!change) {
+    return null;
+  }
+
+  if (change.status === PlannedChangeStatus.APPLIED || change.status === PlannedChangeStatus.APPLYING) {
+    throw new Error('Applied changes cannot be deleted');
+  }
+
+  await prisma.plannedChange.delete({
+    where: { id: changeId }
+  });
+
+  return true;
+}
+
+/**
+ * Revert the events of a partly recorded change, newest first
+ * @returns Ids of the events that could not be reverted
+ */
+async function revertRecordedEvents(userId: number, eventIds: number[]): Promise<number[]> {
+  const leftOver: number[] = [];
+
+  for (const eventId of [...eventIds].reverse()) {
+    try {
+      await revertEvent(userId, eventId);
+    } catch {
+      leftOver.push(eventId);
+    }
+  }
+
+  return leftOver;
+}
+
+/**
+ * Record a planned change as real events through the entity services
+ * Entities the change creates receive real ids; links to them are remapped.
+ * Each step is written with its event id in recordedEventIds, so when one
+ * step fails, or the run stops, the steps already recorded can be reverted.
+ * A failed step reverts them before the error is passed on; a step that
+ * cannot be reverted is named in the error.
+ */
+async function applyPlannedChange(userId: number, planned: StoredPlannedChange): Promise<void> {
+  const liveState = await loadLiveFinancialState(userId);
+  const { events } = applyScenario(liveState, planned.changes, await loadScenarioContext(userId, planned.effectiveDate));
+
+  const context: EventContext = { effectiveDate: planned.effectiveDate, source: EventSource.SCHEDULED, clampToLatest: true };
+  const createdIds = new Map<string, number>();
+  const realId = (entityType: string, entityId: number) => createdIds.get(`${entityType}:${entityId}`) ?? entityId;
+  const recordedEventIds: number[] = [];
+
+  try {
+    for (const event of events) {
+      const entityType = event.entityType as EntityType;
+      const actionType = event.actionType as ActionType;
+      const values = event.afterValue ? toEntityValues(entityType, event.afterValue) : null;
+
+      if (values?.assetId !== undefined && values.assetId !== null) {
+        values.assetId = realId(EntityType.ASSET, values.assetId);
+      }
+      if (values?.liabilityId !== undefined && values.liabilityId !== null) {
+        values.liabilityId = realId(EntityType.LIABILITY, values.liabilityId);
+      }
+
+      const { entity, eventId } = await prisma.$transaction(async (client) => {
+        const tx = client as unknown as TransactionClient;
+        const applied = await applyToLiveEntity(
+          userId, entityType, actionType, realId(entityType, event.entityId), values, context, tx
+        );
+
+        if (applied.eventId !== null) {
+          await tx.plannedChange.update({
+            where: { id: planned.id },
+            data: { recordedEventIds: [...recordedEventIds, applied.eventId] }
+          });
+        }
+
+        return applied;
+      });
+
+      if (entity === null) {
+        throw new Error('Scenario entity not found');
+      }
+
+      if (eventId !== null) {
+        recordedEventIds.push(eventId);
+      }
+
+      if (actionType === ActionType.CREATE) {
+        createdIds.set(`${entityType}:${event.entityId}`, (entity as { id: number }).id);
+      }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const leftOver = await revertRecordedEvents(userId, recordedEventIds);
+    throw new Error(leftOver.length > 0
+      ? `${message}; events ${leftOver.join(', ')} could not be reverted`
+      : message);
+  }
+}
+
+/**
+ * Release the claims of runs that stopped while applying a change
+ * Whatever the claim recorded is reverted and the change is pending again, so
+ * the run that recovers it applies it afresh. If a recorded step cannot be
+ * reverted the change is marked failed, naming the events left over.
+ */
+async function recoverStaleClaims(now: Date): Promise<void> {
+  const stale = await prisma.plannedChange.findMany({
+    where: { status: PlannedChangeStatus.APPLYING, materializedAt: { lt: new Date(now.getTime() - STALE_CLAIM_MS) } }
+  });
+
+  for (const change of stale) {
+    // Take the claim over, so overlapping runs never revert it twice
+    const claimed = await prisma.plannedChange.updateMany({
+      where: { id: change.id, status: PlannedChangeStatus.APPLYING, materializedAt: change.materializedAt },
+      data: { materializedAt: now }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const leftOver = await revertRecordedEvents(change.userId, change.recordedEventIds);
+    await prisma.plannedChange.update({
+      where: { id: change.id },
+      data: leftOver.length > 0
+        ? { status: PlannedChangeStatus.FAILED, error: `Interrupted while being applied; events ${leftOver.join(', ')} could not be reverted` }
+        : { status: PlannedChangeStatus.PENDING, materializedAt: null, recordedEventIds: [] }
+    });
+  }
+}
+
+/**
+ * Record every pending change whose date has arrived, oldest first
+ * Each change is claimed (APPLYING) before it is applied, so overlapping runs
+ * never apply one twice, and marked applied once every step is recorded. A
+ * change that no longer resolves, or fails part way, is marked failed with
+ * the reason once whatever it recorded has been reverted. Claims left by a
+ * run that stopped are recovered first.
+ */
+export async function materializeDuePlannedChanges(asOf: Date = new Date()): Promise<MaterializeResult> {
+  await recoverStaleClaims(new Date());
+
+  const due = await prisma.plannedChange.findMany({
+    where: { status: PlannedChangeStatus.PENDING, effectiveDate: { lte: asOf } },
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
+  });
+
+  const result: MaterializeResult = { applied: 0, failed: [] };
+
+  for (const change of due) {
+    const claimed = await prisma.plannedChange.updateMany({
+      where: { id: change.id, status: PlannedChangeStatus.PENDING },
+      data: { status: PlannedChangeStatus.APPLYING, materializedAt: new Date(), recordedEventIds: [] }
+    });
+
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    try {
+      await applyPlannedChange(change.userId, toStoredPlannedChange(change));
+      await prisma.plannedChange.update({
+        where: { id: change.id },
+        data: { status: PlannedChangeStatus.APPLIED, materializedAt: new Date() }
+      });
+      result.applied++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await prisma.plannedChange.update({
+        where: { id: change.id },
+        data: { status: PlannedChangeStatus.FAILED, error: message }
+      });
+      result.failed.push({ id: change.id, userId: change.userId, error: message });
+    }
+  }
+
+  return result;
+}
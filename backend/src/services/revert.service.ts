@@ -0,0 +1,324 @@
+/**
+ * Revert Service - Compensating Events
+ *
+ * Events are immutable, so undoing a change never touches the original event.
+ * Instead the event's beforeValue is applied to the live entity through the
+ * regular entity services, which log a new event linked back to the reverted one.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database.config.js';
+import { TransactionClient } from './event.service.js';
+import { addIncomeLine, updateIncomeLine, deleteIncomeLine } from './income.service.js';
+import { addExpense, updateExpense, deleteExpense } from './expense.service.js';
+import {
+  addAsset,
+  updateAsset,
+  deleteAsset,
+  addLiability,
+  updateLiability,
+  deleteLiability
+} from './balanceSheet.service.js';
+import { addCashAccount, updateCashAccount, deleteCashAccount } from './cashSavings.service.js';
+import { ActionType, EntityType, EventContext, EventSource } from '../types/event.types.js';
+import { Frequency } from '../domain/financial/frequency.js';
+import { resolveAssetClassification } from '../domain/financial/assetClasses.js';
+import { toLoanTerms } from '../domain/financial/amortization.js';
+import { toActivePeriod } from '../domain/financial/activePeriods.js';
+import { CashAccountType, DEFAULT_CASH_ACCOUNT_NAME, isCashAccountType } from '../domain/financial/cashAccounts.js';
+
+/**
+ * What applying a revert will do to the live data
+ * - RESTORE: write the event's beforeValue back onto the entity
+ * - REMOVE: delete an entity the event created
+ * - RECREATE: add back an entity the event deleted (it receives a new id)
+ */
+export type RevertAction = 'RESTORE' | 'REMOVE' | 'RECREATE';
+
+export interface RevertChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RevertPreview {
+  eventId: number;
+  entityType: EntityType;
+  entityId: number;
+  action: RevertAction;
+  current: Record<string, any> | null;
+  result: Record<string, any> | null;
+  changes: RevertChange[];
+}
+
+export interface RevertResult {
+  preview: RevertPreview;
+  entity: unknown;
+}
+
+export interface AppliedChange {
+  /** What the entity service returned; null when the entity no longer exists */
+  entity: unknown;
+  /** Id of the event the service logged for the change */
+  eventId: number | null;
+}
+
+const REVERTIBLE_TYPES = [
+  EntityType.INCOME,
+  EntityType.EXPENSE,
+  EntityType.ASSET,
+  EntityType.LIABILITY,
+  EntityType.CASH_SAVINGS
+];
+
+function parsePayload(value: unknown): Record<string, any> | null {
+  if (!value) return null;
+  return typeof value === 'string' ? JSON.parse(value) : value as Record<string, any>;
+}
+
+/**
+ * Normalize a live row or event payload to the fields an entity service accepts
+ * Decimal amounts are converted to numbers so values compare cleanly
+ */
+export function toEntityValues(entityType: EntityType, source: Record<string, any>): Record<string, any> {
+  switch (entityType) {
+    case EntityType.INCOME:
+      return {
+        name: source.name,
+        amount: Number(source.amount),
+        type: source.type,
+        quadrant: source.quadrant ?? null,
+        frequency: source.frequency ?? Frequency.MONTHLY,
+        assetId: source.assetId ?? null,
+        currencyId: source.currencyId ?? null,
+        ...toActivePeriod(source)
+      };
+    case EntityType.EXPENSE:
+      return {
+        name: source.name,
+        amount: Number(source.amount),
+        frequency: source.frequency ?? Frequency.MONTHLY,
+        categoryId: source.categoryId ?? null,
+        assetId: source.assetId ?? null,
+        liabilityId: source.liabilityId ?? null,
+        currencyId: source.currencyId ?? null,
+        ...toActivePeriod(source)
+      };
+    case EntityType.ASSET:
+      return {
+        name: source.name,
+        value: Number(source.value),
+        ...resolveAssetClassification(source.assetClass, source.liquidity),
+        currencyId: source.currencyId ?? null
+      };
+    case EntityType.LIABILITY:
+      return {
+        name: source.name,
+        value: Number(source.value),
+        ...toLoanTerms(source),
+        assetId: source.assetId ?? null,
+        currencyId: source.currencyId ?? null
+      };
+    case EntityType.CASH_SAVINGS:
+      // Events recorded before cash accounts existed carry only an amount
+      return {
+        name: source.name ?? DEFAULT_CASH_ACCOUNT_NAME,
+        amount: Number(source.amount),
+        accountType: isCashAccountType(source.accountType) ? source.accountType : CashAccountType.SAVINGS
+      };
+    default:
+      return { amount: Number(source.amount) };
+  }
+}
+
+/**
+ * Load the current live values of the entity an event touched
+ */
+async function loadLiveEntity(userId: number, entityType: EntityType, entityId: number, tx?: TransactionClient) {
+  const db = tx ?? prisma;
+  let row: Record<string, any> | null = null;
+
+  switch (entityType) {
+    case EntityType.INCOME:
+      row = await db.incomeLine.findFirst({ where: { id: entityId, IncomeStatement: { userId } } });
+      break;
+    case EntityType.EXPENSE:
+      row = await db.expense.findFirst({ where: { id: entityId, IncomeStatement: { userId } } });
+      break;
+    case EntityType.ASSET:
+      row = await db.asset.findFirst({ where: { id: entityId, BalanceSheet: { userId } } });
+      break;
+    case EntityType.LIABILITY:
+      row = await db.liability.findFirst({ where: { id: entityId, BalanceSheet: { userId } } });
+      break;
+    case EntityType.CASH_SAVINGS:
+      row = await db.cashAccount.findFirst({ where: { id: entityId, userId } });
+      break;
+  }
+
+  return row ? toEntityValues(entityType, row) : null;
+}
+
+function diffValues(current: Record<string, any> | null, result: Record<string, any> | null): RevertChange[] {
+  const fields = new Set([...Object.keys(current ?? {}), ...Object.keys(result ?? {})]);
+  return [...fields]
+    .map(field => ({ field, from: current?.[field] ?? null, to: result?.[field] ?? null }))
+    .filter(change => change.from !== change.to);
+}
+
+/**
+ * Work out what reverting an event would change, without writing anything
+ * @param tx - Optional transaction, so a revert checks and applies against the same data
+ */
+export async function previewRevert(userId: number, eventId: number, tx?: TransactionClient): Promise<RevertPreview> {
+  const db = tx ?? prisma;
+  const event = await db.event.findFirst({ where: { id: eventId, userId } });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  const entityType = event.entityType as EntityType;
+  if (!REVERTIBLE_TYPES.includes(entityType) || event.entitySubtype === 'INCOME_STATEMENT') {
+    throw new Error('Only income, expense, asset, liability and cash savings events can be reverted');
+  }
+
+  const existingRevert = await db.event.findFirst({ where: { revertsEventId: eventId } });
+  if (existingRevert) {
+    throw new Error('Event has already been reverted');
+  }
+
+  const beforeValue = parsePayload(event.beforeValue);
+  const current = await loadLiveEntity(userId, entityType, event.entityId, tx);
+
+  let action: RevertAction;
+  let result: Record<string, any> | null;
+
+  if (event.actionType === ActionType.DELETE) {
+    action = 'RECREATE';
+    result = beforeValue ? toEntityValues(entityType, beforeValue) : null;
+  } else if (event.actionType === ActionType.CREATE) {
+    action = 'REMOVE';
+    result = null;
+  } else {
+    action = 'RESTORE';
+    result = beforeValue ? toEntityValues(entityType, beforeValue) : null;
+  }
+
+  if ((action === 'RESTORE' || action === 'REMOVE') && !current) {
+    throw new Error('The entity changed by this event no longer exists');
+  }
+  if (action !== 'REMOVE' && !result) {
+    throw new Error('Only income, expense, asset, liability and cash savings events can be reverted');
+  }
+
+  return {
+    eventId,
+    entityType,
+    entityId: event.entityId,
+    action,
+    current: action === 'RECREATE' ? null : current,
+    result,
+    changes: diffValues(action === 'RECREATE' ? null : current, result)
+  };
+}
+
+/**
+ * Apply a change to a live entity through its entity service, which logs the event
+ * CREATE adds an entity, UPDATE writes the values onto it and DELETE removes it.
+ * Income, expense and cash account services signal a vanished entity with null.
+ * Given a transaction, the change and its event are written in it.
+ */
+export async function applyToLiveEntity(
+  userId: number,
+  entityType: EntityType,
+  actionType: ActionType,
+  entityId: number,
+  values: any,
+  context: EventContext,
+  tx?: TransactionClient
+): Promise<AppliedChange> {
+  let eventId: number | null = null;
+  const recordingContext: EventContext = { ...context, onEventRecorded: (id) => { eventId = id; } };
+
+  const entity = await applyThroughService(userId, entityType, actionType, entityId, values, recordingContext, tx);
+  return { entity, eventId };
+}
+
+async function applyThroughService(
+  userId: number,
+  entityType: EntityType,
+  actionType: ActionType,
+  entityId: number,
+  values: any,
+  context: EventContext,
+  tx?: TransactionClient
+): Promise<unknown> {
+  switch (entityType) {
+    case EntityType.INCOME:
+      return actionType === ActionType.CREATE
+        ? await addIncomeLine(userId, values, context, tx)
+        : actionType === ActionType.DELETE
+          ? await deleteIncomeLine(userId, entityId, context, tx)
+          : await updateIncomeLine(userId, entityId, values, context, tx);
+    case EntityType.EXPENSE:
+      return actionType === ActionType.CREATE
+        ? await addExpense(userId, values, context, tx)
+        : actionType === ActionType.DELETE
+          ? await deleteExpense(userId, entityId, context, tx)
+          : await updateExpense(userId, entityId, values, context, tx);
+    case EntityType.ASSET:
+      return actionType === ActionType.CREATE
+        ? await addAsset(userId, values, context, tx)
+        : actionType === ActionType.DELETE
+          ? await deleteAsset(userId, entityId, context, tx)
+          : await updateAsset(userId, entityId, values, context, tx);
+    case EntityType.LIABILITY:
+      return actionType === ActionType.CREATE
+        ? await addLiability(userId, values, context, tx)
+        : actionType === ActionType.DELETE
+          ? await deleteLiability(userId, entityId, context, tx)
+          : await updateLiability(userId, entityId, values, context, tx);
+    case EntityType.CASH_SAVINGS:
+      return actionType === ActionType.CREATE
+        ? await addCashAccount(userId, values, context, tx)
+        : actionType === ActionType.DELETE
+          ? await deleteCashAccount(userId, entityId, context, tx)
+          : await updateCashAccount(userId, entityId, values, context, tx);
+    default:
+      throw new Error(`Cannot apply changes to ${entityType} entities`);
+  }
+}
+
+/**
+ * Revert an event by applying its beforeValue to the live entity
+ * The entity service logs a new event with source REVERT that links back to eventId.
+ * The check, the change and the event are one transaction; revertsEventId is unique,
+ * so of two concurrent reverts of the same event the second rolls back entirely.
+ */
+export async function revertEvent(userId: number, eventId: number): Promise<RevertResult> {
+  try {
+    return await prisma.$transaction(async (client) => {
+      const tx = client as unknown as TransactionClient;
+      const preview = await previewRevert(userId, eventId, tx);
+      const context: EventContext = { source: EventSource.REVERT, revertsEventId: eventId };
+      const { entityType, entityId, action } = preview;
+      const actionType = action === 'RECREATE'
+        ? ActionType.CREATE
+        : action === 'REMOVE' ? ActionType.DELETE : ActionType.UPDATE;
+
+      const { entity } = await applyToLiveEntity(userId, entityType, actionType, entityId, preview.result, context, tx);
+
+      if (entity === null) {
+        throw new Error('The entity changed by this event no longer exists');
+      }
+
+      return { preview, entity };
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error('Event has already been reverted');
+    }
+    throw error;
+  }
+}
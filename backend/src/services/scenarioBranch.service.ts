@@ -0,0 +1,250 @@
+/**
+ * Scenario Branch Service
+ *
+ * Stores named plans that fork the user's event stream at a date. A branch's
+ * hypothetical events live in their own table and are only replayed through
+ * forkEventStream, so they can never reach real snapshots, checkpoints or the
+ * event log.
+ */
+
+import prisma from '../config/database.config.js';
+import { getEventsByUser } from './event.service.js';
+import { getFinancialTrajectory, loadInitialCurrency, loadScenarioContext } from './analysis.service.js';
+import { Event } from '../types/event.types.js';
+import { StateCurrency, reconstructStateFromEvents } from '../domain/financial/reducers.js';
+import { ScenarioChange, applyScenario } from '../domain/financial/scenarios.js';
+import { endOfDay, forkEventStream, toBranchEvent } from '../domain/financial/branches.js';
+
+interface BranchData {
+  name: string;
+  /** YYYY-MM-DD */
+  forkDate: string;
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+async function findBranch(userId: number, branchId: number) {
+  return await prisma.scenarioBranch.findFirst({
+    where: { id: branchId, userId }
+  });
+}
+
+/**
+ * Load a branch's events as replayable events, in effective-date order
+ */
+async function loadBranchEvents(userId: number, branchId: number): Promise<Event[]> {
+  const stored = await prisma.scenarioEvent.findMany({
+    where: { branchId },
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }]
+  });
+
+  return stored.map(event => toBranchEvent(event, userId));
+}
+
+/**
+ * Get all branches for a user with their number of changes, newest first
+ */
+export async function getBranches(userId: number) {
+  const branches = await prisma.scenarioBranch.findMany({
+    where: { userId },
+    include: { _count: { select: { ScenarioEvent: true } } },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+  });
+
+  return branches.map(({ _count, ...branch }) => ({
+    ...branch,
+    forkDate: toDateString(branch.forkDate),
+    eventCount: _count.ScenarioEvent
+  }));
+}
+
+/**
+ * Get a branch with its events
+ */
+export async function getBranch(userId: number, branchId: number) {
+  const branch = await prisma.scenarioBranch.findFirst({
+    where: { id: branchId, userId },
+    include: { ScenarioEvent: { orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }] } }
+  });
+
+  if (!branch) {
+    return null;
+  }
+
+  const { ScenarioEvent, ...rest } = branch;
+  return { ...rest, forkDate: toDateString(branch.forkDate), events: ScenarioEvent };
+}
+
+/**
+ * Create a branch forking the user's events at the end of the given day
+ */
+export async function addBranch(userId: number, data: BranchData) {
+  const branch = await prisma.scenarioBranch.create({
+    data: {
+      userId,
+      name: data.name,
+      forkDate: new Date(data.forkDate)
+    }
+  });
+
+  return { ...branch, forkDate: toDateString(branch.forkDate) };
+}
+
+/**
+ * Rename a branch; its fork date is fixed once created
+ */
+export async function updateBranch(userId: number, branchId: number, name: string) {
+  const branch = await findBranch(userId, branchId);
+
+  if (!branch) {
+    return null;
+  }
+
+  const updated = await prisma.scenarioBranch.update({
+    where: { id: branchId },
+    data: { name }
+  });
+
+  return { ...updated, forkDate: toDateString(updated.forkDate) };
+}
+
+/**
+ * Delete a branch and all of its events
+ */
+export async function deleteBranch(userId: number, branchId: number) {
+  const branch = await findBranch(userId, branchId);
+
+  if (!branch) {
+    return null;
+  }
+
+  await prisma.scenarioBranch.delete({
+    where: { id: branchId }
+  });
+
+  return true;
+}
+
+/**
+ * Record hypothetical changes on a branch, taking effect at the end of the given day
+ * Changes are resolved against the branch's state on that day, so they build on
+ * the branch's earlier changes and must not predate them.
+ */
+export async function addBranchChanges(
+  userId: number,
+  branchId: number,
+  effectiveDate: string,
+  changes: ScenarioChange[]
+) {
+  const branch = await findBranch(userId, branchId);
+
+  if (!branch) {
+    return null;
+  }
+
+  const forkPoint = endOfDay(toDateString(branch.forkDate));
+  const effectivePoint = endOfDay(effectiveDate);
+
+  if (effectivePoint < forkPoint) {
+    throw new Error('Changes cannot predate the fork date');
+  }
+
+  const branchEvents = await loadBranchEvents(userId, branchId);
+  const latest = branchEvents[branchEvents.length - 1];
+
+  if (latest && effectivePoint < latest.effectiveDate) {
+    throw new Error('Changes cannot predate the latest change of the branch');
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { PreferredCurrency: true }
+  });
+
+  const realEvents = await getEventsByUser({
+    userId,
+    endDate: forkPoint,
+    dateField: 'effectiveDate',
+    limit: 100000
+  });
+
+  // The fork may predate a currency change, so start where the user started
+  const currency: StateCurrency = await loadInitialCurrency(userId, {
+    id: user?.preferredCurrencyId,
+    symbol: user?.PreferredCurrency?.cur_symbol || '$',
+    name: user?.PreferredCurrency?.cur_name || 'USD'
+  });
+
+  const state = reconstructStateFromEvents(
+    forkEventStream(realEvents as unknown as Event[], branchEvents, forkPoint),
+    effectivePoint,
+    currency
+  );
+
+  const { events } = applyScenario(state, changes, await loadScenarioContext(userId, effectivePoint));
+
+  return await prisma.scenarioEvent.createManyAndReturn({
+    data: events.map(event => ({
+      branchId,
+      effectiveDate: effectivePoint,
+      actionType: event.actionType,
+      entityType: event.entityType,
+      entitySubtype: event.entitySubtype,
+      entityId: event.entityId,
+      beforeValue: event.beforeValue ?? undefined,
+      afterValue: event.afterValue ?? undefined
+    }))
+  });
+}
+
+/**
+ * Delete one event of a branch
+ */
+export async function deleteBranchEvent(userId: number, branchId: number, eventId: number) {
+  const branch = await findBranch(userId, branchId);
+
+  if (!branch) {
+    return null;
+  }
+
+  const event = await prisma.scenarioEvent.findFirst({
+    where: { id: eventId, branchId }
+  });
+
+  if (!event) {
+    return null;
+  }
+
+  await prisma.scenarioEvent.delete({
+    where: { id: eventId }
+  });
+
+  return true;
+}
+
+/**
+ * Trajectory of a branch next to the real one over the same dates
+ */
+export async function getBranchTrajectory(
+  userId: number,
+  branchId: number,
+  startDate: string,
+  endDate: string,
+  interval: 'daily' | 'weekly' | 'monthly' = 'monthly',
+  currencyId?: number
+) {
+  const branch = await findBranch(userId, branchId);
+
+  if (!branch) {
+    return null;
+  }
+
+  const events = await loadBranchEvents(userId, branchId);
+  const forkPoint = endOfDay(toDateString(branch.forkDate));
+
+  // One after the other: each replay holds the full event stream in memory
+  const actual = await getFinancialTrajectory(userId, startDate, endDate, interval, currencyId);
+  const planned = await getFinancialTrajectory(userId, startDate, endDate, interval, currencyId, { forkPoint, events });
+
+  return { forkDate: toDateString(branch.forkDate), actual, branch: planned };
+}
@@ -0,0 +1,339 @@
+/**
+ * Transaction Service
+ *
+ * Records the dated ledger of what actually happened, next to the monthly
+ * statement of what should happen. A transaction booked against a cash
+ * account moves that account's balance; the change is logged as a regular
+ * CASH_SAVINGS event so replayed history sees it too.
+ */
+
+import prisma from '../config/database.config.js';
+import { Transaction } from '@prisma/client';
+import { createEvent, TransactionClient } from './event.service.js';
+import { getExpenseCategoryIndex } from './expenseCategory.service.js';
+import { loadUserFx } from './currency.service.js';
+import { toCashAccountEventValue } from './cashSavings.service.js';
+import { ActionType, EntityType } from '../types/event.types.js';
+import { convertEntityAmount } from '../domain/financial/fx.js';
+import { isActiveDuring, toActivePeriod } from '../domain/financial/activePeriods.js';
+import {
+  LedgerEntry,
+  TransactionDirection,
+  comparePlanToActual,
+  getMonthRange,
+  signedAmount
+} from '../domain/financial/transactions.js';
+
+interface TransactionData {
+  date: Date;
+  amount: number;
+  direction: TransactionDirection;
+  description: string;
+  cashAccountId?: number | null;
+  categoryId?: number | null;
+  incomeLineId?: number | null;
+  expenseId?: number | null;
+}
+
+export interface TransactionFilters {
+  from?: Date;
+  to?: Date;
+  cashAccountId?: number;
+}
+
+/**
+ * Verify every linked record belongs to the user and suits the direction
+ * Throws with a message the controller returns as a 400
+ */
+async function verifyLinks(userId: number, data: TransactionData) {
+  if (data.cashAccountId != null) {
+    const account = await prisma.cashAccount.findFirst({ where: { id: data.cashAccountId, userId } });
+    if (!account) {
+      throw new Error('Cash account not found');
+    }
+  }
+
+  if (data.categoryId != null) {
+    const category = await prisma.expenseCategory.findFirst({ where: { id: data.categoryId, userId } });
+    if (!category) {
+      throw new Error('Category not found');
+    }
+  }
+
+  if (data.incomeLineId != null) {
+    if (data.direction !== TransactionDirection.INFLOW) {
+      throw new Error('Only inflows can be linked to an income line');
+    }
+    const incomeLine = await prisma.incomeLine.findFirst({
+      where: { id: data.incomeLineId, IncomeStatement: { userId } }
+    });
+    if (!incomeLine) {
+      throw new Error('Income line not found');
+    }
+  }
+
+  if (data.expenseId != null) {
+    if (data.direction !== TransactionDirection.OUTFLOW) {
+      throw new Error('Only outflows can be linked to an expense');
+    }
+    const expense = await prisma.expense.findFirst({
+      where: { id: data.expenseId, IncomeStatement: { userId } }
+    });
+    if (!expense) {
+      throw new Error('Expense not found');
+    }
+  }
+}
+
+/**
+ * Move a cash account's balance by a signed amount and log the change
+ * The event takes effect on the transaction date, or after the account's
+ * latest event when that is later, so replay never lets an older balance
+ * overwrite this one
+ */
+async function adjustCashAccount(
+  db: TransactionClient,
+  userId: number,
+  cashAccountId: number | null,
+  delta: number,
+  date: Date
+) {
+  if (cashAccountId === null || delta === 0) {
+    return;
+  }
+
+  const account = await db.cashAccount.findFirst({ where: { id: cashAccountId, userId } });
+
+  // The account was deleted after the transaction was booked
+  if (!account) {
+    return;
+  }
+
+  const amount = Number((Number(account.amount) + delta).toFixed(2));
+  if (amount < 0) {
+    throw new Error('Transaction would overdraw the cash account');
+  }
+
+  const updatedAccount = await db.cashAccount.update({
+    where: { id: cashAccountId },
+    data: { amount }
+  });
+
+  const latestEvent = await db.event.findFirst({
+    where: { userId, entityType: EntityType.CASH_SAVINGS, entityId: cashAccountId },
+    orderBy: { effectiveDate: 'desc' }
+  });
+  const effectiveDate = latestEvent && latestEvent.effectiveDate > date ? latestEvent.effectiveDate : date;
+
+  await createEvent({
+    actionType: ActionType.UPDATE,
+    entityType: EntityType.CASH_SAVINGS,
+    userId,
+    entityId: cashAccountId,
+    beforeValue: toCashAccountEventValue(account),
+    afterValue: toCashAccountEventValue(updatedAccount),
+    effectiveDate
+  }, db);
+}
+
+/**
+ * Cash effect of a stored transaction row
+ */
+function cashEffect(transaction: Transaction): number {
+  return signedAmount({ amount: Number(transaction.amount), direction: transaction.direction });
+}
+
+/**
+ * Get a user's transactions, newest first
+ * @param filters - Optional date range (inclusive) and cash account
+ */
+export async function getTransactions(userId: number, filters: TransactionFilters = {}) {
+  return await prisma.transaction.findMany({
+    where: {
+      userId,
+      ...(filters.cashAccountId !== undefined ? { cashAccountId: filters.cashAccountId } : {}),
+      ...(filters.from || filters.to
+        ? { date: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lte: filters.to } : {}) } }
+        : {})
+    },
+    orderBy: [{ date: 'desc' }, { id: 'desc' }]
+  });
+}
+
+/**
+ * Record a transaction, moving the linked cash account's balance
+ */
+export async function addTransaction(userId: number, data: TransactionData) {
+  await verifyLinks(userId, data);
+
+  return await prisma.$transaction(async (tx) => {
+    const db = tx as unknown as TransactionClient;
+
+    const transaction = await tx.transaction.create({
+      data: {
+        userId,
+        date: data.date,
+        amount: data.amount,
+        direction: data.direction,
+        description: data.description,
+        cashAccountId: data.cashAccountId ?? null,
+        categoryId: data.categoryId ?? null,
+        incomeLineId: data.incomeLineId ?? null,
+        expenseId: data.expenseId ?? null
+      }
+    });
+
+    await adjustCashAccount(db, userId, transaction.cashAccountId, cashEffect(transaction), transaction.date);
+
+    return transaction;
+  });
+}
+
+/**
+ * Update a transaction
+ * The old cash effect is undone before the new one is applied, so moving a
+ * transaction between accounts corrects both balances
+ * @returns Updated transaction, or null when the user has no such transaction
+ */
+export async function updateTransaction(userId: number, transactionId: number, data: Partial<TransactionData>) {
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId }
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  // An omitted field keeps its current value
+  const next: TransactionData = {
+    date: data.date ?? transaction.date,
+    amount: data.amount ?? Number(transaction.amount),
+    direction: data.direction ?? (transaction.direction as TransactionDirection),
+    description: data.description ?? transaction.description,
+    cashAccountId: data.cashAccountId !== undefined ? data.cashAccountId : transaction.cashAccountId,
+    categoryId: data.categoryId !== undefined ? data.categoryId : transaction.categoryId,
+    incomeLineId: data.incomeLineId !== undefined ? data.incomeLineId : transaction.incomeLineId,
+    expenseId: data.expenseId !== undefined ? data.expenseId : transaction.expenseId
+  };
+
+  await verifyLinks(userId, next);
+
+  return await prisma.$transaction(async (tx) => {
+    const db = tx as unknown as TransactionClient;
+
+    await adjustCashAccount(db, userId, transaction.cashAccountId, -cashEffect(transaction), transaction.date);
+
+    const updatedTransaction = await tx.transaction.update({
+      where: { id: transactionId },
+      data: {
+        date: next.date,
+        amount: next.amount,
+        direction: next.direction,
+        description: next.description,
+        cashAccountId: next.cashAccountId ?? null,
+        categoryId: next.categoryId ?? null,
+        incomeLineId: next.incomeLineId ?? null,
+        expenseId: next.expenseId ?? null
+      }
+    });
+
+    await adjustCashAccount(
+      db,
+      userId,
+      updatedTransaction.cashAccountId,
+      cashEffect(updatedTransaction),
+      updatedTransaction.date
+    );
+
+    return updatedTransaction;
+  });
+}
+
+/**
+ * Delete a transaction, undoing its effect on the cash account
+ * @returns Deleted transaction, or null when the user has no such transaction
+ */
+export async function deleteTransaction(userId: number, transactionId: number) {
+  const transaction = await prisma.transaction.findFirst({
+    where: { id: transactionId, userId }
+  });
+
+  if (!transaction) {
+    return null;
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const db = tx as unknown as TransactionClient;
+
+    await tx.transaction.delete({ where: { id: transactionId } });
+    await adjustCashAccount(db, userId, transaction.cashAccountId, -cashEffect(transaction), transaction.date);
+
+    return transaction;
+  });
+}
+
+/**
+ * Load a user's transactions as ledger entries for reporting
+ * Outflows without a category fall back to the category of their expense
+ */
+export async function getLedgerEntries(userId: number, from?: Date, to?: Date): Promise<LedgerEntry[]> {
+  const [transactions, categoryIndex] = await Promise.all([
+    prisma.transaction.findMany({
+      where: {
+        userId,
+        ...(from || to ? { date: { ...(from ? { gte: from } : {}), ...(to ? { lt: to } : {}) } } : {})
+      },
+      include: { Expense: { select: { categoryId: true } } },
+      orderBy: { date: 'asc' }
+    }),
+    getExpenseCategoryIndex(userId)
+  ]);
+
+  return transactions.map(transaction => {
+    const categoryId = transaction.categoryId ?? transaction.Expense?.categoryId ?? null;
+    return {
+      date: transaction.date,
+      amount: Number(transaction.amount),
+      direction: transaction.direction,
+      incomeLineId: transaction.incomeLineId,
+      expenseId: transaction.expenseId,
+      categoryId,
+      categoryPath: categoryId !== null ? categoryIndex.get(categoryId)?.categoryPath ?? null : null
+    };
+  });
+}
+
+/**
+ * Compare a month of transactions against the income lines and expenses
+ * Only lines active on some day of the month are planned. Planned amounts are converted to the preferred currency at current rates;
+ * transactions are recorded in the preferred currency, like the cash accounts
+ * they move, and are converted with them when it changes
+ * @param month - YYYY-MM
+ */
+export async function getMonthlyPlanVsActual(userId: number, month: string) {
+  const { start, end } = getMonthRange(month);
+
+  const [entries, incomeLines, expenses, fx] = await Promise.all([
+    getLedgerEntries(userId, start, end),
+    prisma.incomeLine.findMany({ where: { IncomeStatement: { userId } }, orderBy: { id: 'asc' } }),
+    prisma.expense.findMany({ where: { IncomeStatement: { userId } }, orderBy: { id: 'asc' } }),
+    loadUserFx(userId)
+  ]);
+
+  const toPlannedLine = (line: { id: number; name: string; amount: unknown; frequency: string; currencyId: number | null }) => ({
+    id: line.id,
+    name: line.name,
+    amount: convertEntityAmount(Number(line.amount), line.currencyId, null, fx),
+    frequency: line.frequency
+  });
+
+  const isPlanned = (line: { activeFrom: Date | null; activeUntil: Date | null }) =>
+    isActiveDuring(toActivePeriod(line), start, end);
+
+  return comparePlanToActual(
+    month,
+    entries,
+    incomeLines.filter(isPlanned).map(toPlannedLine),
+    expenses.filter(isPlanned).map(toPlannedLine)
+  );
+}
@@ -25,6 +25,7 @@ export enum EntityType {
   ASSET = 'ASSET',
   LIABILITY = 'LIABILITY',
   CASH_SAVINGS = 'CASH_SAVINGS',
+  BUDGET = 'BUDGET',
   USER = 'USER'
 }
 
@@ -34,6 +35,19 @@ export enum IncomeSubtype {
   PASSIVE = 'PASSIVE'       // Passive income
 }
 
+/**
+ * Origin of an event: a user action, a system-generated correction, a
+ * planned change recorded by the scheduler when its date arrived, or an
+ * income line or expense removed after its last active day
+ */
+export enum EventSource {
+  USER = 'USER',
+  INTEGRITY_REPAIR = 'INTEGRITY_REPAIR',
+  REVERT = 'REVERT',
+  SCHEDULED = 'SCHEDULED',
+  EXPIRY = 'EXPIRY'
+}
+
 export interface EventData {
   name?: string;
   amount?: number | DecimalLike;
@@ -50,11 +64,35 @@ export interface CreateEventParams {
   afterValue?: EventData | null;
   userId: number;
   entityId: number;
+  effectiveDate?: Date;
+  source?: EventSource;
+  revertsEventId?: number;
+  clampToLatest?: boolean;
+  onEventRecorded?: (eventId: number) => void;
+}
+
+/**
+ * Optional metadata passed alongside a financial mutation.
+ * effectiveDate is when the change happened in the real world;
+ * the event timestamp always records when it was entered.
+ */
+export interface EventContext {
+  effectiveDate?: Date;
+  source?: EventSource;
+  revertsEventId?: number;
+  /**
+   * Record an effective date before the entity's latest event at that event's
+   * date instead of rejecting it; for internal callers that may run late
+   */
+  clampToLatest?: boolean;
+  /** Called with the id of the event once it is written, within the caller's transaction */
+  onEventRecorded?: (eventId: number) => void;
 }
 
 export interface Event {
   id: number;
   timestamp: Date;
+  effectiveDate: Date;
   actionType: string;
   entityType: string;
   entitySubtype: string | null;
@@ -62,6 +100,8 @@ export interface Event {
   afterValue: any | null;
   userId: number;
   entityId: number;
+  source?: string;
+  revertsEventId?: number | null;
 }
 
 export interface EventQueryParams {
@@ -70,6 +110,7 @@ export interface EventQueryParams {
   entityId?: number;
   startDate?: Date;
   endDate?: Date;
+  dateField?: 'timestamp' | 'effectiveDate';
   limit?: number;
   offset?: number;
   search?: string;
@@ -74,3 +74,57 @@ export function validatePassword(password: string): { isValid: boolean; error?:
 
   return { isValid: true };
 }
+
+/**
+ * Validate an optional effective date supplied with a financial mutation
+ * Future dates are rejected: the change is applied to the live tables now,
+ * so it must also count from now on; planned changes cover the future
+ * @param value - Raw value from the request (ISO date string or undefined)
+ * @returns Object with isValid, parsed date (if provided) and error message
+ */
+export function validateEffectiveDate(value: unknown): { isValid: boolean; date?: Date; error?: string } {
+  if (value === undefined || value === null || value === '') {
+    return { isValid: true };
+  }
+
+  if (typeof value !== 'string') {
+    return { isValid: false, error: 'Effective date must be an ISO date string' };
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return { isValid: false, error: 'Effective date is not a valid date' };
+  }
+
+  if (date > new Date()) {
+    return { isValid: false, error: 'Effective date cannot be in the future' };
+  }
+
+  return { isValid: true, date };
+}
+
+/**
+ * Validate the optional active period of an income line or expense
+ * Each date may be omitted, or null to clear it
+ * @param activeFrom - First day the line counts (YYYY-MM-DD)
+ * @param activeUntil - Last day the line counts (YYYY-MM-DD)
+ * @returns Object with isValid and error message
+ */
+export function validateActivePeriod(activeFrom: unknown, activeUntil: unknown): { isValid: boolean; error?: string } {
+  const isDate = (value: unknown) => typeof value === 'string'
+    && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+  if (activeFrom !== undefined && activeFrom !== null && !isDate(activeFrom)) {
+    return { isValid: false, error: 'Active from must be a valid date (YYYY-MM-DD)' };
+  }
+
+  if (activeUntil !== undefined && activeUntil !== null && !isDate(activeUntil)) {
+    return { isValid: false, error: 'Active until must be a valid date (YYYY-MM-DD)' };
+  }
+
+  if (typeof activeFrom === 'string' && typeof activeUntil === 'string' && activeUntil < activeFrom) {
+    return { isValid: false, error: 'Active until cannot be before active from' };
+  }
+
+  return { isValid: true };
+}
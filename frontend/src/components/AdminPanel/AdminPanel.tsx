@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import UserList from '../UserList/UserList';
 import AdminUserFinancialView from '../AdminUserFinancialView/AdminUserFinancialView';
+import ExchangeRateManager from '../ExchangeRateManager/ExchangeRateManager';
+import InflationIndexManager from '../InflationIndexManager/InflationIndexManager';
 import { adminAPI } from '../../utils/api';
 import { useAuth } from '../../context/AuthContext';
 
@@ -224,6 +226,9 @@ const AdminPanel: React.FC = () => {
           />
         )}
       </div>
+
+      <ExchangeRateManager />
+      <InflationIndexManager />
     </main>
   );
 };
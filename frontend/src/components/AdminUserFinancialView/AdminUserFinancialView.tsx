@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { adminAPI } from '../../utils/api';
 import { Currency } from '../../types/currency.types';
 import { formatCurrency, formatCurrencyCompact } from '../../utils/currency.utils';
+import { toMonthlyAmount } from '../../utils/frequency.utils';
 
 interface AdminUserFinancialViewProps {
   userId: number;
@@ -34,6 +35,7 @@ interface Expense {
   id: number;
   name: string;
   amount: number;
+  frequency?: string;
 }
 
 interface IncomeStatement {
@@ -56,6 +58,7 @@ interface Income {
   id: number;
   name: string;
   amount: number;
+  frequency?: string;
   type: string;
 }
 
@@ -75,11 +78,73 @@ interface FinancialData {
   income: Income[];
 }
 
+interface IntegrityDriftItem {
+  entityType: string;
+  entityId: number;
+  kind: 'MISSING_IN_EVENTS' | 'MISSING_IN_LIVE' | 'VALUE_MISMATCH';
+  fields: string[];
+}
+
+interface IntegrityReport {
+  eventCount: number;
+  consistent: boolean;
+  drift: IntegrityDriftItem[];
+  repaired: number;
+}
+
 const AdminUserFinancialView: React.FC<AdminUserFinancialViewProps> = ({ userId, userName, onBack }) => {
   const [financialData, setFinancialData] = useState<FinancialData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [userCurrency, setUserCurrency] = useState<Currency | null>(null);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [rebuildMessage, setRebuildMessage] = useState<string | null>(null);
+  const [checkingIntegrity, setCheckingIntegrity] = useState(false);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [integrityMessage, setIntegrityMessage] = useState<string | null>(null);
+
+  const handleRebuildSnapshots = async () => {
+    try {
+      setRebuilding(true);
+      setRebuildMessage(null);
+      const response = await adminAPI.rebuildUserSnapshots(userId);
+      const { checkpointsCreated, changedMonths } = response.result;
+      setRebuildMessage(
+        changedMonths.length > 0
+          ? `Rebuilt ${checkpointsCreated} checkpoints. Changed months: ${changedMonths.join(', ')}`
+          : `Rebuilt ${checkpointsCreated} checkpoints. No stale months found.`
+      );
+    } catch (err: any) {
+      setRebuildMessage(err.message || 'Failed to rebuild snapshots');
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  const handleIntegrityCheck = async (repair: boolean) => {
+    try {
+      setCheckingIntegrity(true);
+      setIntegrityMessage(null);
+      const response = repair
+        ? await adminAPI.repairUserIntegrity(userId)
+        : await adminAPI.verifyUserIntegrity(userId);
+      const report: IntegrityReport = response.report;
+      setIntegrityReport(repair ? null : report);
+      if (repair) {
+        setIntegrityMessage(`Wrote ${report.repaired} compensating events.`);
+      } else {
+        setIntegrityMessage(
+          report.consistent
+            ? `Event stream matches live data (${report.eventCount} events).`
+            : `Found ${report.drift.length} drift items across ${report.eventCount} events.`
+        );
+      }
+    } catch (err: any) {
+      setIntegrityMessage(err.message || 'Failed to verify integrity');
+    } finally {
+      setCheckingIntegrity(false);
+    }
+  };
 
   useEffect(() => {
     const fetchFinancialData = async () => {
@@ -146,13 +211,13 @@ const AdminUserFinancialView: React.FC<AdminUserFinancialViewProps> = ({ userId,
   const portfolioIncome = financialData.income?.filter(i => i.type === 'Portfolio') || [];
   const passiveIncome = financialData.income?.filter(i => i.type === 'Passive') || [];
   
-  const totalEarnedIncome = earnedIncome.reduce((sum, i) => sum + Number(i.amount), 0);
-  const totalPortfolioIncome = portfolioIncome.reduce((sum, i) => sum + Number(i.amount), 0);
-  const totalPassiveIncome = passiveIncome.reduce((sum, i) => sum + Number(i.amount), 0);
+  const totalEarnedIncome = earnedIncome.reduce((sum, i) => sum + toMonthlyAmount(Number(i.amount), i.frequency), 0);
+  const totalPortfolioIncome = portfolioIncome.reduce((sum, i) => sum + toMonthlyAmount(Number(i.amount), i.frequency), 0);
+  const totalPassiveIncome = passiveIncome.reduce((sum, i) => sum + toMonthlyAmount(Number(i.amount), i.frequency), 0);
   const totalIncome = totalEarnedIncome + totalPortfolioIncome + totalPassiveIncome;
 
   const expenses = financialData.incomeStatement?.expenses || [];
-  const totalExpenses = expenses.reduce((sum, e) => sum + Number(e.amount), 0);
+  const totalExpenses = expenses.reduce((sum, e) => sum + toMonthlyAmount(Number(e.amount), e.frequency), 0);
   const cashflow = totalIncome - totalExpenses;
 
   const cashSavings = Number(financialData.cashSavings?.amount) || 0;
@@ -199,6 +264,45 @@ const AdminUserFinancialView: React.FC<AdminUserFinancialViewProps> = ({ userId,
               <span className="text-sm font-medium text-white">{userCurrency?.cur_code || 'USD'}</span>
             </div>
           </div>
+          <div className="flex flex-wrap items-center gap-3 pt-4 mt-4 border-t border-(--color-border)">
+            <button
+              className="rf-btn-primary w-auto px-4 py-2"
+              onClick={handleRebuildSnapshots}
+              disabled={rebuilding}
+            >
+              {rebuilding ? 'Rebuilding...' : 'Rebuild Snapshots'}
+            </button>
+            {rebuildMessage && <span className="rf-hint">{rebuildMessage}</span>}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 pt-4 mt-4 border-t border-(--color-border)">
+            <button
+              className="rf-btn-primary w-auto px-4 py-2"
+              onClick={() => handleIntegrityCheck(false)}
+              disabled={checkingIntegrity}
+            >
+              {checkingIntegrity ? 'Checking...' : 'Verify Integrity'}
+            </button>
+            {integrityReport && !integrityReport.consistent && (
+              <button
+                className="rf-btn-primary w-auto px-4 py-2"
+                onClick={() => handleIntegrityCheck(true)}
+                disabled={checkingIntegrity}
+              >
+                Repair Drift
+              </button>
+            )}
+            {integrityMessage && <span className="rf-hint">{integrityMessage}</span>}
+          </div>
+          {integrityReport && integrityReport.drift.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {integrityReport.drift.map((item) => (
+                <li key={`${item.entityType}-${item.entityId}`} className="text-xs text-(--color-text-muted)">
+                  {item.entityType} #{item.entityId}: {item.kind}
+                  {item.fields.length > 0 && ` (${item.fields.join(', ')})`}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
 
@@ -6,24 +6,49 @@ import {
   useDeleteAssetMutation,
   AssetItem,
 } from "../../hooks/queries/useBalanceSheet";
-import { useCurrency } from "../../context/CurrencyContext";
+import { useCurrencyConversion } from "../../hooks/queries/useCurrencies";
 import { formatCurrency } from "../../utils/currency.utils";
+import {
+  ASSET_CLASS_OPTIONS,
+  AssetClass,
+  DEFAULT_LIQUIDITY,
+  LIQUIDITY_OPTIONS,
+  LiquidityTier,
+  getAssetClassLabel,
+  getLiquidityLabel,
+} from "../../utils/assetClass.utils";
 import FinancialTable, { ColumnDefinition } from "../Shared/FinancialTable";
+import CurrencySelect from "../Shared/CurrencySelect";
 
 const AssetsSection: React.FC = () => {
-  const { currency } = useCurrency();
-
   // TanStack Query hooks
   const { data: assets, isLoading, error: queryError } = useAssetsQuery();
   const addAssetMutation = useAddAssetMutation();
   const updateAssetMutation = useUpdateAssetMutation();
   const deleteAssetMutation = useDeleteAssetMutation();
+  const { formatNative, getCurrency } = useCurrencyConversion();
 
   const [editingItem, setEditingItem] = useState<AssetItem | null>(null);
   const [assetName, setAssetName] = useState("");
   const [assetAmount, setAssetAmount] = useState("");
+  const [assetClass, setAssetClass] = useState<AssetClass>("OTHER");
+  const [liquidity, setLiquidity] = useState<LiquidityTier>(DEFAULT_LIQUIDITY.OTHER);
+  const [currencyId, setCurrencyId] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
   const [localError, setLocalError] = useState<string | null>(null);
 
+  const resetClassification = () => {
+    setAssetClass("OTHER");
+    setLiquidity(DEFAULT_LIQUIDITY.OTHER);
+    setCurrencyId("");
+  };
+
+  // Picking a class suggests its usual liquidity; the tier can still be overridden
+  const handleAssetClassChange = (value: AssetClass) => {
+    setAssetClass(value);
+    setLiquidity(DEFAULT_LIQUIDITY[value]);
+  };
+
   // Handle add asset
   const handleAddAsset = async () => {
     if (!assetName.trim() || !assetAmount.trim() || addAssetMutation.isPending) return;
@@ -33,9 +58,15 @@ const AssetsSection: React.FC = () => {
       await addAssetMutation.mutateAsync({
         name: assetName,
         value: parseFloat(assetAmount),
+        assetClass,
+        liquidity,
+        currencyId: currencyId ? Number(currencyId) : null,
+        effectiveDate: effectiveDate || undefined,
       });
       setAssetName("");
       setAssetAmount("");
+      resetClassification();
+      setEffectiveDate("");
     } catch (err: unknown) {
       setLocalError("Failed to add asset");
     }
@@ -51,10 +82,16 @@ const AssetsSection: React.FC = () => {
         id: editingItem.id,
         name: assetName,
         value: parseFloat(assetAmount),
+        assetClass,
+        liquidity,
+        currencyId: currencyId ? Number(currencyId) : null,
+        effectiveDate: effectiveDate || undefined,
       });
       setEditingItem(null);
       setAssetName("");
       setAssetAmount("");
+      resetClassification();
+      setEffectiveDate("");
     } catch (err: unknown) {
       setLocalError("Failed to update asset");
     }
@@ -65,6 +102,9 @@ const AssetsSection: React.FC = () => {
     setEditingItem(item);
     setAssetName(item.name);
     setAssetAmount(item.value.toString());
+    setAssetClass(item.assetClass);
+    setLiquidity(item.liquidity);
+    setCurrencyId(item.currencyId !== null ? String(item.currencyId) : "");
   };
 
   // Handle cancel edit
@@ -72,6 +112,8 @@ const AssetsSection: React.FC = () => {
     setEditingItem(null);
     setAssetName("");
     setAssetAmount("");
+    resetClassification();
+    setEffectiveDate("");
   };
 
   // Handle delete asset
@@ -82,7 +124,8 @@ const AssetsSection: React.FC = () => {
       setLocalError(null);
       await deleteAssetMutation.mutateAsync({ id: item.id });
     } catch (err: unknown) {
-      setLocalError("Failed to delete asset");
+      // Assets still linked to income, expenses or liabilities are rejected with a reason
+      setLocalError(err instanceof Error ? err.message : "Failed to delete asset");
     }
   };
 
@@ -99,9 +142,36 @@ const AssetsSection: React.FC = () => {
   // Column definitions for FinancialTable
   const columns: ColumnDefinition<AssetItem>[] = [
     { header: "Name", accessor: "name" },
+    {
+      header: "Class",
+      accessor: (item) => `${getAssetClassLabel(item.assetClass)} · ${getLiquidityLabel(item.liquidity)}`,
+    },
     {
       header: "Value",
-      accessor: (item) => formatCurrency(item.value, currency),
+      accessor: (item) => formatNative(item.value, item.currencyId),
+      align: "right",
+    },
+    {
+      // Value left after the loans secured against the asset, in the asset's currency
+      header: "Equity",
+      accessor: (item) => {
+        const equity = item.equity;
+        const currency = getCurrency(item.currencyId);
+        if (!equity || equity.securedDebt === 0) return formatCurrency(item.value, currency);
+        const loanToValue = equity.loanToValue !== null ? `${equity.loanToValue.toFixed(0)}% LTV` : "no value";
+        return `${formatCurrency(equity.equity, currency)} · ${loanToValue}${equity.underwater ? " · Underwater" : ""}`;
+      },
+      align: "right",
+    },
+    {
+      // Net cashflow of the income and expense lines linked to the asset, in the asset's currency
+      header: "Monthly",
+      accessor: (item) => {
+        const performance = item.performance;
+        const currency = getCurrency(item.currencyId);
+        if (!performance || (performance.monthlyIncome === 0 && performance.monthlyExpenses === 0)) return "—";
+        return `${formatCurrency(performance.netCashflow, currency)} · ${performance.roi.toFixed(1)}% ROI`;
+      },
       align: "right",
     },
   ];
@@ -163,6 +233,42 @@ const AssetsSection: React.FC = () => {
           onChange={(e) => setAssetAmount(e.target.value)}
           disabled={addAssetMutation.isPending || updateAssetMutation.isPending}
         />
+        <CurrencySelect
+          className="flex-1 min-w-[120px]"
+          value={currencyId}
+          onChange={setCurrencyId}
+          disabled={addAssetMutation.isPending || updateAssetMutation.isPending}
+        />
+        <select
+          className="rf-select flex-1 min-w-[120px]"
+          value={assetClass}
+          onChange={(e) => handleAssetClassChange(e.target.value as AssetClass)}
+          disabled={addAssetMutation.isPending || updateAssetMutation.isPending}
+        >
+          {ASSET_CLASS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <select
+          className="rf-select flex-1 min-w-[120px]"
+          title="How quickly this asset can be turned into cash"
+          value={liquidity}
+          onChange={(e) => setLiquidity(e.target.value as LiquidityTier)}
+          disabled={addAssetMutation.isPending || updateAssetMutation.isPending}
+        >
+          {LIQUIDITY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="date"
+          title="Effective date (optional, defaults to today)"
+          max={new Date().toISOString().split("T")[0]}
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          disabled={addAssetMutation.isPending || updateAssetMutation.isPending}
+        />
         {editingItem !== null ? (
           <div className="rf-edit-actions w-full">
             <button
@@ -1,18 +1,49 @@
 import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { currencyAPI } from '../../utils/api';
 import { useCurrency } from '../../context/CurrencyContext';
+import { useAuth } from '../../context/AuthContext';
 import { Currency } from '../../types/currency.types';
+import { formatCurrency } from '../../utils/currency.utils';
+import { incomeKeys } from '../../hooks/queries/useIncome';
+import { budgetKeys, expenseKeys } from '../../hooks/queries/useExpenses';
+import { balanceSheetKeys } from '../../hooks/queries/useBalanceSheet';
+import { cashSavingsKeys } from '../../hooks/queries/useCashSavings';
 
 interface CurrencySelectorProps {
   onCurrencyChange?: (currency: Currency) => void;
 }
 
+interface ConversionPreview {
+  rate: number;
+  items: { entityType: string; entityId: number; name: string; field: string; before: number; after: number }[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  minimumPayment: 'minimum payment',
+  monthlyLimit: 'budget',
+};
+
 const CurrencySelector: React.FC<CurrencySelectorProps> = ({ onCurrencyChange }) => {
   const [currencies, setCurrencies] = useState<Currency[]>([]);
-  const { currency: selectedCurrency, setCurrency: setSelectedCurrency, loading: currencyLoading } = useCurrency();
+  const {
+    currency: selectedCurrency,
+    setCurrency: setSelectedCurrency,
+    convertCurrency,
+    loading: currencyLoading,
+  } = useCurrency();
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Confirmation step: the currency picked, the amounts it would change and an optional rate override
+  const [pendingCurrency, setPendingCurrency] = useState<Currency | null>(null);
+  const [preview, setPreview] = useState<ConversionPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [rate, setRate] = useState('');
+  const [converting, setConverting] = useState(false);
+
   // Fetch all currencies
   useEffect(() => {
     const fetchCurrencies = async () => {
@@ -41,13 +72,72 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({ onCurrencyChange })
     fetchCurrencies();
   }, []);
 
+  const loadPreview = async (currency: Currency, overrideRate?: number) => {
+    try {
+      setPreviewError(null);
+      const data = await currencyAPI.getCurrencyConversionPreview(currency.id, overrideRate);
+      setPreview({ rate: Number(data.rate), items: Array.isArray(data.items) ? data.items : [] });
+      setRate(String(data.rate));
+    } catch (err: unknown) {
+      // Without a stored rate the user can still type one in
+      setPreview(null);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to preview conversion');
+    }
+  };
+
   const handleCurrencySelect = async (currency: Currency) => {
+    if (isAuthenticated && selectedCurrency && currency.id !== selectedCurrency.id) {
+      setPendingCurrency(currency);
+      setPreview(null);
+      setRate('');
+      await loadPreview(currency);
+      return;
+    }
+
     setSelectedCurrency(currency);
     if (onCurrencyChange) {
       onCurrencyChange(currency);
     }
   };
 
+  const finishChange = (currency: Currency) => {
+    setPendingCurrency(null);
+    setPreview(null);
+    if (onCurrencyChange) {
+      onCurrencyChange(currency);
+    }
+  };
+
+  // Keep the amounts as they are and only change the symbol they are shown with
+  const handleRelabel = () => {
+    if (!pendingCurrency) return;
+    setSelectedCurrency(pendingCurrency);
+    finishChange(pendingCurrency);
+  };
+
+  const handleConvert = async () => {
+    if (!pendingCurrency || !preview || converting) return;
+
+    try {
+      setConverting(true);
+      setPreviewError(null);
+      await convertCurrency(pendingCurrency, preview.rate);
+      queryClient.invalidateQueries({ queryKey: incomeKeys.all });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.all });
+      queryClient.invalidateQueries({ queryKey: cashSavingsKeys.all });
+      finishChange(pendingCurrency);
+    } catch (err: unknown) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to convert amounts');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  const parsedRate = parseFloat(rate);
+  const canApplyRate = !isNaN(parsedRate) && parsedRate > 0 && parsedRate !== preview?.rate;
+
   if (currencyLoading || loading) {
     return (
       <div className="rf-currency-loading">
@@ -60,6 +150,70 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({ onCurrencyChange })
     return <div className="rf-settings-error">{error}</div>;
   }
 
+  if (pendingCurrency) {
+    return (
+      <div className="rf-currency-list-container">
+        <p className="rf-hint">
+          Switching from {selectedCurrency?.cur_name} to {pendingCurrency.cur_name}. Converting re-denominates every
+          amount held in {selectedCurrency?.cur_name}; keeping the amounts only changes the symbol.
+        </p>
+
+        {previewError && <div className="rf-error">{previewError}</div>}
+
+        <div className="rf-input-row">
+          <input
+            className="rf-input"
+            type="number"
+            min="0"
+            step="any"
+            placeholder={`${pendingCurrency.cur_symbol} per ${selectedCurrency?.cur_symbol ?? ''}1`}
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <button
+            className="rf-btn-edit"
+            onClick={() => loadPreview(pendingCurrency, parsedRate)}
+            disabled={!canApplyRate}
+          >
+            Apply Rate
+          </button>
+        </div>
+
+        {preview && (
+          <div className="rf-scroll-list">
+            {preview.items.length === 0 ? (
+              <p className="rf-hint">Nothing is held in {selectedCurrency?.cur_name}.</p>
+            ) : (
+              preview.items.map((item) => (
+                <div key={`${item.entityType}-${item.entityId}-${item.field}`} className="rf-list-item">
+                  <span className="rf-list-item-name">
+                    {item.name}
+                    {FIELD_LABELS[item.field] ? ` (${FIELD_LABELS[item.field]})` : ''}
+                  </span>
+                  <span className="rf-list-item-amount">
+                    {formatCurrency(item.before, selectedCurrency)} → {formatCurrency(item.after, pendingCurrency)}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <div className="rf-input-row">
+          <button className="rf-btn-primary" onClick={handleConvert} disabled={!preview || converting}>
+            {converting ? 'Converting...' : 'Convert Amounts'}
+          </button>
+          <button className="rf-btn-edit" onClick={handleRelabel} disabled={converting}>
+            Keep Amounts
+          </button>
+          <button className="rf-btn-cancel" onClick={() => setPendingCurrency(null)} disabled={converting}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="rf-currency-list-container">
       {error && (
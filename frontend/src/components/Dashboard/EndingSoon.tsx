@@ -0,0 +1,91 @@
+import React from 'react';
+import { useIncomeQuery } from '../../hooks/queries/useIncome';
+import { useExpensesQuery } from '../../hooks/queries/useExpenses';
+import { useCurrencyConversion } from '../../hooks/queries/useCurrencies';
+import { describeRecurringAmount } from '../../utils/frequency.utils';
+import { daysUntilEnd } from '../../utils/activePeriod.utils';
+
+interface EndingSoonProps {
+  /** Lines ending within this many days are listed */
+  withinDays?: number;
+  /** Custom class name */
+  className?: string;
+}
+
+interface EndingLine {
+  key: string;
+  kind: 'Income' | 'Expense';
+  name: string;
+  amount: string;
+  activeUntil: string;
+  daysLeft: number;
+}
+
+/**
+ * EndingSoon Component
+ *
+ * Lists income lines and expenses whose last active day is near, so a
+ * contract running out or a subscription ending does not come as a surprise.
+ * Renders nothing when no line ends within the window.
+ */
+const EndingSoon: React.FC<EndingSoonProps> = ({
+  withinDays = 60,
+  className = '',
+}) => {
+  const { data: income } = useIncomeQuery();
+  const { data: expenses } = useExpensesQuery();
+  const { formatNative } = useCurrencyConversion();
+
+  const incomeLines = income ? [...income.earned, ...income.portfolio, ...income.passive] : [];
+  const lines: EndingLine[] = [
+    ...incomeLines.map((item) => ({ ...item, kind: 'Income' as const })),
+    ...(expenses ?? []).map((item) => ({ ...item, kind: 'Expense' as const })),
+  ]
+    .filter((item) => item.activeUntil !== null)
+    .map((item) => ({
+      key: `${item.kind}-${item.id}`,
+      kind: item.kind,
+      name: item.name,
+      amount: describeRecurringAmount(item.amount, item.frequency, (value) => formatNative(value, item.currencyId)),
+      activeUntil: item.activeUntil!,
+      daysLeft: daysUntilEnd(item.activeUntil!),
+    }))
+    .filter((line) => line.daysLeft >= 0 && line.daysLeft <= withinDays)
+    .sort((a, b) => a.activeUntil.localeCompare(b.activeUntil));
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`ending-soon ${className}`.trim()}>
+      <div className="rf-section-header-sm">Ending soon</div>
+      <ul className="space-y-2">
+        {lines.map((line) => (
+          <li
+            key={line.key}
+            className="flex items-center justify-between rounded-lg p-3"
+            style={{
+              backgroundColor: 'rgba(115, 69, 175, 0.1)',
+              border: '1px solid var(--color-border)',
+            }}
+          >
+            <div>
+              <p className="text-sm font-medium" style={{ color: 'var(--color-purple-lighter)' }}>
+                {line.name}
+              </p>
+              <p className="text-xs mt-1" style={{ color: 'var(--color-text-dim)' }}>
+                {line.kind} · {line.amount}
+              </p>
+            </div>
+            <p className={`text-xs ${line.kind === 'Income' ? 'text-red-400' : 'text-green-400'}`}>
+              {line.daysLeft === 0 ? 'Last day today' : `Ends ${line.activeUntil} (${line.daysLeft}d)`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default EndingSoon;
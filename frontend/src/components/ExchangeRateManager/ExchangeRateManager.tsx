@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import {
+  useCurrenciesQuery,
+  useExchangeRatesQuery,
+  useExchangeRateHistoryQuery,
+  useUpdateExchangeRatesMutation,
+  useImportExchangeRatesMutation,
+} from '../../hooks/queries/useCurrencies';
+
+/**
+ * Set exchange rates one pair at a time or import them from a CSV (admin only)
+ * Rates convert entities held in other currencies to each user's preferred currency;
+ * dated rates are used when past states are shown in the Time Machine
+ */
+const ExchangeRateManager: React.FC = () => {
+  const { data: currencies } = useCurrenciesQuery();
+  const { data: rates, isLoading } = useExchangeRatesQuery();
+  const updateRatesMutation = useUpdateExchangeRatesMutation();
+  const importRatesMutation = useImportExchangeRatesMutation();
+
+  const [fromCurrencyId, setFromCurrencyId] = useState('');
+  const [toCurrencyId, setToCurrencyId] = useState('');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [csv, setCsv] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const hasPair = !!fromCurrencyId && !!toCurrencyId;
+  const { data: history } = useExchangeRateHistoryQuery(
+    hasPair ? Number(fromCurrencyId) : undefined,
+    hasPair ? Number(toCurrencyId) : undefined
+  );
+
+  const currencyList = currencies ?? [];
+  const rateList = rates ?? [];
+  const parsedRate = parseFloat(rate);
+  const canSave =
+    !!fromCurrencyId && !!toCurrencyId && fromCurrencyId !== toCurrencyId && !isNaN(parsedRate) && parsedRate > 0;
+
+  const handleSave = async () => {
+    if (!canSave || updateRatesMutation.isPending) return;
+
+    try {
+      setError(null);
+      setMessage(null);
+      await updateRatesMutation.mutateAsync([
+        {
+          fromCurrencyId: Number(fromCurrencyId),
+          toCurrencyId: Number(toCurrencyId),
+          rate: parsedRate,
+          effectiveDate: effectiveDate || undefined,
+        },
+      ]);
+      setRate('');
+      setEffectiveDate('');
+      setMessage('Exchange rate saved');
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv.trim() || importRatesMutation.isPending) return;
+
+    try {
+      setError(null);
+      setMessage(null);
+      const result = await importRatesMutation.mutateAsync(csv);
+      const count = Array.isArray(result?.rates) ? result.rates.length : 0;
+      setCsv('');
+      setMessage(`Imported ${count} exchange rate${count !== 1 ? 's' : ''}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to import exchange rates');
+    }
+  };
+
+  // Load a CSV file into the text area so it can be reviewed before importing
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div className="rf-card mt-6">
+      <h2 className="text-xl font-bold text-(--color-gold) m-0 mb-1">Exchange Rates</h2>
+      <span className="text-sm text-(--color-text-muted)">
+        One unit of the first currency buys the rate in the second. Inverse rates are derived automatically.
+      </span>
+
+      {error && <div className="rf-error mt-3">{error}</div>}
+      {message && <p className="rf-hint mt-3">{message}</p>}
+
+      <div className="rf-scroll-list mt-3">
+        {isLoading ? (
+          <p className="rf-hint">Loading exchange rates...</p>
+        ) : rateList.length === 0 ? (
+          <p className="rf-hint">No exchange rates yet.</p>
+        ) : (
+          rateList.map((item) => (
+            <div key={item.id} className="rf-list-item">
+              <span className="rf-list-item-name">
+                {item.fromCurrency?.cur_name ?? item.fromCurrencyId} → {item.toCurrency?.cur_name ?? item.toCurrencyId}
+              </span>
+              <span className="rf-list-item-amount">{item.rate}</span>
+              <span className="text-xs text-(--color-text-dim)">
+                {new Date(item.updatedAt).toLocaleDateString()}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="rf-input-row">
+        <select className="rf-select" value={fromCurrencyId} onChange={(e) => setFromCurrencyId(e.target.value)}>
+          <option value="">From currency</option>
+          {currencyList.map((c) => (
+            <option key={c.id} value={c.id}>{`${c.cur_symbol} ${c.cur_name}`}</option>
+          ))}
+        </select>
+        <select className="rf-select" value={toCurrencyId} onChange={(e) => setToCurrencyId(e.target.value)}>
+          <option value="">To currency</option>
+          {currencyList.map((c) => (
+            <option key={c.id} value={c.id}>{`${c.cur_symbol} ${c.cur_name}`}</option>
+          ))}
+        </select>
+        <input
+          className="rf-input"
+          type="number"
+          min="0"
+          step="any"
+          placeholder="Rate"
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+        />
+        <input
+          className="rf-input"
+          type="date"
+          title="Date the rate took effect (optional, defaults to today)"
+          max={new Date().toISOString().split('T')[0]}
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+        />
+      </div>
+
+      {hasPair && history && history.length > 0 && (
+        <p className="rf-hint">
+          History: {history.map((item) => `${item.effectiveDate} · ${item.rate}`).join(', ')}
+        </p>
+      )}
+      <button className="rf-btn-primary" onClick={handleSave} disabled={!canSave || updateRatesMutation.isPending}>
+        {updateRatesMutation.isPending ? 'Saving...' : 'Save Rate'}
+      </button>
+
+      <div className="rf-section-header-sm mt-4">Import CSV</div>
+      <p className="rf-hint">One "from,to,rate" line per pair, using currency names or IDs, with an optional YYYY-MM-DD date. Nothing is saved if a line is invalid.</p>
+      <textarea
+        className="rf-input w-full min-h-[120px] font-mono"
+        placeholder={'from,to,rate,date\nUS Dollar,Philippine Peso,56.1,2024-03-01'}
+        value={csv}
+        onChange={(e) => setCsv(e.target.value)}
+      />
+      <div className="rf-input-row">
+        <input className="rf-input" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        <button className="rf-btn-primary" onClick={handleImport} disabled={!csv.trim() || importRatesMutation.isPending}>
+          {importRatesMutation.isPending ? 'Importing...' : 'Import Rates'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRateManager;
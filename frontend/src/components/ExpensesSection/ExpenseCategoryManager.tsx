@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  useExpenseCategoriesQuery,
+  useAddExpenseCategoryMutation,
+  useUpdateExpenseCategoryMutation,
+  useDeleteExpenseCategoryMutation,
+  ExpenseCategory,
+} from '../../hooks/queries/useExpenseCategories';
+import {
+  CLASSIFICATION_OPTIONS,
+  ExpenseClassification,
+  getCategoryDepth,
+  getClassificationLabel,
+} from '../../utils/expenseCategory.utils';
+
+/**
+ * Add, rename, nest, reclassify and delete expense categories
+ */
+const ExpenseCategoryManager: React.FC = () => {
+  const { data: categories } = useExpenseCategoriesQuery();
+  const addCategoryMutation = useAddExpenseCategoryMutation();
+  const updateCategoryMutation = useUpdateExpenseCategoryMutation();
+  const deleteCategoryMutation = useDeleteExpenseCategoryMutation();
+
+  const [editingCategory, setEditingCategory] = useState<ExpenseCategory | null>(null);
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState('');
+  const [classification, setClassification] = useState<ExpenseClassification>('ESSENTIAL');
+  const [error, setError] = useState<string | null>(null);
+
+  const categoryList = categories ?? [];
+  const isSaving = addCategoryMutation.isPending || updateCategoryMutation.isPending;
+
+  const resetForm = () => {
+    setEditingCategory(null);
+    setName('');
+    setParentId('');
+    setClassification('ESSENTIAL');
+  };
+
+  const handleSubmit = async () => {
+    if (!name.trim() || isSaving) return;
+
+    const input = {
+      name: name.trim(),
+      classification,
+      parentId: parentId ? Number(parentId) : null,
+    };
+
+    try {
+      setError(null);
+      if (editingCategory) {
+        await updateCategoryMutation.mutateAsync({ id: editingCategory.id, ...input });
+      } else {
+        await addCategoryMutation.mutateAsync(input);
+      }
+      resetForm();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save category');
+    }
+  };
+
+  const handleEdit = (category: ExpenseCategory) => {
+    setEditingCategory(category);
+    setName(category.name);
+    setParentId(category.parentId !== null ? String(category.parentId) : '');
+    setClassification(category.classification);
+  };
+
+  const handleDelete = async (category: ExpenseCategory) => {
+    if (deleteCategoryMutation.isPending) return;
+
+    try {
+      setError(null);
+      await deleteCategoryMutation.mutateAsync({ id: category.id });
+      if (editingCategory?.id === category.id) resetForm();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete category');
+    }
+  };
+
+  // A category cannot be nested under itself or one of its subcategories
+  const parentOptions = editingCategory
+    ? categoryList.filter(
+        (c) => c.id !== editingCategory.id && !c.path.startsWith(`${editingCategory.path} > `)
+      )
+    : categoryList;
+
+  return (
+    <div className="mt-4">
+      <div className="rf-section-header-sm">Categories</div>
+
+      {error && <div className="rf-error">{error}</div>}
+
+      <div className="rf-scroll-list">
+        {categoryList.map((category) => (
+          <div key={category.id} className="rf-list-item">
+            <span
+              className="rf-list-item-name"
+              style={{ paddingLeft: `${getCategoryDepth(category.path) * 1.25}rem` }}
+            >
+              {category.name}
+            </span>
+            <span className="rf-list-item-amount">{getClassificationLabel(category.classification)}</span>
+            <div className="rf-list-item-actions">
+              <button className="rf-btn-edit" onClick={() => handleEdit(category)} disabled={isSaving}>
+                Edit
+              </button>
+              <button
+                className="rf-btn-delete"
+                onClick={() => handleDelete(category)}
+                disabled={deleteCategoryMutation.isPending}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="rf-input-row">
+        <input
+          className="rf-input"
+          type="text"
+          placeholder="Category name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select className="rf-select" value={parentId} onChange={(e) => setParentId(e.target.value)}>
+          <option value="">Top level</option>
+          {parentOptions.map((category) => (
+            <option key={category.id} value={category.id}>{category.path}</option>
+          ))}
+        </select>
+        <select
+          className="rf-select"
+          value={classification}
+          onChange={(e) => setClassification(e.target.value as ExpenseClassification)}
+        >
+          {CLASSIFICATION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="rf-hint">
+        Doodads are purchases that take money out of your pocket and never put any back.
+      </p>
+
+      {editingCategory ? (
+        <div className="rf-edit-actions">
+          <button className="rf-btn-save" onClick={handleSubmit} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+          <button className="rf-btn-cancel" onClick={resetForm} disabled={isSaving}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button className="rf-btn-primary" onClick={handleSubmit} disabled={isSaving || !name.trim()}>
+          {isSaving ? 'Adding...' : '+ Add Category'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ExpenseCategoryManager;
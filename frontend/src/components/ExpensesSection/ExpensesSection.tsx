@@ -6,22 +6,39 @@ import {
   useDeleteExpenseMutation,
   ExpenseItem,
 } from '../../hooks/queries/useExpenses';
-import { useCurrency } from '../../context/CurrencyContext';
-import { formatCurrency } from '../../utils/currency.utils';
+import { useExpenseCategoriesQuery } from '../../hooks/queries/useExpenseCategories';
+import { useAssetsQuery, useLiabilitiesQuery } from '../../hooks/queries/useBalanceSheet';
+import { useCurrencyConversion } from '../../hooks/queries/useCurrencies';
+import { Frequency, FREQUENCY_OPTIONS, describeRecurringAmount, toMonthlyAmount } from '../../utils/frequency.utils';
+import { getClassificationLabel } from '../../utils/expenseCategory.utils';
 import FinancialTable, { ColumnDefinition } from '../Shared/FinancialTable';
+import CurrencySelect from '../Shared/CurrencySelect';
+import { describeActivePeriod } from '../../utils/activePeriod.utils';
+import ExpenseCategoryManager from './ExpenseCategoryManager';
 
 const ExpenseSection: React.FC = () => {
-  const { currency } = useCurrency();
-
   // TanStack Query hooks
   const { data: expenses, isLoading, error: queryError } = useExpensesQuery();
   const addExpenseMutation = useAddExpenseMutation();
   const updateExpenseMutation = useUpdateExpenseMutation();
   const deleteExpenseMutation = useDeleteExpenseMutation();
+  const { data: categories } = useExpenseCategoriesQuery();
+  const { data: assets } = useAssetsQuery();
+  const { data: liabilities } = useLiabilitiesQuery();
+  const { formatNative } = useCurrencyConversion();
 
   const [editingItem, setEditingItem] = useState<ExpenseItem | null>(null);
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
+  const [frequency, setFrequency] = useState<Frequency>('MONTHLY');
+  const [categoryId, setCategoryId] = useState('');
+  const [assetId, setAssetId] = useState('');
+  const [liabilityId, setLiabilityId] = useState('');
+  const [currencyId, setCurrencyId] = useState('');
+  const [activeFrom, setActiveFrom] = useState('');
+  const [activeUntil, setActiveUntil] = useState('');
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState('');
   const [localError, setLocalError] = useState<string | null>(null);
 
   // Handle add expense
@@ -33,9 +50,25 @@ const ExpenseSection: React.FC = () => {
       await addExpenseMutation.mutateAsync({
         name,
         amount: parseFloat(amount),
+        frequency,
+        categoryId: categoryId ? Number(categoryId) : null,
+        assetId: assetId ? Number(assetId) : null,
+        liabilityId: liabilityId ? Number(liabilityId) : null,
+        currencyId: currencyId ? Number(currencyId) : null,
+        activeFrom: activeFrom || null,
+        activeUntil: activeUntil || null,
+        effectiveDate: effectiveDate || undefined,
       });
       setName('');
       setAmount('');
+      setFrequency('MONTHLY');
+      setCategoryId('');
+      setAssetId('');
+      setLiabilityId('');
+      setCurrencyId('');
+      setActiveFrom('');
+      setActiveUntil('');
+      setEffectiveDate('');
     } catch (err: unknown) {
       setLocalError('Failed to add expense');
     }
@@ -51,10 +84,26 @@ const ExpenseSection: React.FC = () => {
         id: editingItem.id,
         name,
         amount: parseFloat(amount),
+        frequency,
+        categoryId: categoryId ? Number(categoryId) : null,
+        assetId: assetId ? Number(assetId) : null,
+        liabilityId: liabilityId ? Number(liabilityId) : null,
+        currencyId: currencyId ? Number(currencyId) : null,
+        activeFrom: activeFrom || null,
+        activeUntil: activeUntil || null,
+        effectiveDate: effectiveDate || undefined,
       });
       setEditingItem(null);
       setName('');
       setAmount('');
+      setFrequency('MONTHLY');
+      setCategoryId('');
+      setAssetId('');
+      setLiabilityId('');
+      setCurrencyId('');
+      setActiveFrom('');
+      setActiveUntil('');
+      setEffectiveDate('');
     } catch (err: unknown) {
       setLocalError('Failed to update expense');
     }
@@ -65,6 +114,13 @@ const ExpenseSection: React.FC = () => {
     setEditingItem(item);
     setName(item.name);
     setAmount(item.amount.toString());
+    setFrequency(item.frequency);
+    setCategoryId(item.categoryId !== null ? String(item.categoryId) : '');
+    setAssetId(item.assetId !== null ? String(item.assetId) : '');
+    setLiabilityId(item.liabilityId !== null ? String(item.liabilityId) : '');
+    setCurrencyId(item.currencyId !== null ? String(item.currencyId) : '');
+    setActiveFrom(item.activeFrom ?? '');
+    setActiveUntil(item.activeUntil ?? '');
   };
 
   // Handle cancel edit
@@ -72,6 +128,14 @@ const ExpenseSection: React.FC = () => {
     setEditingItem(null);
     setName('');
     setAmount('');
+    setFrequency('MONTHLY');
+    setCategoryId('');
+    setAssetId('');
+    setLiabilityId('');
+    setCurrencyId('');
+    setActiveFrom('');
+    setActiveUntil('');
+    setEffectiveDate('');
   };
 
   // Handle delete expense
@@ -86,16 +150,38 @@ const ExpenseSection: React.FC = () => {
     }
   };
 
+  const categoryList = categories ?? [];
+  const categoryById = new Map(categoryList.map((category) => [category.id, category]));
+  const assetList = assets ?? [];
+  const assetById = new Map(assetList.map((asset) => [asset.id, asset]));
+  const liabilityList = liabilities ?? [];
+
   // Column definitions for FinancialTable
   const columns: ColumnDefinition<ExpenseItem>[] = [
-    { header: 'Name', accessor: 'name' },
+    {
+      header: 'Name',
+      accessor: (item) => {
+        const asset = item.assetId !== null ? assetById.get(item.assetId) : undefined;
+        const period = describeActivePeriod(item);
+        return [item.name, asset?.name, period].filter(Boolean).join(' · ');
+      },
+    },
+    {
+      header: 'Category',
+      accessor: (item) => {
+        const category = item.categoryId !== null ? categoryById.get(item.categoryId) : undefined;
+        return category ? `${category.path} (${getClassificationLabel(category.classification)})` : 'Uncategorized';
+      },
+    },
     {
       header: 'Amount',
-      accessor: (item) => formatCurrency(item.amount, currency),
+      accessor: (item) => describeRecurringAmount(item.amount, item.frequency, (value) => formatNative(value, item.currencyId)),
       align: 'right',
     },
   ];
 
+  const parsedAmount = parseFloat(amount);
+
   // Determine which item is being deleted (for loading state)
   const deletingId = deleteExpenseMutation.isPending ? deleteExpenseMutation.variables?.id : null;
 
@@ -154,8 +240,81 @@ const ExpenseSection: React.FC = () => {
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
           />
+          <CurrencySelect value={currencyId} onChange={setCurrencyId} />
+          <select
+            className="rf-select"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as Frequency)}
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            className="rf-select"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+          >
+            <option value="">Uncategorized</option>
+            {categoryList.map((category) => (
+              <option key={category.id} value={category.id}>{category.path}</option>
+            ))}
+          </select>
+          <select
+            className="rf-select"
+            title="Asset this expense is for (optional)"
+            value={assetId}
+            onChange={(e) => setAssetId(e.target.value)}
+          >
+            <option value="">No asset</option>
+            {assetList.map((asset) => (
+              <option key={asset.id} value={asset.id}>{asset.name}</option>
+            ))}
+          </select>
+          <select
+            className="rf-select"
+            title="Loan this expense pays (optional); it stops counting once a payoff plan clears the loan"
+            value={liabilityId}
+            onChange={(e) => setLiabilityId(e.target.value)}
+          >
+            <option value="">No loan</option>
+            {liabilityList.map((liability) => (
+              <option key={liability.id} value={liability.id}>{liability.name}</option>
+            ))}
+          </select>
+          <input
+            className="rf-input"
+            type="date"
+            title="Effective date (optional, defaults to today)"
+            max={new Date().toISOString().split('T')[0]}
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+          <input
+            className="rf-input"
+            type="date"
+            title="Active from: first day this expense counts (optional)"
+            value={activeFrom}
+            onChange={(e) => setActiveFrom(e.target.value)}
+          />
+          <input
+            className="rf-input"
+            type="date"
+            title="Active until: last day this expense counts, after which it is removed (optional)"
+            min={activeFrom || undefined}
+            value={activeUntil}
+            onChange={(e) => setActiveUntil(e.target.value)}
+          />
         </div>
 
+        {frequency !== 'MONTHLY' && !isNaN(parsedAmount) && (
+          <p className="rf-hint">
+            {frequency === 'ONE_OFF'
+              ? 'One-off expenses are not counted in monthly cashflow.'
+              : `Monthly equivalent: ${formatNative(toMonthlyAmount(parsedAmount, frequency), currencyId ? Number(currencyId) : null)}`}
+          </p>
+        )}
+
         {editingItem !== null ? (
           <div className="rf-edit-actions">
             <button
@@ -184,6 +343,15 @@ const ExpenseSection: React.FC = () => {
             {addExpenseMutation.isPending ? 'Adding...' : '+ Add Expense'}
           </button>
         )}
+
+        <button
+          className="rf-btn-cancel mt-3"
+          onClick={() => setShowCategoryManager((show) => !show)}
+        >
+          {showCategoryManager ? 'Hide Categories' : 'Manage Categories'}
+        </button>
+
+        {showCategoryManager && <ExpenseCategoryManager />}
       </div>
     </div>
   );
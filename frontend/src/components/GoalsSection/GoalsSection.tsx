@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import {
+  useGoalsQuery,
+  useGoalProgressQuery,
+  useAddGoalMutation,
+  useUpdateGoalMutation,
+  useDeleteGoalMutation,
+  GoalItem,
+  GoalMetric,
+  GoalProgress,
+  GoalUnit,
+  GOAL_METRIC_OPTIONS,
+} from "../../hooks/queries/useGoals";
+import { useCurrency } from "../../context/CurrencyContext";
+import { formatCurrency } from "../../utils/currency.utils";
+import FinancialProgressBar from "../Shared/FinancialProgressBar";
+
+const tomorrow = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Savings and net-worth goals, each with its progress, whether the current
+ * trend reaches it by the deadline, and what it takes per month if not.
+ */
+const GoalsSection: React.FC = () => {
+  const { currency } = useCurrency();
+
+  // TanStack Query hooks
+  const { data: goals } = useGoalsQuery();
+  const { data: progress, isLoading, error: queryError } = useGoalProgressQuery();
+  const addGoalMutation = useAddGoalMutation();
+  const updateGoalMutation = useUpdateGoalMutation();
+  const deleteGoalMutation = useDeleteGoalMutation();
+
+  const [editingItem, setEditingItem] = useState<GoalItem | null>(null);
+  const [name, setName] = useState("");
+  const [metric, setMetric] = useState<GoalMetric>("NET_WORTH");
+  const [targetValue, setTargetValue] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const saving = addGoalMutation.isPending || updateGoalMutation.isPending;
+  const canSubmit = !saving && !!name.trim() && !!targetValue.trim() && !!deadline;
+
+  const formatValue = (value: number, unit: GoalUnit) => {
+    switch (unit) {
+      case "MONTHS":
+        return `${value.toFixed(1)} mo`;
+      case "PERCENT":
+        return `${value.toFixed(1)}%`;
+      default:
+        return formatCurrency(value, currency);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setName("");
+    setMetric("NET_WORTH");
+    setTargetValue("");
+    setDeadline("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    const input = { name: name.trim(), metric, targetValue: parseFloat(targetValue), deadline };
+
+    try {
+      setLocalError(null);
+      if (editingItem !== null) {
+        await updateGoalMutation.mutateAsync({ id: editingItem.id, ...input });
+      } else {
+        await addGoalMutation.mutateAsync(input);
+      }
+      resetForm();
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : "Failed to save goal");
+    }
+  };
+
+  const handleEdit = (item: GoalItem) => {
+    setEditingItem(item);
+    setName(item.name);
+    setMetric(item.metric);
+    setTargetValue(item.targetValue.toString());
+    setDeadline(item.deadline);
+  };
+
+  const handleDelete = async (item: GoalItem) => {
+    if (deleteGoalMutation.isPending) return;
+
+    try {
+      setLocalError(null);
+      await deleteGoalMutation.mutateAsync({ id: item.id });
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : "Failed to delete goal");
+    }
+  };
+
+  const describeOutlook = (goal: GoalProgress) => {
+    if (goal.achieved) return "Reached";
+    if (goal.monthsRemaining === 0) return "Deadline passed";
+    if (goal.onTrack) return `On track · projected ${formatValue(goal.projectedValue, goal.unit)}`;
+    if (goal.requiredMonthlyContribution !== null) {
+      return `Behind · needs ${formatCurrency(goal.requiredMonthlyContribution, currency)}/month`;
+    }
+    return `Behind · needs ${formatValue(Math.abs(goal.requiredMonthlyChange), goal.unit)} more each month`;
+  };
+
+  const renderGoal = (goal: GoalProgress) => {
+    const item = goals?.find((entry) => entry.id === goal.goalId);
+    return (
+      <div key={goal.goalId} className="mb-5">
+        <FinancialProgressBar
+          label={goal.name}
+          currentValue={goal.progress}
+          totalValue={100}
+          formattedCurrentValue={formatValue(goal.currentValue, goal.unit)}
+          formattedTotalValue={formatValue(goal.targetValue, goal.unit)}
+          targetLabel={`by ${goal.deadline}`}
+          variant={goal.achieved ? "green" : goal.onTrack ? "gold" : "red"}
+        />
+        <div className="flex flex-wrap justify-between gap-2 rf-hint mt-1">
+          <span style={{ color: goal.achieved || goal.onTrack ? "#41d288" : "#ff7d7e" }}>
+            {describeOutlook(goal)}
+          </span>
+          {item && (
+            <span className="flex gap-3">
+              <button
+                type="button"
+                className="underline"
+                onClick={() => handleEdit(item)}
+                disabled={saving || editingItem !== null}
+              >
+                Edit
+              </button>
+              <button
+                type="button"
+                className="underline"
+                onClick={() => handleDelete(item)}
+                disabled={deleteGoalMutation.isPending}
+              >
+                {deleteGoalMutation.isPending && deleteGoalMutation.variables?.id === item.id ? "Removing..." : "Remove"}
+              </button>
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // Display error from hook or local error
+  const displayError =
+    localError || (queryError instanceof Error ? queryError.message : queryError ? String(queryError) : null);
+
+  return (
+    <div className="rf-card text-white">
+      <div className="rf-section-header">Goals</div>
+
+      {displayError && <p className="rf-error">{displayError}</p>}
+
+      {isLoading ? (
+        <p className="text-center text-[#d4af37] p-5">Loading goals...</p>
+      ) : progress && progress.length > 0 ? (
+        progress.map(renderGoal)
+      ) : (
+        <p className="rf-hint mb-4">
+          No goals yet. Set one, e.g. six months of liquid runway or passive income covering half your expenses.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-3">
+        <input
+          className="rf-input flex-[2] min-w-[160px]"
+          type="text"
+          placeholder="Goal name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={saving}
+        />
+        <select
+          className="rf-select flex-[2] min-w-[160px]"
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as GoalMetric)}
+          disabled={saving}
+        >
+          {GOAL_METRIC_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <input
+          className="rf-input flex-1 min-w-[110px]"
+          type="number"
+          placeholder="Target"
+          step="0.01"
+          value={targetValue}
+          onChange={(e) => setTargetValue(e.target.value)}
+          disabled={saving}
+        />
+        <input
+          className="rf-input flex-1 min-w-[130px]"
+          type="date"
+          min={tomorrow()}
+          value={deadline}
+          onChange={(e) => setDeadline(e.target.value)}
+          disabled={saving}
+          aria-label="Deadline"
+        />
+        {editingItem !== null ? (
+          <div className="rf-edit-actions w-full">
+            <button type="submit" className="rf-btn-save" disabled={!canSubmit}>
+              {updateGoalMutation.isPending ? "Saving..." : "Save"}
+            </button>
+            <button
+              type="button"
+              className="rf-btn-cancel"
+              onClick={resetForm}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button className="rf-btn-primary w-full" type="submit" disabled={!canSubmit}>
+            {addGoalMutation.isPending ? "Adding..." : "Add Goal"}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default GoalsSection;
@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { IncomeLine } from '../../types/income.types';
+import { Frequency, FREQUENCY_OPTIONS, toMonthlyAmount } from '../../utils/frequency.utils';
 
 interface Props {
   income?: IncomeLine | null;
-  onSubmit: (name: string, amount: number, type: 'Earned' | 'Portfolio' | 'Passive') => void;
+  onSubmit: (
+    name: string,
+    amount: number,
+    type: 'Earned' | 'Portfolio' | 'Passive',
+    frequency: Frequency
+  ) => void;
   onCancel: () => void;
 }
 
@@ -11,6 +17,7 @@ const IncomeForm: React.FC<Props> = ({ income, onSubmit, onCancel }) => {
   const [name, setName] = useState(income?.name || '');
   const [amount, setAmount] = useState(income?.amount.toString() || '');
   const [type, setType] = useState<'Earned' | 'Portfolio' | 'Passive'>(income?.type || 'Earned');
+  const [frequency, setFrequency] = useState<Frequency>(income?.frequency || 'MONTHLY');
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -18,6 +25,7 @@ const IncomeForm: React.FC<Props> = ({ income, onSubmit, onCancel }) => {
       setName(income.name);
       setAmount(income.amount.toString());
       setType(income.type);
+      setFrequency(income.frequency || 'MONTHLY');
     }
   }, [income]);
 
@@ -37,7 +45,7 @@ const IncomeForm: React.FC<Props> = ({ income, onSubmit, onCancel }) => {
       return;
     }
 
-    onSubmit(name.trim(), numAmount, type);
+    onSubmit(name.trim(), numAmount, type, frequency);
   };
 
   return (
@@ -70,6 +78,26 @@ const IncomeForm: React.FC<Props> = ({ income, onSubmit, onCancel }) => {
         />
       </div>
 
+      <div className="form-group">
+        <label htmlFor="frequency">Frequency:</label>
+        <select
+          id="frequency"
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as Frequency)}
+        >
+          {FREQUENCY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {frequency !== 'MONTHLY' && !isNaN(parseFloat(amount)) && (
+          <small>
+            {frequency === 'ONE_OFF'
+              ? 'Not counted in monthly cashflow'
+              : `Monthly equivalent: $${toMonthlyAmount(parseFloat(amount), frequency).toFixed(2)}`}
+          </small>
+        )}
+      </div>
+
       <div className="form-group">
         <label htmlFor="type">Type:</label>
         <select
@@ -8,9 +8,12 @@ import {
   IncomeQuadrant,
   IncomeType
 } from "../../hooks/queries/useIncome";
-import { useCurrency } from "../../context/CurrencyContext";
-import { formatCurrency } from "../../utils/currency.utils";
+import { useAssetsQuery } from "../../hooks/queries/useBalanceSheet";
+import { useCurrencyConversion } from "../../hooks/queries/useCurrencies";
+import { Frequency, FREQUENCY_OPTIONS, describeRecurringAmount, toMonthlyAmount } from "../../utils/frequency.utils";
 import FinancialTable, { ColumnDefinition } from "../Shared/FinancialTable";
+import CurrencySelect from "../Shared/CurrencySelect";
+import { describeActivePeriod } from "../../utils/activePeriod.utils";
 
 const quadrantBySection: Record<'earned' | 'portfolio' | 'passive', IncomeQuadrant> = {
   earned: 'EMPLOYEE',
@@ -19,23 +22,31 @@ const quadrantBySection: Record<'earned' | 'portfolio' | 'passive', IncomeQuadra
 };
 
 const IncomeSection: React.FC = () => {
-  const { currency } = useCurrency();
-  
   // TanStack Query hooks
   const { data: income, isLoading, error: queryError } = useIncomeQuery();
   const addIncomeMutation = useAddIncomeMutation();
   const updateIncomeMutation = useUpdateIncomeMutation();
   const deleteIncomeMutation = useDeleteIncomeMutation();
+  const { data: assets } = useAssetsQuery();
+  const { formatNative } = useCurrencyConversion();
 
   const [editingItem, setEditingItem] = useState<IncomeItem | null>(null);
   const [localError, setLocalError] = useState<string | null>(null);
 
+  const assetList = assets ?? [];
+
   // Handle add income
   const handleAddIncome = async (
     section: "earned" | "portfolio" | "passive",
     name: string,
     amount: string,
-    quadrantOverride?: IncomeQuadrant
+    quadrantOverride?: IncomeQuadrant,
+    effectiveDate?: string,
+    frequency?: Frequency,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null
   ) => {
     if (!name.trim() || !amount.trim() || addIncomeMutation.isPending) return;
     
@@ -51,7 +62,13 @@ const IncomeSection: React.FC = () => {
         name,
         amount: parseFloat(amount),
         type,
-        quadrant: resolvedQuadrant
+        quadrant: resolvedQuadrant,
+        frequency,
+        assetId,
+        currencyId,
+        activeFrom,
+        activeUntil,
+        effectiveDate
       });
     } catch (err: unknown) {
       setLocalError('Failed to add income');
@@ -64,7 +81,13 @@ const IncomeSection: React.FC = () => {
     name: string,
     amount: number,
     type: IncomeType,
-    quadrantOverride?: IncomeQuadrant
+    quadrantOverride?: IncomeQuadrant,
+    effectiveDate?: string,
+    frequency?: Frequency,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null
   ) => {
     if (updateIncomeMutation.isPending) return;
     
@@ -75,7 +98,13 @@ const IncomeSection: React.FC = () => {
         name,
         amount,
         type,
-        quadrant: quadrantOverride
+        quadrant: quadrantOverride,
+        frequency,
+        assetId,
+        currencyId,
+        activeFrom,
+        activeUntil,
+        effectiveDate
       });
       setEditingItem(null);
     } catch (err: unknown) {
@@ -108,7 +137,13 @@ const IncomeSection: React.FC = () => {
   }) => {
     const [source, setSource] = useState("");
     const [amount, setAmount] = useState("");
+    const [frequency, setFrequency] = useState<Frequency>("MONTHLY");
+    const [effectiveDate, setEffectiveDate] = useState("");
     const [quadrantSelection, setQuadrantSelection] = useState<IncomeQuadrant>('EMPLOYEE');
+    const [assetId, setAssetId] = useState("");
+    const [currencyId, setCurrencyId] = useState("");
+    const [activeFrom, setActiveFrom] = useState("");
+    const [activeUntil, setActiveUntil] = useState("");
     const isEarnedSection = section === 'earned';
     const sectionType = (section.charAt(0).toUpperCase() + section.slice(1)) as IncomeType;
 
@@ -116,6 +151,11 @@ const IncomeSection: React.FC = () => {
       setEditingItem(item);
       setSource(item.name);
       setAmount(item.amount.toString());
+      setFrequency(item.frequency);
+      setAssetId(item.assetId !== null ? String(item.assetId) : "");
+      setCurrencyId(item.currencyId !== null ? String(item.currencyId) : "");
+      setActiveFrom(item.activeFrom ?? "");
+      setActiveUntil(item.activeUntil ?? "");
       if (isEarnedSection) {
         setQuadrantSelection(item.quadrant || 'EMPLOYEE');
       }
@@ -124,9 +164,27 @@ const IncomeSection: React.FC = () => {
     const handleSaveEdit = () => {
       if (editingItem && source.trim() && amount.trim()) {
         const quadrantForEdit = isEarnedSection ? quadrantSelection : editingItem.quadrant;
-        handleUpdateIncome(editingItem.id, source, parseFloat(amount), editingItem.type, quadrantForEdit);
+        handleUpdateIncome(
+          editingItem.id,
+          source,
+          parseFloat(amount),
+          editingItem.type,
+          quadrantForEdit,
+          effectiveDate || undefined,
+          frequency,
+          assetId ? Number(assetId) : null,
+          currencyId ? Number(currencyId) : null,
+          activeFrom || null,
+          activeUntil || null
+        );
         setSource("");
         setAmount("");
+        setFrequency("MONTHLY");
+        setAssetId("");
+        setCurrencyId("");
+        setActiveFrom("");
+        setActiveUntil("");
+        setEffectiveDate("");
       }
     };
 
@@ -134,12 +192,35 @@ const IncomeSection: React.FC = () => {
       setEditingItem(null);
       setSource("");
       setAmount("");
+      setFrequency("MONTHLY");
+      setAssetId("");
+      setCurrencyId("");
+      setActiveFrom("");
+      setActiveUntil("");
+      setEffectiveDate("");
     };
 
     const handleAddClick = () => {
-      handleAddIncome(section, source, amount, isEarnedSection ? quadrantSelection : undefined);
+      handleAddIncome(
+        section,
+        source,
+        amount,
+        isEarnedSection ? quadrantSelection : undefined,
+        effectiveDate || undefined,
+        frequency,
+        assetId ? Number(assetId) : null,
+        currencyId ? Number(currencyId) : null,
+        activeFrom || null,
+        activeUntil || null
+      );
       setSource("");
       setAmount("");
+      setFrequency("MONTHLY");
+      setAssetId("");
+      setCurrencyId("");
+      setActiveFrom("");
+      setActiveUntil("");
+      setEffectiveDate("");
     };
 
     const handleDeleteItem = (item: IncomeItem) => {
@@ -152,14 +233,23 @@ const IncomeSection: React.FC = () => {
 
     // Column definitions for FinancialTable
     const columns: ColumnDefinition<IncomeItem>[] = [
-      { header: 'Source', accessor: 'name' },
+      {
+        header: 'Source',
+        accessor: (item) => {
+          const asset = item.assetId !== null ? assetList.find((a) => a.id === item.assetId) : undefined;
+          const period = describeActivePeriod(item);
+          return [item.name, asset?.name, period].filter(Boolean).join(" · ");
+        },
+      },
       { 
         header: 'Amount', 
-        accessor: (item) => formatCurrency(item.amount, currency),
+        accessor: (item) => describeRecurringAmount(item.amount, item.frequency, (value) => formatNative(value, item.currencyId)),
         align: 'right'
       },
     ];
 
+    const parsedAmount = parseFloat(amount);
+
     // Determine which item is being deleted (for loading state)
     const deletingId = deleteIncomeMutation.isPending ? deleteIncomeMutation.variables?.id : null;
 
@@ -196,6 +286,50 @@ const IncomeSection: React.FC = () => {
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
           />
+          <CurrencySelect value={currencyId} onChange={setCurrencyId} />
+          <select
+            className="rf-select"
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as Frequency)}
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            className="rf-input"
+            type="date"
+            title="Effective date (optional, defaults to today)"
+            max={new Date().toISOString().split("T")[0]}
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+          <input
+            className="rf-input"
+            type="date"
+            title="Active from: first day this income counts (optional)"
+            value={activeFrom}
+            onChange={(e) => setActiveFrom(e.target.value)}
+          />
+          <input
+            className="rf-input"
+            type="date"
+            title="Active until: last day this income counts, after which it is removed (optional)"
+            min={activeFrom || undefined}
+            value={activeUntil}
+            onChange={(e) => setActiveUntil(e.target.value)}
+          />
+          <select
+            className="rf-select"
+            title="Asset generating this income (optional)"
+            value={assetId}
+            onChange={(e) => setAssetId(e.target.value)}
+          >
+            <option value="">No asset</option>
+            {assetList.map((asset) => (
+              <option key={asset.id} value={asset.id}>{asset.name}</option>
+            ))}
+          </select>
           {isEarnedSection && (
             <select
               className="rf-select"
@@ -209,6 +343,14 @@ const IncomeSection: React.FC = () => {
           )}
         </div>
 
+        {frequency !== "MONTHLY" && !isNaN(parsedAmount) && (
+          <p className="rf-hint">
+            {frequency === "ONE_OFF"
+              ? "One-off income is not counted in monthly cashflow."
+              : `Monthly equivalent: ${formatNative(toMonthlyAmount(parsedAmount, frequency), currencyId ? Number(currencyId) : null)}`}
+          </p>
+        )}
+
         {isEarnedSection && (
           <p className="rf-hint">
             Choose the quadrant to control whether this source shows as Employee or Self-Employed in the snapshot.
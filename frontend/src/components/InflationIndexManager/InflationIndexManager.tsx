@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import {
+  useCurrenciesQuery,
+  useInflationIndexQuery,
+  useImportInflationIndexMutation,
+} from '../../hooks/queries/useCurrencies';
+
+/**
+ * Import a consumer price index per currency from a CSV (admin only)
+ * The index restates analysis in a base year's purchasing power and projects
+ * the freedom date with expenses rising at the recent inflation rate
+ */
+const InflationIndexManager: React.FC = () => {
+  const { data: currencies } = useCurrenciesQuery();
+  const [currencyId, setCurrencyId] = useState('');
+  const { data: index, isLoading } = useInflationIndexQuery(currencyId ? Number(currencyId) : undefined);
+  const importIndexMutation = useImportInflationIndexMutation();
+
+  const [csv, setCsv] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const currencyList = currencies ?? [];
+  const indexList = index ?? [];
+
+  const handleImport = async () => {
+    if (!csv.trim() || importIndexMutation.isPending) return;
+
+    try {
+      setError(null);
+      setMessage(null);
+      const result = await importIndexMutation.mutateAsync(csv);
+      const count = Array.isArray(result?.values) ? result.values.length : 0;
+      setCsv('');
+      setMessage(`Imported ${count} index value${count !== 1 ? 's' : ''}`);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to import inflation index');
+    }
+  };
+
+  // Load a CSV file into the text area so it can be reviewed before importing
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) setCsv(await file.text());
+    e.target.value = '';
+  };
+
+  return (
+    <div className="rf-card mt-6">
+      <h2 className="text-xl font-bold text-(--color-gold) m-0 mb-1">Inflation Index</h2>
+      <span className="text-sm text-(--color-text-muted)">
+        Consumer price index per currency, used to show analysis in real terms. Newest values first.
+      </span>
+
+      {error && <div className="rf-error mt-3">{error}</div>}
+      {message && <p className="rf-hint mt-3">{message}</p>}
+
+      <div className="rf-input-row">
+        <select className="rf-select" value={currencyId} onChange={(e) => setCurrencyId(e.target.value)}>
+          <option value="">All currencies</option>
+          {currencyList.map((c) => (
+            <option key={c.id} value={c.id}>{`${c.cur_symbol} ${c.cur_name}`}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="rf-scroll-list mt-3">
+        {isLoading ? (
+          <p className="rf-hint">Loading inflation index...</p>
+        ) : indexList.length === 0 ? (
+          <p className="rf-hint">No index values yet.</p>
+        ) : (
+          indexList.map((item) => (
+            <div key={item.id} className="rf-list-item">
+              <span className="rf-list-item-name">{item.currency?.cur_name ?? item.currencyId}</span>
+              <span className="rf-list-item-amount">{item.value}</span>
+              <span className="text-xs text-(--color-text-dim)">{item.date}</span>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="rf-section-header-sm mt-4">Import CSV</div>
+      <p className="rf-hint">One "currency,date,value" line per period, using currency names or IDs and YYYY-MM or YYYY-MM-DD dates. Existing values for a period are replaced; nothing is saved if a line is invalid.</p>
+      <textarea
+        className="rf-input w-full min-h-[120px] font-mono"
+        placeholder={'currency,date,value\nUS Dollar,2024-03,312.33'}
+        value={csv}
+        onChange={(e) => setCsv(e.target.value)}
+      />
+      <div className="rf-input-row">
+        <input className="rf-input" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+        <button className="rf-btn-primary" onClick={handleImport} disabled={!csv.trim() || importIndexMutation.isPending}>
+          {importIndexMutation.isPending ? 'Importing...' : 'Import Index'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InflationIndexManager;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from "react";
+import {
+  useDebtPayoffComparisonQuery,
+  useSaveDebtPayoffPlanMutation,
+  PayoffSimulation,
+  PayoffStrategy,
+} from "../../hooks/queries/useDebtPayoff";
+import { useCurrency } from "../../context/CurrencyContext";
+import { formatCurrency } from "../../utils/currency.utils";
+
+const STRATEGY_LABELS: Record<PayoffStrategy, { label: string; description: string }> = {
+  SNOWBALL: { label: "Snowball", description: "Smallest balance first" },
+  AVALANCHE: { label: "Avalanche", description: "Highest interest first" },
+  CUSTOM: { label: "Custom", description: "Your order" },
+};
+
+const formatMonth = (date: string | null) =>
+  date
+    ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", year: "numeric" })
+    : "Never";
+
+/**
+ * Compare snowball, avalanche and custom payoff strategies and pick one
+ * The picked plan is used by the freedom-date projection on the Analysis page
+ */
+const DebtPayoffPlanner: React.FC = () => {
+  const { currency } = useCurrency();
+
+  // Undefined until the saved plan has loaded, so the first request uses the saved values
+  const [extraPayment, setExtraPayment] = useState<string | undefined>(undefined);
+  const [customOrder, setCustomOrder] = useState<number[] | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedExtraPayment = extraPayment !== undefined ? Math.max(0, parseFloat(extraPayment) || 0) : undefined;
+  const { data: comparison, isLoading } = useDebtPayoffComparisonQuery(parsedExtraPayment, customOrder);
+  const savePlanMutation = useSaveDebtPayoffPlanMutation();
+
+  useEffect(() => {
+    if (comparison && extraPayment === undefined) {
+      setExtraPayment(comparison.extraPayment.toString());
+      setCustomOrder(comparison.customOrder);
+    }
+  }, [comparison, extraPayment]);
+
+  if (isLoading || !comparison) {
+    return <p className="rf-hint mt-4">Loading payoff plan...</p>;
+  }
+
+  if (comparison.strategies[0]?.debts.length === 0) {
+    return <p className="rf-hint mt-4">Add a liability to plan its payoff.</p>;
+  }
+
+  const customSimulation = comparison.strategies.find((s) => s.strategy === "CUSTOM");
+  const orderedDebts = customSimulation?.debts ?? [];
+  const lowestInterest = Math.min(...comparison.strategies.map((s) => s.totalInterest));
+
+  const moveDebt = (index: number, offset: number) => {
+    const ids = orderedDebts.map((debt) => debt.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    setCustomOrder(ids);
+  };
+
+  const handleSelect = async (simulation: PayoffSimulation) => {
+    if (savePlanMutation.isPending) return;
+
+    try {
+      setError(null);
+      await savePlanMutation.mutateAsync({
+        strategy: simulation.strategy,
+        extraPayment: comparison.extraPayment,
+        customOrder: customSimulation?.order ?? [],
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save payoff plan");
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="rf-section-header-sm">Payoff Planner</div>
+
+      {error && <div className="rf-error">{error}</div>}
+
+      <div className="rf-input-row">
+        <input
+          className="rf-input"
+          type="number"
+          min="0"
+          step="1"
+          placeholder="Extra monthly payment"
+          value={extraPayment ?? ""}
+          onChange={(e) => setExtraPayment(e.target.value)}
+        />
+      </div>
+
+      <p className="rf-hint">
+        Debt-to-income {comparison.debtToIncomeRatio.toFixed(1)}% · Weighted rate{" "}
+        {comparison.weightedAverageRate.toFixed(2)}% · Minimum payments{" "}
+        {formatCurrency(comparison.totalMinimumPayment, currency)}/mo
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        {comparison.strategies.map((simulation) => {
+          const isSelected = comparison.selectedStrategy === simulation.strategy;
+          return (
+            <div
+              key={simulation.strategy}
+              className={`rounded-lg border p-3 ${isSelected ? "border-[#eaca6a]" : "border-white/10"}`}
+            >
+              <div className="font-semibold">{STRATEGY_LABELS[simulation.strategy].label}</div>
+              <div className="text-xs text-zinc-400 mb-2">{STRATEGY_LABELS[simulation.strategy].description}</div>
+              <div className="text-sm">Debt-free: {formatMonth(simulation.debtFreeDate)}</div>
+              <div className="text-sm">
+                Interest: {formatCurrency(simulation.totalInterest, currency)}
+                {simulation.totalInterest === lowestInterest && simulation.debtFreeDate && (
+                  <span className="ml-1 text-xs text-[#41d288]">lowest</span>
+                )}
+              </div>
+              <ol className="text-xs text-zinc-400 mt-2 list-decimal list-inside">
+                {simulation.debts.map((debt) => (
+                  <li key={debt.id}>
+                    {debt.name}: {formatMonth(debt.payoffDate)}
+                  </li>
+                ))}
+              </ol>
+              <button
+                className={`${isSelected ? "rf-btn-save" : "rf-btn-edit"} mt-3 w-full`}
+                onClick={() => handleSelect(simulation)}
+                disabled={savePlanMutation.isPending || isSelected}
+              >
+                {isSelected ? "Current plan" : "Use this plan"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="rf-section-header-sm">Custom Order</div>
+      <div className="rf-scroll-list">
+        {orderedDebts.map((debt, index) => (
+          <div key={debt.id} className="rf-list-item">
+            <span className="rf-list-item-name">{debt.name}</span>
+            <span className="rf-list-item-amount">{formatCurrency(debt.startingBalance, currency)}</span>
+            <div className="rf-list-item-actions">
+              <button className="rf-btn-edit" onClick={() => moveDebt(index, -1)} disabled={index === 0}>
+                ↑
+              </button>
+              <button
+                className="rf-btn-edit"
+                onClick={() => moveDebt(index, 1)}
+                disabled={index === orderedDebts.length - 1}
+              >
+                ↓
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DebtPayoffPlanner;
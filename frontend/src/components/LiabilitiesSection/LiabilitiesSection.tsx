@@ -4,26 +4,54 @@ import {
   useAddLiabilityMutation,
   useUpdateLiabilityMutation,
   useDeleteLiabilityMutation,
+  useAssetsQuery,
   LiabilityItem,
 } from "../../hooks/queries/useBalanceSheet";
-import { useCurrency } from "../../context/CurrencyContext";
+import { useCurrencyConversion } from "../../hooks/queries/useCurrencies";
 import { formatCurrency } from "../../utils/currency.utils";
 import FinancialTable, { ColumnDefinition } from "../Shared/FinancialTable";
+import CurrencySelect from "../Shared/CurrencySelect";
+import DebtPayoffPlanner from "./DebtPayoffPlanner";
 
 const LiabilitiesSection: React.FC = () => {
-  const { currency } = useCurrency();
-
   // TanStack Query hooks
   const { data: liabilities, isLoading, error: queryError } = useLiabilitiesQuery();
   const addLiabilityMutation = useAddLiabilityMutation();
   const updateLiabilityMutation = useUpdateLiabilityMutation();
   const deleteLiabilityMutation = useDeleteLiabilityMutation();
+  const { data: assets } = useAssetsQuery();
+  const { formatNative, getCurrency } = useCurrencyConversion();
 
   const [editingItem, setEditingItem] = useState<LiabilityItem | null>(null);
   const [liabilityName, setLiabilityName] = useState("");
   const [liabilityAmount, setLiabilityAmount] = useState("");
+  const [currencyId, setCurrencyId] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [interestRate, setInterestRate] = useState("");
+  const [minimumPayment, setMinimumPayment] = useState("");
+  const [termMonths, setTermMonths] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [securedAssetId, setSecuredAssetId] = useState("");
+  const [showPayoffPlanner, setShowPayoffPlanner] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
 
+  // Blank loan fields are sent as null so clearing a field removes the term or the secured asset
+  const getLoanTerms = () => ({
+    interestRate: interestRate.trim() ? parseFloat(interestRate) : null,
+    minimumPayment: minimumPayment.trim() ? parseFloat(minimumPayment) : null,
+    termMonths: termMonths.trim() ? parseInt(termMonths, 10) : null,
+    startDate: startDate || null,
+    assetId: securedAssetId ? Number(securedAssetId) : null,
+  });
+
+  const resetLoanTerms = () => {
+    setInterestRate("");
+    setMinimumPayment("");
+    setTermMonths("");
+    setStartDate("");
+    setSecuredAssetId("");
+  };
+
   // Handle add liability
   const handleAddLiability = async () => {
     if (!liabilityName.trim() || !liabilityAmount.trim() || addLiabilityMutation.isPending) return;
@@ -33,9 +61,15 @@ const LiabilitiesSection: React.FC = () => {
       await addLiabilityMutation.mutateAsync({
         name: liabilityName,
         value: parseFloat(liabilityAmount),
+        currencyId: currencyId ? Number(currencyId) : null,
+        ...getLoanTerms(),
+        effectiveDate: effectiveDate || undefined,
       });
       setLiabilityName("");
       setLiabilityAmount("");
+      setCurrencyId("");
+      resetLoanTerms();
+      setEffectiveDate("");
     } catch (err: unknown) {
       setLocalError("Failed to add liability");
     }
@@ -51,10 +85,16 @@ const LiabilitiesSection: React.FC = () => {
         id: editingItem.id,
         name: liabilityName,
         value: parseFloat(liabilityAmount),
+        currencyId: currencyId ? Number(currencyId) : null,
+        ...getLoanTerms(),
+        effectiveDate: effectiveDate || undefined,
       });
       setEditingItem(null);
       setLiabilityName("");
       setLiabilityAmount("");
+      setCurrencyId("");
+      resetLoanTerms();
+      setEffectiveDate("");
     } catch (err: unknown) {
       setLocalError("Failed to update liability");
     }
@@ -65,6 +105,12 @@ const LiabilitiesSection: React.FC = () => {
     setEditingItem(item);
     setLiabilityName(item.name);
     setLiabilityAmount(item.value.toString());
+    setCurrencyId(item.currencyId !== null ? String(item.currencyId) : "");
+    setInterestRate(item.interestRate !== null ? item.interestRate.toString() : "");
+    setMinimumPayment(item.minimumPayment !== null ? item.minimumPayment.toString() : "");
+    setTermMonths(item.termMonths !== null ? item.termMonths.toString() : "");
+    setStartDate(item.startDate ?? "");
+    setSecuredAssetId(item.assetId !== null ? String(item.assetId) : "");
   };
 
   // Handle cancel edit
@@ -72,6 +118,9 @@ const LiabilitiesSection: React.FC = () => {
     setEditingItem(null);
     setLiabilityName("");
     setLiabilityAmount("");
+    setCurrencyId("");
+    resetLoanTerms();
+    setEffectiveDate("");
   };
 
   // Handle delete liability
@@ -96,12 +145,30 @@ const LiabilitiesSection: React.FC = () => {
     }
   };
 
+  const assetList = assets ?? [];
+  const assetById = new Map(assetList.map((asset) => [asset.id, asset]));
+
   // Column definitions for FinancialTable
   const columns: ColumnDefinition<LiabilityItem>[] = [
     { header: "Name", accessor: "name" },
+    {
+      header: "Secured By",
+      accessor: (item) => (item.assetId !== null ? assetById.get(item.assetId)?.name ?? "—" : "Unsecured"),
+    },
     {
       header: "Value",
-      accessor: (item) => formatCurrency(item.value, currency),
+      accessor: (item) => formatNative(item.value, item.currencyId),
+      align: "right",
+    },
+    {
+      header: "Payoff",
+      accessor: (item) =>
+        item.loanSummary?.payoffDate
+          ? `${new Date(`${item.loanSummary.payoffDate}T00:00:00`).toLocaleDateString(undefined, {
+              month: "short",
+              year: "numeric",
+            })} · ${formatCurrency(item.loanSummary.totalInterest, getCurrency(item.currencyId))} interest left`
+          : "—",
       align: "right",
     },
   ];
@@ -163,6 +230,74 @@ const LiabilitiesSection: React.FC = () => {
           onChange={(e) => setLiabilityAmount(e.target.value)}
           disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
         />
+        <CurrencySelect
+          className="flex-1 min-w-[120px]"
+          value={currencyId}
+          onChange={setCurrencyId}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="date"
+          title="Effective date (optional, defaults to today)"
+          max={new Date().toISOString().split("T")[0]}
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <p className="rf-hint w-full">
+          Loan terms (optional): add a rate and a monthly payment or term to see the payoff date.
+        </p>
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="number"
+          placeholder="Interest rate (%)"
+          step="0.01"
+          min="0"
+          value={interestRate}
+          onChange={(e) => setInterestRate(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="number"
+          placeholder="Monthly payment"
+          step="0.01"
+          min="0"
+          value={minimumPayment}
+          onChange={(e) => setMinimumPayment(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="number"
+          placeholder="Term (months)"
+          step="1"
+          min="1"
+          value={termMonths}
+          onChange={(e) => setTermMonths(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="date"
+          title="Loan start date (optional)"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        />
+        <select
+          className="rf-select flex-1 min-w-[120px]"
+          title="Asset this loan is secured against (optional)"
+          value={securedAssetId}
+          onChange={(e) => setSecuredAssetId(e.target.value)}
+          disabled={addLiabilityMutation.isPending || updateLiabilityMutation.isPending}
+        >
+          <option value="">Unsecured</option>
+          {assetList.map((asset) => (
+            <option key={asset.id} value={asset.id}>{asset.name}</option>
+          ))}
+        </select>
         {editingItem !== null ? (
           <div className="rf-edit-actions w-full">
             <button
@@ -194,6 +329,15 @@ const LiabilitiesSection: React.FC = () => {
           </button>
         )}
       </form>
+
+      <button
+        className="rf-btn-cancel mt-3"
+        onClick={() => setShowPayoffPlanner((show) => !show)}
+      >
+        {showPayoffPlanner ? "Hide Payoff Planner" : "Plan Debt Payoff"}
+      </button>
+
+      {showPayoffPlanner && <DebtPayoffPlanner />}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import ScenarioChangeForm, { DraftChange, fieldClass } from "../ScenarioBuilder/ScenarioChangeForm";
+import {
+  PlannedChangeStatus,
+  usePlannedChangesQuery,
+  useAddPlannedChangeMutation,
+  useDeletePlannedChangeMutation,
+} from "../../hooks/queries/usePlannedChanges";
+
+interface PlannedChangesProps {
+  formatValue: (value: number) => string;
+  /** Point the Time Machine at a date */
+  onViewDate?: (date: string) => void;
+}
+
+const STATUS_CLASSES: Record<PlannedChangeStatus, string> = {
+  PENDING: "text-[#eaca6a]",
+  APPLYING: "text-zinc-400",
+  APPLIED: "text-[#41d288]",
+  FAILED: "text-[#ff7d7e]",
+};
+
+const tomorrowString = () => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Changes scheduled for a future date, e.g. a raise or a loan that ends.
+ * Pending changes show up when the Time Machine looks ahead and are recorded
+ * as real events once their date arrives.
+ */
+const PlannedChanges: React.FC<PlannedChangesProps> = ({ formatValue, onViewDate }) => {
+  const { data: plannedChanges = [] } = usePlannedChangesQuery();
+  const addPlannedChange = useAddPlannedChangeMutation();
+  const deletePlannedChange = useDeletePlannedChangeMutation();
+
+  const [label, setLabel] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(tomorrowString());
+  const [drafts, setDrafts] = useState<DraftChange[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fail = (err: unknown, fallback: string) => setError(err instanceof Error ? err.message : fallback);
+
+  const canSchedule = !!label.trim() && drafts.length > 0 && !addPlannedChange.isPending;
+
+  const handleSchedule = async () => {
+    if (!canSchedule) return;
+    try {
+      setError(null);
+      await addPlannedChange.mutateAsync({
+        label: label.trim(),
+        effectiveDate,
+        changes: drafts.map((item) => item.change),
+      });
+      setLabel("");
+      setDrafts([]);
+    } catch (err: unknown) {
+      fail(err, "Failed to schedule change");
+    }
+  };
+
+  const handleDelete = async (id: number, name: string) => {
+    if (!window.confirm(`Delete the planned change "${name}"?`)) return;
+    try {
+      setError(null);
+      await deletePlannedChange.mutateAsync({ id });
+    } catch (err: unknown) {
+      fail(err, "Failed to delete planned change");
+    }
+  };
+
+  // Purchases among the drafts that loans and income can link to
+  const newAssets = drafts
+    .filter((item) => typeof item.change.ref === "string")
+    .map((item) => ({ ref: item.change.ref as string, name: (item.change.data as { name: string }).name }));
+
+  return (
+    <div className="max-w-7xl mx-auto mb-6 rounded-2xl bg-zinc-900/70 border border-white/5 p-4 md:p-6">
+      <h2 className="text-sm md:text-base font-semibold text-white mb-3">Planned Changes</h2>
+      <p className="text-xs text-zinc-400 mb-4">
+        Schedule changes you already know about. They are included when you pick a future date and are recorded
+        automatically once their date arrives.
+      </p>
+
+      {error && <p className="text-xs text-[#ff7d7e] mb-3">{error}</p>}
+
+      {plannedChanges.length > 0 && (
+        <ul className="mb-4 space-y-2">
+          {plannedChanges.map((item) => (
+            <li
+              key={item.id}
+              className="flex items-center justify-between gap-3 rounded-lg bg-zinc-900/60 border border-white/5 px-3 py-2 text-sm"
+            >
+              <span>
+                <span className="text-zinc-500 mr-2">{item.effectiveDate}</span>
+                {item.label}
+                <span className={`ml-2 text-xs ${STATUS_CLASSES[item.status]}`}>{item.status.toLowerCase()}</span>
+                {item.error && <span className="ml-2 text-xs text-zinc-500">{item.error}</span>}
+              </span>
+              <span className="flex items-center gap-3">
+                {item.status === "PENDING" && onViewDate && (
+                  <button
+                    type="button"
+                    onClick={() => onViewDate(item.effectiveDate)}
+                    className="text-xs text-zinc-400 hover:text-white underline"
+                  >View</button>
+                )}
+                {(item.status === "PENDING" || item.status === "FAILED") && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(item.id, item.label)}
+                    className="text-xs text-zinc-400 hover:text-white underline"
+                  >Delete</button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="rounded-xl bg-zinc-900/50 border border-white/5 p-4">
+        <div className="text-xs text-zinc-400 uppercase mb-3">Schedule changes</div>
+        <ScenarioChangeForm
+          formatValue={formatValue}
+          newAssets={newAssets}
+          onAdd={(draft) => setDrafts((items) => [...items, draft])}
+        />
+        {drafts.length > 0 && (
+          <ul className="mb-4 space-y-2">
+            {drafts.map((item, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-3 rounded-lg bg-zinc-900/60 border border-white/5 px-3 py-2 text-sm"
+              >
+                <span>{item.label}</span>
+                <button
+                  type="button"
+                  onClick={() => setDrafts((items) => items.filter((_, i) => i !== index))}
+                  className="text-xs text-zinc-400 hover:text-white underline"
+                >Remove</button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            className={`${fieldClass} flex-1 min-w-[160px]`}
+            type="text"
+            placeholder="Label, e.g. Raise in January"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <input
+            className={fieldClass}
+            type="date"
+            title="The changes take effect on this day"
+            min={tomorrowString()}
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+          <button
+            type="button"
+            onClick={handleSchedule}
+            disabled={!canSchedule}
+            className={`px-4 py-2 rounded-full text-sm transition-all ${canSchedule
+              ? "bg-[#794cb5] text-white hover:bg-[#794cb5]/80"
+              : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+          >{addPlannedChange.isPending ? "Scheduling…" : "Schedule"}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlannedChanges;
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ResponsiveContainer, ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+} from "recharts";
+import { analysisAPI } from "../../utils/api";
+import { fieldClass } from "../ScenarioBuilder/ScenarioChangeForm";
+
+interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+interface ProjectionYear {
+  year: number;
+  date: string;
+  netWorth: PercentileBand;
+  passiveIncome: PercentileBand;
+  expenses: number;
+  freedomProbability: number;
+}
+
+interface ProjectionResult {
+  years: ProjectionYear[];
+  medianFreedomDate: string | null;
+}
+
+type AssumptionKey = "expectedReturn" | "volatility" | "inflation" | "incomeGrowth" | "incomeYield" | "years";
+
+const ASSUMPTION_FIELDS: { key: AssumptionKey; label: string; title: string }[] = [
+  { key: "expectedReturn", label: "Return %", title: "Expected yearly growth of asset values, excluding the income they pay" },
+  { key: "volatility", label: "Volatility %", title: "Yearly standard deviation of returns" },
+  { key: "inflation", label: "Inflation %", title: "Yearly rise of expenses and existing passive income" },
+  { key: "incomeGrowth", label: "Income growth %", title: "Yearly growth of earned income" },
+  { key: "incomeYield", label: "Income yield %", title: "Yearly income paid by invested savings" },
+  { key: "years", label: "Years", title: "How far to project" },
+];
+
+const DEFAULT_ASSUMPTIONS: Record<AssumptionKey, string> = {
+  expectedReturn: "5",
+  volatility: "15",
+  inflation: "2.5",
+  incomeGrowth: "3",
+  incomeYield: "4",
+  years: "30",
+};
+
+interface ProjectionFanChartProps {
+  /** Currency the projection is shown in; the preferred one when unset */
+  currencyId?: number;
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Monte Carlo projection of net worth and passive income as fan charts: the
+ * band spans the 10th to 90th percentile of simulated paths, the line is the
+ * median. The odds of reaching freedom are shown per year.
+ */
+const ProjectionFanChart: React.FC<ProjectionFanChartProps> = ({ currencyId, formatValue }) => {
+  const [assumptions, setAssumptions] = useState(DEFAULT_ASSUMPTIONS);
+  const [result, setResult] = useState<ProjectionResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runProjection = useCallback(async (values: Record<AssumptionKey, string>) => {
+    try {
+      setError(null);
+      setRunning(true);
+      const parsed = Object.fromEntries(
+        Object.entries(values)
+          .filter(([, value]) => value.trim() !== "")
+          .map(([key, value]) => [key, Number(value)])
+      );
+      setResult(await analysisAPI.getProjection(parsed, currencyId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to run projection");
+    } finally {
+      setRunning(false);
+    }
+  }, [currencyId]);
+
+  // Project with the current assumptions on open and when the currency changes
+  useEffect(() => {
+    runProjection(assumptions);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runProjection]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runProjection(assumptions);
+  };
+
+  const chartData = (result?.years ?? []).map((year) => ({
+    date: year.date,
+    netWorthBand: [year.netWorth.p10, year.netWorth.p90],
+    netWorth: year.netWorth.p50,
+    passiveBand: [year.passiveIncome.p10, year.passiveIncome.p90],
+    passiveIncome: year.passiveIncome.p50,
+    expenses: year.expenses,
+    freedomPct: Math.round(year.freedomProbability * 100),
+  }));
+
+  const formatTooltip = (value: unknown, name: unknown) => {
+    const label = String(name);
+    if (Array.isArray(value)) return [`${formatValue(value[0])} – ${formatValue(value[1])}`, label];
+    if (label === "Chance of freedom") return [`${value}%`, label];
+    return [formatValue(Number(value)), label];
+  };
+
+  const xAxis = (
+    <XAxis
+      dataKey="date"
+      stroke="#71717a"
+      tickFormatter={(val) => String(val).slice(0, 4)}
+      tick={{ fontSize: 10, fill: "#71717a" }}
+    />
+  );
+  const tooltip = (
+    <Tooltip
+      formatter={formatTooltip}
+      labelFormatter={(label) => String(label).slice(0, 4)}
+      contentStyle={{ background: "#18181b", border: "1px solid #3f3f46", fontSize: 12 }}
+    />
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto mb-6 rounded-2xl bg-zinc-900/70 border border-white/5 p-4 md:p-6">
+      <h2 className="text-sm md:text-base font-semibold text-white mb-3">Projection</h2>
+      <p className="text-xs text-zinc-400 mb-4">
+        Many simulated market paths from where you are today. Bands span the 10th to 90th percentile, lines are
+        the median. Surplus cash is assumed to be invested.
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 mb-4">
+        {ASSUMPTION_FIELDS.map((field) => (
+          <label key={field.key} className="flex flex-col gap-1 text-xs text-zinc-400" title={field.title}>
+            {field.label}
+            <input
+              className={`${fieldClass} w-28`}
+              type="number"
+              step={field.key === "years" ? "1" : "0.1"}
+              value={assumptions[field.key]}
+              onChange={(e) => setAssumptions((values) => ({ ...values, [field.key]: e.target.value }))}
+            />
+          </label>
+        ))}
+        <button
+          type="submit"
+          disabled={running}
+          className={`px-4 py-2 rounded-full text-sm transition-all ${!running
+            ? "bg-[#794cb5] text-white hover:bg-[#794cb5]/80"
+            : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+        >{running ? "Simulating…" : "Run Projection"}</button>
+      </form>
+
+      {error && <p className="text-xs text-[#ff7d7e] mb-3">{error}</p>}
+
+      {result && (
+        <>
+          <div className="mb-4 text-sm">
+            Median freedom date:{" "}
+            <span className="text-[#41d288]">{result.medianFreedomDate ?? "not within the projection"}</span>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="rounded-xl bg-zinc-900/50 border border-white/5 p-4">
+              <div className="text-xs text-zinc-400 uppercase mb-3">Net Worth</div>
+              <div style={{ width: "100%", height: 280 }}>
+                <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                  <ComposedChart data={chartData} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                    {xAxis}
+                    <YAxis
+                      stroke="#71717a"
+                      tickFormatter={(val) => `${val / 1000}k`}
+                      tick={{ fontSize: 12, fill: "#71717a" }}
+                    />
+                    {tooltip}
+                    <Legend iconSize={10} wrapperStyle={{ fontSize: "12px" }} />
+                    <Area type="monotone" dataKey="netWorthBand" name="P10 – P90" stroke="none" fill="#eaca6a" fillOpacity={0.2} />
+                    <Line type="monotone" dataKey="netWorth" name="Median" stroke="#eaca6a" strokeWidth={2} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="rounded-xl bg-zinc-900/50 border border-white/5 p-4">
+              <div className="text-xs text-zinc-400 uppercase mb-3">Passive Income vs Expenses</div>
+              <div style={{ width: "100%", height: 280 }}>
+                <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                  <ComposedChart data={chartData} margin={{ top: 5, right: 20, bottom: 5, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                    {xAxis}
+                    <YAxis
+                      yAxisId="left"
+                      stroke="#71717a"
+                      tickFormatter={(val) => `${val / 1000}k`}
+                      tick={{ fontSize: 12, fill: "#71717a" }}
+                    />
+                    <YAxis
+                      yAxisId="right"
+                      orientation="right"
+                      stroke="#71717a"
+                      domain={[0, 100]}
+                      tickFormatter={(val) => `${val}%`}
+                      tick={{ fontSize: 12, fill: "#71717a" }}
+                    />
+                    {tooltip}
+                    <Legend iconSize={10} wrapperStyle={{ fontSize: "12px" }} />
+                    <Area yAxisId="left" type="monotone" dataKey="passiveBand" name="Passive P10 – P90" stroke="none" fill="#41d288" fillOpacity={0.2} />
+                    <Line yAxisId="left" type="monotone" dataKey="passiveIncome" name="Passive Income" stroke="#41d288" strokeWidth={2} dot={false} />
+                    <Line yAxisId="left" type="monotone" dataKey="expenses" name="Expenses" stroke="#ff7d7e" strokeWidth={2} dot={false} />
+                    <Line yAxisId="right" type="stepAfter" dataKey="freedomPct" name="Chance of freedom" stroke="#794cb5" strokeDasharray="4 2" dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProjectionFanChart;
@@ -0,0 +1,378 @@
+import React, { useMemo, useState } from "react";
+import {
+  ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+} from "recharts";
+import ScenarioChangeForm, { DraftChange, fieldClass } from "../ScenarioBuilder/ScenarioChangeForm";
+import {
+  ScenarioBranchEvent,
+  useScenarioBranchesQuery,
+  useScenarioBranchQuery,
+  useBranchTrajectoryQuery,
+  useAddScenarioBranchMutation,
+  useRenameScenarioBranchMutation,
+  useDeleteScenarioBranchMutation,
+  useAddBranchChangesMutation,
+  useDeleteBranchEventMutation,
+} from "../../hooks/queries/useScenarioBranches";
+
+interface ScenarioBranchesProps {
+  /** Currency the trajectories are shown in; the preferred one when unset */
+  currencyId?: number;
+  formatValue: (value: number) => string;
+}
+
+const ACTION_LABELS: Record<ScenarioBranchEvent["actionType"], string> = {
+  CREATE: "Add",
+  UPDATE: "Change",
+  DELETE: "Remove",
+};
+
+const todayString = () => new Date().toISOString().slice(0, 10);
+
+const addMonths = (date: string, months: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  return next.toISOString().slice(0, 10);
+};
+
+const describeEvent = (event: ScenarioBranchEvent) => {
+  const value = event.afterValue ?? event.beforeValue ?? {};
+  const name = typeof value.name === "string" ? value.name : `#${event.entityId}`;
+  return `${ACTION_LABELS[event.actionType]} ${event.entityType.toLowerCase().replace("_", " ")}: ${name}`;
+};
+
+/**
+ * Saved plans that fork reality at a date. Changes recorded on a plan are
+ * replayed on top of the real history up to the fork, and the plan's
+ * trajectory is charted next to what actually happened.
+ */
+const ScenarioBranches: React.FC<ScenarioBranchesProps> = ({ currencyId, formatValue }) => {
+  const { data: branches = [] } = useScenarioBranchesQuery();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const { data: branch } = useScenarioBranchQuery(selectedId);
+
+  const addBranch = useAddScenarioBranchMutation();
+  const renameBranch = useRenameScenarioBranchMutation();
+  const deleteBranch = useDeleteScenarioBranchMutation();
+  const addChanges = useAddBranchChangesMutation();
+  const deleteEvent = useDeleteBranchEventMutation();
+
+  const [newName, setNewName] = useState("");
+  const [newForkDate, setNewForkDate] = useState(todayString());
+  const [rename, setRename] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<DraftChange[]>([]);
+  const [effectiveDate, setEffectiveDate] = useState(todayString());
+  const [error, setError] = useState<string | null>(null);
+
+  // From the fork to a year past the later of today and the plan's last change
+  const range = useMemo(() => {
+    if (!branch) return { startDate: "", endDate: "" };
+    const lastChange = branch.events.reduce(
+      (latest, event) => (event.effectiveDate.slice(0, 10) > latest ? event.effectiveDate.slice(0, 10) : latest),
+      todayString()
+    );
+    return { startDate: branch.forkDate, endDate: addMonths(lastChange, 12) };
+  }, [branch]);
+
+  const { data: trajectory, isFetching: trajectoryLoading } = useBranchTrajectoryQuery(
+    branch ? branch.id : null,
+    { ...range, currencyId }
+  );
+
+  const chartData = useMemo(() => {
+    if (!trajectory) return [];
+    return trajectory.actual.map((point, index) => {
+      const planned = trajectory.branch[index];
+      return {
+        date: point.date,
+        actualNetWorth: point.netWorth,
+        branchNetWorth: planned?.netWorth ?? 0,
+        actualPassive: point.passiveIncome + point.portfolioIncome,
+        branchPassive: planned ? planned.passiveIncome + planned.portfolioIncome : 0,
+      };
+    });
+  }, [trajectory]);
+
+  const fail = (err: unknown, fallback: string) => setError(err instanceof Error ? err.message : fallback);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      setError(null);
+      const result = await addBranch.mutateAsync({ name: newName.trim(), forkDate: newForkDate });
+      setNewName("");
+      setSelectedId(result.branch.id);
+      setDrafts([]);
+    } catch (err: unknown) {
+      fail(err, "Failed to create plan");
+    }
+  };
+
+  const handleSelect = (id: number) => {
+    setSelectedId(id === selectedId ? null : id);
+    setRename(null);
+    setDrafts([]);
+    setError(null);
+  };
+
+  const handleRename = async () => {
+    if (!branch || !rename?.trim()) return;
+    try {
+      setError(null);
+      await renameBranch.mutateAsync({ id: branch.id, name: rename.trim() });
+      setRename(null);
+    } catch (err: unknown) {
+      fail(err, "Failed to rename plan");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!branch || !window.confirm(`Delete the plan "${branch.name}" and all of its changes?`)) return;
+    try {
+      setError(null);
+      await deleteBranch.mutateAsync({ id: branch.id });
+      setSelectedId(null);
+      setDrafts([]);
+    } catch (err: unknown) {
+      fail(err, "Failed to delete plan");
+    }
+  };
+
+  const handleRecord = async () => {
+    if (!branch || drafts.length === 0) return;
+    try {
+      setError(null);
+      await addChanges.mutateAsync({
+        id: branch.id,
+        effectiveDate,
+        changes: drafts.map((item) => item.change),
+      });
+      setDrafts([]);
+    } catch (err: unknown) {
+      fail(err, "Failed to record changes");
+    }
+  };
+
+  const handleDeleteEvent = async (eventId: number) => {
+    if (!branch) return;
+    try {
+      setError(null);
+      await deleteEvent.mutateAsync({ id: branch.id, eventId });
+    } catch (err: unknown) {
+      fail(err, "Failed to delete change");
+    }
+  };
+
+  // Purchases among the drafts that loans and income can link to
+  const newAssets = drafts
+    .filter((item) => typeof item.change.ref === "string")
+    .map((item) => ({ ref: item.change.ref as string, name: (item.change.data as { name: string }).name }));
+
+  const last = chartData[chartData.length - 1];
+
+  return (
+    <div className="max-w-7xl mx-auto mb-6 rounded-2xl bg-zinc-900/70 border border-white/5 p-4 md:p-6">
+      <h2 className="text-sm md:text-base font-semibold text-white mb-3">Plans</h2>
+      <p className="text-xs text-zinc-400 mb-4">
+        Fork your finances at a date and record what you would do differently. Plans are charted against what
+        actually happened and never change your real figures.
+      </p>
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-3 mb-4">
+        <input
+          className={`${fieldClass} flex-1 min-w-[160px]`}
+          type="text"
+          placeholder="Plan name, e.g. Buy the flat"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <input
+          className={fieldClass}
+          type="date"
+          title="Fork date: real events after this day are left out of the plan"
+          max={todayString()}
+          value={newForkDate}
+          onChange={(e) => setNewForkDate(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim() || addBranch.isPending}
+          className={`px-4 py-2 rounded-full text-sm transition-all ${newName.trim()
+            ? "bg-zinc-800 text-white hover:bg-zinc-700 border border-white/10"
+            : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+        >Create Plan</button>
+      </form>
+
+      {branches.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {branches.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => handleSelect(item.id)}
+              aria-pressed={item.id === selectedId}
+              className={`compare-button ${item.id === selectedId ? "active" : "inactive"}`}
+              title={`Forked on ${item.forkDate}`}
+            >{item.name} ({item.eventCount})</button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-[#ff7d7e] mb-3">{error}</p>}
+
+      {branch && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            {rename === null ? (
+              <>
+                <span className="text-sm text-white">{branch.name}</span>
+                <span className="text-xs text-zinc-500">forked on {branch.forkDate}</span>
+                <button
+                  type="button"
+                  onClick={() => setRename(branch.name)}
+                  className="text-xs text-zinc-400 hover:text-white underline"
+                >Rename</button>
+              </>
+            ) : (
+              <>
+                <input
+                  className={fieldClass}
+                  type="text"
+                  value={rename}
+                  onChange={(e) => setRename(e.target.value)}
+                />
+                <button
+                  type="button"
+                  onClick={handleRename}
+                  className="text-xs text-zinc-400 hover:text-white underline"
+                >Save</button>
+                <button
+                  type="button"
+                  onClick={() => setRename(null)}
+                  className="text-xs text-zinc-400 hover:text-white underline"
+                >Cancel</button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="text-xs text-[#ff7d7e] hover:text-white underline ml-auto"
+            >Delete Plan</button>
+          </div>
+
+          {branch.events.length > 0 && (
+            <ul className="space-y-2">
+              {branch.events.map((event) => (
+                <li
+                  key={event.id}
+                  className="flex items-center justify-between gap-3 rounded-lg bg-zinc-900/60 border border-white/5 px-3 py-2 text-sm"
+                >
+                  <span>
+                    <span className="text-zinc-500 mr-2">{event.effectiveDate.slice(0, 10)}</span>
+                    {describeEvent(event)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteEvent(event.id)}
+                    className="text-xs text-zinc-400 hover:text-white underline"
+                  >Remove</button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="rounded-xl bg-zinc-900/50 border border-white/5 p-4">
+            <div className="text-xs text-zinc-400 uppercase mb-3">Record changes</div>
+            <ScenarioChangeForm
+              formatValue={formatValue}
+              newAssets={newAssets}
+              onAdd={(draft) => setDrafts((items) => [...items, draft])}
+            />
+            {drafts.length > 0 && (
+              <ul className="mb-4 space-y-2">
+                {drafts.map((item, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between gap-3 rounded-lg bg-zinc-900/60 border border-white/5 px-3 py-2 text-sm"
+                  >
+                    <span>{item.label}</span>
+                    <button
+                      type="button"
+                      onClick={() => setDrafts((items) => items.filter((_, i) => i !== index))}
+                      className="text-xs text-zinc-400 hover:text-white underline"
+                    >Remove</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                className={fieldClass}
+                type="date"
+                title="The changes take effect at the end of this day"
+                min={branch.forkDate}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+              <button
+                type="button"
+                onClick={handleRecord}
+                disabled={drafts.length === 0 || addChanges.isPending}
+                className={`px-4 py-2 rounded-full text-sm transition-all ${drafts.length > 0 && !addChanges.isPending
+                  ? "bg-[#794cb5] text-white hover:bg-[#794cb5]/80"
+                  : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+              >{addChanges.isPending ? "Recording…" : "Record Changes"}</button>
+            </div>
+          </div>
+
+          {trajectoryLoading && chartData.length === 0 && (
+            <p className="text-xs text-zinc-400">Replaying plan…</p>
+          )}
+
+          {chartData.length > 0 && (
+            <div className="rounded-xl bg-zinc-900/50 border border-white/5 p-4">
+              <div className="text-xs text-zinc-400 uppercase mb-3">Plan vs reality</div>
+              <div style={{ width: "100%", height: 300 }}>
+                <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                  <LineChart data={chartData} margin={{ top: 5, right: 20, bottom: 20, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      stroke="#71717a"
+                      tickFormatter={(val) => new Date(val).toLocaleDateString(undefined, { month: "short", year: "2-digit" })}
+                      tick={{ fontSize: 10, fill: "#71717a" }}
+                    />
+                    <YAxis
+                      stroke="#71717a"
+                      tickFormatter={(val) => `${val / 1000}k`}
+                      tick={{ fontSize: 12, fill: "#71717a" }}
+                      domain={["auto", "auto"]}
+                    />
+                    <Tooltip
+                      formatter={(value) => formatValue(Number(value))}
+                      labelFormatter={(label) => String(label).slice(0, 10)}
+                      contentStyle={{ background: "#18181b", border: "1px solid #3f3f46", fontSize: 12 }}
+                    />
+                    <Legend iconSize={10} wrapperStyle={{ fontSize: "12px" }} />
+                    <Line type="monotone" dataKey="actualNetWorth" name="Net Worth (actual)" stroke="#71717a" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="branchNetWorth" name="Net Worth (plan)" stroke="#eaca6a" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="actualPassive" name="Passive Income (actual)" stroke="#71717a" strokeDasharray="4 2" dot={false} />
+                    <Line type="monotone" dataKey="branchPassive" name="Passive Income (plan)" stroke="#41d288" strokeDasharray="4 2" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              {last && (
+                <div className="mt-3 text-xs text-zinc-400">
+                  By {last.date.slice(0, 10)} the plan ends {formatValue(Math.abs(last.branchNetWorth - last.actualNetWorth))}{" "}
+                  {last.branchNetWorth >= last.actualNetWorth ? "ahead of" : "behind"} reality in net worth.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioBranches;
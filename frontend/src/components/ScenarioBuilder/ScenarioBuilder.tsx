@@ -0,0 +1,188 @@
+import React, { useState } from "react";
+import { analysisAPI } from "../../utils/api";
+import ScenarioChangeForm, { DraftChange } from "./ScenarioChangeForm";
+
+/** The parts of a snapshot the comparison shows */
+interface ScenarioSnapshot {
+  balanceSheet: { totalCash: number; totalAssets: number; totalLiabilities: number; netWorth: number };
+  cashflow: {
+    passiveIncome: number;
+    portfolioIncome: number;
+    totalIncome: number;
+    totalExpenses: number;
+    netCashflow: number;
+  };
+  financialHealth: {
+    liquidRunway?: number;
+    freedomDate: string | null;
+    debtFreeDate?: string | null;
+  };
+}
+
+interface ScenarioResult {
+  before: ScenarioSnapshot;
+  after: ScenarioSnapshot;
+}
+
+interface ScenarioBuilderProps {
+  /** Currency the comparison is shown in; the preferred one when unset */
+  currencyId?: number;
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Build a what-if scenario from hypothetical changes and compare the current
+ * snapshot with the one the changes would produce. Nothing is saved.
+ */
+const ScenarioBuilder: React.FC<ScenarioBuilderProps> = ({ currencyId, formatValue }) => {
+  const [changes, setChanges] = useState<DraftChange[]>([]);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Purchases in this scenario that loans and income can link to
+  const newAssets = changes
+    .filter((item) => typeof item.change.ref === "string")
+    .map((item) => ({ ref: item.change.ref as string, name: (item.change.data as { name: string }).name }));
+
+  const handleAddChange = (draft: DraftChange) => {
+    setChanges((items) => [...items, draft]);
+    setResult(null);
+  };
+
+  const handleRemoveChange = (index: number) => {
+    const removed = changes[index];
+    // Changes linked to a removed purchase would no longer resolve
+    const ref = removed?.change.ref as string | undefined;
+    setChanges((items) => items.filter((item, i) => i !== index && (!ref || item.change.assetRef !== ref)));
+    setResult(null);
+  };
+
+  const handleClear = () => {
+    setChanges([]);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleRun = async () => {
+    if (changes.length === 0 || running) return;
+    try {
+      setError(null);
+      setRunning(true);
+      setResult(await analysisAPI.simulateScenario(changes.map((item) => item.change), currencyId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to simulate scenario");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const rows: { label: string; read: (s: ScenarioSnapshot) => number; lowerIsBetter?: boolean; months?: boolean }[] = [
+    { label: "Net Worth", read: (s) => s.balanceSheet.netWorth },
+    { label: "Total Assets", read: (s) => s.balanceSheet.totalAssets },
+    { label: "Total Liabilities", read: (s) => s.balanceSheet.totalLiabilities, lowerIsBetter: true },
+    { label: "Cash", read: (s) => s.balanceSheet.totalCash },
+    { label: "Monthly Income", read: (s) => s.cashflow.totalIncome },
+    { label: "Passive + Portfolio Income", read: (s) => s.cashflow.passiveIncome + s.cashflow.portfolioIncome },
+    { label: "Monthly Expenses", read: (s) => s.cashflow.totalExpenses, lowerIsBetter: true },
+    { label: "Net Cashflow", read: (s) => s.cashflow.netCashflow },
+    { label: "Liquid Runway", read: (s) => s.financialHealth.liquidRunway ?? 0, months: true },
+  ];
+
+  const formatRow = (value: number, months?: boolean) => (months ? `${value.toFixed(1)} months` : formatValue(value));
+
+  return (
+    <div className="max-w-7xl mx-auto mb-6 rounded-2xl bg-zinc-900/70 border border-white/5 p-4 md:p-6">
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+        <h2 className="text-sm md:text-base font-semibold text-white">What-if Scenario</h2>
+        {changes.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="text-xs px-3 py-1.5 rounded-full border border-white/10 text-zinc-300 hover:text-white hover:bg-zinc-800"
+          >Clear Scenario</button>
+        )}
+      </div>
+      <p className="text-xs text-zinc-400 mb-4">
+        Try out a decision before making it, e.g. a mortgaged rental property, quitting a job or cutting dining by 30%.
+        Amounts are monthly and in your preferred currency; nothing is saved.
+      </p>
+
+      <ScenarioChangeForm formatValue={formatValue} newAssets={newAssets} onAdd={handleAddChange} />
+
+      {changes.length > 0 && (
+        <ul className="mb-4 space-y-2">
+          {changes.map((item, index) => (
+            <li
+              key={index}
+              className="flex items-center justify-between gap-3 rounded-lg bg-zinc-900/60 border border-white/5 px-3 py-2 text-sm"
+            >
+              <span>{item.label}</span>
+              <button
+                type="button"
+                onClick={() => handleRemoveChange(index)}
+                className="text-xs text-zinc-400 hover:text-white underline"
+              >Remove</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-xs text-[#ff7d7e] mb-3">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={changes.length === 0 || running}
+        className={`px-4 py-2 rounded-full text-sm transition-all ${changes.length > 0 && !running
+          ? "bg-[#794cb5] text-white hover:bg-[#794cb5]/80"
+          : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+      >{running ? "Simulating…" : "Run Scenario"}</button>
+
+      {result && (
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          {rows.map(({ label, read, lowerIsBetter, months }) => {
+            const before = read(result.before);
+            const after = read(result.after);
+            const delta = after - before;
+            const improved = lowerIsBetter ? delta <= 0 : delta >= 0;
+            return (
+              <div key={label} className="p-4 rounded-xl bg-zinc-900/70 border border-white/5">
+                <div className="text-xs text-zinc-400 uppercase mb-1">{label}</div>
+                <div className="flex items-center gap-2">
+                  <span>{formatRow(before, months)}</span>
+                  <span className="text-zinc-500">→</span>
+                  <span>{formatRow(after, months)}</span>
+                </div>
+                {delta !== 0 && (
+                  <div className={improved ? "text-[#41d288]" : "text-[#ff7d7e]"}>
+                    {delta > 0 ? "+" : "-"}{formatRow(Math.abs(delta), months)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <div className="p-4 rounded-xl bg-zinc-900/70 border border-white/5">
+            <div className="text-xs text-zinc-400 uppercase mb-1">Freedom Date</div>
+            <div>
+              {result.before.financialHealth.freedomDate ?? "N/A"}
+              <span className="text-zinc-500"> → </span>
+              {result.after.financialHealth.freedomDate ?? "N/A"}
+            </div>
+          </div>
+          {(result.before.financialHealth.debtFreeDate || result.after.financialHealth.debtFreeDate) && (
+            <div className="p-4 rounded-xl bg-zinc-900/70 border border-white/5">
+              <div className="text-xs text-zinc-400 uppercase mb-1">Debt-Free Date</div>
+              <div>
+                {result.before.financialHealth.debtFreeDate ?? "N/A"}
+                <span className="text-zinc-500"> → </span>
+                {result.after.financialHealth.debtFreeDate ?? "N/A"}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioBuilder;
@@ -0,0 +1,310 @@
+import React, { useState } from "react";
+import { useAssetsQuery, useLiabilitiesQuery } from "../../hooks/queries/useBalanceSheet";
+import { useIncomeQuery, IncomeType } from "../../hooks/queries/useIncome";
+import { useExpensesQuery } from "../../hooks/queries/useExpenses";
+import { useExpenseCategoriesQuery } from "../../hooks/queries/useExpenseCategories";
+import { useCashSavingsQuery } from "../../hooks/queries/useCashSavings";
+import { ASSET_CLASS_OPTIONS, AssetClass } from "../../utils/assetClass.utils";
+
+type ChangeKind =
+  | "ADD_ASSET"
+  | "ADD_LIABILITY"
+  | "ADD_INCOME"
+  | "ADD_EXPENSE"
+  | "REMOVE"
+  | "SCALE"
+  | "ADJUST_CASH";
+
+const CHANGE_KIND_OPTIONS: { value: ChangeKind; label: string }[] = [
+  { value: "ADD_ASSET", label: "Buy an asset" },
+  { value: "ADD_LIABILITY", label: "Take on a loan" },
+  { value: "ADD_INCOME", label: "Add income" },
+  { value: "ADD_EXPENSE", label: "Add an expense" },
+  { value: "REMOVE", label: "Remove an item (e.g. quit a job)" },
+  { value: "SCALE", label: "Change an amount by a percentage" },
+  { value: "ADJUST_CASH", label: "Move cash in or out" },
+];
+
+type EntityType = "ASSET" | "LIABILITY" | "INCOME" | "EXPENSE";
+
+/** A change as sent to the server, with a description for the list */
+export interface DraftChange {
+  label: string;
+  change: Record<string, unknown>;
+}
+
+export const fieldClass =
+  "bg-zinc-900/60 border border-white/10 text-white text-sm rounded-lg px-3 py-2 focus:outline-none focus:ring-1 focus:ring-[#794cb5]";
+
+interface ScenarioChangeFormProps {
+  formatValue: (value: number) => string;
+  /** Assets bought earlier in the same scenario, which loans and income can link to */
+  newAssets: { ref: string; name: string }[];
+  onAdd: (draft: DraftChange) => void;
+}
+
+/**
+ * Form for one hypothetical change: buying an asset, taking a loan, adding or
+ * removing income and expenses, scaling an amount or moving cash
+ */
+const ScenarioChangeForm: React.FC<ScenarioChangeFormProps> = ({ formatValue, newAssets, onAdd }) => {
+  const { data: assets = [] } = useAssetsQuery();
+  const { data: liabilities = [] } = useLiabilitiesQuery();
+  const { data: income } = useIncomeQuery();
+  const { data: expenses = [] } = useExpensesQuery();
+  const { data: categories = [] } = useExpenseCategoriesQuery();
+  const { data: cashSavings } = useCashSavingsQuery();
+
+  const [kind, setKind] = useState<ChangeKind>("ADD_ASSET");
+  const [name, setName] = useState("");
+  const [amount, setAmount] = useState("");
+  const [assetClass, setAssetClass] = useState<AssetClass>("REAL_ESTATE");
+  const [incomeType, setIncomeType] = useState<IncomeType>("Passive");
+  const [interestRate, setInterestRate] = useState("");
+  const [assetLink, setAssetLink] = useState("");
+  const [target, setTarget] = useState("");
+  const [refCount, setRefCount] = useState(0);
+
+  const incomeLines = income?.all ?? [];
+  const cashAccounts = cashSavings?.accounts ?? [];
+
+  const entityOptions: { value: string; label: string }[] = [
+    ...incomeLines.map((item) => ({ value: `INCOME:${item.id}`, label: `Income: ${item.name}` })),
+    ...expenses.map((item) => ({ value: `EXPENSE:${item.id}`, label: `Expense: ${item.name}` })),
+    ...assets.map((item) => ({ value: `ASSET:${item.id}`, label: `Asset: ${item.name}` })),
+    ...liabilities.map((item) => ({ value: `LIABILITY:${item.id}`, label: `Liability: ${item.name}` })),
+  ];
+  const scaleOptions = [
+    ...categories.map((category) => ({ value: `CATEGORY:${category.id}`, label: `Category: ${category.path}` })),
+    ...entityOptions,
+  ];
+  const optionLabel = (options: { value: string; label: string }[], value: string) =>
+    options.find((option) => option.value === value)?.label ?? value;
+
+  const parsedAmount = parseFloat(amount);
+  const needsName = kind.startsWith("ADD_");
+  const canAdd =
+    (!needsName || !!name.trim()) &&
+    (kind === "REMOVE" ? !!target : Number.isFinite(parsedAmount)) &&
+    (kind !== "SCALE" || (!!target && parsedAmount >= -100));
+
+  const resetFields = () => {
+    setName("");
+    setAmount("");
+    setInterestRate("");
+    setAssetLink("");
+    setTarget("");
+  };
+
+  // Link a loan or income line to an existing asset or one bought in this scenario
+  const withAssetLink = (change: Record<string, unknown>) => {
+    if (assetLink.startsWith("ref:")) return { ...change, assetRef: assetLink.slice(4) };
+    if (assetLink.startsWith("asset:")) {
+      return { ...change, data: { ...(change.data as object), assetId: Number(assetLink.slice(6)) } };
+    }
+    return change;
+  };
+
+  const handleAddChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    const value = Math.abs(parsedAmount);
+    const [targetType, targetId] = target.split(":");
+    let draft: DraftChange;
+
+    switch (kind) {
+      case "ADD_ASSET": {
+        const ref = `asset-${refCount + 1}`;
+        setRefCount((count) => count + 1);
+        draft = {
+          label: `Buy ${name.trim()} worth ${formatValue(value)}`,
+          change: { type: "ADD", entityType: "ASSET", ref, data: { name: name.trim(), value, assetClass } },
+        };
+        break;
+      }
+      case "ADD_LIABILITY": {
+        const rate = parseFloat(interestRate);
+        draft = {
+          label: `Borrow ${formatValue(value)} (${name.trim()})`,
+          change: withAssetLink({
+            type: "ADD",
+            entityType: "LIABILITY",
+            data: { name: name.trim(), value, ...(Number.isFinite(rate) ? { interestRate: rate } : {}) },
+          }),
+        };
+        break;
+      }
+      case "ADD_INCOME":
+        draft = {
+          label: `Earn ${formatValue(value)}/month from ${name.trim()}`,
+          change: withAssetLink({
+            type: "ADD",
+            entityType: "INCOME",
+            data: { name: name.trim(), amount: value, type: incomeType },
+          }),
+        };
+        break;
+      case "ADD_EXPENSE":
+        draft = {
+          label: `Spend ${formatValue(value)}/month on ${name.trim()}`,
+          change: {
+            type: "ADD",
+            entityType: "EXPENSE",
+            data: { name: name.trim(), amount: value, ...(target ? { categoryId: Number(targetId) } : {}) },
+          },
+        };
+        break;
+      case "REMOVE":
+        draft = {
+          label: `Remove ${optionLabel(entityOptions, target)}`,
+          change: { type: "REMOVE", entityType: targetType as EntityType, entityId: Number(targetId) },
+        };
+        break;
+      case "SCALE":
+        draft = {
+          label: `${parsedAmount >= 0 ? "Raise" : "Cut"} ${optionLabel(scaleOptions, target)} by ${Math.abs(parsedAmount)}%`,
+          change: {
+            type: "SCALE",
+            entityType: targetType === "CATEGORY" ? "EXPENSE" : targetType,
+            ...(targetType === "CATEGORY" ? { categoryId: Number(targetId) } : { entityId: Number(targetId) }),
+            factor: 1 + parsedAmount / 100,
+          },
+        };
+        break;
+      case "ADJUST_CASH":
+        draft = {
+          label: `${parsedAmount >= 0 ? "Add" : "Take out"} ${formatValue(value)} cash`,
+          change: {
+            type: "ADJUST_CASH",
+            amount: parsedAmount,
+            ...(target ? { cashAccountId: Number(targetId) } : {}),
+          },
+        };
+        break;
+    }
+
+    onAdd(draft);
+    resetFields();
+  };
+
+  const renderLinkSelect = () => (
+    <select className={fieldClass} value={assetLink} onChange={(e) => setAssetLink(e.target.value)}>
+      <option value="">No linked asset</option>
+      {newAssets.map((item) => (
+        <option key={item.ref} value={`ref:${item.ref}`}>New: {item.name}</option>
+      ))}
+      {assets.map((item) => (
+        <option key={item.id} value={`asset:${item.id}`}>{item.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <form onSubmit={handleAddChange} className="flex flex-wrap items-center gap-3 mb-4">
+      <select
+        className={fieldClass}
+        value={kind}
+        onChange={(e) => { setKind(e.target.value as ChangeKind); resetFields(); }}
+      >
+        {CHANGE_KIND_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+
+      {needsName && (
+        <input
+          className={`${fieldClass} flex-1 min-w-[140px]`}
+          type="text"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      )}
+
+      {kind === "ADD_ASSET" && (
+        <select className={fieldClass} value={assetClass} onChange={(e) => setAssetClass(e.target.value as AssetClass)}>
+          {ASSET_CLASS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+
+      {kind === "ADD_INCOME" && (
+        <select className={fieldClass} value={incomeType} onChange={(e) => setIncomeType(e.target.value as IncomeType)}>
+          <option value="Earned">Earned</option>
+          <option value="Passive">Passive</option>
+          <option value="Portfolio">Portfolio</option>
+        </select>
+      )}
+
+      {kind === "ADD_EXPENSE" && (
+        <select className={fieldClass} value={target} onChange={(e) => setTarget(e.target.value)}>
+          <option value="">No category</option>
+          {categories.map((category) => (
+            <option key={category.id} value={`CATEGORY:${category.id}`}>{category.path}</option>
+          ))}
+        </select>
+      )}
+
+      {(kind === "REMOVE" || kind === "SCALE") && (
+        <select
+          className={`${fieldClass} flex-1 min-w-[180px]`}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+        >
+          <option value="">Choose an item</option>
+          {(kind === "SCALE" ? scaleOptions : entityOptions).map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )}
+
+      {kind === "ADJUST_CASH" && (
+        <select className={fieldClass} value={target} onChange={(e) => setTarget(e.target.value)}>
+          <option value="">Largest account</option>
+          {cashAccounts.map((account) => (
+            <option key={account.id} value={`CASH:${account.id}`}>{account.name}</option>
+          ))}
+        </select>
+      )}
+
+      {kind !== "REMOVE" && (
+        <input
+          className={`${fieldClass} w-36`}
+          type="number"
+          step="0.01"
+          placeholder={
+            kind === "SCALE" ? "Change %" : kind === "ADJUST_CASH" ? "Amount (+/-)" : kind === "ADD_ASSET" || kind === "ADD_LIABILITY" ? "Value" : "Per month"
+          }
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+      )}
+
+      {kind === "ADD_LIABILITY" && (
+        <input
+          className={`${fieldClass} w-28`}
+          type="number"
+          step="0.01"
+          min="0"
+          placeholder="Rate %"
+          value={interestRate}
+          onChange={(e) => setInterestRate(e.target.value)}
+        />
+      )}
+
+      {(kind === "ADD_LIABILITY" || kind === "ADD_INCOME") && renderLinkSelect()}
+
+      <button
+        type="submit"
+        disabled={!canAdd}
+        className={`px-4 py-2 rounded-full text-sm transition-all ${canAdd
+          ? "bg-zinc-800 text-white hover:bg-zinc-700 border border-white/10"
+          : "bg-zinc-900 text-zinc-600 border border-white/5 cursor-not-allowed"}`}
+      >Add Change</button>
+    </form>
+  );
+};
+
+export default ScenarioChangeForm;
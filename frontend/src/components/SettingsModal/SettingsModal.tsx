@@ -1,7 +1,31 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
 
-type SettingsType = 'username' | 'email' | 'password';
+type SettingsType = 'username' | 'email' | 'password' | 'locale';
+
+// Locales offered for number formatting; an empty value follows each currency's own locale
+const NUMBER_LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'en-PH', label: 'English (Philippines)' },
+  { value: 'de-DE', label: 'German (Germany)' },
+  { value: 'de-CH', label: 'German (Switzerland)' },
+  { value: 'fr-FR', label: 'French (France)' },
+  { value: 'es-ES', label: 'Spanish (Spain)' },
+  { value: 'es-MX', label: 'Spanish (Mexico)' },
+  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { value: 'it-IT', label: 'Italian (Italy)' },
+  { value: 'nl-NL', label: 'Dutch (Netherlands)' },
+  { value: 'sv-SE', label: 'Swedish (Sweden)' },
+  { value: 'ja-JP', label: 'Japanese (Japan)' },
+  { value: 'zh-CN', label: 'Chinese (China)' },
+  { value: 'ko-KR', label: 'Korean (South Korea)' },
+];
+
+// Sample amount showing a locale's grouping and decimal separators
+const formatSample = (locale: string) =>
+  (1234567.89).toLocaleString(locale || undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -10,7 +34,7 @@ interface SettingsModalProps {
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialType = 'username' }) => {
-  const { user, updateUsername, updateEmail, changePassword } = useAuth();
+  const { user, updateUsername, updateEmail, updateNumberLocale, changePassword } = useAuth();
   const [settingsType, setSettingsType] = useState<SettingsType>(initialType);
   
   // Form states
@@ -18,6 +42,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
   const [newValue, setNewValue] = useState('');
   const [confirmNew, setConfirmNew] = useState('');
   const [currentPassword, setCurrentPassword] = useState('');
+  const [locale, setLocale] = useState('');
   
   // UI states
   const [error, setError] = useState<string | null>(null);
@@ -37,6 +62,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
     setNewValue('');
     setConfirmNew('');
     setCurrentPassword('');
+    setLocale(user?.numberLocale ?? '');
     setError(null);
     setSuccess(null);
   };
@@ -104,6 +130,10 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
         }
         await changePassword(currentPassword, newValue);
         setSuccess('Password updated successfully');
+      } else if (settingsType === 'locale') {
+        await updateNumberLocale(locale || null);
+        setSuccess('Number format updated successfully');
+        return;
       }
 
       resetForm();
@@ -127,6 +157,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
       case 'username': return 'Change Username';
       case 'email': return 'Change Email';
       case 'password': return 'Change Password';
+      case 'locale': return 'Number Format';
     }
   };
 
@@ -135,6 +166,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
       case 'username': return user?.name || '—';
       case 'email': return user?.email || '—';
       case 'password': return null;
+      case 'locale': return user?.numberLocale ? formatSample(user.numberLocale) : 'Currency default';
     }
   };
 
@@ -143,6 +175,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
       case 'username': return 'text';
       case 'email': return 'email';
       case 'password': return 'password';
+      case 'locale': return 'text';
     }
   };
 
@@ -178,6 +211,13 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
           >
             Password
           </button>
+          <button
+            type="button"
+            className={`rf-settings-tab ${settingsType === 'locale' ? 'active' : ''}`}
+            onClick={() => handleTypeChange('locale')}
+          >
+            Numbers
+          </button>
         </div>
 
         {/* Current Value Display */}
@@ -192,7 +232,19 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
           {error && <div className="rf-settings-error">{error}</div>}
           {success && <div className="rf-settings-success">{success}</div>}
 
-          {settingsType === 'password' ? (
+          {settingsType === 'locale' ? (
+            <label>
+              Number locale
+              <select value={locale} onChange={(e) => setLocale(e.target.value)}>
+                <option value="">Currency default</option>
+                {NUMBER_LOCALES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {`${option.label} · ${formatSample(option.value)}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : settingsType === 'password' ? (
             <>
               <label>
                 Current password
@@ -265,7 +317,11 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, initialT
           )}
 
           <button type="submit" disabled={isSaving}>
-            {isSaving ? 'Saving...' : `Update ${settingsType.charAt(0).toUpperCase() + settingsType.slice(1)}`}
+            {isSaving
+              ? 'Saving...'
+              : settingsType === 'locale'
+                ? 'Update Number Format'
+                : `Update ${settingsType.charAt(0).toUpperCase() + settingsType.slice(1)}`}
           </button>
         </form>
       </div>
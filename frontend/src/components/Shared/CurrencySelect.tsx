@@ -0,0 +1,45 @@
+import React from 'react';
+import { useCurrencyConversion } from '../../hooks/queries/useCurrencies';
+
+/**
+ * Props for the CurrencySelect component
+ */
+export interface CurrencySelectProps {
+  /** Selected currency ID as a string; empty for the preferred currency */
+  value: string;
+  onChange: (value: string) => void;
+  /** Extra classes appended to rf-select */
+  className?: string;
+  disabled?: boolean;
+  title?: string;
+}
+
+/**
+ * Select for the native currency of an income line, expense, asset or liability.
+ * The empty option keeps the entity in the user's preferred currency.
+ *
+ * @example
+ * ```tsx
+ * <CurrencySelect value={currencyId} onChange={setCurrencyId} />
+ * ```
+ */
+const CurrencySelect: React.FC<CurrencySelectProps> = ({ value, onChange, className, disabled, title }) => {
+  const { currencies, preferredCurrency } = useCurrencyConversion();
+
+  return (
+    <select
+      className={className ? `rf-select ${className}` : 'rf-select'}
+      title={title ?? 'Currency this amount is held in (optional, defaults to your preferred currency)'}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+    >
+      <option value="">{preferredCurrency ? `${preferredCurrency.cur_symbol} (preferred)` : 'Preferred currency'}</option>
+      {currencies.map((c) => (
+        <option key={c.id} value={c.id}>{`${c.cur_symbol} ${c.cur_name}`}</option>
+      ))}
+    </select>
+  );
+};
+
+export default CurrencySelect;
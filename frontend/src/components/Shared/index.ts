@@ -8,3 +8,6 @@ export type {
 
 export { default as FinancialProgressBar } from './FinancialProgressBar';
 export type { FinancialProgressBarProps } from './FinancialProgressBar';
+
+export { default as CurrencySelect } from './CurrencySelect';
+export type { CurrencySelectProps } from './CurrencySelect';
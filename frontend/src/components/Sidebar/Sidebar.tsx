@@ -4,7 +4,7 @@ import { useAuth } from '../../context/AuthContext';
 import CurrencySelector from '../CurrencySelector/CurrencySelector';
 import SettingsModal from '../SettingsModal/SettingsModal';
 
-type SettingsType = 'username' | 'email' | 'password';
+type SettingsType = 'username' | 'email' | 'password' | 'locale';
 
 type Props = {
   onOpenAssistant?: () => void;
@@ -138,6 +138,13 @@ const Sidebar: React.FC<Props> = ({ onOpenAssistant, onOpenActivity, mobileOpen
           </button>
         )}
 
+        <button 
+          className="rf-sidebar-btn" 
+          onClick={() => { navigate('/budgets'); closeSidebar(); }}
+        >
+          <span className="rf-sidebar-text"> Budgets </span>
+        </button>
+
         <button 
           className="rf-sidebar-btn" 
           onClick={() => { navigate('/event-log'); closeSidebar(); }}
@@ -180,6 +187,13 @@ const Sidebar: React.FC<Props> = ({ onOpenAssistant, onOpenActivity, mobileOpen
           <span className="rf-sidebar-text"> Change Password </span>
         </button>
 
+        <button 
+          className="rf-sidebar-btn" 
+          onClick={() => openSettingsModal('locale')}
+        > 
+          <span className="rf-sidebar-text"> Number Format </span>
+        </button>
+
         <button 
           className="rf-sidebar-btn" 
           onClick={() => { handleLogout(); closeSidebar(); }}
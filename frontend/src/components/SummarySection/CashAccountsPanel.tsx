@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import {
+  useCashSavingsQuery,
+  useAddCashAccountMutation,
+  useUpdateCashAccountMutation,
+  useDeleteCashAccountMutation,
+  CashAccount,
+  CashAccountType,
+  CASH_ACCOUNT_TYPE_LABELS,
+} from '../../hooks/queries/useCashSavings';
+import { useCurrency } from '../../context/CurrencyContext';
+import { formatCurrency } from '../../utils/currency.utils';
+import FinancialTable, { ColumnDefinition } from '../Shared/FinancialTable';
+
+const ACCOUNT_TYPE_OPTIONS = Object.entries(CASH_ACCOUNT_TYPE_LABELS) as [CashAccountType, string][];
+
+/**
+ * Lists the user's cash accounts and lets them add, edit or remove one.
+ * The summary only ever shows the total these roll up to.
+ */
+const CashAccountsPanel: React.FC = () => {
+  const { currency } = useCurrency();
+  const { data, isLoading } = useCashSavingsQuery();
+  const addAccountMutation = useAddCashAccountMutation();
+  const updateAccountMutation = useUpdateCashAccountMutation();
+  const deleteAccountMutation = useDeleteCashAccountMutation();
+
+  const [editingItem, setEditingItem] = useState<CashAccount | null>(null);
+  const [accountName, setAccountName] = useState('');
+  const [accountAmount, setAccountAmount] = useState('');
+  const [accountType, setAccountType] = useState<CashAccountType>('SAVINGS');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const saving = addAccountMutation.isPending || updateAccountMutation.isPending;
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setAccountName('');
+    setAccountAmount('');
+    setAccountType('SAVINGS');
+    setEffectiveDate('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(accountAmount);
+
+    if (!accountName.trim() || saving) return;
+    if (isNaN(amount) || amount < 0) {
+      setLocalError('Please enter a valid positive number');
+      return;
+    }
+
+    const input = {
+      name: accountName.trim(),
+      amount,
+      accountType,
+      effectiveDate: effectiveDate || undefined,
+    };
+
+    try {
+      setLocalError(null);
+      if (editingItem !== null) {
+        await updateAccountMutation.mutateAsync({ id: editingItem.id, ...input });
+      } else {
+        await addAccountMutation.mutateAsync(input);
+      }
+      resetForm();
+    } catch (err: unknown) {
+      setLocalError(editingItem !== null ? 'Failed to update cash account' : 'Failed to add cash account');
+    }
+  };
+
+  const handleEdit = (item: CashAccount) => {
+    setEditingItem(item);
+    setAccountName(item.name);
+    setAccountAmount(item.amount.toString());
+    setAccountType(item.accountType);
+    setEffectiveDate('');
+  };
+
+  const handleDelete = async (item: CashAccount) => {
+    if (deleteAccountMutation.isPending) return;
+
+    try {
+      setLocalError(null);
+      await deleteAccountMutation.mutateAsync({ id: item.id });
+    } catch (err: unknown) {
+      setLocalError('Failed to delete cash account');
+    }
+  };
+
+  const columns: ColumnDefinition<CashAccount>[] = [
+    { header: 'Account', accessor: 'name' },
+    { header: 'Type', accessor: (item) => CASH_ACCOUNT_TYPE_LABELS[item.accountType] },
+    { header: 'Balance', accessor: (item) => formatCurrency(item.amount, currency), align: 'right' },
+  ];
+
+  const deletingId = deleteAccountMutation.isPending ? deleteAccountMutation.variables?.id : null;
+
+  if (isLoading) {
+    return <p className="text-center text-[#d4af37] p-3">Loading cash accounts...</p>;
+  }
+
+  return (
+    <div className="text-white">
+      {localError && <p className="rf-error">{localError}</p>}
+
+      <FinancialTable
+        title=""
+        data={data?.accounts ?? []}
+        columns={columns}
+        footer={{ label: 'Total Cash', value: formatCurrency(data?.amount ?? 0, currency) }}
+        emptyMessage="No cash accounts yet."
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        editingId={editingItem?.id ?? null}
+        deletingId={deletingId ?? null}
+        noCard={true}
+      />
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-3">
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="text"
+          placeholder="Account name"
+          value={accountName}
+          onChange={(e) => setAccountName(e.target.value)}
+          disabled={saving}
+        />
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="number"
+          placeholder="Balance"
+          min="0"
+          step="0.01"
+          value={accountAmount}
+          onChange={(e) => setAccountAmount(e.target.value)}
+          disabled={saving}
+        />
+        <select
+          className="rf-select flex-1 min-w-[120px]"
+          value={accountType}
+          onChange={(e) => setAccountType(e.target.value as CashAccountType)}
+          disabled={saving}
+        >
+          {ACCOUNT_TYPE_OPTIONS.map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          className="rf-input flex-1 min-w-[120px]"
+          type="date"
+          title="Effective date (optional, defaults to today)"
+          max={new Date().toISOString().split('T')[0]}
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          disabled={saving}
+        />
+        {editingItem !== null ? (
+          <div className="rf-edit-actions w-full">
+            <button
+              type="submit"
+              className="rf-btn-save"
+              disabled={saving || !accountName.trim() || !accountAmount.trim()}
+            >
+              {updateAccountMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              className="rf-btn-cancel"
+              onClick={resetForm}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            className="rf-btn-primary w-full"
+            type="submit"
+            disabled={saving || !accountName.trim() || !accountAmount.trim()}
+          >
+            {addAccountMutation.isPending ? 'Adding...' : 'Add Account'}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default CashAccountsPanel;
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { useFinancialSummary } from '../../hooks/queries/useFinancialSummary';
-import { useCashSavingsQuery, useUpdateCashSavingsMutation } from '../../hooks/queries/useCashSavings';
+import { useCashSavingsQuery } from '../../hooks/queries/useCashSavings';
 import { useCurrency } from '../../context/CurrencyContext';
 import { formatCurrency } from '../../utils/currency.utils';
+import CashAccountsPanel from './CashAccountsPanel';
 
 type Props = {
   balanceSheetVisible?: boolean;
@@ -44,59 +45,14 @@ const SummarySection: React.FC<Props> = ({
     error,
   } = useFinancialSummary();
 
-  // Cash savings query and mutation for editing
-  const { isLoading: cashSavingsLoading } = useCashSavingsQuery();
-  const updateCashSavingsMutation = useUpdateCashSavingsMutation();
-
-  const [isEditing, setIsEditing] = useState(false);
-  const [editValue, setEditValue] = useState<string>('0');
-  const [localError, setLocalError] = useState<string | null>(null);
-
-  const handleEditClick = () => {
-    setIsEditing(true);
-    setEditValue(cashSavings.toString());
-  };
-
-  const handleCancelEdit = () => {
-    setIsEditing(false);
-    setEditValue(cashSavings.toString());
-    setLocalError(null);
-  };
-
-  const handleSaveClick = async () => {
-    const numValue = parseFloat(editValue);
-    
-    if (isNaN(numValue) || numValue < 0) {
-      setLocalError('Please enter a valid positive number');
-      return;
-    }
-
-    try {
-      setLocalError(null);
-      await updateCashSavingsMutation.mutateAsync({ amount: numValue });
-      setIsEditing(false);
-    } catch (err: unknown) {
-      setLocalError('Failed to update cash savings');
-    }
-  };
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setEditValue(e.target.value);
-    setLocalError(null);
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleSaveClick();
-    } else if (e.key === 'Escape') {
-      handleCancelEdit();
-    }
-  };
+  // Cash accounts roll up to the total shown in the savings bar
+  const { data: cashSavingsData, isLoading: cashSavingsLoading } = useCashSavingsQuery();
+  const [showAccounts, setShowAccounts] = useState(false);
+  const accountCount = cashSavingsData?.accounts.length ?? 0;
   
   // Computed display values
   const shouldShowNetWorth = balanceSheetVisible && (totalAssets > 0 || totalLiabilities > 0);
-  const displayError = localError || (isError && error instanceof Error ? error.message : null);
-  const saving = updateCashSavingsMutation.isPending;
+  const displayError = isError && error instanceof Error ? error.message : null;
 
   return (
     <section className="flex flex-col h-full min-h-0 overflow-hidden">
@@ -277,60 +233,36 @@ const SummarySection: React.FC<Props> = ({
         )}
       </div>
 
-      {/* Bottom savings row - User-editable, not auto-calculated */}
+      {/* Cash accounts - User-editable, not auto-calculated */}
+      {showAccounts && (
+        <div className="shrink-0 max-h-[45%] overflow-y-auto px-4 pb-3">
+          <CashAccountsPanel />
+        </div>
+      )}
+
+      {/* Bottom savings row - Total across every cash account */}
       <div className="rf-savings-bar shrink-0 mt-auto">
-        <span className="rf-savings-label">Cash / Savings</span>
+        <span className="rf-savings-label">
+          Cash / Savings
+          {accountCount > 1 && (
+            <span className="ml-1.5 text-[0.8rem] font-normal opacity-70">
+              ({accountCount} accounts)
+            </span>
+          )}
+        </span>
         <div className="flex items-center gap-2">
-          {!isEditing ? (
-            <>
-              <span className="rf-savings-amount">
-                {cashSavingsLoading ? <Skeleton width="80px" /> : formatCurrency(cashSavings, currency)}
-              </span>
-              {!cashSavingsLoading && (
-                <button 
-                  className="bg-white/5 border border-white/10 text-[#c69df7] py-1.5 px-2 rounded cursor-pointer text-[0.9rem] transition-all duration-200 hover:bg-white/10 hover:scale-105" 
-                  onClick={handleEditClick}
-                  aria-label="Edit cash savings"
-                >
-                  Edit
-                </button>
-              )}
-            </>
-          ) : (
-            <div className="flex items-center gap-1.5">
-              <input
-                type="number"
-                className="bg-white/8 border border-white/15 text-white py-1.5 px-2.5 rounded text-[0.95rem] font-bold w-[120px] outline-none transition-all duration-200 focus:bg-white/12 focus:border-(--color-purple) focus:shadow-[0_0_0_2px_rgba(115,69,175,0.2)] disabled:opacity-60 disabled:cursor-not-allowed"
-                value={editValue}
-                onChange={handleInputChange}
-                onKeyDown={handleKeyDown}
-                placeholder="0"
-                min="0"
-                step="0.01"
-                autoFocus
-                disabled={saving}
-              />
-              <button 
-                className="py-1.5 px-3 rounded cursor-pointer text-base font-bold transition-all duration-200 border text-white disabled:opacity-60 disabled:cursor-not-allowed hover:scale-105"
-                style={{
-                  background: 'linear-gradient(135deg, var(--color-purple) 0%, var(--color-purple-light) 100%)',
-                  borderColor: 'rgba(115,69,175,0.6)',
-                  boxShadow: '0 2px 8px rgba(115,69,175,0.2)'
-                }}
-                onClick={handleSaveClick}
-                disabled={saving}
-              >
-                {saving ? '...' : '✓'}
-              </button>
-              <button 
-                className="bg-white/5 border border-white/15 py-1.5 px-3 rounded cursor-pointer text-base font-bold transition-all duration-200 hover:bg-white/10 hover:scale-105 disabled:opacity-60 disabled:cursor-not-allowed"
-                style={{ color: 'var(--color-gold)' }}
-                onClick={handleCancelEdit}
-                disabled={saving}
-              >
-                ✕
-              </button>
-            </div>
+          <span className="rf-savings-amount">
+            {cashSavingsLoading ? <Skeleton width="80px" /> : formatCurrency(cashSavings, currency)}
+          </span>
+          {!cashSavingsLoading && (
+            <button 
+              className="bg-white/5 border border-white/10 text-[#c69df7] py-1.5 px-2 rounded cursor-pointer text-[0.9rem] transition-all duration-200 hover:bg-white/10 hover:scale-105" 
+              onClick={() => setShowAccounts((open) => !open)}
+              aria-expanded={showAccounts}
+              aria-label={showAccounts ? 'Hide cash accounts' : 'Manage cash accounts'}
+            >
+              {showAccounts ? 'Done' : 'Accounts'}
+            </button>
           )}
         </div>
       </div>
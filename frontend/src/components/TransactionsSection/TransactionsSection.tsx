@@ -0,0 +1,346 @@
+import React, { useState } from "react";
+import {
+  useTransactionsQuery,
+  usePlanVsActualQuery,
+  useAddTransactionMutation,
+  useUpdateTransactionMutation,
+  useDeleteTransactionMutation,
+  TransactionDirection,
+  TransactionItem,
+  PlanVarianceSection,
+} from "../../hooks/queries/useTransactions";
+import { useCashSavingsQuery } from "../../hooks/queries/useCashSavings";
+import { useExpenseCategoriesQuery } from "../../hooks/queries/useExpenseCategories";
+import { useExpensesQuery } from "../../hooks/queries/useExpenses";
+import { useIncomeQuery } from "../../hooks/queries/useIncome";
+import { useCurrency } from "../../context/CurrencyContext";
+import { formatCurrency } from "../../utils/currency.utils";
+import FinancialTable, { ColumnDefinition } from "../Shared/FinancialTable";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Dated ledger of what actually happened, compared month by month against
+ * the planned income lines and expenses.
+ */
+const TransactionsSection: React.FC = () => {
+  const { currency } = useCurrency();
+  const [month, setMonth] = useState(() => today().slice(0, 7));
+
+  // TanStack Query hooks
+  const { data: transactions, isLoading, error: queryError } = useTransactionsQuery(month);
+  const { data: report } = usePlanVsActualQuery(month);
+  const { data: cashSavings } = useCashSavingsQuery();
+  const { data: categories } = useExpenseCategoriesQuery();
+  const { data: expenses } = useExpensesQuery();
+  const { data: income } = useIncomeQuery();
+  const addTransactionMutation = useAddTransactionMutation();
+  const updateTransactionMutation = useUpdateTransactionMutation();
+  const deleteTransactionMutation = useDeleteTransactionMutation();
+
+  const [editingItem, setEditingItem] = useState<TransactionItem | null>(null);
+  const [date, setDate] = useState(today);
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [direction, setDirection] = useState<TransactionDirection>("OUTFLOW");
+  const [cashAccountId, setCashAccountId] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [linkId, setLinkId] = useState("");
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const accounts = cashSavings?.accounts ?? [];
+  const incomeLines = income?.all ?? [];
+  const expenseLines = expenses ?? [];
+  const saving = addTransactionMutation.isPending || updateTransactionMutation.isPending;
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setDate(today());
+    setDescription("");
+    setAmount("");
+    setDirection("OUTFLOW");
+    setCashAccountId("");
+    setCategoryId("");
+    setLinkId("");
+  };
+
+  // Inflows link to income lines and outflows to expenses, so a new direction clears the link
+  const handleDirectionChange = (value: TransactionDirection) => {
+    setDirection(value);
+    setLinkId("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim() || !amount.trim() || saving) return;
+
+    const input = {
+      date,
+      amount: parseFloat(amount),
+      direction,
+      description: description.trim(),
+      cashAccountId: cashAccountId ? Number(cashAccountId) : null,
+      categoryId: categoryId ? Number(categoryId) : null,
+      incomeLineId: direction === "INFLOW" && linkId ? Number(linkId) : null,
+      expenseId: direction === "OUTFLOW" && linkId ? Number(linkId) : null,
+    };
+
+    try {
+      setLocalError(null);
+      if (editingItem !== null) {
+        await updateTransactionMutation.mutateAsync({ id: editingItem.id, ...input });
+      } else {
+        await addTransactionMutation.mutateAsync(input);
+      }
+      resetForm();
+    } catch (err: unknown) {
+      // Overdrawn accounts and mismatched links are rejected with a reason
+      setLocalError(err instanceof Error ? err.message : "Failed to save transaction");
+    }
+  };
+
+  const handleEdit = (item: TransactionItem) => {
+    setEditingItem(item);
+    setDate(item.date);
+    setDescription(item.description);
+    setAmount(item.amount.toString());
+    setDirection(item.direction);
+    setCashAccountId(item.cashAccountId !== null ? String(item.cashAccountId) : "");
+    setCategoryId(item.categoryId !== null ? String(item.categoryId) : "");
+    const link = item.direction === "INFLOW" ? item.incomeLineId : item.expenseId;
+    setLinkId(link !== null ? String(link) : "");
+  };
+
+  const handleDelete = async (item: TransactionItem) => {
+    if (deleteTransactionMutation.isPending) return;
+
+    try {
+      setLocalError(null);
+      await deleteTransactionMutation.mutateAsync({ id: item.id });
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : "Failed to delete transaction");
+    }
+  };
+
+  const describeLink = (item: TransactionItem) => {
+    if (item.incomeLineId !== null) {
+      return incomeLines.find((line) => line.id === item.incomeLineId)?.name ?? "—";
+    }
+    if (item.expenseId !== null) {
+      return expenseLines.find((expense) => expense.id === item.expenseId)?.name ?? "—";
+    }
+    return categories?.find((category) => category.id === item.categoryId)?.path ?? "Unplanned";
+  };
+
+  // Column definitions for FinancialTable
+  const columns: ColumnDefinition<TransactionItem>[] = [
+    { header: "Date", accessor: "date" },
+    { header: "Description", accessor: "description" },
+    {
+      header: "Account",
+      accessor: (item) => accounts.find((account) => account.id === item.cashAccountId)?.name ?? "—",
+    },
+    { header: "Planned As", accessor: describeLink },
+    {
+      header: "Amount",
+      accessor: (item) => (
+        <span style={{ color: item.direction === "INFLOW" ? "#41d288" : "#ff7d7e" }}>
+          {item.direction === "INFLOW" ? "+" : "−"}
+          {formatCurrency(item.amount, currency)}
+        </span>
+      ),
+      align: "right",
+    },
+  ];
+
+  const renderSection = (title: string, section: PlanVarianceSection) => (
+    <div className="flex-1 min-w-[220px]">
+      <div className="rf-hint mb-1">{title}</div>
+      {section.lines.map((line) => (
+        <div key={line.id} className="flex justify-between gap-2 text-sm py-0.5">
+          <span className="truncate">{line.name}</span>
+          <span className="whitespace-nowrap">
+            {formatCurrency(line.actual, currency)} / {formatCurrency(line.planned, currency)}
+          </span>
+        </div>
+      ))}
+      {section.unplanned > 0 && (
+        <div className="flex justify-between gap-2 text-sm py-0.5 text-[#d4af37]">
+          <span>Unplanned</span>
+          <span>{formatCurrency(section.unplanned, currency)}</span>
+        </div>
+      )}
+    </div>
+  );
+
+  const deletingId = deleteTransactionMutation.isPending ? deleteTransactionMutation.variables?.id : null;
+
+  // Display error from hook or local error
+  const displayError =
+    localError || (queryError instanceof Error ? queryError.message : queryError ? String(queryError) : null);
+
+  const linkOptions = direction === "INFLOW"
+    ? incomeLines.map((line) => ({ id: line.id, name: line.name }))
+    : expenseLines.map((expense) => ({ id: expense.id, name: expense.name }));
+
+  return (
+    <div className="rf-card text-white">
+      <div className="rf-section-header flex items-center justify-between gap-3">
+        <span>Transactions</span>
+        <input
+          className="rf-input max-w-[170px]"
+          type="month"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          aria-label="Month"
+        />
+      </div>
+
+      {displayError && <p className="rf-error">{displayError}</p>}
+
+      {/* Planned vs actual for the selected month */}
+      {report && (
+        <div className="mb-4">
+          <div className="flex flex-wrap gap-6 mb-3">
+            <div>
+              <div className="rf-hint">Planned Cashflow</div>
+              <div className="font-bold">{formatCurrency(report.plannedCashflow, currency)}</div>
+            </div>
+            <div>
+              <div className="rf-hint">Actual Cashflow</div>
+              <div className="font-bold">{formatCurrency(report.actualCashflow, currency)}</div>
+            </div>
+            <div>
+              <div className="rf-hint">Variance</div>
+              <div className="font-bold" style={{ color: report.variance >= 0 ? "#41d288" : "#ff7d7e" }}>
+                {formatCurrency(report.variance, currency)}
+              </div>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-6">
+            {renderSection("Income (actual / planned)", report.income)}
+            {renderSection("Expenses (actual / planned)", report.expenses)}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-[#d4af37] p-5">Loading transactions...</p>
+      ) : (
+        <FinancialTable
+          title=""
+          data={transactions ?? []}
+          columns={columns}
+          emptyMessage="No transactions this month."
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          editingId={editingItem?.id ?? null}
+          deletingId={deletingId ?? null}
+          noCard={true}
+        />
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-3">
+        <input
+          className="rf-input flex-1 min-w-[130px]"
+          type="date"
+          max={today()}
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          disabled={saving}
+        />
+        <input
+          className="rf-input flex-[2] min-w-[160px]"
+          type="text"
+          placeholder="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          disabled={saving}
+        />
+        <input
+          className="rf-input flex-1 min-w-[110px]"
+          type="number"
+          placeholder="Amount"
+          min="0"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          disabled={saving}
+        />
+        <select
+          className="rf-select flex-1 min-w-[110px]"
+          value={direction}
+          onChange={(e) => handleDirectionChange(e.target.value as TransactionDirection)}
+          disabled={saving}
+        >
+          <option value="OUTFLOW">Money out</option>
+          <option value="INFLOW">Money in</option>
+        </select>
+        <select
+          className="rf-select flex-1 min-w-[130px]"
+          title="Cash account the money moved through"
+          value={cashAccountId}
+          onChange={(e) => setCashAccountId(e.target.value)}
+          disabled={saving}
+        >
+          <option value="">No cash account</option>
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>{account.name}</option>
+          ))}
+        </select>
+        <select
+          className="rf-select flex-1 min-w-[130px]"
+          value={categoryId}
+          onChange={(e) => setCategoryId(e.target.value)}
+          disabled={saving}
+        >
+          <option value="">No category</option>
+          {(categories ?? []).map((category) => (
+            <option key={category.id} value={category.id}>{category.path}</option>
+          ))}
+        </select>
+        <select
+          className="rf-select flex-1 min-w-[130px]"
+          title={direction === "INFLOW" ? "Income line this realizes" : "Expense this realizes"}
+          value={linkId}
+          onChange={(e) => setLinkId(e.target.value)}
+          disabled={saving}
+        >
+          <option value="">{direction === "INFLOW" ? "No income line" : "No expense"}</option>
+          {linkOptions.map((option) => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        {editingItem !== null ? (
+          <div className="rf-edit-actions w-full">
+            <button
+              type="submit"
+              className="rf-btn-save"
+              disabled={saving || !description.trim() || !amount.trim()}
+            >
+              {updateTransactionMutation.isPending ? "Saving..." : "Save"}
+            </button>
+            <button
+              type="button"
+              className="rf-btn-cancel"
+              onClick={resetForm}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <button
+            className="rf-btn-primary w-full"
+            type="submit"
+            disabled={saving || !description.trim() || !amount.trim()}
+          >
+            {addTransactionMutation.isPending ? "Adding..." : "Add Transaction"}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default TransactionsSection;
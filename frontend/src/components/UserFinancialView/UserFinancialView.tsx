@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { adminAPI } from '../../utils/api';
 import { Currency } from '../../types/currency.types';
 import { formatCurrency } from '../../utils/currency.utils';
+import { toMonthlyAmount } from '../../utils/frequency.utils';
 import FinancialTable, { ColumnDefinition } from '../Shared/FinancialTable';
 import FinancialProgressBar from '../Shared/FinancialProgressBar';
 
@@ -36,6 +37,7 @@ interface Expense {
   id: number;
   name: string;
   amount: number;
+  frequency?: string;
 }
 
 interface IncomeStatement {
@@ -58,6 +60,7 @@ interface Income {
   id: number;
   name: string;
   amount: number;
+  frequency?: string;
   type: string;
 }
 
@@ -175,13 +178,13 @@ const UserFinancialView: React.FC<UserFinancialViewProps> = ({ userId, userName,
   const portfolioIncome = financialData.income?.filter(i => i.type === 'Portfolio') || [];
   const passiveIncome = financialData.income?.filter(i => i.type === 'Passive') || [];
   
-  const totalEarnedIncome = earnedIncome.reduce((sum, i) => sum + i.amount, 0);
-  const totalPortfolioIncome = portfolioIncome.reduce((sum, i) => sum + i.amount, 0);
-  const totalPassiveIncome = passiveIncome.reduce((sum, i) => sum + i.amount, 0);
+  const totalEarnedIncome = earnedIncome.reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+  const totalPortfolioIncome = portfolioIncome.reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+  const totalPassiveIncome = passiveIncome.reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
   const totalIncome = totalEarnedIncome + totalPortfolioIncome + totalPassiveIncome;
 
   const expenses = financialData.incomeStatement?.expenses || [];
-  const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const totalExpenses = expenses.reduce((sum, e) => sum + toMonthlyAmount(e.amount, e.frequency), 0);
 
   const cashSavings = financialData.cashSavings?.amount || 0;
 
@@ -8,6 +8,8 @@ interface User {
   email: string;
   isAdmin?: boolean;
   preferredCurrency?: Currency;
+  /** Locale amounts are formatted in; null follows each currency's locale */
+  numberLocale?: string | null;
   createdAt: string;
 }
 
@@ -18,6 +20,7 @@ interface AuthContextType {
   logout: () => Promise<void>;
   updateUsername: (newName: string) => Promise<void>;
   updateEmail: (newEmail: string) => Promise<void>;
+  updateNumberLocale: (locale: string | null) => Promise<void>;
   changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
   isAuthenticated: boolean;
   isAdmin: boolean;
@@ -104,6 +107,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const updateNumberLocale = async (locale: string | null) => {
+    const data = await authAPI.updateNumberLocale(locale);
+    setUser((prev) => (prev ? { ...prev, numberLocale: data?.user?.numberLocale ?? locale } : prev));
+  };
+
   const changePassword = async (currentPassword: string, newPassword: string) => {
     try {
       await authAPI.updatePassword(currentPassword, newPassword);
@@ -119,6 +127,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     updateUsername,
     updateEmail,
+    updateNumberLocale,
     changePassword,
     isAuthenticated: !!user,
     isAdmin: user?.isAdmin === true,
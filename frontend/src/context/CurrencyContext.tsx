@@ -2,10 +2,13 @@ import React, { createContext, useState, useContext, useEffect, ReactNode } from
 import { Currency } from '../types/currency.types';
 import { currencyAPI } from '../utils/api';
 import { useAuth } from './AuthContext';
+import { setNumberLocale } from '../utils/currency.utils';
 
 interface CurrencyContextType {
   currency: Currency | null;
   setCurrency: (currency: Currency) => void;
+  /** Switch currency and re-denominate amounts held in the old one */
+  convertCurrency: (currency: Currency, rate?: number) => Promise<void>;
   loading: boolean;
 }
 
@@ -15,7 +18,10 @@ export const CurrencyProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [currency, setCurrency] = useState<Currency | null>(null);
   const [loading, setLoading] = useState(true);
   const [hasInitialized, setHasInitialized] = useState(false);
-  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { user, isAuthenticated, loading: authLoading } = useAuth();
+
+  // Applied while rendering so every amount below formats in the user's locale on first paint
+  setNumberLocale(user?.numberLocale ?? null);
 
   useEffect(() => {
     // Only fetch currency once auth is ready and we haven't initialized yet
@@ -56,8 +62,15 @@ export const CurrencyProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
+  const handleConvertCurrency = async (newCurrency: Currency, rate?: number) => {
+    await currencyAPI.updateUserCurrency(newCurrency.id, true, rate);
+    setCurrency(newCurrency);
+  };
+
   return (
-    <CurrencyContext.Provider value={{ currency, setCurrency: handleSetCurrency, loading }}>
+    <CurrencyContext.Provider
+      value={{ currency, setCurrency: handleSetCurrency, convertCurrency: handleConvertCurrency, loading }}
+    >
       {children}
     </CurrencyContext.Provider>
   );
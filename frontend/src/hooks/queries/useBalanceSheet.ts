@@ -6,22 +6,72 @@
  */
 
 import { useQuery, useMutation, useQueryClient, useQueries } from '@tanstack/react-query';
-import { assetsAPI, liabilitiesAPI } from '../../utils/api';
+import { assetsAPI, liabilitiesAPI, LoanTermsPayload } from '../../utils/api';
+import { AssetClass, LiquidityTier, normalizeAssetClass, normalizeLiquidity } from '../../utils/assetClass.utils';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
+/** Monthly cashflow from the income and expense lines linked to an asset */
+export interface AssetPerformance {
+  monthlyIncome: number;
+  monthlyExpenses: number;
+  netCashflow: number;
+  /** Annual linked income as a percentage of the asset's value */
+  yield: number;
+  /** Annual net cashflow as a percentage of the asset's value */
+  roi: number;
+}
+
+/** Equity left in an asset after the liabilities it secures */
+export interface AssetEquity {
+  securedDebt: number;
+  equity: number;
+  /** Percent; null when a worthless asset still carries debt */
+  loanToValue: number | null;
+  underwater: boolean;
+}
+
 export interface AssetItem {
   id: number;
   name: string;
   value: number;
+  assetClass: AssetClass;
+  liquidity: LiquidityTier;
+  /** Native currency; null when held in the preferred currency */
+  currencyId: number | null;
+  /** Null until the server has computed it (e.g. optimistic items); in the asset's currency */
+  performance: AssetPerformance | null;
+  equity: AssetEquity | null;
+}
+
+export interface LoanTerms {
+  /** Annual interest rate in percent */
+  interestRate: number | null;
+  minimumPayment: number | null;
+  termMonths: number | null;
+  /** YYYY-MM-DD */
+  startDate: string | null;
 }
 
-export interface LiabilityItem {
+/** Payoff projection from the server; null when the loan terms are incomplete */
+export interface LoanSummary {
+  monthlyPayment: number;
+  payoffDate: string | null;
+  remainingMonths: number;
+  totalInterest: number;
+}
+
+export interface LiabilityItem extends LoanTerms {
   id: number;
   name: string;
   value: number;
+  loanSummary: LoanSummary | null;
+  /** Asset securing the liability, e.g. the house behind a mortgage */
+  assetId: number | null;
+  /** Native currency; null when held in the preferred currency */
+  currencyId: number | null;
 }
 
 export interface BalanceSheetData {
@@ -36,6 +86,13 @@ export interface BalanceSheetData {
 export interface AddAssetInput {
   name: string;
   value: number;
+  assetClass?: AssetClass;
+  /** Defaults from the asset class when omitted */
+  liquidity?: LiquidityTier;
+  /** Native currency; null means the preferred currency */
+  currencyId?: number | null;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
 }
 
 export interface UpdateAssetInput extends AddAssetInput {
@@ -44,11 +101,18 @@ export interface UpdateAssetInput extends AddAssetInput {
 
 export interface DeleteAssetInput {
   id: number;
+  effectiveDate?: string;
 }
 
-export interface AddLiabilityInput {
+export interface AddLiabilityInput extends LoanTermsPayload {
   name: string;
   value: number;
+  /** Asset the liability secures; null clears it */
+  assetId?: number | null;
+  /** Native currency; null means the preferred currency */
+  currencyId?: number | null;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
 }
 
 export interface UpdateLiabilityInput extends AddLiabilityInput {
@@ -57,6 +121,7 @@ export interface UpdateLiabilityInput extends AddLiabilityInput {
 
 export interface DeleteLiabilityInput {
   id: number;
+  effectiveDate?: string;
 }
 
 // ============================================================================
@@ -77,10 +142,16 @@ export const balanceSheetKeys = {
  * Normalizes a raw asset item from API response
  */
 const normalizeAssetItem = (item: Record<string, unknown>): AssetItem => {
+  const assetClass = normalizeAssetClass(item.assetClass);
   return {
     id: item.id as number,
     name: item.name as string,
     value: typeof item.value === 'number' ? item.value : parseFloat(item.value as string),
+    assetClass,
+    liquidity: normalizeLiquidity(item.liquidity, assetClass),
+    currencyId: typeof item.currencyId === 'number' ? item.currencyId : null,
+    performance: (item.performance as AssetPerformance | undefined) ?? null,
+    equity: (item.equity as AssetEquity | undefined) ?? null,
   };
 };
 
@@ -88,13 +159,32 @@ const normalizeAssetItem = (item: Record<string, unknown>): AssetItem => {
  * Normalizes a raw liability item from API response
  */
 const normalizeLiabilityItem = (item: Record<string, unknown>): LiabilityItem => {
+  const toNumberOrNull = (value: unknown) =>
+    value === null || value === undefined ? null : typeof value === 'number' ? value : parseFloat(value as string);
   return {
     id: item.id as number,
     name: item.name as string,
     value: typeof item.value === 'number' ? item.value : parseFloat(item.value as string),
+    interestRate: toNumberOrNull(item.interestRate),
+    minimumPayment: toNumberOrNull(item.minimumPayment),
+    termMonths: typeof item.termMonths === 'number' ? item.termMonths : null,
+    startDate: typeof item.startDate === 'string' ? item.startDate.slice(0, 10) : null,
+    loanSummary: (item.loanSummary as LoanSummary | undefined) ?? null,
+    assetId: typeof item.assetId === 'number' ? item.assetId : null,
+    currencyId: typeof item.currencyId === 'number' ? item.currencyId : null,
   };
 };
 
+/**
+ * Picks the loan terms out of a liability mutation input
+ */
+const toLoanTermsPayload = (input: LoanTermsPayload): LoanTermsPayload => ({
+  interestRate: input.interestRate,
+  minimumPayment: input.minimumPayment,
+  termMonths: input.termMonths,
+  startDate: input.startDate,
+});
+
 /**
  * Normalizes raw API response into asset array
  */
@@ -208,7 +298,14 @@ export const useAddAssetMutation = () => {
 
   return useMutation({
     mutationFn: async (input: AddAssetInput) => {
-      const response = await assetsAPI.addAsset(input.name, input.value);
+      const response = await assetsAPI.addAsset(
+        input.name,
+        input.value,
+        input.effectiveDate,
+        input.assetClass,
+        input.liquidity,
+        input.currencyId
+      );
       const assetData = response.asset || response;
       return normalizeAssetItem(assetData);
     },
@@ -224,6 +321,9 @@ export const useAddAssetMutation = () => {
           id: -Date.now(),
           name: newAsset.name,
           value: newAsset.value,
+          assetClass: newAsset.assetClass ?? 'OTHER',
+          liquidity: newAsset.liquidity,
+          currencyId: newAsset.currencyId ?? null,
         };
         return [...oldArray, optimisticItem];
       });
@@ -251,7 +351,15 @@ export const useUpdateAssetMutation = () => {
 
   return useMutation({
     mutationFn: async (input: UpdateAssetInput) => {
-      const response = await assetsAPI.updateAsset(input.id, input.name, input.value);
+      const response = await assetsAPI.updateAsset(
+        input.id,
+        input.name,
+        input.value,
+        input.effectiveDate,
+        input.assetClass,
+        input.liquidity,
+        input.currencyId
+      );
       const assetData = response.asset || response;
       return normalizeAssetItem(assetData);
     },
@@ -269,6 +377,9 @@ export const useUpdateAssetMutation = () => {
               ...item,
               name: updatedAsset.name,
               value: updatedAsset.value,
+              assetClass: updatedAsset.assetClass ?? item.assetClass,
+              liquidity: updatedAsset.liquidity ?? item.liquidity,
+              currencyId: updatedAsset.currencyId !== undefined ? updatedAsset.currencyId : item.currencyId,
             };
           }
           return item;
@@ -298,7 +409,7 @@ export const useDeleteAssetMutation = () => {
 
   return useMutation({
     mutationFn: async (input: DeleteAssetInput) => {
-      await assetsAPI.deleteAsset(input.id);
+      await assetsAPI.deleteAsset(input.id, input.effectiveDate);
       return input;
     },
 
@@ -339,7 +450,14 @@ export const useAddLiabilityMutation = () => {
 
   return useMutation({
     mutationFn: async (input: AddLiabilityInput) => {
-      const response = await liabilitiesAPI.addLiability(input.name, input.value);
+      const response = await liabilitiesAPI.addLiability(
+        input.name,
+        input.value,
+        input.effectiveDate,
+        toLoanTermsPayload(input),
+        input.assetId,
+        input.currencyId
+      );
       const liabilityData = response.liability || response;
       return normalizeLiabilityItem(liabilityData);
     },
@@ -355,6 +473,11 @@ export const useAddLiabilityMutation = () => {
           id: -Date.now(),
           name: newLiability.name,
           value: newLiability.value,
+          ...toLoanTermsPayload(newLiability),
+          assetId: newLiability.assetId ?? null,
+          currencyId: newLiability.currencyId ?? null,
+          // Payoff projection arrives with the refetch
+          loanSummary: null,
         };
         return [...oldArray, optimisticItem];
       });
@@ -369,7 +492,8 @@ export const useAddLiabilityMutation = () => {
     },
 
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.liabilities() });
+      // Assets are refetched too, since secured loans change their equity
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.all });
     },
   });
 };
@@ -382,7 +506,15 @@ export const useUpdateLiabilityMutation = () => {
 
   return useMutation({
     mutationFn: async (input: UpdateLiabilityInput) => {
-      const response = await liabilitiesAPI.updateLiability(input.id, input.name, input.value);
+      const response = await liabilitiesAPI.updateLiability(
+        input.id,
+        input.name,
+        input.value,
+        input.effectiveDate,
+        toLoanTermsPayload(input),
+        input.assetId,
+        input.currencyId
+      );
       const liabilityData = response.liability || response;
       return normalizeLiabilityItem(liabilityData);
     },
@@ -400,6 +532,9 @@ export const useUpdateLiabilityMutation = () => {
               ...item,
               name: updatedLiability.name,
               value: updatedLiability.value,
+              ...toLoanTermsPayload(updatedLiability),
+              assetId: updatedLiability.assetId !== undefined ? updatedLiability.assetId : item.assetId,
+              currencyId: updatedLiability.currencyId !== undefined ? updatedLiability.currencyId : item.currencyId,
             };
           }
           return item;
@@ -416,7 +551,7 @@ export const useUpdateLiabilityMutation = () => {
     },
 
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.liabilities() });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.all });
     },
   });
 };
@@ -429,7 +564,7 @@ export const useDeleteLiabilityMutation = () => {
 
   return useMutation({
     mutationFn: async (input: DeleteLiabilityInput) => {
-      await liabilitiesAPI.deleteLiability(input.id);
+      await liabilitiesAPI.deleteLiability(input.id, input.effectiveDate);
       return input;
     },
 
@@ -453,7 +588,7 @@ export const useDeleteLiabilityMutation = () => {
     },
 
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.liabilities() });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.all });
     },
   });
 };
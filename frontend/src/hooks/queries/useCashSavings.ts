@@ -1,8 +1,8 @@
 /**
  * Cash Savings TanStack Query Hooks
  * 
- * Provides React Query hooks for managing cash savings
- * with optimistic updates.
+ * Provides React Query hooks for managing cash accounts and the
+ * cash total they roll up to, with optimistic updates.
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
@@ -12,12 +12,50 @@ import { cashSavingsAPI } from '../../utils/api';
 // Type Definitions
 // ============================================================================
 
+export type CashAccountType = 'CHECKING' | 'SAVINGS' | 'EMERGENCY_FUND' | 'E_WALLET' | 'OTHER';
+
+export const CASH_ACCOUNT_TYPE_LABELS: Record<CashAccountType, string> = {
+  CHECKING: 'Checking',
+  SAVINGS: 'Savings',
+  EMERGENCY_FUND: 'Emergency Fund',
+  E_WALLET: 'E-Wallet',
+  OTHER: 'Other',
+};
+
+export interface CashAccount {
+  id: number;
+  name: string;
+  amount: number;
+  accountType: CashAccountType;
+}
+
 export interface CashSavingsData {
+  /** Total across every account */
   amount: number;
+  accounts: CashAccount[];
+}
+
+export interface CashAccountInput {
+  name: string;
+  amount: number;
+  accountType: CashAccountType;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
+}
+
+export interface UpdateCashAccountInput extends Partial<CashAccountInput> {
+  id: number;
+}
+
+export interface DeleteCashAccountInput {
+  id: number;
+  effectiveDate?: string;
 }
 
 export interface UpdateCashSavingsInput {
   amount: number;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
 }
 
 // ============================================================================
@@ -29,17 +67,37 @@ export const cashSavingsKeys = {
   detail: () => [...cashSavingsKeys.all, 'detail'] as const,
 };
 
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : parseFloat((value as string) ?? '0') || 0;
+
+/**
+ * Normalizes the cash savings response (total plus accounts)
+ */
+const normalizeCashSavings = (data: any): CashSavingsData => ({
+  amount: toNumber(data?.amount),
+  accounts: (Array.isArray(data?.accounts) ? data.accounts : []).map((account: Record<string, unknown>) => ({
+    id: account.id as number,
+    name: account.name as string,
+    amount: toNumber(account.amount),
+    accountType: (account.accountType as CashAccountType) ?? 'SAVINGS',
+  })),
+});
+
 // ============================================================================
 // Queries
 // ============================================================================
 
 /**
- * Hook to fetch cash savings data
+ * Hook to fetch the cash total and every cash account
  * 
  * @example
  * ```tsx
  * const { data: cashSavings, isLoading, error } = useCashSavingsQuery();
- * console.log(cashSavings?.amount);
+ * console.log(cashSavings?.amount, cashSavings?.accounts.length);
  * ```
  */
 export const useCashSavingsQuery = () => {
@@ -49,9 +107,7 @@ export const useCashSavingsQuery = () => {
       const response = await cashSavingsAPI.getCashSavings();
       return response;
     },
-    select: (data): CashSavingsData => ({
-      amount: typeof data?.amount === 'number' ? data.amount : parseFloat(data?.amount ?? '0') || 0,
-    }),
+    select: normalizeCashSavings,
   });
 };
 
@@ -60,7 +116,7 @@ export const useCashSavingsQuery = () => {
 // ============================================================================
 
 /**
- * Hook to update cash savings with optimistic updates
+ * Hook to set the default (oldest) account's balance with optimistic updates
  * 
  * @example
  * ```tsx
@@ -76,10 +132,7 @@ export const useUpdateCashSavingsMutation = () => {
 
   return useMutation({
     mutationFn: async (input: UpdateCashSavingsInput) => {
-      const response = await cashSavingsAPI.updateCashSavings(input.amount);
-      // API may return { cashSavings: { amount } } or { amount } directly
-      const amount = response.cashSavings?.amount ?? response.amount ?? input.amount;
-      return { amount } as CashSavingsData;
+      return await cashSavingsAPI.updateCashSavings(input.amount, input.effectiveDate);
     },
 
     onMutate: async (input) => {
@@ -87,12 +140,19 @@ export const useUpdateCashSavingsMutation = () => {
       await queryClient.cancelQueries({ queryKey: cashSavingsKeys.all });
 
       // Snapshot the previous value
-      const previousData = queryClient.getQueryData<{ amount: number }>(cashSavingsKeys.all);
-
-      // Optimistically update the cache
-      queryClient.setQueryData<{ amount: number }>(cashSavingsKeys.all, {
-        amount: input.amount,
-      });
+      const previousData = queryClient.getQueryData<CashSavingsData>(cashSavingsKeys.all);
+
+      // Optimistically update the default account and the total
+      if (previousData) {
+        const [defaultAccount, ...others] = normalizeCashSavings(previousData).accounts;
+        if (defaultAccount) {
+          const accounts = [{ ...defaultAccount, amount: input.amount }, ...others];
+          queryClient.setQueryData<CashSavingsData>(cashSavingsKeys.all, {
+            amount: accounts.reduce((sum, account) => sum + account.amount, 0),
+            accounts,
+          });
+        }
+      }
 
       // Return context with snapshot for potential rollback
       return { previousData };
@@ -111,3 +171,51 @@ export const useUpdateCashSavingsMutation = () => {
     },
   });
 };
+
+/**
+ * Hook to add a cash account
+ */
+export const useAddCashAccountMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CashAccountInput) => {
+      return await cashSavingsAPI.addCashAccount(input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cashSavingsKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to update a cash account's name, type or balance
+ */
+export const useUpdateCashAccountMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateCashAccountInput) => {
+      return await cashSavingsAPI.updateCashAccount(id, input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cashSavingsKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete a cash account
+ */
+export const useDeleteCashAccountMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, effectiveDate }: DeleteCashAccountInput) => {
+      return await cashSavingsAPI.deleteCashAccount(id, effectiveDate);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: cashSavingsKeys.all });
+    },
+  });
+};
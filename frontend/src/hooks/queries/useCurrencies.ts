@@ -0,0 +1,260 @@
+/**
+ * Currency TanStack Query Hooks
+ *
+ * Provides React Query hooks for the currency list and the exchange rates
+ * used to convert entities held in their own currency to the preferred one,
+ * and for the price index that restates analysis in real terms.
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { currencyAPI } from '../../utils/api';
+import { useCurrency } from '../../context/CurrencyContext';
+import { Currency } from '../../types/currency.types';
+import { formatCurrency } from '../../utils/currency.utils';
+import { ExchangeRateRow, buildFxRates, convertAmount, getExchangeRate } from '../../utils/fx.utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ExchangeRateItem extends ExchangeRateRow {
+  id: number;
+  fromCurrency: Currency | null;
+  toCurrency: Currency | null;
+  updatedAt: string;
+}
+
+export interface ExchangeRateHistoryItem extends ExchangeRateRow {
+  id: number;
+  /** Date the rate took effect (YYYY-MM-DD) */
+  effectiveDate: string;
+}
+
+/** A rate to record; without a date it takes effect today */
+export type ExchangeRateInput = ExchangeRateRow & { effectiveDate?: string };
+
+export interface InflationIndexItem {
+  id: number;
+  currencyId: number;
+  currency: Currency | null;
+  /** First day of the period the value measures (YYYY-MM-DD) */
+  date: string;
+  value: number;
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const currencyKeys = {
+  all: ['currency'] as const,
+  list: () => [...currencyKeys.all, 'list'] as const,
+  rates: () => [...currencyKeys.all, 'rates'] as const,
+  history: (fromCurrencyId?: number, toCurrencyId?: number) =>
+    [...currencyKeys.rates(), 'history', fromCurrencyId ?? null, toCurrencyId ?? null] as const,
+  inflation: (currencyId?: number) => [...currencyKeys.all, 'inflation', currencyId ?? null] as const,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalizes a raw exchange rate from API response
+ */
+const normalizeExchangeRate = (item: Record<string, unknown>): ExchangeRateItem => ({
+  id: item.id as number,
+  fromCurrencyId: item.fromCurrencyId as number,
+  toCurrencyId: item.toCurrencyId as number,
+  rate: typeof item.rate === 'number' ? item.rate : parseFloat(item.rate as string),
+  fromCurrency: (item.FromCurrency as Currency | undefined) ?? null,
+  toCurrency: (item.ToCurrency as Currency | undefined) ?? null,
+  updatedAt: item.updatedAt as string,
+});
+
+const normalizeExchangeRates = (data: unknown): ExchangeRateItem[] =>
+  (Array.isArray(data) ? data : []).map(normalizeExchangeRate);
+
+const normalizeExchangeRateHistory = (data: unknown): ExchangeRateHistoryItem[] =>
+  (Array.isArray(data) ? data : []).map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    fromCurrencyId: item.fromCurrencyId as number,
+    toCurrencyId: item.toCurrencyId as number,
+    rate: typeof item.rate === 'number' ? item.rate : parseFloat(item.rate as string),
+    effectiveDate: String(item.effectiveDate).split('T')[0],
+  }));
+
+const normalizeInflationIndex = (data: unknown): InflationIndexItem[] =>
+  (Array.isArray(data) ? data : []).map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    currencyId: item.currencyId as number,
+    currency: (item.Currency as Currency | undefined) ?? null,
+    date: String(item.date).split('T')[0],
+    value: typeof item.value === 'number' ? item.value : parseFloat(item.value as string),
+  }));
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch all available currencies
+ */
+export const useCurrenciesQuery = () => {
+  return useQuery({
+    queryKey: currencyKeys.list(),
+    queryFn: async () => {
+      const response = await currencyAPI.getCurrencies();
+      return response as Currency[];
+    },
+    staleTime: Infinity,
+  });
+};
+
+/**
+ * Hook to fetch the stored exchange rates
+ */
+export const useExchangeRatesQuery = () => {
+  return useQuery({
+    queryKey: currencyKeys.rates(),
+    queryFn: async () => {
+      const response = await currencyAPI.getExchangeRates();
+      return response;
+    },
+    select: normalizeExchangeRates,
+  });
+};
+
+/**
+ * Hook to fetch the dated rate history, optionally for one currency pair
+ */
+export const useExchangeRateHistoryQuery = (fromCurrencyId?: number, toCurrencyId?: number) => {
+  return useQuery({
+    queryKey: currencyKeys.history(fromCurrencyId, toCurrencyId),
+    queryFn: async () => {
+      const response = await currencyAPI.getExchangeRateHistory(fromCurrencyId, toCurrencyId);
+      return response;
+    },
+    select: normalizeExchangeRateHistory,
+  });
+};
+
+/**
+ * Hook to fetch the recorded price index, optionally for one currency
+ */
+export const useInflationIndexQuery = (currencyId?: number) => {
+  return useQuery({
+    queryKey: currencyKeys.inflation(currencyId),
+    queryFn: async () => {
+      const response = await currencyAPI.getInflationIndex(currencyId);
+      return response;
+    },
+    select: normalizeInflationIndex,
+  });
+};
+
+/**
+ * Hook to convert entity amounts to the preferred currency
+ * An entity without a currency is already in the preferred currency
+ *
+ * @example
+ * ```tsx
+ * const { toPreferred, formatNative } = useCurrencyConversion();
+ * toPreferred(50000, phpId);        // 1000 when 1 USD = 50 PHP
+ * formatNative(50000, phpId);       // "₱50,000 ≈ $1,000"
+ * ```
+ */
+export const useCurrencyConversion = () => {
+  const { currency: preferredCurrency } = useCurrency();
+  const { data: currencies, isLoading: currenciesLoading } = useCurrenciesQuery();
+  const { data: rates, isLoading: ratesLoading, isError, error } = useExchangeRatesQuery();
+
+  const conversion = useMemo(() => {
+    const fxRates = buildFxRates(rates ?? []);
+    const preferredId = preferredCurrency?.id ?? null;
+    const isForeign = (currencyId: number | null): currencyId is number =>
+      currencyId !== null && preferredId !== null && currencyId !== preferredId;
+
+    const getCurrency = (currencyId: number | null): Currency | null =>
+      (currencyId !== null ? currencies?.find((c) => c.id === currencyId) : undefined) ?? preferredCurrency;
+
+    const toPreferred = (amount: number, currencyId: number | null): number =>
+      isForeign(currencyId) ? convertAmount(amount, currencyId, preferredId!, fxRates) : amount;
+
+    const hasRate = (currencyId: number | null): boolean =>
+      !isForeign(currencyId) || getExchangeRate(fxRates, currencyId, preferredId!) !== null;
+
+    // Native amount, followed by the converted amount for foreign-currency entities
+    const formatNative = (amount: number, currencyId: number | null): string => {
+      const native = formatCurrency(amount, getCurrency(currencyId));
+      if (!isForeign(currencyId)) return native;
+      return hasRate(currencyId)
+        ? `${native} ≈ ${formatCurrency(toPreferred(amount, currencyId), preferredCurrency)}`
+        : `${native} (no rate)`;
+    };
+
+    return { getCurrency, toPreferred, hasRate, formatNative };
+  }, [rates, currencies, preferredCurrency]);
+
+  return {
+    ...conversion,
+    currencies: currencies ?? [],
+    preferredCurrency,
+    isLoading: currenciesLoading || ratesLoading,
+    isError,
+    error,
+  };
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to record exchange rates, today or on a past date (admin only)
+ */
+export const useUpdateExchangeRatesMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rows: ExchangeRateInput[]) => {
+      return await currencyAPI.updateExchangeRates(rows);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: currencyKeys.rates() });
+    },
+  });
+};
+
+/**
+ * Hook to import exchange rates from "from,to,rate[,date]" CSV text (admin only)
+ */
+export const useImportExchangeRatesMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (csv: string) => {
+      return await currencyAPI.importExchangeRates(csv);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: currencyKeys.rates() });
+    },
+  });
+};
+
+/**
+ * Hook to import price index values from "currency,date,value" CSV text (admin only)
+ */
+export const useImportInflationIndexMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (csv: string) => {
+      return await currencyAPI.importInflationIndex(csv);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [...currencyKeys.all, 'inflation'] });
+    },
+  });
+};
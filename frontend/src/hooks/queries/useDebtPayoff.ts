@@ -0,0 +1,112 @@
+/**
+ * Debt Payoff TanStack Query Hooks
+ *
+ * Provides React Query hooks for comparing debt payoff strategies and saving
+ * the one that feeds the freedom-date projection. Comparisons live under the
+ * liabilities query key so they refresh whenever a liability changes.
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { debtPayoffAPI } from '../../utils/api';
+import { balanceSheetKeys } from './useBalanceSheet';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type PayoffStrategy = 'SNOWBALL' | 'AVALANCHE' | 'CUSTOM';
+
+export interface DebtPayoffResult {
+  id: number;
+  name: string;
+  startingBalance: number;
+  minimumPayment: number;
+  payoffMonth: number | null;
+  payoffDate: string | null;
+  interestPaid: number;
+}
+
+export interface PayoffSimulation {
+  strategy: PayoffStrategy;
+  order: number[];
+  debts: DebtPayoffResult[];
+  months: number | null;
+  debtFreeDate: string | null;
+  totalInterest: number;
+  totalPaid: number;
+}
+
+export interface DebtPayoffComparison {
+  extraPayment: number;
+  customOrder: number[];
+  /** Strategy of the saved plan, null until the user picks one */
+  selectedStrategy: PayoffStrategy | null;
+  totalDebt: number;
+  totalMinimumPayment: number;
+  monthlyIncome: number;
+  debtToIncomeRatio: number;
+  weightedAverageRate: number;
+  strategies: PayoffSimulation[];
+}
+
+// Mutation input types
+export interface SaveDebtPayoffPlanInput {
+  strategy: PayoffStrategy;
+  extraPayment: number;
+  customOrder: number[];
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const debtPayoffKeys = {
+  all: [...balanceSheetKeys.liabilities(), 'payoff'] as const,
+  comparison: (extraPayment?: number, customOrder?: number[]) =>
+    [...debtPayoffKeys.all, extraPayment ?? null, customOrder?.join(',') ?? null] as const,
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to compare payoff strategies
+ * Omitted parameters fall back to the saved plan on the server
+ *
+ * @example
+ * ```tsx
+ * const { data: comparison } = useDebtPayoffComparisonQuery(500, [3, 1, 2]);
+ * ```
+ */
+export const useDebtPayoffComparisonQuery = (extraPayment?: number, customOrder?: number[]) => {
+  return useQuery({
+    queryKey: debtPayoffKeys.comparison(extraPayment, customOrder),
+    queryFn: async () => {
+      const response = await debtPayoffAPI.compareStrategies(extraPayment, customOrder);
+      return response as DebtPayoffComparison;
+    },
+    // Keep showing the last comparison while the extra payment is being edited
+    placeholderData: keepPreviousData,
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to save the payoff plan used by the freedom-date projection
+ */
+export const useSaveDebtPayoffPlanMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveDebtPayoffPlanInput) => {
+      return await debtPayoffAPI.savePlan(input.strategy, input.extraPayment, input.customOrder);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: debtPayoffKeys.all });
+    },
+  });
+};
@@ -0,0 +1,141 @@
+/**
+ * Expense Category TanStack Query Hooks
+ *
+ * Provides React Query hooks for the user's hierarchical expense categories.
+ * Categories change rarely, so mutations simply refetch instead of
+ * updating the cache optimistically.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { expenseCategoriesAPI } from '../../utils/api';
+import { ExpenseClassification } from '../../utils/expenseCategory.utils';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ExpenseCategory {
+  id: number;
+  name: string;
+  parentId: number | null;
+  classification: ExpenseClassification;
+  /** Full path from the top-level category, e.g. "Housing > Utilities" */
+  path: string;
+}
+
+// Mutation input types
+export interface AddExpenseCategoryInput {
+  name: string;
+  classification: ExpenseClassification;
+  parentId?: number | null;
+}
+
+export interface UpdateExpenseCategoryInput extends AddExpenseCategoryInput {
+  id: number;
+}
+
+export interface DeleteExpenseCategoryInput {
+  id: number;
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const expenseCategoryKeys = {
+  all: ['expenseCategories'] as const,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalizes raw API response into a category array (already ordered by path)
+ */
+const normalizeCategoryData = (data: unknown): ExpenseCategory[] => {
+  const categories = Array.isArray(data) ? data : [];
+  return categories.map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    name: item.name as string,
+    parentId: typeof item.parentId === 'number' ? item.parentId : null,
+    classification: item.classification as ExpenseClassification,
+    path: (item.path as string) ?? (item.name as string),
+  }));
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the user's expense categories
+ *
+ * @example
+ * ```tsx
+ * const { data: categories } = useExpenseCategoriesQuery();
+ * ```
+ */
+export const useExpenseCategoriesQuery = () => {
+  return useQuery({
+    queryKey: expenseCategoryKeys.all,
+    queryFn: async () => {
+      const response = await expenseCategoriesAPI.getCategories();
+      return response;
+    },
+    select: normalizeCategoryData,
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to add an expense category
+ */
+export const useAddExpenseCategoryMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AddExpenseCategoryInput) => {
+      return await expenseCategoriesAPI.addCategory(input.name, input.classification, input.parentId);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: expenseCategoryKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to rename, move or reclassify an expense category
+ */
+export const useUpdateExpenseCategoryMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateExpenseCategoryInput) => {
+      return await expenseCategoriesAPI.updateCategory(input.id, input.name, input.classification, input.parentId);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: expenseCategoryKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete an expense category that is no longer used
+ */
+export const useDeleteExpenseCategoryMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: DeleteExpenseCategoryInput) => {
+      await expenseCategoriesAPI.deleteCategory(input.id);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: expenseCategoryKeys.all });
+    },
+  });
+};
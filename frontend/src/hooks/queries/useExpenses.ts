@@ -2,23 +2,36 @@
  * Expenses TanStack Query Hooks
  * 
  * Replaces the expense-related logic from the monolithic useFinancialData hook
- * with modern React Query patterns including optimistic updates.
+ * with modern React Query patterns including optimistic updates. Also covers
+ * the monthly budgets set on expenses and expense categories.
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { expensesAPI } from '../../utils/api';
+import { Frequency, normalizeFrequency, toMonthlyAmount } from '../../utils/frequency.utils';
+import { ActivePeriod, isActiveOn, normalizeActiveDate } from '../../utils/activePeriod.utils';
+import { balanceSheetKeys } from './useBalanceSheet';
 
 // ============================================================================
 // Type Definitions
 // ============================================================================
 
-export interface ExpenseItem {
+export interface ExpenseItem extends ActivePeriod {
   id: number;
   name: string;
   amount: number;
+  frequency: Frequency;
+  categoryId: number | null;
+  /** Asset this expense is attributed to */
+  assetId: number | null;
+  /** Loan this expense pays */
+  liabilityId: number | null;
+  /** Native currency; null when held in the preferred currency */
+  currencyId: number | null;
 }
 
 export interface ExpenseTotals {
+  /** Monthly equivalent of all expenses */
   total: number;
 }
 
@@ -26,6 +39,20 @@ export interface ExpenseTotals {
 export interface AddExpenseInput {
   name: string;
   amount: number;
+  frequency?: Frequency;
+  /** Expense category; null clears it */
+  categoryId?: number | null;
+  /** Asset this expense is attributed to; null clears it */
+  assetId?: number | null;
+  /** Loan this expense pays; null clears it */
+  liabilityId?: number | null;
+  /** Native currency; null means the preferred currency */
+  currencyId?: number | null;
+  /** First and last day the expense counts (YYYY-MM-DD); null clears them */
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
 }
 
 export interface UpdateExpenseInput extends AddExpenseInput {
@@ -34,6 +61,67 @@ export interface UpdateExpenseInput extends AddExpenseInput {
 
 export interface DeleteExpenseInput {
   id: number;
+  effectiveDate?: string;
+}
+
+export type BudgetRollover = 'NONE' | 'CARRY_UNUSED' | 'CARRY_ALL';
+
+export const BUDGET_ROLLOVER_LABELS: Record<BudgetRollover, string> = {
+  NONE: 'No rollover',
+  CARRY_UNUSED: 'Carry unused',
+  CARRY_ALL: 'Carry unused and overspent',
+};
+
+export interface BudgetItem {
+  id: number;
+  /** Exactly one of expenseId and categoryId is set */
+  expenseId: number | null;
+  categoryId: number | null;
+  monthlyLimit: number;
+  rollover: BudgetRollover;
+}
+
+export interface BudgetStatus {
+  budgetId: number;
+  expenseId: number | null;
+  categoryId: number | null;
+  rollover: BudgetRollover;
+  monthlyLimit: number;
+  carriedOver: number;
+  /** Limit plus carry-over */
+  available: number;
+  planned: number;
+  actual: number;
+  remaining: number;
+  plannedVariance: number;
+  actualVariance: number;
+  overBudget: boolean;
+  overPlanned: boolean;
+}
+
+export interface BudgetMonthReport {
+  month: string;
+  budgets: BudgetStatus[];
+  totals: {
+    available: number;
+    planned: number;
+    actual: number;
+    actualVariance: number;
+    overBudgetCount: number;
+  };
+}
+
+export interface AddBudgetInput {
+  expenseId?: number | null;
+  categoryId?: number | null;
+  monthlyLimit: number;
+  rollover?: BudgetRollover;
+}
+
+export interface UpdateBudgetInput {
+  id: number;
+  monthlyLimit: number;
+  rollover?: BudgetRollover;
 }
 
 // ============================================================================
@@ -48,6 +136,12 @@ export const expenseKeys = {
   detail: (id: number) => [...expenseKeys.details(), id] as const,
 };
 
+export const budgetKeys = {
+  all: ['budgets'] as const,
+  report: (month: string) => [...budgetKeys.all, 'report', month] as const,
+  history: (months: number) => [...budgetKeys.all, 'history', months] as const,
+};
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -60,6 +154,13 @@ const normalizeExpenseItem = (item: Record<string, unknown>): ExpenseItem => {
     id: item.id as number,
     name: item.name as string,
     amount: typeof item.amount === 'number' ? item.amount : parseFloat(item.amount as string),
+    frequency: normalizeFrequency(item.frequency),
+    categoryId: typeof item.categoryId === 'number' ? item.categoryId : null,
+    assetId: typeof item.assetId === 'number' ? item.assetId : null,
+    liabilityId: typeof item.liabilityId === 'number' ? item.liabilityId : null,
+    currencyId: typeof item.currencyId === 'number' ? item.currencyId : null,
+    activeFrom: normalizeActiveDate(item.activeFrom),
+    activeUntil: normalizeActiveDate(item.activeUntil),
   };
 };
 
@@ -72,10 +173,27 @@ const normalizeExpenseData = (data: unknown): ExpenseItem[] => {
 };
 
 /**
- * Calculate expense totals from normalized data
+ * Normalizes raw API response into budget array
+ */
+const normalizeBudgets = (data: unknown): BudgetItem[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    expenseId: typeof item.expenseId === 'number' ? item.expenseId : null,
+    categoryId: typeof item.categoryId === 'number' ? item.categoryId : null,
+    monthlyLimit: typeof item.monthlyLimit === 'number' ? item.monthlyLimit : parseFloat(String(item.monthlyLimit)) || 0,
+    rollover: (item.rollover as BudgetRollover) ?? 'NONE',
+  }));
+};
+
+/**
+ * Calculate expense totals from normalized data, in monthly terms
+ * Only expenses active today are counted
  */
 export const calculateExpenseTotals = (expenses: ExpenseItem[]): ExpenseTotals => {
-  const total = expenses.reduce((sum, e) => sum + e.amount, 0);
+  const total = expenses
+    .filter((e) => isActiveOn(e))
+    .reduce((sum, e) => sum + toMonthlyAmount(e.amount, e.frequency), 0);
   return { total };
 };
 
@@ -121,6 +239,49 @@ export const useExpenseTotals = () => {
   };
 };
 
+/**
+ * Hook to fetch the budgets set on expenses and categories
+ */
+export const useBudgetsQuery = () => {
+  return useQuery({
+    queryKey: budgetKeys.all,
+    queryFn: async () => {
+      return await expensesAPI.getBudgets();
+    },
+    select: normalizeBudgets,
+  });
+};
+
+/**
+ * Hook to compare each budget against planned and actual spending for a month
+ *
+ * @example
+ * ```tsx
+ * const { data: report } = useBudgetReportQuery('2025-03');
+ * console.log(report?.totals.overBudgetCount);
+ * ```
+ */
+export const useBudgetReportQuery = (month: string) => {
+  return useQuery<BudgetMonthReport>({
+    queryKey: budgetKeys.report(month),
+    queryFn: async () => {
+      return await expensesAPI.getBudgetReport(month);
+    },
+  });
+};
+
+/**
+ * Hook to fetch the monthly budget reports up to the current month, oldest first
+ */
+export const useBudgetHistoryQuery = (months: number = 12) => {
+  return useQuery<BudgetMonthReport[]>({
+    queryKey: budgetKeys.history(months),
+    queryFn: async () => {
+      return await expensesAPI.getBudgetHistory(months);
+    },
+  });
+};
+
 // ============================================================================
 // Mutations
 // ============================================================================
@@ -143,7 +304,18 @@ export const useAddExpenseMutation = () => {
 
   return useMutation({
     mutationFn: async (input: AddExpenseInput) => {
-      const response = await expensesAPI.addExpense(input.name, input.amount);
+      const response = await expensesAPI.addExpense(
+        input.name,
+        input.amount,
+        input.effectiveDate,
+        input.frequency,
+        input.categoryId,
+        input.assetId,
+        input.currencyId,
+        input.activeFrom,
+        input.activeUntil,
+        input.liabilityId
+      );
       // API may return { expense: {...} } or the item directly
       const expenseData = response.expense || response;
       return normalizeExpenseItem(expenseData);
@@ -165,6 +337,13 @@ export const useAddExpenseMutation = () => {
           id: -Date.now(), // Temporary ID (will be replaced on success)
           name: newExpense.name,
           amount: newExpense.amount,
+          frequency: newExpense.frequency ?? 'MONTHLY',
+          categoryId: newExpense.categoryId ?? null,
+          assetId: newExpense.assetId ?? null,
+          liabilityId: newExpense.liabilityId ?? null,
+          currencyId: newExpense.currencyId ?? null,
+          activeFrom: newExpense.activeFrom ?? null,
+          activeUntil: newExpense.activeUntil ?? null,
         };
         
         return [...oldArray, optimisticItem];
@@ -184,6 +363,10 @@ export const useAddExpenseMutation = () => {
     onSettled: () => {
       // Always refetch after error or success to ensure cache consistency
       queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+      // Linked assets report this expense in their monthly contribution
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
+      // Budget reports compare against planned expenses
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
     },
   });
 };
@@ -207,7 +390,19 @@ export const useUpdateExpenseMutation = () => {
 
   return useMutation({
     mutationFn: async (input: UpdateExpenseInput) => {
-      const response = await expensesAPI.updateExpense(input.id, input.name, input.amount);
+      const response = await expensesAPI.updateExpense(
+        input.id,
+        input.name,
+        input.amount,
+        input.effectiveDate,
+        input.frequency,
+        input.categoryId,
+        input.assetId,
+        input.currencyId,
+        input.activeFrom,
+        input.activeUntil,
+        input.liabilityId
+      );
       const expenseData = response.expense || response;
       return normalizeExpenseItem(expenseData);
     },
@@ -226,6 +421,13 @@ export const useUpdateExpenseMutation = () => {
               ...item,
               name: updatedExpense.name,
               amount: updatedExpense.amount,
+              frequency: updatedExpense.frequency ?? item.frequency,
+              categoryId: updatedExpense.categoryId !== undefined ? updatedExpense.categoryId : item.categoryId,
+              assetId: updatedExpense.assetId !== undefined ? updatedExpense.assetId : item.assetId,
+              liabilityId: updatedExpense.liabilityId !== undefined ? updatedExpense.liabilityId : item.liabilityId,
+              currencyId: updatedExpense.currencyId !== undefined ? updatedExpense.currencyId : item.currencyId,
+              activeFrom: updatedExpense.activeFrom !== undefined ? updatedExpense.activeFrom : item.activeFrom,
+              activeUntil: updatedExpense.activeUntil !== undefined ? updatedExpense.activeUntil : item.activeUntil,
             };
           }
           return item;
@@ -243,6 +445,8 @@ export const useUpdateExpenseMutation = () => {
 
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
     },
   });
 };
@@ -262,7 +466,7 @@ export const useDeleteExpenseMutation = () => {
 
   return useMutation({
     mutationFn: async (input: DeleteExpenseInput) => {
-      await expensesAPI.deleteExpense(input.id);
+      await expensesAPI.deleteExpense(input.id, input.effectiveDate);
       return input;
     },
 
@@ -293,6 +497,57 @@ export const useDeleteExpenseMutation = () => {
     onSettled: () => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to add a budget for an expense or a category
+ */
+export const useAddBudgetMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: AddBudgetInput) => {
+      return await expensesAPI.addBudget({ ...input });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to update the limit or rollover rule of a budget
+ */
+export const useUpdateBudgetMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateBudgetInput) => {
+      return await expensesAPI.updateBudget(id, input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete a budget
+ */
+export const useDeleteBudgetMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { id: number }) => {
+      await expensesAPI.deleteBudget(input.id);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: budgetKeys.all });
     },
   });
 };
@@ -4,13 +4,17 @@
  * This hook aggregates data from existing React Query hooks to provide
  * computed financial metrics without triggering additional network requests.
  * Relies on React Query's automatic deduplication and caching.
+ *
+ * Entities held in another currency are converted to the preferred currency
+ * before they are totalled, matching the analysis service.
  */
 
 import { useMemo } from 'react';
-import { useIncomeTotals } from './useIncome';
-import { useExpenseTotals } from './useExpenses';
+import { useIncomeQuery, calculateIncomeTotals } from './useIncome';
+import { useExpensesQuery, calculateExpenseTotals } from './useExpenses';
 import { useBalanceSheetQuery } from './useBalanceSheet';
 import { useCashSavingsQuery } from './useCashSavings';
+import { useCurrencyConversion } from './useCurrencies';
 
 // ============================================================================
 // Type Definitions
@@ -73,23 +77,22 @@ export interface FinancialSummaryResult extends FinancialSummary {
 export const useFinancialSummary = (): FinancialSummaryResult => {
   // Fetch data from existing query hooks (deduped automatically)
   const { 
-    data: incomeTotals, 
+    data: income, 
     isLoading: incomeLoading, 
     isError: incomeError,
     error: incomeErrorObj 
-  } = useIncomeTotals();
+  } = useIncomeQuery();
   
   const { 
-    data: expenseTotals, 
+    data: expenses, 
     isLoading: expensesLoading, 
     isError: expensesError,
     error: expensesErrorObj 
-  } = useExpenseTotals();
+  } = useExpensesQuery();
   
   const { 
-    totalAssets, 
-    totalLiabilities, 
-    netWorth: balanceSheetNetWorth,
+    assets,
+    liabilities,
     isLoading: balanceSheetLoading, 
     isError: balanceSheetError,
     error: balanceSheetErrorObj 
@@ -102,8 +105,26 @@ export const useFinancialSummary = (): FinancialSummaryResult => {
     error: cashSavingsErrorObj
   } = useCashSavingsQuery();
 
+  const { toPreferred, isLoading: ratesLoading } = useCurrencyConversion();
+
   // Compute derived values with memoization
   const summary = useMemo<FinancialSummary>(() => {
+    // Convert each line to the preferred currency before totalling
+    const convertLines = <T extends { amount: number; currencyId: number | null }>(lines: T[]) =>
+      lines.map((line) => ({ ...line, amount: toPreferred(line.amount, line.currencyId) }));
+
+    const incomeTotals = income
+      ? calculateIncomeTotals({
+          earned: convertLines(income.earned),
+          portfolio: convertLines(income.portfolio),
+          passive: convertLines(income.passive),
+          all: convertLines(income.all),
+        })
+      : undefined;
+    const expenseTotals = expenses ? calculateExpenseTotals(convertLines(expenses)) : undefined;
+    const totalAssets = assets.reduce((sum, a) => sum + toPreferred(a.value, a.currencyId), 0);
+    const totalLiabilities = liabilities.reduce((sum, l) => sum + toPreferred(l.value, l.currencyId), 0);
+
     // Extract raw values with defaults
     const earned = incomeTotals?.earned ?? 0;
     const portfolio = incomeTotals?.portfolio ?? 0;
@@ -116,7 +137,7 @@ export const useFinancialSummary = (): FinancialSummaryResult => {
     
     // Calculate core metrics
     const cashflow = totalIncome - totalExpenses;
-    const netWorth = balanceSheetNetWorth ?? (totalAssets - totalLiabilities);
+    const netWorth = totalAssets - totalLiabilities;
     
     // Calculate savings rate (what percentage of income is saved)
     const savingsRate = totalIncome > 0 
@@ -146,16 +167,16 @@ export const useFinancialSummary = (): FinancialSummaryResult => {
       progressPercent,
     };
   }, [
-    incomeTotals, 
-    expenseTotals, 
-    totalAssets, 
-    totalLiabilities, 
-    balanceSheetNetWorth,
-    cashSavingsData
+    income, 
+    expenses, 
+    assets, 
+    liabilities, 
+    cashSavingsData,
+    toPreferred
   ]);
 
   // Aggregate loading and error states
-  const isLoading = incomeLoading || expensesLoading || balanceSheetLoading || cashSavingsLoading;
+  const isLoading = incomeLoading || expensesLoading || balanceSheetLoading || cashSavingsLoading || ratesLoading;
   const isError = incomeError || expensesError || balanceSheetError || cashSavingsError;
   const error = incomeErrorObj || expensesErrorObj || balanceSheetErrorObj || cashSavingsErrorObj;
 
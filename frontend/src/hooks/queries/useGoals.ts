@@ -0,0 +1,192 @@
+/**
+ * Financial Goals TanStack Query Hooks
+ *
+ * Provides React Query hooks for the user's goals and their evaluated
+ * progress. Progress is derived from the whole financial picture, so it is
+ * refetched whenever it is viewed rather than patched optimistically.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { goalsAPI } from '../../utils/api';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type GoalMetric =
+  | 'NET_WORTH'
+  | 'CASH_SAVINGS'
+  | 'LIQUID_RUNWAY'
+  | 'PASSIVE_COVERAGE'
+  | 'PASSIVE_INCOME'
+  | 'TOTAL_LIABILITIES';
+
+export type GoalUnit = 'CURRENCY' | 'MONTHS' | 'PERCENT';
+
+export const GOAL_METRIC_OPTIONS: { value: GoalMetric; label: string; unit: GoalUnit }[] = [
+  { value: 'NET_WORTH', label: 'Net worth', unit: 'CURRENCY' },
+  { value: 'CASH_SAVINGS', label: 'Cash savings', unit: 'CURRENCY' },
+  { value: 'LIQUID_RUNWAY', label: 'Liquid runway (months)', unit: 'MONTHS' },
+  { value: 'PASSIVE_COVERAGE', label: 'Passive income coverage (%)', unit: 'PERCENT' },
+  { value: 'PASSIVE_INCOME', label: 'Monthly passive income', unit: 'CURRENCY' },
+  { value: 'TOTAL_LIABILITIES', label: 'Total liabilities', unit: 'CURRENCY' },
+];
+
+export interface GoalItem {
+  id: number;
+  name: string;
+  metric: GoalMetric;
+  targetValue: number;
+  /** YYYY-MM-DD */
+  deadline: string;
+  startValue: number;
+}
+
+export interface GoalProgress {
+  goalId: number;
+  name: string;
+  metric: GoalMetric;
+  unit: GoalUnit;
+  targetValue: number;
+  deadline: string;
+  startValue: number;
+  currentValue: number;
+  /** 0-100, measured from the value when the goal was set */
+  progress: number;
+  achieved: boolean;
+  monthsRemaining: number;
+  trendPerMonth: number;
+  projectedValue: number;
+  onTrack: boolean;
+  requiredMonthlyChange: number;
+  /** Null for income goals, which saving does not move directly */
+  requiredMonthlyContribution: number | null;
+}
+
+// Mutation input types
+export interface GoalInput {
+  name: string;
+  metric: GoalMetric;
+  targetValue: number;
+  /** YYYY-MM-DD, in the future */
+  deadline: string;
+}
+
+export interface UpdateGoalInput extends GoalInput {
+  id: number;
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const goalKeys = {
+  all: ['goals'] as const,
+  progress: () => [...goalKeys.all, 'progress'] as const,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const normalizeGoals = (data: unknown): GoalItem[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    name: item.name as string,
+    metric: item.metric as GoalMetric,
+    targetValue: typeof item.targetValue === 'number' ? item.targetValue : parseFloat(String(item.targetValue)) || 0,
+    deadline: String(item.deadline).slice(0, 10),
+    startValue: typeof item.startValue === 'number' ? item.startValue : parseFloat(String(item.startValue)) || 0,
+  }));
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the user's goals
+ */
+export const useGoalsQuery = () => {
+  return useQuery({
+    queryKey: goalKeys.all,
+    queryFn: async () => {
+      return await goalsAPI.getGoals();
+    },
+    select: normalizeGoals,
+  });
+};
+
+/**
+ * Hook to evaluate progress on every goal
+ *
+ * @example
+ * ```tsx
+ * const { data: progress } = useGoalProgressQuery();
+ * progress?.filter((goal) => !goal.onTrack);
+ * ```
+ */
+export const useGoalProgressQuery = () => {
+  return useQuery<GoalProgress[]>({
+    queryKey: goalKeys.progress(),
+    queryFn: async () => {
+      return await goalsAPI.getGoalProgress();
+    },
+    // Any change to income, expenses or the balance sheet moves progress
+    staleTime: 0,
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to add a goal
+ */
+export const useAddGoalMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: GoalInput) => {
+      return await goalsAPI.addGoal({ ...input });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to update a goal
+ */
+export const useUpdateGoalMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateGoalInput) => {
+      return await goalsAPI.updateGoal(id, input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete a goal
+ */
+export const useDeleteGoalMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { id: number }) => {
+      await goalsAPI.deleteGoal(input.id);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+};
@@ -7,6 +7,9 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { incomeAPI } from '../../utils/api';
+import { Frequency, normalizeFrequency, toMonthlyAmount } from '../../utils/frequency.utils';
+import { ActivePeriod, isActiveOn, normalizeActiveDate } from '../../utils/activePeriod.utils';
+import { balanceSheetKeys } from './useBalanceSheet';
 
 // ============================================================================
 // Type Definitions
@@ -16,12 +19,17 @@ export type IncomeQuadrant = 'EMPLOYEE' | 'SELF_EMPLOYED' | 'BUSINESS_OWNER' | '
 
 export type IncomeType = 'Earned' | 'Portfolio' | 'Passive';
 
-export interface IncomeItem {
+export interface IncomeItem extends ActivePeriod {
   id: number;
   name: string;
   amount: number;
   type: IncomeType;
   quadrant: IncomeQuadrant;
+  frequency: Frequency;
+  /** Asset generating this income */
+  assetId: number | null;
+  /** Native currency; null when held in the preferred currency */
+  currencyId: number | null;
 }
 
 export interface NormalizedIncome {
@@ -45,6 +53,16 @@ export interface AddIncomeInput {
   amount: number;
   type: IncomeType;
   quadrant?: IncomeQuadrant;
+  frequency?: Frequency;
+  /** Asset generating this income; null clears it */
+  assetId?: number | null;
+  /** Native currency; null means the preferred currency */
+  currencyId?: number | null;
+  /** First and last day the line counts (YYYY-MM-DD); null clears them */
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  /** Optional ISO date the change took effect (defaults to now) */
+  effectiveDate?: string;
 }
 
 export interface UpdateIncomeInput extends AddIncomeInput {
@@ -54,6 +72,7 @@ export interface UpdateIncomeInput extends AddIncomeInput {
 export interface DeleteIncomeInput {
   id: number;
   type: IncomeType;
+  effectiveDate?: string;
 }
 
 // ============================================================================
@@ -104,6 +123,11 @@ const normalizeIncomeItem = (item: Record<string, unknown>): IncomeItem => {
     amount: typeof item.amount === 'number' ? item.amount : parseFloat(item.amount as string),
     type,
     quadrant: normalizeQuadrant(item.quadrant, typeQuadrantFallback[type]),
+    frequency: normalizeFrequency(item.frequency),
+    assetId: typeof item.assetId === 'number' ? item.assetId : null,
+    currencyId: typeof item.currencyId === 'number' ? item.currencyId : null,
+    activeFrom: normalizeActiveDate(item.activeFrom),
+    activeUntil: normalizeActiveDate(item.activeUntil),
   };
 };
 
@@ -123,12 +147,16 @@ const normalizeIncomeData = (data: unknown): NormalizedIncome => {
 };
 
 /**
- * Calculate income totals from normalized data
+ * Calculate income totals from normalized data, in monthly terms
+ * Only lines active today are counted
  */
 export const calculateIncomeTotals = (income: NormalizedIncome): IncomeTotals => {
-  const earned = income.earned.reduce((sum, i) => sum + i.amount, 0);
-  const portfolio = income.portfolio.reduce((sum, i) => sum + i.amount, 0);
-  const passive = income.passive.reduce((sum, i) => sum + i.amount, 0);
+  const sumActive = (items: IncomeItem[]) => items
+    .filter((i) => isActiveOn(i))
+    .reduce((sum, i) => sum + toMonthlyAmount(i.amount, i.frequency), 0);
+  const earned = sumActive(income.earned);
+  const portfolio = sumActive(income.portfolio);
+  const passive = sumActive(income.passive);
   
   return {
     earned,
@@ -210,7 +238,13 @@ export const useAddIncomeMutation = () => {
         input.name,
         input.amount,
         input.type,
-        resolvedQuadrant
+        resolvedQuadrant,
+        input.effectiveDate,
+        input.frequency,
+        input.assetId,
+        input.currencyId,
+        input.activeFrom,
+        input.activeUntil
       );
       // API may return { incomeLine: {...} } or the item directly
       const incomeData = response.incomeLine || response;
@@ -235,6 +269,11 @@ export const useAddIncomeMutation = () => {
           amount: newIncome.amount,
           type: newIncome.type,
           quadrant: newIncome.quadrant || typeQuadrantFallback[newIncome.type],
+          frequency: newIncome.frequency ?? 'MONTHLY',
+          assetId: newIncome.assetId ?? null,
+          currencyId: newIncome.currencyId ?? null,
+          activeFrom: newIncome.activeFrom ?? null,
+          activeUntil: newIncome.activeUntil ?? null,
         };
         
         return [...oldArray, optimisticItem];
@@ -254,6 +293,8 @@ export const useAddIncomeMutation = () => {
     onSettled: () => {
       // Always refetch after error or success to ensure cache consistency
       queryClient.invalidateQueries({ queryKey: incomeKeys.all });
+      // Linked assets report this income in their monthly contribution
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
     },
   });
 };
@@ -285,7 +326,13 @@ export const useUpdateIncomeMutation = () => {
         input.name,
         input.amount,
         input.type,
-        resolvedQuadrant
+        resolvedQuadrant,
+        input.effectiveDate,
+        input.frequency,
+        input.assetId,
+        input.currencyId,
+        input.activeFrom,
+        input.activeUntil
       );
       const incomeData = response.incomeLine || response;
       return normalizeIncomeItem(incomeData);
@@ -307,6 +354,11 @@ export const useUpdateIncomeMutation = () => {
               amount: updatedIncome.amount,
               type: updatedIncome.type,
               quadrant: updatedIncome.quadrant || typeQuadrantFallback[updatedIncome.type],
+              frequency: updatedIncome.frequency ?? item.frequency,
+              assetId: updatedIncome.assetId !== undefined ? updatedIncome.assetId : item.assetId,
+              currencyId: updatedIncome.currencyId !== undefined ? updatedIncome.currencyId : item.currencyId,
+              activeFrom: updatedIncome.activeFrom !== undefined ? updatedIncome.activeFrom : item.activeFrom,
+              activeUntil: updatedIncome.activeUntil !== undefined ? updatedIncome.activeUntil : item.activeUntil,
             };
           }
           return item;
@@ -324,6 +376,7 @@ export const useUpdateIncomeMutation = () => {
 
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: incomeKeys.all });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
     },
   });
 };
@@ -343,7 +396,7 @@ export const useDeleteIncomeMutation = () => {
 
   return useMutation({
     mutationFn: async (input: DeleteIncomeInput) => {
-      await incomeAPI.deleteIncomeLine(input.id);
+      await incomeAPI.deleteIncomeLine(input.id, input.effectiveDate);
       return input;
     },
 
@@ -374,6 +427,7 @@ export const useDeleteIncomeMutation = () => {
     onSettled: () => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: incomeKeys.all });
+      queryClient.invalidateQueries({ queryKey: balanceSheetKeys.assets() });
     },
   });
 };
@@ -0,0 +1,98 @@
+/**
+ * Planned Change TanStack Query Hooks
+ *
+ * Provides React Query hooks for changes scheduled on a future date. Pending
+ * changes are included when the Time Machine looks ahead and are recorded as
+ * real events by the server once their date arrives.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { plannedChangesAPI } from '../../utils/api';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type PlannedChangeStatus = 'PENDING' | 'APPLYING' | 'APPLIED' | 'FAILED';
+
+export interface PlannedChangeItem {
+  id: number;
+  label: string;
+  /** YYYY-MM-DD */
+  effectiveDate: string;
+  changes: Record<string, unknown>[];
+  status: PlannedChangeStatus;
+  /** Why the change could not be recorded when its date arrived */
+  error: string | null;
+  materializedAt: string | null;
+  createdAt: string;
+}
+
+// Mutation input types
+export interface PlannedChangeInput {
+  label: string;
+  /** YYYY-MM-DD, after today */
+  effectiveDate: string;
+  changes: Record<string, unknown>[];
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const plannedChangeKeys = {
+  all: ['plannedChanges'] as const,
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the user's planned changes
+ */
+export const usePlannedChangesQuery = () => {
+  return useQuery<PlannedChangeItem[]>({
+    queryKey: plannedChangeKeys.all,
+    queryFn: async () => {
+      return await plannedChangesAPI.getPlannedChanges();
+    },
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to schedule a planned change
+ */
+export const useAddPlannedChangeMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: PlannedChangeInput) => {
+      return await plannedChangesAPI.addPlannedChange(input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: plannedChangeKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete a pending or failed planned change
+ */
+export const useDeletePlannedChangeMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { id: number }) => {
+      await plannedChangesAPI.deletePlannedChange(input.id);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: plannedChangeKeys.all });
+    },
+  });
+};
@@ -0,0 +1,226 @@
+/**
+ * Scenario Branch TanStack Query Hooks
+ *
+ * Provides React Query hooks for saved plans that fork the user's event
+ * stream at a date. A branch's trajectory is replayed on the server from the
+ * real events up to the fork and the branch's own events after it.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { scenarioBranchesAPI } from '../../utils/api';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ScenarioBranchItem {
+  id: number;
+  name: string;
+  /** YYYY-MM-DD; real events after the end of this day are left out */
+  forkDate: string;
+  createdAt: string;
+  eventCount: number;
+}
+
+export interface ScenarioBranchEvent {
+  id: number;
+  effectiveDate: string;
+  actionType: 'CREATE' | 'UPDATE' | 'DELETE';
+  entityType: string;
+  entitySubtype: string | null;
+  entityId: number;
+  beforeValue: Record<string, unknown> | null;
+  afterValue: Record<string, unknown> | null;
+}
+
+export interface ScenarioBranchDetail extends Omit<ScenarioBranchItem, 'eventCount'> {
+  events: ScenarioBranchEvent[];
+}
+
+/** The parts of a trajectory point the branch chart uses */
+export interface BranchTrajectoryPoint {
+  date: string;
+  netWorth: number;
+  passiveIncome: number;
+  portfolioIncome: number;
+  totalExpenses: number;
+}
+
+export interface BranchTrajectory {
+  forkDate: string;
+  actual: BranchTrajectoryPoint[];
+  branch: BranchTrajectoryPoint[];
+}
+
+export interface BranchTrajectoryParams {
+  startDate: string;
+  endDate: string;
+  currencyId?: number;
+}
+
+// Mutation input types
+export interface BranchInput {
+  name: string;
+  /** YYYY-MM-DD, today when omitted */
+  forkDate?: string;
+}
+
+export interface BranchChangesInput {
+  id: number;
+  /** YYYY-MM-DD */
+  effectiveDate: string;
+  changes: Record<string, unknown>[];
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const scenarioBranchKeys = {
+  all: ['scenarioBranches'] as const,
+  detail: (id: number) => [...scenarioBranchKeys.all, 'detail', id] as const,
+  trajectory: (id: number, params: BranchTrajectoryParams) =>
+    [...scenarioBranchKeys.all, 'trajectory', id, params] as const,
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the user's branches
+ */
+export const useScenarioBranchesQuery = () => {
+  return useQuery<ScenarioBranchItem[]>({
+    queryKey: scenarioBranchKeys.all,
+    queryFn: async () => {
+      return await scenarioBranchesAPI.getBranches();
+    },
+  });
+};
+
+/**
+ * Hook to fetch a branch with its events
+ */
+export const useScenarioBranchQuery = (id: number | null) => {
+  return useQuery<ScenarioBranchDetail>({
+    queryKey: scenarioBranchKeys.detail(id ?? 0),
+    queryFn: async () => {
+      return await scenarioBranchesAPI.getBranch(id!);
+    },
+    enabled: id !== null,
+  });
+};
+
+/**
+ * Hook to chart a branch against reality
+ *
+ * @example
+ * ```tsx
+ * const { data } = useBranchTrajectoryQuery(branchId, { startDate, endDate });
+ * data?.branch.at(-1)?.netWorth;
+ * ```
+ */
+export const useBranchTrajectoryQuery = (id: number | null, params: BranchTrajectoryParams) => {
+  return useQuery<BranchTrajectory>({
+    queryKey: scenarioBranchKeys.trajectory(id ?? 0, params),
+    queryFn: async () => {
+      return await scenarioBranchesAPI.getBranchTrajectory(
+        id!,
+        params.startDate,
+        params.endDate,
+        'monthly',
+        params.currencyId
+      );
+    },
+    enabled: id !== null && !!params.startDate && !!params.endDate,
+    // Reality moves with every recorded change, so replay on each view
+    staleTime: 0,
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Hook to create a branch
+ */
+export const useAddScenarioBranchMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: BranchInput) => {
+      return await scenarioBranchesAPI.addBranch(input);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: scenarioBranchKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to rename a branch
+ */
+export const useRenameScenarioBranchMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      return await scenarioBranchesAPI.updateBranch(id, name);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: scenarioBranchKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete a branch
+ */
+export const useDeleteScenarioBranchMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { id: number }) => {
+      await scenarioBranchesAPI.deleteBranch(input.id);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: scenarioBranchKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to record hypothetical changes on a branch
+ */
+export const useAddBranchChangesMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, effectiveDate, changes }: BranchChangesInput) => {
+      return await scenarioBranchesAPI.addBranchChanges(id, effectiveDate, changes);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: scenarioBranchKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to delete one event of a branch
+ */
+export const useDeleteBranchEventMutation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { id: number; eventId: number }) => {
+      await scenarioBranchesAPI.deleteBranchEvent(input.id, input.eventId);
+      return input;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: scenarioBranchKeys.all });
+    },
+  });
+};
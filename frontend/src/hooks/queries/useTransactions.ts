@@ -0,0 +1,207 @@
+/**
+ * Transaction Ledger TanStack Query Hooks
+ *
+ * Provides React Query hooks for the dated transaction ledger and the monthly
+ * planned vs actual report. Transactions move cash account balances, so every
+ * mutation also refreshes cash savings.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { transactionsAPI } from '../../utils/api';
+import { cashSavingsKeys } from './useCashSavings';
+import { budgetKeys } from './useExpenses';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type TransactionDirection = 'INFLOW' | 'OUTFLOW';
+
+export interface TransactionItem {
+  id: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** Always positive; the direction says which way the money moved */
+  amount: number;
+  direction: TransactionDirection;
+  description: string;
+  cashAccountId: number | null;
+  categoryId: number | null;
+  incomeLineId: number | null;
+  expenseId: number | null;
+}
+
+export interface PlanVarianceLine {
+  id: number;
+  name: string;
+  planned: number;
+  actual: number;
+  variance: number;
+}
+
+export interface PlanVarianceSection {
+  lines: PlanVarianceLine[];
+  unplanned: number;
+  planned: number;
+  actual: number;
+  variance: number;
+}
+
+export interface MonthlyPlanVsActual {
+  month: string;
+  income: PlanVarianceSection;
+  expenses: PlanVarianceSection;
+  spendingByCategory: Array<{ categoryPath: string; amount: number }>;
+  plannedCashflow: number;
+  actualCashflow: number;
+  variance: number;
+}
+
+// Mutation input types
+export interface TransactionInput {
+  date: string;
+  amount: number;
+  direction: TransactionDirection;
+  description: string;
+  cashAccountId?: number | null;
+  categoryId?: number | null;
+  incomeLineId?: number | null;
+  expenseId?: number | null;
+}
+
+export interface UpdateTransactionInput extends Partial<TransactionInput> {
+  id: number;
+}
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const transactionKeys = {
+  all: ['transactions'] as const,
+  month: (month: string) => [...transactionKeys.all, 'month', month] as const,
+  planVsActual: (month: string) => [...transactionKeys.all, 'planVsActual', month] as const,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * First and last day (YYYY-MM-DD) of a YYYY-MM month
+ */
+const getMonthBounds = (month: string) => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+const normalizeTransactions = (data: unknown): TransactionItem[] => {
+  if (!Array.isArray(data)) return [];
+  return data.map((item: Record<string, unknown>) => ({
+    id: item.id as number,
+    date: String(item.date).slice(0, 10),
+    amount: typeof item.amount === 'number' ? item.amount : parseFloat(String(item.amount)) || 0,
+    direction: item.direction === 'INFLOW' ? 'INFLOW' : 'OUTFLOW',
+    description: item.description as string,
+    cashAccountId: typeof item.cashAccountId === 'number' ? item.cashAccountId : null,
+    categoryId: typeof item.categoryId === 'number' ? item.categoryId : null,
+    incomeLineId: typeof item.incomeLineId === 'number' ? item.incomeLineId : null,
+    expenseId: typeof item.expenseId === 'number' ? item.expenseId : null,
+  }));
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Hook to fetch the transactions of one month
+ *
+ * @example
+ * ```tsx
+ * const { data: transactions } = useTransactionsQuery('2025-03');
+ * ```
+ */
+export const useTransactionsQuery = (month: string) => {
+  return useQuery({
+    queryKey: transactionKeys.month(month),
+    queryFn: async () => {
+      const { from, to } = getMonthBounds(month);
+      return await transactionsAPI.getTransactions(from, to);
+    },
+    select: normalizeTransactions,
+  });
+};
+
+/**
+ * Hook to compare a month of transactions against the monthly statement
+ */
+export const usePlanVsActualQuery = (month: string) => {
+  return useQuery<MonthlyPlanVsActual>({
+    queryKey: transactionKeys.planVsActual(month),
+    queryFn: async () => {
+      return await transactionsAPI.getPlanVsActual(month);
+    },
+  });
+};
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Refresh the ledger, its reports, the cash balances it moved and the
+ * budgets it spends against
+ */
+const useInvalidateLedger = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: transactionKeys.all });
+    queryClient.invalidateQueries({ queryKey: cashSavingsKeys.all });
+    queryClient.invalidateQueries({ queryKey: budgetKeys.all });
+  };
+};
+
+/**
+ * Hook to record a transaction
+ */
+export const useAddTransactionMutation = () => {
+  const invalidateLedger = useInvalidateLedger();
+
+  return useMutation({
+    mutationFn: async (input: TransactionInput) => {
+      return await transactionsAPI.addTransaction({ ...input });
+    },
+    onSettled: invalidateLedger,
+  });
+};
+
+/**
+ * Hook to update a transaction
+ */
+export const useUpdateTransactionMutation = () => {
+  const invalidateLedger = useInvalidateLedger();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: UpdateTransactionInput) => {
+      return await transactionsAPI.updateTransaction(id, input);
+    },
+    onSettled: invalidateLedger,
+  });
+};
+
+/**
+ * Hook to delete a transaction
+ */
+export const useDeleteTransactionMutation = () => {
+  const invalidateLedger = useInvalidateLedger();
+
+  return useMutation({
+    mutationFn: async (input: { id: number }) => {
+      await transactionsAPI.deleteTransaction(input.id);
+      return input;
+    },
+    onSettled: invalidateLedger,
+  });
+};
@@ -19,6 +19,7 @@ const UserGuide = lazy(() => import('./pages/UserGuide/UserGuide'));
 const Admin = lazy(() => import('./pages/Admin/Admin'));
 const EventLog = lazy(() => import('./pages/EventLog/EventLog'));
 const Analysis = lazy(() => import('./pages/Analysis/Analysis'));
+const Budgets = lazy(() => import('./pages/Budgets/Budgets'));
 
 // Loading fallback component
 const LoadingSpinner: React.FC = () => (
@@ -89,6 +90,14 @@ root.render(
                     </ProtectedRoute>
                   } 
                 />
+                <Route
+                  path="/budgets"
+                  element={
+                    <ProtectedRoute>
+                      <Budgets />
+                    </ProtectedRoute>
+                  }
+                />
                 <Route path="/admin" element={<Admin />} />
                 <Route
                   path="/event-log"
@@ -4,7 +4,14 @@ import Header from '../../components/Header/Header';
 import { useAuth } from '../../context/AuthContext';
 import { useCurrency } from '../../context/CurrencyContext';
 import { analysisAPI } from '../../utils/api';
+import { useCurrencyConversion } from '../../hooks/queries/useCurrencies';
+import CurrencySelect from '../../components/Shared/CurrencySelect';
+import ScenarioBuilder from '../../components/ScenarioBuilder/ScenarioBuilder';
+import ScenarioBranches from '../../components/ScenarioBranches/ScenarioBranches';
+import PlannedChanges from '../../components/PlannedChanges/PlannedChanges';
+import ProjectionFanChart from '../../components/ProjectionFanChart/ProjectionFanChart';
 import { formatCurrency as formatCurrencyValue, getCurrencySymbol } from '../../utils/currency.utils';
+import { ASSET_CLASS_OPTIONS, AssetClass } from '../../utils/assetClass.utils';
 import {
   PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, Legend,
   AreaChart, Area, LineChart, Line, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine, ComposedChart, ReferenceDot
@@ -19,6 +26,7 @@ type SnapshotData = {
     totalAssets: number;
     totalLiabilities: number;
     netWorth: number;
+    totalLiquidAssets?: number;
   };
   cashflow: {
     earnedIncome: number;
@@ -38,6 +46,7 @@ type SnapshotData = {
     wealthVelocityPct: number;
     solvencyRatio: number;
     freedomGap: number;
+    liquidSolvencyRatio?: number;
   };
   incomeQuadrant: {
     EMPLOYEE: { amount: number; pct: number };
@@ -46,9 +55,28 @@ type SnapshotData = {
     INVESTOR: { amount: number; pct: number };
     total: number;
   };
+  // Absent on snapshots from servers that predate expense categories
+  expenseBreakdown?: {
+    byCategory: Array<{
+      category: string;
+      amount: number;
+      pct: number;
+      subcategories: Array<{ category: string; amount: number; pct: number }>;
+    }>;
+    byClassification: Record<'ESSENTIAL' | 'DISCRETIONARY' | 'DOODAD' | 'UNCLASSIFIED', { amount: number; pct: number }>;
+    total: number;
+  };
+  // Absent on snapshots from servers that predate asset classes
+  assetAllocation?: Record<AssetClass, { amount: number; pct: number }> & { total: number };
   financialHealth: {
     runway: number;
+    liquidRunway?: number;
     freedomDate: string | null;
+    // Set when the user has saved a debt payoff plan
+    debtFreeDate?: string | null;
+    // Trailing 12-month inflation and the freedom date with expenses rising at it; null in real terms
+    expenseInflation?: number | null;
+    inflationAdjustedFreedomDate?: string | null;
     assetEfficiency: number;
     trends: {
       netWorth: number;
@@ -56,6 +84,9 @@ type SnapshotData = {
     };
   };
   currency: { symbol: string; name: string };
+  missingExchangeRates?: number[];
+  // Year whose purchasing power amounts are restated in; null for nominal amounts
+  realBaseYear?: number | null;
 };
 
 type TrajectoryPoint = {
@@ -69,6 +100,7 @@ type TrajectoryPoint = {
   wealthVelocity: number; // percent form
   assetEfficiency: number;
   netCashflow: number;
+  actualCashflow?: number; // net of the transactions in the month up to this point
   totalIncome: number;
   incomeQuadrant: {
     EMPLOYEE: number;
@@ -76,6 +108,8 @@ type TrajectoryPoint = {
     BUSINESS_OWNER: number;
     INVESTOR: number;
   };
+  liquidRunway?: number; // months covered by cash + liquid assets
+  assetAllocation?: Record<AssetClass, number>;
   currency: string; // symbol for change markers
 };
 
@@ -87,6 +121,33 @@ const QUADRANT_COLORS = {
   INVESTOR: '#ff7d7e' // Red
 };
 
+const CLASSIFICATION_COLORS = {
+  ESSENTIAL: '#794cb5', // Purple
+  DISCRETIONARY: '#eaca6a', // Gold
+  DOODAD: '#ff7d7e', // Red
+  UNCLASSIFIED: '#52525b' // Zinc
+};
+
+const CLASSIFICATION_LABELS = {
+  ESSENTIAL: 'Essential',
+  DISCRETIONARY: 'Discretionary',
+  DOODAD: 'Doodads',
+  UNCLASSIFIED: 'Uncategorized'
+};
+
+const ASSET_CLASS_COLORS: Record<AssetClass, string> = {
+  CASH_EQUIVALENT: '#41d288', // Green
+  EQUITIES: '#794cb5', // Purple
+  BONDS: '#6b8afd', // Blue
+  REAL_ESTATE: '#eaca6a', // Gold
+  VEHICLE: '#ff7d7e', // Red
+  BUSINESS: '#f59e0b', // Amber
+  RETIREMENT: '#22d3ee', // Cyan
+  CRYPTO: '#e879f9', // Pink
+  COLLECTIBLE: '#a3a3a3', // Neutral
+  OTHER: '#52525b' // Zinc
+};
+
 // Helper to format freedom date for display
 const formatFreedomDate = (freedomDate: string | null): string => {
   if (!freedomDate) return 'Not Projected';
@@ -161,7 +222,16 @@ const StatCard: React.FC<{
 
 const Analysis: React.FC = () => {
   const { user } = useAuth();
-  const { currency } = useCurrency();
+  const { currency: preferredCurrency } = useCurrency();
+  const { getCurrency } = useCurrencyConversion();
+  // Currency every figure is shown in; empty for the preferred currency
+  const [displayCurrencyId, setDisplayCurrencyId] = useState('');
+  const currency = displayCurrencyId ? getCurrency(Number(displayCurrencyId)) : preferredCurrency;
+  const viewCurrencyId = displayCurrencyId ? Number(displayCurrencyId) : undefined;
+  // Real terms restate every figure in the purchasing power of a base year
+  const [showReal, setShowReal] = useState(false);
+  const [realBaseYear, setRealBaseYear] = useState(String(new Date().getFullYear()));
+  const viewRealBaseYear = showReal && /^\d{4}$/.test(realBaseYear) ? Number(realBaseYear) : undefined;
   const [loading, setLoading] = useState(true);
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(false);
   const [slowSnapshot, setSlowSnapshot] = useState(false);
@@ -172,6 +242,10 @@ const Analysis: React.FC = () => {
 
   // Compare state
   const [showCompare, setShowCompare] = useState(false);
+  const [showScenario, setShowScenario] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
+  const [showPlanned, setShowPlanned] = useState(false);
+  const [showProjection, setShowProjection] = useState(false);
   const [compareStart, setCompareStart] = useState('');
   const [compareEnd, setCompareEnd] = useState('');
   const [compareLoading, setCompareLoading] = useState(false);
@@ -247,7 +321,7 @@ const Analysis: React.FC = () => {
     const startTs = performance.now();
     const slowTimer = setTimeout(() => setSlowSnapshot(true), SLOW_THRESHOLD_MS);
     try {
-      const data = await analysisAPI.getFinancialSnapshot(date);
+      const data = await analysisAPI.getFinancialSnapshot(date, viewCurrencyId, viewRealBaseYear);
       if (reqId !== snapshotReqIdRef.current) return; // stale
       setSnapshotData(data);
       if (!date) setSelectedDate('');
@@ -261,8 +335,10 @@ const Analysis: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchSnapshot();
-  }, [currency]);
+    fetchSnapshot(selectedDate || undefined);
+    if (compareResult) fetchCompareReport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currency, viewRealBaseYear]);
 
   useEffect(() => {
     if (deferredSelectedDate) {
@@ -313,8 +389,8 @@ const Analysis: React.FC = () => {
     const slowTimer = setTimeout(() => setSlowCompare(true), SLOW_THRESHOLD_MS);
     try {
       const [startSnap, endSnap] = await Promise.all([
-        analysisAPI.getFinancialSnapshot(compareStart),
-        analysisAPI.getFinancialSnapshot(compareEnd),
+        analysisAPI.getFinancialSnapshot(compareStart, viewCurrencyId, viewRealBaseYear),
+        analysisAPI.getFinancialSnapshot(compareEnd, viewCurrencyId, viewRealBaseYear),
       ]);
       if (reqId !== compareReqIdRef.current) return; // stale
       setCompareResult({ start: startSnap, end: endSnap });
@@ -337,7 +413,9 @@ const Analysis: React.FC = () => {
       const data = await analysisAPI.getFinancialTrajectory(
         trajectoryStart,
         trajectoryEnd,
-        trajectoryInterval
+        trajectoryInterval,
+        viewCurrencyId,
+        viewRealBaseYear
       );
       setTrajectoryData(data);
     } catch (e) {
@@ -372,10 +450,16 @@ const Analysis: React.FC = () => {
     setTrajectoryStart(startStr);
     setTrajectoryEnd(endStr);
   }, [user]);
+
+  // Run the trajectory on to a future Time Machine date, through planned changes
+  useEffect(() => {
+    const today = new Date().toISOString().split('T')[0];
+    setTrajectoryEnd(deferredSelectedDate > today ? deferredSelectedDate : today);
+  }, [deferredSelectedDate]);
   useEffect(() => {
     if (trajectoryStart && trajectoryEnd) fetchTrajectoryData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [trajectoryStart, trajectoryEnd, trajectoryInterval, currency]);
+  }, [trajectoryStart, trajectoryEnd, trajectoryInterval, currency, viewRealBaseYear]);
 
   const compareMetrics = useMemo(() => {
     if (!compareResult) return null;
@@ -516,6 +600,8 @@ const Analysis: React.FC = () => {
           BUSINESS_OWNER: (p.incomeQuadrant.BUSINESS_OWNER / totalIQ) * 100,
           INVESTOR: (p.incomeQuadrant.INVESTOR / totalIQ) * 100,
         },
+        // 999 means "no expenses"; leave a gap instead of flattening the chart
+        liquidRunway: p.liquidRunway !== undefined && p.liquidRunway < 999 ? p.liquidRunway : null,
         currencyChanged,
         gapArea: p.totalExpenses > combinedPassiveIncome ? (p.totalExpenses - combinedPassiveIncome) : 0,
         surplusArea: combinedPassiveIncome > p.totalExpenses ? (combinedPassiveIncome - p.totalExpenses) : 0
@@ -579,7 +665,6 @@ const Analysis: React.FC = () => {
         type="date"
         value={selectedDate}
         onChange={(e) => setSelectedDate(e.target.value)}
-        max={new Date().toISOString().split('T')[0]}
         className="time-machine-input [&::-webkit-calendar-picker-indicator]:invert [&::-webkit-calendar-picker-indicator]:opacity-50 [&::-webkit-calendar-picker-indicator]:hover:opacity-100"
       />
       {selectedDate && (
@@ -593,12 +678,68 @@ const Analysis: React.FC = () => {
     <div className="analysis-header-right">
       {timelineController}
 
+      <CurrencySelect
+        className="w-auto"
+        title="Show every figure in this currency, at the exchange rate valid on each date"
+        value={displayCurrencyId}
+        onChange={setDisplayCurrencyId}
+      />
+
       <button
         onClick={() => setShowCompare(s => !s)}
         aria-pressed={showCompare}
         className={`compare-button ${showCompare ? 'active' : 'inactive'}`}
         title="Compare two dates"
       >Compare</button>
+
+      <button
+        onClick={() => setShowScenario(s => !s)}
+        aria-pressed={showScenario}
+        className={`compare-button ${showScenario ? 'active' : 'inactive'}`}
+        title="Simulate hypothetical changes"
+      >What-if</button>
+
+      <button
+        onClick={() => setShowBranches(s => !s)}
+        aria-pressed={showBranches}
+        className={`compare-button ${showBranches ? 'active' : 'inactive'}`}
+        title="Saved plans forked from your history"
+      >Plans</button>
+
+      <button
+        onClick={() => setShowPlanned(s => !s)}
+        aria-pressed={showPlanned}
+        className={`compare-button ${showPlanned ? 'active' : 'inactive'}`}
+        title="Changes scheduled for a future date"
+      >Planned</button>
+
+      <button
+        onClick={() => setShowProjection(s => !s)}
+        aria-pressed={showProjection}
+        className={`compare-button ${showProjection ? 'active' : 'inactive'}`}
+        title="Project net worth and freedom odds over many simulated market paths"
+      >Projection</button>
+
+      <button
+        onClick={() => setShowReal(s => !s)}
+        aria-pressed={showReal}
+        className={`compare-button ${showReal ? 'active' : 'inactive'}`}
+        title="Show figures in the purchasing power of a base year"
+      >Real</button>
+
+      {showReal && (
+        <input
+          type="number"
+          min="1900"
+          max="2200"
+          step="1"
+          value={realBaseYear}
+          onChange={(e) => setRealBaseYear(e.target.value)}
+          title="Base year whose prices figures are shown in"
+          aria-label="Base year"
+          className="w-20 rounded-md bg-zinc-900 border border-white/10 px-2 py-1 text-xs text-white"
+        />
+      )}
     </div>
   );
 
@@ -615,7 +756,7 @@ const Analysis: React.FC = () => {
         {payload.map((p: any) => (
           <div key={p.dataKey} className="flex justify-between gap-2">
             <span className="text-zinc-400">{p.name}</span>
-            <span className="text-white">{typeof p.value === 'number' ? (p.dataKey.includes('Pct') || p.name?.includes('%') || p.dataKey === 'assetEfficiency' || p.dataKey === 'wealthVelocity' ? `${p.value.toFixed(2)}%` : formatCurrencyValue(p.value, currency)) : p.value}</span>
+            <span className="text-white">{typeof p.value === 'number' ? (p.dataKey.includes('Pct') || p.name?.includes('%') || p.dataKey === 'assetEfficiency' || p.dataKey === 'wealthVelocity' ? `${p.value.toFixed(2)}%` : p.dataKey === 'liquidRunway' ? `${p.value.toFixed(1)} Months` : formatCurrencyValue(p.value, currency)) : p.value}</span>
           </div>
         ))}
       </div>
@@ -675,12 +816,30 @@ const Analysis: React.FC = () => {
                 )}
               </div>
             )}
+            {snapshotData?.missingExchangeRates && snapshotData.missingExchangeRates.length > 0 && (
+              <div className="max-w-7xl mx-auto mb-4 rounded-lg border border-[#eaca6a]/30 bg-[#eaca6a]/10 px-4 py-2 text-xs text-[#eaca6a]">
+                No exchange rate for {snapshotData.missingExchangeRates.map((id) => getCurrency(id)?.cur_name ?? `#${id}`).join(', ')};
+                those amounts are counted at face value.
+              </div>
+            )}
             {(slowCompare && compareLoading) && (
               <div className="fixed top-20 right-4 z-50 rounded-full bg-zinc-900/80 border border-[#794cb5]/40 px-3 py-1 text-[10px] text-[#794cb5] shadow-lg">Generating comparison…</div>
             )}
             {(slowTrajectory && trajectoryLoading) && (
               <div className="fixed top-32 right-4 z-50 rounded-full bg-zinc-900/80 border border-[#eaca6a]/40 px-3 py-1 text-[10px] text-[#eaca6a] shadow-lg">Updating trajectory…</div>
             )}
+            {showScenario && (
+              <ScenarioBuilder currencyId={viewCurrencyId} formatValue={formatCurrent} />
+            )}
+            {showBranches && (
+              <ScenarioBranches currencyId={viewCurrencyId} formatValue={formatCurrent} />
+            )}
+            {showPlanned && (
+              <PlannedChanges formatValue={formatCurrent} onViewDate={setSelectedDate} />
+            )}
+            {showProjection && (
+              <ProjectionFanChart currencyId={viewCurrencyId} formatValue={formatCurrent} />
+            )}
             {showCompare && (
               <div className="max-w-7xl mx-auto mb-6 rounded-2xl bg-zinc-900/70 border border-white/5 p-4 md:p-6">
                 <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
@@ -983,7 +1142,19 @@ const Analysis: React.FC = () => {
                   }
                   subValue={
                     snapshotData.financialHealth.freedomDate !== 'Achieved' && snapshotData.financialHealth.freedomDate ?
-                      "Estimated date based on current trajectory" : "Keep building your assets"
+                      <>
+                        {snapshotData.financialHealth.debtFreeDate
+                          ? `Includes your debt payoff plan (debt-free ${formatFreedomDate(snapshotData.financialHealth.debtFreeDate)})`
+                          : "Estimated date based on current trajectory"}
+                        {snapshotData.financialHealth.inflationAdjustedFreedomDate &&
+                          snapshotData.financialHealth.inflationAdjustedFreedomDate !== snapshotData.financialHealth.freedomDate && (
+                            <div>
+                              {`With expenses rising ${snapshotData.financialHealth.expenseInflation}% a year: ${formatFreedomDate(snapshotData.financialHealth.inflationAdjustedFreedomDate)}`}
+                            </div>
+                          )}
+                        {snapshotData.realBaseYear && <div>{`In ${snapshotData.realBaseYear} prices`}</div>}
+                      </>
+                      : "Keep building your assets"
                   }
                   className="col-span-1 md:col-span-2 lg:col-span-2 min-h-[180px]"
                   accentColor="purple"
@@ -1192,6 +1363,18 @@ const Analysis: React.FC = () => {
                   value={`${snapshotData.financialHealth.runway >= 999 ? '∞' : snapshotData.financialHealth.runway} Months`}
                   className="col-span-1"
                 />
+                {snapshotData.financialHealth.liquidRunway !== undefined && (
+                  <StatCard
+                    title="Liquid Runway"
+                    value={`${snapshotData.financialHealth.liquidRunway >= 999 ? '∞' : snapshotData.financialHealth.liquidRunway} Months`}
+                    subValue={
+                      snapshotData.richFlowMetrics.liquidSolvencyRatio !== undefined
+                        ? `Liquid Solvency ${snapshotData.richFlowMetrics.liquidSolvencyRatio}%`
+                        : 'Cash + Liquid Assets'
+                    }
+                    className="col-span-1"
+                  />
+                )}
                 <StatCard
                   title="Asset Efficiency"
                   value={`${snapshotData.financialHealth.assetEfficiency}%`}
@@ -1218,6 +1401,88 @@ const Analysis: React.FC = () => {
                   accentColor={snapshotData.richFlowMetrics.freedomGap > 0 ? 'default' : 'gold'}
                 />
 
+                {/* Asset Allocation */}
+                {snapshotData.assetAllocation && snapshotData.assetAllocation.total > 0 && (
+                  <div className="col-span-1 md:col-span-2 lg:col-span-3 bg-zinc-900/50 backdrop-blur-md border border-white/5 rounded-2xl p-3 md:p-6">
+                    <h3 className="text-zinc-400 text-sm font-medium uppercase tracking-wider mb-4">Asset Allocation</h3>
+                    <div className="flex h-3 w-full overflow-hidden rounded-full bg-zinc-800 mb-3">
+                      {ASSET_CLASS_OPTIONS.map(({ value }) => (
+                        <div
+                          key={value}
+                          style={{ width: `${snapshotData.assetAllocation![value].pct}%`, backgroundColor: ASSET_CLASS_COLORS[value] }}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm">
+                      {ASSET_CLASS_OPTIONS
+                        .filter(({ value }) => snapshotData.assetAllocation![value].amount > 0)
+                        .map(({ value, label }) => (
+                          <div key={value} className="flex items-center gap-2">
+                            <span style={{ width: 10, height: 10, background: ASSET_CLASS_COLORS[value], borderRadius: 999 }} className="shrink-0" />
+                            <span className="text-zinc-400">{label}</span>
+                            <span className="font-semibold">{formatHistorical(snapshotData.assetAllocation![value].amount, snapshotData.currency)}</span>
+                            <span className="text-xs text-zinc-500">{snapshotData.assetAllocation![value].pct.toFixed(1)}%</span>
+                          </div>
+                        ))}
+                    </div>
+                    {snapshotData.balanceSheet.totalLiquidAssets !== undefined && (
+                      <div className="mt-4 text-xs text-zinc-500">
+                        Liquid assets: {formatHistorical(snapshotData.balanceSheet.totalLiquidAssets, snapshotData.currency)} (excluding cash)
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Expense Breakdown */}
+                {snapshotData.expenseBreakdown && snapshotData.expenseBreakdown.total > 0 && (
+                  <div className="col-span-1 md:col-span-2 lg:col-span-4 bg-zinc-900/50 backdrop-blur-md border border-white/5 rounded-2xl p-3 md:p-6">
+                    <h3 className="text-zinc-400 text-sm font-medium uppercase tracking-wider mb-4">Expense Breakdown</h3>
+
+                    {/* Essential / discretionary / doodad split */}
+                    <div className="flex h-3 w-full overflow-hidden rounded-full bg-zinc-800 mb-3">
+                      {(Object.keys(CLASSIFICATION_COLORS) as Array<keyof typeof CLASSIFICATION_COLORS>).map((key) => (
+                        <div
+                          key={key}
+                          style={{ width: `${snapshotData.expenseBreakdown!.byClassification[key].pct}%`, backgroundColor: CLASSIFICATION_COLORS[key] }}
+                        />
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-4 mb-6 text-sm">
+                      {(Object.keys(CLASSIFICATION_COLORS) as Array<keyof typeof CLASSIFICATION_COLORS>)
+                        .filter((key) => snapshotData.expenseBreakdown!.byClassification[key].amount > 0)
+                        .map((key) => (
+                          <div key={key} className="flex items-center gap-2">
+                            <span style={{ width: 10, height: 10, background: CLASSIFICATION_COLORS[key], borderRadius: 999 }} className="shrink-0" />
+                            <span className="text-zinc-400">{CLASSIFICATION_LABELS[key]}</span>
+                            <span className="font-semibold">{formatHistorical(snapshotData.expenseBreakdown!.byClassification[key].amount, snapshotData.currency)}</span>
+                            <span className="text-xs text-zinc-500">{snapshotData.expenseBreakdown!.byClassification[key].pct.toFixed(1)}%</span>
+                          </div>
+                        ))}
+                    </div>
+
+                    {/* By category */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+                      {snapshotData.expenseBreakdown.byCategory.map((category) => (
+                        <div key={category.category}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-zinc-300 truncate">{category.category}</span>
+                            <span className="font-semibold whitespace-nowrap">
+                              {formatHistorical(category.amount, snapshotData.currency)}
+                              <span className="ml-2 text-xs text-zinc-500">{category.pct.toFixed(1)}%</span>
+                            </span>
+                          </div>
+                          {category.subcategories.map((sub) => (
+                            <div key={sub.category} className="flex items-center justify-between gap-2 pl-4 text-xs text-zinc-500">
+                              <span className="truncate">{sub.category.split(' > ').slice(1).join(' > ')}</span>
+                              <span className="whitespace-nowrap">{formatHistorical(sub.amount, snapshotData.currency)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
               </div>
             )}
 
@@ -1484,6 +1749,113 @@ const Analysis: React.FC = () => {
                         </ResponsiveContainer>
                       </div>
                     </div>
+
+                    {/* 5. Liquid Runway */}
+                    <div className="p-3 md:p-6 rounded-xl bg-zinc-900/50 border border-white/5">
+                      <h3 className="text-zinc-400 text-sm font-medium uppercase tracking-wider mb-2 md:mb-4 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-[#41d288]"></span>
+                        Liquid Runway
+                      </h3>
+                      <div className="w-full h-80 chart-container-responsive" style={{ width: '100%', height: 320, minHeight: 320, position: 'relative' }}>
+                        <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                          <LineChart data={processedTrajectory} margin={{ top: 5, right: 20, bottom: 60, left: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              stroke="#71717a"
+                              tickFormatter={(val) => new Date(val).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+                              tick={{ fontSize: 10, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                            />
+                            <YAxis
+                              stroke="#71717a"
+                              tickFormatter={(val) => `${val}m`}
+                              tick={{ fontSize: 12, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                              domain={[0, 'auto']}
+                            />
+                            <RechartsTooltip content={<ChartTooltip />} />
+                            <Legend iconSize={10} wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} verticalAlign="bottom" />
+                            <Line type="monotone" dataKey="liquidRunway" name="Months of Liquid Runway" stroke="#41d288" strokeWidth={2} dot={false} connectNulls={false} />
+                            {processedTrajectory.filter(p => p.currencyChanged).map(p => (
+                              <ReferenceLine key={`cur-lr-${p.date}`} x={p.date} stroke="#eaca6a" strokeDasharray="4 2" />
+                            ))}
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+
+                    {/* 6. Asset Allocation */}
+                    <div className="p-3 md:p-6 rounded-xl bg-zinc-900/50 border border-white/5">
+                      <h3 className="text-zinc-400 text-sm font-medium uppercase tracking-wider mb-2 md:mb-4 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-[#6b8afd]"></span>
+                        Asset Allocation
+                      </h3>
+                      <div className="w-full h-80 chart-container-responsive" style={{ width: '100%', height: 320, minHeight: 320, position: 'relative' }}>
+                        <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                          <AreaChart data={processedTrajectory} margin={{ top: 5, right: 20, bottom: 60, left: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              stroke="#71717a"
+                              tickFormatter={(val) => new Date(val).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+                              tick={{ fontSize: 10, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                            />
+                            <YAxis
+                              stroke="#71717a"
+                              tickFormatter={(val) => `${getCurrencySymbol(currency)}${val / 1000}k`}
+                              tick={{ fontSize: 12, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                            />
+                            <RechartsTooltip content={<ChartTooltip />} />
+                            <Legend iconSize={10} wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} verticalAlign="bottom" />
+                            {ASSET_CLASS_OPTIONS.map(({ value, label }) => (
+                              <Area key={value} type="monotone" dataKey={`assetAllocation.${value}`} name={label} stackId="1" stroke={ASSET_CLASS_COLORS[value]} fill={ASSET_CLASS_COLORS[value]} />
+                            ))}
+                            {processedTrajectory.filter(p => p.currencyChanged).map(p => (
+                              <ReferenceLine key={`cur-aa-${p.date}`} x={p.date} stroke="#eaca6a" strokeDasharray="4 2" />
+                            ))}
+                          </AreaChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
+
+                    {/* 7. Planned vs Actual Cashflow */}
+                    <div className="p-3 md:p-6 rounded-xl bg-zinc-900/50 border border-white/5">
+                      <h3 className="text-zinc-400 text-sm font-medium uppercase tracking-wider mb-2 md:mb-4 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full bg-[#eaca6a]"></span>
+                        Planned vs Actual Cashflow
+                      </h3>
+                      <div className="w-full h-80 chart-container-responsive" style={{ width: '100%', height: 320, minHeight: 320, position: 'relative' }}>
+                        <ResponsiveContainer width="100%" height="100%" minWidth={0}>
+                          <ComposedChart data={processedTrajectory} margin={{ top: 5, right: 20, bottom: 60, left: 10 }}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#333" vertical={false} />
+                            <XAxis
+                              dataKey="date"
+                              stroke="#71717a"
+                              tickFormatter={(val) => new Date(val).toLocaleDateString(undefined, { month: 'short', year: '2-digit' })}
+                              tick={{ fontSize: 10, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                            />
+                            <YAxis
+                              stroke="#71717a"
+                              tickFormatter={(val) => `${getCurrencySymbol(currency)}${val / 1000}k`}
+                              tick={{ fontSize: 12, fill: '#71717a' }}
+                              style={{ background: 'none' }}
+                            />
+                            <RechartsTooltip content={<ChartTooltip />} />
+                            <Legend iconSize={10} wrapperStyle={{ paddingTop: '10px', fontSize: '12px' }} verticalAlign="bottom" />
+                            <ReferenceLine y={0} stroke="#52525b" />
+                            <Bar dataKey="actualCashflow" name="Actual (transactions)" fill="#794cb5" radius={[4, 4, 0, 0]} />
+                            <Line type="monotone" dataKey="netCashflow" name="Planned (monthly statement)" stroke="#eaca6a" strokeWidth={2} dot={false} />
+                            {processedTrajectory.filter(p => p.currencyChanged).map(p => (
+                              <ReferenceLine key={`cur-cf-${p.date}`} x={p.date} stroke="#eaca6a" strokeDasharray="4 2" />
+                            ))}
+                          </ComposedChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </div>
                   </div>
                 </div>
               </>
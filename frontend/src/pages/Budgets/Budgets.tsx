@@ -0,0 +1,358 @@
+import React, { useState } from 'react';
+import Sidebar from '../../components/Sidebar/Sidebar';
+import Header from '../../components/Header/Header';
+import FinancialProgressBar from '../../components/Shared/FinancialProgressBar';
+import FinancialTable, { ColumnDefinition } from '../../components/Shared/FinancialTable';
+import { useCurrency } from '../../context/CurrencyContext';
+import { formatCurrency } from '../../utils/currency.utils';
+import { useExpenseCategoriesQuery } from '../../hooks/queries/useExpenseCategories';
+import {
+  useExpensesQuery,
+  useBudgetsQuery,
+  useBudgetReportQuery,
+  useBudgetHistoryQuery,
+  useAddBudgetMutation,
+  useUpdateBudgetMutation,
+  useDeleteBudgetMutation,
+  BudgetItem,
+  BudgetRollover,
+  BudgetStatus,
+  BUDGET_ROLLOVER_LABELS,
+} from '../../hooks/queries/useExpenses';
+
+const HISTORY_MONTHS = 12;
+
+type HistoryRow = {
+  id: string;
+  available: number;
+  planned: number;
+  actual: number;
+  actualVariance: number;
+  overBudgetCount: number;
+};
+
+/**
+ * Monthly budgets on expenses and categories: this month's spending against
+ * each limit, and how budget, plan and actual compared in past months.
+ */
+const Budgets: React.FC = () => {
+  const { currency } = useCurrency();
+  const [sidebarOpen, setSidebarOpen] = useState<boolean>(false);
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+
+  // TanStack Query hooks
+  const { data: budgets } = useBudgetsQuery();
+  const { data: report, isLoading, error: queryError } = useBudgetReportQuery(month);
+  const { data: history } = useBudgetHistoryQuery(HISTORY_MONTHS);
+  const { data: expenses } = useExpensesQuery();
+  const { data: categories } = useExpenseCategoriesQuery();
+  const addBudgetMutation = useAddBudgetMutation();
+  const updateBudgetMutation = useUpdateBudgetMutation();
+  const deleteBudgetMutation = useDeleteBudgetMutation();
+
+  const [editingItem, setEditingItem] = useState<BudgetItem | null>(null);
+  // "expense:<id>" or "category:<id>"
+  const [target, setTarget] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [rollover, setRollover] = useState<BudgetRollover>('NONE');
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  const saving = addBudgetMutation.isPending || updateBudgetMutation.isPending;
+
+  const describeTarget = (item: { expenseId: number | null; categoryId: number | null }) => {
+    if (item.expenseId !== null) {
+      return expenses?.find((expense) => expense.id === item.expenseId)?.name ?? 'Expense';
+    }
+    return categories?.find((category) => category.id === item.categoryId)?.path ?? 'Category';
+  };
+
+  const resetForm = () => {
+    setEditingItem(null);
+    setTarget('');
+    setMonthlyLimit('');
+    setRollover('NONE');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!monthlyLimit.trim() || saving) return;
+
+    try {
+      setLocalError(null);
+      if (editingItem !== null) {
+        await updateBudgetMutation.mutateAsync({
+          id: editingItem.id,
+          monthlyLimit: parseFloat(monthlyLimit),
+          rollover,
+        });
+      } else {
+        if (!target) return;
+        const [kind, id] = target.split(':');
+        await addBudgetMutation.mutateAsync({
+          expenseId: kind === 'expense' ? Number(id) : null,
+          categoryId: kind === 'category' ? Number(id) : null,
+          monthlyLimit: parseFloat(monthlyLimit),
+          rollover,
+        });
+      }
+      resetForm();
+    } catch (err: unknown) {
+      // A second budget on the same expense or category is rejected with a reason
+      setLocalError(err instanceof Error ? err.message : 'Failed to save budget');
+    }
+  };
+
+  const handleEdit = (item: BudgetItem) => {
+    setEditingItem(item);
+    setTarget(item.expenseId !== null ? `expense:${item.expenseId}` : `category:${item.categoryId}`);
+    setMonthlyLimit(item.monthlyLimit.toString());
+    setRollover(item.rollover);
+  };
+
+  const handleDelete = async (item: BudgetItem) => {
+    if (deleteBudgetMutation.isPending) return;
+
+    try {
+      setLocalError(null);
+      await deleteBudgetMutation.mutateAsync({ id: item.id });
+    } catch (err: unknown) {
+      setLocalError(err instanceof Error ? err.message : 'Failed to delete budget');
+    }
+  };
+
+  const renderStatus = (status: BudgetStatus) => {
+    const budget = budgets?.find((item) => item.id === status.budgetId);
+    return (
+      <div key={status.budgetId} className="mb-5">
+        <FinancialProgressBar
+          label={describeTarget(status)}
+          currentValue={status.actual}
+          totalValue={status.available}
+          formattedCurrentValue={formatCurrency(status.actual, currency)}
+          formattedTotalValue={formatCurrency(status.available, currency)}
+          targetLabel="budget"
+          variant={status.overBudget ? 'red' : status.remaining < status.available * 0.1 ? 'gold' : 'green'}
+        />
+        <div className="flex flex-wrap justify-between gap-2 rf-hint mt-1">
+          <span>
+            Planned {formatCurrency(status.planned, currency)}
+            {status.carriedOver !== 0 && ` · carried over ${formatCurrency(status.carriedOver, currency)}`}
+            {' · '}{BUDGET_ROLLOVER_LABELS[status.rollover]}
+          </span>
+          <span style={{ color: status.overBudget ? '#ff7d7e' : '#41d288' }}>
+            {status.overBudget
+              ? `Over by ${formatCurrency(-status.remaining, currency)}`
+              : `${formatCurrency(status.remaining, currency)} left`}
+            {status.overPlanned && ' · plan exceeds limit'}
+          </span>
+        </div>
+        {budget && (
+          <div className="rf-edit-actions mt-2">
+            <button
+              type="button"
+              className="rf-btn-cancel"
+              onClick={() => handleEdit(budget)}
+              disabled={saving || editingItem !== null}
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              className="rf-btn-cancel"
+              onClick={() => handleDelete(budget)}
+              disabled={deleteBudgetMutation.isPending}
+            >
+              {deleteBudgetMutation.isPending && deleteBudgetMutation.variables?.id === budget.id ? 'Removing...' : 'Remove'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Column definitions for the variance history
+  const historyColumns: ColumnDefinition<HistoryRow>[] = [
+    { header: 'Month', accessor: 'id' },
+    { header: 'Budget', accessor: (row) => formatCurrency(row.available, currency), align: 'right' },
+    { header: 'Planned', accessor: (row) => formatCurrency(row.planned, currency), align: 'right' },
+    { header: 'Actual', accessor: (row) => formatCurrency(row.actual, currency), align: 'right' },
+    {
+      header: 'Variance',
+      accessor: (row) => (
+        <span style={{ color: row.actualVariance >= 0 ? '#41d288' : '#ff7d7e' }}>
+          {formatCurrency(row.actualVariance, currency)}
+        </span>
+      ),
+      align: 'right',
+    },
+    { header: 'Over Budget', accessor: 'overBudgetCount', align: 'right' },
+  ];
+
+  const historyRows: HistoryRow[] = (history ?? [])
+    .map((entry) => ({ id: entry.month, ...entry.totals }))
+    .reverse();
+
+  // Expenses and categories that do not have a budget yet
+  const budgetedExpenses = new Set((budgets ?? []).map((item) => item.expenseId));
+  const budgetedCategories = new Set((budgets ?? []).map((item) => item.categoryId));
+
+  // Display error from hook or local error
+  const displayError =
+    localError || (queryError instanceof Error ? queryError.message : queryError ? String(queryError) : null);
+
+  const monthPicker = (
+    <input
+      className="rf-input max-w-[170px]"
+      type="month"
+      value={month}
+      onChange={(e) => e.target.value && setMonth(e.target.value)}
+      aria-label="Month"
+    />
+  );
+
+  return (
+    <div className="flex flex-col h-screen w-full bg-black text-white overflow-hidden">
+      <Header
+        title="Budgets"
+        hideActions
+        rightContent={monthPicker}
+        onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
+        sidebarOpen={sidebarOpen}
+      />
+      <div className="flex flex-1 overflow-hidden relative">
+        <Sidebar
+          mobileOpen={sidebarOpen}
+          onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
+        />
+        <main className="flex-1 overflow-y-auto p-6 md:p-8">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <div className="rf-card">
+              <div className="rf-section-header">{month}</div>
+
+              {displayError && <p className="rf-error">{displayError}</p>}
+
+              {isLoading ? (
+                <p className="text-center text-[#d4af37] p-5">Loading budgets...</p>
+              ) : report && report.budgets.length > 0 ? (
+                <>
+                  <div className="flex flex-wrap gap-6 mb-5">
+                    <div>
+                      <div className="rf-hint">Budgeted</div>
+                      <div className="font-bold">{formatCurrency(report.totals.available, currency)}</div>
+                    </div>
+                    <div>
+                      <div className="rf-hint">Planned</div>
+                      <div className="font-bold">{formatCurrency(report.totals.planned, currency)}</div>
+                    </div>
+                    <div>
+                      <div className="rf-hint">Spent</div>
+                      <div className="font-bold">{formatCurrency(report.totals.actual, currency)}</div>
+                    </div>
+                    <div>
+                      <div className="rf-hint">Over Budget</div>
+                      <div className="font-bold" style={{ color: report.totals.overBudgetCount > 0 ? '#ff7d7e' : '#41d288' }}>
+                        {report.totals.overBudgetCount}
+                      </div>
+                    </div>
+                  </div>
+                  {report.budgets.map(renderStatus)}
+                </>
+              ) : (
+                <p className="rf-hint mb-4">No budgets in effect this month.</p>
+              )}
+
+              <form onSubmit={handleSubmit} className="flex flex-wrap gap-3">
+                <select
+                  className="rf-select flex-[2] min-w-[180px]"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  disabled={saving || editingItem !== null}
+                >
+                  <option value="">Budget for...</option>
+                  <optgroup label="Categories">
+                    {(categories ?? [])
+                      .filter((category) => editingItem !== null || !budgetedCategories.has(category.id))
+                      .map((category) => (
+                        <option key={category.id} value={`category:${category.id}`}>{category.path}</option>
+                      ))}
+                  </optgroup>
+                  <optgroup label="Expenses">
+                    {(expenses ?? [])
+                      .filter((expense) => editingItem !== null || !budgetedExpenses.has(expense.id))
+                      .map((expense) => (
+                        <option key={expense.id} value={`expense:${expense.id}`}>{expense.name}</option>
+                      ))}
+                  </optgroup>
+                </select>
+                <input
+                  className="rf-input flex-1 min-w-[120px]"
+                  type="number"
+                  placeholder="Monthly limit"
+                  min="0"
+                  step="0.01"
+                  value={monthlyLimit}
+                  onChange={(e) => setMonthlyLimit(e.target.value)}
+                  disabled={saving}
+                />
+                <select
+                  className="rf-select flex-1 min-w-[150px]"
+                  title="What happens to unused or overspent budget at the end of the month"
+                  value={rollover}
+                  onChange={(e) => setRollover(e.target.value as BudgetRollover)}
+                  disabled={saving}
+                >
+                  {(Object.keys(BUDGET_ROLLOVER_LABELS) as BudgetRollover[]).map((rule) => (
+                    <option key={rule} value={rule}>{BUDGET_ROLLOVER_LABELS[rule]}</option>
+                  ))}
+                </select>
+                {editingItem !== null ? (
+                  <div className="rf-edit-actions w-full">
+                    <button
+                      type="submit"
+                      className="rf-btn-save"
+                      disabled={saving || !monthlyLimit.trim()}
+                    >
+                      {updateBudgetMutation.isPending ? 'Saving...' : 'Save'}
+                    </button>
+                    <button
+                      type="button"
+                      className="rf-btn-cancel"
+                      onClick={resetForm}
+                      disabled={saving}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    className="rf-btn-primary w-full"
+                    type="submit"
+                    disabled={saving || !target || !monthlyLimit.trim()}
+                  >
+                    {addBudgetMutation.isPending ? 'Adding...' : 'Add Budget'}
+                  </button>
+                )}
+              </form>
+            </div>
+
+            <div className="rf-card">
+              <div className="rf-section-header">Variance History</div>
+              <p className="rf-hint mb-3">
+                Replayed from the event log, so each month uses the limits and planned expenses that applied then.
+              </p>
+              <FinancialTable
+                title=""
+                data={historyRows}
+                columns={historyColumns}
+                emptyMessage="No budget history yet."
+                noCard={true}
+              />
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default Budgets;
@@ -11,9 +11,12 @@ import SummarySection from '../../components/SummarySection/SummarySection';
 import ExpensesSection from '../../components/ExpensesSection/ExpensesSection';
 import AssetsSection from '../../components/AssetsSection/AssetsSection';
 import LiabilitiesSection from '../../components/LiabilitiesSection/LiabilitiesSection';
+import TransactionsSection from '../../components/TransactionsSection/TransactionsSection';
+import GoalsSection from '../../components/GoalsSection/GoalsSection';
 import RightSidePanel from '../../components/RightSidePanel/RightSidePanel';
 import SakiAssistant from '../../components/RightSidePanel/SakiAssistant';
 import ActivityFeed from '../../components/Dashboard/ActivityFeed';
+import EndingSoon from '../../components/Dashboard/EndingSoon';
 import ErrorBoundary from '../../components/ErrorBoundary/ErrorBoundary';
 
 type PanelContent = 'assistant' | 'activity';
@@ -183,12 +186,19 @@ const Dashboard: React.FC = () => {
                     </div>
                   </div>
                 </div>
+                <EndingSoon className="rf-ending-soon" />
                 {showBalanceSheet && balanceSheetExists && (
                   <div className="rf-balance-sheet">
                     <AssetsSection />
                     <LiabilitiesSection />
                   </div>
                 )}
+                <div className="rf-goals">
+                  <GoalsSection />
+                </div>
+                <div className="rf-transactions">
+                  <TransactionsSection />
+                </div>
               </ErrorBoundary>
             )}
           </QueryErrorResetBoundary>
@@ -1,20 +1,35 @@
 import * as React from 'react';
 import { JSX, useEffect, useMemo, useState, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../../context/AuthContext';
 import { eventLogsAPI } from '../../utils/api';
 
-type EventType = 'Income' | 'Expense' | 'Asset' | 'Liability' | 'Cash' | 'User';
+type EventType = 'Income' | 'Expense' | 'Asset' | 'Liability' | 'Cash' | 'Budget' | 'User';
 
 interface FinancialEvent {
   id: string;
   timestamp: string;
+  effectiveDate?: string;
   type: EventType;
   description: string;
   valueChange: number;
   currencySymbol: string;
+  revertible: boolean;
+  revertsEventId?: number | null;
 }
 
+interface RevertPreview {
+  eventId: number;
+  action: 'RESTORE' | 'REMOVE' | 'RECREATE';
+  changes: { field: string; from: unknown; to: unknown }[];
+}
+
+const REVERTIBLE_ENTITY_TYPES = ['INCOME', 'EXPENSE', 'ASSET', 'LIABILITY', 'CASH_SAVINGS'];
+
+const formatPreviewValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : String(value);
+
 const parseNum = (v: any) => (typeof v === 'number' ? v : parseFloat(v));
 
 const parseJsonIfNeeded = (val: any) => {
@@ -42,6 +57,8 @@ const mapEntityType = (entityType: string, actionType?: string): EventType => {
       return 'Liability';
     case 'CASH_SAVINGS':
       return 'Cash';
+    case 'BUDGET':
+      return 'Budget';
     case 'USER':
       return 'User';
     default:
@@ -83,6 +100,7 @@ const ITEMS_PER_PAGE = 50;
 const EventLog: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [events, setEvents] = useState<FinancialEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
@@ -97,6 +115,9 @@ const EventLog: React.FC = () => {
   const [endDate, setEndDate] = useState<string>('');
   const [search, setSearch] = useState<string>('');
   const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const [revertPreview, setRevertPreview] = useState<RevertPreview | null>(null);
+  const [revertError, setRevertError] = useState<{ eventId: string; message: string } | null>(null);
+  const [reverting, setReverting] = useState(false);
 
   const observer = useRef<IntersectionObserver | null>(null);
   const lastEventElementRef = useCallback((node: HTMLTableRowElement | null) => {
@@ -198,6 +219,7 @@ const EventLog: React.FC = () => {
           Asset: 'ASSET',
           Liability: 'LIABILITY',
           Cash: 'CASH_SAVINGS',
+          Budget: 'BUDGET',
           User: 'USER',
         };
         if (map[typeFilter]) params.entityType = map[typeFilter];
@@ -221,6 +243,7 @@ const EventLog: React.FC = () => {
           case 'ASSET': desc = `${prefix}: Asset${name ? ' - ' + name : ''}`; break;
           case 'LIABILITY': desc = `${prefix}: Liability${name ? ' - ' + name : ''}`; break;
           case 'CASH_SAVINGS': desc = `${prefix}: Cash Savings`; break;
+          case 'BUDGET': desc = `${prefix}: Budget${afterValue?.monthlyLimit !== undefined ? ' - limit ' + afterValue.monthlyLimit : ''}`; break;
           case 'USER':
             if (ev.actionType === 'UPDATE' && afterValue?.currencyCode) {
               desc = `Currency Changed: ${beforeValue?.currencyCode || '?'} → ${afterValue.currencyCode}`;
@@ -245,10 +268,14 @@ const EventLog: React.FC = () => {
         return {
           id: String(ev.id),
           timestamp: ev.timestamp,
+          effectiveDate: ev.effectiveDate,
           type,
           description: desc,
           valueChange,
           currencySymbol: symbol,
+          revertible: REVERTIBLE_ENTITY_TYPES.includes((ev.entityType || '').toUpperCase()) &&
+            ev.entitySubtype !== 'INCOME_STATEMENT',
+          revertsEventId: ev.revertsEventId,
         } as FinancialEvent;
       });
 
@@ -294,6 +321,40 @@ const EventLog: React.FC = () => {
     return <>{parts}</>;
   };
 
+  // Events that already have a compensating revert among the loaded rows
+  const revertedIds = useMemo(
+    () => new Set(events.filter(ev => ev.revertsEventId).map(ev => String(ev.revertsEventId))),
+    [events]
+  );
+
+  const openRevertPreview = async (eventId: string) => {
+    setRevertError(null);
+    setRevertPreview(null);
+    try {
+      const data = await eventLogsAPI.previewRevert(Number(eventId));
+      setRevertPreview(data.preview);
+    } catch (err: any) {
+      setRevertError({ eventId, message: err?.message || 'Failed to preview revert' });
+    }
+  };
+
+  const confirmRevert = async () => {
+    if (!revertPreview) return;
+    setReverting(true);
+    try {
+      await eventLogsAPI.revertEvent(revertPreview.eventId);
+      setRevertPreview(null);
+      // Live entities changed, so every cached financial query is stale
+      queryClient.invalidateQueries();
+      loadEvents(true);
+    } catch (err: any) {
+      setRevertError({ eventId: String(revertPreview.eventId), message: err?.message || 'Failed to revert event' });
+      setRevertPreview(null);
+    } finally {
+      setReverting(false);
+    }
+  };
+
   const clearFilters = () => {
     setTypeFilter('All');
     setStartDate('');
@@ -323,6 +384,7 @@ const EventLog: React.FC = () => {
               <option value="Asset">Asset</option>
               <option value="Liability">Liability</option>
               <option value="Cash">Cash</option>
+              <option value="Budget">Budget</option>
               <option value="User">User</option>
             </select>
           </div>
@@ -369,6 +431,7 @@ const EventLog: React.FC = () => {
                 <th>Type</th>
                 <th>Description</th>
                 <th className="col-change">Change</th>
+                <th className="col-actions"></th>
               </tr>
             </thead>
             <tbody>
@@ -376,13 +439,19 @@ const EventLog: React.FC = () => {
                 const ts = new Date(ev.timestamp);
                 const isLast = index === events.length - 1;
                 return (
+                  <React.Fragment key={ev.id}>
                   <tr
-                    key={ev.id}
                     className={`row-${ev.type.toLowerCase()}`}
                     ref={isLast ? lastEventElementRef : null}
                   >
                     <td>
                       <div className="ts-main">{ts.toLocaleString()}</div>
+                      {ev.revertsEventId && <div className="revert-note">Reverts event #{ev.revertsEventId}</div>}
+                      {ev.effectiveDate && new Date(ev.effectiveDate).toDateString() !== ts.toDateString() && (
+                        <div className="ts-effective">
+                          Effective {new Date(ev.effectiveDate).toLocaleDateString()}
+                        </div>
+                      )}
                     </td>
                     <td className="type-cell">
                       {ev.id !== 'start' ? (
@@ -401,7 +470,58 @@ const EventLog: React.FC = () => {
                           : `${ev.valueChange >= 0 ? '+' : '-'}${sym}${abs}`;
                       })()}
                     </td>
+                    <td className="actions-cell">
+                      {ev.revertible && !revertedIds.has(ev.id) && (
+                        <button
+                          type="button"
+                          className="clear-btn"
+                          onClick={() => openRevertPreview(ev.id)}
+                          disabled={reverting}
+                        >
+                          Revert
+                        </button>
+                      )}
+                      {revertedIds.has(ev.id) && <span className="revert-note">Reverted</span>}
+                    </td>
                   </tr>
+                  {revertPreview && String(revertPreview.eventId) === ev.id && (
+                    <tr className="revert-preview-row">
+                      <td colSpan={5}>
+                        <div className="revert-preview">
+                          <div className="revert-preview-title">
+                            {revertPreview.action === 'REMOVE' && 'Reverting will remove this entry.'}
+                            {revertPreview.action === 'RECREATE' && 'Reverting will add this entry back as a new item.'}
+                            {revertPreview.action === 'RESTORE' && (revertPreview.changes.length > 0
+                              ? 'Reverting will restore the previous values:'
+                              : 'The current values already match; reverting changes nothing.')}
+                          </div>
+                          {revertPreview.action !== 'REMOVE' && revertPreview.changes.length > 0 && (
+                            <ul className="revert-preview-changes">
+                              {revertPreview.changes.map(change => (
+                                <li key={change.field}>
+                                  {change.field}: {formatPreviewValue(change.from)} → {formatPreviewValue(change.to)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          <div className="revert-preview-actions">
+                            <button type="button" className="clear-btn" onClick={confirmRevert} disabled={reverting}>
+                              {reverting ? 'Reverting...' : 'Confirm Revert'}
+                            </button>
+                            <button type="button" className="clear-btn" onClick={() => setRevertPreview(null)} disabled={reverting}>
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                  {revertError && revertError.eventId === ev.id && (
+                    <tr className="revert-preview-row">
+                      <td colSpan={5} className="revert-error">{revertError.message}</td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
@@ -2,4 +2,10 @@ export interface Currency {
   id: number;
   cur_symbol: string;
   cur_name: string;
+  /** ISO 4217 code (e.g. "JPY"); absent for currencies without one */
+  cur_code?: string | null;
+  /** Digits after the decimal point (0 for JPY, 3 for KWD) */
+  cur_minor_units?: number;
+  /** Locale the currency is usually written in (e.g. "de-DE") */
+  cur_locale?: string;
 }
@@ -33,7 +33,8 @@ export interface EventData {
 
 export interface Event {
   id: number;
-  timestamp: string; // ISO date string
+  timestamp: string; // ISO date string (when the event was recorded)
+  effectiveDate: string; // ISO date string (when the change took effect)
   actionType: ActionType;
   entityType: EntityType;
   entitySubtype: string | null;
@@ -41,6 +42,8 @@ export interface Event {
   afterValue: string | null;  // JSON string
   userId: number;
   entityId: number;
+  source?: string; // USER, INTEGRITY_REPAIR, REVERT, SCHEDULED or EXPIRY
+  revertsEventId?: number | null; // Set on events that undo another event
 }
 
 export interface ParsedEvent extends Omit<Event, 'beforeValue' | 'afterValue' | 'timestamp'> {
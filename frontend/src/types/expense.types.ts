@@ -1,5 +1,8 @@
+import { Frequency } from '../utils/frequency.utils';
+
 export interface Expense {
   id: number;
   name: string;
   amount: number;
+  frequency?: Frequency;
 }
\ No newline at end of file
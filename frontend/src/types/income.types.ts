@@ -1,6 +1,9 @@
+import { Frequency } from '../utils/frequency.utils';
+
 export interface IncomeLine {
   id: number;
   name: string;
   amount: number;
   type: 'Earned' | 'Portfolio' | 'Passive';
+  frequency?: Frequency;
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Start and end dates of income and expense lines
+ * Mirrors backend/src/domain/financial/activePeriods.ts: a line counts from
+ * activeFrom through activeUntil, both inclusive
+ */
+export interface ActivePeriod {
+  /** YYYY-MM-DD; null when the line always counted */
+  activeFrom: string | null;
+  /** YYYY-MM-DD; null when the line has no end */
+  activeUntil: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const todayKey = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Parse an active date from an API payload, which may be a full ISO timestamp
+ */
+export const normalizeActiveDate = (value: unknown): string | null => {
+  return typeof value === 'string' && value ? value.slice(0, 10) : null;
+};
+
+/**
+ * Whether a line counts on a day (YYYY-MM-DD, today by default)
+ */
+export const isActiveOn = (period: ActivePeriod, day: string = todayKey()): boolean => {
+  return (!period.activeFrom || period.activeFrom <= day)
+    && (!period.activeUntil || day <= period.activeUntil);
+};
+
+/**
+ * Whole days from today until a line's last active day; 0 on that day itself
+ */
+export const daysUntilEnd = (activeUntil: string, today: string = todayKey()): number => {
+  return Math.round((new Date(activeUntil).getTime() - new Date(today).getTime()) / DAY_MS);
+};
+
+/**
+ * Short label for a line's period, e.g. "until 2026-06-30"; empty when unbounded
+ */
+export const describeActivePeriod = (period: ActivePeriod): string => {
+  if (period.activeFrom && period.activeUntil) return `${period.activeFrom} – ${period.activeUntil}`;
+  if (period.activeFrom) return `from ${period.activeFrom}`;
+  if (period.activeUntil) return `until ${period.activeUntil}`;
+  return '';
+};
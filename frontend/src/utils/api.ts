@@ -277,6 +277,15 @@ export const authAPI = {
     });
   },
 
+  // Update number locale (null follows each currency's locale)
+  updateNumberLocale: async (locale: string | null) => {
+    return await apiRequest('/auth/locale', {
+      method: 'PUT',
+      body: JSON.stringify({ locale }),
+      requiresAuth: true,
+    });
+  },
+
   // Update password (persisted)
   updatePassword: async (currentPassword: string, newPassword: string) => {
     return await apiRequest('/auth/password', {
@@ -298,27 +307,51 @@ export const incomeAPI = {
   },
 
   // Add new income line
-  addIncomeLine: async (name: string, amount: number, type: string, quadrant?: string) => {
+  addIncomeLine: async (
+    name: string,
+    amount: number,
+    type: string,
+    quadrant?: string,
+    effectiveDate?: string,
+    frequency?: string,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null
+  ) => {
     return await apiRequest('/income', {
       method: 'POST',
-      body: JSON.stringify({ name, amount, type, quadrant }),
+      body: JSON.stringify({ name, amount, type, quadrant, effectiveDate, frequency, assetId, currencyId, activeFrom, activeUntil }),
       requiresAuth: true,
     });
   },
 
   // Update income line
-  updateIncomeLine: async (id: number, name: string, amount: number, type: string, quadrant?: string) => {
+  updateIncomeLine: async (
+    id: number,
+    name: string,
+    amount: number,
+    type: string,
+    quadrant?: string,
+    effectiveDate?: string,
+    frequency?: string,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null
+  ) => {
     return await apiRequest(`/income/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, amount, type, quadrant }),
+      body: JSON.stringify({ name, amount, type, quadrant, effectiveDate, frequency, assetId, currencyId, activeFrom, activeUntil }),
       requiresAuth: true,
     });
   },
 
   // Delete income line
-  deleteIncomeLine: async (id: number) => {
+  deleteIncomeLine: async (id: number, effectiveDate?: string) => {
     return await apiRequest(`/income/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ effectiveDate }),
       requiresAuth: true,
     });
   },
@@ -335,26 +368,137 @@ export const expensesAPI = {
   },
 
   // Add new expense
-  addExpense: async (name: string, amount: number) => {
+  addExpense: async (
+    name: string,
+    amount: number,
+    effectiveDate?: string,
+    frequency?: string,
+    categoryId?: number | null,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null,
+    liabilityId?: number | null
+  ) => {
     return await apiRequest('/expenses', {
       method: 'POST',
-      body: JSON.stringify({ name, amount }),
+      body: JSON.stringify({ name, amount, effectiveDate, frequency, categoryId, assetId, currencyId, activeFrom, activeUntil, liabilityId }),
       requiresAuth: true,
     });
   },
 
   // Update expense
-  updateExpense: async (id: number, name: string, amount: number) => {
+  updateExpense: async (
+    id: number,
+    name: string,
+    amount: number,
+    effectiveDate?: string,
+    frequency?: string,
+    categoryId?: number | null,
+    assetId?: number | null,
+    currencyId?: number | null,
+    activeFrom?: string | null,
+    activeUntil?: string | null,
+    liabilityId?: number | null
+  ) => {
     return await apiRequest(`/expenses/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, amount }),
+      body: JSON.stringify({ name, amount, effectiveDate, frequency, categoryId, assetId, currencyId, activeFrom, activeUntil, liabilityId }),
       requiresAuth: true,
     });
   },
 
   // Delete expense
-  deleteExpense: async (id: number) => {
+  deleteExpense: async (id: number, effectiveDate?: string) => {
     return await apiRequest(`/expenses/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ effectiveDate }),
+      requiresAuth: true,
+    });
+  },
+
+  // Get all budgets
+  getBudgets: async () => {
+    return await apiRequest('/expenses/budgets', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Add a budget for one expense or one category
+  addBudget: async (data: Record<string, unknown>) => {
+    return await apiRequest('/expenses/budgets', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Update the limit or rollover rule of a budget
+  updateBudget: async (id: number, data: Record<string, unknown>) => {
+    return await apiRequest(`/expenses/budgets/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a budget
+  deleteBudget: async (id: number) => {
+    return await apiRequest(`/expenses/budgets/${id}`, {
+      method: 'DELETE',
+      requiresAuth: true,
+    });
+  },
+
+  // Budget vs planned vs actual for a month (YYYY-MM)
+  getBudgetReport: async (month: string) => {
+    return await apiRequest(`/expenses/budgets/report?month=${encodeURIComponent(month)}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Monthly budget reports up to the current month
+  getBudgetHistory: async (months: number) => {
+    return await apiRequest(`/expenses/budgets/history?months=${months}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+};
+
+// Expense Category API calls
+export const expenseCategoriesAPI = {
+  // Get all categories (the default tree is created on first use)
+  getCategories: async () => {
+    return await apiRequest('/expense-categories', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Add new category
+  addCategory: async (name: string, classification: string, parentId?: number | null) => {
+    return await apiRequest('/expense-categories', {
+      method: 'POST',
+      body: JSON.stringify({ name, classification, parentId }),
+      requiresAuth: true,
+    });
+  },
+
+  // Rename, move or reclassify a category
+  updateCategory: async (id: number, name: string, classification: string, parentId?: number | null) => {
+    return await apiRequest(`/expense-categories/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name, classification, parentId }),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete an unused category
+  deleteCategory: async (id: number) => {
+    return await apiRequest(`/expense-categories/${id}`, {
       method: 'DELETE',
       requiresAuth: true,
     });
@@ -371,11 +515,41 @@ export const cashSavingsAPI = {
     });
   },
 
-  // Update cash savings amount
-  updateCashSavings: async (amount: number) => {
+  // Update the default cash account's balance
+  updateCashSavings: async (amount: number, effectiveDate?: string) => {
     return await apiRequest('/cash-savings', {
       method: 'PUT',
-      body: JSON.stringify({ amount }),
+      body: JSON.stringify({ amount, effectiveDate }),
+      requiresAuth: true,
+    });
+  },
+
+  // Add a cash account
+  addCashAccount: async (data: { name: string; amount: number; accountType?: string; effectiveDate?: string }) => {
+    return await apiRequest('/cash-savings/accounts', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Update a cash account
+  updateCashAccount: async (
+    id: number,
+    data: { name?: string; amount?: number; accountType?: string; effectiveDate?: string }
+  ) => {
+    return await apiRequest(`/cash-savings/accounts/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a cash account
+  deleteCashAccount: async (id: number, effectiveDate?: string) => {
+    return await apiRequest(`/cash-savings/accounts/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ effectiveDate }),
       requiresAuth: true,
     });
   },
@@ -399,6 +573,22 @@ export const balanceSheetAPI = {
       requiresAuth: true,
     });
   },
+
+  // Diff a user's replayed event stream against the live financial tables
+  verifyUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Write compensating events for any drift found in a user's event stream
+  repairUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity/repair`, {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
 };
 
 // Assets API calls
@@ -412,32 +602,56 @@ export const assetsAPI = {
   },
 
   // Add new asset
-  addAsset: async (name: string, value: number) => {
+  addAsset: async (
+    name: string,
+    value: number,
+    effectiveDate?: string,
+    assetClass?: string,
+    liquidity?: string,
+    currencyId?: number | null
+  ) => {
     return await apiRequest('/assets', {
       method: 'POST',
-      body: JSON.stringify({ name, value }),
+      body: JSON.stringify({ name, value, effectiveDate, assetClass, liquidity, currencyId }),
       requiresAuth: true,
     });
   },
 
   // Update asset
-  updateAsset: async (id: number, name: string, value: number) => {
+  updateAsset: async (
+    id: number,
+    name: string,
+    value: number,
+    effectiveDate?: string,
+    assetClass?: string,
+    liquidity?: string,
+    currencyId?: number | null
+  ) => {
     return await apiRequest(`/assets/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, value }),
+      body: JSON.stringify({ name, value, effectiveDate, assetClass, liquidity, currencyId }),
       requiresAuth: true,
     });
   },
 
   // Delete asset
-  deleteAsset: async (id: number) => {
+  deleteAsset: async (id: number, effectiveDate?: string) => {
     return await apiRequest(`/assets/${id}`, {
       method: 'DELETE',
+      body: JSON.stringify({ effectiveDate }),
       requiresAuth: true,
     });
   },
 };
 
+// Loan terms sent with a liability
+export interface LoanTermsPayload {
+  interestRate?: number | null;
+  minimumPayment?: number | null;
+  termMonths?: number | null;
+  startDate?: string | null;
+}
+
 // Liabilities API calls
 export const liabilitiesAPI = {
   // Get all liabilities
@@ -448,27 +662,275 @@ export const liabilitiesAPI = {
     });
   },
 
-  // Add new liability
-  addLiability: async (name: string, value: number) => {
+  // Add new liability; loan terms are optional
+  addLiability: async (
+    name: string,
+    value: number,
+    effectiveDate?: string,
+    loanTerms?: LoanTermsPayload,
+    assetId?: number | null,
+    currencyId?: number | null
+  ) => {
     return await apiRequest('/liabilities', {
       method: 'POST',
-      body: JSON.stringify({ name, value }),
+      body: JSON.stringify({ name, value, effectiveDate, ...loanTerms, assetId, currencyId }),
       requiresAuth: true,
     });
   },
 
-  // Update liability
-  updateLiability: async (id: number, name: string, value: number) => {
+  // Update liability; omitted loan terms, asset or currency are left unchanged, null clears them
+  updateLiability: async (
+    id: number,
+    name: string,
+    value: number,
+    effectiveDate?: string,
+    loanTerms?: LoanTermsPayload,
+    assetId?: number | null,
+    currencyId?: number | null
+  ) => {
     return await apiRequest(`/liabilities/${id}`, {
       method: 'PUT',
-      body: JSON.stringify({ name, value }),
+      body: JSON.stringify({ name, value, effectiveDate, ...loanTerms, assetId, currencyId }),
+      requiresAuth: true,
+    });
+  },
+
+  // Get the amortization schedule of a loan
+  getSchedule: async (id: number) => {
+    return await apiRequest(`/liabilities/${id}/schedule`, {
+      method: 'GET',
       requiresAuth: true,
     });
   },
 
   // Delete liability
-  deleteLiability: async (id: number) => {
+  deleteLiability: async (id: number, effectiveDate?: string) => {
     return await apiRequest(`/liabilities/${id}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ effectiveDate }),
+      requiresAuth: true,
+    });
+  },
+};
+
+// Debt payoff planner API calls
+export const debtPayoffAPI = {
+  // Compare snowball, avalanche and custom strategies (defaults come from the saved plan)
+  compareStrategies: async (extraPayment?: number, customOrder?: number[]) => {
+    const params = new URLSearchParams();
+    if (extraPayment !== undefined) params.set('extraPayment', String(extraPayment));
+    if (customOrder !== undefined) params.set('customOrder', customOrder.join(','));
+    const query = params.toString();
+    return await apiRequest(query ? `/debt-payoff?${query}` : '/debt-payoff', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Save the strategy that feeds the freedom-date projection
+  savePlan: async (strategy: string, extraPayment: number, customOrder: number[]) => {
+    return await apiRequest('/debt-payoff/plan', {
+      method: 'PUT',
+      body: JSON.stringify({ strategy, extraPayment, customOrder }),
+      requiresAuth: true,
+    });
+  },
+};
+
+// Transaction ledger API calls
+export const transactionsAPI = {
+  // Get transactions, newest first (optional inclusive date range)
+  getTransactions: async (from?: string, to?: string) => {
+    const params = new URLSearchParams();
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    const query = params.toString();
+    return await apiRequest(query ? `/transactions?${query}` : '/transactions', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Record a transaction
+  addTransaction: async (data: Record<string, unknown>) => {
+    return await apiRequest('/transactions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Update a transaction
+  updateTransaction: async (id: number, data: Record<string, unknown>) => {
+    return await apiRequest(`/transactions/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a transaction
+  deleteTransaction: async (id: number) => {
+    return await apiRequest(`/transactions/${id}`, {
+      method: 'DELETE',
+      requiresAuth: true,
+    });
+  },
+
+  // Compare a month (YYYY-MM) against the monthly statement
+  getPlanVsActual: async (month: string) => {
+    return await apiRequest(`/transactions/plan-vs-actual?month=${encodeURIComponent(month)}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+};
+
+// Financial goal API calls
+export const goalsAPI = {
+  // Get all goals
+  getGoals: async () => {
+    return await apiRequest('/goals', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Progress, projection and required contribution per goal
+  getGoalProgress: async () => {
+    return await apiRequest('/goals/progress', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Add a goal
+  addGoal: async (data: Record<string, unknown>) => {
+    return await apiRequest('/goals', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Update a goal
+  updateGoal: async (id: number, data: Record<string, unknown>) => {
+    return await apiRequest(`/goals/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a goal
+  deleteGoal: async (id: number) => {
+    return await apiRequest(`/goals/${id}`, {
+      method: 'DELETE',
+      requiresAuth: true,
+    });
+  },
+};
+
+// Scenario branch API calls
+export const scenarioBranchesAPI = {
+  // Get all branches with their number of changes
+  getBranches: async () => {
+    return await apiRequest('/scenario-branches', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Get a branch with its events
+  getBranch: async (id: number) => {
+    return await apiRequest(`/scenario-branches/${id}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Create a branch forking at a date (YYYY-MM-DD, today when omitted)
+  addBranch: async (data: { name: string; forkDate?: string }) => {
+    return await apiRequest('/scenario-branches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Rename a branch
+  updateBranch: async (id: number, name: string) => {
+    return await apiRequest(`/scenario-branches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a branch and its events
+  deleteBranch: async (id: number) => {
+    return await apiRequest(`/scenario-branches/${id}`, {
+      method: 'DELETE',
+      requiresAuth: true,
+    });
+  },
+
+  // Record hypothetical changes taking effect at the end of a day
+  addBranchChanges: async (id: number, effectiveDate: string, changes: Record<string, unknown>[]) => {
+    return await apiRequest(`/scenario-branches/${id}/changes`, {
+      method: 'POST',
+      body: JSON.stringify({ effectiveDate, changes }),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete one event of a branch
+  deleteBranchEvent: async (id: number, eventId: number) => {
+    return await apiRequest(`/scenario-branches/${id}/events/${eventId}`, {
+      method: 'DELETE',
+      requiresAuth: true,
+    });
+  },
+
+  // Trajectory of a branch next to the real one
+  getBranchTrajectory: async (
+    id: number,
+    startDate: string,
+    endDate: string,
+    interval: 'daily' | 'weekly' | 'monthly' = 'monthly',
+    currencyId?: number
+  ) => {
+    const currencyParam = currencyId !== undefined ? `&currencyId=${currencyId}` : '';
+    const url = `/scenario-branches/${id}/trajectory?startDate=${startDate}&endDate=${endDate}&interval=${interval}${currencyParam}`;
+    return await apiRequest(url, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+};
+
+// Planned change API calls
+export const plannedChangesAPI = {
+  // Get all planned changes, pending and past
+  getPlannedChanges: async () => {
+    return await apiRequest('/planned-changes', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Schedule changes taking effect on a future date (YYYY-MM-DD)
+  addPlannedChange: async (data: { label: string; effectiveDate: string; changes: Record<string, unknown>[] }) => {
+    return await apiRequest('/planned-changes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+      requiresAuth: true,
+    });
+  },
+
+  // Delete a pending or failed planned change
+  deletePlannedChange: async (id: number) => {
+    return await apiRequest(`/planned-changes/${id}`, {
       method: 'DELETE',
       requiresAuth: true,
     });
@@ -487,8 +949,18 @@ export const aiAPI = {
 
 // Analysis API calls
 export const analysisAPI = {
-  getFinancialSnapshot: async (date?: string) => {
-    const url = date ? `/analysis/snapshot?date=${date}` : '/analysis/snapshot';
+  // currencyId shows the snapshot in another currency at that date's rates;
+  // realBaseYear restates it in that year's purchasing power
+  getFinancialSnapshot: async (date?: string, currencyId?: number, realBaseYear?: number) => {
+    const params = new URLSearchParams();
+    if (date) params.set('date', date);
+    if (currencyId !== undefined) params.set('currencyId', String(currencyId));
+    if (realBaseYear !== undefined) {
+      params.set('real', 'true');
+      params.set('baseYear', String(realBaseYear));
+    }
+    const query = params.toString();
+    const url = query ? `/analysis/snapshot?${query}` : '/analysis/snapshot';
     return await apiRequest(url, {
       method: 'GET',
       requiresAuth: true,
@@ -498,14 +970,62 @@ export const analysisAPI = {
   getFinancialTrajectory: async (
     startDate: string,
     endDate: string,
-    interval: 'daily' | 'weekly' | 'monthly' = 'monthly'
+    interval: 'daily' | 'weekly' | 'monthly' = 'monthly',
+    currencyId?: number,
+    realBaseYear?: number
   ) => {
-    const url = `/analysis/trajectory?startDate=${startDate}&endDate=${endDate}&interval=${interval}`;
+    const currencyParam = currencyId !== undefined ? `&currencyId=${currencyId}` : '';
+    const realParam = realBaseYear !== undefined ? `&real=true&baseYear=${realBaseYear}` : '';
+    const url = `/analysis/trajectory?startDate=${startDate}&endDate=${endDate}&interval=${interval}${currencyParam}${realParam}`;
     return await apiRequest(url, {
       method: 'GET',
       requiresAuth: true,
     });
   },
+  // Monte Carlo percentile bands for net worth, passive income and freedom; omitted assumptions use defaults
+  getProjection: async (assumptions: Record<string, number> = {}, currencyId?: number) => {
+    const params = new URLSearchParams();
+    Object.entries(assumptions).forEach(([key, value]) => params.set(key, String(value)));
+    if (currencyId !== undefined) params.set('currencyId', String(currencyId));
+    const query = params.toString();
+    return await apiRequest(query ? `/analysis/projection?${query}` : '/analysis/projection', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Apply hypothetical changes to the current state and compare snapshots; nothing is saved
+  simulateScenario: async (changes: Record<string, unknown>[], currencyId?: number) => {
+    return await apiRequest('/analysis/scenario', {
+      method: 'POST',
+      body: JSON.stringify({ changes, currencyId }),
+      requiresAuth: true,
+    });
+  },
+
+  // Recompute cached monthly checkpoints from the event stream
+  rebuildSnapshots: async () => {
+    return await apiRequest('/analysis/snapshots/rebuild', {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
+
+  // Diff a user's replayed event stream against the live financial tables
+  verifyUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Write compensating events for any drift found in a user's event stream
+  repairUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity/repair`, {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
 };
 
 // Events API calls
@@ -544,6 +1064,30 @@ export const adminAPI = {
       requiresAuth: true,
     });
   },
+
+  // Rebuild a user's cached snapshots from their event stream
+  rebuildUserSnapshots: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/snapshots/rebuild`, {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
+
+  // Diff a user's replayed event stream against the live financial tables
+  verifyUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Write compensating events for any drift found in a user's event stream
+  repairUserIntegrity: async (userId: number) => {
+    return await apiRequest(`/admin/users/${userId}/integrity/repair`, {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
 };
 
 // Events API calls
@@ -581,6 +1125,22 @@ export const eventLogsAPI = {
       requiresAuth: true,
     });
   },
+
+  // Preview what reverting an event would change
+  previewRevert: async (eventId: number) => {
+    return await apiRequest(`/events/${eventId}/revert/preview`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Revert an event; the server logs a compensating event linked to it
+  revertEvent: async (eventId: number) => {
+    return await apiRequest(`/events/${eventId}/revert`, {
+      method: 'POST',
+      requiresAuth: true,
+    });
+  },
 };
 
 // Currency API calls
@@ -615,11 +1175,79 @@ export const currencyAPI = {
     });
   },
 
-  // Update user's preferred currency
-  updateUserCurrency: async (currencyId: number) => {
+  // Update user's preferred currency, optionally converting amounts held in the old one
+  updateUserCurrency: async (currencyId: number, convert?: boolean, rate?: number) => {
     return await apiRequest('/currency/user', {
       method: 'PUT',
-      body: JSON.stringify({ currencyId }),
+      body: JSON.stringify({ currencyId, convert, rate }),
+      requiresAuth: true,
+    });
+  },
+
+  // Preview the amounts converting to a new preferred currency would change
+  getCurrencyConversionPreview: async (currencyId: number, rate?: number) => {
+    const params = new URLSearchParams({ currencyId: String(currencyId) });
+    if (rate !== undefined) params.set('rate', String(rate));
+    return await apiRequest(`/currency/user/conversion-preview?${params.toString()}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Get exchange rates used to convert entity amounts
+  getExchangeRates: async () => {
+    return await apiRequest('/currency/rates', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Get the dated exchange rate history, optionally for one currency pair
+  getExchangeRateHistory: async (fromCurrencyId?: number, toCurrencyId?: number) => {
+    const params = new URLSearchParams();
+    if (fromCurrencyId !== undefined) params.set('fromCurrencyId', String(fromCurrencyId));
+    if (toCurrencyId !== undefined) params.set('toCurrencyId', String(toCurrencyId));
+    const query = params.toString();
+    return await apiRequest(query ? `/currency/rates/history?${query}` : '/currency/rates/history', {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Record exchange rates, today or on a past YYYY-MM-DD date (admin only)
+  updateExchangeRates: async (
+    rates: { fromCurrencyId: number; toCurrencyId: number; rate: number; effectiveDate?: string }[]
+  ) => {
+    return await apiRequest('/currency/rates', {
+      method: 'PUT',
+      body: JSON.stringify({ rates }),
+      requiresAuth: true,
+    });
+  },
+
+  // Import exchange rates from "from,to,rate[,date]" CSV text (admin only)
+  importExchangeRates: async (csv: string) => {
+    return await apiRequest('/currency/rates/import', {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
+      requiresAuth: true,
+    });
+  },
+
+  // Get the price index used for real-terms analysis, optionally for one currency
+  getInflationIndex: async (currencyId?: number) => {
+    const query = currencyId !== undefined ? `?currencyId=${currencyId}` : '';
+    return await apiRequest(`/currency/inflation${query}`, {
+      method: 'GET',
+      requiresAuth: true,
+    });
+  },
+
+  // Import price index values from "currency,date,value" CSV text (admin only)
+  importInflationIndex: async (csv: string) => {
+    return await apiRequest('/currency/inflation/import', {
+      method: 'POST',
+      body: JSON.stringify({ csv }),
       requiresAuth: true,
     });
   },
@@ -0,0 +1,74 @@
+/**
+ * Asset classes and liquidity tiers
+ * Mirrors backend/src/domain/financial/assetClasses.ts
+ */
+export type AssetClass =
+  | 'CASH_EQUIVALENT'
+  | 'EQUITIES'
+  | 'BONDS'
+  | 'REAL_ESTATE'
+  | 'VEHICLE'
+  | 'BUSINESS'
+  | 'RETIREMENT'
+  | 'CRYPTO'
+  | 'COLLECTIBLE'
+  | 'OTHER';
+
+export type LiquidityTier = 'LIQUID' | 'SEMI_LIQUID' | 'ILLIQUID';
+
+export const ASSET_CLASS_OPTIONS: { value: AssetClass; label: string }[] = [
+  { value: 'CASH_EQUIVALENT', label: 'Cash Equivalent' },
+  { value: 'EQUITIES', label: 'Equities' },
+  { value: 'BONDS', label: 'Bonds' },
+  { value: 'REAL_ESTATE', label: 'Real Estate' },
+  { value: 'VEHICLE', label: 'Vehicle' },
+  { value: 'BUSINESS', label: 'Business' },
+  { value: 'RETIREMENT', label: 'Retirement' },
+  { value: 'CRYPTO', label: 'Crypto' },
+  { value: 'COLLECTIBLE', label: 'Collectible' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+export const LIQUIDITY_OPTIONS: { value: LiquidityTier; label: string }[] = [
+  { value: 'LIQUID', label: 'Liquid' },
+  { value: 'SEMI_LIQUID', label: 'Semi-liquid' },
+  { value: 'ILLIQUID', label: 'Illiquid' },
+];
+
+// Liquidity assumed when the user picks a class without choosing a tier
+export const DEFAULT_LIQUIDITY: Record<AssetClass, LiquidityTier> = {
+  CASH_EQUIVALENT: 'LIQUID',
+  EQUITIES: 'LIQUID',
+  BONDS: 'LIQUID',
+  CRYPTO: 'LIQUID',
+  RETIREMENT: 'SEMI_LIQUID',
+  VEHICLE: 'SEMI_LIQUID',
+  COLLECTIBLE: 'SEMI_LIQUID',
+  REAL_ESTATE: 'ILLIQUID',
+  BUSINESS: 'ILLIQUID',
+  OTHER: 'ILLIQUID',
+};
+
+/**
+ * Parse an asset class from an API payload, defaulting to OTHER
+ */
+export const normalizeAssetClass = (value: unknown): AssetClass => {
+  return typeof value === 'string' && value in DEFAULT_LIQUIDITY ? (value as AssetClass) : 'OTHER';
+};
+
+/**
+ * Parse a liquidity tier from an API payload, defaulting from the asset class
+ */
+export const normalizeLiquidity = (value: unknown, assetClass: AssetClass): LiquidityTier => {
+  return LIQUIDITY_OPTIONS.some((option) => option.value === value)
+    ? (value as LiquidityTier)
+    : DEFAULT_LIQUIDITY[assetClass];
+};
+
+export const getAssetClassLabel = (assetClass?: string | null): string => {
+  return ASSET_CLASS_OPTIONS.find((option) => option.value === assetClass)?.label ?? 'Other';
+};
+
+export const getLiquidityLabel = (liquidity?: string | null): string => {
+  return LIQUIDITY_OPTIONS.find((option) => option.value === liquidity)?.label ?? 'Illiquid';
+};
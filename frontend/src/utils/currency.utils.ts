@@ -1,30 +1,84 @@
 import { Currency } from '../types/currency.types';
 
+// User's number locale preference; null follows each currency's own locale
+let numberLocale: string | null = null;
+
+/**
+ * Set the locale every amount is formatted in (from the user's settings)
+ * @param locale - BCP 47 locale tag, or null to use each currency's locale
+ */
+export const setNumberLocale = (locale: string | null): void => {
+  numberLocale = locale;
+};
+
+/**
+ * Locale an amount in this currency is formatted in
+ */
+export const resolveLocale = (currency?: Currency | null): string | undefined =>
+  numberLocale ?? currency?.cur_locale ?? undefined;
+
+// Intl.NumberFormat is expensive to build, so formatters are reused per locale and currency
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (currency: Currency & { cur_code: string }): Intl.NumberFormat | null => {
+  const locale = resolveLocale(currency);
+  const digits = currency.cur_minor_units ?? 2;
+  const key = `${locale ?? ''}|${currency.cur_code}|${digits}`;
+
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: currency.cur_code,
+        minimumFractionDigits: 0,
+        maximumFractionDigits: digits,
+      });
+    } catch {
+      // Unknown code or locale: fall back to the symbol
+      return null;
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
 /**
- * Format a number as currency with the appropriate symbol
+ * Format a number as currency
+ * Currencies with an ISO code go through Intl.NumberFormat, so decimals, separators and
+ * symbol placement follow the locale; others prefix their symbol
  * @param amount - The amount to format
- * @param currency - The currency object with symbol and name
- * @returns Formatted currency string (e.g., "$1,234.56" or "€1.234,56")
+ * @param currency - The currency object with symbol, name and ISO metadata
+ * @returns Formatted currency string (e.g., "$1,234.56", "1.234,56 €" or "¥1,235")
  */
 export const formatCurrency = (amount: number, currency?: Currency | null): string => {
   // Default to USD if no currency provided
   const symbol = currency?.cur_symbol || '$';
   
   // Ensure the amount is a valid number
-  const numAmount = Number(amount);
+  let numAmount = Number(amount);
   if (isNaN(numAmount) || !isFinite(numAmount)) {
-    return `${symbol}0`;
+    numAmount = 0;
+  }
+
+  const formatter = currency?.cur_code ? getFormatter(currency as Currency & { cur_code: string }) : null;
+  if (formatter) {
+    return formatter.format(numAmount);
   }
   
   // Format the number with locale-appropriate formatting
-  const formattedAmount = numAmount.toLocaleString(undefined, {
+  const formattedAmount = numAmount.toLocaleString(resolveLocale(currency), {
     minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
+    maximumFractionDigits: currency?.cur_minor_units ?? 2,
   });
   
   return `${symbol}${formattedAmount}`;
 };
 
+// One decimal in the user's locale, e.g. "1.5" or "1,5"
+const formatScaled = (value: number, currency?: Currency | null): string =>
+  value.toLocaleString(resolveLocale(currency), { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
 /**
  * Format a number as compact currency for very large numbers (billions+)
  * Numbers below 1 billion are formatted normally with full digits
@@ -54,11 +108,11 @@ export const formatCurrencyCompact = (amount: number, currency?: Currency | null
       // Quintillions+ - just show ">999,999T"
       return `${sign}${symbol}>999,999T`;
     }
-    return `${sign}${symbol}${trillions.toLocaleString(undefined, { maximumFractionDigits: 0 })}T`;
+    return `${sign}${symbol}${trillions.toLocaleString(resolveLocale(currency), { maximumFractionDigits: 0 })}T`;
   } else if (absAmount >= 1e12) {
-    return `${sign}${symbol}${(absAmount / 1e12).toFixed(1)}T`;
+    return `${sign}${symbol}${formatScaled(absAmount / 1e12, currency)}T`;
   } else if (absAmount >= 1e9) {
-    return `${sign}${symbol}${(absAmount / 1e9).toFixed(1)}B`;
+    return `${sign}${symbol}${formatScaled(absAmount / 1e9, currency)}B`;
   } else {
     // For millions and below, use regular formatting
     return formatCurrency(numAmount, currency);
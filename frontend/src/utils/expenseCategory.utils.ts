@@ -0,0 +1,25 @@
+/**
+ * Expense classification in the Rich Dad sense
+ * Mirrors backend/src/domain/financial/expenseCategories.ts
+ */
+export type ExpenseClassification = 'ESSENTIAL' | 'DISCRETIONARY' | 'DOODAD';
+
+export const CLASSIFICATION_OPTIONS: { value: ExpenseClassification; label: string }[] = [
+  { value: 'ESSENTIAL', label: 'Essential' },
+  { value: 'DISCRETIONARY', label: 'Discretionary' },
+  { value: 'DOODAD', label: 'Doodad' },
+];
+
+/**
+ * Get the display label for a classification; expenses without one are unclassified
+ */
+export const getClassificationLabel = (classification?: string | null): string => {
+  return CLASSIFICATION_OPTIONS.find((option) => option.value === classification)?.label ?? 'Unclassified';
+};
+
+/**
+ * Nesting depth of a category path ("Housing > Utilities" is depth 1)
+ */
+export const getCategoryDepth = (path: string): number => {
+  return path.split(' > ').length - 1;
+};
@@ -0,0 +1,73 @@
+/**
+ * Recurrence frequencies for income and expense lines
+ * Mirrors backend/src/domain/financial/frequency.ts
+ */
+export type Frequency =
+  | 'WEEKLY'
+  | 'BI_WEEKLY'
+  | 'MONTHLY'
+  | 'QUARTERLY'
+  | 'SEMI_ANNUAL'
+  | 'ANNUAL'
+  | 'ONE_OFF';
+
+export const FREQUENCY_OPTIONS: { value: Frequency; label: string }[] = [
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'BI_WEEKLY', label: 'Bi-weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'QUARTERLY', label: 'Quarterly' },
+  { value: 'SEMI_ANNUAL', label: 'Semi-annual' },
+  { value: 'ANNUAL', label: 'Annual' },
+  { value: 'ONE_OFF', label: 'One-off' },
+];
+
+// Occurrences per month; one-off amounts do not recur
+const MONTHLY_FACTORS: Record<Frequency, number> = {
+  WEEKLY: 52 / 12,
+  BI_WEEKLY: 26 / 12,
+  MONTHLY: 1,
+  QUARTERLY: 1 / 3,
+  SEMI_ANNUAL: 1 / 6,
+  ANNUAL: 1 / 12,
+  ONE_OFF: 0,
+};
+
+/**
+ * Parse a frequency from an API payload, defaulting to monthly
+ */
+export const normalizeFrequency = (value: unknown): Frequency => {
+  return typeof value === 'string' && value in MONTHLY_FACTORS ? (value as Frequency) : 'MONTHLY';
+};
+
+/**
+ * Convert an amount at the given frequency to its monthly equivalent
+ * @param amount - The amount as entered
+ * @param frequency - How often the amount recurs (defaults to monthly)
+ */
+export const toMonthlyAmount = (amount: number, frequency?: Frequency | string | null): number => {
+  return amount * MONTHLY_FACTORS[normalizeFrequency(frequency)];
+};
+
+/**
+ * Get the display label for a frequency
+ */
+export const getFrequencyLabel = (frequency?: Frequency | string | null): string => {
+  const normalized = normalizeFrequency(frequency);
+  return FREQUENCY_OPTIONS.find((option) => option.value === normalized)?.label ?? 'Monthly';
+};
+
+/**
+ * Describe an amount with its frequency and monthly equivalent
+ * Monthly amounts are shown as-is, e.g. "$1,200 annual ($100/mo)"
+ * @param format - Currency formatter for the amounts
+ */
+export const describeRecurringAmount = (
+  amount: number,
+  frequency: Frequency | string | null | undefined,
+  format: (value: number) => string
+): string => {
+  const normalized = normalizeFrequency(frequency);
+  if (normalized === 'MONTHLY') return format(amount);
+  if (normalized === 'ONE_OFF') return `${format(amount)} one-off`;
+  return `${format(amount)} ${getFrequencyLabel(normalized).toLowerCase()} (${format(toMonthlyAmount(amount, normalized))}/mo)`;
+};
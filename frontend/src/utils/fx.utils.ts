@@ -0,0 +1,62 @@
+/**
+ * Client-side mirror of the backend FX conversion (src/domain/financial/fx.ts)
+ * so dashboard totals match the analysis service.
+ * A rate of 56.1 from USD to PHP means one USD buys 56.1 PHP.
+ */
+
+export interface ExchangeRateRow {
+  fromCurrencyId: number;
+  toCurrencyId: number;
+  rate: number;
+}
+
+/** Known rates keyed by "from:to" */
+export type FxRates = Map<string, number>;
+
+const rateKey = (fromCurrencyId: number, toCurrencyId: number) => `${fromCurrencyId}:${toCurrencyId}`;
+
+/**
+ * Build a rate lookup, adding the inverse of each row unless it is stored explicitly
+ */
+export const buildFxRates = (rows: ExchangeRateRow[]): FxRates => {
+  const rates: FxRates = new Map();
+
+  rows.forEach((row) => {
+    if (row.rate > 0) rates.set(rateKey(row.fromCurrencyId, row.toCurrencyId), row.rate);
+  });
+  rows.forEach((row) => {
+    const inverseKey = rateKey(row.toCurrencyId, row.fromCurrencyId);
+    if (row.rate > 0 && !rates.has(inverseKey)) rates.set(inverseKey, 1 / row.rate);
+  });
+
+  return rates;
+};
+
+/**
+ * Rate from one currency to another, directly or through one shared currency
+ * @returns null when no rate connects the two currencies
+ */
+export const getExchangeRate = (rates: FxRates, fromCurrencyId: number, toCurrencyId: number): number | null => {
+  if (fromCurrencyId === toCurrencyId) return 1;
+
+  const direct = rates.get(rateKey(fromCurrencyId, toCurrencyId));
+  if (direct !== undefined) return direct;
+
+  for (const [key, firstLeg] of rates) {
+    const [from, via] = key.split(':').map(Number);
+    if (from !== fromCurrencyId) continue;
+
+    const secondLeg = rates.get(rateKey(via, toCurrencyId));
+    if (secondLeg !== undefined) return firstLeg * secondLeg;
+  }
+
+  return null;
+};
+
+/**
+ * Convert an amount, keeping it at face value when no rate is known
+ */
+export const convertAmount = (amount: number, fromCurrencyId: number, toCurrencyId: number, rates: FxRates): number => {
+  const rate = getExchangeRate(rates, fromCurrencyId, toCurrencyId);
+  return rate === null ? amount : Number((amount * rate).toFixed(2));
+};